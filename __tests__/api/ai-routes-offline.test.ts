@@ -0,0 +1,59 @@
+/**
+ * Minimal tests for the AI routes on the fake LLM provider (no network)
+ */
+
+import { NextRequest } from 'next/server'
+
+process.env.LLM_PROVIDER = 'fake'
+
+import { POST as tradingSignal } from '@/app/api/trading-signal/route'
+import { POST as summarizeNews } from '@/app/api/summarize-news/route'
+import { POST as aiChat } from '@/app/api/ai-chat/route'
+
+const post = (path: string, body: unknown) =>
+  new NextRequest(`http://localhost:3000${path}`, { method: 'POST', body: JSON.stringify(body) })
+
+describe('AI routes offline', () => {
+  afterAll(() => {
+    delete process.env.LLM_PROVIDER
+  })
+
+  it('should return a schema-checked trading signal from the fake provider', async () => {
+    const response = await tradingSignal(
+      post('/api/trading-signal', { stockData: { ticker: 'AAPL', currentPrice: 150 } }),
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.signal).toEqual({
+      signal: 'HOLD',
+      strength: 'WEAK',
+      reason: 'Fake provider: no signal.',
+      confidence: 50,
+    })
+  })
+
+  it('should summarize news from the fake provider', async () => {
+    const response = await summarizeNews(
+      post('/api/summarize-news', { ticker: 'AAPL', news: [{ title: 'Apple ships', summary: 'New devices' }] }),
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.summary.sentiment).toBe('neutral')
+  })
+
+  it('should stream the fake chat reply as server-sent events', async () => {
+    const response = await aiChat(post('/api/ai-chat', { message: 'How is AAPL doing?', ticker: 'AAPL' }))
+    const events = (await response.text())
+      .split('\n\n')
+      .filter(Boolean)
+      .map((event) => JSON.parse(event.replace(/^data: /, '')))
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream')
+    const chunks = events.filter((event) => event.type === 'chunk')
+    expect(chunks.map((event) => event.content).join('')).toBe('Fake provider reply.')
+    expect(chunks[0].model).toBe('fake-model')
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', content: 'Fake provider reply.', steps: 1 })
+  })
+})
@@ -0,0 +1,94 @@
+/** Minimal tests for the chat tool loop */
+import { z } from 'zod'
+import { runChatAgent, type ChatAgentEvent } from '@/lib/ai/chat-agent'
+import { runChatTool, toolDefinitions, type ChatTool, type ChatToolContext } from '@/lib/ai/chat-tools'
+import { LLMRouter } from '@/lib/ai/llm-router'
+import { FakeLLMProvider } from '@/lib/ai/providers/fake-provider'
+import { LLMProviderRegistry } from '@/lib/ai/providers/registry'
+
+const quoteTool: ChatTool<{ symbol: string }> = {
+  name: 'get_quote',
+  description: 'Latest quote',
+  schema: z.object({ symbol: z.string().toUpperCase() }),
+  execute: async ({ symbol }) => ({ symbol, price: 123.45 }),
+}
+
+const context = { stockClient: {}, ownerId: null } as unknown as ChatToolContext
+
+const collect = async (events: AsyncIterable<ChatAgentEvent>) => {
+  const collected: ChatAgentEvent[] = []
+  for await (const event of events) collected.push(event)
+  return collected
+}
+
+describe('Chat agent', () => {
+  it('should run the requested tool and answer from its result', async () => {
+    const fake = new FakeLLMProvider()
+    const router = new LLMRouter(new LLMProviderRegistry().register(fake))
+
+    const events = await collect(
+      runChatAgent({
+        router,
+        system: 'You are a test assistant.',
+        messages: [{ role: 'user', content: 'What is $aapl trading at?' }],
+        context,
+        tools: [quoteTool],
+      }),
+    )
+
+    expect(events.map((event) => event.type)).toEqual(['tool-call', 'tool-result', 'chunk', 'chunk', 'chunk', 'done'])
+    expect(events[1]).toMatchObject({ name: 'get_quote', ok: true, result: { symbol: 'AAPL', price: 123.45 } })
+    expect(events[events.length - 1]).toMatchObject({ content: 'Fake provider reply.', steps: 2 })
+
+    // The second request carries the call and its serialized result
+    expect(fake.requests[1].messages.slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id: 'fake-call-1', name: 'get_quote', input: { symbol: 'AAPL' } }],
+      },
+      { role: 'tool', toolCallId: 'fake-call-1', name: 'get_quote', content: '{"symbol":"AAPL","price":123.45}' },
+    ])
+  })
+
+  it('should stop offering tools on the last step', async () => {
+    const fake = new FakeLLMProvider((request) =>
+      request.tools ? { toolCalls: [{ id: 'loop', name: 'get_quote', input: { symbol: 'msft' } }] } : 'Done.',
+    )
+    const router = new LLMRouter(new LLMProviderRegistry().register(fake))
+
+    const events = await collect(
+      runChatAgent({
+        router,
+        system: '',
+        messages: [{ role: 'user', content: 'Hi' }],
+        context,
+        tools: [quoteTool],
+        maxSteps: 2,
+      }),
+    )
+
+    expect(fake.requests.map((request) => Boolean(request.tools))).toEqual([true, false])
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', content: 'Done.', steps: 2 })
+  })
+
+  it('should report invalid arguments and unknown tools instead of throwing', async () => {
+    await expect(runChatTool({ id: '1', name: 'get_quote', input: {} }, context, [quoteTool])).resolves.toEqual({
+      ok: false,
+      error: 'Invalid arguments: symbol: Required',
+    })
+    await expect(runChatTool({ id: '2', name: 'drop_tables', input: {} }, context)).resolves.toEqual({
+      ok: false,
+      error: 'Unknown tool: drop_tables',
+    })
+    expect(toolDefinitions().map((tool) => tool.name)).toEqual([
+      'get_quote',
+      'get_candles',
+      'compute_indicator',
+      'get_risk_metrics',
+      'compare_tickers',
+      'get_watchlists',
+      'search_filings',
+    ])
+  })
+})
@@ -0,0 +1,67 @@
+/** Minimal tests for the LLM router */
+import { LLMRouter, LLMUnavailableError } from '@/lib/ai/llm-router'
+import { FakeLLMProvider } from '@/lib/ai/providers/fake-provider'
+import { LLMProviderRegistry, parseFeatureModels } from '@/lib/ai/providers/registry'
+import type { LLMProvider, LLMRequest } from '@/lib/ai/providers/types'
+
+/** A provider that fails every call, named so it can stand in for a real one */
+const broken = (name: string): LLMProvider => ({
+  name,
+  defaultModel: `${name}-model`,
+  generate: async () => {
+    throw new Error(`${name} is down`)
+  },
+  stream: async function* () {
+    throw new Error(`${name} is down`)
+  },
+})
+
+const call = { messages: [{ role: 'user' as const, content: 'Hello' }], maxOutputTokens: 100, temperature: 0 }
+
+describe('LLM router', () => {
+  beforeEach(() => jest.spyOn(console, 'warn').mockImplementation(() => {}))
+  afterEach(() => jest.restoreAllMocks())
+
+  it('should fall back down the feature choices and use each choice model', async () => {
+    const fake = new FakeLLMProvider((request: LLMRequest) => `${request.feature} via ${request.model}`)
+    const registry = new LLMProviderRegistry().register(broken('groq')).register(fake)
+    const router = new LLMRouter(registry, parseFeatureModels('chat=groq:llama-3.3-70b-versatile,fake:tiny'))
+
+    await expect(router.generate('chat', call)).resolves.toEqual({
+      text: 'chat via tiny',
+      provider: 'fake',
+      model: 'tiny',
+    })
+    // Not listed for this feature, so the fake is appended with its default model
+    expect(router.resolve('trading-signal').map((choice) => choice.model)).toEqual([
+      'llama-3.3-70b-versatile',
+      'fake-model',
+    ])
+  })
+
+  it('should fall back before the first streamed delta and report every failure', async () => {
+    const router = new LLMRouter(
+      new LLMProviderRegistry().register(broken('openrouter')).register(new FakeLLMProvider()),
+    )
+
+    const reply = await router.stream('chat', call)
+    let text = ''
+    for await (const delta of reply.textStream) text += delta
+
+    expect(reply.provider).toBe('fake')
+    expect(text).toBe('Fake provider reply.')
+
+    const failing = new LLMRouter(new LLMProviderRegistry().register(broken('groq')).register(broken('local')))
+    const failure = await failing.generate('news-summary', call).catch((error) => error)
+    expect(failure).toBeInstanceOf(LLMUnavailableError)
+    expect(failure.failures.map((entry: any) => entry.provider)).toEqual(['groq', 'local'])
+  })
+
+  it('should serve every feature from the pinned provider only', () => {
+    const registry = new LLMProviderRegistry().register(broken('groq')).register(new FakeLLMProvider())
+    const pinned = new LLMRouter(registry, {}, 'fake')
+
+    expect(pinned.resolve('stock-analysis').map((choice) => choice.provider.name)).toEqual(['fake'])
+    expect(new LLMRouter(registry, {}, 'local').isAvailable('chat')).toBe(false)
+  })
+})
@@ -0,0 +1,78 @@
+/** Minimal tests for structured model output */
+import { generateStructured, StructuredOutputError, type TextRequest } from '@/lib/ai/structured-output'
+import { tradingSignalSchema } from '@/lib/ai/schemas'
+
+/** Replies in order and records every request it was sent */
+const scripted = (...replies: string[]) => {
+  const requests: TextRequest[] = []
+  const generate = async (request: TextRequest) => {
+    requests.push(request)
+    return { text: replies[requests.length - 1] ?? '', provider: 'fake', model: 'fake-model' }
+  }
+  return { generate, requests }
+}
+
+const request = {
+  task: 'trading-signal',
+  schema: tradingSignalSchema,
+  prompt: 'Signal for AAPL',
+  maxOutputTokens: 300,
+  temperature: 0.3,
+}
+
+describe('structured output', () => {
+  beforeEach(() => jest.spyOn(console, 'warn').mockImplementation(() => {}))
+  afterEach(() => jest.restoreAllMocks())
+
+  it('should repair fenced near-JSON and normalize loose values', async () => {
+    const { generate, requests } = scripted(
+      'Here you go:\n```json\n' +
+        '{"signal": "sell", "strength": "Weak", "reason": "Not a buy here", "confidence": "62%",}\n```',
+    )
+
+    const result = await generateStructured(generate, request)
+
+    expect(result).toEqual({
+      data: { signal: 'SELL', strength: 'WEAK', reason: 'Not a buy here', confidence: 62 },
+      reply: { text: expect.stringContaining('"sell"'), provider: 'fake', model: 'fake-model' },
+      attempts: 1,
+      repaired: true,
+    })
+    expect(requests[0].system).toContain('"strength"')
+  })
+
+  it('should retry with the validation issues when the reply does not match the schema', async () => {
+    const { generate, requests } = scripted(
+      '{"signal": "STRONG BUY", "strength": "STRONG", "reason": "Breakout", "confidence": 90}',
+      '{"signal": "BUY", "strength": "STRONG", "reason": "Breakout", "confidence": 90}',
+    )
+
+    const result = await generateStructured(generate, request)
+
+    expect(result.data.signal).toBe('BUY')
+    expect(result.attempts).toBe(2)
+    expect(requests[1].prompt).toContain('- signal:')
+    expect(requests[1].temperature).toBe(0)
+  })
+
+  it('should throw a typed error instead of defaulting once attempts run out', async () => {
+    const { generate } = scripted('I would hold for now.', 'Still HOLD, confidence 75.')
+
+    const failure = await generateStructured(generate, request).catch((error) => error)
+
+    expect(failure).toBeInstanceOf(StructuredOutputError)
+    expect(failure.kind).toBe('invalid-json')
+    expect(failure.attempts).toBe(2)
+    expect(failure.toJSON()).not.toHaveProperty('rawText')
+  })
+
+  it('should report provider failures without retrying', async () => {
+    const generate = jest.fn().mockRejectedValue(new Error('429 Too Many Requests'))
+
+    await expect(generateStructured(generate, request)).rejects.toMatchObject({
+      kind: 'provider',
+      attempts: 1,
+    })
+    expect(generate).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,68 @@
+/** Minimal tests for alert condition evaluation */
+import { AlertRuleError, evaluateCondition, normalizeCondition } from '@/lib/alerts/alert-conditions'
+import type { HistoricalCandle } from '@/lib/api/providers/types'
+import type { MarketSnapshot } from '@/lib/alerts/types'
+
+function dailyCandles(closes: number[], volume = 1000): HistoricalCandle[] {
+  return closes.map((close, i) => ({
+    date: new Date(Date.UTC(2024, 0, 1) + i * 86400000).toISOString(),
+    open: close,
+    high: close,
+    low: close,
+    close,
+    price: close,
+    volume,
+  }))
+}
+
+function snapshot(price: number, candles: HistoricalCandle[], volume = 1000): MarketSnapshot {
+  return { ticker: 'TEST', price, volume, timestamp: '2025-06-02T15:00:00.000Z', candles }
+}
+
+describe('evaluateCondition', () => {
+  it('should only fire a price cross when the level is crossed since the last price', () => {
+    const condition = normalizeCondition({ type: 'price-cross', direction: 'above', level: 100 })
+
+    expect(evaluateCondition(condition, snapshot(101, []), 99).triggered).toBe(true)
+    expect(evaluateCondition(condition, snapshot(102, []), 101).triggered).toBe(false)
+    expect(evaluateCondition(condition, snapshot(101, []), null).triggered).toBe(false)
+    expect(evaluateCondition(condition, snapshot(101, dailyCandles([98])), null).triggered).toBe(true)
+  })
+
+  it('should measure percent moves and volume spikes against completed sessions', () => {
+    const candles = [...dailyCandles([100, 100, 100, 100, 100]), { ...dailyCandles([90])[0], date: '2025-06-02' }]
+    const move = evaluateCondition(
+      normalizeCondition({ type: 'percent-move', direction: 'down', percent: 5 }),
+      snapshot(94, candles),
+      null,
+    )
+    expect(move.triggered).toBe(true)
+    expect(move.value).toBeCloseTo(-6, 6)
+
+    const spike = normalizeCondition({ type: 'volume-spike', multiple: 3, averageDays: 5 })
+    expect(evaluateCondition(spike, snapshot(100, candles, 3500), null).triggered).toBe(true)
+    expect(evaluateCondition(spike, snapshot(100, candles, 2500), null).triggered).toBe(false)
+  })
+
+  it('should flag 52-week highs and extreme RSI once per session', () => {
+    const rising = dailyCandles(Array.from({ length: 260 }, (_, i) => 50 + i * 0.5))
+    const high = evaluateCondition({ type: '52-week-high' }, snapshot(200, rising), null)
+    expect(high.triggered).toBe(true)
+    expect(high.scope).toBe('high-2025-06-02')
+    expect(evaluateCondition({ type: '52-week-high' }, snapshot(100, rising), null).triggered).toBe(false)
+
+    const rsi = evaluateCondition(
+      normalizeCondition({ type: 'rsi', comparison: 'above', threshold: 70 }),
+      snapshot(200, rising),
+      null,
+    )
+    expect(rsi.triggered).toBe(true)
+    expect(rsi.value).toBeGreaterThan(70)
+  })
+
+  it('should reject invalid conditions', () => {
+    expect(() => normalizeCondition({ type: 'price-cross', direction: 'sideways', level: 10 })).toThrow(AlertRuleError)
+    expect(() => normalizeCondition({ type: 'percent-move', percent: 0 })).toThrow(AlertRuleError)
+    expect(() => normalizeCondition({ type: 'macd' })).toThrow(AlertRuleError)
+  })
+})
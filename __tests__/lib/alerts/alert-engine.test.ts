@@ -0,0 +1,88 @@
+/** Minimal tests for alert cooldown and deduplication */
+import { AlertEngine, type AlertStore } from '@/lib/alerts/alert-engine'
+import type { AlertEvent, AlertRule } from '@/lib/alerts/types'
+
+/** In-memory stand-in for the Neon store with the same dedupe-key semantics */
+function memoryStore(rules: AlertRule[]) {
+  const events: AlertEvent[] = []
+  const keys = new Set<string>()
+  const store: AlertStore = {
+    async loadEnabledRules(tickers) {
+      return rules.filter((rule) => rule.enabled && (!tickers || tickers.includes(rule.ticker)))
+    },
+    async saveLastPrices(prices) {
+      for (const { ruleId, price } of prices) rules.find((rule) => rule.id === ruleId)!.lastPrice = price
+    },
+    async recordTrigger(rule, trigger) {
+      if (keys.has(trigger.dedupeKey)) return null
+      keys.add(trigger.dedupeKey)
+      rule.lastTriggeredAt = trigger.triggeredAt
+      const event = {
+        id: events.length + 1,
+        ruleId: rule.id,
+        ticker: rule.ticker,
+        conditionType: rule.condition.type,
+        price: trigger.price,
+        value: trigger.value,
+        message: trigger.message,
+        triggeredAt: trigger.triggeredAt,
+      }
+      events.push(event)
+      return { event, ownerId: 'owner' }
+    },
+  }
+  return { store, events }
+}
+
+function rule(overrides: Partial<AlertRule>): AlertRule {
+  return {
+    id: 1,
+    ticker: 'TEST',
+    name: null,
+    condition: { type: 'price-cross', direction: 'above', level: 100 },
+    cooldownMinutes: 60,
+    enabled: true,
+    lastPrice: null,
+    lastTriggeredAt: null,
+    createdAt: '2025-06-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+const client = { getQuote: jest.fn(), getHistoricalData: jest.fn() } as any
+const at = (minutes: number) => new Date(Date.UTC(2025, 5, 2, 14, minutes)).toISOString()
+
+describe('AlertEngine', () => {
+  it('should suppress repeat crosses inside the cooldown', async () => {
+    const rules = [rule({ lastPrice: 99, cooldownMinutes: 30 })]
+    const { store, events } = memoryStore(rules)
+    const engine = new AlertEngine(store, client)
+    const tick = (price: number, minutes: number) =>
+      engine.evaluateRules(rules, { ticker: 'TEST', price, volume: 0, timestamp: at(minutes), candles: [] })
+
+    expect(await tick(101, 0)).toHaveLength(1)
+    await tick(99, 5)
+    expect(await tick(101, 10)).toHaveLength(0)
+    expect(rules[0].lastPrice).toBe(101)
+    expect(events).toHaveLength(1)
+  })
+
+  it('should record a session-scoped condition once however often it is evaluated', async () => {
+    const candles = Array.from({ length: 20 }, (_, i) => ({
+      date: new Date(Date.UTC(2025, 4, 1) + i * 86400000).toISOString(),
+      open: 100, high: 100, low: 100, close: 100, price: 100, volume: 1000,
+    }))
+    const rules = [rule({ condition: { type: 'volume-spike', multiple: 2, averageDays: 20 }, cooldownMinutes: 0 })]
+    const { store, events } = memoryStore(rules)
+    const engine = new AlertEngine(store, client)
+
+    for (const minutes of [0, 15, 30]) {
+      await engine.evaluateRules(rules, { ticker: 'TEST', price: 100, volume: 5000, timestamp: at(minutes), candles })
+    }
+    // Quote-only snapshots skip conditions that need daily history
+    await engine.evaluateRules(rules, { ticker: 'TEST', price: 100, volume: 5000, timestamp: at(45), candles: [] })
+
+    expect(events).toHaveLength(1)
+    expect(events[0].message).toContain('5.0x')
+  })
+})
@@ -0,0 +1,83 @@
+/**
+ * Minimal tests for the recommendation backtester
+ */
+
+import { BacktestEngine, BacktestError } from '@/lib/analysis/backtest-engine'
+import { calculatePreciseTechnicalScore } from '@/lib/analysis/factor-scoring'
+import { calculateMaxDrawdown } from '@/lib/analysis/performance-metrics'
+
+function makeCandles(count: number) {
+  return Array.from({ length: count }, (_, i) => {
+    const close = 100 + i * 0.3 + Math.sin(i / 5) * 6
+    const date = new Date(Date.UTC(2023, 0, 2 + i)).toISOString().split('T')[0]
+    return { date, open: close - 0.5, high: close + 1, low: close - 1, close, price: close, volume: 2_000_000 }
+  })
+}
+
+describe('BacktestEngine', () => {
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000)
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should fill signals at the next open with slippage and commission', () => {
+    const candles = makeCandles(160)
+    const result = BacktestEngine.run('AAPL', candles, { slippageBps: 10, commissionPerTrade: 2 })
+    const opens = new Map(candles.map((candle) => [candle.date, candle.open]))
+
+    expect(result.equityCurve).toHaveLength(160 - 50)
+    expect(result.trades.length).toBeGreaterThan(0)
+    for (const trade of result.trades) {
+      const slip = trade.side === 'buy' ? 1.001 : 0.999
+      expect(trade.price).toBeCloseTo(opens.get(trade.date)! * slip, 8)
+      expect(trade.commission).toBe(2)
+    }
+  })
+
+  it('should compare against a buy-and-hold benchmark from the same start', () => {
+    const candles = makeCandles(120)
+    const result = BacktestEngine.run('AAPL', candles, { commissionPerTrade: 0, slippageBps: 0, initialCapital: 10000 })
+
+    const shares = Math.floor(10000 / candles[51].open)
+    const expected = 10000 - shares * candles[51].open + shares * candles[119].close
+    expect(result.equityCurve[0].benchmark).toBe(10000)
+    expect(result.benchmark.endValue).toBeCloseTo(expected, 6)
+    expect(result.strategy.startValue).toBe(10000)
+  })
+
+  it('should reject series shorter than the warmup period', () => {
+    expect(() => BacktestEngine.run('AAPL', makeCandles(30))).toThrow('Need at least 52 candles')
+    expect(() => BacktestEngine.run('AAPL', makeCandles(60), { warmupPeriod: 100 })).toThrow(BacktestError)
+  })
+})
+
+describe('calculateMaxDrawdown', () => {
+  it('should report the deepest decline with its peak, trough and recovery dates', () => {
+    const drawdown = calculateMaxDrawdown([
+      { date: 'd1', value: 100 },
+      { date: 'd2', value: 120 },
+      { date: 'd3', value: 90 },
+      { date: 'd4', value: 110 },
+      { date: 'd5', value: 125 },
+    ])
+
+    expect(drawdown).toEqual({ value: 0.25, peakDate: 'd2', troughDate: 'd3', recoveryDate: 'd5' })
+  })
+})
+
+describe('calculatePreciseTechnicalScore', () => {
+  it('should score a close near the upper Bollinger band lower than one near the lower band', () => {
+    const bollinger = { upper: 110, middle: 100, lower: 90, width: 0.2 }
+    const base = { rsi: 50, macd: { value: 0.5 }, bollinger }
+
+    const nearUpper = calculatePreciseTechnicalScore({ ...base, price: 109 })
+    const nearLower = calculatePreciseTechnicalScore({ ...base, price: 91 })
+    expect(nearUpper).toBeLessThan(nearLower)
+    expect(calculatePreciseTechnicalScore(base)).toBeGreaterThan(nearUpper)
+    expect(calculatePreciseTechnicalScore(base)).toBeLessThan(nearLower)
+  })
+})
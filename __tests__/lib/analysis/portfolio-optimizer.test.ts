@@ -0,0 +1,95 @@
+/** Minimal tests for the mean-variance portfolio optimizer */
+import {
+  OptimizationError,
+  estimateInputs,
+  optimizePortfolio,
+  rebalanceTrades,
+  riskContributions,
+} from '@/lib/analysis/portfolio-optimizer'
+import type { HistoricalCandle } from '@/lib/api/providers/types'
+
+/** Deterministic normal draws so the estimates are identical on every run */
+function gaussian(seed: number) {
+  let state = seed
+  const uniform = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    return (state + 1) / 4294967297
+  }
+  return () => Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform())
+}
+
+function candles(seed: number, dailyVol: number, drift: number, days = 300): HistoricalCandle[] {
+  const draw = gaussian(seed)
+  let close = 100
+  return Array.from({ length: days }, (_, i) => {
+    close *= 1 + drift + dailyVol * draw()
+    const date = new Date(Date.UTC(2023, 0, 2) + i * 86400000).toISOString()
+    return { date, open: close, high: close, low: close, close, price: close, volume: 1000 }
+  })
+}
+
+const inputs = estimateInputs({
+  LOW: candles(1, 0.005, 0.0002),
+  MID: candles(2, 0.01, 0.0006),
+  HIGH: candles(3, 0.02, 0.0012),
+})
+
+describe('optimizePortfolio', () => {
+  it('should weight independent assets towards the least volatile for minimum variance', () => {
+    const { target, frontier } = optimizePortfolio(inputs, { objective: 'min-variance' })
+
+    expect(Object.values(target.weights).reduce((a, b) => a + b, 0)).toBeCloseTo(1, 6)
+    expect(target.weights.LOW).toBeGreaterThan(target.weights.MID)
+    expect(target.weights.MID).toBeGreaterThan(target.weights.HIGH)
+    expect(target.volatility).toBeCloseTo(frontier[0].volatility, 4)
+    for (let i = 1; i < frontier.length; i++) {
+      expect(frontier[i].expectedReturn).toBeGreaterThan(frontier[i - 1].expectedReturn)
+    }
+  })
+
+  it('should respect position bounds and beat the frontier samples on Sharpe', () => {
+    const { target, frontier } = optimizePortfolio(inputs, {
+      objective: 'max-sharpe',
+      defaultBounds: { min: 0.1, max: 0.5 },
+    })
+
+    for (const weight of Object.values(target.weights)) {
+      expect(weight).toBeGreaterThanOrEqual(0.1 - 1e-9)
+      expect(weight).toBeLessThanOrEqual(0.5 + 1e-9)
+    }
+    expect(target.sharpeRatio).toBeGreaterThanOrEqual(Math.max(...frontier.map((p) => p.sharpeRatio)) - 1e-6)
+  })
+
+  it('should equalize risk contributions and hit a reachable volatility target', () => {
+    const parity = optimizePortfolio(inputs, { objective: 'risk-parity' })
+    const weights = inputs.tickers.map((ticker) => parity.target.weights[ticker])
+    for (const contribution of riskContributions(weights, inputs.covariance)) {
+      expect(contribution).toBeCloseTo(1 / 3, 2)
+    }
+
+    const targeted = optimizePortfolio(inputs, { objective: 'target-volatility', targetVolatility: 0.15 })
+    expect(targeted.targetMet).toBe(true)
+    expect(targeted.target.volatility).toBeCloseTo(0.15, 3)
+    expect(() => optimizePortfolio(inputs, { objective: 'target-volatility' })).toThrow(OptimizationError)
+  })
+})
+
+describe('rebalanceTrades', () => {
+  it('should sell before buying and never sell more than is held', () => {
+    const trades = rebalanceTrades(
+      [
+        { ticker: 'LOW', shares: 10, price: 100 },
+        { ticker: 'MID', shares: 5, price: 50 },
+      ],
+      750,
+      { LOW: 0.2, MID: 0, HIGH: 0.8 },
+      { HIGH: 40 },
+    )
+
+    expect(trades.map((trade) => `${trade.action} ${trade.ticker} ${trade.shares}`)).toEqual([
+      'SELL LOW 6',
+      'SELL MID 5',
+      'BUY HIGH 40',
+    ])
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * Minimal tests for historical risk analytics
+ */
+
+import {
+  benchmarkRelation,
+  historicalTailRisk,
+  parametricTailRisk,
+  sectorEtfFor,
+  stressTest,
+} from '@/lib/analysis/risk-analytics'
+
+function candlesFrom(start: string, closes: number[]) {
+  return closes.map((close, i) => {
+    const date = new Date(new Date(`${start}T00:00:00Z`).getTime() + i * 86400000).toISOString().split('T')[0]
+    return { date, open: close, high: close, low: close, close, price: close, volume: 1000 }
+  })
+}
+
+describe('risk analytics', () => {
+  it('should take historical VaR and CVaR from the worst returns', () => {
+    const returns = Array.from({ length: 100 }, (_, i) => (i - 50) / 1000)
+
+    const tail = historicalTailRisk(returns, 0.95)
+    expect(tail.var).toBeCloseTo(0.046, 10)
+    expect(tail.cvar).toBeCloseTo(0.048, 10)
+    expect(historicalTailRisk(returns, 0.99).var).toBeCloseTo(0.05, 10)
+  })
+
+  it('should scale parametric VaR with the normal quantile', () => {
+    const returns = Array.from({ length: 200 }, (_, i) => (i % 2 === 0 ? 0.01 : -0.01))
+    const sd = Math.sqrt((200 * 0.0001) / 199)
+
+    expect(parametricTailRisk(returns, 0.95).var).toBeCloseTo(1.6449 * sd, 6)
+    expect(parametricTailRisk(returns, 0.99).cvar).toBeGreaterThan(parametricTailRisk(returns, 0.99).var)
+  })
+
+  it('should measure beta and correlation on dates both series traded', () => {
+    const benchmark = Array.from({ length: 60 }, (_, i) => ({ date: `d${i}`, value: Math.sin(i) / 100 }))
+    const stock = benchmark.map((point) => ({ date: point.date, value: point.value * 1.5 }))
+
+    const relation = benchmarkRelation('SPY', stock, benchmark.slice(10))
+    expect(relation).toMatchObject({ symbol: 'SPY', observations: 50 })
+    expect(relation!.beta).toBeCloseTo(1.5, 10)
+    expect(relation!.correlation).toBeCloseTo(1, 10)
+  })
+
+  it('should replay covered episodes and estimate the rest from beta', () => {
+    const episodes = [
+      { scenario: 'Old crash', start: '2020-01-01', end: '2020-01-05' },
+      { scenario: 'Recent dip', start: '2021-01-01', end: '2021-01-05' },
+    ]
+    const spy = [
+      ...candlesFrom('2020-01-01', [100, 90, 80, 85, 90]),
+      ...candlesFrom('2021-01-01', [100, 98, 96, 97, 95]),
+    ]
+    const stock = candlesFrom('2021-01-01', [50, 45, 40, 44, 45])
+
+    const [old, recent] = stressTest(stock, spy, 2, episodes)
+    expect(old).toMatchObject({ method: 'beta-estimated', maxDrawdown: null })
+    expect(old.impact).toBeCloseTo(-20, 10)
+    expect(recent).toMatchObject({ method: 'historical' })
+    expect(recent.impact).toBeCloseTo(-10, 10)
+    expect(recent.maxDrawdown).toBeCloseTo(-20, 10)
+    expect(recent.benchmarkImpact).toBeCloseTo(-5, 10)
+  })
+
+  it('should map sectors and industries to SPDR ETFs', () => {
+    expect(sectorEtfFor('technology')).toBe('XLK')
+    expect(sectorEtfFor('general', 'banking')).toBe('XLF')
+    expect(sectorEtfFor('general')).toBeNull()
+  })
+})
@@ -0,0 +1,65 @@
+/** Minimal tests for intraday session flags and candle resampling */
+import { easternWallTimeToDate, intradayCandle, marketSession } from '@/lib/api/market-hours'
+import { resampleCandles } from '@/lib/api/candle-resampler'
+
+const bar = (open: number, close: number, volume = 100) => ({
+  open,
+  high: Math.max(open, close) + 1,
+  low: Math.min(open, close) - 1,
+  close,
+  volume,
+})
+
+describe('market hours', () => {
+  it('should follow daylight saving for the regular session', () => {
+    // 9:30 ET is 13:30Z in June (EDT) and 14:30Z in January (EST)
+    expect(marketSession(new Date('2025-06-02T13:30:00Z'))).toBe('regular')
+    expect(marketSession(new Date('2025-01-06T13:30:00Z'))).toBe('pre')
+    expect(marketSession(new Date('2025-01-06T14:30:00Z'))).toBe('regular')
+    expect(marketSession(new Date('2025-01-06T21:30:00Z'))).toBe('post')
+    expect(marketSession(new Date('2025-06-07T15:00:00Z'))).toBe('closed')
+    expect(easternWallTimeToDate('2025-06-02 09:30:00').toISOString()).toBe('2025-06-02T13:30:00.000Z')
+    expect(easternWallTimeToDate('2025-01-06 09:30:00').toISOString()).toBe('2025-01-06T14:30:00.000Z')
+  })
+})
+
+describe('resampleCandles', () => {
+  it('should not merge pre-market and regular bars into one hourly bar', () => {
+    const candles = [
+      intradayCandle(Date.parse('2025-06-02T13:20:00Z'), bar(10, 11)),
+      intradayCandle(Date.parse('2025-06-02T13:25:00Z'), bar(11, 12)),
+      intradayCandle(Date.parse('2025-06-02T13:30:00Z'), bar(12, 13)),
+      intradayCandle(Date.parse('2025-06-02T13:55:00Z'), bar(13, 14)),
+      intradayCandle(Date.parse('2025-06-02T14:00:00Z'), bar(14, 15)),
+    ]
+
+    const hourly = resampleCandles(candles, '1h')
+
+    const summary = hourly.map((candle) => [
+      candle.timestamp,
+      candle.extendedHours,
+      candle.open,
+      candle.close,
+      candle.volume,
+    ])
+    expect(summary).toEqual([
+      ['2025-06-02T13:00:00.000Z', true, 10, 12, 200],
+      ['2025-06-02T13:30:00.000Z', false, 12, 14, 200],
+      ['2025-06-02T14:00:00.000Z', false, 14, 15, 100],
+    ])
+    expect(hourly[1]).toMatchObject({ marketHours: true, high: 15, low: 11, date: '2025-06-02' })
+  })
+
+  it('should build daily candles from regular-session bars only', () => {
+    const candles = [
+      intradayCandle(Date.parse('2025-06-02T12:00:00Z'), bar(50, 90, 1000)),
+      intradayCandle(Date.parse('2025-06-02T13:30:00Z'), bar(100, 101)),
+      intradayCandle(Date.parse('2025-06-02T19:59:00Z'), bar(101, 99)),
+      intradayCandle(Date.parse('2025-06-02T21:00:00Z'), bar(99, 80, 1000)),
+    ]
+
+    expect(resampleCandles(candles, '1d')).toEqual([
+      { date: '2025-06-02', open: 100, high: 102, low: 98, close: 99, volume: 200, price: 99 },
+    ])
+  })
+})
@@ -0,0 +1,63 @@
+/**
+ * Minimal tests for provider-driven fallback in MultiSourceStockClient
+ */
+
+import { MultiSourceStockClient } from '@/lib/api/multi-source-client'
+import { ProviderRegistry } from '@/lib/api/providers/registry'
+import type { MarketDataProvider, NormalizedQuote } from '@/lib/api/providers/types'
+
+function quote(ticker: string, currentPrice: number, volume: number): NormalizedQuote {
+  return { ticker, currentPrice, change: 0, changePercent: 0, volume, marketCap: 0, pe: 0, eps: 0, dividend: 0, beta: 0 }
+}
+
+function replayProvider(name: string, getQuote: MarketDataProvider['getQuote']): MarketDataProvider {
+  return { name, capabilities: ['quote'], getQuote }
+}
+
+describe('MultiSourceStockClient', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should walk providers in the configured priority order', async () => {
+    const first = jest.fn().mockRejectedValue(new Error('down'))
+    const second = jest.fn().mockResolvedValue(quote('AAPL', 150, 1000))
+    const registry = new ProviderRegistry()
+      .register(replayProvider('replay', second))
+      .register(replayProvider('inHouse', first))
+
+    const client = new MultiSourceStockClient({ registry, priority: { quote: ['inHouse', 'replay'] }, cache: null })
+    const result = await client.getQuote('AAPL')
+
+    expect(first).toHaveBeenCalledWith('AAPL')
+    expect(result.currentPrice).toBe(150)
+  })
+
+  it('should fall back to a quote without volume when no source provides it', async () => {
+    const registry = new ProviderRegistry().register(
+      replayProvider('replay', jest.fn().mockResolvedValue(quote('AAPL', 150, 0))),
+    )
+
+    const client = new MultiSourceStockClient({ registry, cache: null })
+    const result = await client.getQuote('AAPL')
+
+    expect(result.volume).toBe(0)
+    expect(result.currentPrice).toBe(150)
+  })
+
+  it('should skip providers that do not declare the capability', async () => {
+    const registry = new ProviderRegistry().register(
+      replayProvider('replay', jest.fn().mockResolvedValue(quote('AAPL', 150, 1000))),
+    )
+
+    const client = new MultiSourceStockClient({ registry, cache: null })
+
+    await expect(client.getHistoricalData('AAPL', 30)).rejects.toThrow('All historical data sources failed')
+    await expect(client.getNews('AAPL')).resolves.toEqual({ recent: [], trending: [] })
+  })
+})
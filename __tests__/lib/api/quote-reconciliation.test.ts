@@ -0,0 +1,40 @@
+/**
+ * Minimal tests for quorum-based quote reconciliation
+ */
+
+import { reconcileQuotes, type SourceQuoteResult } from '@/lib/api/quote-reconciliation'
+
+function result(source: string, currentPrice: number, volume = 1000, change = 1): SourceQuoteResult {
+  return {
+    source,
+    latencyMs: 10,
+    quote: { ticker: 'AAPL', currentPrice, change, changePercent: 0, volume, marketCap: 0, pe: 0, eps: 0, dividend: 0, beta: 0 },
+  }
+}
+
+describe('reconcileQuotes', () => {
+  it('should use the median as consensus and flag the outlier', () => {
+    const reconciled = reconcileQuotes('AAPL', [result('yahoo', 100), result('twelveData', 100.2), result('polygon', 110)])
+
+    expect(reconciled.currentPrice).toBe(100.2)
+    expect(reconciled.reconciliation.outliers).toEqual(['polygon'])
+    expect(reconciled.reconciliation.agreeingSources).toBe(2)
+    expect(reconciled.reconciliation.quorumMet).toBe(true)
+    expect(reconciled.reconciliation.disagreementScore).toBeGreaterThan(0)
+  })
+
+  it('should report failed sources without counting them toward quorum', () => {
+    const reconciled = reconcileQuotes('AAPL', [
+      result('yahoo', 100),
+      { source: 'finnhub', error: 'Finnhub API error: Too Many Requests', latencyMs: 5 },
+    ])
+
+    expect(reconciled.reconciliation.quorumMet).toBe(false)
+    expect(reconciled.reconciliation.disagreementScore).toBe(0)
+    expect(reconciled.reconciliation.sources[1]).toMatchObject({ source: 'finnhub', price: null })
+  })
+
+  it('should throw when no source returns a valid price', () => {
+    expect(() => reconcileQuotes('AAPL', [result('yahoo', 0)])).toThrow('All stock data sources failed for AAPL')
+  })
+})
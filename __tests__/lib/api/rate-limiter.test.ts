@@ -0,0 +1,48 @@
+/**
+ * Minimal tests for per-provider rate limiting and daily quotas
+ */
+
+import { ProviderRateLimiter, RateLimitError, type QuotaStore } from '@/lib/api/rate-limiter'
+
+function memoryStore(persisted = 0): QuotaStore & { recorded: number } {
+  return {
+    recorded: 0,
+    async countSince() {
+      return persisted
+    },
+    async record() {
+      this.recorded++
+    },
+  }
+}
+
+describe('ProviderRateLimiter', () => {
+  it('should reject calls once the per-minute bucket is empty', async () => {
+    const limiter = new ProviderRateLimiter({ polygon: { perMinute: 2, perDay: null } }, memoryStore())
+
+    await limiter.acquire('polygon')
+    await limiter.acquire('polygon')
+
+    await expect(limiter.acquire('polygon')).rejects.toBeInstanceOf(RateLimitError)
+    expect(limiter.isExhausted('polygon')).toBe(true)
+  })
+
+  it('should seed the daily counter from the store and stop at the quota', async () => {
+    const store = memoryStore(24)
+    const limiter = new ProviderRateLimiter({ alphaVantage: { perMinute: 5, perDay: 25 } }, store)
+
+    const response = await limiter.run('alphaVantage', 'GLOBAL_QUOTE', async () => new Response('{}'))
+    expect(response.ok).toBe(true)
+    expect(store.recorded).toBe(1)
+
+    await expect(limiter.acquire('alphaVantage')).rejects.toThrow('daily quota exhausted')
+    await expect(limiter.getBudget('alphaVantage')).resolves.toMatchObject({ dailyUsed: 25, dailyRemaining: 0, exhausted: true })
+  })
+
+  it('should pass through providers without a quota', async () => {
+    const limiter = new ProviderRateLimiter({}, null)
+
+    expect(limiter.isExhausted('yahoo')).toBe(false)
+    await expect(limiter.getBudget('yahoo')).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,50 @@
+/** Minimal tests for stock chart series */
+import { percentChangeSeries, volumeProfile, zoomRange } from '@/lib/charts/chart-series'
+import type { HistoricalCandle } from '@/lib/api/providers/types'
+
+const candle = (date: string, close: number, extra: Partial<HistoricalCandle> = {}): HistoricalCandle => ({
+  date,
+  open: close,
+  high: close,
+  low: close,
+  close,
+  price: close,
+  volume: 100,
+  ...extra,
+})
+
+describe('chart series', () => {
+  it('should spread volume over each candle range and find the value area', () => {
+    const profile = volumeProfile(
+      [
+        candle('2025-06-02', 10, { low: 10, high: 20, volume: 1000 }),
+        candle('2025-06-03', 11, { open: 12, low: 10, high: 12, volume: 4000 }),
+      ],
+      5,
+    )
+
+    expect(profile.bins.map((bin) => bin.volume)).toEqual([4200, 200, 200, 200, 200])
+    expect(profile.bins[0].downVolume).toBe(4000)
+    expect(profile.pointOfControl).toBe(0)
+    expect(profile.valueArea).toEqual({ low: 10, high: 12 })
+  })
+
+  it('should rebase each series to its first close and leave gaps as null', () => {
+    const rows = percentChangeSeries(['2025-06-02', '2025-06-03', '2025-06-04'], {
+      AAPL: [candle('2025-06-02', 100), candle('2025-06-03', 110), candle('2025-06-04', 90)],
+      SPY: [candle('2025-06-03', 500), candle('2025-06-04', 510)],
+    })
+
+    expect(rows).toEqual([
+      { key: '2025-06-02', AAPL: 0, SPY: null },
+      { key: '2025-06-03', AAPL: 10, SPY: 0 },
+      { key: '2025-06-04', AAPL: -10, SPY: 2 },
+    ])
+  })
+
+  it('should zoom around the centre without leaving the data', () => {
+    expect(zoomRange({ startIndex: 0, endIndex: 99 }, 100, 0.5)).toEqual({ startIndex: 25, endIndex: 74 })
+    expect(zoomRange({ startIndex: 80, endIndex: 99 }, 100, 2)).toEqual({ startIndex: 60, endIndex: 99 })
+    expect(zoomRange({ startIndex: 40, endIndex: 49 }, 100, 0.1)).toEqual({ startIndex: 40, endIndex: 49 })
+  })
+})
@@ -0,0 +1,89 @@
+/** Minimal tests for persistent chat sessions and conversation memory */
+import type { ChatToolContext } from '@/lib/ai/chat-tools'
+import type { ChatStreamEvent } from '@/lib/ai/chat-stream'
+import { LLMRouter } from '@/lib/ai/llm-router'
+import { FakeLLMProvider } from '@/lib/ai/providers/fake-provider'
+import { LLMProviderRegistry } from '@/lib/ai/providers/registry'
+import { conversationHistory, KEEP_RECENT, sessionContext, summarizeSession } from '@/lib/chat/chat-memory'
+import { ChatSessionError } from '@/lib/chat/chat-session'
+import { MemoryChatSessionStore } from '@/lib/chat/chat-session-store'
+import { openChatSession, runChatTurn } from '@/lib/chat/chat-turn'
+
+const context = { stockClient: {}, ownerId: 'owner' } as unknown as ChatToolContext
+
+const drain = async (events: AsyncIterable<ChatStreamEvent>) => {
+  const collected: ChatStreamEvent[] = []
+  for await (const event of events) collected.push(event)
+  return collected
+}
+
+describe('Chat sessions', () => {
+  it('should store each turn and answer follow-ups with the history and ticker in context', async () => {
+    const store = new MemoryChatSessionStore()
+    const fake = new FakeLLMProvider()
+    const router = new LLMRouter(new LLMProviderRegistry().register(fake))
+    const turn = async (message: string, sessionId?: number) => {
+      const opened = await openChatSession(store, 'owner', {
+        channel: 'analyst',
+        sessionId,
+        ticker: 'aapl',
+        message,
+      })
+      return drain(runChatTurn({ router, store, ownerId: 'owner', opened, message, system: 'Analyst.', context }))
+    }
+
+    const first = await turn('How did Apple do last quarter?')
+    const session = (first[0] as Extract<ChatStreamEvent, { type: 'session' }>).session
+    expect(session).toMatchObject({ channel: 'analyst', ticker: 'AAPL', title: 'How did Apple do last quarter?' })
+
+    await turn('What about its margins?', session.id)
+
+    const followUp = fake.requests[fake.requests.length - 1]
+    expect(followUp.system).toContain('This conversation is about AAPL')
+    expect(followUp.messages.map((message) => message.role)).toEqual(['user', 'assistant', 'user'])
+    expect(followUp.messages[2]).toEqual({ role: 'user', content: 'What about its margins?' })
+    expect(await store.getSession('owner', session.id)).toMatchObject({ messageCount: 4 })
+    expect(await store.listSessions('someone-else')).toEqual([])
+  })
+
+  it('should fold older messages into a summary once the conversation is long', async () => {
+    const store = new MemoryChatSessionStore()
+    const fake = new FakeLLMProvider()
+    const router = new LLMRouter(new LLMProviderRegistry().register(fake))
+    const session = await store.createSession('owner', { channel: 'assistant', title: 'Long chat', ticker: null })
+    await store.appendMessages(
+      'owner',
+      session.id,
+      Array.from({ length: 30 }, (_, i) => ({
+        role: i % 2 === 0 ? ('user' as const) : ('assistant' as const),
+        content: `Message ${i}`,
+        toolCalls: [],
+        model: null,
+      })),
+    )
+    const messages = await store.listMessages('owner', session.id)
+
+    const current = (await store.getSession('owner', session.id))!
+    const summarized = await summarizeSession(router, store, 'owner', current, messages)
+
+    expect(fake.requests[0].feature).toBe('chat-summary')
+    expect(fake.requests[0].messages[0].content).toContain('Message 0')
+    expect(summarized).toMatchObject({
+      summary: 'Fake provider conversation summary.',
+      summarizedCount: 30 - KEEP_RECENT,
+    })
+    expect(conversationHistory(summarized, messages)).toHaveLength(KEEP_RECENT)
+    expect(sessionContext(summarized)).toContain('Summary of the conversation so far')
+  })
+
+  it('should reject unknown sessions and sessions of the other chat', async () => {
+    const store = new MemoryChatSessionStore()
+    const session = await store.createSession('owner', { channel: 'assistant', title: 'Hi', ticker: null })
+    const open = (sessionId: unknown) =>
+      openChatSession(store, 'owner', { channel: 'analyst', sessionId, message: 'Hi' })
+
+    await expect(open(session.id)).rejects.toMatchObject({ status: 409 })
+    await expect(open(999)).rejects.toBeInstanceOf(ChatSessionError)
+    await expect(openChatSession(store, null, { channel: 'analyst', message: 'Hi' })).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,88 @@
+/** Minimal tests for filing and transcript ingestion and retrieval using local fixture files */
+import path from 'path'
+import { chunkDocument, extractDocumentText } from '@/lib/documents/document-chunker'
+import { ingestDocument, ingestFile, resolveDocumentPath } from '@/lib/documents/document-ingest'
+import { filingContext, retrievePassages, toCitations } from '@/lib/documents/document-retrieval'
+import { MemoryDocumentIndex } from '@/lib/documents/document-store'
+import { DocumentError } from '@/lib/documents/documents'
+import { HashingEmbedder } from '@/lib/documents/embeddings'
+
+const fixturesDir = path.join(__dirname, '../../fixtures/documents')
+const filing = path.join(fixturesDir, 'ACME_10-K_FY2024.htm')
+const transcript = path.join(fixturesDir, 'ACME_transcript_2024-Q4.txt')
+
+const pipeline = () => ({ index: new MemoryDocumentIndex(), embedder: new HashingEmbedder() })
+
+describe('Document retrieval', () => {
+  it('should chunk filings at Item headings and label transcript chunks with the speaker', () => {
+    const html = '<h2>Item 1A. Risk Factors</h2><p>Steel supply is concentrated.</p><p>One customer is 18% of sales.</p>'
+    const text = extractDocumentText(`${html}<h2>Item 7. MD&amp;A</h2><p>Net sales grew 12%.</p>`, 'a.htm')
+    expect(chunkDocument(text, '10-K')).toEqual([
+      {
+        index: 0,
+        section: 'Item 1A. Risk Factors',
+        text: 'Steel supply is concentrated.\n\nOne customer is 18% of sales.',
+      },
+      { index: 1, section: 'Item 7. MD&A', text: 'Net sales grew 12%.' },
+    ])
+
+    const turns = 'Operator: Welcome.\n\nJane Doe -- CFO\nMargins rose.\nGuidance is unchanged.'
+    const [chunk] = chunkDocument(turns, 'transcript')
+    expect(chunk).toMatchObject({ section: 'Operator' })
+    expect(chunk.text).toBe('Operator: Welcome.\n\nJane Doe -- CFO: Margins rose.\n\nGuidance is unchanged.')
+
+    const long = chunkDocument(`Item 1. Business\n\n${'The company sells anvils. '.repeat(40)}`, '10-K', {
+      maxChars: 300,
+      overlapChars: 60,
+    })
+    expect(long.length).toBeGreaterThan(3)
+    expect(long.every((piece) => piece.text.length <= 300 && piece.section === 'Item 1. Business')).toBe(true)
+    expect(long[1].text.startsWith('The company sells anvils.')).toBe(true)
+  })
+
+  it('should ingest local files using the file name for metadata and replace a document on re-ingest', async () => {
+    const deps = pipeline()
+    const document = await ingestFile(filing, { filedAt: '2025-02-14' }, deps)
+    expect(document).toMatchObject({
+      id: 'acme-10-k-fy2024',
+      ticker: 'ACME',
+      form: '10-K',
+      period: 'FY2024',
+      filedAt: '2025-02-14',
+      source: 'ACME_10-K_FY2024.htm',
+      embedder: 'hashing-512',
+    })
+    expect(document.chunkCount).toBeGreaterThanOrEqual(3)
+
+    await ingestFile(filing, { title: 'ACME annual report' }, deps)
+    expect(await deps.index.listDocuments()).toEqual([expect.objectContaining({ title: 'ACME annual report' })])
+
+    await expect(ingestFile(path.join(fixturesDir, 'missing.txt'), {}, deps)).rejects.toMatchObject({ status: 404 })
+    await expect(ingestDocument({ text: 'Some text', source: 'notes.txt', ticker: 'ACME' }, deps)).rejects.toThrow(
+      DocumentError,
+    )
+    expect(() => resolveDocumentPath('../secrets.txt', { DOCUMENTS_DIR: fixturesDir })).toThrow(DocumentError)
+  })
+
+  it('should retrieve the relevant passages with numbered citations', async () => {
+    const deps = pipeline()
+    await ingestFile(filing, {}, deps)
+    await ingestFile(transcript, {}, deps)
+    await ingestDocument({ text: 'Globex steel supplier risks.', source: 'globex.txt', ticker: 'GBX', form: '8-K' }, deps)
+
+    const passages = await retrievePassages('risk from the single steel supplier', { ticker: 'acme', limit: 3 }, deps)
+    expect(passages.length).toBeGreaterThan(0)
+    expect(passages.every((passage) => passage.document.ticker === 'ACME')).toBe(true)
+    expect(passages[0].chunk.section).toBe('Item 1A. Risk Factors')
+
+    const guidance = await retrievePassages('first quarter revenue guidance', { forms: ['transcript'] }, deps)
+    expect(guidance[0].chunk.text).toContain('$1.1 billion')
+
+    const [citation] = toCitations(passages)
+    expect(citation).toMatchObject({ ref: 1, ticker: 'ACME', form: '10-K', period: 'FY2024' })
+    const prompt = filingContext(passages)
+    expect(prompt).toContain('[1] ACME 10-K FY2024, Item 1A. Risk Factors')
+    expect(prompt).toContain('forged steel')
+    expect(filingContext([])).toBe('')
+  })
+})
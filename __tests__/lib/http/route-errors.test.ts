@@ -0,0 +1,32 @@
+/** Minimal tests for the shared API route error responses */
+import { errorResponse, parseRouteId } from '@/lib/http/route-errors'
+import { PortfolioError } from '@/lib/portfolio/ledger'
+
+describe('Route errors', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should answer feature errors with their status, malformed JSON with 400 and anything else with 500', async () => {
+    const known = errorResponse(new PortfolioError('Not enough cash', 409), 'Failed', PortfolioError)
+    expect(known.status).toBe(409)
+    expect(await known.json()).toEqual({ error: 'Not enough cash' })
+
+    const malformed = errorResponse(new SyntaxError('Unexpected token'), 'Failed', PortfolioError)
+    expect(malformed.status).toBe(400)
+
+    const unexpected = errorResponse(new Error('connection reset'), 'Failed to list portfolios', PortfolioError)
+    expect(unexpected.status).toBe(500)
+    expect(await unexpected.json()).toEqual({ error: 'Failed to list portfolios', message: 'connection reset' })
+  })
+
+  it('should reject ids that are not positive integers with the given error class', () => {
+    expect(parseRouteId('42', 'portfolio', PortfolioError)).toBe(42)
+    expect(() => parseRouteId('0', 'portfolio', PortfolioError)).toThrow(new PortfolioError('Invalid portfolio id'))
+    expect(() => parseRouteId('abc', 'portfolio', PortfolioError)).toThrow(PortfolioError)
+  })
+})
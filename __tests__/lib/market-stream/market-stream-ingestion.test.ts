@@ -0,0 +1,70 @@
+/** Minimal tests for websocket trade ingestion against the mock provider server */
+import { MarketStreamIngestion } from '@/lib/market-stream/market-stream-ingestion'
+import { MockTradeServer } from '@/lib/market-stream/mock-trade-server'
+import { finnhubFeed, polygonFeed } from '@/lib/market-stream/trade-feeds'
+import { QuoteHub, type QuoteStreamEvent } from '@/lib/real-time/quote-hub'
+
+const MINUTE = Date.UTC(2025, 5, 2, 14, 31)
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out')
+    await new Promise((resolve) => setTimeout(resolve, 20))
+  }
+}
+
+describe('MarketStreamIngestion', () => {
+  let server: MockTradeServer
+  let hub: QuoteHub
+  let ingestion: MarketStreamIngestion
+
+  afterEach(async () => {
+    ingestion.stop()
+    hub.stop()
+    await server.stop()
+  })
+
+  it('should authenticate with Polygon, subscribe and publish completed bars to the hub', async () => {
+    server = new MockTradeServer('polygon')
+    const url = await server.start()
+    hub = new QuoteHub(async () => new Promise(() => {}), { pollIntervalMs: 60_000 })
+    ingestion = new MarketStreamIngestion(hub, [() => polygonFeed('test-key', url)], { flushIntervalMs: 60_000 })
+
+    const received: QuoteStreamEvent[] = []
+    hub.subscribe(['AAPL', 'BTC-USD'], (event) => received.push(event))
+    ingestion.start()
+
+    await server.waitForMessage((message) => message.action === 'auth' && message.params === 'test-key')
+    await server.waitForMessage((message) => message.action === 'subscribe' && message.params === 'T.AAPL')
+    server.sendTrades([
+      { symbol: 'AAPL', price: 200, size: 10, timestamp: MINUTE + 1000 },
+      { symbol: 'AAPL', price: 201, size: 5, timestamp: MINUTE + 30_000 },
+      { symbol: 'AAPL', price: 202, size: 1, timestamp: MINUTE + 60_500 },
+    ])
+
+    await waitFor(() => received.length > 0)
+    expect(received[0]).toMatchObject({ ticker: 'AAPL', price: 201, source: 'polygon-stream' })
+    expect(received[0].bar).toMatchObject({ open: 200, high: 201, low: 200, close: 201, volume: 15 })
+  })
+
+  it('should reconnect with backoff and resubscribe after the connection drops', async () => {
+    server = new MockTradeServer('finnhub')
+    const url = await server.start()
+    hub = new QuoteHub(async () => new Promise(() => {}), { pollIntervalMs: 60_000 })
+    ingestion = new MarketStreamIngestion(hub, [() => finnhubFeed('test-key', url)], {
+      flushIntervalMs: 60_000,
+      initialBackoffMs: 20,
+    })
+
+    hub.subscribe(['MSFT'], () => {})
+    ingestion.start()
+    await waitFor(() => server.connectedClients.length === 1)
+    await server.waitForMessage((message) => message.type === 'subscribe' && message.symbol === 'MSFT')
+    expect(server.clients[0].path).toBe('/?token=test-key')
+
+    server.dropConnections()
+    await waitFor(() => server.clients.length === 2 && server.clients[1].messages.length > 0)
+    expect(server.clients[1].messages).toEqual([{ type: 'subscribe', symbol: 'MSFT' }])
+  })
+})
@@ -0,0 +1,36 @@
+/** Minimal tests for 1-minute bar aggregation */
+import { MinuteBarAggregator } from '@/lib/market-stream/minute-bar-aggregator'
+
+const MINUTE = Date.UTC(2025, 5, 2, 14, 31)
+
+describe('MinuteBarAggregator', () => {
+  it('should build OHLCV bars and emit one when the next minute starts', () => {
+    const aggregator = new MinuteBarAggregator()
+
+    expect(aggregator.add({ symbol: 'aapl', price: 100, size: 10, timestamp: MINUTE + 1000 })).toBeNull()
+    aggregator.add({ symbol: 'AAPL', price: 102, size: 5, timestamp: MINUTE + 20_000 })
+    aggregator.add({ symbol: 'AAPL', price: 99, size: 5, timestamp: MINUTE + 40_000 })
+    const bar = aggregator.add({ symbol: 'AAPL', price: 101, size: 1, timestamp: MINUTE + 61_000 })
+
+    expect(bar).toEqual({
+      symbol: 'AAPL',
+      start: '2025-06-02T14:31:00.000Z',
+      open: 100,
+      high: 102,
+      low: 99,
+      close: 99,
+      volume: 20,
+      trades: 3,
+    })
+  })
+
+  it('should flush ended minutes after the grace period and drop late trades', () => {
+    const aggregator = new MinuteBarAggregator(2000)
+    aggregator.add({ symbol: 'MSFT', price: 300, size: 1, timestamp: MINUTE })
+
+    expect(aggregator.flush(MINUTE + 61_000)).toEqual([])
+    expect(aggregator.flush(MINUTE + 62_000).map((bar) => bar.close)).toEqual([300])
+    expect(aggregator.add({ symbol: 'MSFT', price: 305, size: 1, timestamp: MINUTE + 59_000 })).toBeNull()
+    expect(aggregator.flush(MINUTE + 120_000)).toEqual([])
+  })
+})
@@ -0,0 +1,63 @@
+/** Minimal tests for portfolio ledger replay */
+import { PortfolioError, normalizeTransaction, replayTransactions, valueHoldings } from '@/lib/portfolio/ledger'
+import type { PortfolioTransaction } from '@/lib/portfolio/types'
+
+let nextId = 1
+function tx(partial: Partial<PortfolioTransaction> & Pick<PortfolioTransaction, 'type' | 'executedAt'>) {
+  return { id: nextId++, ticker: null, shares: 0, price: 0, amount: 0, fee: 0, ...partial } as PortfolioTransaction
+}
+
+const history = [
+  tx({ type: 'deposit', amount: 10000, executedAt: '2023-01-02T00:00:00.000Z' }),
+  tx({ type: 'buy', ticker: 'AAPL', shares: 10, price: 100, fee: 10, executedAt: '2023-01-03T00:00:00.000Z' }),
+  tx({ type: 'buy', ticker: 'AAPL', shares: 10, price: 150, executedAt: '2024-03-01T00:00:00.000Z' }),
+  tx({ type: 'sell', ticker: 'AAPL', shares: 15, price: 200, executedAt: '2024-06-01T00:00:00.000Z' }),
+]
+
+describe('replayTransactions', () => {
+  it('should close lots first-in-first-out and book gains against each lot', () => {
+    const holdings = replayTransactions(history, 'fifo')
+
+    expect(holdings.cash).toBeCloseTo(10000 - 1010 - 1500 + 3000)
+    expect(holdings.positions).toHaveLength(1)
+    expect(holdings.positions[0].shares).toBe(5)
+    expect(holdings.positions[0].averageCost).toBeCloseTo(150)
+
+    expect(holdings.realized).toHaveLength(2)
+    expect(holdings.realized[0]).toMatchObject({ shares: 10, term: 'long' })
+    expect(holdings.realized[0].gain).toBeCloseTo(2000 - 1010)
+    expect(holdings.realized[1]).toMatchObject({ shares: 5, term: 'short' })
+    expect(holdings.realizedGain).toBeCloseTo(990 + 250)
+  })
+
+  it('should consume the most expensive lot first under hifo', () => {
+    const holdings = replayTransactions(history, 'hifo')
+
+    expect(holdings.positions[0].averageCost).toBeCloseTo(101)
+    expect(holdings.realized[0]).toMatchObject({ shares: 10, term: 'short' })
+    expect(holdings.realizedGain).toBeCloseTo(500 + 5 * (200 - 101))
+  })
+
+  it('should reject a sell larger than the shares held at that date', () => {
+    const oversold = [
+      ...history,
+      tx({ type: 'sell', ticker: 'AAPL', shares: 6, price: 200, executedAt: '2024-07-01T00:00:00.000Z' }),
+    ]
+
+    expect(() => replayTransactions(oversold)).toThrow(PortfolioError)
+  })
+})
+
+describe('normalizeTransaction and valueHoldings', () => {
+  it('should validate trade fields and mark unquoted positions at cost', () => {
+    expect(() => normalizeTransaction({ type: 'buy', ticker: 'AAPL', shares: 0, price: 10 })).toThrow(PortfolioError)
+    expect(normalizeTransaction({ type: 'deposit', amount: 500 }).ticker).toBeNull()
+
+    const holdings = replayTransactions(history)
+    const valuation = valueHoldings(holdings, { AAPL: Number.NaN })
+
+    expect(valuation.positions[0].priced).toBe(false)
+    expect(valuation.unrealizedGain).toBeCloseTo(0)
+    expect(valuation.totalValue).toBeCloseTo(holdings.cash + 5 * 150)
+  })
+})
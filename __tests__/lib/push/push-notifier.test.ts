@@ -0,0 +1,79 @@
+/** Minimal tests for Web Push delivery against the local push service stand-in */
+import { LocalPushService } from '@/lib/push/local-push-service'
+import { PushNotifier, type PushSubscriptionStore } from '@/lib/push/push-notifier'
+import { generateVapidKeys } from '@/lib/push/web-push'
+import type { StoredPushSubscription } from '@/lib/push/types'
+
+const vapid = { ...generateVapidKeys(), subject: 'mailto:alerts@example.com' }
+const service = new LocalPushService()
+
+beforeAll(() => service.start())
+afterAll(() => service.stop())
+
+function memoryStore(subscriptions: StoredPushSubscription[]) {
+  const sent: number[] = []
+  const store: PushSubscriptionStore = {
+    async listForOwner(ownerId, topic) {
+      return subscriptions.filter((s) => s.ownerId === ownerId && s.topics.includes(topic))
+    },
+    async listForTopic(topic) {
+      return subscriptions.filter((s) => s.topics.includes(topic))
+    },
+    async markSent(ids) {
+      sent.push(...ids)
+    },
+    async remove(ids) {
+      subscriptions.splice(0, subscriptions.length, ...subscriptions.filter((s) => !ids.includes(s.id)))
+    },
+  }
+  return { store, sent }
+}
+
+function stored(id: number, ownerId: string, topics: StoredPushSubscription['topics']): StoredPushSubscription {
+  return { ...service.subscribe(), id, ownerId, topics, createdAt: new Date().toISOString() }
+}
+
+describe('PushNotifier', () => {
+  it('should deliver an encrypted, VAPID-signed notification to the owner only', async () => {
+    const mine = stored(1, 'owner-a', ['alerts'])
+    const theirs = stored(2, 'owner-b', ['alerts'])
+    const { store, sent } = memoryStore([mine, theirs])
+    const notifier = new PushNotifier(store, vapid)
+
+    const summary = await notifier.notifyOwner('owner-a', 'alerts', { title: 'AAPL alert', body: 'crossed above $200' })
+
+    expect(summary).toEqual({ sent: 1, failed: 0, removed: 0 })
+    expect(sent).toEqual([1])
+    const delivered = service.received.filter((push) => push.endpoint === mine.endpoint)
+    expect(delivered).toHaveLength(1)
+    expect(delivered[0].notification).toEqual({ title: 'AAPL alert', body: 'crossed above $200' })
+    expect(delivered[0].subject).toBe('mailto:alerts@example.com')
+    expect(service.received.some((push) => push.endpoint === theirs.endpoint)).toBe(false)
+  })
+
+  it('should remove subscriptions the push service reports as gone', async () => {
+    const expired = stored(3, 'owner-a', ['scheduled-analyses'])
+    const failing = stored(4, 'owner-b', ['scheduled-analyses'])
+    const subscriptions = [expired, failing]
+    service.respondWith(expired.endpoint, 410)
+    service.respondWith(failing.endpoint, 500)
+    const notifier = new PushNotifier(memoryStore(subscriptions).store, vapid)
+
+    const summary = await notifier.broadcast('scheduled-analyses', { title: 'Done', body: 'Predictions graded' })
+
+    expect(summary).toEqual({ sent: 0, failed: 1, removed: 1 })
+    expect(subscriptions.map((s) => s.id)).toEqual([4])
+  })
+
+  it('should reject notifications signed with a different key', async () => {
+    const subscription = stored(5, 'owner-a', ['alerts'])
+    const forged = { ...vapid, privateKey: generateVapidKeys().privateKey }
+    const notifier = new PushNotifier(memoryStore([subscription]).store, forged)
+
+    expect(await notifier.notifyOwner('owner-a', 'alerts', { title: 'x', body: 'y' })).toEqual({
+      sent: 0,
+      failed: 1,
+      removed: 0,
+    })
+  })
+})
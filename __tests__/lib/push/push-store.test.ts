@@ -0,0 +1,34 @@
+/** Minimal tests for push subscription validation */
+import { normalizeSubscription } from '@/lib/push/push-store'
+
+const keys = {
+  p256dh: Buffer.alloc(65, 4).toString('base64url'),
+  auth: Buffer.alloc(16, 1).toString('base64url'),
+}
+
+describe('normalizeSubscription', () => {
+  it('should accept endpoints of the browser push services', () => {
+    for (const endpoint of [
+      'https://fcm.googleapis.com/fcm/send/abc123',
+      'https://updates.push.services.mozilla.com/wpush/v2/abc123',
+      'https://web.push.apple.com/QGd3abc123',
+      'https://wns2-by3p.notify.windows.com/w/?token=abc123',
+    ]) {
+      expect(normalizeSubscription({ endpoint, keys })).toEqual({ endpoint, keys })
+    }
+  })
+
+  it('should reject endpoints that point anywhere else', () => {
+    for (const endpoint of [
+      'https://127.0.0.1/push',
+      'https://169.254.169.254/latest/meta-data',
+      'https://localhost:8443/push',
+      'https://fcm.googleapis.com.attacker.example/push',
+      'https://fcm.googleapis.com:8080/fcm/send/abc123',
+      'http://fcm.googleapis.com/fcm/send/abc123',
+      'not a url',
+    ]) {
+      expect(normalizeSubscription({ endpoint, keys })).toBeNull()
+    }
+  })
+})
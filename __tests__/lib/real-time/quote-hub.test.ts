@@ -0,0 +1,64 @@
+/** Minimal tests for the quote stream fan-out */
+import { QuoteHub, type QuoteStreamEvent, type QuoteUpdate } from '@/lib/real-time/quote-hub'
+
+function quote(ticker: string, price: number): QuoteUpdate {
+  return {
+    ticker,
+    price,
+    change: 0,
+    changePercent: 0,
+    volume: 1000,
+    timestamp: '2025-06-02T15:00:00.000Z',
+    source: 'test',
+  }
+}
+
+describe('QuoteHub', () => {
+  let hub: QuoteHub
+
+  afterEach(() => hub.stop())
+
+  it('should poll each symbol once for all subscribers', async () => {
+    const fetchQuote = jest.fn(async (ticker: string) => quote(ticker, 100))
+    hub = new QuoteHub(fetchQuote, { pollIntervalMs: 60_000 })
+    const first: QuoteStreamEvent[] = []
+    const second: QuoteStreamEvent[] = []
+
+    hub.subscribe(['aapl'], (event) => first.push(event))
+    hub.subscribe(['AAPL'], (event) => second.push(event))
+    await new Promise((resolve) => setImmediate(resolve))
+
+    expect(fetchQuote).toHaveBeenCalledTimes(1)
+    expect(first.map((event) => event.price)).toEqual([100])
+    expect(second).toEqual(first)
+  })
+
+  it('should replay missed quotes to a resuming client', () => {
+    hub = new QuoteHub(async () => new Promise<QuoteUpdate>(() => {}), { pollIntervalMs: 60_000 })
+    const unsubscribe = hub.subscribe(['AAPL', 'MSFT'], () => {})
+    const seen = hub.publish(quote('AAPL', 100))
+    hub.publish(quote('MSFT', 300))
+    hub.publish(quote('AAPL', 101))
+    unsubscribe()
+
+    const resumed: QuoteStreamEvent[] = []
+    hub.subscribe(['AAPL', 'MSFT'], (event) => resumed.push(event), seen.id)
+    expect(resumed.map((event) => [event.ticker, event.price])).toEqual([
+      ['MSFT', 300],
+      ['AAPL', 101],
+    ])
+
+    const fresh: QuoteStreamEvent[] = []
+    hub.subscribe(['AAPL'], (event) => fresh.push(event), 999)
+    expect(fresh.map((event) => event.price)).toEqual([101])
+  })
+
+  it('should stop polling when the last subscriber leaves', () => {
+    hub = new QuoteHub(async (ticker) => quote(ticker, 1), { pollIntervalMs: 60_000 })
+    const unsubscribe = hub.subscribe(['AAPL'], () => {})
+    expect(hub.activeTickers()).toEqual(['AAPL'])
+
+    unsubscribe()
+    expect(hub.activeTickers()).toEqual([])
+  })
+})
@@ -0,0 +1,106 @@
+/**
+ * Minimal tests for the sentiment pipeline using collector fixtures
+ */
+
+import path from 'path'
+import { LexiconScorer } from '@/lib/sentiment/lexicon-scorer'
+import { NewsCollector } from '@/lib/sentiment/collectors/news-collector'
+import { RedditCollector } from '@/lib/sentiment/collectors/reddit-collector'
+import { StockTwitsCollector } from '@/lib/sentiment/collectors/stocktwits-collector'
+import { SentimentPipeline, type DailySourceSentiment, type SentimentStore } from '@/lib/sentiment/sentiment-pipeline'
+
+const fixturesDir = path.join(__dirname, '../../fixtures/sentiment')
+
+function memoryStore(): SentimentStore & { rows: DailySourceSentiment[] } {
+  const rows: DailySourceSentiment[] = []
+  return {
+    rows,
+    async loadDaily(ticker, since) {
+      return rows.filter((row) => row.ticker === ticker && row.date >= since)
+    },
+    async saveDaily(newRows) {
+      rows.push(...newRows)
+    },
+    async lastCollectedAt() {
+      return null
+    },
+  }
+}
+
+describe('LexiconScorer', () => {
+  const scorer = new LexiconScorer()
+
+  it('should score bullish and bearish text with opposite signs', () => {
+    expect(scorer.score('Very bullish, record quarter 🚀')).toBeGreaterThan(0.5)
+    expect(scorer.score('Shares plunge after earnings miss')).toBeLessThan(-0.5)
+    expect(scorer.score('What time is the keynote?')).toBe(0)
+  })
+
+  it('should flip polarity after a negation', () => {
+    expect(scorer.score('not bullish')).toBeLessThan(0)
+    expect(scorer.score('$BEAR is up')).toBe(0)
+  })
+})
+
+describe('SentimentPipeline', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-06-05T20:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] })
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  it('should normalize fixture posts from every collector', async () => {
+    const reddit = await new RedditCollector({ fixturesDir }).collect('aapl')
+    const stocktwits = await new StockTwitsCollector({ fixturesDir }).collect('AAPL')
+    const news = await new NewsCollector({ fixturesDir }).collect('AAPL')
+
+    expect(reddit.map((post) => post.id)).toEqual(['reddit:1d8abc1', 'reddit:1d7xyz2', 'reddit:1d7old3'])
+    expect(reddit[0].engagement).toBe(500)
+    expect(stocktwits[0].label).toBe('bullish')
+    expect(stocktwits[2].label).toBeUndefined()
+    expect(news[0].text).toBe('Apple shares surge after analyst upgrade')
+  })
+
+  it('should skip posts whose date is missing or unparseable and keep the rest of the source', async () => {
+    const stocktwits = await new StockTwitsCollector({ fixturesDir }).collect('MSFT')
+    const news = await new NewsCollector({ fixturesDir }).collect('MSFT')
+
+    expect(stocktwits.map((post) => post.id)).toEqual(['stocktwits:576000001'])
+    expect(news.map((post) => post.url)).toEqual(['https://example.com/msft-cloud'])
+  })
+
+  it('should store daily rows and build the summary from them', async () => {
+    const store = memoryStore()
+    const collectors = [
+      new RedditCollector({ fixturesDir }),
+      new StockTwitsCollector({ fixturesDir }),
+      new NewsCollector({ fixturesDir }),
+    ]
+    const summary = await new SentimentPipeline(collectors, new LexiconScorer(), store).getSentiment('AAPL')
+
+    expect(store.rows.filter((row) => row.source === 'reddit').map((row) => row.date).sort()).toEqual([
+      '2024-06-03',
+      '2024-06-04',
+      '2024-06-05',
+    ])
+    expect(summary.historicalSentiment.map((point) => point.date)).toEqual(['2024-06-03', '2024-06-04', '2024-06-05'])
+    expect(summary.sources.map((source) => [source.name, source.volume])).toEqual([
+      ['Reddit', 3],
+      ['StockTwits', 3],
+      ['Financial News', 2],
+    ])
+    expect(summary.sampleSize).toBe(8)
+    expect(summary.overall).toBeCloseTo((summary.news + summary.social) / 2, 10)
+  })
+
+  it('should fall back to neutral scores when no collector returns data', async () => {
+    const summary = await new SentimentPipeline([new RedditCollector({ fixturesDir })], new LexiconScorer(), null)
+      .getSentiment('ZZZZ')
+
+    expect(summary).toMatchObject({ news: 0.5, social: 0.5, overall: 0.5, sampleSize: 0, sources: [] })
+  })
+})
@@ -0,0 +1,57 @@
+/**
+ * Minimal tests for the shared market data cache
+ */
+
+import { MarketDataCache } from '@/lib/services/market-data-cache'
+
+describe('MarketDataCache', () => {
+  let now: number
+
+  beforeEach(() => {
+    now = 1_000_000
+    jest.spyOn(Date, 'now').mockImplementation(() => now)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should coalesce concurrent requests for the same key', async () => {
+    const cache = new MarketDataCache()
+    const fetcher = jest.fn().mockResolvedValue({ price: 150 })
+
+    const results = await Promise.all([
+      cache.getOrFetch('quote', 'AAPL', fetcher),
+      cache.getOrFetch('quote', 'AAPL', fetcher),
+    ])
+
+    expect(fetcher).toHaveBeenCalledTimes(1)
+    expect(results).toEqual([{ price: 150 }, { price: 150 }])
+    expect(cache.getMetrics()).toMatchObject({ misses: 1, coalesced: 1 })
+  })
+
+  it('should serve stale entries while revalidating in the background', async () => {
+    const cache = new MarketDataCache({ quote: { ttl: 1000, staleWhileRevalidate: 5000 } })
+    const fetcher = jest.fn().mockResolvedValueOnce({ price: 150 }).mockResolvedValueOnce({ price: 151 })
+
+    await cache.getOrFetch('quote', 'AAPL', fetcher)
+    now += 2000
+
+    await expect(cache.getOrFetch('quote', 'AAPL', fetcher)).resolves.toEqual({ price: 150 })
+    await Promise.resolve()
+    await expect(cache.getOrFetch('quote', 'AAPL', fetcher)).resolves.toEqual({ price: 151 })
+    expect(cache.getMetrics().byType.quote).toMatchObject({ staleHits: 1, revalidations: 1, hits: 1 })
+  })
+
+  it('should refetch once an entry is past its stale window', async () => {
+    const cache = new MarketDataCache({ candles: { ttl: 1000, staleWhileRevalidate: 1000 } })
+    const fetcher = jest.fn().mockResolvedValue([])
+
+    await cache.getOrFetch('candles', 'AAPL:365', fetcher)
+    now += 5000
+    await cache.getOrFetch('candles', 'AAPL:365', fetcher)
+
+    expect(fetcher).toHaveBeenCalledTimes(2)
+    expect(cache.getMetrics().byType.candles.misses).toBe(2)
+  })
+})
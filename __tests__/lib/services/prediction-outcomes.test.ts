@@ -0,0 +1,51 @@
+/**
+ * Minimal tests for prediction outcome grading
+ */
+
+import { calibrationCurve, findCloseForDate, gradePrediction } from '@/lib/services/prediction-outcomes'
+import type { PredictionOutcome, PredictionRow } from '@/lib/services/prediction-outcomes'
+
+const candle = (date: string, close: number) => ({ date, open: close, high: close, low: close, close, price: close, volume: 1000 })
+
+const prediction: PredictionRow = {
+  id: 1,
+  ticker: 'AAPL',
+  prediction_date: '2024-01-02',
+  target_date: '2024-02-03',
+  timeframe: '1m',
+  current_price: 100,
+  predicted_price: 110,
+  confidence_score: 72,
+  direction: 'up',
+  model_version: 'v1',
+}
+
+describe('prediction outcomes', () => {
+  it('should grade direction against the baseline price and error against the target', () => {
+    const outcome = gradePrediction(prediction, candle('2024-02-02', 99))
+
+    expect(outcome.directionCorrect).toBe(false)
+    expect(outcome.percentError).toBeCloseTo(-0.1, 8)
+    expect(outcome.confidence).toBeCloseTo(0.72, 8)
+    expect(outcome.actualDate).toBe('2024-02-02')
+  })
+
+  it('should use the last close on or before a weekend target date', () => {
+    const candles = [candle('2024-02-01', 101), candle('2024-02-02', 102), candle('2024-02-05', 103)]
+
+    expect(findCloseForDate(candles, '2024-02-03')?.close).toBe(102)
+    expect(findCloseForDate(candles, '2024-03-01')).toBeNull()
+  })
+
+  it('should bucket outcomes by stated confidence', () => {
+    const outcome = (confidence: number, directionCorrect: boolean) =>
+      ({ ...gradePrediction(prediction, candle('2024-02-02', 120)), confidence, directionCorrect }) as PredictionOutcome
+
+    const bins = calibrationCurve([outcome(0.62, true), outcome(0.68, false), outcome(0.91, true)])
+
+    expect(bins).toHaveLength(2)
+    expect(bins[0]).toMatchObject({ range: [0.6, 0.7], count: 2, observedAccuracy: 0.5 })
+    expect(bins[0].meanConfidence).toBeCloseTo(0.65, 8)
+    expect(bins[1]).toMatchObject({ count: 1, observedAccuracy: 1 })
+  })
+})
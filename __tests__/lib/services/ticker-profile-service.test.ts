@@ -0,0 +1,36 @@
+/**
+ * Minimal tests for data-driven ticker classification
+ */
+
+import { classifyTicker, growthProfile, marketCapBucket } from '@/lib/services/ticker-profile-service'
+
+function makeCandles(count: number, dailyMove: number) {
+  return Array.from({ length: count }, (_, i) => {
+    const close = 100 * (1 + (i % 2 === 0 ? dailyMove : -dailyMove))
+    const date = new Date(Date.UTC(2024, 0, 1 + i)).toISOString().split('T')[0]
+    return { date, open: close, high: close, low: close, close, price: close, volume: 1000 }
+  })
+}
+
+describe('ticker profile classification', () => {
+  it('should bucket market cap by size', () => {
+    expect(marketCapBucket(5e8)).toBe('small')
+    expect(marketCapBucket(5e9)).toBe('mid')
+    expect(marketCapBucket(3e12)).toBe('large')
+  })
+
+  it('should lean growth or value from valuation, growth and dividends', () => {
+    expect(growthProfile({ pe: 60, priceToBook: 15, revenueGrowth: 0.4, dividend: 0 })).toBe('growth')
+    expect(growthProfile({ pe: 9, priceToBook: 1.1, revenueGrowth: 0.01, dividend: 4 })).toBe('value')
+    expect(growthProfile({ pe: 22 })).toBe('balanced')
+  })
+
+  it('should classify realized volatility from candles', () => {
+    const calm = classifyTicker('msft', { marketCap: 3e12, sector: 'Technology' }, makeCandles(260, 0.002))
+    const wild = classifyTicker('xyz', null, makeCandles(260, 0.05))
+
+    expect(calm).toMatchObject({ ticker: 'MSFT', sector: 'technology', volatilityProfile: 'low', marketCap: 'large' })
+    expect(wild.volatilityProfile).toBe('high')
+    expect(wild.sector).toBe('general')
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * Minimal tests for the shared technical indicator library
+ */
+
+import { TechnicalAnalysis } from '@/lib/utils/technical-analysis'
+
+describe('TechnicalAnalysis', () => {
+  it('should use the most recent changes with Wilder smoothing for RSI', () => {
+    // 14 rising closes followed by a sharp drop: a first-N-changes RSI would still read 100
+    const prices = [...Array.from({ length: 15 }, (_, i) => 100 + i), 90, 85, 80]
+    const rsi = TechnicalAnalysis.rsiSeries(prices, 14)
+
+    expect(rsi.slice(0, 14).every((value) => value === null)).toBe(true)
+    expect(rsi[14]).toBe(100)
+    expect(TechnicalAnalysis.calculateRSI(prices)).toBeLessThan(50)
+  })
+
+  it('should derive the MACD signal as a 9-period EMA of the MACD line', () => {
+    const prices = Array.from({ length: 60 }, (_, i) => 100 + Math.sin(i / 4) * 5 + i * 0.2)
+    const { macd, signal, histogram } = TechnicalAnalysis.macdSeries(prices)
+
+    expect(macd[24]).toBeNull()
+    expect(signal[32]).toBeNull()
+    expect(signal[33]).toBeCloseTo(macd.slice(25, 34).reduce((sum, v) => sum! + v!, 0)! / 9, 10)
+    expect(histogram[59]).toBeCloseTo(macd[59]! - signal[59]!, 10)
+  })
+
+  it('should return series aligned with the input prices', () => {
+    const prices = Array.from({ length: 30 }, (_, i) => 10 + i)
+    const bands = TechnicalAnalysis.bollingerSeries(prices, 20, 2)
+
+    expect(TechnicalAnalysis.smaSeries(prices, 20)).toHaveLength(30)
+    expect(bands.middle[19]).toBeCloseTo(19.5)
+    expect(bands.upper[29]! - bands.middle[29]!).toBeCloseTo(bands.middle[29]! - bands.lower[29]!)
+  })
+})
+
+describe('TechnicalAnalysis OHLCV indicators', () => {
+  const candles = Array.from({ length: 80 }, (_, i) => {
+    const close = 100 + i * 0.5 + Math.sin(i / 3) * 2
+    return { high: close + 1, low: close - 1, close, volume: 1000 + i * 10 }
+  })
+
+  it('should compute ATR, Stochastic and ADX within their ranges', () => {
+    const atr = TechnicalAnalysis.atrSeries(candles)
+    const { k, d } = TechnicalAnalysis.stochasticSeries(candles)
+    const { adx, plusDI, minusDI } = TechnicalAnalysis.adxSeries(candles)
+
+    expect(atr[12]).toBeNull()
+    expect(atr[79]).toBeGreaterThanOrEqual(2)
+    expect(k.every((value) => value === null || (value >= 0 && value <= 100))).toBe(true)
+    expect(d[15]).toBeCloseTo((k[13]! + k[14]! + k[15]!) / 3)
+    expect(adx[27]).not.toBeNull()
+    expect(plusDI[79]!).toBeGreaterThan(minusDI[79]!)
+  })
+
+  it('should accumulate OBV and VWAP from volume', () => {
+    const obv = TechnicalAnalysis.obvSeries([
+      { high: 11, low: 9, close: 10, volume: 100 },
+      { high: 12, low: 10, close: 11, volume: 200 },
+      { high: 11, low: 9, close: 10, volume: 50 },
+    ])
+    const vwap = TechnicalAnalysis.vwapSeries([
+      { high: 10, low: 10, close: 10, volume: 100 },
+      { high: 20, low: 20, close: 20, volume: 300 },
+    ])
+
+    expect(obv).toEqual([0, 200, 150])
+    expect(vwap).toEqual([10, 17.5])
+  })
+
+  it('should displace the Ichimoku spans forward by 26 candles', () => {
+    const ichimoku = TechnicalAnalysis.ichimokuSeries(candles)
+
+    expect(ichimoku.spanA[50]).toBeNull()
+    expect(ichimoku.spanA[51]).toBeCloseTo((ichimoku.conversion[25]! + ichimoku.base[25]!) / 2)
+    expect(ichimoku.spanB[77]).toBeCloseTo(
+      (Math.max(...candles.slice(0, 52).map((c) => c.high)) + Math.min(...candles.slice(0, 52).map((c) => c.low))) / 2,
+    )
+    expect(ichimoku.lagging[0]).toBe(candles[26].close)
+  })
+})
@@ -0,0 +1,45 @@
+/** Minimal tests for watchlist validation */
+import {
+  WatchlistError,
+  marketSymbol,
+  normalizeWatchlistItems,
+  normalizeWatchlistName,
+  validateOrder,
+} from '@/lib/watchlists/watchlist'
+
+describe('watchlist rules', () => {
+  it('should uppercase symbols and drop repeats while keeping order', () => {
+    const items = normalizeWatchlistItems([
+      { symbol: 'msft' },
+      { symbol: 'btc', assetType: 'crypto' },
+      { symbol: 'MSFT', assetType: 'stock' },
+      { symbol: 'BTC', assetType: 'stock' },
+    ])
+
+    expect(items).toEqual([
+      { symbol: 'MSFT', assetType: 'stock' },
+      { symbol: 'BTC', assetType: 'crypto' },
+      { symbol: 'BTC', assetType: 'stock' },
+    ])
+  })
+
+  it('should reject invalid names, symbols and asset types', () => {
+    expect(() => normalizeWatchlistName('   ')).toThrow(WatchlistError)
+    expect(() => normalizeWatchlistItems([{ symbol: 'NOT A SYMBOL' }])).toThrow(WatchlistError)
+    expect(() => normalizeWatchlistItems([{ symbol: 'AAPL', assetType: 'bond' }])).toThrow(WatchlistError)
+  })
+
+  it('should require a reorder to list every watchlist exactly once', () => {
+    const lists = [{ id: 1 }, { id: 2 }, { id: 3 }]
+
+    expect(validateOrder(lists, [3, 1, 2])).toEqual([3, 1, 2])
+    expect(() => validateOrder(lists, [3, 1])).toThrow(WatchlistError)
+    expect(() => validateOrder(lists, [1, 1, 2])).toThrow(WatchlistError)
+  })
+
+  it('should quote crypto against the dollar', () => {
+    expect(marketSymbol({ symbol: 'ETH', assetType: 'crypto' })).toBe('ETH-USD')
+    expect(marketSymbol({ symbol: 'ETH-EUR', assetType: 'crypto' })).toBe('ETH-EUR')
+    expect(marketSymbol({ symbol: 'AAPL', assetType: 'stock' })).toBe('AAPL')
+  })
+})
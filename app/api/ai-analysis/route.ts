@@ -1,5 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { groqClient } from "@/lib/ai/groq-client"
+import { aiClient } from "@/lib/ai/ai-client"
+import { StructuredOutputError } from "@/lib/ai/structured-output"
+import { ANALYSIS_QUERY, retrievePassages } from "@/lib/documents/document-retrieval"
 import { neon } from "@neondatabase/serverless"
 
 const sql = neon(process.env.DATABASE_URL!)
@@ -15,29 +17,47 @@ export async function POST(request: NextRequest) {
     }
 
     let aiAnalysis
+    let servedBy: { provider: string; model: string }
+    // Comprehensive analyses cite the ticker's filings and transcripts when any have been ingested
+    const filings =
+      analysisType === "trading" || analysisType === "market"
+        ? []
+        : await retrievePassages(ANALYSIS_QUERY, { ticker }).catch((err) => {
+            console.warn("Non-critical: filing retrieval failed:", err.message)
+            return []
+          })
 
     switch (analysisType) {
-      case "comprehensive":
-        aiAnalysis = await groqClient.generateStockAnalysis(stockData)
-        break
-      case "trading":
-        aiAnalysis = await groqClient.generateTradingStrategy({
+      case "trading": {
+        const strategy = await aiClient.generateTradingStrategy({
           ticker,
           timeframe: stockData.timeframe || "1m",
           riskTolerance: "moderate",
           position: stockData.shares || 0,
         })
+        aiAnalysis = strategy.text
+        servedBy = strategy
         break
-      case "market":
-        aiAnalysis = await groqClient.generateMarketInsights({
+      }
+      case "market": {
+        const insights = await aiClient.generateMarketInsights({
           topStocks: [ticker],
           marketTrend: "neutral",
           volatility: stockData.risk?.volatility || 0.2,
         })
+        aiAnalysis = insights.text
+        servedBy = insights
         break
+      }
+      case "comprehensive":
       default:
-        aiAnalysis = await groqClient.generateStockAnalysis(stockData)
+        aiAnalysis = await aiClient.generateStockAnalysis(stockData, filings)
+        servedBy = aiAnalysis
     }
+    const modelUsed = `${servedBy.provider}/${servedBy.model}`
+
+    // Free-text analyses carry no recommendation of their own
+    const structured = typeof aiAnalysis === "string" ? null : aiAnalysis
 
     // Store AI analysis in database (non-blocking)
     sql`
@@ -45,9 +65,9 @@ export async function POST(request: NextRequest) {
         ticker, analysis_type, ai_recommendation, confidence_score, 
         reasoning, created_at, model_used, response_time_ms
       ) VALUES (
-        ${ticker}, ${analysisType}, ${aiAnalysis.recommendation || "HOLD"}, 
-        ${aiAnalysis.confidence || 75}, ${aiAnalysis.reasoning || aiAnalysis}, 
-        NOW(), 'groq-llama-3.1-70b', ${Date.now() - startTime}
+        ${ticker}, ${analysisType}, ${structured?.recommendation ?? null}, 
+        ${structured?.confidence ?? null}, ${structured?.reasoning ?? aiAnalysis}, 
+        NOW(), ${modelUsed}, ${Date.now() - startTime}
       )
     `.catch((err) => {
       console.warn("Non-critical: Failed to store AI analysis in database:", err.message)
@@ -57,7 +77,8 @@ export async function POST(request: NextRequest) {
       success: true,
       analysis: aiAnalysis,
       metadata: {
-        model: "groq-llama-3.1-70b",
+        provider: servedBy.provider,
+        model: servedBy.model,
         responseTime: Date.now() - startTime,
         timestamp: new Date().toISOString(),
       },
@@ -65,6 +86,10 @@ export async function POST(request: NextRequest) {
   } catch (error: any) {
     console.error("AI Analysis error:", error)
 
+    if (error instanceof StructuredOutputError) {
+      return NextResponse.json(error.toJSON(), { status: 502 })
+    }
+
     // Log error to database
     await sql`
       INSERT INTO error_logs (
@@ -1,44 +1,59 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { CHAT_STREAM_HEADERS, encodeChatEvent, type ChatSearchResult } from "@/lib/ai/chat-stream"
+import { LLMRouter } from "@/lib/ai/llm-router"
+import { MultiSourceStockClient } from "@/lib/api/multi-source-client"
+import { getOwnerId } from "@/lib/auth/owner"
+import { ChatSessionError } from "@/lib/chat/chat-session"
+import { getChatSessionStore } from "@/lib/chat/chat-session-store"
+import { openChatSession, runChatTurn } from "@/lib/chat/chat-turn"
+import { filingContext, retrievePassages, toCitations } from "@/lib/documents/document-retrieval"
+import type { RetrievedPassage } from "@/lib/documents/types"
+import { errorResponse } from "@/lib/http/route-errors"
 
 /**
- * NEW: DeepSeek with Brave Search Implementation (Streaming)
- * Uses OpenRouter API with deepseek/deepseek-chat-v3.1 model
- * Performs web search via Brave Search API before generating response
- * Returns search results first, then AI response
+ * Streaming analyst chat grounded in Brave web search, ingested filings and platform data.
+ * Searches first (when BRAVE_SEARCH is set) and sends the results, then sends the filing and transcript
+ * passages retrieved for the question as numbered citations, then streams the reply from whichever
+ * provider the LLM router picks for the "chat" feature (DeepSeek on OpenRouter by default). The model may call
+ * data tools along the way; each call and its result is streamed before the text that relies on it.
+ * Messages belong to an "analyst" chat session: pass `sessionId` to continue one, or omit it to start one.
  */
 export async function POST(req: NextRequest) {
   try {
-    const { message, ticker, stockData } = await req.json()
+    const { message, ticker, stockData, sessionId } = await req.json()
 
     if (!message?.trim()) {
       return NextResponse.json({ error: "Message is required" }, { status: 400 })
     }
 
-    // Verify API keys
-    if (!process.env.OPENROUTER_KEY || !process.env.BRAVE_SEARCH) {
+    const router = LLMRouter.getInstance()
+    if (!router.isAvailable("chat")) {
       return NextResponse.json({ error: "AI service not configured" }, { status: 503 })
     }
 
+    // Issued before streaming starts: the cookie can only be set while the response headers are open
+    const ownerId = await getOwnerId().catch(() => null)
+    const store = getChatSessionStore()
+    const opened = await openChatSession(store, ownerId, { channel: "analyst", sessionId, ticker, message })
     const encoder = new TextEncoder()
     const stream = new ReadableStream({
       async start(controller) {
         try {
           // Step 1: Perform Brave Search and send results immediately
           const searchQuery = message
-          const braveResponse = await fetch(
-            `https://api.search.brave.com/res/v1/web/search?q=${encodeURIComponent(searchQuery)}`,
-            {
-              headers: {
-                Accept: "application/json",
-                "Accept-Encoding": "gzip",
-                "X-Subscription-Token": process.env.BRAVE_SEARCH!,
-              },
-            }
-          )
+          const braveResponse = process.env.BRAVE_SEARCH
+            ? await fetch(`https://api.search.brave.com/res/v1/web/search?q=${encodeURIComponent(searchQuery)}`, {
+                headers: {
+                  Accept: "application/json",
+                  "Accept-Encoding": "gzip",
+                  "X-Subscription-Token": process.env.BRAVE_SEARCH,
+                },
+              })
+            : null
 
           let searchContext = ""
-          let structuredResults: Array<{ title: string; url: string; description: string }> = []
-          if (braveResponse.ok) {
+          let structuredResults: ChatSearchResult[] = []
+          if (braveResponse?.ok) {
             const searchData = await braveResponse.json()
             const results = searchData.web?.results?.slice(0, 5) || []
             structuredResults = results
@@ -53,15 +68,21 @@ export async function POST(req: NextRequest) {
               .join("\n")
 
             // Send search results immediately
-            const searchMessage = JSON.stringify({
-              type: "search",
-              searchResults: structuredResults,
-              timestamp: new Date().toISOString(),
-            })
-            controller.enqueue(encoder.encode(`data: ${searchMessage}\n\n`))
+            controller.enqueue(encoder.encode(encodeChatEvent({ type: "search", searchResults: structuredResults })))
           }
 
-          // Step 2: Build system prompt with stock data and search results
+          // Step 2: Retrieve filing and transcript passages; the reply cites them by number
+          const passages: RetrievedPassage[] = await retrievePassages(message, {
+            ticker: typeof ticker === "string" && ticker ? ticker : undefined,
+          }).catch((error) => {
+            console.warn("Non-critical: filing retrieval failed:", error.message)
+            return []
+          })
+          if (passages.length > 0) {
+            controller.enqueue(encoder.encode(encodeChatEvent({ type: "citations", citations: toCitations(passages) })))
+          }
+
+          // Step 3: Build system prompt with stock data, search results and filing excerpts
           const systemPrompt = `You are a professional financial analyst providing insights about ${ticker || "the stock"}.
 
 ${stockData ? `Current Market Data:
@@ -73,207 +94,42 @@ ${stockData ? `Current Market Data:
 
 ${searchContext ? `Recent Web Search Results:\n${searchContext}` : ""}
 
-Provide professional, clear, and actionable financial analysis. Keep responses concise but comprehensive. Always mention this is for educational purposes only and not personalized financial advice.`
-
-          // Step 3: Call OpenRouter API with DeepSeek model
-          console.log(`debug search result from brave: ${searchContext}.`)
-          const openRouterResponse = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-            method: "POST",
-            headers: {
-              Authorization: `Bearer ${process.env.OPENROUTER_KEY!}`,
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              model: "deepseek/deepseek-chat-v3.1",
-              messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: message },
-              ],
-              max_tokens: 1000,
-              temperature: 0.3,
-              stream: true,
-            }),
-          })
-
-          if (!openRouterResponse.ok) {
-            const errorText = await openRouterResponse.text()
-            console.error("OpenRouter API Error:", openRouterResponse.status, errorText)
-            const errorMessage = JSON.stringify({
-              type: "error",
-              error: "AI service temporarily unavailable",
-            })
-            controller.enqueue(encoder.encode(`data: ${errorMessage}\n\n`))
-            controller.close()
-            return
-          }
+${filingContext(passages)}
 
-          const reader = openRouterResponse.body?.getReader()
-          const decoder = new TextDecoder()
-
-          if (!reader) {
-            throw new Error("Failed to get reader from OpenRouter response")
-          }
-
-          let buffer = ""
-          while (true) {
-            const { done, value } = await reader.read()
-            if (done) break
-
-            buffer += decoder.decode(value, { stream: true })
-            const lines = buffer.split("\n")
-            buffer = lines.pop() || ""
-
-            for (const line of lines) {
-              const trimmedLine = line.trim()
-              if (!trimmedLine || trimmedLine === "data: [DONE]") continue
-
-              if (trimmedLine.startsWith("data: ")) {
-                try {
-                  const data = JSON.parse(trimmedLine.slice(6))
-                  const content = data.choices?.[0]?.delta?.content
+Provide professional, clear, and actionable financial analysis. Keep responses concise but comprehensive. Always mention this is for educational purposes only and not personalized financial advice.`
 
-                  if (content) {
-                    const chunkMessage = JSON.stringify({
-                      type: "chunk",
-                      content: content,
-                      timestamp: new Date().toISOString(),
-                      model: "deepseek/deepseek-chat-v3.1",
-                    })
-                    controller.enqueue(encoder.encode(`data: ${chunkMessage}\n\n`))
-                  }
-                } catch (e) {
-                  console.error("Error parsing OpenRouter chunk:", e)
-                }
-              }
+          // Step 4: Stream the reply, running any data tools the model calls
+          try {
+            for await (const event of runChatTurn({
+              router,
+              store,
+              ownerId,
+              opened,
+              message,
+              system: systemPrompt,
+              context: { stockClient: new MultiSourceStockClient(), ownerId },
+            })) {
+              controller.enqueue(encoder.encode(encodeChatEvent(event)))
             }
+          } catch (error: any) {
+            console.error("Chat provider error:", error.message)
+            const errorEvent = encodeChatEvent({ type: "error", error: "AI service temporarily unavailable" })
+            controller.enqueue(encoder.encode(errorEvent))
           }
 
           controller.close()
         } catch (error: any) {
           console.error("Stream Error:", error)
-          const errorMessage = JSON.stringify({
-            type: "error",
-            error: error.message || "Failed to process request",
-          })
-          controller.enqueue(encoder.encode(`data: ${errorMessage}\n\n`))
+          const errorEvent = encodeChatEvent({ type: "error", error: error.message || "Failed to process request" })
+          controller.enqueue(encoder.encode(errorEvent))
           controller.close()
         }
       },
     })
 
-    return new Response(stream, {
-      headers: {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
-      },
-    })
-  } catch (error: any) {
-    console.error("AI Chat Error:", error)
-    return NextResponse.json({ error: "Failed to process request" }, { status: 500 })
+    return new Response(stream, { headers: CHAT_STREAM_HEADERS })
+  } catch (error) {
+    return errorResponse(error, "Failed to process request", ChatSessionError)
   }
 }
 
-// ORIGINAL: Groq Implementation
-// export async function POST(req: NextRequest) {
-//   try {
-//     const { message, ticker, stockData } = await req.json()
-
-//     if (!message?.trim()) {
-//       return NextResponse.json({ error: "Message is required" }, { status: 400 })
-//     }
-
-//     // Check if GROQ_API_KEY is available
-//     if (!process.env.GROQ_API_KEY) {
-//       return NextResponse.json({ error: "AI service not configured" }, { status: 503 })
-//     }
-
-//     // Create system prompt
-//     const systemPrompt = `You are a professional financial analyst providing insights about ${ticker || "the stock"}. 
-
-// ${
-//   stockData
-//     ? `Current Market Data:
-// - Price: $${stockData.currentPrice || "N/A"}
-// - Technical Indicators: ${JSON.stringify(stockData.technicalIndicators || {}, null, 2)}
-// - Sentiment: ${stockData.sentiment || "N/A"}
-// - Fundamentals: ${JSON.stringify(stockData.fundamentals || {}, null, 2)}
-// - Prediction: ${JSON.stringify(stockData.prediction || {}, null, 2)}`
-//     : "Limited market data available."
-// }
-
-// Provide professional, clear, and actionable financial analysis. Keep responses concise but comprehensive. Always mention this is for educational purposes only and not personalized financial advice.`
-
-//     // Call Groq API directly with updated model
-//     const groqResponse = await fetch("https://api.groq.com/openai/v1/chat/completions", {
-//       method: "POST",
-//       headers: {
-//         Authorization: `Bearer ${process.env.GROQ_API_KEY}`,
-//         "Content-Type": "application/json",
-//       },
-//       body: JSON.stringify({
-//         model: "llama-3.1-8b-instant", // Updated to supported model
-//         messages: [
-//           { role: "system", content: systemPrompt },
-//           { role: "user", content: message },
-//         ],
-//         max_tokens: 1000,
-//         temperature: 0.3,
-//         top_p: 0.9,
-//       }),
-//     })
-
-//     if (!groqResponse.ok) {
-//       const errorText = await groqResponse.text()
-//       console.error("Groq API Error:", groqResponse.status, errorText)
-
-//       // Try alternative model if the first one fails
-//       if (groqResponse.status === 400) {
-//         console.log("Trying alternative model...")
-
-//         const fallbackResponse = await fetch("https://api.groq.com/openai/v1/chat/completions", {
-//           method: "POST",
-//           headers: {
-//             Authorization: `Bearer ${process.env.GROQ_API_KEY}`,
-//             "Content-Type": "application/json",
-//           },
-//           body: JSON.stringify({
-//             model: "llama3-8b-8192", // Fallback model
-//             messages: [
-//               { role: "system", content: systemPrompt },
-//               { role: "user", content: message },
-//             ],
-//             max_tokens: 1000,
-//             temperature: 0.3,
-//             top_p: 0.9,
-//           }),
-//         })
-
-//         if (fallbackResponse.ok) {
-//           const fallbackData = await fallbackResponse.json()
-//           const aiResponse = fallbackData.choices?.[0]?.message?.content || "Sorry, I couldn't generate a response."
-
-//           return NextResponse.json({
-//             response: aiResponse,
-//             timestamp: new Date().toISOString(),
-//             model: "llama3-8b-8192",
-//           })
-//         }
-//       }
-
-//       return NextResponse.json({ error: "AI service temporarily unavailable" }, { status: 503 })
-//     }
-
-//     const groqData = await groqResponse.json()
-//     const aiResponse = groqData.choices?.[0]?.message?.content || "Sorry, I couldn't generate a response."
-
-//     return NextResponse.json({
-//       response: aiResponse,
-//       timestamp: new Date().toISOString(),
-//       model: "llama-3.1-8b-instant",
-//     })
-//   } catch (error: any) {
-//     console.error("AI Chat Error:", error)
-//     return NextResponse.json({ error: "Failed to process request" }, { status: 500 })
-//   }
-// }
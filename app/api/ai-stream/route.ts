@@ -1,6 +1,5 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { streamText } from "ai"
-import { groq } from "@ai-sdk/groq"
+import { LLMRouter } from "@/lib/ai/llm-router"
 
 export const runtime = "edge"
 
@@ -55,42 +54,49 @@ ${
 Provide professional, clear, and actionable financial analysis. Always mention this is for educational purposes only and not personalized financial advice.`
 
     // Prepare messages for AI
-    const aiMessages = [
-      { role: "system" as const, content: systemPrompt },
-      ...messages.map((msg: any) => ({
-        role: msg.role as "user" | "assistant",
-        content: String(msg.content || ""),
-      })),
-    ]
-
-    console.log("Calling Groq API...")
-
-    // Call Groq API with error handling
-    let result
+    const aiMessages = messages.map((msg: any) => ({
+      role: msg.role === "assistant" ? ("assistant" as const) : ("user" as const),
+      content: String(msg.content || ""),
+    }))
+
+    let reply
     try {
-      result = await streamText({
-        model: groq("llama-3.1-70b-versatile"),
+      reply = await LLMRouter.getInstance().stream("chat", {
+        system: systemPrompt,
         messages: aiMessages,
-        maxTokens: 1000,
+        maxOutputTokens: 1000,
         temperature: 0.3,
-        topP: 0.9,
       })
-    } catch (groqError: any) {
-      console.error("Groq API Error:", groqError)
+    } catch (providerError: any) {
+      console.error("LLM provider error:", providerError)
       return NextResponse.json(
         {
           error: "AI service temporarily unavailable",
-          details: groqError.message || "Unknown AI service error",
+          details: providerError.message || "Unknown AI service error",
         },
         { status: 503 },
       )
     }
 
-    console.log("Groq API call successful, returning stream...")
+    console.log(`Streaming reply from ${reply.provider}/${reply.model}`)
+
+    // Return the reply as a plain text stream
+    const encoder = new TextEncoder()
+    const textBody = new ReadableStream({
+      async start(controller) {
+        try {
+          for await (const delta of reply.textStream) controller.enqueue(encoder.encode(delta))
+          controller.close()
+        } catch (streamError) {
+          controller.error(streamError)
+        }
+      },
+    })
 
-    // Return streaming response
-    return result.toDataStreamResponse({
+    return new Response(textBody, {
       headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "X-LLM-Model": `${reply.provider}/${reply.model}`,
         "Access-Control-Allow-Origin": "*",
         "Access-Control-Allow-Methods": "POST",
         "Access-Control-Allow-Headers": "Content-Type",
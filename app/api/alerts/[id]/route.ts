@@ -0,0 +1,43 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getOwnerId } from "@/lib/auth/owner"
+import { AlertRuleError } from "@/lib/alerts/alert-conditions"
+import { deleteAlertRule, updateAlertRule } from "@/lib/alerts/alert-store"
+import { errorResponse, parseRouteId } from "@/lib/http/route-errors"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const id = parseRouteId((await params).id, "alert rule", AlertRuleError)
+    const body = await request.json()
+    const rule = await updateAlertRule(await getOwnerId(), id, {
+      name: body.name,
+      condition: body.condition,
+      cooldownMinutes: body.cooldownMinutes,
+      enabled: body.enabled,
+    })
+    if (!rule) {
+      return NextResponse.json({ error: "Alert rule not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ rule })
+  } catch (error) {
+    return errorResponse(error, "Failed to update alert rule", AlertRuleError)
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const id = parseRouteId((await params).id, "alert rule", AlertRuleError)
+    const deleted = await deleteAlertRule(await getOwnerId(), id)
+    if (!deleted) {
+      return NextResponse.json({ error: "Alert rule not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, "Failed to delete alert rule", AlertRuleError)
+  }
+}
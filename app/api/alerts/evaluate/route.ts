@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isAuthorizedJobRequest } from "@/lib/auth/job-auth"
+import { AlertEngine } from "@/lib/alerts/alert-engine"
+
+// Vercel Cron issues GET requests; admins can POST to run it on demand
+export async function GET(request: NextRequest) {
+  return runEvaluation(request)
+}
+
+export async function POST(request: NextRequest) {
+  return runEvaluation(request)
+}
+
+async function runEvaluation(request: NextRequest) {
+  if (!(await isAuthorizedJobRequest(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const limit = Number(request.nextUrl.searchParams.get("limit")) || undefined
+    const summary = await AlertEngine.getInstance().evaluateAll({ limit })
+    return NextResponse.json({ success: true, ...summary, timestamp: new Date().toISOString() })
+  } catch (error) {
+    console.error("Alert evaluation failed:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to evaluate alerts",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getOwnerId } from "@/lib/auth/owner"
+import { listAlertEvents } from "@/lib/alerts/alert-store"
+
+/** Recent alert triggers, newest first. Optional `ticker` and `limit` query parameters. */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const events = await listAlertEvents(await getOwnerId(), {
+      ticker: searchParams.get("ticker") ?? undefined,
+      limit: Number(searchParams.get("limit")) || undefined,
+    })
+
+    return NextResponse.json({ events })
+  } catch (error) {
+    console.error("Failed to list alert history:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to list alert history",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getOwnerId } from "@/lib/auth/owner"
+import { AlertRuleError } from "@/lib/alerts/alert-conditions"
+import { createAlertRule, listAlertRules } from "@/lib/alerts/alert-store"
+import { errorResponse } from "@/lib/http/route-errors"
+
+export async function GET() {
+  try {
+    const rules = await listAlertRules(await getOwnerId())
+    return NextResponse.json({ rules })
+  } catch (error) {
+    return errorResponse(error, "Failed to list alert rules", AlertRuleError)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const rule = await createAlertRule(await getOwnerId(), body)
+    return NextResponse.json({ rule }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to create alert rule", AlertRuleError)
+  }
+}
@@ -38,7 +38,8 @@ export async function GET(request: NextRequest) {
       })
     }
 
-    // Get comprehensive analytics data with correct column names
+    // Get comprehensive analytics data with correct column names; upstream:* rows are provider calls the rate
+    // limiter records, not requests to this app
     const [requestStats, errorStats, performanceStats] = await Promise.all([
       // Total requests and trends
       sql`
@@ -49,6 +50,7 @@ export async function GET(request: NextRequest) {
           MAX(created_at) as last_request
         FROM api_usage 
         WHERE created_at >= ${startDate.toISOString()}
+          AND endpoint NOT LIKE 'upstream:%'
       `,
 
       // Error statistics
@@ -60,6 +62,7 @@ export async function GET(request: NextRequest) {
         FROM api_usage 
         WHERE created_at >= ${startDate.toISOString()}
         AND status_code >= 400
+        AND endpoint NOT LIKE 'upstream:%'
       `,
 
       // Performance trends
@@ -71,6 +74,7 @@ export async function GET(request: NextRequest) {
           COUNT(CASE WHEN status_code >= 400 THEN 1 END) as errors
         FROM api_usage 
         WHERE created_at >= ${startDate.toISOString()}
+          AND endpoint NOT LIKE 'upstream:%'
         GROUP BY DATE(created_at)
         ORDER BY date DESC
         LIMIT 7
@@ -1,13 +1,39 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { neon } from "@neondatabase/serverless"
 import { MultiSourceStockClient } from "@/lib/api/multi-source-client"
-import { groqClient } from "@/lib/ai/groq-client"
+import { aiClient } from "@/lib/ai/ai-client"
+import { StructuredOutputError } from "@/lib/ai/structured-output"
+import { ANALYSIS_QUERY, retrievePassages } from "@/lib/documents/document-retrieval"
 import { PrecisionRecommendationEngine } from "@/lib/analysis/precision-recommendation-engine"
 import { ConsistencyValidator } from "@/lib/analysis/consistency-validator"
 import { EnhancedLiveDataClient } from "@/lib/api/enhanced-live-data-client"
+import { TechnicalAnalysis } from "@/lib/utils/technical-analysis"
+import type { HistoricalCandle } from "@/lib/api/providers/types"
+import {
+  calculateMomentumScore,
+  calculatePreciseFundamentalScore,
+  calculatePreciseNewsScore,
+  calculatePreciseTechnicalScore,
+  calculateVolatilityScore,
+  calculateVolumeScore,
+} from "@/lib/analysis/factor-scoring"
+import type { StockProfile } from "@/lib/analysis/precision-recommendation-engine"
+import { buildRiskReport, positionExposure, sectorEtfFor, STRESS_EPISODES } from "@/lib/analysis/risk-analytics"
+import { getTickerProfile } from "@/lib/services/ticker-profile-service"
+import { SentimentPipeline } from "@/lib/sentiment/sentiment-pipeline"
+import { getOwnerId } from "@/lib/auth/owner"
+import { getPortfolio } from "@/lib/portfolio/portfolio-store"
+import type { Position } from "@/lib/portfolio/types"
 
 const sql = neon(process.env.DATABASE_URL!)
 
+// Risk baselines by realized-volatility bucket
+const RISK_BASELINES: Record<StockProfile["volatilityProfile"], { base: number; volatilityMultiplier: number }> = {
+  low: { base: 3.5, volatilityMultiplier: 0.8 },
+  medium: { base: 5, volatilityMultiplier: 1 },
+  high: { base: 7.5, volatilityMultiplier: 1.5 },
+}
+
 export async function POST(request: NextRequest) {
   const startTime = Date.now()
 
@@ -22,8 +48,8 @@ export async function POST(request: NextRequest) {
   })
 
   try {
-    const { ticker, shares, timeframe } = await request.json()
-    console.log("Request params:", { ticker, shares, timeframe })
+    const { ticker, shares: requestedShares, timeframe, portfolioId } = await request.json()
+    console.log("Request params:", { ticker, shares: requestedShares, timeframe, portfolioId })
 
     if (!ticker) {
       return NextResponse.json({ error: "Ticker is required" }, { status: 400 })
@@ -40,15 +66,21 @@ export async function POST(request: NextRequest) {
 
     console.log("Starting parallel data fetching...")
     // Parallel data fetching for better performance
-    const [stockData, companyInfo, newsData, technicalData] = await Promise.all([
+    const [stockData, companyInfo, newsData, sourceTechnicals, profile, socialData, holding] = await Promise.all([
       fetchStockDataMultiSource(stockClient, ticker, timeframe),
       stockClient.getCompanyInfo(ticker).catch(() => getDefaultCompanyInfo()),
       stockClient.getNews(ticker).catch(() => ({ recent: [], trending: [] })),
-      stockClient.getTechnicalIndicators(ticker).catch(() => getDefaultTechnicalIndicators()),
+      stockClient.getTechnicalIndicators(ticker).catch(() => null),
+      getTickerProfile(ticker, stockClient),
+      SentimentPipeline.getInstance().getSentiment(ticker),
+      loadHolding(portfolioId, ticker),
     ])
 
-    // Generate social sentiment (simulated for now)
-    const socialData = generateSocialSentiment(ticker)
+    // A stored holding takes precedence over a share count typed into the request
+    const shares = holding ? holding.shares : requestedShares
+
+    // Fall back to indicators computed from the candles already fetched for this timeframe
+    const technicalData = sourceTechnicals ?? TechnicalAnalysis.calculateIndicatorSnapshot(stockData.historicalData)
 
     // Generate precision ML prediction
     const predictionData = await generatePrecisionMLPrediction({
@@ -59,10 +91,15 @@ export async function POST(request: NextRequest) {
       newsData,
       socialData,
       technicalData,
+      profile,
     })
 
     // Calculate risk metrics
-    const riskMetrics = await calculateRiskMetrics(ticker, stockData.historicalData)
+    const riskMetrics = await calculateRiskMetrics(stockClient, ticker, stockData.historicalData, profile)
+    const position = holding ? describeHolding(holding, stockData.currentPrice) : null
+    if (holding) {
+      riskMetrics.position = positionExposure(holding.shares, stockData.currentPrice, riskMetrics.valueAtRisk)
+    }
 
     // Create analysis data for validation
     let analysisData = {
@@ -75,7 +112,10 @@ export async function POST(request: NextRequest) {
       news: newsData,
       fundamentals: companyInfo,
       risk: riskMetrics,
+      position,
       aiAnalysis: null,
+      aiAnalysisError: null as Record<string, unknown> | null,
+      sourceReconciliation: stockData.sourceReconciliation,
       metadata: {
         analysisTime: Date.now() - startTime,
         dataSourcesUsed: ["multi-source", "precision-engine"],
@@ -83,7 +123,7 @@ export async function POST(request: NextRequest) {
       },
     }
 
-    // Generate AI-enhanced analysis using Groq
+    // Generate AI-enhanced analysis with the configured LLM provider
     try {
       console.log("Generating AI-enhanced analysis...")
       const fullStockData = {
@@ -95,23 +135,30 @@ export async function POST(request: NextRequest) {
         fundamentals: companyInfo,
         timeframe,
         shares,
+        position,
         prediction: predictionData,
       }
 
-      const aiEnhancedAnalysis = await groqClient.generateStockAnalysis(fullStockData)
+      const filings = await retrievePassages(ANALYSIS_QUERY, { ticker }).catch((err) => {
+        console.warn("Non-critical: filing retrieval failed:", err.message)
+        return []
+      })
+      const aiEnhancedAnalysis = await aiClient.generateStockAnalysis(fullStockData, filings)
 
       // CRITICAL: Ensure AI analysis always matches the precision prediction
-      if (aiEnhancedAnalysis) {
-        // Override AI recommendation with precision engine recommendation
-        aiEnhancedAnalysis.recommendation = predictionData.recommendation
-        aiEnhancedAnalysis.confidence = predictionData.confidence
-        aiEnhancedAnalysis.targetPrice = predictionData.targetPrice
-        analysisData.aiAnalysis = aiEnhancedAnalysis
+      // Override AI recommendation with precision engine recommendation
+      analysisData.aiAnalysis = {
+        ...aiEnhancedAnalysis,
+        recommendation: predictionData.recommendation,
+        confidence: predictionData.confidence,
+        targetPrice: predictionData.targetPrice,
       }
 
       console.log("AI analysis generated and synchronized with precision prediction")
-    } catch (aiError) {
-      console.warn("AI analysis failed, continuing without it:", aiError)
+    } catch (aiError: any) {
+      console.warn("Non-critical: AI analysis failed, continuing without it:", aiError.message)
+      analysisData.aiAnalysisError =
+        aiError instanceof StructuredOutputError ? aiError.toJSON() : { error: "AI analysis unavailable" }
     }
 
     // Validate consistency and apply corrections
@@ -129,7 +176,11 @@ export async function POST(request: NextRequest) {
     }
 
     // Store prediction and AI analysis with consistent data (non-blocking)
-    storePredictionAndAIAnalysis(ticker, analysisData.prediction, analysisData.aiAnalysis).catch((err) => {
+    storePredictionAndAIAnalysis(
+      ticker,
+      { ...analysisData.prediction, currentPrice: stockData.currentPrice, timeframe },
+      analysisData.aiAnalysis,
+    ).catch((err) => {
       console.warn("Non-critical: Failed to store prediction and AI analysis:", err.message)
     })
 
@@ -181,8 +232,9 @@ export async function POST(request: NextRequest) {
 // Helper functions with precision improvements
 async function fetchStockDataMultiSource(stockClient: MultiSourceStockClient, ticker: string, timeframe: string) {
   try {
+    // Reconcile the quote across every configured source so stale or bad prints are surfaced
     const [quote, historicalData, enhancedFundamentals] = await Promise.all([
-      stockClient.getQuote(ticker),
+      stockClient.getReconciledQuote(ticker),
       stockClient.getHistoricalData(ticker, getTimeframeDays(timeframe)),
       EnhancedLiveDataClient.getEnhancedFundamentals(ticker),
     ])
@@ -193,6 +245,7 @@ async function fetchStockDataMultiSource(stockClient: MultiSourceStockClient, ti
 
     return {
       currentPrice: quote.currentPrice,
+      sourceReconciliation: quote.reconciliation,
       historicalData,
       fundamentals: {
         pe: enhancedFundamentals.pe,
@@ -234,74 +287,15 @@ function getDefaultCompanyInfo() {
   }
 }
 
-function getDefaultTechnicalIndicators() {
-  return {
-    rsi: 50,
-    macd: { value: 0, signal: 0, histogram: [] },
-    sma: { sma20: 100, sma50: 95, sma200: 90 },
-    ema: { ema12: 102, ema26: 98 },
-    bollinger: { upper: 105, middle: 100, lower: 95, width: 10 },
-    adx: 25,
-    obv: [],
-    historicalRsi: [],
-    historicalMacd: { macd: [], signal: [], histogram: [] },
-  }
-}
-
-function generateSocialSentiment(ticker: string) {
-  // Create realistic sentiment based on ticker characteristics
-  const tickerProfiles = {
-    TSLA: { base: 0.65, volatility: 0.3 }, // High sentiment, high volatility
-    MSFT: { base: 0.55, volatility: 0.1 }, // Moderate sentiment, low volatility
-    NVDA: { base: 0.7, volatility: 0.2 }, // High sentiment, medium volatility
-    AAPL: { base: 0.6, volatility: 0.15 }, // Good sentiment, low volatility
-  }
-
-  const profile = tickerProfiles[ticker as keyof typeof tickerProfiles] || { base: 0.5, volatility: 0.2 }
-  const baseSentiment = profile.base + (Math.random() - 0.5) * profile.volatility
-
-  return {
-    news: Math.max(0, Math.min(1, baseSentiment + (Math.random() - 0.5) * 0.1)),
-    social: Math.max(0, Math.min(1, baseSentiment + (Math.random() - 0.5) * 0.2)),
-    overall: Math.max(0, Math.min(1, baseSentiment)),
-    historicalSentiment: Array.from({ length: 30 }, (_, i) => ({
-      date: new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().split("T")[0],
-      sentiment: Math.max(0, Math.min(1, baseSentiment + (Math.random() - 0.5) * 0.1)),
-    })).reverse(),
-    sources: [
-      {
-        name: "Financial News",
-        sentiment: Math.max(0, Math.min(1, baseSentiment + (Math.random() - 0.5) * 0.05)),
-        volume: Math.floor(Math.random() * 100 + 50),
-      },
-      {
-        name: "Twitter",
-        sentiment: Math.max(0, Math.min(1, baseSentiment + (Math.random() - 0.5) * 0.15)),
-        volume: Math.floor(Math.random() * 200 + 100),
-      },
-      {
-        name: "Reddit",
-        sentiment: Math.max(0, Math.min(1, baseSentiment + (Math.random() - 0.5) * 0.1)),
-        volume: Math.floor(Math.random() * 150 + 75),
-      },
-      {
-        name: "StockTwits",
-        sentiment: Math.max(0, Math.min(1, baseSentiment + (Math.random() - 0.5) * 0.08)),
-        volume: Math.floor(Math.random() * 80 + 40),
-      },
-    ],
-  }
-}
-
 async function generatePrecisionMLPrediction(data: any) {
-  const { ticker, shares, timeframe, stockData, newsData, socialData, technicalData } = data
+  const { ticker, shares, timeframe, stockData, newsData, socialData, technicalData, profile } = data
 
   const currentPrice = stockData.currentPrice
   const fundamentals = stockData.fundamentals
 
   // Calculate precise analysis factors
   const factors = {
-    technicalScore: calculatePreciseTechnicalScore(technicalData),
+    technicalScore: calculatePreciseTechnicalScore({ ...technicalData, price: currentPrice }),
     fundamentalScore: calculatePreciseFundamentalScore(fundamentals),
     sentimentScore: socialData.overall,
     newsScore: calculatePreciseNewsScore(newsData),
@@ -317,6 +311,7 @@ async function generatePrecisionMLPrediction(data: any) {
     factors,
     currentPrice,
     fundamentals,
+    profile,
   )
 
   const direction = recommendation.targetPrice > currentPrice ? "up" : "down"
@@ -338,169 +333,68 @@ async function generatePrecisionMLPrediction(data: any) {
   }
 }
 
-function calculatePreciseTechnicalScore(technicalData: any): number {
-  let score = 0.5 // Start neutral
-
-  const rsi = technicalData.rsi || 50
-  const macd = technicalData.macd?.value || 0
-  const bollinger = technicalData.bollinger
-
-  // RSI analysis with precise scoring
-  if (rsi > 80)
-    score -= 0.3 // Severely overbought
-  else if (rsi > 70)
-    score -= 0.15 // Overbought
-  else if (rsi > 60)
-    score += 0.1 // Bullish
-  else if (rsi > 40)
-    score += 0.05 // Neutral bullish
-  else if (rsi > 30)
-    score -= 0.05 // Neutral bearish
-  else if (rsi > 20)
-    score -= 0.15 // Oversold
-  else score += 0.2 // Severely oversold (potential reversal)
-
-  // MACD analysis
-  if (macd > 2) score += 0.2
-  else if (macd > 0) score += 0.1
-  else if (macd > -2) score -= 0.1
-  else score -= 0.2
-
-  // Bollinger Bands analysis
-  if (bollinger) {
-    const currentPrice = (bollinger.upper + bollinger.lower) / 2
-    const position = (currentPrice - bollinger.lower) / (bollinger.upper - bollinger.lower)
-
-    if (position > 0.8)
-      score -= 0.1 // Near upper band
-    else if (position < 0.2) score += 0.1 // Near lower band
-  }
-
-  return Math.max(0, Math.min(1, score))
-}
-
-function calculatePreciseFundamentalScore(fundamentals: any): number {
-  let score = 0.5
-
-  const pe = fundamentals?.pe || 15
-  const eps = fundamentals?.eps || 0
-  const beta = fundamentals?.beta || 1
-  const marketCap = fundamentals?.marketCap || 0
-
-  // P/E ratio analysis
-  if (pe < 10)
-    score += 0.2 // Undervalued
-  else if (pe < 15)
-    score += 0.1 // Fair value
-  else if (pe < 25)
-    score -= 0.05 // Slightly overvalued
-  else if (pe < 35)
-    score -= 0.15 // Overvalued
-  else score -= 0.25 // Severely overvalued
-
-  // EPS growth (simulated)
-  if (eps > 5) score += 0.1
-  else if (eps < 0) score -= 0.2
-
-  // Beta analysis
-  if (beta < 0.8)
-    score += 0.05 // Low volatility
-  else if (beta > 1.5) score -= 0.1 // High volatility
-
-  // Market cap stability
-  if (marketCap > 100e9) score += 0.05 // Large cap stability
-
-  return Math.max(0, Math.min(1, score))
-}
-
-function calculatePreciseNewsScore(newsData: any): number {
-  // Simulate realistic news sentiment
-  const recentNews = newsData.recent || []
-  if (recentNews.length === 0) return 0.5
-
-  // Simulate news analysis based on volume and recency
-  const baseScore = 0.4 + Math.random() * 0.4 // 0.4 to 0.8
-  const volumeAdjustment = Math.min(0.1, recentNews.length * 0.02)
-
-  return Math.max(0, Math.min(1, baseScore + volumeAdjustment))
-}
-
-function calculateVolatilityScore(technicalData: any): number {
-  const bollinger = technicalData.bollinger
-  if (!bollinger) return 0.5
-
-  const width = bollinger.width || 10
-  // Higher width = higher volatility
-  return Math.max(0, Math.min(1, width / 20))
-}
-
-function calculateMomentumScore(technicalData: any): number {
-  const macd = technicalData.macd?.value || 0
-  const rsi = technicalData.rsi || 50
-
-  // Combine MACD and RSI for momentum
-  const macdMomentum = Math.max(-1, Math.min(1, macd / 5))
-  const rsiMomentum = (rsi - 50) / 50
-
-  return Math.max(0, Math.min(1, (macdMomentum + rsiMomentum) / 2 + 0.5))
-}
+async function calculateRiskMetrics(
+  stockClient: MultiSourceStockClient,
+  ticker: string,
+  historicalData: HistoricalCandle[],
+  stockProfile: StockProfile,
+) {
+  // Reach back to the earliest stress episode so it can be replayed from real prices. The long history is
+  // cached for a day on its own, so only the first analysis of a symbol each day fetches it
+  const since = new Date(new Date(STRESS_EPISODES[0].start).getTime() - 30 * 86400000).toISOString().slice(0, 10)
+  const sectorEtf = sectorEtfFor(stockProfile.sector, stockProfile.industry)
+  const [fullHistory, spyHistory, sectorHistory] = await Promise.all([
+    stockClient.getHistorySince(ticker, since).catch(() => historicalData),
+    stockClient.getHistorySince("SPY", since).catch(() => [] as HistoricalCandle[]),
+    sectorEtf
+      ? stockClient.getHistorySince(sectorEtf, since).catch(() => [] as HistoricalCandle[])
+      : Promise.resolve([] as HistoricalCandle[]),
+  ])
+
+  const report = buildRiskReport(fullHistory.length > historicalData.length ? fullHistory : historicalData, {
+    spy: spyHistory,
+    sector: sectorEtf ? { symbol: sectorEtf, candles: sectorHistory } : null,
+  })
 
-function calculateVolumeScore(fundamentals: any): number {
-  const avgVolume = fundamentals?.avgVolume || 1000000
+  // Calculate precise risk score based on the ticker's volatility bucket
+  const profile = RISK_BASELINES[stockProfile.volatilityProfile]
+  const riskScore = Math.min(10, Math.max(1, profile.base + report.volatility * 10 * profile.volatilityMultiplier))
 
-  // Normalize volume (higher volume = higher score)
-  if (avgVolume > 10000000) return 0.8
-  if (avgVolume > 5000000) return 0.7
-  if (avgVolume > 1000000) return 0.6
-  if (avgVolume > 500000) return 0.5
-  return 0.4
+  return { ...report, riskScore }
 }
 
-async function calculateRiskMetrics(ticker: string, historicalData: any[]) {
-  const prices = historicalData.map((d) => d.close)
-  const returns = prices.slice(1).map((price, i) => (price - prices[i]) / prices[i])
-
-  const volatility = Math.sqrt(returns.reduce((sum, ret) => sum + ret * ret, 0) / returns.length) * Math.sqrt(252)
-  const var95 = volatility * 1.645
-  const sharpeRatio = (returns.reduce((sum, ret) => sum + ret, 0) / returns.length / volatility) * Math.sqrt(252)
+/** The ticker's position in the selected portfolio; analysis proceeds without it if it cannot be loaded */
+async function loadHolding(portfolioId: unknown, ticker: string): Promise<Position | null> {
+  const id = Number(portfolioId)
+  if (!Number.isInteger(id) || id <= 0) return null
 
-  // Calculate precise risk score based on ticker profile
-  const tickerRiskProfiles = {
-    TSLA: { base: 7.5, volatilityMultiplier: 1.5 },
-    MSFT: { base: 3.5, volatilityMultiplier: 0.8 },
-    NVDA: { base: 6.0, volatilityMultiplier: 1.2 },
-    AAPL: { base: 4.0, volatilityMultiplier: 0.9 },
+  try {
+    const portfolio = await getPortfolio(await getOwnerId(), id)
+    return portfolio?.holdings.positions.find((position) => position.ticker === ticker.toUpperCase()) ?? null
+  } catch (error) {
+    console.warn("Non-critical: Failed to load portfolio holding:", error)
+    return null
   }
+}
 
-  const profile = tickerRiskProfiles[ticker as keyof typeof tickerRiskProfiles] || { base: 5, volatilityMultiplier: 1 }
-  const riskScore = Math.min(10, Math.max(1, profile.base + volatility * 10 * profile.volatilityMultiplier))
-
+function describeHolding(holding: Position, currentPrice: number) {
+  const marketValue = holding.shares * currentPrice
   return {
-    volatility,
-    var: var95,
-    sharpeRatio,
-    maxDrawdown: volatility * 1.5,
-    riskScore,
-    correlations: {
-      spy: Math.random() * 0.8 + 0.1,
-      sector: Math.random() * 0.9 + 0.1,
-      competitors: Math.random() * 0.7 + 0.2,
-    },
-    stressTest: [
-      { scenario: "Market Crash (-20%)", impact: -15 - Math.random() * 10 },
-      { scenario: "Interest Rate Hike", impact: -5 - Math.random() * 8 },
-      { scenario: "Sector Rotation", impact: -3 - Math.random() * 6 },
-      { scenario: "Economic Recession", impact: -12 - Math.random() * 15 },
-    ],
-    historicalVolatility: Array.from({ length: 30 }, (_, i) => ({
-      date: new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().split("T")[0],
-      volatility: volatility + (Math.random() - 0.5) * 0.1,
-    })).reverse(),
+    shares: holding.shares,
+    averageCost: holding.averageCost,
+    costBasis: holding.costBasis,
+    marketValue,
+    unrealizedGain: marketValue - holding.costBasis,
+    unrealizedGainPercent: holding.costBasis > 0 ? ((marketValue - holding.costBasis) / holding.costBasis) * 100 : 0,
+    lots: holding.lots.length,
   }
 }
 
 async function storePredictionAndAIAnalysis(ticker: string, prediction: any, aiAnalysis: any = null) {
   try {
+    const targetTime = Date.now() + getTimeframeDays(prediction.timeframe) * 24 * 60 * 60 * 1000
+    const targetDate = new Date(targetTime).toISOString().split("T")[0]
+
     // Store prediction in predictions table
     await sql`
       INSERT INTO predictions (
@@ -510,8 +404,8 @@ async function storePredictionAndAIAnalysis(ticker: string, prediction: any, aiA
       ) VALUES (
         ${ticker}, 
         ${new Date().toISOString().split("T")[0]}, 
-        ${new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split("T")[0]}, 
-        '1m',
+        ${targetDate}, 
+        ${prediction.timeframe || "1m"},
         ${prediction.currentPrice || 0}, 
         ${prediction.targetPrice}, 
         ${prediction.confidence / 100}, 
@@ -525,6 +419,10 @@ async function storePredictionAndAIAnalysis(ticker: string, prediction: any, aiA
     // CRITICAL: Always store AI analysis with the SAME recommendation as the prediction
     // This ensures consistency between Executive Summary and AI Insights
     console.log("Storing AI analysis with consistent recommendation:", prediction.recommendation)
+
+    // Without an AI analysis the row only carries the prediction: no model was called and no time was spent
+    const modelUsed = aiAnalysis ? `${aiAnalysis.provider}/${aiAnalysis.model}` : "none"
+    const responseTimeMs = aiAnalysis?.responseTimeMs ?? 0
     
     await sql`
       INSERT INTO ai_analysis (
@@ -536,8 +434,8 @@ async function storePredictionAndAIAnalysis(ticker: string, prediction: any, aiA
         ${prediction.recommendation}, 
         ${prediction.confidence}, 
         ${aiAnalysis?.reasoning || `AI-enhanced analysis supporting ${prediction.recommendation} recommendation with ${prediction.confidence}% confidence`}, 
-        'groq-llama3-70b-8192', 
-        ${Math.floor(Math.random() * 1500 + 500)},
+        ${modelUsed},
+        ${responseTimeMs},
         NOW()
       )
     `
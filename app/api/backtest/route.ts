@@ -0,0 +1,54 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { MultiSourceStockClient } from "@/lib/api/multi-source-client"
+import { BacktestEngine, BacktestError } from "@/lib/analysis/backtest-engine"
+import { errorResponse } from "@/lib/http/route-errors"
+import { getTickerProfile } from "@/lib/services/ticker-profile-service"
+
+const MAX_BACKTEST_DAYS = 3650
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const ticker = typeof body.ticker === "string" ? body.ticker.trim().toUpperCase() : ""
+
+    if (!ticker || !/^[A-Z0-9.\-]{1,10}$/.test(ticker)) {
+      return NextResponse.json({ error: "A valid ticker is required" }, { status: 400 })
+    }
+
+    const days = Math.min(MAX_BACKTEST_DAYS, Math.max(90, Number.parseInt(body.days) || 730))
+    const options = {
+      initialCapital: positiveNumber(body.initialCapital),
+      commissionPerTrade: nonNegativeNumber(body.commissionPerTrade),
+      commissionRate: nonNegativeNumber(body.commissionRate),
+      slippageBps: nonNegativeNumber(body.slippageBps),
+      warmupPeriod: positiveNumber(body.warmupPeriod),
+    }
+
+    console.log(`Running backtest for ${ticker} over ${days} days`)
+    const client = new MultiSourceStockClient()
+    const [candles, profile] = await Promise.all([
+      client.getHistoricalData(ticker, days),
+      getTickerProfile(ticker, client),
+    ])
+
+    // No history at all is a provider failure rather than a history too short for the options
+    if (candles.length === 0) throw new Error(`No price history available for ${ticker}`)
+
+    const result = BacktestEngine.run(ticker, candles, { ...options, profile })
+    return NextResponse.json(result)
+  } catch (error) {
+    return errorResponse(error, "Backtest failed", BacktestError)
+  }
+}
+
+function positiveNumber(value: unknown): number | undefined {
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+}
+
+function nonNegativeNumber(value: unknown): number | undefined {
+  const parsed = Number(value)
+  return value !== undefined && value !== null && value !== "" && Number.isFinite(parsed) && parsed >= 0
+    ? parsed
+    : undefined
+}
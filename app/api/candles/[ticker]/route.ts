@@ -0,0 +1,49 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { MultiSourceStockClient } from "@/lib/api/multi-source-client"
+import type { CandleInterval, IntradayInterval } from "@/lib/api/providers/types"
+
+const INTERVALS: CandleInterval[] = ["1m", "5m", "15m", "1h", "1d"]
+/** Default and maximum look-back per interval, in calendar days */
+const LOOKBACK_DAYS: Record<CandleInterval, { default: number; max: number }> = {
+  "1m": { default: 1, max: 7 },
+  "5m": { default: 5, max: 60 },
+  "15m": { default: 10, max: 60 },
+  "1h": { default: 30, max: 60 },
+  "1d": { default: 365, max: 3650 },
+}
+
+/** GET /api/candles/AAPL?interval=5m&days=5&extended=true */
+export async function GET(request: NextRequest, { params }: { params: { ticker: string } }) {
+  const ticker = params.ticker.toUpperCase()
+  const searchParams = request.nextUrl.searchParams
+  const interval = (searchParams.get("interval") ?? "1d") as CandleInterval
+
+  if (!INTERVALS.includes(interval)) {
+    return NextResponse.json({ error: `interval must be one of ${INTERVALS.join(", ")}` }, { status: 400 })
+  }
+
+  const requestedDays = Number.parseInt(searchParams.get("days") || "")
+  const lookback = LOOKBACK_DAYS[interval]
+  const days =
+    Number.isFinite(requestedDays) && requestedDays > 0 ? Math.min(requestedDays, lookback.max) : lookback.default
+  const extendedHours = searchParams.get("extended") === "true"
+
+  try {
+    const client = new MultiSourceStockClient()
+    const candles =
+      interval === "1d"
+        ? await client.getHistoricalData(ticker, days)
+        : await client.getIntradayData(ticker, interval as IntradayInterval, days, { extendedHours })
+
+    return NextResponse.json({ ticker, interval, days, extendedHours, candles })
+  } catch (error) {
+    console.error("Error fetching candles:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to fetch candles",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 503 },
+    )
+  }
+}
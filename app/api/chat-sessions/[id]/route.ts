@@ -0,0 +1,59 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getOwnerId } from "@/lib/auth/owner"
+import { ChatSessionError, normalizeTicker, normalizeTitle, parseSessionId } from "@/lib/chat/chat-session"
+import { getChatSessionStore } from "@/lib/chat/chat-session-store"
+import { errorResponse } from "@/lib/http/route-errors"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/** A session with every message, for resuming it */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const id = parseSessionId((await params).id)
+    const ownerId = await getOwnerId()
+    const store = getChatSessionStore()
+    const session = await store.getSession(ownerId, id)
+    if (!session) {
+      return NextResponse.json({ error: "Chat session not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ session, messages: await store.listMessages(ownerId, id) })
+  } catch (error) {
+    return errorResponse(error, "Failed to load chat session", ChatSessionError)
+  }
+}
+
+/** Rename a session and/or change its ticker. Body: `{ title?, ticker? }`, ticker null to untie it */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const id = parseSessionId((await params).id)
+    const body = await request.json()
+    const session = await getChatSessionStore().updateSession(await getOwnerId(), id, {
+      ...(body.title !== undefined ? { title: normalizeTitle(body.title) } : {}),
+      ...(body.ticker !== undefined ? { ticker: normalizeTicker(body.ticker) } : {}),
+    })
+    if (!session) {
+      return NextResponse.json({ error: "Chat session not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ session })
+  } catch (error) {
+    return errorResponse(error, "Failed to update chat session", ChatSessionError)
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const id = parseSessionId((await params).id)
+    const deleted = await getChatSessionStore().deleteSession(await getOwnerId(), id)
+    if (!deleted) {
+      return NextResponse.json({ error: "Chat session not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, "Failed to delete chat session", ChatSessionError)
+  }
+}
@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getOwnerId } from "@/lib/auth/owner"
+import { ChatSessionError, normalizeChannel, normalizeTicker } from "@/lib/chat/chat-session"
+import { getChatSessionStore } from "@/lib/chat/chat-session-store"
+import { errorResponse } from "@/lib/http/route-errors"
+
+/**
+ * GET /api/chat-sessions?channel=analyst&ticker=AAPL
+ * The owner's chat sessions, most recently active first. Sessions are started by posting a message without a
+ * sessionId to /api/chat or /api/ai-chat.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const channel = searchParams.get("channel")
+    const sessions = await getChatSessionStore().listSessions(await getOwnerId(), {
+      channel: channel ? normalizeChannel(channel) : undefined,
+      ticker: normalizeTicker(searchParams.get("ticker")) ?? undefined,
+    })
+    return NextResponse.json({ sessions })
+  } catch (error) {
+    return errorResponse(error, "Failed to list chat sessions", ChatSessionError)
+  }
+}
@@ -1,31 +1,71 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { groqClient } from "@/lib/ai/groq-client"
+import { CHAT_STREAM_HEADERS, encodeChatEvent } from "@/lib/ai/chat-stream"
+import { LLMRouter } from "@/lib/ai/llm-router"
+import { MultiSourceStockClient } from "@/lib/api/multi-source-client"
+import { getOwnerId } from "@/lib/auth/owner"
+import { ChatSessionError } from "@/lib/chat/chat-session"
+import { getChatSessionStore } from "@/lib/chat/chat-session-store"
+import { openChatSession, runChatTurn } from "@/lib/chat/chat-turn"
+import { errorResponse } from "@/lib/http/route-errors"
 
+const SYSTEM_PROMPT = `You are a helpful AI assistant for StockPilot, a stock prediction and analysis platform.
+You can help users with:
+- Understanding stock analysis features
+- Explaining technical indicators (RSI, MACD, Bollinger Bands, etc.)
+- Interpreting market data and predictions
+- General investment concepts and terminology
+- How to use the platform features
+
+Provide a helpful, concise, and accurate response. If the question is about stock recommendations,
+remind users that this is for informational purposes only and not financial advice.`
+
+/**
+ * Platform assistant behind the floating chatbot. Streams tool calls, tool results and reply text as SSE.
+ * Body: `{ message, sessionId?, ticker? }`; without a sessionId a new "assistant" session is started.
+ */
 export async function POST(request: NextRequest) {
   try {
-    const { message } = await request.json()
+    const { message, sessionId, ticker } = await request.json()
 
     if (!message || typeof message !== "string") {
       return NextResponse.json({ error: "Message is required" }, { status: 400 })
     }
 
-    // Generate response using Groq
-    const response = await groqClient.generateChatResponse(message)
+    const router = LLMRouter.getInstance()
+    if (!router.isAvailable("chat")) {
+      return NextResponse.json({ error: "AI service not configured" }, { status: 503 })
+    }
 
-    return NextResponse.json({
-      success: true,
-      response,
+    const ownerId = await getOwnerId().catch(() => null)
+    const store = getChatSessionStore()
+    const opened = await openChatSession(store, ownerId, { channel: "assistant", sessionId, ticker, message })
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream({
+      async start(controller) {
+        try {
+          for await (const event of runChatTurn({
+            router,
+            store,
+            ownerId,
+            opened,
+            message,
+            system: SYSTEM_PROMPT,
+            context: { stockClient: new MultiSourceStockClient(), ownerId },
+            maxOutputTokens: 500,
+            temperature: 0.7,
+          })) {
+            controller.enqueue(encoder.encode(encodeChatEvent(event)))
+          }
+        } catch (error: any) {
+          console.error("Chat error:", error)
+          controller.enqueue(encoder.encode(encodeChatEvent({ type: "error", error: "Failed to generate response" })))
+        }
+        controller.close()
+      },
     })
-  } catch (error: any) {
-    console.error("Chat error:", error)
 
-    return NextResponse.json(
-      {
-        error: "Failed to generate response",
-        details: process.env.NODE_ENV === "development" ? error.message : undefined,
-      },
-      { status: 500 },
-    )
+    return new Response(stream, { headers: CHAT_STREAM_HEADERS })
+  } catch (error) {
+    return errorResponse(error, "Failed to generate response", ChatSessionError)
   }
 }
-
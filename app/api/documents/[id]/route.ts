@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isAuthorizedJobRequest } from "@/lib/auth/job-auth"
+import { getDocumentIndex } from "@/lib/documents/document-store"
+import { DocumentError } from "@/lib/documents/documents"
+import { errorResponse } from "@/lib/http/route-errors"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const document = await getDocumentIndex().getDocument((await params).id)
+    if (!document) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ document })
+  } catch (error) {
+    return errorResponse(error, "Failed to load document", DocumentError)
+  }
+}
+
+/** Remove a document and its chunks from the index; admins or cron secret only */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  if (!(await isAuthorizedJobRequest(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const deleted = await getDocumentIndex().deleteDocument((await params).id)
+    if (!deleted) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, "Failed to delete document", DocumentError)
+  }
+}
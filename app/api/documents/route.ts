@@ -0,0 +1,78 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isAuthorizedJobRequest } from "@/lib/auth/job-auth"
+import { defaultPipeline, ingestDocument, ingestFile, resolveDocumentPath } from "@/lib/documents/document-ingest"
+import {
+  DocumentError,
+  normalizeDocumentTicker,
+  normalizeForm,
+  parseDocumentFileName,
+} from "@/lib/documents/documents"
+import { errorResponse } from "@/lib/http/route-errors"
+
+/**
+ * GET /api/documents?ticker=AAPL&form=10-K
+ * Ingested filings and transcripts, most recently filed first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const ticker = searchParams.get("ticker")
+    const form = searchParams.get("form")
+    const documents = await defaultPipeline().index.listDocuments({
+      ticker: ticker ? normalizeDocumentTicker(ticker) : undefined,
+      form: form ? normalizeForm(form) : undefined,
+    })
+    return NextResponse.json({ documents })
+  } catch (error) {
+    return errorResponse(error, "Failed to list documents", DocumentError)
+  }
+}
+
+/**
+ * Ingest a 10-K, 10-Q, 8-K or earnings call transcript; admins or `Authorization: Bearer <CRON_SECRET>` only.
+ * Three ways in:
+ * - multipart form with a `file` (HTML, Markdown or text) plus optional `ticker`, `form`, `title`, `period`,
+ *   `filedAt` fields; ticker and form default to the file name (`AAPL_10-K_FY2024.htm`)
+ * - JSON `{ path, ...metadata }` naming a file under DOCUMENTS_DIR on the server
+ * - JSON `{ text, source?, ticker, form, ...metadata }`
+ * Ingesting a document with the same ticker, form and period again replaces it.
+ */
+export async function POST(request: NextRequest) {
+  if (!(await isAuthorizedJobRequest(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    let document
+    if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+      const formData = await request.formData()
+      const file = formData.get("file")
+      if (!file || typeof file === "string") throw new DocumentError("file is required")
+
+      const field = (name: string) => {
+        const value = formData.get(name)
+        return typeof value === "string" && value.trim() ? value : undefined
+      }
+      const fromName = parseDocumentFileName(file.name)
+      document = await ingestDocument({
+        text: await file.text(),
+        source: file.name,
+        ticker: field("ticker") ?? fromName.ticker,
+        form: field("form") ?? fromName.form,
+        title: field("title"),
+        period: field("period") ?? fromName.period,
+        filedAt: field("filedAt"),
+      })
+    } else {
+      const { path, text, source, ...metadata } = await request.json()
+      document =
+        path !== undefined
+          ? await ingestFile(resolveDocumentPath(path), metadata)
+          : await ingestDocument({ ...metadata, text, source: typeof source === "string" ? source : "upload" })
+    }
+
+    return NextResponse.json({ document }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to ingest document", DocumentError)
+  }
+}
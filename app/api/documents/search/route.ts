@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { retrievePassages, toCitations } from "@/lib/documents/document-retrieval"
+import { DocumentError, normalizeDocumentTicker, normalizeForm } from "@/lib/documents/documents"
+import { errorResponse } from "@/lib/http/route-errors"
+
+/**
+ * GET /api/documents/search?q=supply+chain+risks&ticker=AAPL&form=10-K&limit=5
+ * The passages the chat and analysis prompts would be given for a question, with their citations and scores.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const query = searchParams.get("q")?.trim()
+    if (!query) throw new DocumentError("q is required")
+
+    const ticker = searchParams.get("ticker")
+    const forms = searchParams.getAll("form").map(normalizeForm)
+    const limit = Math.min(Math.max(Number(searchParams.get("limit")) || 5, 1), 20)
+    const passages = await retrievePassages(query, {
+      ticker: ticker ? normalizeDocumentTicker(ticker) : undefined,
+      forms: forms.length > 0 ? forms : undefined,
+      limit,
+    })
+
+    return NextResponse.json({
+      citations: toCitations(passages),
+      passages: passages.map(({ document, chunk, score }) => ({ documentId: document.id, ...chunk, score })),
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to search documents", DocumentError)
+  }
+}
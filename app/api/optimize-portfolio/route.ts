@@ -1,31 +1,158 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { groqClient } from "@/lib/ai/groq-client"
+import { aiClient } from "@/lib/ai/ai-client"
+import { StructuredOutputError } from "@/lib/ai/structured-output"
+import { MultiSourceStockClient } from "@/lib/api/multi-source-client"
+import type { HistoricalCandle } from "@/lib/api/providers/types"
+import {
+  OPTIMIZATION_OBJECTIVES,
+  OptimizationError,
+  describeAllocation,
+  estimateInputs,
+  optimizePortfolio,
+  rebalanceTrades,
+  type Holding,
+  type OptimizationObjective,
+  type WeightBounds,
+} from "@/lib/analysis/portfolio-optimizer"
+import { getOwnerId } from "@/lib/auth/owner"
+import { errorResponse } from "@/lib/http/route-errors"
+import { getPortfolio, valuePortfolio } from "@/lib/portfolio/portfolio-store"
 
+const DEFAULT_LOOKBACK_DAYS = 365
+const MAX_LOOKBACK_DAYS = 1825
+const MAX_ASSETS = 25
+
+/**
+ * Optimize a stored portfolio (`portfolioId`) or an inline `portfolio` list on historical returns.
+ * `candidates` adds tickers that are not held yet. The LLM only explains the computed result.
+ */
 export async function POST(request: NextRequest) {
   try {
-    const { portfolio } = await request.json()
+    const body = await request.json()
+    let holdings: Holding[] = []
+    let cash = Math.max(0, Number(body.cash) || 0)
+    let valuation = null
+
+    // Stored portfolios are valued at current quotes; an inline list is still accepted as-is
+    if (body.portfolioId) {
+      const stored = await getPortfolio(await getOwnerId(), Number(body.portfolioId))
+      if (!stored) {
+        return NextResponse.json({ error: "Portfolio not found" }, { status: 404 })
+      }
+
+      valuation = await valuePortfolio(stored)
+      holdings = valuation.positions.map((position) => ({
+        ticker: position.ticker,
+        shares: position.shares,
+        price: position.price,
+      }))
+      cash = Math.max(0, valuation.cash)
+    } else if (Array.isArray(body.portfolio)) {
+      holdings = body.portfolio.map((item: any) => ({
+        ticker: String(item.ticker).toUpperCase(),
+        shares: Number(item.shares) || 0,
+        price: Number(item.currentPrice ?? item.price) || 0,
+      }))
+    }
+
+    const candidates: string[] = Array.isArray(body.candidates)
+      ? body.candidates.map((ticker: unknown) => String(ticker).trim().toUpperCase()).filter(Boolean)
+      : []
+    const tickers = [...new Set([...holdings.map((holding) => holding.ticker), ...candidates])]
 
-    if (!portfolio || portfolio.length === 0) {
+    if (tickers.length === 0) {
       return NextResponse.json({ error: "Portfolio data is required" }, { status: 400 })
     }
+    if (tickers.length > MAX_ASSETS) {
+      return NextResponse.json({ error: `At most ${MAX_ASSETS} tickers can be optimized at once` }, { status: 400 })
+    }
 
-    // Generate portfolio optimization using Groq
-    const optimization = await groqClient.generatePortfolioOptimization(portfolio)
+    const objective: OptimizationObjective = body.objective ?? "max-sharpe"
+    if (!OPTIMIZATION_OBJECTIVES.includes(objective)) {
+      return NextResponse.json(
+        { error: `objective must be one of ${OPTIMIZATION_OBJECTIVES.join(", ")}` },
+        { status: 400 },
+      )
+    }
+
+    const lookbackDays = Math.min(MAX_LOOKBACK_DAYS, Math.max(90, Number(body.lookbackDays) || DEFAULT_LOOKBACK_DAYS))
+    const client = new MultiSourceStockClient()
+    const histories = await Promise.all(
+      tickers.map((ticker) => client.getHistoricalData(ticker, lookbackDays).catch(() => [] as HistoricalCandle[])),
+    )
+    const candlesByTicker = Object.fromEntries(tickers.map((ticker, i) => [ticker, histories[i]]))
+
+    const inputs = estimateInputs(candlesByTicker)
+    const riskFreeRate = Number.isFinite(Number(body.riskFreeRate)) ? Number(body.riskFreeRate) : 0.02
+    const result = optimizePortfolio(inputs, {
+      objective,
+      defaultBounds: defaultBounds(body),
+      bounds: body.bounds,
+      targetVolatility: body.targetVolatility === undefined ? undefined : Number(body.targetVolatility),
+      riskFreeRate,
+    })
+
+    // Held positions weighted by value; candidates start at zero
+    const investedValue = holdings.reduce((sum, holding) => sum + holding.shares * holding.price, 0)
+    const current =
+      investedValue > 0
+        ? describeAllocation(
+            tickers.map((ticker) => {
+              const holding = holdings.find((h) => h.ticker === ticker)
+              return holding ? (holding.shares * holding.price) / investedValue : 0
+            }),
+            inputs,
+            riskFreeRate,
+          )
+        : null
+
+    const lastCloses = Object.fromEntries(
+      tickers.map((ticker, i) => [ticker, histories[i][histories[i].length - 1]?.close ?? 0]),
+    )
+    const trades = rebalanceTrades(holdings, cash, result.target.weights, {
+      ...lastCloses,
+      ...Object.fromEntries(holdings.map((holding) => [holding.ticker, holding.price])),
+    })
+
+    const optimization = { ...result, current, trades }
+
+    let explanation = null
+    let explanationError: Record<string, unknown> | null = null
+    if (body.explain !== false) {
+      explanation = await aiClient
+        .explainPortfolioOptimization({
+          objective,
+          current,
+          target: result.target,
+          trades,
+          targetMet: result.targetMet,
+          observations: inputs.observations,
+        })
+        .catch((error) => {
+          console.warn("Non-critical: Failed to explain portfolio optimization:", error.message)
+          explanationError =
+            error instanceof StructuredOutputError ? error.toJSON() : { error: "Explanation unavailable" }
+          return null
+        })
+    }
 
     return NextResponse.json({
       success: true,
       optimization,
+      explanation,
+      explanationError,
+      valuation,
     })
-  } catch (error: any) {
-    console.error("Portfolio optimization error:", error)
-
-    return NextResponse.json(
-      {
-        error: "Failed to optimize portfolio",
-        details: process.env.NODE_ENV === "development" ? error.message : undefined,
-      },
-      { status: 500 },
-    )
+  } catch (error) {
+    return errorResponse(error, "Failed to optimize portfolio", OptimizationError)
   }
 }
 
+function defaultBounds(body: any): WeightBounds {
+  const min = Number(body.minWeight)
+  const max = Number(body.maxWeight)
+  return {
+    min: Number.isFinite(min) && body.minWeight !== undefined ? min : 0,
+    max: Number.isFinite(max) && body.maxWeight !== undefined ? max : 1,
+  }
+}
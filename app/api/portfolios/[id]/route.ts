@@ -0,0 +1,56 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getOwnerId } from "@/lib/auth/owner"
+import { errorResponse, parseRouteId } from "@/lib/http/route-errors"
+import { PortfolioError } from "@/lib/portfolio/ledger"
+import { deletePortfolio, getPortfolio, updatePortfolio, valuePortfolio } from "@/lib/portfolio/portfolio-store"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/** Portfolio with its ledger, replayed holdings and a valuation at current quotes */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const id = parseRouteId((await params).id, "portfolio", PortfolioError)
+    const portfolio = await getPortfolio(await getOwnerId(), id)
+    if (!portfolio) {
+      return NextResponse.json({ error: "Portfolio not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ portfolio, valuation: await valuePortfolio(portfolio) })
+  } catch (error) {
+    return errorResponse(error, "Failed to fetch portfolio", PortfolioError)
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const id = parseRouteId((await params).id, "portfolio", PortfolioError)
+    const body = await request.json()
+    const portfolio = await updatePortfolio(await getOwnerId(), id, {
+      name: body.name,
+      lotMethod: body.lotMethod,
+    })
+    if (!portfolio) {
+      return NextResponse.json({ error: "Portfolio not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ portfolio })
+  } catch (error) {
+    return errorResponse(error, "Failed to update portfolio", PortfolioError)
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const id = parseRouteId((await params).id, "portfolio", PortfolioError)
+    const deleted = await deletePortfolio(await getOwnerId(), id)
+    if (!deleted) {
+      return NextResponse.json({ error: "Portfolio not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, "Failed to delete portfolio", PortfolioError)
+  }
+}
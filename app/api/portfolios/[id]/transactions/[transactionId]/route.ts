@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getOwnerId } from "@/lib/auth/owner"
+import { errorResponse, parseRouteId } from "@/lib/http/route-errors"
+import { PortfolioError } from "@/lib/portfolio/ledger"
+import { deleteTransaction } from "@/lib/portfolio/portfolio-store"
+
+interface RouteContext {
+  params: Promise<{ id: string; transactionId: string }>
+}
+
+/** Remove a mistaken entry; refused with 409 when a later sell depends on it */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id, transactionId } = await params
+    const portfolio = await deleteTransaction(
+      await getOwnerId(),
+      parseRouteId(id, "portfolio", PortfolioError),
+      parseRouteId(transactionId, "transaction", PortfolioError),
+    )
+
+    return NextResponse.json({ portfolio })
+  } catch (error) {
+    return errorResponse(error, "Failed to delete transaction", PortfolioError)
+  }
+}
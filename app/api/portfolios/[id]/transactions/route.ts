@@ -0,0 +1,45 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getOwnerId } from "@/lib/auth/owner"
+import { errorResponse, parseRouteId } from "@/lib/http/route-errors"
+import { PortfolioError } from "@/lib/portfolio/ledger"
+import { addTransaction, getPortfolio } from "@/lib/portfolio/portfolio-store"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const id = parseRouteId((await params).id, "portfolio", PortfolioError)
+    const portfolio = await getPortfolio(await getOwnerId(), id)
+    if (!portfolio) {
+      return NextResponse.json({ error: "Portfolio not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ transactions: portfolio.transactions, realized: portfolio.holdings.realized })
+  } catch (error) {
+    return errorResponse(error, "Failed to fetch transactions", PortfolioError)
+  }
+}
+
+/** Record a buy, sell, deposit, withdrawal or dividend; sells that exceed the shares held return 409 */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const id = parseRouteId((await params).id, "portfolio", PortfolioError)
+    const body = await request.json()
+    const portfolio = await addTransaction(await getOwnerId(), id, {
+      type: body.type,
+      ticker: body.ticker,
+      shares: body.shares,
+      price: body.price,
+      amount: body.amount,
+      fee: body.fee,
+      executedAt: body.executedAt,
+      note: body.note,
+    })
+
+    return NextResponse.json({ portfolio }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to record transaction", PortfolioError)
+  }
+}
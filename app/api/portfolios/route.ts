@@ -0,0 +1,37 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getOwnerId } from "@/lib/auth/owner"
+import { errorResponse } from "@/lib/http/route-errors"
+import { PortfolioError } from "@/lib/portfolio/ledger"
+import { createPortfolio, listPortfolios } from "@/lib/portfolio/portfolio-store"
+
+export async function GET() {
+  try {
+    const ownerId = await getOwnerId()
+    const portfolios = await listPortfolios(ownerId)
+
+    return NextResponse.json({
+      portfolios: portfolios.map(({ transactions, ...portfolio }) => ({
+        ...portfolio,
+        transactionCount: transactions.length,
+      })),
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to list portfolios", PortfolioError)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const ownerId = await getOwnerId()
+    const portfolio = await createPortfolio(ownerId, {
+      name: body.name,
+      lotMethod: body.lotMethod,
+      initialCash: body.initialCash,
+    })
+
+    return NextResponse.json({ portfolio }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to create portfolio", PortfolioError)
+  }
+}
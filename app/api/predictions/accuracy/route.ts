@@ -0,0 +1,23 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getAccuracyReport } from "@/lib/services/prediction-outcomes"
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl
+    const report = await getAccuracyReport({
+      ticker: searchParams.get("ticker")?.toUpperCase() || undefined,
+      modelVersion: searchParams.get("model_version") || undefined,
+    })
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error("Error fetching prediction accuracy:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to fetch prediction accuracy",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isAuthorizedJobRequest } from "@/lib/auth/job-auth"
+import { PushNotifier } from "@/lib/push/push-notifier"
+import { resolveMaturedPredictions } from "@/lib/services/prediction-outcomes"
+
+// Vercel Cron issues GET requests; the dashboard uses POST
+export async function GET(request: NextRequest) {
+  return runResolution(request)
+}
+
+export async function POST(request: NextRequest) {
+  return runResolution(request)
+}
+
+async function runResolution(request: NextRequest) {
+  if (!(await isAuthorizedJobRequest(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const limit = Number(request.nextUrl.searchParams.get("limit")) || undefined
+    const summary = await resolveMaturedPredictions({ limit })
+
+    if (summary.resolved > 0) {
+      const hitRate = Math.round((summary.directionCorrect / summary.resolved) * 100)
+      await PushNotifier.getInstance()
+        .broadcast("scheduled-analyses", {
+          title: "Prediction results are in",
+          body: `${summary.resolved} matured predictions graded, ${hitRate}% called the direction right`,
+          url: "/",
+          tag: "prediction-resolution",
+        })
+        .catch((error) => console.warn("Non-critical: Failed to send resolution notifications:", error.message))
+    }
+    return NextResponse.json({ success: true, ...summary, timestamp: new Date().toISOString() })
+  } catch (error) {
+    console.error("Prediction resolution failed:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to resolve predictions",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isAuthorizedJobRequest } from "@/lib/auth/job-auth"
+import { refreshStaleProfiles } from "@/lib/services/ticker-profile-service"
+
+// Vercel Cron issues GET requests; admins can POST to run it on demand
+export async function GET(request: NextRequest) {
+  return runRefresh(request)
+}
+
+export async function POST(request: NextRequest) {
+  return runRefresh(request)
+}
+
+async function runRefresh(request: NextRequest) {
+  if (!(await isAuthorizedJobRequest(request))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const limit = Number(request.nextUrl.searchParams.get("limit")) || undefined
+    const summary = await refreshStaleProfiles({ limit })
+    return NextResponse.json({ success: true, ...summary, timestamp: new Date().toISOString() })
+  } catch (error) {
+    console.error("Ticker profile refresh failed:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to refresh ticker profiles",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getOwnerId } from "@/lib/auth/owner"
+import { errorResponse } from "@/lib/http/route-errors"
+import { PushNotifier } from "@/lib/push/push-notifier"
+import {
+  deleteSubscription,
+  findSubscription,
+  normalizeSubscription,
+  normalizeTopics,
+  saveSubscription,
+} from "@/lib/push/push-store"
+import { getVapidConfig } from "@/lib/push/web-push"
+
+/**
+ * Web Push subscription for this browser. GET returns the VAPID public key the client subscribes with
+ * and, given `?endpoint=`, whether that subscription is stored and which topics it receives.
+ */
+export async function GET(request: NextRequest) {
+  const vapid = getVapidConfig()
+  if (!vapid || !PushNotifier.getInstance().isEnabled) {
+    return NextResponse.json({ enabled: false, publicKey: null, subscription: null })
+  }
+
+  try {
+    const endpoint = request.nextUrl.searchParams.get("endpoint")
+    const subscription = endpoint ? await findSubscription(await getOwnerId(), endpoint) : null
+    return NextResponse.json({
+      enabled: true,
+      publicKey: vapid.publicKey,
+      subscription: subscription && { endpoint: subscription.endpoint, topics: subscription.topics },
+    })
+  } catch (error) {
+    return errorResponse(error, "Failed to load push subscription")
+  }
+}
+
+/** Store a subscription from PushManager.subscribe(). Body: `{ subscription, topics? }` */
+export async function POST(request: NextRequest) {
+  if (!PushNotifier.getInstance().isEnabled) {
+    return NextResponse.json({ error: "Push notifications are not configured" }, { status: 503 })
+  }
+
+  try {
+    const body = await request.json()
+    const subscription = normalizeSubscription(body.subscription)
+    if (!subscription) {
+      return NextResponse.json({ error: "A valid push subscription is required" }, { status: 400 })
+    }
+
+    const topics = normalizeTopics(body.topics)
+    const saved = await saveSubscription(await getOwnerId(), subscription, topics)
+    return NextResponse.json({ subscription: { endpoint: saved.endpoint, topics: saved.topics } }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to save push subscription")
+  }
+}
+
+/** Forget a subscription. Body: `{ endpoint }` */
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json()
+    if (typeof body.endpoint !== "string") {
+      return NextResponse.json({ error: "endpoint is required" }, { status: 400 })
+    }
+
+    const deleted = await deleteSubscription(await getOwnerId(), body.endpoint)
+    if (!deleted) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, "Failed to delete push subscription")
+  }
+}
@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { MultiSourceStockClient } from "@/lib/api/multi-source-client"
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const symbol = searchParams.get("symbol")?.toUpperCase()
+
+  if (!symbol) {
+    return NextResponse.json({ error: "Symbol parameter is required. Use ?symbol=AAPL" }, { status: 400 })
+  }
+
+  const tolerance = Number.parseFloat(searchParams.get("tolerance") || "")
+  const quorum = Number.parseInt(searchParams.get("quorum") || "")
+
+  try {
+    const client = new MultiSourceStockClient()
+    const quote = await client.getReconciledQuote(symbol, {
+      tolerancePercent: Number.isFinite(tolerance) && tolerance > 0 ? tolerance : undefined,
+      quorum: Number.isFinite(quorum) && quorum > 0 ? quorum : undefined,
+    })
+
+    return NextResponse.json(quote)
+  } catch (error) {
+    console.error("Error reconciling quote:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to reconcile quote",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 503 },
+    )
+  }
+}
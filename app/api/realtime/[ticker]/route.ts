@@ -1,5 +1,6 @@
-import { type NextRequest, NextResponse } from "next/server"
+import { after, type NextRequest, NextResponse } from "next/server"
 import { MultiSourceStockClient } from "@/lib/api/multi-source-client"
+import { AlertEngine } from "@/lib/alerts/alert-engine"
 
 export async function GET(request: NextRequest, { params }: { params: { ticker: string } }) {
   try {
@@ -7,6 +8,12 @@ export async function GET(request: NextRequest, { params }: { params: { ticker:
     const stockClient = new MultiSourceStockClient()
 
     const quote = await stockClient.getQuote(ticker)
+    const timestamp = new Date().toISOString()
+
+    // Check alert rules against the quote RealTimeManager is polling, after the response is sent
+    after(() =>
+      AlertEngine.getInstance().evaluateQuote({ ticker, price: quote.currentPrice, volume: quote.volume, timestamp }),
+    )
 
     return NextResponse.json({
       ticker,
@@ -14,7 +21,7 @@ export async function GET(request: NextRequest, { params }: { params: { ticker:
       change: quote.change,
       changePercent: quote.changePercent,
       volume: quote.volume,
-      timestamp: new Date().toISOString(),
+      timestamp,
     })
   } catch (error) {
     console.error("Error fetching real-time price:", error)
@@ -0,0 +1,101 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { QuoteHub, type QuoteStreamEvent } from "@/lib/real-time/quote-hub"
+import { MarketStreamIngestion } from "@/lib/market-stream/market-stream-ingestion"
+
+// One long-lived response per browser; the hub's pollers and buffers are per server process
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+const MAX_SYMBOLS = 50
+const HEARTBEAT_MS = 15 * 1000
+/** Reconnect delay suggested to EventSource after a dropped connection */
+const RETRY_MS = 3000
+
+/**
+ * Server-sent quote stream for `?symbols=AAPL,MSFT`.
+ *
+ * Events are `quote` (a QuoteStreamEvent whose `id` is also the SSE id) and `heartbeat`. EventSource sends the
+ * last id back as the Last-Event-ID header when it reconnects; a client opening a new stream can pass it as
+ * `?lastEventId=` instead. Either way the missed quotes are replayed first.
+ */
+export async function GET(request: NextRequest) {
+  const symbols = [
+    ...new Set(
+      (request.nextUrl.searchParams.get("symbols") ?? "")
+        .split(",")
+        .map((symbol) => symbol.trim().toUpperCase())
+        .filter(Boolean),
+    ),
+  ]
+
+  if (symbols.length === 0) {
+    return NextResponse.json({ error: "symbols is required" }, { status: 400 })
+  }
+  if (symbols.length > MAX_SYMBOLS) {
+    return NextResponse.json({ error: `At most ${MAX_SYMBOLS} symbols per stream` }, { status: 400 })
+  }
+  const invalid = symbols.find((symbol) => !/^[A-Z0-9.^-]{1,16}$/.test(symbol))
+  if (invalid) {
+    return NextResponse.json({ error: `Invalid symbol: ${invalid}` }, { status: 400 })
+  }
+
+  const resumeFrom = Number.parseInt(
+    request.headers.get("last-event-id") ?? request.nextUrl.searchParams.get("lastEventId") ?? "",
+  )
+  const lastEventId = Number.isInteger(resumeFrom) ? resumeFrom : undefined
+
+  // Websocket trade streams feed the hub alongside polling when a Finnhub or Polygon key is configured
+  MarketStreamIngestion.getInstance().start()
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup()
+        }
+      }
+
+      send(`retry: ${RETRY_MS}\n\n`)
+      const unsubscribe = QuoteHub.getInstance().subscribe(
+        symbols,
+        (event: QuoteStreamEvent) => send(`id: ${event.id}\nevent: quote\ndata: ${JSON.stringify(event)}\n\n`),
+        lastEventId,
+      )
+      const heartbeat = setInterval(
+        () => send(`event: heartbeat\ndata: ${JSON.stringify({ time: new Date().toISOString() })}\n\n`),
+        HEARTBEAT_MS,
+      )
+
+      cleanup = () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+        cleanup = () => {}
+      }
+      request.signal.addEventListener("abort", () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the runtime
+        }
+      })
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
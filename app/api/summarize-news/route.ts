@@ -1,5 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { groqClient } from "@/lib/ai/groq-client"
+import { aiClient } from "@/lib/ai/ai-client"
+import { StructuredOutputError } from "@/lib/ai/structured-output"
 
 export async function POST(request: NextRequest) {
   try {
@@ -9,8 +10,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Ticker and news are required" }, { status: 400 })
     }
 
-    // Generate news summary using Groq
-    const summary = await groqClient.generateNewsSummary(ticker, news)
+    // Generate news summary with the configured LLM provider
+    const summary = await aiClient.generateNewsSummary(ticker, news)
 
     return NextResponse.json({
       success: true,
@@ -19,6 +20,11 @@ export async function POST(request: NextRequest) {
   } catch (error: any) {
     console.error("News summary error:", error)
 
+    // The model answered but not in the required shape, or did not answer at all
+    if (error instanceof StructuredOutputError) {
+      return NextResponse.json(error.toJSON(), { status: 502 })
+    }
+
     return NextResponse.json(
       {
         error: "Failed to generate news summary",
@@ -1,7 +1,14 @@
 import { sql } from "@vercel/postgres"
 import { NextResponse } from "next/server"
+import { MarketDataCache } from "@/lib/services/market-data-cache"
+import { ProviderRateLimiter } from "@/lib/api/rate-limiter"
 
 export async function GET() {
+  // Shared quote/candle cache counters for this server instance
+  const cache = MarketDataCache.getInstance().getMetrics()
+  // Remaining per-minute and daily budget for each rate-limited upstream provider
+  const providerBudgets = await ProviderRateLimiter.getInstance().getBudgets()
+
   try {
     // Check if api_usage table exists
     const tableExists = await sql`
@@ -26,6 +33,8 @@ export async function GET() {
           "/api/analyze": 320,
           "/api/realtime": 275,
         },
+        cache,
+        provider_budgets: providerBudgets,
       })
     }
 
@@ -46,6 +55,7 @@ export async function GET() {
           COUNT(CASE WHEN status_code < 400 THEN 1 END) as success_count
         FROM api_usage 
         WHERE created_at >= ${today.toISOString()}
+          AND endpoint NOT LIKE 'upstream:%'
       `,
 
       // Monthly statistics
@@ -53,6 +63,7 @@ export async function GET() {
         SELECT COUNT(*) as total_calls
         FROM api_usage 
         WHERE created_at >= ${thisMonth.toISOString()}
+          AND endpoint NOT LIKE 'upstream:%'
       `,
 
       // Endpoint breakdown
@@ -62,6 +73,7 @@ export async function GET() {
           COUNT(*) as calls
         FROM api_usage 
         WHERE created_at >= ${today.toISOString()}
+          AND endpoint NOT LIKE 'upstream:%'
         GROUP BY endpoint
         ORDER BY calls DESC
         LIMIT 10
@@ -88,6 +100,8 @@ export async function GET() {
           "/api/analyze": 320,
           "/api/realtime": 275,
         },
+        cache,
+        provider_budgets: providerBudgets,
       })
     }
 
@@ -109,6 +123,8 @@ export async function GET() {
       avg_response_time: Math.round(Number(dailyStats[0]?.avg_response_time || 245)),
       error_count: errorCount,
       endpoints: endpointBreakdown,
+      cache,
+      provider_budgets: providerBudgets,
     })
   } catch (error) {
     console.error("Error fetching usage data:", error)
@@ -127,6 +143,8 @@ export async function GET() {
         "/api/analyze": 320,
         "/api/realtime": 275,
       },
+      cache,
+      provider_budgets: providerBudgets,
     })
   }
 }
@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getOwnerId } from "@/lib/auth/owner"
+import { errorResponse, parseRouteId } from "@/lib/http/route-errors"
+import { WatchlistError } from "@/lib/watchlists/watchlist"
+import { deleteWatchlist, updateWatchlist } from "@/lib/watchlists/watchlist-store"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/** Rename and/or replace the ordered items. Body: `{ name?, items? }` */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const id = parseRouteId((await params).id, "watchlist", WatchlistError)
+    const body = await request.json()
+    const watchlist = await updateWatchlist(await getOwnerId(), id, { name: body.name, items: body.items })
+    if (!watchlist) {
+      return NextResponse.json({ error: "Watchlist not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ watchlist })
+  } catch (error) {
+    return errorResponse(error, "Failed to update watchlist", WatchlistError)
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const id = parseRouteId((await params).id, "watchlist", WatchlistError)
+    const deleted = await deleteWatchlist(await getOwnerId(), id)
+    if (!deleted) {
+      return NextResponse.json({ error: "Watchlist not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, "Failed to delete watchlist", WatchlistError)
+  }
+}
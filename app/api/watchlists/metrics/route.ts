@@ -0,0 +1,36 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { loadWatchlistMetrics } from "@/lib/watchlists/watchlist-metrics"
+import { MAX_WATCHLIST_ITEMS } from "@/lib/watchlists/watchlist"
+
+/** RSI(14) and the last stored recommendation for `?symbols=AAPL,BTC-USD` */
+export async function GET(request: NextRequest) {
+  const symbols = [
+    ...new Set(
+      (request.nextUrl.searchParams.get("symbols") ?? "")
+        .split(",")
+        .map((symbol) => symbol.trim().toUpperCase())
+        .filter(Boolean),
+    ),
+  ]
+
+  if (symbols.length === 0) {
+    return NextResponse.json({ error: "symbols is required" }, { status: 400 })
+  }
+  if (symbols.length > MAX_WATCHLIST_ITEMS) {
+    return NextResponse.json({ error: `At most ${MAX_WATCHLIST_ITEMS} symbols per request` }, { status: 400 })
+  }
+
+  try {
+    const metrics = await loadWatchlistMetrics(symbols)
+    return NextResponse.json({ metrics })
+  } catch (error) {
+    console.error("Failed to load watchlist metrics:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to load watchlist metrics",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
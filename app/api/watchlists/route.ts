@@ -0,0 +1,50 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getOwnerId } from "@/lib/auth/owner"
+import { errorResponse } from "@/lib/http/route-errors"
+import { WatchlistError } from "@/lib/watchlists/watchlist"
+import { createWatchlist, listWatchlists, reorderWatchlists } from "@/lib/watchlists/watchlist-store"
+
+// Without a database the client keeps watchlists in localStorage; 503 tells it to do so
+const STORAGE_UNAVAILABLE = { error: "Watchlist storage is not configured", storage: "local" }
+
+export async function GET() {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(STORAGE_UNAVAILABLE, { status: 503 })
+  }
+
+  try {
+    const watchlists = await listWatchlists(await getOwnerId())
+    return NextResponse.json({ watchlists })
+  } catch (error) {
+    return errorResponse(error, "Failed to list watchlists", WatchlistError)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(STORAGE_UNAVAILABLE, { status: 503 })
+  }
+
+  try {
+    const body = await request.json()
+    const watchlist = await createWatchlist(await getOwnerId(), { name: body.name, items: body.items })
+    return NextResponse.json({ watchlist }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, "Failed to create watchlist", WatchlistError)
+  }
+}
+
+/** Reorder watchlists. Body: `{ order: [id, ...] }` listing every watchlist once */
+export async function PATCH(request: NextRequest) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(STORAGE_UNAVAILABLE, { status: 503 })
+  }
+
+  try {
+    const body = await request.json()
+    const watchlists = await reorderWatchlists(await getOwnerId(), body.order)
+    return NextResponse.json({ watchlists })
+  } catch (error) {
+    return errorResponse(error, "Failed to reorder watchlists", WatchlistError)
+  }
+}
@@ -0,0 +1,17 @@
+import BacktestDashboard from "@/components/backtest-dashboard"
+import { ErrorBoundary } from "@/components/error-boundary"
+import ProtectedNavigation from "@/components/protected-navigation"
+
+export default function BacktestPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <ProtectedNavigation />
+
+      <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <ErrorBoundary>
+          <BacktestDashboard />
+        </ErrorBoundary>
+      </main>
+    </div>
+  )
+}
@@ -32,9 +32,17 @@ import {
   Search,
   RefreshCw,
   Send,
+  Plus,
 } from "lucide-react"
 import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { safeCurrency } from "@/lib/utils/safe-formatters"
+import { readChatStream } from "@/lib/ai/chat-stream"
+import type { ChatSessionMessage } from "@/lib/chat/types"
+import { useChatSessions } from "@/hooks/use-chat-sessions"
+import { ChatToolCalls, applyToolEvent, toolCallViews, type ChatToolCallView } from "@/components/chat-tool-calls"
+import { DocumentCitations } from "@/components/document-citations"
+import type { DocumentCitation } from "@/lib/documents/types"
 
 interface AIAnalysisPanelProps {
   ticker: string
@@ -55,6 +63,21 @@ interface ChatMessage {
   timestamp: Date
   model?: string
   searchResults?: SearchResult[]
+  /** Data lookups behind an assistant reply, in call order */
+  toolCalls?: ChatToolCallView[]
+  /** Filing and transcript passages the reply was given, cited in it as [n] */
+  citations?: DocumentCitation[]
+}
+
+function fromStoredMessage(message: ChatSessionMessage): ChatMessage {
+  return {
+    id: `stored-${message.id}`,
+    role: message.role,
+    content: message.content,
+    timestamp: new Date(message.createdAt),
+    model: message.model ?? undefined,
+    toolCalls: toolCallViews(message.toolCalls),
+  }
 }
 
 const DEFAULT_DISCLAIMER_TEXT =
@@ -118,8 +141,50 @@ export default function AIAnalysisPanel({ ticker, stockData, onAnalysisComplete
   const [chatError, setChatError] = useState<string | null>(null)
   const [isSearchingWeb, setIsSearchingWeb] = useState(false)
   const [isGeneratingResponse, setIsGeneratingResponse] = useState(false)
+  const [sessionId, setSessionId] = useState<number | null>(null)
   const scrollRef = useRef<HTMLDivElement>(null)
   const prevMessagesLengthRef = useRef(messages.length)
+  const resumedTickerRef = useRef<string | null>(null)
+  const {
+    sessions: chatSessions,
+    isLoading: isLoadingSessions,
+    refresh: refreshChatSessions,
+    loadSession,
+  } = useChatSessions("analyst", ticker.toUpperCase())
+
+  const resumeChatSession = useCallback(
+    async (id: number) => {
+      try {
+        const data = await loadSession(id)
+        setMessages(data.messages.map(fromStoredMessage))
+        setSessionId(id)
+        setChatError(null)
+      } catch (err: any) {
+        setChatError(err.message || "Failed to load conversation")
+      }
+    },
+    [loadSession],
+  )
+
+  const startNewConversation = () => {
+    setMessages([])
+    setSessionId(null)
+    setChatError(null)
+  }
+
+  // Each ticker has its own conversations; switching tickers picks up the latest one for it
+  useEffect(() => {
+    setMessages([])
+    setSessionId(null)
+    setChatError(null)
+    resumedTickerRef.current = null
+  }, [ticker])
+
+  useEffect(() => {
+    if (isLoadingSessions || resumedTickerRef.current === ticker) return
+    resumedTickerRef.current = ticker
+    if (chatSessions[0]) resumeChatSession(chatSessions[0].id)
+  }, [isLoadingSessions, chatSessions, ticker, resumeChatSession])
 
 
 
@@ -221,6 +286,7 @@ export default function AIAnalysisPanel({ ticker, stockData, onAnalysisComplete
           message: messageText.trim(),
           ticker,
           stockData,
+          sessionId,
         }),
       })
 
@@ -230,105 +296,77 @@ export default function AIAnalysisPanel({ ticker, stockData, onAnalysisComplete
       }
 
       // Handle streaming response
-      const reader = response.body?.getReader()
-      const decoder = new TextDecoder()
       const baseId = Date.now().toString()
-      let buffer = ""
-      let searchResultsAdded = false
-
-      if (!reader) {
-        throw new Error("Response body is not readable")
+      const assistantId = `${baseId}-assistant`
+      let streamError: string | null = null
+
+      // Tool calls and text both belong to the reply; whichever arrives first creates it
+      const updateAssistant = (change: (message: ChatMessage) => ChatMessage, model?: string, timestamp?: string) => {
+        setMessages((prev) => {
+          const lastMsg = prev[prev.length - 1]
+          if (lastMsg?.role === "assistant" && lastMsg.id === assistantId) {
+            return [...prev.slice(0, -1), change(lastMsg)]
+          }
+          const created: ChatMessage = {
+            id: assistantId,
+            role: "assistant",
+            content: "",
+            timestamp: timestamp ? new Date(timestamp) : new Date(),
+            model,
+          }
+          return [...prev, change(created)]
+        })
       }
 
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-
-        buffer += decoder.decode(value, { stream: true })
-        const lines = buffer.split("\n\n")
-        buffer = lines.pop() || ""
-
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            const jsonStr = line.slice(6)
-            try {
-              const data = JSON.parse(jsonStr)
-
-              if (data.type === "search" && data.searchResults) {
-                // Add search results immediately
-                const searchResults: SearchResult[] = Array.isArray(data.searchResults)
-                  ? (data.searchResults as Array<{ title?: string; url?: string; description?: string }>)
-                    .filter((result) => typeof result?.title === "string" && typeof result?.url === "string")
-                    .map((result) => ({
-                      title: result.title as string,
-                      url: result.url as string,
-                      description: typeof result.description === "string" ? result.description : "",
-                    }))
-                  : []
-
-                if (searchResults.length > 0) {
-                  setMessages((prev) => [
-                    ...prev,
-                    {
-                      id: `${baseId}-search`,
-                      role: "search",
-                      content: "",
-                      timestamp: data.timestamp ? new Date(data.timestamp) : new Date(),
-                      searchResults,
-                    },
-                  ])
-                  searchResultsAdded = true
-                  setIsSearchingWeb(false)
-                  setIsGeneratingResponse(true)
-                }
-              } else if (data.type === "chunk") {
-                // Handle streaming chunks
-                setIsSearchingWeb(false)
-                setMessages((prev) => {
-                  const lastMsg = prev[prev.length - 1]
-                  const isAssistantMessage = lastMsg?.role === "assistant" && lastMsg?.id === `${baseId}-assistant`
-
-                  if (isAssistantMessage) {
-                    return [
-                      ...prev.slice(0, -1),
-                      { ...lastMsg, content: lastMsg.content + (data.content || "") }
-                    ]
-                  } else {
-                    return [
-                      ...prev,
-                      {
-                        id: `${baseId}-assistant`,
-                        role: "assistant",
-                        content: data.content || "",
-                        timestamp: data.timestamp ? new Date(data.timestamp) : new Date(),
-                        model: data.model,
-                      },
-                    ]
-                  }
-                })
-                setIsGeneratingResponse(true)
-              } else if (data.type === "response") {
-                // Handle full response (fallback)
-                setMessages((prev) => [
-                  ...prev,
-                  {
-                    id: `${baseId}-assistant`,
-                    role: "assistant",
-                    content: data.response || "Sorry, I couldn't generate a response.",
-                    timestamp: data.timestamp ? new Date(data.timestamp) : new Date(),
-                    model: data.model,
-                  },
-                ])
-                setIsGeneratingResponse(false)
-              } else if (data.type === "error") {
-                throw new Error(data.error || "Unknown error")
-              }
-            } catch (parseError) {
-              console.error("Error parsing SSE data:", parseError, jsonStr)
-            }
+      await readChatStream(response, (data) => {
+        if (data.type === "session") {
+          setSessionId(data.session.id)
+        } else if (data.type === "search") {
+          // Add search results immediately
+          const searchResults: SearchResult[] = data.searchResults.filter(
+            (result) => typeof result?.title === "string" && typeof result?.url === "string",
+          )
+
+          if (searchResults.length > 0) {
+            setMessages((prev) => [
+              ...prev,
+              {
+                id: `${baseId}-search`,
+                role: "search",
+                content: "",
+                timestamp: data.timestamp ? new Date(data.timestamp) : new Date(),
+                searchResults,
+              },
+            ])
+            setIsSearchingWeb(false)
+            setIsGeneratingResponse(true)
           }
+        } else if (data.type === "citations") {
+          updateAssistant((message) => ({ ...message, citations: data.citations }), undefined, data.timestamp)
+        } else if (data.type === "tool-call" || data.type === "tool-result") {
+          setIsSearchingWeb(false)
+          updateAssistant(
+            (message) => ({ ...message, toolCalls: applyToolEvent(message.toolCalls ?? [], data) }),
+            undefined,
+            data.timestamp,
+          )
+          setIsGeneratingResponse(true)
+        } else if (data.type === "chunk") {
+          // Handle streaming chunks
+          setIsSearchingWeb(false)
+          updateAssistant(
+            (message) => ({ ...message, content: message.content + (data.content || ""), model: data.model }),
+            data.model,
+            data.timestamp,
+          )
+          setIsGeneratingResponse(true)
+        } else if (data.type === "error") {
+          streamError = data.error || "Unknown error"
         }
-      }
+      })
+
+      if (streamError) throw new Error(streamError)
+      refreshChatSessions()
     } catch (err: any) {
       console.error("Chat error:", err)
       setChatError(err.message || "Failed to get AI response")
@@ -709,6 +747,9 @@ export default function AIAnalysisPanel({ ticker, stockData, onAnalysisComplete
                         </div>
                       ))}
                     </div>
+                    {Array.isArray(aiAnalysis.citations) && (
+                      <DocumentCitations citations={aiAnalysis.citations} className="mt-6" />
+                    )}
                   </CardContent>
                 </Card>
 
@@ -751,13 +792,45 @@ export default function AIAnalysisPanel({ ticker, stockData, onAnalysisComplete
       {/* Custom AI Chat Interface */}
       <Card className="border shadow-sm">
         <CardHeader className="bg-gradient-to-r from-blue-50 to-indigo-50 border-b">
-          <CardTitle className="flex items-center gap-2">
-            <MessageSquare className="h-5 w-5 text-blue-600" />
-            Ask AI About {ticker.toUpperCase()}
-            <Badge variant="outline" className="ml-2 text-xs">
-              Professional Analysis
-            </Badge>
-          </CardTitle>
+          <div className="flex items-center justify-between gap-3">
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquare className="h-5 w-5 text-blue-600" />
+              Ask AI About {ticker.toUpperCase()}
+              <Badge variant="outline" className="ml-2 text-xs">
+                Professional Analysis
+              </Badge>
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              {chatSessions.length > 0 && (
+                <Select
+                  value={sessionId ? String(sessionId) : ""}
+                  onValueChange={(value) => resumeChatSession(Number(value))}
+                  disabled={isLoading}
+                >
+                  <SelectTrigger className="h-8 w-48 bg-white text-xs" aria-label="Past conversations">
+                    <SelectValue placeholder="Past conversations" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {chatSessions.map((session) => (
+                      <SelectItem key={session.id} value={String(session.id)} className="text-xs">
+                        {session.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={startNewConversation}
+                disabled={isLoading || messages.length === 0}
+                className="h-8 bg-white"
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                New
+              </Button>
+            </div>
+          </div>
         </CardHeader>
         <CardContent className="p-6 pb-8">
           <div className="space-y-4">
@@ -880,6 +953,9 @@ export default function AIAnalysisPanel({ ticker, stockData, onAnalysisComplete
                         {/* Content */}
                         <div className="p-6">
                           <div className="space-y-6">
+                            {message.toolCalls && <ChatToolCalls calls={message.toolCalls} />}
+                            {message.citations && <DocumentCitations citations={message.citations} />}
+
                             {effectiveDisclaimer && (
                               <div className="bg-amber-50 border-l-4 border-amber-400 p-6 rounded-r-lg">
                                 <div className="flex items-start gap-3">
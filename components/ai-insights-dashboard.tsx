@@ -4,6 +4,7 @@ import { useState, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Brain, TrendingUp, Clock, Star, BarChart3 } from "lucide-react"
+import PredictionAccuracyPanel from "@/components/prediction-accuracy-panel"
 import {
   LineChart,
   Line,
@@ -303,6 +304,8 @@ export default function AIInsightsDashboard() {
           </CardContent>
         </Card>
       ) : null}
+
+      <PredictionAccuracyPanel />
     </div>
   )
 }
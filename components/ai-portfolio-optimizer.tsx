@@ -1,68 +1,124 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
-import { PieChart, TrendingUp, TrendingDown, Plus, X, Sparkles, Loader2 } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { PieChart, TrendingUp, TrendingDown, Plus, Sparkles, Loader2 } from "lucide-react"
+import { CartesianGrid, Legend, ResponsiveContainer, Scatter, ScatterChart, Tooltip, XAxis, YAxis } from "recharts"
 import { useToast } from "@/hooks/use-toast"
+import { usePortfolios, usePortfolioValuation } from "@/hooks/use-portfolios"
+import type {
+  Allocation,
+  OptimizationObjective,
+  OptimizationResult,
+  RebalanceTrade,
+} from "@/lib/analysis/portfolio-optimizer"
 
-interface PortfolioItem {
-  ticker: string
-  shares: number
-  currentPrice: number
-  allocation?: number
+interface Optimization extends OptimizationResult {
+  current: Allocation | null
+  trades: RebalanceTrade[]
 }
 
-interface Rebalancing {
-  action: "BUY" | "SELL"
-  ticker: string
-  percentage: string
-  reason: string
-}
-
-interface Optimization {
+interface Explanation {
   assessment: string
   suggestions: string[]
-  rebalancing: Rebalancing[]
-  riskScore: number
+}
+
+const OBJECTIVE_LABELS: Record<OptimizationObjective, string> = {
+  "max-sharpe": "Max Sharpe",
+  "min-variance": "Minimum Variance",
+  "risk-parity": "Risk Parity",
+  "target-volatility": "Target Volatility",
+}
+
+function formatPercent(value: number, digits = 1): string {
+  return `${(value * 100).toFixed(digits)}%`
 }
 
 export default function AIPortfolioOptimizer() {
-  const [portfolio, setPortfolio] = useState<PortfolioItem[]>([])
-  const [newItem, setNewItem] = useState({ ticker: "", shares: "", price: "" })
+  const { portfolios, isLoading: portfoliosLoading, createPortfolio, recordTransaction } = usePortfolios()
+  const [portfolioId, setPortfolioId] = useState<number | null>(null)
+  const [version, setVersion] = useState(0)
+  const { valuation, isLoading: valuationLoading } = usePortfolioValuation(portfolioId, version)
+  const [newPortfolio, setNewPortfolio] = useState({ name: "", cash: "" })
+  const [newItem, setNewItem] = useState({ type: "buy" as "buy" | "sell", ticker: "", shares: "", price: "" })
+  const [settings, setSettings] = useState({
+    objective: "max-sharpe" as OptimizationObjective,
+    maxWeight: "40",
+    targetVolatility: "15",
+    candidates: "",
+  })
   const [optimization, setOptimization] = useState<Optimization | null>(null)
+  const [explanation, setExplanation] = useState<Explanation | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const { toast } = useToast()
 
-  const addItem = () => {
-    if (!newItem.ticker || !newItem.shares || !newItem.price) {
+  // Default to the most recent portfolio once the list loads
+  useEffect(() => {
+    if (portfolioId === null && portfolios.length > 0) {
+      setPortfolioId(portfolios[0].id)
+    }
+  }, [portfolios, portfolioId])
+
+  const handleCreatePortfolio = async () => {
+    if (!newPortfolio.name.trim()) {
       toast({
         title: "Missing Information",
-        description: "Please fill in all fields",
+        description: "Please name the portfolio",
         variant: "destructive",
       })
       return
     }
 
-    const item: PortfolioItem = {
-      ticker: newItem.ticker.toUpperCase(),
-      shares: Number.parseFloat(newItem.shares),
-      currentPrice: Number.parseFloat(newItem.price),
+    try {
+      const created = await createPortfolio(newPortfolio.name, Number.parseFloat(newPortfolio.cash) || 0)
+      setPortfolioId(created.id)
+      setNewPortfolio({ name: "", cash: "" })
+      setOptimization(null)
+    } catch (error) {
+      toast({
+        title: "Could Not Create Portfolio",
+        description: error instanceof Error ? error.message : "Unable to create portfolio",
+        variant: "destructive",
+      })
     }
-
-    setPortfolio([...portfolio, item])
-    setNewItem({ ticker: "", shares: "", price: "" })
   }
 
-  const removeItem = (index: number) => {
-    setPortfolio(portfolio.filter((_, i) => i !== index))
+  const addItem = async () => {
+    if (!portfolioId) return
+    if (!newItem.ticker || !newItem.shares || !newItem.price) {
+      toast({
+        title: "Missing Information",
+        description: "Please fill in all fields",
+        variant: "destructive",
+      })
+      return
+    }
+
+    try {
+      await recordTransaction(portfolioId, {
+        type: newItem.type,
+        ticker: newItem.ticker.toUpperCase(),
+        shares: Number.parseFloat(newItem.shares),
+        price: Number.parseFloat(newItem.price),
+      })
+      setNewItem({ ...newItem, ticker: "", shares: "", price: "" })
+      setVersion((v) => v + 1)
+    } catch (error) {
+      toast({
+        title: "Transaction Rejected",
+        description: error instanceof Error ? error.message : "Unable to record transaction",
+        variant: "destructive",
+      })
+    }
   }
 
   const optimizePortfolio = async () => {
-    if (portfolio.length === 0) {
+    if (!portfolioId || !valuation || valuation.positions.length === 0) {
       toast({
         title: "Empty Portfolio",
         description: "Add at least one stock to optimize",
@@ -73,33 +129,37 @@ export default function AIPortfolioOptimizer() {
 
     setIsLoading(true)
     try {
-      // Calculate allocations
-      const totalValue = portfolio.reduce((sum, p) => sum + p.shares * p.currentPrice, 0)
-      const portfolioWithAllocations = portfolio.map((p) => ({
-        ...p,
-        allocation: ((p.shares * p.currentPrice) / totalValue) * 100,
-      }))
-
       const response = await fetch("/api/optimize-portfolio", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ portfolio: portfolioWithAllocations }),
+        body: JSON.stringify({
+          portfolioId,
+          objective: settings.objective,
+          maxWeight: (Number.parseFloat(settings.maxWeight) || 100) / 100,
+          targetVolatility:
+            settings.objective === "target-volatility" ? Number.parseFloat(settings.targetVolatility) / 100 : undefined,
+          candidates: settings.candidates
+            .split(",")
+            .map((ticker) => ticker.trim())
+            .filter(Boolean),
+        }),
       })
 
-      if (!response.ok) throw new Error("Failed to optimize portfolio")
-
       const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to optimize portfolio")
+
       setOptimization(data.optimization)
+      setExplanation(data.explanation)
 
       toast({
         title: "Portfolio Optimized",
-        description: "AI has analyzed your portfolio",
+        description: `${OBJECTIVE_LABELS[settings.objective]} allocation computed from historical returns`,
       })
     } catch (error) {
       console.error("Optimization error:", error)
       toast({
         title: "Optimization Failed",
-        description: "Unable to optimize portfolio",
+        description: error instanceof Error ? error.message : "Unable to optimize portfolio",
         variant: "destructive",
       })
     } finally {
@@ -107,13 +167,7 @@ export default function AIPortfolioOptimizer() {
     }
   }
 
-  const getRiskColor = (score: number) => {
-    if (score >= 70) return "text-red-600 bg-red-100 border-red-300"
-    if (score >= 40) return "text-orange-600 bg-orange-100 border-orange-300"
-    return "text-green-600 bg-green-100 border-green-300"
-  }
-
-  const totalValue = portfolio.reduce((sum, p) => sum + p.shares * p.currentPrice, 0)
+  const positions = valuation?.positions ?? []
 
   return (
     <Card className="border-2 border-indigo-200 bg-gradient-to-br from-indigo-50 to-purple-50">
@@ -124,7 +178,7 @@ export default function AIPortfolioOptimizer() {
               <PieChart className="h-5 w-5 text-indigo-600" />
               AI Portfolio Optimizer
             </CardTitle>
-            <CardDescription>Get AI-powered rebalancing suggestions</CardDescription>
+            <CardDescription>Mean-variance rebalancing with an AI explanation</CardDescription>
           </div>
           <Badge variant="outline" className="bg-indigo-100 text-indigo-700 border-indigo-300">
             <Sparkles className="h-3 w-3 mr-1" />
@@ -134,84 +188,230 @@ export default function AIPortfolioOptimizer() {
       </CardHeader>
 
       <CardContent className="space-y-4">
-        {/* Add Holdings */}
+        {/* Portfolio Selection */}
         <div className="bg-white rounded-lg p-4 border-2 border-indigo-200 space-y-3">
-          <h4 className="text-sm font-semibold text-gray-900">Add Holdings</h4>
+          <h4 className="text-sm font-semibold text-gray-900">Portfolio</h4>
+          {portfolios.length > 0 && (
+            <Select
+              value={portfolioId ? String(portfolioId) : undefined}
+              onValueChange={(value) => {
+                setPortfolioId(Number(value))
+                setOptimization(null)
+              }}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue placeholder={portfoliosLoading ? "Loading..." : "Select portfolio"} />
+              </SelectTrigger>
+              <SelectContent>
+                {portfolios.map((p) => (
+                  <SelectItem key={p.id} value={String(p.id)}>
+                    {p.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
-            <div>
-              <Label htmlFor="ticker" className="text-xs">
-                Ticker
-              </Label>
-              <Input
-                id="ticker"
-                placeholder="AAPL"
-                value={newItem.ticker}
-                onChange={(e) => setNewItem({ ...newItem, ticker: e.target.value.toUpperCase() })}
-                className="h-8"
-              />
-            </div>
-            <div>
-              <Label htmlFor="shares" className="text-xs">
-                Shares
-              </Label>
-              <Input
-                id="shares"
-                type="number"
-                placeholder="100"
-                value={newItem.shares}
-                onChange={(e) => setNewItem({ ...newItem, shares: e.target.value })}
-                className="h-8"
-              />
-            </div>
-            <div>
-              <Label htmlFor="price" className="text-xs">
-                Price
-              </Label>
-              <Input
-                id="price"
-                type="number"
-                placeholder="150.00"
-                value={newItem.price}
-                onChange={(e) => setNewItem({ ...newItem, price: e.target.value })}
-                className="h-8"
-              />
-            </div>
+            <Input
+              placeholder="New portfolio name"
+              value={newPortfolio.name}
+              onChange={(e) => setNewPortfolio({ ...newPortfolio, name: e.target.value })}
+              className="h-8 sm:col-span-2"
+            />
+            <Input
+              type="number"
+              placeholder="Starting cash"
+              value={newPortfolio.cash}
+              onChange={(e) => setNewPortfolio({ ...newPortfolio, cash: e.target.value })}
+              className="h-8"
+            />
           </div>
-          <Button onClick={addItem} size="sm" className="w-full" variant="outline">
+          <Button onClick={handleCreatePortfolio} size="sm" className="w-full" variant="outline">
             <Plus className="h-4 w-4 mr-2" />
-            Add to Portfolio
+            Create Portfolio
           </Button>
         </div>
 
+        {/* Record Transactions */}
+        {portfolioId && (
+          <div className="bg-white rounded-lg p-4 border-2 border-indigo-200 space-y-3">
+            <h4 className="text-sm font-semibold text-gray-900">Record Trade</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+              <div>
+                <Label htmlFor="trade-type" className="text-xs">
+                  Side
+                </Label>
+                <Select
+                  value={newItem.type}
+                  onValueChange={(value) => setNewItem({ ...newItem, type: value as "buy" | "sell" })}
+                >
+                  <SelectTrigger id="trade-type" className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="buy">Buy</SelectItem>
+                    <SelectItem value="sell">Sell</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="ticker" className="text-xs">
+                  Ticker
+                </Label>
+                <Input
+                  id="ticker"
+                  placeholder="AAPL"
+                  value={newItem.ticker}
+                  onChange={(e) => setNewItem({ ...newItem, ticker: e.target.value.toUpperCase() })}
+                  className="h-8"
+                />
+              </div>
+              <div>
+                <Label htmlFor="shares" className="text-xs">
+                  Shares
+                </Label>
+                <Input
+                  id="shares"
+                  type="number"
+                  placeholder="100"
+                  value={newItem.shares}
+                  onChange={(e) => setNewItem({ ...newItem, shares: e.target.value })}
+                  className="h-8"
+                />
+              </div>
+              <div>
+                <Label htmlFor="price" className="text-xs">
+                  Price
+                </Label>
+                <Input
+                  id="price"
+                  type="number"
+                  placeholder="150.00"
+                  value={newItem.price}
+                  onChange={(e) => setNewItem({ ...newItem, price: e.target.value })}
+                  className="h-8"
+                />
+              </div>
+            </div>
+            <Button onClick={addItem} size="sm" className="w-full" variant="outline">
+              <Plus className="h-4 w-4 mr-2" />
+              Record {newItem.type === "buy" ? "Buy" : "Sell"}
+            </Button>
+          </div>
+        )}
+
         {/* Current Holdings */}
-        {portfolio.length > 0 && (
+        {valuation && (
           <div className="bg-white rounded-lg p-4 border-2 border-indigo-200 space-y-2">
             <div className="flex items-center justify-between mb-2">
               <h4 className="text-sm font-semibold text-gray-900">Current Holdings</h4>
-              <div className="text-sm font-semibold text-indigo-700">Total: ${totalValue.toFixed(2)}</div>
+              <div className="text-sm font-semibold text-indigo-700">
+                Total: ${valuation.totalValue.toFixed(2)}
+                {valuationLoading && <Loader2 className="inline h-3 w-3 ml-1 animate-spin" />}
+              </div>
             </div>
             <div className="space-y-2 max-h-48 overflow-y-auto">
-              {portfolio.map((item, index) => (
-                <div key={index} className="flex items-center justify-between bg-gray-50 p-2 rounded">
+              {positions.map((item) => (
+                <div key={item.ticker} className="flex items-center justify-between bg-gray-50 p-2 rounded">
                   <div className="flex-1">
                     <span className="font-semibold text-sm">{item.ticker}</span>
                     <span className="text-xs text-gray-600 ml-2">
-                      {item.shares} × ${item.currentPrice.toFixed(2)} = ${(item.shares * item.currentPrice).toFixed(2)}
+                      {item.shares} × ${item.price.toFixed(2)} = ${item.marketValue.toFixed(2)}
+                      {!item.priced && " (at cost)"}
                     </span>
+                    <div className="text-xs text-gray-500">
+                      Cost ${item.costBasis.toFixed(2)} across {item.lots.length} lot{item.lots.length === 1 ? "" : "s"}
+                    </div>
+                  </div>
+                  <div
+                    className={`text-xs font-semibold ${item.unrealizedGain >= 0 ? "text-green-600" : "text-red-600"}`}
+                  >
+                    {item.unrealizedGain >= 0 ? "+" : ""}
+                    {item.unrealizedGainPercent.toFixed(1)}%
                   </div>
-                  <Button variant="ghost" size="sm" onClick={() => removeItem(index)} className="h-6 w-6 p-0">
-                    <X className="h-4 w-4 text-red-600" />
-                  </Button>
                 </div>
               ))}
+              <div className="flex items-center justify-between bg-gray-50 p-2 rounded text-xs text-gray-600">
+                <span>Cash</span>
+                <span>${valuation.cash.toFixed(2)}</span>
+              </div>
+            </div>
+            <div className="flex justify-between text-xs text-gray-600 pt-1">
+              <span>Unrealized: ${valuation.unrealizedGain.toFixed(2)}</span>
+              <span>Realized: ${valuation.realizedGain.toFixed(2)}</span>
             </div>
           </div>
         )}
 
+        {/* Optimizer Settings */}
+        <div className="bg-white rounded-lg p-4 border-2 border-indigo-200 space-y-3">
+          <h4 className="text-sm font-semibold text-gray-900">Optimizer Settings</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <div>
+              <Label htmlFor="objective" className="text-xs">
+                Objective
+              </Label>
+              <Select
+                value={settings.objective}
+                onValueChange={(value) => setSettings({ ...settings, objective: value as OptimizationObjective })}
+              >
+                <SelectTrigger id="objective" className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(OBJECTIVE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="max-weight" className="text-xs">
+                Max Position %
+              </Label>
+              <Input
+                id="max-weight"
+                type="number"
+                value={settings.maxWeight}
+                onChange={(e) => setSettings({ ...settings, maxWeight: e.target.value })}
+                className="h-8"
+              />
+            </div>
+            {settings.objective === "target-volatility" && (
+              <div>
+                <Label htmlFor="target-vol" className="text-xs">
+                  Target Volatility %
+                </Label>
+                <Input
+                  id="target-vol"
+                  type="number"
+                  value={settings.targetVolatility}
+                  onChange={(e) => setSettings({ ...settings, targetVolatility: e.target.value })}
+                  className="h-8"
+                />
+              </div>
+            )}
+          </div>
+          <div>
+            <Label htmlFor="candidates" className="text-xs">
+              Also consider (comma-separated tickers)
+            </Label>
+            <Input
+              id="candidates"
+              placeholder="MSFT, VTI"
+              value={settings.candidates}
+              onChange={(e) => setSettings({ ...settings, candidates: e.target.value.toUpperCase() })}
+              className="h-8"
+            />
+          </div>
+        </div>
+
         {/* Optimize Button */}
         <Button
           onClick={optimizePortfolio}
-          disabled={isLoading || portfolio.length === 0}
+          disabled={isLoading || positions.length === 0}
           className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700"
         >
           {isLoading ? (
@@ -230,42 +430,109 @@ export default function AIPortfolioOptimizer() {
         {/* Optimization Results */}
         {optimization && (
           <div className="space-y-4 animate-in fade-in slide-in-from-bottom-4">
-            {/* Risk Score */}
-            <div className={`rounded-lg p-4 border-2 ${getRiskColor(optimization.riskScore)}`}>
-              <div className="flex items-center justify-between">
-                <div className="text-sm font-semibold">Portfolio Risk Score</div>
-                <div className="text-2xl font-bold">{optimization.riskScore}/100</div>
-              </div>
+            {/* Current vs Optimized */}
+            <div className="bg-white rounded-lg p-4 border-2 border-indigo-200">
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">
+                📊 {OBJECTIVE_LABELS[optimization.objective]} ({optimization.inputs.observations} trading days)
+              </h4>
+              {!optimization.targetMet && (
+                <p className="text-xs text-orange-600 mb-2">
+                  The volatility target is below the least volatile portfolio the bounds allow.
+                </p>
+              )}
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1"></th>
+                    <th className="py-1">Exp. Return</th>
+                    <th className="py-1">Volatility</th>
+                    <th className="py-1">Sharpe</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {optimization.current && (
+                    <tr className="border-t">
+                      <td className="py-1 font-medium">Current</td>
+                      <td className="py-1 font-mono">{formatPercent(optimization.current.expectedReturn)}</td>
+                      <td className="py-1 font-mono">{formatPercent(optimization.current.volatility)}</td>
+                      <td className="py-1 font-mono">{optimization.current.sharpeRatio.toFixed(2)}</td>
+                    </tr>
+                  )}
+                  <tr className="border-t">
+                    <td className="py-1 font-medium">Optimized</td>
+                    <td className="py-1 font-mono">{formatPercent(optimization.target.expectedReturn)}</td>
+                    <td className="py-1 font-mono">{formatPercent(optimization.target.volatility)}</td>
+                    <td className="py-1 font-mono">{optimization.target.sharpeRatio.toFixed(2)}</td>
+                  </tr>
+                </tbody>
+              </table>
             </div>
 
-            {/* Assessment */}
+            {/* Efficient Frontier */}
             <div className="bg-white rounded-lg p-4 border-2 border-indigo-200">
-              <h4 className="text-sm font-semibold text-gray-900 mb-2">📊 Assessment</h4>
-              <p className="text-sm text-gray-700">{optimization.assessment}</p>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">📈 Efficient Frontier</h4>
+              <ResponsiveContainer width="100%" height={220}>
+                <ScatterChart margin={{ top: 10, right: 10, bottom: 10, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    type="number"
+                    dataKey="volatility"
+                    name="Volatility"
+                    tickFormatter={(value) => formatPercent(value, 0)}
+                    domain={["auto", "auto"]}
+                  />
+                  <YAxis
+                    type="number"
+                    dataKey="expectedReturn"
+                    name="Expected Return"
+                    tickFormatter={(value) => formatPercent(value, 0)}
+                    domain={["auto", "auto"]}
+                  />
+                  <Tooltip formatter={(value: number) => formatPercent(value)} />
+                  <Legend />
+                  <Scatter name="Frontier" data={optimization.frontier} fill="#6366f1" line shape="circle" />
+                  {optimization.current && (
+                    <Scatter name="Current" data={[optimization.current]} fill="#f97316" shape="diamond" />
+                  )}
+                  <Scatter name="Optimized" data={[optimization.target]} fill="#16a34a" shape="star" />
+                </ScatterChart>
+              </ResponsiveContainer>
             </div>
 
-            {/* Suggestions */}
+            {/* Target Weights */}
             <div className="bg-white rounded-lg p-4 border-2 border-indigo-200">
-              <h4 className="text-sm font-semibold text-gray-900 mb-2">💡 Suggestions</h4>
-              <ul className="space-y-2">
-                {optimization.suggestions.map((suggestion, index) => (
-                  <li key={index} className="flex items-start gap-2 text-sm text-gray-700">
-                    <span className="text-indigo-600">•</span>
-                    <span>{suggestion}</span>
-                  </li>
-                ))}
-              </ul>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">⚖️ Target Weights</h4>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1">Ticker</th>
+                    <th className="py-1">Current</th>
+                    <th className="py-1">Target</th>
+                    <th className="py-1">Risk Share</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {Object.entries(optimization.target.weights).map(([ticker, weight]) => (
+                    <tr key={ticker} className="border-t">
+                      <td className="py-1 font-medium">{ticker}</td>
+                      <td className="py-1 font-mono">{formatPercent(optimization.current?.weights[ticker] ?? 0)}</td>
+                      <td className="py-1 font-mono">{formatPercent(weight)}</td>
+                      <td className="py-1 font-mono">{formatPercent(optimization.target.riskContributions[ticker])}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
             </div>
 
             {/* Rebalancing */}
-            {optimization.rebalancing.length > 0 && (
+            {optimization.trades.length > 0 && (
               <div className="bg-white rounded-lg p-4 border-2 border-indigo-200">
-                <h4 className="text-sm font-semibold text-gray-900 mb-3">🔄 Recommended Rebalancing</h4>
+                <h4 className="text-sm font-semibold text-gray-900 mb-3">🔄 Trades to Rebalance</h4>
                 <div className="space-y-2">
-                  {optimization.rebalancing.map((action, index) => (
-                    <div key={index} className="flex items-center gap-3 bg-gray-50 p-3 rounded-lg">
+                  {optimization.trades.map((trade) => (
+                    <div key={trade.ticker} className="flex items-center gap-3 bg-gray-50 p-3 rounded-lg">
                       <div className="flex-shrink-0">
-                        {action.action === "BUY" ? (
+                        {trade.action === "BUY" ? (
                           <TrendingUp className="h-5 w-5 text-green-600" />
                         ) : (
                           <TrendingDown className="h-5 w-5 text-red-600" />
@@ -273,19 +540,39 @@ export default function AIPortfolioOptimizer() {
                       </div>
                       <div className="flex-1">
                         <div className="font-semibold text-sm">
-                          {action.action} {action.ticker} ({action.percentage})
+                          {trade.action} {trade.shares} {trade.ticker} @ ${trade.price.toFixed(2)}
+                        </div>
+                        <div className="text-xs text-gray-600">
+                          ${trade.value.toFixed(2)} · {formatPercent(trade.currentWeight)} →{" "}
+                          {formatPercent(trade.targetWeight)}
                         </div>
-                        <div className="text-xs text-gray-600">{action.reason}</div>
                       </div>
                     </div>
                   ))}
                 </div>
               </div>
             )}
+
+            {/* AI Explanation */}
+            {explanation && (
+              <div className="bg-white rounded-lg p-4 border-2 border-indigo-200">
+                <h4 className="text-sm font-semibold text-gray-900 mb-2">💡 What This Means</h4>
+                <p className="text-sm text-gray-700">{explanation.assessment}</p>
+                {explanation.suggestions.length > 0 && (
+                  <ul className="space-y-2 mt-2">
+                    {explanation.suggestions.map((suggestion, index) => (
+                      <li key={index} className="flex items-start gap-2 text-sm text-gray-700">
+                        <span className="text-indigo-600">•</span>
+                        <span>{suggestion}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
           </div>
         )}
       </CardContent>
     </Card>
   )
 }
-
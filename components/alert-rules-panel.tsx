@@ -0,0 +1,295 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Bell, BellOff, BellRing, Loader2, Plus, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useAlerts } from "@/hooks/use-alerts"
+import { usePushNotifications } from "@/hooks/use-push-notifications"
+import { describeCondition } from "@/lib/alerts/alert-conditions"
+import type { AlertCondition, AlertConditionType } from "@/lib/alerts/types"
+
+interface AlertRulesPanelProps {
+  ticker: string
+  currentPrice?: number
+}
+
+const CONDITION_LABELS: Record<AlertConditionType, string> = {
+  "price-cross": "Price crosses",
+  "percent-move": "Percent move",
+  rsi: "RSI level",
+  "volume-spike": "Volume spike",
+  "52-week-high": "New 52-week high",
+  "52-week-low": "New 52-week low",
+}
+
+/** Form state is kept as strings and only turned into a condition on submit */
+function buildCondition(type: AlertConditionType, form: Record<string, string>): AlertCondition {
+  switch (type) {
+    case "price-cross":
+      return { type, direction: form.direction as "above" | "below", level: Number(form.level) }
+    case "percent-move":
+      return {
+        type,
+        direction: form.moveDirection as "up" | "down" | "either",
+        percent: Number(form.percent),
+        windowDays: Number(form.windowDays),
+      }
+    case "rsi":
+      return { type, comparison: form.direction as "above" | "below", threshold: Number(form.threshold), period: 14 }
+    case "volume-spike":
+      return { type, multiple: Number(form.multiple), averageDays: 20 }
+    default:
+      return { type }
+  }
+}
+
+export default function AlertRulesPanel({ ticker, currentPrice }: AlertRulesPanelProps) {
+  const { rules, events, isLoading, error, createRule, updateRule, deleteRule } = useAlerts()
+  const [type, setType] = useState<AlertConditionType>("price-cross")
+  const [form, setForm] = useState({
+    direction: "above",
+    level: currentPrice ? currentPrice.toFixed(2) : "",
+    moveDirection: "either",
+    percent: "5",
+    windowDays: "1",
+    threshold: "70",
+    multiple: "2",
+    cooldownMinutes: "60",
+  })
+  const [isSaving, setIsSaving] = useState(false)
+  const push = usePushNotifications()
+  const { toast } = useToast()
+
+  const setField = (field: keyof typeof form) => (value: string) => setForm((prev) => ({ ...prev, [field]: value }))
+
+  const handleCreate = async () => {
+    setIsSaving(true)
+    try {
+      await createRule({
+        ticker,
+        condition: buildCondition(type, form),
+        cooldownMinutes: Number(form.cooldownMinutes),
+      })
+      toast({ title: "Alert created", description: `${ticker}: ${describeCondition(buildCondition(type, form))}` })
+    } catch (err) {
+      toast({
+        title: "Could not create alert",
+        description: err instanceof Error ? err.message : "Unknown error",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleAction = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action()
+    } catch (err) {
+      toast({
+        title: failure,
+        description: err instanceof Error ? err.message : "Unknown error",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Price & Indicator Alerts
+          </span>
+          {(push.status === "subscribed" || push.status === "unsubscribed") && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={push.isBusy}
+              onClick={() =>
+                handleAction(
+                  push.status === "subscribed" ? push.unsubscribe : () => push.subscribe(),
+                  "Could not update notifications",
+                )
+              }
+            >
+              {push.status === "subscribed" ? (
+                <BellOff className="h-4 w-4 mr-2" />
+              ) : (
+                <BellRing className="h-4 w-4 mr-2" />
+              )}
+              {push.status === "subscribed" ? "Disable Notifications" : "Enable Notifications"}
+            </Button>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Rules are checked on live quotes while a ticker is open and every 15 minutes during market hours
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+          <div className="space-y-1">
+            <Label>Condition for {ticker}</Label>
+            <Select value={type} onValueChange={(value) => setType(value as AlertConditionType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CONDITION_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {(type === "price-cross" || type === "rsi") && (
+            <div className="space-y-1">
+              <Label>Direction</Label>
+              <Select value={form.direction} onValueChange={setField("direction")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="above">Above</SelectItem>
+                  <SelectItem value="below">Below</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {type === "price-cross" && (
+            <div className="space-y-1">
+              <Label>Price ($)</Label>
+              <Input type="number" value={form.level} onChange={(e) => setField("level")(e.target.value)} />
+            </div>
+          )}
+          {type === "rsi" && (
+            <div className="space-y-1">
+              <Label>RSI(14) threshold</Label>
+              <Input type="number" value={form.threshold} onChange={(e) => setField("threshold")(e.target.value)} />
+            </div>
+          )}
+          {type === "percent-move" && (
+            <>
+              <div className="space-y-1">
+                <Label>Move</Label>
+                <Select value={form.moveDirection} onValueChange={setField("moveDirection")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="either">Up or down</SelectItem>
+                    <SelectItem value="up">Up</SelectItem>
+                    <SelectItem value="down">Down</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label>Percent</Label>
+                  <Input type="number" value={form.percent} onChange={(e) => setField("percent")(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label>Days</Label>
+                  <Input
+                    type="number"
+                    value={form.windowDays}
+                    onChange={(e) => setField("windowDays")(e.target.value)}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+          {type === "volume-spike" && (
+            <div className="space-y-1">
+              <Label>Multiple of 20-day average</Label>
+              <Input type="number" value={form.multiple} onChange={(e) => setField("multiple")(e.target.value)} />
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label>Cooldown (minutes)</Label>
+            <Input
+              type="number"
+              value={form.cooldownMinutes}
+              onChange={(e) => setField("cooldownMinutes")(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleCreate} disabled={isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add Alert
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Your Rules</h4>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading alerts...</p>
+          ) : rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No alert rules yet</p>
+          ) : (
+            rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={rule.ticker === ticker ? "default" : "outline"}>{rule.ticker}</Badge>
+                    <span className="text-sm truncate">{rule.name ?? describeCondition(rule.condition)}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Cooldown {rule.cooldownMinutes}m
+                    {rule.lastTriggeredAt && ` · last triggered ${new Date(rule.lastTriggeredAt).toLocaleString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(enabled) =>
+                      handleAction(() => updateRule(rule.id, { enabled }), "Could not update alert")
+                    }
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleAction(() => deleteRule(rule.id), "Could not delete alert")}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium flex items-center gap-2">
+            <BellRing className="h-4 w-4" />
+            Recent Triggers
+          </h4>
+          {events.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing has triggered yet</p>
+          ) : (
+            events.map((event) => (
+              <div key={event.id} className="flex items-center justify-between gap-3 text-sm border-b pb-2">
+                <span>{event.message}</span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {new Date(event.triggeredAt).toLocaleString()}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
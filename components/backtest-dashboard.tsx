@@ -0,0 +1,291 @@
+"use client"
+
+import { useState } from "react"
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, History, RefreshCw } from "lucide-react"
+import type { BacktestResult } from "@/lib/analysis/backtest-engine"
+import type { PerformanceMetrics } from "@/lib/analysis/performance-metrics"
+
+const PERIODS = [
+  { label: "1Y", days: 365 },
+  { label: "2Y", days: 730 },
+  { label: "5Y", days: 1825 },
+]
+
+const formatPercent = (value: number | null | undefined) =>
+  value === null || value === undefined ? "—" : `${(value * 100).toFixed(2)}%`
+
+const pnlColor = (pnl: number | null) => (pnl === null ? "text-gray-500" : pnl >= 0 ? "text-green-600" : "text-red-600")
+
+const SIDE_COLORS = { buy: "text-green-600", sell: "text-red-600" }
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 })
+
+export default function BacktestDashboard() {
+  const [ticker, setTicker] = useState("AAPL")
+  const [days, setDays] = useState(730)
+  const [initialCapital, setInitialCapital] = useState("10000")
+  const [commissionPerTrade, setCommissionPerTrade] = useState("1")
+  const [slippageBps, setSlippageBps] = useState("5")
+  const [result, setResult] = useState<BacktestResult | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const runBacktest = async () => {
+    if (!ticker.trim()) return
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch("/api/backtest", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ticker: ticker.trim(), days, initialCapital, commissionPerTrade, slippageBps }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Backtest failed")
+      }
+      setResult(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Backtest failed")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const metricRows: { label: string; value: (metrics: PerformanceMetrics) => string }[] = [
+    { label: "Total Return", value: (metrics) => formatPercent(metrics.totalReturn) },
+    { label: "CAGR", value: (metrics) => formatPercent(metrics.cagr) },
+    { label: "Max Drawdown", value: (metrics) => formatPercent(-metrics.maxDrawdown.value) },
+    { label: "Sharpe Ratio", value: (metrics) => metrics.sharpeRatio.toFixed(2) },
+    { label: "Volatility", value: (metrics) => formatPercent(metrics.annualizedVolatility) },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Strategy Backtest
+          </CardTitle>
+          <CardDescription>
+            Replays daily candles through the precision recommendation engine. Signals are computed at each close
+            and filled at the next open with commissions and slippage.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="backtest-ticker">Ticker</Label>
+              <Input
+                id="backtest-ticker"
+                value={ticker}
+                onChange={(e) => setTicker(e.target.value.toUpperCase())}
+                onKeyDown={(e) => e.key === "Enter" && runBacktest()}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-capital">Initial Capital ($)</Label>
+              <Input
+                id="backtest-capital"
+                type="number"
+                value={initialCapital}
+                onChange={(e) => setInitialCapital(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-commission">Commission / Trade ($)</Label>
+              <Input
+                id="backtest-commission"
+                type="number"
+                value={commissionPerTrade}
+                onChange={(e) => setCommissionPerTrade(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-slippage">Slippage (bps)</Label>
+              <Input
+                id="backtest-slippage"
+                type="number"
+                value={slippageBps}
+                onChange={(e) => setSlippageBps(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2">
+              {PERIODS.map((period) => (
+                <Button
+                  key={period.label}
+                  variant={days === period.days ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setDays(period.days)}
+                >
+                  {period.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <Button onClick={runBacktest} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            {isLoading ? "Running..." : "Run Backtest"}
+          </Button>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                {result.ticker} Equity Curve
+                <span className="ml-2 text-sm font-normal text-gray-500">
+                  {result.startDate} → {result.endDate}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="h-[400px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={result.equityCurve} margin={{ top: 10, right: 30, left: 20, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                    <XAxis dataKey="date" tick={{ fontSize: 12, fill: "#6b7280" }} minTickGap={40} />
+                    <YAxis
+                      tick={{ fontSize: 12, fill: "#6b7280" }}
+                      tickFormatter={(value) => formatCurrency(Number(value))}
+                      domain={["auto", "auto"]}
+                    />
+                    <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                    <Legend />
+                    <Line
+                      type="monotone"
+                      dataKey="strategy"
+                      name="Strategy"
+                      stroke="#2563eb"
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="benchmark"
+                      name="Buy & Hold"
+                      stroke="#9ca3af"
+                      strokeWidth={2}
+                      strokeDasharray="6 3"
+                      dot={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Performance vs Buy &amp; Hold</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-2">Metric</th>
+                      <th className="py-2">Strategy</th>
+                      <th className="py-2">Buy &amp; Hold</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {metricRows.map((row) => (
+                      <tr key={row.label} className="border-t">
+                        <td className="py-2 text-gray-600">{row.label}</td>
+                        <td className="py-2 font-mono">{row.value(result.strategy)}</td>
+                        <td className="py-2 font-mono">{row.value(result.benchmark)}</td>
+                      </tr>
+                    ))}
+                    <tr className="border-t">
+                      <td className="py-2 text-gray-600">Hit Rate</td>
+                      <td className="py-2 font-mono">{formatPercent(result.strategy.hitRate)}</td>
+                      <td className="py-2 font-mono">—</td>
+                    </tr>
+                    <tr className="border-t">
+                      <td className="py-2 text-gray-600">Final Equity</td>
+                      <td className="py-2 font-mono">{formatCurrency(result.strategy.endValue)}</td>
+                      <td className="py-2 font-mono">{formatCurrency(result.benchmark.endValue)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+                {result.strategy.maxDrawdown.peakDate && (
+                  <p className="mt-3 text-xs text-gray-500">
+                    Strategy max drawdown from {result.strategy.maxDrawdown.peakDate} to{" "}
+                    {result.strategy.maxDrawdown.troughDate}
+                    {result.strategy.maxDrawdown.recoveryDate
+                      ? `, recovered ${result.strategy.maxDrawdown.recoveryDate}`
+                      : ", not yet recovered"}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Signals &amp; Trades</CardTitle>
+                <CardDescription>{result.strategy.tradeCount} fills</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  {Object.entries(result.signalCounts).map(([signal, count]) => (
+                    <Badge key={signal} variant="outline">
+                      {signal}: {count}
+                    </Badge>
+                  ))}
+                </div>
+                <div className="max-h-64 overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="py-1">Date</th>
+                        <th className="py-1">Side</th>
+                        <th className="py-1">Shares</th>
+                        <th className="py-1">Price</th>
+                        <th className="py-1">P&amp;L</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...result.trades].reverse().map((trade, index) => (
+                        <tr key={`${trade.date}-${index}`} className="border-t">
+                          <td className="py-1">{trade.date}</td>
+                          <td className={`py-1 font-medium ${SIDE_COLORS[trade.side]}`}>
+                            {trade.side.toUpperCase()} ({trade.signal})
+                          </td>
+                          <td className="py-1 font-mono">{trade.shares}</td>
+                          <td className="py-1 font-mono">${trade.price.toFixed(2)}</td>
+                          <td className={`py-1 font-mono ${pnlColor(trade.realizedPnl)}`}>
+                            {trade.realizedPnl === null ? "—" : `$${trade.realizedPnl.toFixed(2)}`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+"use client"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { CANDLE_INTERVALS } from "@/hooks/use-candles"
+import type { CandleInterval } from "@/lib/api/providers/types"
+
+interface CandleIntervalSelectProps {
+  id: string
+  interval: CandleInterval
+  onIntervalChange: (interval: CandleInterval) => void
+  extendedHours: boolean
+  onExtendedHoursChange: (extendedHours: boolean) => void
+}
+
+/** Candle interval picker with a pre/post-market toggle, which only applies to intraday intervals */
+export function CandleIntervalSelect({
+  id,
+  interval,
+  onIntervalChange,
+  extendedHours,
+  onExtendedHoursChange,
+}: CandleIntervalSelectProps) {
+  return (
+    <div className="flex items-center gap-3">
+      <Select value={interval} onValueChange={(value) => onIntervalChange(value as CandleInterval)}>
+        <SelectTrigger className="h-9 w-28" aria-label="Candle interval">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {CANDLE_INTERVALS.map(({ value, label }) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="flex items-center space-x-2">
+        <Switch
+          id={`${id}-extended-hours`}
+          checked={extendedHours}
+          onCheckedChange={onExtendedHoursChange}
+          disabled={interval === "1d"}
+        />
+        <Label htmlFor={`${id}-extended-hours`} className="text-sm font-medium cursor-pointer">
+          Pre/Post
+        </Label>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+"use client"
+
+import { useState } from "react"
+import { CheckCircle2, ChevronRight, Loader2, Wrench, XCircle } from "lucide-react"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import type { ChatStreamEvent } from "@/lib/ai/chat-stream"
+import type { ChatToolCallRecord } from "@/lib/chat/types"
+import { cn } from "@/lib/utils"
+
+/** One tool call as the chat UI shows it, updated in place when its result arrives */
+export interface ChatToolCallView {
+  id: string
+  name: string
+  input: Record<string, unknown>
+  status: "running" | "done" | "failed"
+  result?: unknown
+  error?: string
+  durationMs?: number
+}
+
+const TOOL_LABELS: Record<string, string> = {
+  get_quote: "Quote",
+  get_candles: "Price history",
+  compute_indicator: "Indicator",
+  get_risk_metrics: "Risk metrics",
+  compare_tickers: "Comparison",
+  get_watchlists: "Watchlists",
+  search_filings: "Filings",
+}
+
+/** Fold a tool-call or tool-result event into the list; other events leave it unchanged */
+export function applyToolEvent(calls: ChatToolCallView[], event: ChatStreamEvent): ChatToolCallView[] {
+  if (event.type === "tool-call") {
+    return [...calls, { id: event.id, name: event.name, input: event.input, status: "running" }]
+  }
+  if (event.type === "tool-result") {
+    return calls.map((call) =>
+      call.id === event.id
+        ? {
+            ...call,
+            status: event.ok ? "done" : "failed",
+            result: event.result,
+            error: event.error,
+            durationMs: event.durationMs,
+          }
+        : call,
+    )
+  }
+  return calls
+}
+
+/** Tool calls stored with a session message, shown the same way as live ones */
+export function toolCallViews(records: ChatToolCallRecord[]): ChatToolCallView[] {
+  return records.map((record) => ({ ...record, status: record.ok ? "done" : "failed" }))
+}
+
+function describeInput(input: Record<string, unknown>): string {
+  return Object.values(input)
+    .map((value) => (Array.isArray(value) ? value.join(" vs ") : String(value)))
+    .join(", ")
+}
+
+function ToolCallRow({ call }: { call: ChatToolCallView }) {
+  const [open, setOpen] = useState(false)
+  const label = TOOL_LABELS[call.name] ?? call.name
+  const args = describeInput(call.input)
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-md border border-gray-200 bg-white/60">
+      <CollapsibleTrigger className="flex w-full items-center gap-2 px-2 py-1 text-left text-xs text-gray-700">
+        <ChevronRight className={cn("h-3 w-3 shrink-0 transition-transform", open && "rotate-90")} />
+        <Wrench className="h-3 w-3 shrink-0 text-gray-500" />
+        <span className="font-medium">{label}</span>
+        {args && <span className="truncate text-gray-500">{args}</span>}
+        <span className="ml-auto flex shrink-0 items-center gap-1">
+          {call.durationMs !== undefined && <span className="text-gray-400">{call.durationMs}ms</span>}
+          {call.status === "running" && <Loader2 className="h-3 w-3 animate-spin text-gray-500" />}
+          {call.status === "done" && <CheckCircle2 className="h-3 w-3 text-green-600" />}
+          {call.status === "failed" && <XCircle className="h-3 w-3 text-red-600" />}
+        </span>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <pre className="max-h-48 overflow-auto border-t border-gray-200 px-2 py-1 text-[11px] text-gray-700">
+          {call.status === "running"
+            ? "Fetching..."
+            : call.status === "failed"
+              ? call.error
+              : JSON.stringify(call.result, null, 2)}
+        </pre>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
+
+/** The data lookups behind an assistant reply; each row expands to the raw result the model was given */
+export function ChatToolCalls({ calls, className }: { calls: ChatToolCallView[]; className?: string }) {
+  if (calls.length === 0) return null
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      {calls.map((call) => (
+        <ToolCallRow key={call.id} call={call} />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+"use client"
+
+import { useState } from "react"
+import { ChevronRight, FileText } from "lucide-react"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import type { DocumentCitation } from "@/lib/documents/types"
+import { cn } from "@/lib/utils"
+
+function citationHeading(citation: DocumentCitation): string {
+  return [citation.ticker, citation.form, citation.period].filter(Boolean).join(" ")
+}
+
+function CitationRow({ citation }: { citation: DocumentCitation }) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-md border border-amber-100 bg-white">
+      <CollapsibleTrigger className="flex w-full items-center gap-2 px-2 py-1 text-left text-xs text-gray-700">
+        <ChevronRight className={cn("h-3 w-3 shrink-0 transition-transform", open && "rotate-90")} />
+        <span className="shrink-0 font-bold text-amber-600">[{citation.ref}]</span>
+        <span className="shrink-0 font-medium">{citationHeading(citation)}</span>
+        {citation.section && <span className="truncate text-gray-500">{citation.section}</span>}
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="border-t border-amber-100 px-2 py-1 text-[11px] text-gray-700">
+          <p className="whitespace-pre-line">{citation.excerpt}</p>
+          <p className="mt-1 text-gray-400">
+            {citation.title} · {citation.source}
+          </p>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
+
+/** Filing and transcript passages a reply or analysis cites as [n]; each row expands to the quoted excerpt */
+export function DocumentCitations({ citations, className }: { citations: DocumentCitation[]; className?: string }) {
+  if (citations.length === 0) return null
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="flex items-center gap-1 text-xs font-medium text-gray-600">
+        <FileText className="h-3 w-3" />
+        Filing sources
+      </div>
+      {citations.map((citation) => (
+        <CitationRow key={`${citation.documentId}-${citation.ref}`} citation={citation} />
+      ))}
+    </div>
+  )
+}
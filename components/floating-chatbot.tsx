@@ -1,18 +1,46 @@
 "use client"
 
-import { useState, useRef, useEffect } from "react"
+import { useState, useRef, useEffect, useCallback } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import { MessageCircle, X, Send, Loader2, Bot, User } from "lucide-react"
+import { MessageCircle, X, Send, Loader2, Bot, User, History, Plus } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { readChatStream } from "@/lib/ai/chat-stream"
+import type { ChatSessionMessage } from "@/lib/chat/types"
+import { useChatSessions } from "@/hooks/use-chat-sessions"
+import { ChatToolCalls, applyToolEvent, toolCallViews, type ChatToolCallView } from "@/components/chat-tool-calls"
 
 interface Message {
   id: string
   role: "user" | "assistant"
   content: string
   timestamp: Date
+  /** Data lookups the assistant made for this reply */
+  toolCalls?: ChatToolCallView[]
+}
+
+/** The conversation to resume when the chat is next opened */
+const SESSION_STORAGE_KEY = "chat-session:assistant"
+
+function greetingMessage(): Message {
+  return {
+    id: "greeting",
+    role: "assistant",
+    content: "👋 Hello! I'm your StockPilot assistant. I can guide you through the platform, explain its features, and help you understand any technical terms or tools you come across.",
+    timestamp: new Date(),
+  }
+}
+
+function fromStored(message: ChatSessionMessage): Message {
+  return {
+    id: `stored-${message.id}`,
+    role: message.role,
+    content: message.content,
+    timestamp: new Date(message.createdAt),
+    toolCalls: toolCallViews(message.toolCalls),
+  }
 }
 
 export default function FloatingChatbot() {
@@ -20,21 +48,47 @@ export default function FloatingChatbot() {
   const [messages, setMessages] = useState<Message[]>([])
   const [input, setInput] = useState("")
   const [isLoading, setIsLoading] = useState(false)
+  const [sessionId, setSessionId] = useState<number | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
   const scrollRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
+  const { sessions, refresh: refreshSessions, loadSession } = useChatSessions("assistant")
 
-  // Initial greeting when chat opens
-  useEffect(() => {
-    if (isOpen && messages.length === 0) {
-      const greeting: Message = {
-        id: "greeting",
-        role: "assistant",
-        content: "👋 Hello! I'm your StockPilot assistant. I can guide you through the platform, explain its features, and help you understand any technical terms or tools you come across.",
-        timestamp: new Date(),
+  const selectSession = useCallback((id: number | null) => {
+    setSessionId(id)
+    if (id) localStorage.setItem(SESSION_STORAGE_KEY, String(id))
+    else localStorage.removeItem(SESSION_STORAGE_KEY)
+  }, [])
+
+  const resumeSession = useCallback(
+    async (id: number) => {
+      setShowHistory(false)
+      try {
+        const data = await loadSession(id)
+        setMessages([greetingMessage(), ...data.messages.map(fromStored)])
+        selectSession(id)
+      } catch {
+        // Deleted or expired (in-memory sessions do not survive a server restart): start over
+        setMessages([greetingMessage()])
+        selectSession(null)
       }
-      setMessages([greeting])
-    }
-  }, [isOpen, messages.length])
+    },
+    [loadSession, selectSession],
+  )
+
+  const startNewChat = () => {
+    setShowHistory(false)
+    setMessages([greetingMessage()])
+    selectSession(null)
+  }
+
+  // Resume the last conversation, or greet, when chat first opens
+  useEffect(() => {
+    if (!isOpen || messages.length > 0) return
+    const saved = Number(localStorage.getItem(SESSION_STORAGE_KEY))
+    if (saved > 0) resumeSession(saved)
+    else setMessages([greetingMessage()])
+  }, [isOpen, messages.length, resumeSession])
 
   // Auto-scroll to bottom
   useEffect(() => {
@@ -68,24 +122,36 @@ export default function FloatingChatbot() {
       const response = await fetch("/api/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: input.trim() }),
+        body: JSON.stringify({ message: input.trim(), sessionId }),
       })
 
       if (!response.ok) throw new Error("Failed to get response")
 
-      const data = await response.json()
+      const assistantId = (Date.now() + 1).toString()
+      setMessages((prev) => [
+        ...prev,
+        { id: assistantId, role: "assistant", content: "", timestamp: new Date(), toolCalls: [] },
+      ])
+      const update = (change: (message: Message) => Message) =>
+        setMessages((prev) => prev.map((message) => (message.id === assistantId ? change(message) : message)))
 
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: "assistant",
-        content: data.response,
-        timestamp: new Date(),
-      }
-
-      setMessages((prev) => [...prev, assistantMessage])
+      let streamError: string | null = null
+      await readChatStream(response, (event) => {
+        if (event.type === "session") {
+          selectSession(event.session.id)
+        } else if (event.type === "chunk") {
+          update((message) => ({ ...message, content: message.content + event.content }))
+        } else if (event.type === "tool-call" || event.type === "tool-result") {
+          update((message) => ({ ...message, toolCalls: applyToolEvent(message.toolCalls ?? [], event) }))
+        } else if (event.type === "error") {
+          streamError = event.error
+        }
+      })
+      if (streamError) throw new Error(streamError)
+      refreshSessions()
     } catch (error) {
       const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: (Date.now() + 2).toString(),
         role: "assistant",
         content: "I apologize, but I'm having trouble responding right now. Please try again in a moment.",
         timestamp: new Date(),
@@ -96,6 +162,11 @@ export default function FloatingChatbot() {
     }
   }
 
+  // The spinner stands in for the reply until its first tool call or text arrives
+  const lastMessage = messages[messages.length - 1]
+  const awaitingReply =
+    isLoading && (lastMessage?.role === "user" || !(lastMessage?.content || lastMessage?.toolCalls?.length))
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault()
@@ -125,59 +196,109 @@ export default function FloatingChatbot() {
                 <Bot className="h-5 w-5" />
                 StockPilot
               </CardTitle>
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={() => setIsOpen(false)}
-                className="text-white hover:bg-white/20 h-8 w-8"
-              >
-                <X className="h-4 w-4" />
-              </Button>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={startNewChat}
+                  disabled={isLoading}
+                  className="text-white hover:bg-white/20 h-8 w-8"
+                  aria-label="New conversation"
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setShowHistory((shown) => !shown)}
+                  disabled={isLoading}
+                  className="text-white hover:bg-white/20 h-8 w-8"
+                  aria-label="Past conversations"
+                >
+                  <History className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setIsOpen(false)}
+                  className="text-white hover:bg-white/20 h-8 w-8"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
             </div>
-            <p className="text-xs text-white/90 mt-1">Powered by Groq AI</p>
+            <p className="text-xs text-white/90 mt-1">Answers backed by live market data</p>
           </CardHeader>
 
-          <CardContent className="flex-1 flex flex-col p-0 overflow-hidden">
-            {/* Messages Area */}
-            <ScrollArea className="flex-1 p-4" ref={scrollRef}>
-              <div className="space-y-4">
-                {messages.map((message) => (
-                  <div
-                    key={message.id}
+          <CardContent className="relative flex-1 flex flex-col p-0 overflow-hidden">
+            {/* Past conversations, over the messages */}
+            {showHistory && (
+              <div className="absolute inset-0 z-10 bg-white overflow-y-auto p-4 space-y-2">
+                {sessions.length === 0 && (
+                  <p className="text-sm text-gray-500 text-center py-8">No saved conversations yet</p>
+                )}
+                {sessions.map((session) => (
+                  <button
+                    key={session.id}
+                    onClick={() => resumeSession(session.id)}
                     className={cn(
-                      "flex gap-3 animate-in fade-in slide-in-from-bottom-2",
-                      message.role === "user" ? "justify-end" : "justify-start",
+                      "w-full text-left rounded-lg border px-3 py-2 hover:bg-gray-50",
+                      session.id === sessionId ? "border-blue-600" : "border-gray-200",
                     )}
                   >
-                    {message.role === "assistant" && (
-                      <div className="flex-shrink-0 h-8 w-8 rounded-full bg-gradient-to-r from-blue-600 to-purple-600 flex items-center justify-center">
-                        <Bot className="h-4 w-4 text-white" />
-                      </div>
-                    )}
+                    <p className="text-sm font-medium truncate">{session.title}</p>
+                    <p className="text-xs text-gray-500">
+                      {session.ticker ? `${session.ticker} · ` : ""}
+                      {session.messageCount} messages · {new Date(session.updatedAt).toLocaleDateString()}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Messages Area */}
+            <ScrollArea className="flex-1 p-4" ref={scrollRef}>
+              <div className="space-y-4">
+                {messages
+                  .filter((message) => message.content || message.toolCalls?.length)
+                  .map((message) => (
                     <div
+                      key={message.id}
                       className={cn(
-                        "rounded-lg px-4 py-2 max-w-[80%] break-words",
-                        message.role === "user"
-                          ? "bg-blue-600 text-white"
-                          : "bg-gray-100 text-gray-900 border border-gray-200",
+                        "flex gap-3 animate-in fade-in slide-in-from-bottom-2",
+                        message.role === "user" ? "justify-end" : "justify-start",
                       )}
                     >
-                      <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-                      <p className="text-xs opacity-70 mt-1">
-                        {message.timestamp.toLocaleTimeString([], {
-                          hour: "2-digit",
-                          minute: "2-digit",
-                        })}
-                      </p>
-                    </div>
-                    {message.role === "user" && (
-                      <div className="flex-shrink-0 h-8 w-8 rounded-full bg-blue-600 flex items-center justify-center">
-                        <User className="h-4 w-4 text-white" />
+                      {message.role === "assistant" && (
+                        <div className="flex-shrink-0 h-8 w-8 rounded-full bg-gradient-to-r from-blue-600 to-purple-600 flex items-center justify-center">
+                          <Bot className="h-4 w-4 text-white" />
+                        </div>
+                      )}
+                      <div
+                        className={cn(
+                          "rounded-lg px-4 py-2 max-w-[80%] break-words",
+                          message.role === "user"
+                            ? "bg-blue-600 text-white"
+                            : "bg-gray-100 text-gray-900 border border-gray-200",
+                        )}
+                      >
+                        {message.toolCalls && <ChatToolCalls calls={message.toolCalls} className="mb-2" />}
+                        {message.content && <p className="text-sm whitespace-pre-wrap">{message.content}</p>}
+                        <p className="text-xs opacity-70 mt-1">
+                          {message.timestamp.toLocaleTimeString([], {
+                            hour: "2-digit",
+                            minute: "2-digit",
+                          })}
+                        </p>
                       </div>
-                    )}
-                  </div>
-                ))}
-                {isLoading && (
+                      {message.role === "user" && (
+                        <div className="flex-shrink-0 h-8 w-8 rounded-full bg-blue-600 flex items-center justify-center">
+                          <User className="h-4 w-4 text-white" />
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                {awaitingReply && (
                   <div className="flex gap-3 justify-start animate-in fade-in">
                     <div className="flex-shrink-0 h-8 w-8 rounded-full bg-gradient-to-r from-blue-600 to-purple-600 flex items-center justify-center">
                       <Bot className="h-4 w-4 text-white" />
@@ -0,0 +1,205 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  ComposedChart,
+  Line,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from "recharts"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Target, RefreshCw } from "lucide-react"
+import type { AccuracyMetrics, AccuracyReport, CalibrationBin } from "@/lib/services/prediction-outcomes"
+
+const formatPercent = (value: number | null) => (value === null ? "—" : `${(value * 100).toFixed(1)}%`)
+
+const PERFECT_CALIBRATION = [
+  { confidence: 0, ideal: 0 },
+  { confidence: 100, ideal: 100 },
+]
+
+export default function PredictionAccuracyPanel() {
+  const [report, setReport] = useState<AccuracyReport | null>(null)
+  const [modelVersion, setModelVersion] = useState<string>("all")
+  const [isResolving, setIsResolving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchReport()
+  }, [])
+
+  const fetchReport = async () => {
+    try {
+      const response = await fetch("/api/predictions/accuracy")
+      if (response.ok) {
+        setReport(await response.json())
+      }
+    } catch (error) {
+      console.error("Failed to fetch prediction accuracy:", error)
+    }
+  }
+
+  const resolvePredictions = async () => {
+    setIsResolving(true)
+    setMessage(null)
+    try {
+      const response = await fetch("/api/predictions/resolve", { method: "POST" })
+      const data = await response.json()
+      setMessage(
+        response.ok
+          ? `Resolved ${data.resolved} of ${data.checked} matured predictions`
+          : data.message || data.error || "Resolution failed",
+      )
+      await fetchReport()
+    } catch (error) {
+      setMessage("Resolution failed")
+    } finally {
+      setIsResolving(false)
+    }
+  }
+
+  const calibration: CalibrationBin[] =
+    (modelVersion === "all" ? report?.calibration : report?.calibrationByModelVersion[modelVersion]) || []
+  const calibrationPoints = calibration.map((bin) => ({
+    confidence: Number((bin.meanConfidence * 100).toFixed(1)),
+    observed: Number((bin.observedAccuracy * 100).toFixed(1)),
+    count: bin.count,
+  }))
+
+  const renderTable = (title: string, groups: Record<string, AccuracyMetrics>) => (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-2">{title}</h4>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-1">Group</th>
+            <th className="py-1">Resolved</th>
+            <th className="py-1">Direction</th>
+            <th className="py-1">MAPE</th>
+            <th className="py-1">Brier</th>
+          </tr>
+        </thead>
+        <tbody>
+          {Object.entries(groups).map(([group, metrics]) => (
+            <tr key={group} className="border-t">
+              <td className="py-1 font-medium">{group}</td>
+              <td className="py-1">{metrics.resolved}</td>
+              <td className="py-1 font-mono">{formatPercent(metrics.directionalAccuracy)}</td>
+              <td className="py-1 font-mono">{formatPercent(metrics.meanAbsolutePercentError)}</td>
+              <td className="py-1 font-mono">{metrics.brierScore === null ? "—" : metrics.brierScore.toFixed(3)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Target className="h-5 w-5" />
+              Prediction Accuracy
+            </CardTitle>
+            <CardDescription>Matured predictions graded against the actual close on their target date</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={resolvePredictions} disabled={isResolving}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isResolving ? "animate-spin" : ""}`} />
+            Resolve Matured
+          </Button>
+        </div>
+        {message && <p className="text-sm text-gray-500">{message}</p>}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!report || report.overall.resolved === 0 ? (
+          <div className="text-center py-8 text-gray-500">No predictions have been graded yet</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-xs text-gray-600">Resolved</p>
+                <p className="text-xl font-bold">{report.overall.resolved}</p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-xs text-gray-600">Directional Accuracy</p>
+                <p className="text-xl font-bold">{formatPercent(report.overall.directionalAccuracy)}</p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-xs text-gray-600">Mean Abs. Price Error</p>
+                <p className="text-xl font-bold">{formatPercent(report.overall.meanAbsolutePercentError)}</p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-xs text-gray-600">Avg Stated Confidence</p>
+                <p className="text-xl font-bold">{formatPercent(report.overall.meanConfidence)}</p>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-medium text-gray-700">Calibration</h4>
+                <div className="flex flex-wrap gap-1">
+                  {["all", ...Object.keys(report.byModelVersion)].map((model) => (
+                    <Badge
+                      key={model}
+                      variant={modelVersion === model ? "default" : "outline"}
+                      className="cursor-pointer"
+                      onClick={() => setModelVersion(model)}
+                    >
+                      {model}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      type="number"
+                      dataKey="confidence"
+                      domain={[0, 100]}
+                      unit="%"
+                      name="Stated confidence"
+                      allowDuplicatedCategory={false}
+                    />
+                    <YAxis type="number" domain={[0, 100]} unit="%" />
+                    <Tooltip />
+                    <Legend />
+                    <Line
+                      data={PERFECT_CALIBRATION}
+                      dataKey="ideal"
+                      name="Perfect calibration"
+                      stroke="#9ca3af"
+                      strokeDasharray="5 5"
+                      dot={false}
+                    />
+                    <Line data={calibrationPoints} dataKey="observed" name="Observed hit rate" stroke="#8b5cf6" />
+                    <Scatter data={calibrationPoints} dataKey="observed" name="Bins" fill="#8b5cf6" />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Points above the diagonal are under-confident; points below are over-confident.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              {renderTable("By Ticker", report.byTicker)}
+              {renderTable("By Timeframe", report.byTimeframe)}
+              {renderTable("By Model Version", report.byModelVersion)}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
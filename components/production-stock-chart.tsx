@@ -1,723 +0,0 @@
-"use client"
-
-import { useState, useEffect, useMemo, useCallback } from "react"
-import {
-  LineChart,
-  Line,
-  XAxis,
-  YAxis,
-  CartesianGrid,
-  Tooltip,
-  ResponsiveContainer,
-  Brush,
-  ReferenceLine,
-  Legend,
-} from "recharts"
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Button } from "@/components/ui/button"
-import { Badge } from "@/components/ui/badge"
-import { Switch } from "@/components/ui/switch"
-import { Label } from "@/components/ui/label"
-import { Alert, AlertDescription } from "@/components/ui/alert"
-import {
-  TrendingUp,
-  TrendingDown,
-  Maximize2,
-  Minimize2,
-  RefreshCw,
-  Activity,
-  AlertCircle,
-  CheckCircle,
-  Wifi,
-  Database,
-  Shield,
-} from "lucide-react"
-import { RealTimeDataManager } from "@/lib/services/real-time-data-manager"
-import type { RealTimeMarketData } from "@/lib/services/production-market-data-client"
-
-interface ProductionStockChartProps {
-  ticker: string
-  height?: number
-  enableTechnicalIndicators?: boolean
-  enableVolumeAnalysis?: boolean
-  enableDataValidation?: boolean
-}
-
-export default function ProductionStockChart({
-  ticker,
-  height = 500,
-  enableTechnicalIndicators = true,
-  enableVolumeAnalysis = false,
-  enableDataValidation = true,
-}: ProductionStockChartProps) {
-  // Real-time data state
-  const [realTimeData, setRealTimeData] = useState<RealTimeMarketData | null>(null)
-  const [historicalData, setHistoricalData] = useState<any[]>([])
-  const [isConnected, setIsConnected] = useState(false)
-  const [isLoading, setIsLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [lastUpdate, setLastUpdate] = useState<string>("")
-  const [dataQuality, setDataQuality] = useState<any>(null)
-  const [consistencyReport, setConsistencyReport] = useState<any>(null)
-
-  // UI state
-  const [isFullscreen, setIsFullscreen] = useState(false)
-  const [activeIndicators, setActiveIndicators] = useState({
-    sma20: true,
-    sma50: true,
-    bollinger: false,
-    rsi: false,
-  })
-
-  // Data manager instance
-  const dataManager = useMemo(() => RealTimeDataManager.getInstance(), [])
-
-  // Initialize real-time data subscription
-  useEffect(() => {
-    if (!ticker) {
-      setError("No ticker symbol provided")
-      return
-    }
-
-    console.log(`Initializing production chart for ${ticker}`)
-    setIsLoading(true)
-    setError(null)
-
-    // Subscribe to real-time data
-    const unsubscribe = dataManager.subscribe(ticker, (data: RealTimeMarketData) => {
-      console.log(`Received real-time data for ${ticker}:`, data)
-
-      setRealTimeData(data)
-      setIsConnected(true)
-      setLastUpdate(new Date().toLocaleTimeString())
-      setIsLoading(false)
-      setError(null)
-
-      // Update data quality metrics
-      setDataQuality(data.dataQuality)
-
-      // Get consistency report
-      const report = dataManager.getConsistencyReport(ticker)
-      setConsistencyReport(report)
-    })
-
-    // Load historical data
-    const loadHistoricalData = async () => {
-      try {
-        console.log(`Loading historical data for ${ticker}`)
-        const historical = await dataManager.getHistoricalData(ticker, "1mo")
-
-        if (historical && historical.length > 0) {
-          setHistoricalData(historical)
-          console.log(`Loaded ${historical.length} historical data points`)
-        } else {
-          throw new Error("No historical data available")
-        }
-      } catch (err) {
-        console.error(`Failed to load historical data for ${ticker}:`, err)
-        setError(`Failed to load historical data: ${err.message}`)
-      }
-    }
-
-    loadHistoricalData()
-
-    // Set timeout for connection
-    const timeout = setTimeout(() => {
-      if (!realTimeData) {
-        setError(`Unable to establish real-time connection for ${ticker}`)
-        setIsConnected(false)
-        setIsLoading(false)
-      }
-    }, 30000) // 30 second timeout
-
-    return () => {
-      unsubscribe()
-      clearTimeout(timeout)
-    }
-  }, [ticker, dataManager])
-
-  // Calculate technical indicators from real historical data
-  const technicalData = useMemo(() => {
-    if (!historicalData.length) return []
-
-    return historicalData.map((item, index, array) => {
-      // Simple Moving Average 20
-      let sma20 = null
-      if (index >= 19) {
-        const prices = array.slice(index - 19, index + 1).map((d) => d.close)
-        sma20 = Number((prices.reduce((sum, p) => sum + p, 0) / 20).toFixed(4))
-      }
-
-      // Simple Moving Average 50
-      let sma50 = null
-      if (index >= 49) {
-        const prices = array.slice(Math.max(0, index - 49), index + 1).map((d) => d.close)
-        sma50 = Number((prices.reduce((sum, p) => sum + p, 0) / prices.length).toFixed(4))
-      }
-
-      // Bollinger Bands
-      let bbUpper = null,
-        bbLower = null,
-        bbMiddle = null
-      if (index >= 19 && sma20) {
-        const prices = array.slice(index - 19, index + 1).map((d) => d.close)
-        const variance = prices.reduce((sum, price) => sum + Math.pow(price - sma20, 2), 0) / 20
-        const stdDev = Math.sqrt(variance)
-        bbUpper = Number((sma20 + 2 * stdDev).toFixed(4))
-        bbLower = Number((sma20 - 2 * stdDev).toFixed(4))
-        bbMiddle = sma20
-      }
-
-      // RSI calculation
-      let rsi = null
-      if (index >= 14) {
-        const changes = array
-          .slice(index - 13, index + 1)
-          .map((d, i, arr) => (i === 0 ? 0 : d.close - arr[i - 1].close))
-        const gains = changes.filter((c) => c > 0).reduce((sum, c) => sum + c, 0) / 14
-        const losses = Math.abs(changes.filter((c) => c < 0).reduce((sum, c) => sum + c, 0)) / 14
-
-        if (losses !== 0) {
-          const rs = gains / losses
-          rsi = Number((100 - 100 / (1 + rs)).toFixed(2))
-        }
-      }
-
-      return {
-        ...item,
-        sma20,
-        sma50,
-        bbUpper,
-        bbLower,
-        bbMiddle,
-        rsi,
-        formattedDate: new Date(item.date).toLocaleDateString("en-US", {
-          month: "short",
-          day: "numeric",
-        }),
-        fullDate: new Date(item.date).toLocaleDateString("en-US", {
-          weekday: "long",
-          year: "numeric",
-          month: "long",
-          day: "numeric",
-        }),
-      }
-    })
-  }, [historicalData])
-
-  // Chart theme based on real market data
-  const chartTheme = useMemo(() => {
-    const isPositive = (realTimeData?.changePercent || 0) >= 0
-    return {
-      primary: isPositive ? "#10b981" : "#ef4444",
-      secondary: isPositive ? "#34d399" : "#f87171",
-      background: isPositive ? "from-green-50 to-emerald-50" : "from-red-50 to-rose-50",
-    }
-  }, [realTimeData?.changePercent])
-
-  // Enhanced tooltip with real-time data validation
-  const EnhancedTooltip = useCallback(
-    ({ active, payload, label }: any) => {
-      if (active && payload && payload.length) {
-        const data = payload[0].payload
-        return (
-          <div className="bg-white/98 backdrop-blur-sm border border-gray-200 rounded-xl shadow-2xl p-4 min-w-[320px]">
-            <div className="border-b border-gray-100 pb-2 mb-3">
-              <p className="font-bold text-gray-800 text-lg">{data?.fullDate || label}</p>
-              <div className="flex items-center gap-2">
-                <p className="text-sm text-gray-500">{ticker} • Real-Time Data</p>
-                <Shield className="h-4 w-4 text-green-500" />
-              </div>
-            </div>
-
-            <div className="space-y-2">
-              {payload.map((entry: any, index: number) => (
-                <div key={index} className="flex justify-between items-center">
-                  <div className="flex items-center gap-2">
-                    <div className="w-3 h-3 rounded-full" style={{ backgroundColor: entry.color }} />
-                    <span className="text-sm font-medium text-gray-700">{entry.name}</span>
-                  </div>
-                  <span className="text-sm font-bold text-gray-900 font-mono">${Number(entry.value).toFixed(4)}</span>
-                </div>
-              ))}
-            </div>
-
-            {data && (
-              <div className="mt-3 pt-3 border-t border-gray-100 text-xs text-gray-500 space-y-1">
-                <div className="flex justify-between">
-                  <span>Open:</span>
-                  <span className="font-medium font-mono">${Number(data.open || 0).toFixed(4)}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>High:</span>
-                  <span className="font-medium text-green-600 font-mono">${Number(data.high || 0).toFixed(4)}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>Low:</span>
-                  <span className="font-medium text-red-600 font-mono">${Number(data.low || 0).toFixed(4)}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>Volume:</span>
-                  <span className="font-medium font-mono">{(Number(data.volume || 0) / 1000000).toFixed(2)}M</span>
-                </div>
-              </div>
-            )}
-
-            <div className="mt-3 pt-2 border-t border-gray-100">
-              <div className="flex items-center justify-between text-xs">
-                <span className="text-gray-500">Data Source:</span>
-                <div className="flex items-center gap-1">
-                  <span className="font-medium text-blue-600">{realTimeData?.source || "Real-Time API"}</span>
-                  <Database className="h-3 w-3 text-blue-500" />
-                </div>
-              </div>
-            </div>
-          </div>
-        )
-      }
-      return null
-    },
-    [ticker, realTimeData],
-  )
-
-  const toggleIndicator = (indicator: keyof typeof activeIndicators) => {
-    setActiveIndicators((prev) => ({
-      ...prev,
-      [indicator]: !prev[indicator],
-    }))
-  }
-
-  const refreshData = async () => {
-    setIsLoading(true)
-    setError(null)
-
-    try {
-      // Validate all data
-      const isValid = await dataManager.validateAllData()
-      if (!isValid) {
-        throw new Error("Data validation failed")
-      }
-
-      // Reload historical data
-      const historical = await dataManager.getHistoricalData(ticker, "1mo")
-      setHistoricalData(historical)
-
-      console.log("Data refresh completed successfully")
-    } catch (err) {
-      console.error("Failed to refresh data:", err)
-      setError(`Refresh failed: ${err.message}`)
-    } finally {
-      setIsLoading(false)
-    }
-  }
-
-  // Error state
-  if (error && !realTimeData) {
-    return (
-      <Card className="w-full">
-        <CardContent className="flex items-center justify-center h-64">
-          <div className="text-center">
-            <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
-            <p className="text-red-600 font-medium">Real-Time Data Error</p>
-            <p className="text-sm text-gray-500 mb-4">{error}</p>
-            <Button variant="outline" size="sm" onClick={refreshData} disabled={isLoading}>
-              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
-              Retry Connection
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
-    )
-  }
-
-  // Loading state
-  if (isLoading && !realTimeData) {
-    return (
-      <Card className="w-full">
-        <CardContent className="flex items-center justify-center h-64">
-          <div className="text-center">
-            <RefreshCw className="h-12 w-12 text-blue-500 mx-auto mb-4 animate-spin" />
-            <p className="text-blue-600 font-medium">Connecting to Real-Time Data</p>
-            <p className="text-sm text-gray-500">Establishing secure connection for {ticker}...</p>
-          </div>
-        </CardContent>
-      </Card>
-    )
-  }
-
-  return (
-    <Card className={`w-full transition-all duration-300 ${isFullscreen ? "fixed inset-4 z-50" : ""}`}>
-      <CardHeader className={`bg-gradient-to-r ${chartTheme.background} transition-all duration-300`}>
-        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
-          <div className="space-y-2">
-            <CardTitle className="text-2xl flex items-center gap-3">
-              <div className="p-2 rounded-lg bg-white/80 backdrop-blur-sm">
-                <Activity className="h-6 w-6" style={{ color: chartTheme.primary }} />
-              </div>
-              <span className="bg-gradient-to-r from-gray-800 to-gray-600 bg-clip-text text-transparent">
-                {ticker} Production Chart
-              </span>
-              <Badge variant="default" className="bg-green-600">
-                100% Real Data
-              </Badge>
-            </CardTitle>
-            <div className="flex items-center gap-4 text-sm text-gray-600">
-              <div className="flex items-center gap-1">
-                <Wifi className={`h-4 w-4 ${isConnected ? "text-green-500" : "text-red-500"}`} />
-                <span>{isConnected ? "Live Connection" : "Disconnected"}</span>
-              </div>
-              {realTimeData?.source && (
-                <div className="flex items-center gap-1">
-                  <Database className="h-4 w-4 text-blue-500" />
-                  <span>{realTimeData.source}</span>
-                </div>
-              )}
-              {lastUpdate && <span>Updated: {lastUpdate}</span>}
-            </div>
-          </div>
-
-          {/* Real-time price display */}
-          {realTimeData && (
-            <div className="flex items-center gap-6">
-              <div className="text-right space-y-1">
-                <div className="text-3xl font-bold text-gray-800 transition-all duration-300 font-mono">
-                  ${realTimeData.price.toFixed(4)}
-                </div>
-                <div
-                  className={`flex items-center gap-1 text-sm font-semibold transition-all duration-300 ${
-                    realTimeData.changePercent >= 0 ? "text-green-600" : "text-red-600"
-                  }`}
-                >
-                  {realTimeData.changePercent >= 0 ? (
-                    <TrendingUp className="h-4 w-4 animate-pulse" />
-                  ) : (
-                    <TrendingDown className="h-4 w-4 animate-pulse" />
-                  )}
-                  {realTimeData.changePercent >= 0 ? "+" : ""}
-                  {realTimeData.changePercent.toFixed(4)}%
-                </div>
-              </div>
-
-              <Badge
-                variant={realTimeData.changePercent >= 0 ? "default" : "destructive"}
-                className="px-3 py-1 text-sm font-medium"
-              >
-                {realTimeData.changePercent >= 0 ? "Bullish" : "Bearish"}
-              </Badge>
-            </div>
-          )}
-        </div>
-      </CardHeader>
-
-      <CardContent className="p-6 space-y-6">
-        {/* Data validation alerts */}
-        {enableDataValidation && consistencyReport && consistencyReport.issues.length > 0 && (
-          <Alert>
-            <AlertCircle className="h-4 w-4" />
-            <AlertDescription>Data consistency issues detected: {consistencyReport.issues.join(", ")}</AlertDescription>
-          </Alert>
-        )}
-
-        {/* Technical indicators controls */}
-        {enableTechnicalIndicators && (
-          <div className="flex flex-wrap gap-4">
-            <div className="flex items-center space-x-2">
-              <Switch id="sma20" checked={activeIndicators.sma20} onCheckedChange={() => toggleIndicator("sma20")} />
-              <Label htmlFor="sma20" className="text-sm font-medium cursor-pointer">
-                SMA 20
-              </Label>
-            </div>
-            <div className="flex items-center space-x-2">
-              <Switch id="sma50" checked={activeIndicators.sma50} onCheckedChange={() => toggleIndicator("sma50")} />
-              <Label htmlFor="sma50" className="text-sm font-medium cursor-pointer">
-                SMA 50
-              </Label>
-            </div>
-            <div className="flex items-center space-x-2">
-              <Switch
-                id="bollinger"
-                checked={activeIndicators.bollinger}
-                onCheckedChange={() => toggleIndicator("bollinger")}
-              />
-              <Label htmlFor="bollinger" className="text-sm font-medium cursor-pointer">
-                Bollinger Bands
-              </Label>
-            </div>
-            <div className="flex items-center space-x-2">
-              <Switch id="rsi" checked={activeIndicators.rsi} onCheckedChange={() => toggleIndicator("rsi")} />
-              <Label htmlFor="rsi" className="text-sm font-medium cursor-pointer">
-                RSI
-              </Label>
-            </div>
-          </div>
-        )}
-
-        {/* Chart controls */}
-        <div className="flex justify-between items-center">
-          <div className="flex gap-2">
-            <Button variant="outline" size="sm" onClick={refreshData} disabled={isLoading}>
-              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
-              Refresh
-            </Button>
-            <Button variant="outline" size="sm" onClick={() => setIsFullscreen(!isFullscreen)}>
-              {isFullscreen ? <Minimize2 className="h-4 w-4" /> : <Maximize2 className="h-4 w-4" />}
-            </Button>
-          </div>
-
-          {dataQuality && (
-            <div className="flex items-center gap-2 text-sm">
-              <span className="text-gray-500">Quality:</span>
-              <Badge variant={dataQuality.accuracy >= 99 ? "default" : "secondary"}>
-                {dataQuality.accuracy.toFixed(1)}%
-              </Badge>
-            </div>
-          )}
-        </div>
-
-        {/* Chart */}
-        <div style={{ height: isFullscreen ? "calc(100vh - 400px)" : height }}>
-          {technicalData.length > 0 ? (
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={technicalData} margin={{ top: 20, right: 30, left: 20, bottom: 60 }}>
-                <defs>
-                  <linearGradient id="priceGradient" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="5%" stopColor={chartTheme.primary} stopOpacity={0.3} />
-                    <stop offset="95%" stopColor={chartTheme.primary} stopOpacity={0} />
-                  </linearGradient>
-                </defs>
-
-                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" opacity={0.6} />
-                <XAxis
-                  dataKey="formattedDate"
-                  tick={{ fontSize: 12, fill: "#6b7280" }}
-                  interval="preserveStartEnd"
-                  minTickGap={30}
-                />
-                <YAxis
-                  tick={{ fontSize: 12, fill: "#6b7280" }}
-                  tickFormatter={(value) => `$${Number(value).toFixed(2)}`}
-                  domain={["dataMin * 0.995", "dataMax * 1.005"]}
-                />
-                <Tooltip content={<EnhancedTooltip />} />
-                <Legend />
-
-                {/* Current price reference line */}
-                {realTimeData && (
-                  <ReferenceLine
-                    y={realTimeData.price}
-                    stroke={chartTheme.primary}
-                    strokeDasharray="8 4"
-                    strokeWidth={2}
-                    label={{
-                      value: `Live: $${realTimeData.price.toFixed(4)}`,
-                      position: "topRight",
-                      style: { fontSize: 12, fontWeight: "bold", fill: chartTheme.primary },
-                    }}
-                  />
-                )}
-
-                {/* Bollinger Bands */}
-                {activeIndicators.bollinger && (
-                  <>
-                    <Line
-                      type="monotone"
-                      dataKey="bbUpper"
-                      name="BB Upper"
-                      stroke="#9ca3af"
-                      strokeWidth={1}
-                      dot={false}
-                      strokeDasharray="2 2"
-                      connectNulls={false}
-                    />
-                    <Line
-                      type="monotone"
-                      dataKey="bbLower"
-                      name="BB Lower"
-                      stroke="#9ca3af"
-                      strokeWidth={1}
-                      dot={false}
-                      strokeDasharray="2 2"
-                      connectNulls={false}
-                    />
-                  </>
-                )}
-
-                {/* Price line */}
-                <Line
-                  type="monotone"
-                  dataKey="close"
-                  name="Price"
-                  stroke={chartTheme.primary}
-                  strokeWidth={3}
-                  dot={false}
-                  activeDot={{
-                    r: 8,
-                    stroke: chartTheme.primary,
-                    strokeWidth: 3,
-                    fill: "#fff",
-                  }}
-                />
-
-                {/* Moving averages */}
-                {activeIndicators.sma20 && (
-                  <Line
-                    type="monotone"
-                    dataKey="sma20"
-                    name="SMA 20"
-                    stroke="#f59e0b"
-                    strokeWidth={2}
-                    dot={false}
-                    strokeDasharray="6 3"
-                    connectNulls={false}
-                  />
-                )}
-                {activeIndicators.sma50 && (
-                  <Line
-                    type="monotone"
-                    dataKey="sma50"
-                    name="SMA 50"
-                    stroke="#8b5cf6"
-                    strokeWidth={2}
-                    dot={false}
-                    strokeDasharray="4 4"
-                    connectNulls={false}
-                  />
-                )}
-
-                {/* Brush for zooming */}
-                <Brush dataKey="formattedDate" height={30} stroke={chartTheme.primary} />
-              </LineChart>
-            </ResponsiveContainer>
-          ) : (
-            <div className="flex items-center justify-center h-full">
-              <div className="text-center">
-                <RefreshCw className="h-8 w-8 text-gray-400 mx-auto mb-2 animate-spin" />
-                <p className="text-gray-500">Loading real-time chart data...</p>
-              </div>
-            </div>
-          )}
-        </div>
-
-        {/* Real-time statistics */}
-        {realTimeData && (
-          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
-            <div className="bg-gradient-to-br from-blue-50 to-blue-100 p-4 rounded-xl border border-blue-200">
-              <div className="text-xs text-blue-600 font-medium mb-1">Current Price</div>
-              <div className="text-lg font-bold text-blue-900 font-mono">${realTimeData.price.toFixed(4)}</div>
-            </div>
-
-            <div
-              className={`bg-gradient-to-br p-4 rounded-xl border ${
-                realTimeData.changePercent >= 0
-                  ? "from-green-50 to-green-100 border-green-200"
-                  : "from-red-50 to-red-100 border-red-200"
-              }`}
-            >
-              <div
-                className={`text-xs font-medium mb-1 ${
-                  realTimeData.changePercent >= 0 ? "text-green-600" : "text-red-600"
-                }`}
-              >
-                Change
-              </div>
-              <div
-                className={`text-lg font-bold font-mono ${
-                  realTimeData.changePercent >= 0 ? "text-green-900" : "text-red-900"
-                }`}
-              >
-                {realTimeData.changePercent >= 0 ? "+" : ""}
-                {realTimeData.changePercent.toFixed(4)}%
-              </div>
-            </div>
-
-            <div className="bg-gradient-to-br from-emerald-50 to-emerald-100 p-4 rounded-xl border border-emerald-200">
-              <div className="text-xs text-emerald-600 font-medium mb-1">Day High</div>
-              <div className="text-lg font-bold text-emerald-900 font-mono">${realTimeData.high.toFixed(4)}</div>
-            </div>
-
-            <div className="bg-gradient-to-br from-rose-50 to-rose-100 p-4 rounded-xl border border-rose-200">
-              <div className="text-xs text-rose-600 font-medium mb-1">Day Low</div>
-              <div className="text-lg font-bold text-rose-900 font-mono">${realTimeData.low.toFixed(4)}</div>
-            </div>
-
-            <div className="bg-gradient-to-br from-purple-50 to-purple-100 p-4 rounded-xl border border-purple-200">
-              <div className="text-xs text-purple-600 font-medium mb-1">Volume</div>
-              <div className="text-lg font-bold text-purple-900 font-mono">
-                {(realTimeData.volume / 1000000).toFixed(2)}M
-              </div>
-            </div>
-
-            <div className="bg-gradient-to-br from-amber-50 to-amber-100 p-4 rounded-xl border border-amber-200">
-              <div className="text-xs text-amber-600 font-medium mb-1">Source</div>
-              <div className="text-lg font-bold text-amber-900">{realTimeData.source}</div>
-            </div>
-          </div>
-        )}
-
-        {/* Data quality and validation report */}
-        <div className={`p-6 rounded-xl border transition-all duration-300 bg-gradient-to-r ${chartTheme.background}`}>
-          <h4 className="font-bold text-gray-800 mb-3 flex items-center gap-2">
-            <Shield className="h-5 w-5" style={{ color: chartTheme.primary }} />
-            Real-Time Data Validation Report
-          </h4>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
-            <div className="space-y-2">
-              <div className="flex justify-between items-center">
-                <span className="text-gray-600">Data Type:</span>
-                <Badge variant="default" className="text-xs bg-green-600">
-                  100% Real-Time
-                </Badge>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-gray-600">Source:</span>
-                <span className="font-semibold font-mono">{realTimeData?.source || "API"}</span>
-              </div>
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex justify-between">
-                <span className="text-gray-600">Accuracy:</span>
-                <span className="font-semibold text-green-600 font-mono">
-                  {dataQuality?.accuracy?.toFixed(2) || "99.9"}%
-                </span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-gray-600">Latency:</span>
-                <span className="font-semibold text-blue-600 font-mono">{dataQuality?.latency || "< 100"}ms</span>
-              </div>
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex justify-between">
-                <span className="text-gray-600">Consistency:</span>
-                <span className="font-semibold text-green-600">{consistencyReport?.consistency || 100}%</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-gray-600">Data Points:</span>
-                <span className="font-semibold font-mono">{technicalData.length}</span>
-              </div>
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex justify-between">
-                <span className="text-gray-600">Status:</span>
-                <div className="flex items-center gap-1">
-                  <CheckCircle className="h-4 w-4 text-green-500" />
-                  <span className="font-semibold text-green-600">Validated</span>
-                </div>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-gray-600">Last Check:</span>
-                <span className="font-semibold text-blue-600 text-xs">
-                  {consistencyReport?.lastValidation
-                    ? new Date(consistencyReport.lastValidation).toLocaleTimeString()
-                    : "Just now"}
-                </span>
-              </div>
-            </div>
-          </div>
-        </div>
-      </CardContent>
-    </Card>
-  )
-}
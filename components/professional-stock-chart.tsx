@@ -1,418 +0,0 @@
-"use client"
-
-import { useState, useMemo } from "react"
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Button } from "@/components/ui/button"
-import {
-  Line,
-  LineChart,
-  XAxis,
-  YAxis,
-  CartesianGrid,
-  Tooltip,
-  ResponsiveContainer,
-  Area,
-  AreaChart,
-  Legend,
-  ReferenceLine,
-  Bar,
-  BarChart,
-} from "recharts"
-import { TrendingUp, TrendingDown, BarChart3, Activity, Download } from "lucide-react"
-
-interface ProfessionalStockChartProps {
-  ticker: string
-  historicalData?: {
-    date: string
-    price: number
-    volume: number
-    open: number
-    high: number
-    low: number
-    close: number
-  }[]
-  currentPrice?: number
-  targetPrice?: number
-}
-
-export default function ProfessionalStockChart({
-  ticker,
-  historicalData,
-  currentPrice,
-  targetPrice,
-}: ProfessionalStockChartProps) {
-  const [chartType, setChartType] = useState<"line" | "area" | "candlestick" | "volume">("line")
-  const [timeframe, setTimeframe] = useState<"1M" | "3M" | "6M" | "1Y">("3M")
-
-  // Generate realistic historical data if not provided
-  const processedData = useMemo(() => {
-    let data = historicalData
-
-    if (!data || data.length === 0) {
-      // Generate realistic data based on ticker
-      const basePrice = currentPrice || 100
-      const days = timeframe === "1M" ? 30 : timeframe === "3M" ? 90 : timeframe === "6M" ? 180 : 365
-
-      data = Array.from({ length: days }, (_, i) => {
-        const date = new Date()
-        date.setDate(date.getDate() - (days - 1 - i))
-
-        // Create realistic price movement with trends
-        const progress = i / days
-        const trend = ticker === "RIVN" ? -0.3 : ticker === "META" ? 0.2 : 0.1 // Different trends per stock
-        const volatility = ticker === "RIVN" ? 0.08 : ticker === "TSLA" ? 0.06 : 0.04
-
-        const trendPrice = basePrice * (1 + trend * progress)
-        const noise = (Math.random() - 0.5) * volatility * basePrice
-        const price = Math.max(0.01, trendPrice + noise)
-
-        return {
-          date: date.toISOString().split("T")[0],
-          price: Number(price.toFixed(2)),
-          volume: Math.floor(Math.random() * 100000000) + 10000000,
-          open: Number((price * 0.995).toFixed(2)),
-          high: Number((price * 1.02).toFixed(2)),
-          low: Number((price * 0.98).toFixed(2)),
-          close: Number(price.toFixed(2)),
-        }
-      })
-    }
-
-    // Calculate technical indicators
-    return data.map((item, index, array) => {
-      // Simple Moving Averages
-      const sma20 =
-        index >= 19 ? array.slice(index - 19, index + 1).reduce((sum, val) => sum + val.close, 0) / 20 : null
-      const sma50 =
-        index >= 49 ? array.slice(index - 49, index + 1).reduce((sum, val) => sum + val.close, 0) / 50 : null
-
-      // Exponential Moving Average (EMA)
-      const ema12 = index === 0 ? item.close : array[index - 1].close * 0.85 + item.close * 0.15
-
-      // Bollinger Bands
-      const bb20 = sma20
-        ? {
-            middle: sma20,
-            upper:
-              sma20 +
-              2 *
-                Math.sqrt(
-                  array.slice(index - 19, index + 1).reduce((sum, val) => sum + Math.pow(val.close - sma20, 2), 0) / 20,
-                ),
-            lower:
-              sma20 -
-              2 *
-                Math.sqrt(
-                  array.slice(index - 19, index + 1).reduce((sum, val) => sum + Math.pow(val.close - sma20, 2), 0) / 20,
-                ),
-          }
-        : null
-
-      return {
-        ...item,
-        sma20: sma20 ? Number(sma20.toFixed(2)) : null,
-        sma50: sma50 ? Number(sma50.toFixed(2)) : null,
-        ema12: Number(ema12.toFixed(2)),
-        bbUpper: bb20 ? Number(bb20.upper.toFixed(2)) : null,
-        bbLower: bb20 ? Number(bb20.lower.toFixed(2)) : null,
-        formattedDate: new Date(item.date).toLocaleDateString("en-US", {
-          month: "short",
-          day: "numeric",
-        }),
-      }
-    })
-  }, [historicalData, currentPrice, ticker, timeframe])
-
-  // Calculate price statistics
-  const priceStats = useMemo(() => {
-    if (!processedData.length) return null
-
-    const prices = processedData.map((d) => d.close)
-    const volumes = processedData.map((d) => d.volume)
-
-    const minPrice = Math.min(...prices)
-    const maxPrice = Math.max(...prices)
-    const avgPrice = prices.reduce((sum, price) => sum + price, 0) / prices.length
-    const avgVolume = volumes.reduce((sum, vol) => sum + vol, 0) / volumes.length
-
-    const firstPrice = prices[0]
-    const lastPrice = prices[prices.length - 1]
-    const priceChange = lastPrice - firstPrice
-    const priceChangePercent = (priceChange / firstPrice) * 100
-
-    return {
-      minPrice,
-      maxPrice,
-      avgPrice,
-      avgVolume,
-      priceChange,
-      priceChangePercent,
-      isPositive: priceChange >= 0,
-    }
-  }, [processedData])
-
-  // Custom tooltip
-  const CustomTooltip = ({ active, payload, label }: any) => {
-    if (active && payload && payload.length) {
-      return (
-        <div className="bg-white p-4 border border-gray-200 rounded-lg shadow-lg min-w-[200px]">
-          <p className="font-semibold text-gray-800 mb-2">
-            {new Date(label).toLocaleDateString("en-US", {
-              weekday: "short",
-              month: "short",
-              day: "numeric",
-              year: "numeric",
-            })}
-          </p>
-          {payload.map((entry: any, index: number) => (
-            <div key={index} className="flex justify-between items-center py-1">
-              <span style={{ color: entry.color }} className="text-sm font-medium">
-                {entry.name}:
-              </span>
-              <span className="text-sm font-semibold ml-2">
-                {entry.name === "Volume" ? new Intl.NumberFormat().format(entry.value) : `$${entry.value?.toFixed(2)}`}
-              </span>
-            </div>
-          ))}
-        </div>
-      )
-    }
-    return null
-  }
-
-  const exportChart = () => {
-    // In a real implementation, this would export the chart as PNG/PDF
-    console.log("Exporting chart data for", ticker)
-  }
-
-  return (
-    <Card className="w-full shadow-lg">
-      <CardHeader className="pb-4">
-        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
-          <div>
-            <CardTitle className="text-xl flex items-center gap-2">
-              <BarChart3 className="h-6 w-6 text-blue-600" />
-              {ticker} Professional Chart Analysis
-            </CardTitle>
-            <CardDescription className="mt-1">Advanced technical analysis with professional indicators</CardDescription>
-          </div>
-
-          <div className="flex flex-col sm:flex-row gap-3">
-            {/* Timeframe Selection */}
-            <Tabs value={timeframe} onValueChange={(value) => setTimeframe(value as any)}>
-              <TabsList className="grid grid-cols-4">
-                <TabsTrigger value="1M">1M</TabsTrigger>
-                <TabsTrigger value="3M">3M</TabsTrigger>
-                <TabsTrigger value="6M">6M</TabsTrigger>
-                <TabsTrigger value="1Y">1Y</TabsTrigger>
-              </TabsList>
-            </Tabs>
-
-            {/* Chart Type Selection */}
-            <Tabs value={chartType} onValueChange={(value) => setChartType(value as any)}>
-              <TabsList className="grid grid-cols-4">
-                <TabsTrigger value="line">Line</TabsTrigger>
-                <TabsTrigger value="area">Area</TabsTrigger>
-                <TabsTrigger value="candlestick">Candle</TabsTrigger>
-                <TabsTrigger value="volume">Volume</TabsTrigger>
-              </TabsList>
-            </Tabs>
-
-            <Button variant="outline" size="sm" onClick={exportChart}>
-              <Download className="h-4 w-4 mr-2" />
-              Export
-            </Button>
-          </div>
-        </div>
-
-        {/* Price Statistics */}
-        {priceStats && (
-          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mt-4 p-4 bg-gray-50 rounded-lg">
-            <div className="text-center">
-              <div className="text-xs text-gray-500 mb-1">Period Change</div>
-              <div
-                className={`font-semibold flex items-center justify-center gap-1 ${
-                  priceStats.isPositive ? "text-green-600" : "text-red-600"
-                }`}
-              >
-                {priceStats.isPositive ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
-                {priceStats.priceChangePercent.toFixed(2)}%
-              </div>
-            </div>
-            <div className="text-center">
-              <div className="text-xs text-gray-500 mb-1">Range High</div>
-              <div className="font-semibold text-green-600">${priceStats.maxPrice.toFixed(2)}</div>
-            </div>
-            <div className="text-center">
-              <div className="text-xs text-gray-500 mb-1">Range Low</div>
-              <div className="font-semibold text-red-600">${priceStats.minPrice.toFixed(2)}</div>
-            </div>
-            <div className="text-center">
-              <div className="text-xs text-gray-500 mb-1">Average Price</div>
-              <div className="font-semibold text-gray-700">${priceStats.avgPrice.toFixed(2)}</div>
-            </div>
-            <div className="text-center">
-              <div className="text-xs text-gray-500 mb-1">Avg Volume</div>
-              <div className="font-semibold text-gray-700">{(priceStats.avgVolume / 1000000).toFixed(1)}M</div>
-            </div>
-          </div>
-        )}
-      </CardHeader>
-
-      <CardContent>
-        <div className="h-[500px] w-full">
-          {chartType === "line" && (
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={processedData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                <XAxis dataKey="formattedDate" tick={{ fontSize: 12 }} interval="preserveStartEnd" minTickGap={30} />
-                <YAxis
-                  tick={{ fontSize: 12 }}
-                  tickFormatter={(value) => `$${value.toFixed(0)}`}
-                  domain={["dataMin * 0.95", "dataMax * 1.05"]}
-                />
-                <Tooltip content={<CustomTooltip />} />
-                <Legend />
-
-                {/* Reference lines */}
-                {currentPrice && (
-                  <ReferenceLine
-                    y={currentPrice}
-                    stroke="#2563eb"
-                    strokeDasharray="5 5"
-                    strokeWidth={2}
-                    label={{
-                      value: `Current: $${currentPrice.toFixed(2)}`,
-                      position: "topRight",
-                      style: { fontSize: 12, fontWeight: "bold" },
-                    }}
-                  />
-                )}
-                {targetPrice && (
-                  <ReferenceLine
-                    y={targetPrice}
-                    stroke="#10b981"
-                    strokeDasharray="5 5"
-                    strokeWidth={2}
-                    label={{
-                      value: `Target: $${targetPrice.toFixed(2)}`,
-                      position: "topRight",
-                      style: { fontSize: 12, fontWeight: "bold" },
-                    }}
-                  />
-                )}
-
-                {/* Price line */}
-                <Line
-                  type="monotone"
-                  dataKey="close"
-                  name="Price"
-                  stroke="#2563eb"
-                  strokeWidth={3}
-                  dot={false}
-                  activeDot={{ r: 6, stroke: "#2563eb", strokeWidth: 2, fill: "#fff" }}
-                />
-
-                {/* Technical indicators */}
-                <Line
-                  type="monotone"
-                  dataKey="sma20"
-                  name="SMA 20"
-                  stroke="#10b981"
-                  strokeWidth={2}
-                  dot={false}
-                  strokeDasharray="5 5"
-                  connectNulls={false}
-                />
-                <Line
-                  type="monotone"
-                  dataKey="sma50"
-                  name="SMA 50"
-                  stroke="#8b5cf6"
-                  strokeWidth={2}
-                  dot={false}
-                  strokeDasharray="3 3"
-                  connectNulls={false}
-                />
-                <Line
-                  type="monotone"
-                  dataKey="ema12"
-                  name="EMA 12"
-                  stroke="#f59e0b"
-                  strokeWidth={1.5}
-                  dot={false}
-                  connectNulls={false}
-                />
-              </LineChart>
-            </ResponsiveContainer>
-          )}
-
-          {chartType === "area" && (
-            <ResponsiveContainer width="100%" height="100%">
-              <AreaChart data={processedData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
-                <defs>
-                  <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="5%" stopColor="#2563eb" stopOpacity={0.8} />
-                    <stop offset="95%" stopColor="#2563eb" stopOpacity={0.1} />
-                  </linearGradient>
-                </defs>
-                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                <XAxis dataKey="formattedDate" tick={{ fontSize: 12 }} />
-                <YAxis tick={{ fontSize: 12 }} tickFormatter={(value) => `$${value.toFixed(0)}`} />
-                <Tooltip content={<CustomTooltip />} />
-                <Legend />
-
-                <Area
-                  type="monotone"
-                  dataKey="close"
-                  name="Price"
-                  stroke="#2563eb"
-                  strokeWidth={2}
-                  fillOpacity={1}
-                  fill="url(#colorPrice)"
-                />
-              </AreaChart>
-            </ResponsiveContainer>
-          )}
-
-          {chartType === "volume" && (
-            <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={processedData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                <XAxis dataKey="formattedDate" tick={{ fontSize: 12 }} />
-                <YAxis tick={{ fontSize: 12 }} tickFormatter={(value) => `${(value / 1000000).toFixed(1)}M`} />
-                <Tooltip content={<CustomTooltip />} />
-                <Legend />
-                <Bar dataKey="volume" name="Volume" fill="#6366f1" opacity={0.8} />
-              </BarChart>
-            </ResponsiveContainer>
-          )}
-        </div>
-
-        {/* Technical Analysis Summary */}
-        <div className="mt-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
-          <h4 className="font-semibold text-gray-700 mb-2 flex items-center gap-2">
-            <Activity className="h-4 w-4" />
-            Technical Analysis Summary
-          </h4>
-          <div className="text-sm text-gray-700 space-y-1">
-            <p>
-              <strong>Trend Analysis:</strong> {priceStats?.isPositive ? "Bullish" : "Bearish"} trend over the selected
-              period with {priceStats?.priceChangePercent.toFixed(2)}% price movement.
-            </p>
-            <p>
-              <strong>Support/Resistance:</strong> Key support at ${priceStats?.minPrice.toFixed(2)}, resistance at $
-              {priceStats?.maxPrice.toFixed(2)}.
-            </p>
-            <p>
-              <strong>Volume Analysis:</strong> Average daily volume of{" "}
-              {((priceStats?.avgVolume || 0) / 1000000).toFixed(1)}M shares indicates{" "}
-              {(priceStats?.avgVolume || 0) > 20000000 ? "high" : "moderate"} liquidity.
-            </p>
-          </div>
-        </div>
-      </CardContent>
-    </Card>
-  )
-}
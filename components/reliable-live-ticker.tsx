@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { TrendingUp, TrendingDown, RefreshCw, Wifi } from "lucide-react"
 import { fetchLiveMarketData, fetchLiveCryptoData, type CryptoData } from "@/lib/api"
+import { RealTimeManager, type StockUpdate } from "@/lib/real-time/real-time-manager"
 import {
   Carousel,
   CarouselContent,
@@ -87,23 +88,57 @@ export default function ReliableLiveTicker({ currentAnalyzedTicker, currentPrice
     }
   }
 
-  // Initial load and periodic refresh based on mode
+  // One snapshot for names, market caps and the symbol list; prices then follow the shared quote stream
   useEffect(() => {
     if (mode === "stock") {
       loadMarketData()
-      const intervalId = setInterval(() => {
-        loadMarketData()
-      }, 30000) // 30 seconds
-      return () => clearInterval(intervalId)
     } else {
       loadCryptoData()
-      const intervalId = setInterval(() => {
-        loadCryptoData()
-      }, 30000) // 30 seconds
-      return () => clearInterval(intervalId)
     }
   }, [mode])
 
+  // Crypto is quoted against USD on the stream, e.g. BTC-USD
+  const symbolKey =
+    mode === "stock"
+      ? [...(marketData?.stocks ?? []), ...(marketData?.etfs ?? [])].map((quote) => quote.ticker).join(",")
+      : (cryptoData ?? []).map((crypto) => `${crypto.symbol}-USD`).join(",")
+
+  useEffect(() => {
+    if (!symbolKey) return
+    const manager = RealTimeManager.getInstance()
+
+    const applyUpdate = (update: StockUpdate) => {
+      const merge = <T extends { price: number; change: number; changePercent: number; volume: number }>(
+        quote: T,
+      ): T => ({
+        ...quote,
+        price: update.price,
+        change: update.change,
+        changePercent: update.changePercent,
+        volume: update.volume,
+      })
+      setMarketData((prev) =>
+        prev && {
+          ...prev,
+          stocks: prev.stocks.map((stock) => (stock.ticker === update.ticker ? merge(stock) : stock)),
+          etfs: prev.etfs.map((etf) => (etf.ticker === update.ticker ? merge(etf) : etf)),
+        },
+      )
+      setCryptoData((prev) =>
+        prev && prev.map((crypto) => (`${crypto.symbol}-USD` === update.ticker ? merge(crypto) : crypto)),
+      )
+      setLastUpdated(update.timestamp)
+    }
+
+    const unsubscribers = symbolKey.split(",").map((symbol) => manager.subscribe(symbol, applyUpdate))
+    setIsLive(manager.getConnectionStatus())
+    const stopWatching = manager.onConnectionChange(setIsLive)
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe())
+      stopWatching()
+    }
+  }, [symbolKey])
+
   // Auto-rotation for carousel
   useEffect(() => {
     if (!api) {
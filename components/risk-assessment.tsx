@@ -16,30 +16,18 @@ import {
   Bar,
   BarChart,
   ReferenceLine,
+  Legend,
 } from "recharts"
+import type { RiskReport } from "@/lib/analysis/risk-analytics"
+import { safeCurrency } from "@/lib/utils/safe-formatters"
 
 interface RiskAssessmentProps {
-  data: {
-    volatility: number
-    var: number
-    sharpeRatio: number
-    maxDrawdown: number
-    correlations: {
-      spy: number
-      sector: number
-      competitors: number
-    }
-    stressTest: {
-      scenario: string
-      impact: number
-    }[]
-    historicalVolatility: {
-      date: string
-      volatility: number
-    }[]
-  }
+  data: RiskReport & { riskScore?: number }
 }
 
+const formatPercent = (value: number | null | undefined, digits = 1) =>
+  value === null || value === undefined ? "—" : `${(value * 100).toFixed(digits)}%`
+
 export default function RiskAssessment({ data }: RiskAssessmentProps) {
   const getVolatilityLevel = (volatility: number) => {
     if (volatility > 0.3) return { level: "High", color: "bg-red-500" }
@@ -54,7 +42,8 @@ export default function RiskAssessment({ data }: RiskAssessmentProps) {
     return { rating: "Poor", color: "bg-red-500" }
   }
 
-  const getCorrelationLevel = (correlation: number) => {
+  const getCorrelationLevel = (correlation: number | null) => {
+    if (correlation === null) return { level: "Unknown", color: "text-gray-500" }
     if (correlation > 0.7) return { level: "High", color: "text-red-500" }
     if (correlation > 0.4) return { level: "Medium", color: "text-yellow-600" }
     return { level: "Low", color: "text-green-500" }
@@ -62,6 +51,14 @@ export default function RiskAssessment({ data }: RiskAssessmentProps) {
 
   const volatilityLevel = getVolatilityLevel(data.volatility)
   const sharpeRating = getSharpeRating(data.sharpeRatio)
+  const benchmarkRows = [
+    { label: "S&P 500 (SPY)", relation: data.benchmarks.spy, scope: "market" },
+    {
+      label: data.benchmarks.sector ? `Sector (${data.benchmarks.sector.symbol})` : "Sector ETF",
+      relation: data.benchmarks.sector,
+      scope: "sector",
+    },
+  ]
 
   return (
     <div className="space-y-6">
@@ -93,10 +90,12 @@ export default function RiskAssessment({ data }: RiskAssessmentProps) {
           <CardContent className="space-y-4">
             <div className="text-center">
               <div className="text-3xl font-bold mb-2">{(data.var * 100).toFixed(1)}%</div>
-              <Badge variant="outline">95% Confidence</Badge>
+              <Badge variant="outline">95% Historical</Badge>
             </div>
             <Progress value={data.var * 100} className="h-3" />
-            <p className="text-sm text-gray-600 text-center">Maximum expected loss over 1 day</p>
+            <p className="text-sm text-gray-600 text-center">
+              One-day loss exceeded on 5% of the last {data.lookbackDays} sessions
+            </p>
           </CardContent>
         </Card>
 
@@ -131,18 +130,78 @@ export default function RiskAssessment({ data }: RiskAssessmentProps) {
               <Badge variant="destructive">Peak to Trough</Badge>
             </div>
             <Progress value={data.maxDrawdown * 100} className="h-3" />
-            <p className="text-sm text-gray-600 text-center">Largest historical decline</p>
+            <p className="text-sm text-gray-600 text-center">
+              {data.drawdown.peakDate && data.drawdown.troughDate
+                ? `${data.drawdown.peakDate} → ${data.drawdown.troughDate}${
+                    data.drawdown.recoveryDate ? `, recovered ${data.drawdown.recoveryDate}` : ", not yet recovered"
+                  }`
+                : "No decline over the lookback"}
+            </p>
           </CardContent>
         </Card>
       </div>
 
       <Tabs defaultValue="correlations" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
+          <TabsTrigger value="var">Value at Risk</TabsTrigger>
           <TabsTrigger value="correlations">Correlations</TabsTrigger>
           <TabsTrigger value="stress">Stress Test</TabsTrigger>
           <TabsTrigger value="volatility">Volatility Trend</TabsTrigger>
         </TabsList>
 
+        <TabsContent value="var">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Shield className="h-5 w-5" />
+                One-Day Value at Risk
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2">Confidence</th>
+                    <th className="py-2">Historical VaR</th>
+                    <th className="py-2">Historical CVaR</th>
+                    <th className="py-2">Parametric VaR</th>
+                    <th className="py-2">Parametric CVaR</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.valueAtRisk.map((level) => (
+                    <tr key={level.confidence} className="border-t">
+                      <td className="py-2 font-medium">{(level.confidence * 100).toFixed(0)}%</td>
+                      <td className="py-2 font-mono">{formatPercent(level.historical.var, 2)}</td>
+                      <td className="py-2 font-mono">{formatPercent(level.historical.cvar, 2)}</td>
+                      <td className="py-2 font-mono">{formatPercent(level.parametric.var, 2)}</td>
+                      <td className="py-2 font-mono">{formatPercent(level.parametric.cvar, 2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500">
+                Historical figures come from the worst of the last {data.lookbackDays} daily returns; parametric
+                figures assume normally distributed returns. CVaR is the average loss on days beyond VaR. A historical
+                number well above its parametric counterpart signals fat tails.
+              </p>
+              {data.position && (
+                <div className="rounded-lg bg-gray-50 p-3 text-sm">
+                  <div className="font-medium">
+                    Your position: {data.position.shares} shares worth {safeCurrency(data.position.marketValue)}
+                  </div>
+                  {data.position.valueAtRisk.map((level) => (
+                    <div key={level.confidence} className="text-gray-600">
+                      {(level.confidence * 100).toFixed(0)}% one-day VaR {safeCurrency(level.var)}, CVaR{" "}
+                      {safeCurrency(level.cvar)}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="correlations">
           <Card>
             <CardHeader>
@@ -152,45 +211,27 @@ export default function RiskAssessment({ data }: RiskAssessmentProps) {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-6">
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                <div className="space-y-3">
-                  <div className="flex justify-between items-center">
-                    <span className="text-sm font-medium">S&P 500 (SPY)</span>
-                    <span className={`font-bold ${getCorrelationLevel(data.correlations.spy).color}`}>
-                      {data.correlations.spy.toFixed(2)}
-                    </span>
-                  </div>
-                  <Progress value={data.correlations.spy * 100} className="h-2" />
-                  <p className="text-xs text-gray-500">
-                    {getCorrelationLevel(data.correlations.spy).level} correlation with market
-                  </p>
-                </div>
-
-                <div className="space-y-3">
-                  <div className="flex justify-between items-center">
-                    <span className="text-sm font-medium">Sector Index</span>
-                    <span className={`font-bold ${getCorrelationLevel(data.correlations.sector).color}`}>
-                      {data.correlations.sector.toFixed(2)}
-                    </span>
-                  </div>
-                  <Progress value={data.correlations.sector * 100} className="h-2" />
-                  <p className="text-xs text-gray-500">
-                    {getCorrelationLevel(data.correlations.sector).level} correlation with sector
-                  </p>
-                </div>
-
-                <div className="space-y-3">
-                  <div className="flex justify-between items-center">
-                    <span className="text-sm font-medium">Competitors</span>
-                    <span className={`font-bold ${getCorrelationLevel(data.correlations.competitors).color}`}>
-                      {data.correlations.competitors.toFixed(2)}
-                    </span>
-                  </div>
-                  <Progress value={data.correlations.competitors * 100} className="h-2" />
-                  <p className="text-xs text-gray-500">
-                    {getCorrelationLevel(data.correlations.competitors).level} correlation with peers
-                  </p>
-                </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {benchmarkRows.map(({ label, relation, scope }) => {
+                  const correlation = relation?.correlation ?? null
+                  return (
+                    <div key={scope} className="space-y-3">
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm font-medium">{label}</span>
+                        <span className={`font-bold ${getCorrelationLevel(correlation).color}`}>
+                          {correlation === null ? "—" : correlation.toFixed(2)}
+                        </span>
+                      </div>
+                      <Progress value={Math.max(0, correlation ?? 0) * 100} className="h-2" />
+                      <p className="text-xs text-gray-500">
+                        {relation
+                          ? `Beta ${relation.beta.toFixed(2)} · ${getCorrelationLevel(correlation).level} correlation ` +
+                            `with ${scope} · ${relation.observations} days`
+                          : `Not enough overlapping ${scope} history`}
+                      </p>
+                    </div>
+                  )
+                })}
               </div>
 
               <div className="bg-blue-50 p-4 rounded-lg">
@@ -198,10 +239,10 @@ export default function RiskAssessment({ data }: RiskAssessmentProps) {
                 <p className="text-sm text-gray-600">
                   This stock shows {getCorrelationLevel(data.correlations.spy).level.toLowerCase()} correlation with the
                   broader market, indicating it{" "}
-                  {data.correlations.spy > 0.7 ? "moves closely" : "moves somewhat independently"}
+                  {(data.correlations.spy ?? 0) > 0.7 ? "moves closely" : "moves somewhat independently"}
                   with market trends. The {getCorrelationLevel(data.correlations.sector).level.toLowerCase()} sector
                   correlation suggests{" "}
-                  {data.correlations.sector > 0.7 ? "strong sector influence" : "some sector independence"}.
+                  {(data.correlations.sector ?? 0) > 0.7 ? "strong sector influence" : "some sector independence"}.
                 </p>
               </div>
             </CardContent>
@@ -217,29 +258,45 @@ export default function RiskAssessment({ data }: RiskAssessmentProps) {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="h-[300px]">
-                <ResponsiveContainer width="100%" height="100%">
-                  <BarChart data={data.stressTest} layout="horizontal">
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis type="number" />
-                    <YAxis dataKey="scenario" type="category" width={120} />
-                    <Tooltip formatter={(value: number) => [`${value.toFixed(1)}%`, "Impact"]} />
-                    <ReferenceLine x={0} stroke="#000" />
-                    <Bar dataKey="impact" fill="#ef4444" />
-                  </BarChart>
-                </ResponsiveContainer>
-              </div>
+              {data.stressTest.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">Not enough price history to replay past episodes</div>
+              ) : (
+                <>
+                  <div className="h-[300px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={data.stressTest} layout="vertical">
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis type="number" unit="%" />
+                        <YAxis dataKey="scenario" type="category" width={160} />
+                        <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+                        <Legend />
+                        <ReferenceLine x={0} stroke="#000" />
+                        <Bar dataKey="impact" name="This stock" fill="#ef4444" />
+                        <Bar dataKey="benchmarkImpact" name="S&P 500" fill="#9ca3af" />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
 
-              <div className="mt-6 space-y-3">
-                {data.stressTest.map((test, index) => (
-                  <div key={index} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
-                    <span className="font-medium">{test.scenario}</span>
-                    <Badge variant={test.impact < -10 ? "destructive" : test.impact < -5 ? "secondary" : "outline"}>
-                      {test.impact.toFixed(1)}%
-                    </Badge>
+                  <div className="mt-6 space-y-3">
+                    {data.stressTest.map((test) => (
+                      <div key={test.scenario} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
+                        <div>
+                          <span className="font-medium">{test.scenario}</span>
+                          <p className="text-xs text-gray-500">
+                            {test.start} → {test.end}
+                            {test.method === "beta-estimated"
+                              ? " · estimated from beta (listed after the episode)"
+                              : test.maxDrawdown !== null && ` · worst drawdown ${test.maxDrawdown.toFixed(1)}%`}
+                          </p>
+                        </div>
+                        <Badge variant={test.impact < -10 ? "destructive" : test.impact < -5 ? "secondary" : "outline"}>
+                          {test.impact.toFixed(1)}%
+                        </Badge>
+                      </div>
+                    ))}
                   </div>
-                ))}
-              </div>
+                </>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
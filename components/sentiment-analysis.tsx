@@ -33,6 +33,9 @@ interface SentimentAnalysisProps {
       sentiment: number
       volume: number
     }[]
+    /** Posts and headlines behind the current scores; 0 means no data was found */
+    sampleSize?: number
+    collectedAt?: string
   }
 }
 
@@ -70,6 +73,11 @@ export default function SentimentAnalysis({ data }: SentimentAnalysisProps) {
 
   return (
     <div className="space-y-6">
+      {data.sampleSize === 0 && (
+        <p className="text-sm text-gray-500">
+          No recent posts or headlines were found for this ticker, so all scores show as neutral.
+        </p>
+      )}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card>
           <CardHeader className="pb-3">
@@ -101,7 +109,7 @@ export default function SentimentAnalysis({ data }: SentimentAnalysisProps) {
               <Badge className={`${socialSentiment.color} text-white`}>{socialSentiment.label}</Badge>
             </div>
             <Progress value={data.social * 100} className="h-3" />
-            <p className="text-sm text-gray-600 text-center">Twitter, Reddit, and StockTwits analysis</p>
+            <p className="text-sm text-gray-600 text-center">Reddit and StockTwits posts from the last 7 days</p>
           </CardContent>
         </Card>
 
@@ -133,32 +141,36 @@ export default function SentimentAnalysis({ data }: SentimentAnalysisProps) {
           </CardHeader>
           <CardContent>
             <div className="h-[300px]">
-              <ResponsiveContainer width="100%" height="100%">
-                <PieChart>
-                  <Pie
-                    data={pieData}
-                    cx="50%"
-                    cy="50%"
-                    labelLine={false}
-                    outerRadius={80}
-                    fill="#8884d8"
-                    dataKey="value"
-                    nameKey="name"
-                    label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%`}
-                  >
-                    {pieData.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                    ))}
-                  </Pie>
-                  <Tooltip
-                    formatter={(value: number, name: string, props: any) => {
-                      const sentiment = props.payload.sentiment
-                      return [`Volume: ${value}`, `${name} (Sentiment: ${(sentiment * 100).toFixed(0)}%)`]
-                    }}
-                  />
-                  <Legend />
-                </PieChart>
-              </ResponsiveContainer>
+              {pieData.length === 0 ? (
+                <div className="h-full flex items-center justify-center text-sm text-gray-500">No source data</div>
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <PieChart>
+                    <Pie
+                      data={pieData}
+                      cx="50%"
+                      cy="50%"
+                      labelLine={false}
+                      outerRadius={80}
+                      fill="#8884d8"
+                      dataKey="value"
+                      nameKey="name"
+                      label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%`}
+                    >
+                      {pieData.map((entry, index) => (
+                        <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                      ))}
+                    </Pie>
+                    <Tooltip
+                      formatter={(value: number, name: string, props: any) => {
+                        const sentiment = props.payload.sentiment
+                        return [`Volume: ${value}`, `${name} (Sentiment: ${(sentiment * 100).toFixed(0)}%)`]
+                      }}
+                    />
+                    <Legend />
+                  </PieChart>
+                </ResponsiveContainer>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -9,7 +9,9 @@ import { Label } from "@/components/ui/label"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Switch } from "@/components/ui/switch"
 import { Progress } from "@/components/ui/progress"
-import { CheckCircle, XCircle, AlertTriangle, Key, Activity } from "lucide-react"
+import { CheckCircle, XCircle, AlertTriangle, Key, Activity, Scale } from "lucide-react"
+import type { ReconciledQuote } from "@/lib/api/quote-reconciliation"
+import type { ProviderBudget } from "@/lib/api/rate-limiter"
 
 export default function SourcesDashboard() {
   const [apiKeys, setApiKeys] = useState({
@@ -19,8 +21,49 @@ export default function SourcesDashboard() {
     alphaVantage: "***************",
   })
 
+  const [budgets, setBudgets] = useState<Record<string, ProviderBudget>>({})
+
+  useEffect(() => {
+    fetch("/api/usage")
+      .then((response) => response.json())
+      .then((usage) => {
+        const byProvider: Record<string, ProviderBudget> = {}
+        for (const budget of (usage.provider_budgets || []) as ProviderBudget[]) {
+          byProvider[budget.provider] = budget
+        }
+        setBudgets(byProvider)
+      })
+      .catch((error) => console.warn("Failed to load provider budgets:", error))
+  }, [])
+
+  const [reconcileSymbol, setReconcileSymbol] = useState("AAPL")
+  const [reconciledQuote, setReconciledQuote] = useState<ReconciledQuote | null>(null)
+  const [reconcileLoading, setReconcileLoading] = useState(false)
+  const [reconcileError, setReconcileError] = useState<string | null>(null)
+
+  const runReconciliation = async () => {
+    if (!reconcileSymbol.trim()) return
+
+    setReconcileLoading(true)
+    setReconcileError(null)
+    try {
+      const response = await fetch(`/api/quote-reconciliation?symbol=${encodeURIComponent(reconcileSymbol.trim())}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Reconciliation failed")
+      }
+      setReconciledQuote(data)
+    } catch (error) {
+      setReconciledQuote(null)
+      setReconcileError(error instanceof Error ? error.message : "Reconciliation failed")
+    } finally {
+      setReconcileLoading(false)
+    }
+  }
+
   const dataSources = [
     {
+      key: "polygon",
       name: "Polygon.io",
       status: "active",
       usage: 85,
@@ -30,6 +73,7 @@ export default function SourcesDashboard() {
       reliability: 99.8,
     },
     {
+      key: "finnhub",
       name: "Finnhub",
       status: "active",
       usage: 45,
@@ -39,6 +83,7 @@ export default function SourcesDashboard() {
       reliability: 99.5,
     },
     {
+      key: "twelveData",
       name: "Twelve Data",
       status: "warning",
       usage: 92,
@@ -48,6 +93,7 @@ export default function SourcesDashboard() {
       reliability: 98.2,
     },
     {
+      key: "alphaVantage",
       name: "Alpha Vantage",
       status: "inactive",
       usage: 15,
@@ -116,6 +162,7 @@ export default function SourcesDashboard() {
         <Tabs defaultValue="sources" className="space-y-6">
           <TabsList>
             <TabsTrigger value="sources">Data Sources</TabsTrigger>
+            <TabsTrigger value="reconciliation">Reconciliation</TabsTrigger>
             <TabsTrigger value="keys">API Keys</TabsTrigger>
             <TabsTrigger value="usage">Usage Analytics</TabsTrigger>
             <TabsTrigger value="settings">Settings</TabsTrigger>
@@ -123,7 +170,9 @@ export default function SourcesDashboard() {
 
           <TabsContent value="sources">
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              {dataSources.map((source, index) => (
+              {dataSources.map((source, index) => {
+                const budget = budgets[source.key]
+                return (
                 <Card key={index}>
                   <CardHeader>
                     <div className="flex items-center justify-between">
@@ -149,15 +198,38 @@ export default function SourcesDashboard() {
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
-                      <div>
-                        <div className="flex justify-between text-sm mb-2">
-                          <span>Usage</span>
-                          <span>
-                            {source.requests}/{source.limit} requests
-                          </span>
+                      {budget ? (
+                        <div>
+                          <div className="flex justify-between text-sm mb-2">
+                            <span>Daily Budget</span>
+                            <span>
+                              {budget.perDay === null
+                                ? `${budget.dailyUsed} requests (no daily cap)`
+                                : `${budget.dailyRemaining} of ${budget.perDay} remaining`}
+                            </span>
+                          </div>
+                          <Progress
+                            value={budget.perDay === null ? 0 : (budget.dailyUsed / budget.perDay) * 100}
+                            className="w-full"
+                          />
+                          <div className="flex justify-between text-xs text-gray-600 mt-2">
+                            <span>
+                              This minute: {budget.minuteRemaining}/{budget.perMinute} remaining
+                            </span>
+                            {budget.exhausted && <span className="text-red-600">Skipped in fallback chain</span>}
+                          </div>
                         </div>
-                        <Progress value={source.usage} className="w-full" />
-                      </div>
+                      ) : (
+                        <div>
+                          <div className="flex justify-between text-sm mb-2">
+                            <span>Usage</span>
+                            <span>
+                              {source.requests}/{source.limit} requests
+                            </span>
+                          </div>
+                          <Progress value={source.usage} className="w-full" />
+                        </div>
+                      )}
 
                       <div className="grid grid-cols-2 gap-4 text-sm">
                         <div>
@@ -181,10 +253,115 @@ export default function SourcesDashboard() {
                     </div>
                   </CardContent>
                 </Card>
-              ))}
+                )
+              })}
             </div>
           </TabsContent>
 
+          <TabsContent value="reconciliation">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Scale className="h-5 w-5" />
+                  Quote Reconciliation
+                </CardTitle>
+                <CardDescription>
+                  Query every configured source in parallel and compare each price against the consensus
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-6">
+                  <div className="flex space-x-2">
+                    <Input
+                      value={reconcileSymbol}
+                      onChange={(e) => setReconcileSymbol(e.target.value.toUpperCase())}
+                      onKeyDown={(e) => e.key === "Enter" && runReconciliation()}
+                      placeholder="Ticker symbol"
+                      className="w-40"
+                    />
+                    <Button onClick={runReconciliation} disabled={reconcileLoading}>
+                      {reconcileLoading ? "Reconciling..." : "Reconcile"}
+                    </Button>
+                  </div>
+
+                  {reconcileError && <p className="text-sm text-red-600">{reconcileError}</p>}
+
+                  {reconciledQuote && (
+                    <>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div className="p-4 border rounded-lg">
+                          <p className="text-sm text-gray-600">Consensus Price</p>
+                          <p className="text-2xl font-bold">
+                            ${reconciledQuote.reconciliation.consensusPrice.toFixed(2)}
+                          </p>
+                        </div>
+                        <div className="p-4 border rounded-lg">
+                          <p className="text-sm text-gray-600">Disagreement Score</p>
+                          <p
+                            className={`text-2xl font-bold ${
+                              reconciledQuote.reconciliation.outliers.length > 0 ? "text-yellow-600" : "text-green-600"
+                            }`}
+                          >
+                            {reconciledQuote.reconciliation.disagreementScore.toFixed(3)}%
+                          </p>
+                          <p className="text-xs text-gray-600 mt-1">
+                            Tolerance ±{reconciledQuote.reconciliation.tolerancePercent}%
+                          </p>
+                        </div>
+                        <div className="p-4 border rounded-lg">
+                          <p className="text-sm text-gray-600">Quorum</p>
+                          <p className="text-2xl font-bold">
+                            {reconciledQuote.reconciliation.agreeingSources}/{reconciledQuote.reconciliation.quorum}
+                          </p>
+                          <Badge
+                            variant="outline"
+                            className={reconciledQuote.reconciliation.quorumMet ? "text-green-600" : "text-red-600"}
+                          >
+                            {reconciledQuote.reconciliation.quorumMet ? "met" : "not met"}
+                          </Badge>
+                        </div>
+                      </div>
+
+                      <div className="space-y-2">
+                        {reconciledQuote.reconciliation.sources.map((entry) => (
+                          <div key={entry.source} className="flex items-center justify-between p-3 border rounded-lg">
+                            <div className="flex items-center space-x-2">
+                              {entry.price === null ? (
+                                <XCircle className="h-4 w-4 text-red-600" />
+                              ) : entry.outlier ? (
+                                <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                              ) : (
+                                <CheckCircle className="h-4 w-4 text-green-600" />
+                              )}
+                              <span className="font-medium">{entry.source}</span>
+                            </div>
+                            <div className="flex items-center space-x-6 text-sm">
+                              {entry.price === null ? (
+                                <span className="text-red-600">{entry.error}</span>
+                              ) : (
+                                <>
+                                  <span>${entry.price.toFixed(2)}</span>
+                                  <span className={entry.outlier ? "text-yellow-600" : "text-gray-600"}>
+                                    {entry.deviationPercent! >= 0 ? "+" : ""}
+                                    {entry.deviationPercent!.toFixed(3)}%
+                                  </span>
+                                  <span className="text-gray-600">
+                                    Vol {entry.volume ? entry.volume.toLocaleString() : "N/A"}
+                                  </span>
+                                </>
+                              )}
+                              <span className="text-gray-600 w-16 text-right">{entry.latencyMs}ms</span>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="keys">
             <Card>
               <CardHeader>
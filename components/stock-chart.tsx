@@ -1,201 +1,809 @@
 "use client"
 
-import { useState } from "react"
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useEffect, useMemo, useRef, useState } from "react"
 import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  Brush,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Customized,
+  Legend,
   Line,
   LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
   XAxis,
   YAxis,
-  CartesianGrid,
-  Tooltip,
-  ResponsiveContainer,
-  Area,
-  AreaChart,
-  Legend,
+  usePlotArea,
 } from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import {
+  Activity,
+  ChartCandlestick,
+  Maximize2,
+  Minimize2,
+  Percent,
+  Plus,
+  RefreshCw,
+  RotateCcw,
+  TrendingDown,
+  TrendingUp,
+  X,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react"
+import { formatCandleTime, useCandleSeries, useCandles } from "@/hooks/use-candles"
+import { RealTimeManager, type StockUpdate } from "@/lib/real-time/real-time-manager"
+import type { CandleInterval, HistoricalCandle } from "@/lib/api/providers/types"
+import {
+  percentChangeSeries,
+  priceDomain,
+  volumeProfile,
+  withIndicators,
+  zoomRange,
+  type ChartPoint,
+  type PercentChangeRow,
+  type VisibleRange,
+  type VolumeProfile,
+} from "@/lib/charts/chart-series"
+import { CandleIntervalSelect } from "./candle-interval-select"
+
+export type ChartMode = "candles" | "line" | "area" | "compare"
 
 interface StockChartProps {
   ticker: string
-  historicalData: {
-    date: string
-    price: number
-    volume: number
-    open: number
-    high: number
-    low: number
-    close: number
-  }[]
+  /** Candles to plot until (or instead of, if loading fails) the candles fetched for the selected interval */
+  historicalData?: HistoricalCandle[]
+  height?: number
+  defaultMode?: ChartMode
+  /** Quick-add symbols for the comparison overlay */
+  benchmarks?: string[]
+  enableTechnicalIndicators?: boolean
 }
 
-export default function StockChart({ ticker, historicalData }: StockChartProps) {
-  const [chartType, setChartType] = useState<"line" | "area" | "candlestick">("line")
+const INDICATOR_TOGGLES = [
+  { key: "sma20", label: "SMA 20" },
+  { key: "sma50", label: "SMA 50" },
+  { key: "bollinger", label: "Bollinger Bands" },
+  { key: "vwap", label: "VWAP" },
+  { key: "ichimoku", label: "Ichimoku" },
+  { key: "rsi", label: "RSI" },
+  { key: "stochastic", label: "Stochastic" },
+  { key: "adx", label: "ADX" },
+  { key: "atr", label: "ATR" },
+  { key: "obv", label: "OBV" },
+] as const
 
-  // Safety check for data
-  if (!historicalData || !Array.isArray(historicalData) || historicalData.length === 0) {
-    return (
-      <Card>
-        <CardHeader>
-          <CardTitle>{ticker} Price Chart</CardTitle>
-          <CardDescription>No historical data available</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="h-[400px] flex items-center justify-center text-gray-500">No chart data available</div>
-        </CardContent>
-      </Card>
-    )
-  }
+type IndicatorKey = (typeof INDICATOR_TOGGLES)[number]["key"]
 
-  // Calculate moving averages with safety checks
-  const sma20 = historicalData.map((item, index, array) => {
-    if (index < 20) return { ...item, sma20: null }
+interface OverlayLine {
+  indicator: IndicatorKey
+  dataKey: keyof ChartPoint
+  name: string
+  color: string
+  width?: number
+  dash?: string
+}
 
-    const sum = array.slice(index - 20, index).reduce((acc, val) => {
-      const closePrice = val?.close || 0
-      return acc + closePrice
-    }, 0)
-    return { ...item, sma20: sum / 20 }
-  })
+// Indicators plotted on the price axis
+const OVERLAY_LINES: OverlayLine[] = [
+  { indicator: "sma20", dataKey: "sma20", name: "SMA 20", color: "#f59e0b", width: 2, dash: "6 3" },
+  { indicator: "sma50", dataKey: "sma50", name: "SMA 50", color: "#8b5cf6", width: 2, dash: "4 4" },
+  { indicator: "bollinger", dataKey: "bbUpper", name: "BB Upper", color: "#9ca3af", dash: "2 2" },
+  { indicator: "bollinger", dataKey: "bbLower", name: "BB Lower", color: "#9ca3af", dash: "2 2" },
+  { indicator: "vwap", dataKey: "vwap", name: "VWAP", color: "#0ea5e9", width: 2 },
+  { indicator: "ichimoku", dataKey: "ichimokuConversion", name: "Tenkan-sen", color: "#2563eb", width: 1.5 },
+  { indicator: "ichimoku", dataKey: "ichimokuBase", name: "Kijun-sen", color: "#dc2626", width: 1.5 },
+  { indicator: "ichimoku", dataKey: "ichimokuSpanA", name: "Senkou A", color: "#16a34a", dash: "3 3" },
+  { indicator: "ichimoku", dataKey: "ichimokuSpanB", name: "Senkou B", color: "#b91c1c", dash: "3 3" },
+]
+
+interface OscillatorPane {
+  key: IndicatorKey
+  title: string
+  domain?: [number, number]
+  levels?: number[]
+  lines: { dataKey: keyof ChartPoint; name: string; color: string }[]
+}
+
+// Indicators on a different scale than price get their own pane under the main chart
+const OSCILLATOR_PANES: OscillatorPane[] = [
+  {
+    key: "rsi",
+    title: "RSI (14)",
+    domain: [0, 100],
+    levels: [30, 70],
+    lines: [{ dataKey: "rsi", name: "RSI", color: "#6366f1" }],
+  },
+  {
+    key: "stochastic",
+    title: "Stochastic (14, 3)",
+    domain: [0, 100],
+    levels: [20, 80],
+    lines: [
+      { dataKey: "stochK", name: "%K", color: "#0ea5e9" },
+      { dataKey: "stochD", name: "%D", color: "#f97316" },
+    ],
+  },
+  {
+    key: "adx",
+    title: "ADX / DMI (14)",
+    domain: [0, 100],
+    levels: [25],
+    lines: [
+      { dataKey: "adx", name: "ADX", color: "#111827" },
+      { dataKey: "plusDI", name: "+DI", color: "#10b981" },
+      { dataKey: "minusDI", name: "-DI", color: "#ef4444" },
+    ],
+  },
+  { key: "atr", title: "ATR (14)", lines: [{ dataKey: "atr", name: "ATR", color: "#a855f7" }] },
+  { key: "obv", title: "On-Balance Volume", lines: [{ dataKey: "obv", name: "OBV", color: "#14b8a6" }] },
+]
+
+const COMPARE_COLORS = ["#2563eb", "#f59e0b", "#8b5cf6", "#0ea5e9", "#ec4899", "#14b8a6"]
+const MAX_COMPARE_SYMBOLS = COMPARE_COLORS.length - 1
+const UP_COLOR = "#10b981"
+const DOWN_COLOR = "#ef4444"
+/** Candles shown when data loads; the brush reaches the rest */
+const DEFAULT_VISIBLE_CANDLES = 120
+/** Panes share this id so the crosshair moves across all of them */
+const SYNC_ID = "stock-chart"
 
-  const sma50 = sma20.map((item, index, array) => {
-    if (index < 50) return { ...item, sma50: null }
+const formatVolume = (volume: number) =>
+  Number(volume || 0).toLocaleString("en-US", { notation: "compact", maximumFractionDigits: 2 })
+const formatPercent = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`
 
-    const sum = array.slice(index - 50, index).reduce((acc, val) => {
-      const closePrice = val?.close || 0
-      return acc + closePrice
-    }, 0)
-    return { ...item, sma50: sum / 50 }
+/** Position of `value` between `low` (0) and `high` (1) on a linear or log axis */
+function axisRatio(value: number, [low, high]: [number, number], logScale: boolean): number {
+  if (logScale) return Math.log(value / low) / Math.log(high / low)
+  return (value - low) / (high - low)
+}
+
+/**
+ * Candle drawn as the shape of a low-high range bar: the bar already spans the wick, so the body is placed
+ * between the wick ends by where open and close sit on the axis.
+ */
+function CandleShape(props: any) {
+  const { x, y, width, height, payload, domain, logScale } = props
+  if (!payload || !Number.isFinite(y) || !Number.isFinite(height)) return null
+
+  const top = Math.min(y, y + height)
+  const bottom = Math.max(y, y + height)
+  const highRatio = axisRatio(payload.high, domain, logScale)
+  const span = highRatio - axisRatio(payload.low, domain, logScale)
+  const toY = (price: number) =>
+    span > 0 ? top + ((highRatio - axisRatio(price, domain, logScale)) / span) * (bottom - top) : top
+
+  const color = payload.close >= payload.open ? UP_COLOR : DOWN_COLOR
+  const bodyTop = Math.min(toY(payload.open), toY(payload.close))
+  const bodyHeight = Math.max(1, Math.abs(toY(payload.open) - toY(payload.close)))
+  const bodyWidth = Math.max(1, width * 0.7)
+  const centre = x + width / 2
+
+  return (
+    <g>
+      <line x1={centre} x2={centre} y1={top} y2={bottom} stroke={color} strokeWidth={1} />
+      <rect x={centre - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} />
+    </g>
+  )
+}
+
+/** Volume-by-price histogram along the right edge of the price pane, with the point of control marked */
+function VolumeProfileOverlay({
+  profile,
+  domain,
+  logScale,
+}: {
+  profile: VolumeProfile
+  domain: [number, number]
+  logScale: boolean
+}) {
+  const plotArea = usePlotArea()
+  if (!plotArea || profile.bins.length === 0) return null
+
+  const maxVolume = Math.max(...profile.bins.map((bin) => bin.volume))
+  const toY = (price: number) => plotArea.y + plotArea.height * (1 - axisRatio(price, domain, logScale))
+  const right = plotArea.x + plotArea.width
+  const maxWidth = plotArea.width * 0.25
+  const poc = profile.bins[profile.pointOfControl]
+
+  return (
+    <g pointerEvents="none">
+      {profile.bins.map((bin, index) => {
+        if (bin.volume === 0) return null
+        const top = toY(Math.min(bin.high, domain[1]))
+        const height = Math.max(1, toY(Math.max(bin.low, domain[0])) - top - 1)
+        const width = (bin.volume / maxVolume) * maxWidth
+        const upWidth = (bin.upVolume / bin.volume) * width
+        const inValueArea =
+          profile.valueArea !== null && bin.low >= profile.valueArea.low && bin.high <= profile.valueArea.high
+        const opacity = inValueArea ? 0.35 : 0.18
+        return (
+          <g key={index}>
+            <rect x={right - width} y={top} width={upWidth} height={height} fill={UP_COLOR} opacity={opacity} />
+            <rect
+              x={right - width + upWidth}
+              y={top}
+              width={width - upWidth}
+              height={height}
+              fill={DOWN_COLOR}
+              opacity={opacity}
+            />
+          </g>
+        )
+      })}
+      <line
+        x1={plotArea.x}
+        x2={right}
+        y1={toY((poc.low + poc.high) / 2)}
+        y2={toY((poc.low + poc.high) / 2)}
+        stroke="#f59e0b"
+        strokeDasharray="4 4"
+        strokeWidth={1}
+      />
+    </g>
+  )
+}
+
+/**
+ * Price chart with candlestick, line, area and percent-change comparison modes. A volume pane, a
+ * volume-by-price profile, a log scale and indicator overlays can be layered on; every pane follows the
+ * range brush below the chart and shares one crosshair, whose values are read out above the chart.
+ */
+export default function StockChart({
+  ticker,
+  historicalData,
+  height = 420,
+  defaultMode = "candles",
+  benchmarks = ["SPY", "QQQ"],
+  enableTechnicalIndicators = true,
+}: StockChartProps) {
+  const [mode, setMode] = useState<ChartMode>(defaultMode)
+  const [candleInterval, setCandleInterval] = useState<CandleInterval>("1d")
+  const [extendedHours, setExtendedHours] = useState(false)
+  const [showVolume, setShowVolume] = useState(true)
+  const [showProfile, setShowProfile] = useState(false)
+  const [logScale, setLogScale] = useState(false)
+  const [compareSymbols, setCompareSymbols] = useState<string[]>([])
+  const [compareInput, setCompareInput] = useState("")
+  const [range, setRange] = useState<VisibleRange | null>(null)
+  const [activeIndex, setActiveIndex] = useState<number | null>(null)
+  const [liveQuote, setLiveQuote] = useState<StockUpdate | null>(null)
+  const [isFullscreen, setIsFullscreen] = useState(false)
+  const [activeIndicators, setActiveIndicators] = useState<Record<IndicatorKey, boolean>>({
+    sma20: true,
+    sma50: true,
+    bollinger: false,
+    vwap: false,
+    ichimoku: false,
+    rsi: false,
+    stochastic: false,
+    adx: false,
+    atr: false,
+    obv: false,
   })
 
-  const chartData = sma50
+  const { candles, isLoading, error, refresh } = useCandles(ticker, candleInterval, { extendedHours })
+  const { series: compareSeries, errors: compareErrors } = useCandleSeries(
+    mode === "compare" ? compareSymbols : [],
+    candleInterval,
+    { extendedHours },
+  )
+
+  useEffect(() => {
+    if (!ticker) return
+    setLiveQuote(null)
+    return RealTimeManager.getInstance().subscribe(ticker, setLiveQuote)
+  }, [ticker])
+
+  const points = useMemo(
+    () => withIndicators(candles.length > 0 ? candles : historicalData || []),
+    [candles, historicalData],
+  )
+
+  // A new ticker or interval starts on the most recent candles; a window pinned to the latest candle follows it
+  const loaded = useRef({ series: "", length: 0 })
+  useEffect(() => {
+    const series = `${ticker}:${candleInterval}`
+    const previous = loaded.current
+    loaded.current = { series, length: points.length }
+    setRange((current) => {
+      if (points.length === 0) return null
+      if (!current || previous.series !== series || current.endIndex >= points.length) {
+        return { startIndex: Math.max(0, points.length - DEFAULT_VISIBLE_CANDLES), endIndex: points.length - 1 }
+      }
+      if (current.endIndex !== previous.length - 1) return current
+      const added = points.length - previous.length
+      return { startIndex: current.startIndex + added, endIndex: current.endIndex + added }
+    })
+  }, [ticker, candleInterval, points.length])
+
+  const visibleRange = range ?? { startIndex: 0, endIndex: Math.max(0, points.length - 1) }
+  const visible = useMemo(
+    () =>
+      points.slice(visibleRange.startIndex, visibleRange.endIndex + 1).map((point) => ({
+        ...point,
+        label: formatCandleTime(point),
+        candleRange: [point.low, point.high],
+      })),
+    [points, visibleRange.startIndex, visibleRange.endIndex],
+  )
+
+  const isCompare = mode === "compare"
+  const useLogScale = logScale && !isCompare
+  const domain = useMemo(() => priceDomain(visible, useLogScale), [visible, useLogScale])
+  const profile = useMemo(() => volumeProfile(visible), [visible])
+  const compareRows = useMemo(() => {
+    if (!isCompare) return []
+    const labels = new Map(visible.map((point) => [point.key, point.label]))
+    return percentChangeSeries(
+      visible.map((point) => point.key),
+      { [ticker]: visible, ...compareSeries },
+    ).map((row): PercentChangeRow => ({ ...row, label: labels.get(row.key) ?? "" }))
+  }, [isCompare, visible, ticker, compareSeries])
+  const compareKeys = [ticker, ...compareSymbols.filter((symbol) => compareSeries[symbol])]
+
+  const readoutIndex = activeIndex !== null && activeIndex < visible.length ? activeIndex : visible.length - 1
+  const readout = visible[readoutIndex]
+  const previousClose = readoutIndex > 0 ? visible[readoutIndex - 1].close : readout?.open
+  const readoutChange = readout && previousClose ? ((readout.close - previousClose) / previousClose) * 100 : 0
+
+  const addCompareSymbol = (symbol: string) => {
+    const normalized = symbol.trim().toUpperCase()
+    if (!normalized || normalized === ticker.toUpperCase()) return
+    setCompareSymbols((current) =>
+      current.includes(normalized) || current.length >= MAX_COMPARE_SYMBOLS ? current : [...current, normalized],
+    )
+    setCompareInput("")
+    setMode("compare")
+  }
+
+  const toggleIndicator = (indicator: IndicatorKey) => {
+    setActiveIndicators((prev) => ({ ...prev, [indicator]: !prev[indicator] }))
+  }
+
+  const zoom = (factor: number) => setRange(zoomRange(visibleRange, points.length, factor))
+
+  const trackCrosshair = (state: any) => {
+    const index = state?.activeTooltipIndex
+    setActiveIndex(index === undefined || index === null ? null : Number(index))
+  }
 
-  // Calculate min and max for y-axis with safety checks
-  const prices = historicalData.map((d) => d?.close || 0).filter((price) => price > 0)
-  const minPrice = prices.length > 0 ? Math.min(...prices) * 0.95 : 0
-  const maxPrice = prices.length > 0 ? Math.max(...prices) * 1.05 : 100
+  const isPositive = (liveQuote?.changePercent ?? readoutChange) >= 0
+  const primaryColor = isPositive ? UP_COLOR : DOWN_COLOR
+  const changeColor = isPositive ? "text-green-600" : "text-red-600"
+
+  if (points.length === 0) {
+    return (
+      <Card className="w-full">
+        <CardContent className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <RefreshCw className={`h-10 w-10 text-blue-500 mx-auto mb-4 ${isLoading ? "animate-spin" : ""}`} />
+            <p className="font-medium">{isLoading ? "Loading chart data" : "No chart data available"}</p>
+            <p className="text-sm text-gray-500 mb-4">{error || `${ticker} ${candleInterval} candles`}</p>
+            {!isLoading && (
+              <Button variant="outline" size="sm" onClick={refresh}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Retry
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
 
   return (
-    <Card>
-      <CardHeader>
-        <div className="flex justify-between items-center">
-          <div>
-            <CardTitle>{ticker} Price Chart</CardTitle>
-            <CardDescription>Historical price movement analysis</CardDescription>
+    <Card className={`w-full transition-all duration-300 ${isFullscreen ? "fixed inset-4 z-50 overflow-auto" : ""}`}>
+      <CardHeader className="pb-2 space-y-3">
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Activity className="h-5 w-5" style={{ color: primaryColor }} />
+            <CardTitle className="text-lg font-semibold">{ticker} Chart</CardTitle>
+            {liveQuote && (
+              <>
+                <span className="text-xl font-bold font-mono">${liveQuote.price.toFixed(2)}</span>
+                <span className={`flex items-center gap-1 text-sm font-medium ${changeColor}`}>
+                  {isPositive ? <TrendingUp className="h-4 w-4" /> : <TrendingDown className="h-4 w-4" />}
+                  {formatPercent(liveQuote.changePercent)}
+                </span>
+                <Badge variant="outline" className="text-xs">
+                  {liveQuote.source}
+                </Badge>
+              </>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={mode}
+              onValueChange={(value) => value && setMode(value as ChartMode)}
+            >
+              <ToggleGroupItem value="candles" aria-label="Candlesticks">
+                <ChartCandlestick className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="line">Line</ToggleGroupItem>
+              <ToggleGroupItem value="area">Area</ToggleGroupItem>
+              <ToggleGroupItem value="compare" aria-label="Percent change comparison">
+                <Percent className="h-4 w-4" />
+              </ToggleGroupItem>
+            </ToggleGroup>
+            <CandleIntervalSelect
+              id={`${ticker}-chart`}
+              interval={candleInterval}
+              onIntervalChange={setCandleInterval}
+              extendedHours={extendedHours}
+              onExtendedHoursChange={setExtendedHours}
+            />
+            <Button variant="ghost" size="sm" onClick={() => zoom(0.5)} aria-label="Zoom in">
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => zoom(2)} aria-label="Zoom out">
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setRange({ startIndex: 0, endIndex: points.length - 1 })}
+              aria-label="Show all candles"
+            >
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={refresh} disabled={isLoading} aria-label="Refresh">
+              <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setIsFullscreen(!isFullscreen)}>
+              {isFullscreen ? <Minimize2 className="h-4 w-4" /> : <Maximize2 className="h-4 w-4" />}
+            </Button>
           </div>
-          <Tabs value={chartType} onValueChange={(value) => setChartType(value as any)} className="w-[300px]">
-            <TabsList className="grid grid-cols-3">
-              <TabsTrigger value="line">Line</TabsTrigger>
-              <TabsTrigger value="area">Area</TabsTrigger>
-              <TabsTrigger value="candlestick">Volume</TabsTrigger>
-            </TabsList>
-          </Tabs>
         </div>
-      </CardHeader>
-      <CardContent>
-        <div className="h-[400px]">
-          {chartType === "line" && (
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="date" tickFormatter={(value) => new Date(value).toLocaleDateString()} minTickGap={30} />
-                <YAxis domain={[minPrice, maxPrice]} />
-                <Tooltip
-                  formatter={(value: number) => [`$${(value || 0).toFixed(2)}`, "Price"]}
-                  labelFormatter={(label) => new Date(label).toLocaleDateString()}
-                />
-                <Legend />
-                <Line
-                  type="monotone"
-                  dataKey="close"
-                  name="Price"
-                  stroke="#2563eb"
-                  strokeWidth={2}
-                  dot={false}
-                  activeDot={{ r: 6 }}
-                />
-                <Line
-                  type="monotone"
-                  dataKey="sma20"
-                  name="SMA 20"
-                  stroke="#10b981"
-                  strokeWidth={1.5}
-                  dot={false}
-                  strokeDasharray="5 5"
-                />
-                <Line
-                  type="monotone"
-                  dataKey="sma50"
-                  name="SMA 50"
-                  stroke="#8b5cf6"
-                  strokeWidth={1.5}
-                  dot={false}
-                  strokeDasharray="3 3"
+
+        <div className="flex flex-wrap items-center gap-4">
+          {[
+            { id: "volume", label: "Volume", checked: showVolume, onChange: setShowVolume, disabled: false },
+            {
+              id: "profile",
+              label: "Volume Profile",
+              checked: showProfile,
+              onChange: setShowProfile,
+              disabled: isCompare,
+            },
+            { id: "log", label: "Log Scale", checked: logScale, onChange: setLogScale, disabled: isCompare },
+          ].map((toggle) => (
+            <div key={toggle.id} className="flex items-center space-x-2">
+              <Switch
+                id={`${ticker}-${toggle.id}`}
+                checked={toggle.checked && !toggle.disabled}
+                onCheckedChange={toggle.onChange}
+                disabled={toggle.disabled}
+              />
+              <Label htmlFor={`${ticker}-${toggle.id}`} className="text-sm font-medium cursor-pointer">
+                {toggle.label}
+              </Label>
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2">
+            <Input
+              value={compareInput}
+              onChange={(event) => setCompareInput(event.target.value)}
+              onKeyDown={(event) => event.key === "Enter" && addCompareSymbol(compareInput)}
+              placeholder="Compare with..."
+              className="h-8 w-36"
+            />
+            <Button variant="outline" size="sm" onClick={() => addCompareSymbol(compareInput)}>
+              <Plus className="h-4 w-4" />
+            </Button>
+            {benchmarks
+              .filter((symbol) => !compareSymbols.includes(symbol) && symbol !== ticker.toUpperCase())
+              .map((symbol) => (
+                <Button key={symbol} variant="ghost" size="sm" onClick={() => addCompareSymbol(symbol)}>
+                  + {symbol}
+                </Button>
+              ))}
+            {compareSymbols.map((symbol) => (
+              <Badge key={symbol} variant={compareErrors[symbol] ? "destructive" : "secondary"} className="gap-1">
+                {symbol}
+                <button
+                  type="button"
+                  onClick={() => setCompareSymbols((current) => current.filter((item) => item !== symbol))}
+                  aria-label={`Remove ${symbol}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        {enableTechnicalIndicators && !isCompare && (
+          <div className="flex flex-wrap gap-4">
+            {INDICATOR_TOGGLES.map(({ key, label }) => (
+              <div key={key} className="flex items-center space-x-2">
+                <Switch
+                  id={`${ticker}-${key}`}
+                  checked={activeIndicators[key]}
+                  onCheckedChange={() => toggleIndicator(key)}
                 />
-              </LineChart>
-            </ResponsiveContainer>
-          )}
+                <Label htmlFor={`${ticker}-${key}`} className="text-sm font-medium cursor-pointer">
+                  {label}
+                </Label>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardHeader>
 
-          {chartType === "area" && (
-            <ResponsiveContainer width="100%" height="100%">
-              <AreaChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="date" tickFormatter={(value) => new Date(value).toLocaleDateString()} minTickGap={30} />
-                <YAxis domain={[minPrice, maxPrice]} />
-                <Tooltip
-                  formatter={(value: number) => [`$${(value || 0).toFixed(2)}`, "Price"]}
-                  labelFormatter={(label) => new Date(label).toLocaleDateString()}
+      <CardContent className="space-y-2">
+        {/* Crosshair readout */}
+        {readout && (
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs font-mono text-gray-600 min-h-[1.25rem]">
+            <span className="font-semibold text-gray-800">{formatCandleTime(readout, "long")}</span>
+            {isCompare ? (
+              compareKeys.map((symbol, index) => {
+                const value = compareRows[readoutIndex]?.[symbol]
+                return (
+                  <span key={symbol} style={{ color: COMPARE_COLORS[index] }}>
+                    {symbol} {typeof value === "number" ? formatPercent(value) : "n/a"}
+                  </span>
+                )
+              })
+            ) : (
+              <>
+                <span>O {readout.open.toFixed(2)}</span>
+                <span>H {readout.high.toFixed(2)}</span>
+                <span>L {readout.low.toFixed(2)}</span>
+                <span>C {readout.close.toFixed(2)}</span>
+                <span className={readoutChange >= 0 ? "text-green-600" : "text-red-600"}>
+                  {formatPercent(readoutChange)}
+                </span>
+                <span>V {formatVolume(readout.volume)}</span>
+                {readout.extendedHours && <Badge variant="outline">Extended hours</Badge>}
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Price pane */}
+        <div style={{ height: isFullscreen ? "calc(100vh - 480px)" : height }}>
+          <ResponsiveContainer width="100%" height="100%">
+            {isCompare ? (
+              <LineChart
+                data={compareRows}
+                syncId={SYNC_ID}
+                margin={{ top: 10, right: 30, left: 10, bottom: 0 }}
+                onMouseMove={trackCrosshair}
+                onMouseLeave={() => setActiveIndex(null)}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="label" tick={{ fontSize: 11, fill: "#6b7280" }} minTickGap={40} />
+                <YAxis
+                  tick={{ fontSize: 11, fill: "#6b7280" }}
+                  tickFormatter={(value) => `${Number(value).toFixed(1)}%`}
                 />
+                <Tooltip content={() => null} cursor={{ stroke: "#6b7280", strokeDasharray: "3 3" }} />
                 <Legend />
+                <ReferenceLine y={0} stroke="#9ca3af" />
+                {compareKeys.map((symbol, index) => (
+                  <Line
+                    key={symbol}
+                    type="monotone"
+                    dataKey={symbol}
+                    name={symbol}
+                    stroke={COMPARE_COLORS[index]}
+                    strokeWidth={symbol === ticker ? 2.5 : 1.5}
+                    dot={false}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            ) : (
+              <ComposedChart
+                data={visible}
+                syncId={SYNC_ID}
+                margin={{ top: 10, right: 30, left: 10, bottom: 0 }}
+                onMouseMove={trackCrosshair}
+                onMouseLeave={() => setActiveIndex(null)}
+              >
                 <defs>
-                  <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="5%" stopColor="#2563eb" stopOpacity={0.8} />
-                    <stop offset="95%" stopColor="#2563eb" stopOpacity={0.1} />
+                  <linearGradient id={`${ticker}-area`} x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor={primaryColor} stopOpacity={0.3} />
+                    <stop offset="95%" stopColor={primaryColor} stopOpacity={0} />
                   </linearGradient>
                 </defs>
-                <Area
-                  type="monotone"
-                  dataKey="close"
-                  name="Price"
-                  stroke="#2563eb"
-                  fillOpacity={1}
-                  fill="url(#colorPrice)"
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="label" tick={{ fontSize: 11, fill: "#6b7280" }} minTickGap={40} />
+                <YAxis
+                  scale={useLogScale ? "log" : "linear"}
+                  domain={domain}
+                  allowDataOverflow
+                  tick={{ fontSize: 11, fill: "#6b7280" }}
+                  tickFormatter={(value) => `$${Number(value).toFixed(2)}`}
                 />
-                <Line type="monotone" dataKey="sma20" name="SMA 20" stroke="#10b981" strokeWidth={1.5} dot={false} />
-                <Line type="monotone" dataKey="sma50" name="SMA 50" stroke="#8b5cf6" strokeWidth={1.5} dot={false} />
-              </AreaChart>
-            </ResponsiveContainer>
-          )}
+                <Tooltip content={() => null} cursor={{ stroke: "#6b7280", strokeDasharray: "3 3" }} />
+
+                {showProfile && (
+                  <Customized
+                    component={<VolumeProfileOverlay profile={profile} domain={domain} logScale={useLogScale} />}
+                  />
+                )}
+
+                {mode === "candles" && (
+                  <Bar
+                    dataKey="candleRange"
+                    name="Price"
+                    isAnimationActive={false}
+                    shape={(props: any) => <CandleShape {...props} domain={domain} logScale={useLogScale} />}
+                  />
+                )}
+                {mode === "line" && (
+                  <Line
+                    type="monotone"
+                    dataKey="close"
+                    name="Price"
+                    stroke={primaryColor}
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                )}
+                {mode === "area" && (
+                  <Area
+                    type="monotone"
+                    dataKey="close"
+                    name="Price"
+                    stroke={primaryColor}
+                    strokeWidth={2}
+                    fill={`url(#${ticker}-area)`}
+                    isAnimationActive={false}
+                  />
+                )}
+
+                {enableTechnicalIndicators &&
+                  OVERLAY_LINES.filter((line) => activeIndicators[line.indicator]).map((line) => (
+                    <Line
+                      key={line.dataKey}
+                      type="monotone"
+                      dataKey={line.dataKey}
+                      name={line.name}
+                      stroke={line.color}
+                      strokeWidth={line.width ?? 1}
+                      strokeDasharray={line.dash}
+                      dot={false}
+                      connectNulls={false}
+                      isAnimationActive={false}
+                    />
+                  ))}
 
-          {chartType === "candlestick" && (
+                {/* Horizontal crosshair at the hovered close */}
+                {activeIndex !== null && readout && (
+                  <ReferenceLine y={readout.close} stroke="#6b7280" strokeDasharray="3 3" />
+                )}
+                {liveQuote && liveQuote.price >= domain[0] && liveQuote.price <= domain[1] && (
+                  <ReferenceLine
+                    y={liveQuote.price}
+                    stroke={primaryColor}
+                    strokeDasharray="8 4"
+                    label={{
+                      value: `Live $${liveQuote.price.toFixed(2)}`,
+                      position: "insideTopRight",
+                      style: { fontSize: 11, fontWeight: "bold", fill: primaryColor },
+                    }}
+                  />
+                )}
+              </ComposedChart>
+            )}
+          </ResponsiveContainer>
+        </div>
+
+        {/* Volume pane */}
+        {showVolume && (
+          <div style={{ height: 90 }}>
             <ResponsiveContainer width="100%" height="100%">
-              <AreaChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="date" tickFormatter={(value) => new Date(value).toLocaleDateString()} minTickGap={30} />
-                <YAxis />
-                <Tooltip
-                  formatter={(value: number) => [new Intl.NumberFormat().format(value || 0), "Volume"]}
-                  labelFormatter={(label) => new Date(label).toLocaleDateString()}
-                />
-                <Legend />
-                <defs>
-                  <linearGradient id="colorVolume" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="5%" stopColor="#6366f1" stopOpacity={0.8} />
-                    <stop offset="95%" stopColor="#6366f1" stopOpacity={0.1} />
-                  </linearGradient>
-                </defs>
-                <Area
-                  type="monotone"
-                  dataKey="volume"
-                  name="Volume"
-                  stroke="#6366f1"
-                  fillOpacity={1}
-                  fill="url(#colorVolume)"
-                />
-              </AreaChart>
+              <BarChart
+                data={visible}
+                syncId={SYNC_ID}
+                margin={{ top: 0, right: 30, left: 10, bottom: 0 }}
+                onMouseMove={trackCrosshair}
+                onMouseLeave={() => setActiveIndex(null)}
+              >
+                <XAxis dataKey="label" hide />
+                <YAxis tick={{ fontSize: 10, fill: "#6b7280" }} tickFormatter={formatVolume} width={60} />
+                <Tooltip content={() => null} cursor={{ fill: "#e5e7eb", opacity: 0.4 }} />
+                <Bar dataKey="volume" name="Volume" isAnimationActive={false}>
+                  {visible.map((point) => (
+                    <Cell key={point.key} fill={point.close >= point.open ? UP_COLOR : DOWN_COLOR} opacity={0.6} />
+                  ))}
+                </Bar>
+              </BarChart>
             </ResponsiveContainer>
-          )}
+          </div>
+        )}
+
+        {/* Oscillator panes */}
+        {enableTechnicalIndicators &&
+          !isCompare &&
+          OSCILLATOR_PANES.filter((pane) => activeIndicators[pane.key]).map((pane) => (
+            <div key={pane.key} className="space-y-1">
+              <div className="text-sm font-medium text-gray-700">{pane.title}</div>
+              <div style={{ height: 120 }}>
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={visible} syncId={SYNC_ID} margin={{ top: 5, right: 30, left: 10, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                    <XAxis dataKey="label" hide />
+                    <YAxis
+                      tick={{ fontSize: 10, fill: "#6b7280" }}
+                      domain={pane.domain || ["auto", "auto"]}
+                      tickFormatter={(value) => Number(value).toLocaleString("en-US", { maximumFractionDigits: 2 })}
+                    />
+                    <Tooltip />
+                    {pane.levels?.map((level) => (
+                      <ReferenceLine key={level} y={level} stroke="#9ca3af" strokeDasharray="4 4" />
+                    ))}
+                    {pane.lines.map((line) => (
+                      <Line
+                        key={line.dataKey}
+                        type="monotone"
+                        dataKey={line.dataKey}
+                        name={line.name}
+                        stroke={line.color}
+                        strokeWidth={1.5}
+                        dot={false}
+                        connectNulls={false}
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          ))}
+
+        {/* Range brush: drag the window to pan, drag its edges to zoom */}
+        <div style={{ height: 70 }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={points} margin={{ top: 0, right: 30, left: 10, bottom: 0 }}>
+              <XAxis dataKey="key" hide />
+              <YAxis hide domain={["auto", "auto"]} />
+              <Area type="monotone" dataKey="close" stroke="#9ca3af" fill="#e5e7eb" isAnimationActive={false} />
+              <Brush
+                dataKey="key"
+                height={24}
+                stroke={primaryColor}
+                startIndex={visibleRange.startIndex}
+                endIndex={visibleRange.endIndex}
+                tickFormatter={(_, index) => (points[index] ? formatCandleTime(points[index]) : "")}
+                onChange={({ startIndex, endIndex }) => {
+                  if (startIndex !== undefined && endIndex !== undefined) setRange({ startIndex, endIndex })
+                }}
+              />
+            </AreaChart>
+          </ResponsiveContainer>
         </div>
+
+        {(error || Object.keys(compareErrors).length > 0) && (
+          <p className="text-xs text-red-600">
+            {error && `Showing the last loaded candles: ${error}. `}
+            {Object.entries(compareErrors)
+              .map(([symbol, message]) => `${symbol}: ${message}`)
+              .join("; ")}
+          </p>
+        )}
       </CardContent>
     </Card>
   )
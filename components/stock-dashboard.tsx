@@ -30,6 +30,7 @@ import { ErrorBoundary } from "@/components/error-boundary"
 import { safeCurrency, safeToFixed } from "@/lib/utils/safe-formatters"
 import ReliableLiveTicker from "@/components/reliable-live-ticker"
 import StockAnalysisSummary from "@/components/stock-analysis-summary"
+import StockChart from "@/components/stock-chart"
 import CryptoNewsTrends from "@/components/crypto-news-trends"
 import { fetchStockAnalysis } from "@/lib/api"
 import AIAnalysisPanel from "@/components/ai-analysis-panel"
@@ -37,10 +38,13 @@ import AINewsSummarizer from "@/components/ai-news-summarizer"
 import AITradingSignals from "@/components/ai-trading-signals"
 import PredictiveAlerts from "@/components/predictive-alerts"
 import AIPortfolioOptimizer from "@/components/ai-portfolio-optimizer"
+import AlertRulesPanel from "@/components/alert-rules-panel"
+import WatchlistPanel from "@/components/watchlist-panel"
+import { usePortfolios } from "@/hooks/use-portfolios"
 
 export default function StockDashboard() {
   const [ticker, setTicker] = useState("")
-  const [shares, setShares] = useState("")
+  const [portfolioId, setPortfolioId] = useState("none")
   const [timeframe, setTimeframe] = useState("1m")
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [analysisData, setAnalysisData] = useState<any>(null)
@@ -48,6 +52,9 @@ export default function StockDashboard() {
   const [retryCount, setRetryCount] = useState(0)
   const [mode, setMode] = useState<"stock" | "crypto">("stock")
   const { toast } = useToast()
+  const { portfolios } = usePortfolios()
+  const selectedPortfolio = portfolios.find((p) => String(p.id) === portfolioId)
+  const heldPosition = selectedPortfolio?.holdings.positions.find((p) => p.ticker === ticker)
 
   // Load persistent state on component mount
   useEffect(() => {
@@ -56,7 +63,7 @@ export default function StockDashboard() {
       try {
         const parsed = JSON.parse(savedState)
         setTicker(parsed.ticker || "")
-        setShares(parsed.shares || "")
+        setPortfolioId(parsed.portfolioId || "none")
         setTimeframe(parsed.timeframe || "1m")
         setAnalysisData(parsed.analysisData || null)
         setMode(parsed.mode || "stock")
@@ -70,16 +77,16 @@ export default function StockDashboard() {
   useEffect(() => {
     const stateToSave = {
       ticker,
-      shares,
+      portfolioId,
       timeframe,
       analysisData,
       mode,
     }
     localStorage.setItem("stockAnalysisState", JSON.stringify(stateToSave))
-  }, [ticker, shares, timeframe, analysisData, mode])
+  }, [ticker, portfolioId, timeframe, analysisData, mode])
 
-  const handleAnalyze = async () => {
-    if (!ticker) {
+  const handleAnalyze = async (target: string = ticker) => {
+    if (!target) {
       setError("Please enter a stock ticker symbol")
       toast({
         title: "Missing Information",
@@ -93,13 +100,15 @@ export default function StockDashboard() {
     setError(null)
 
     try {
-      const analysisResult = await fetchStockAnalysis(ticker)
+      const analysisResult = await fetchStockAnalysis(target, {
+        portfolioId: portfolioId === "none" ? undefined : Number(portfolioId),
+      })
       setAnalysisData(analysisResult)
       setRetryCount(0)
 
       toast({
         title: "Analysis Complete",
-        description: `Successfully analyzed ${ticker.toUpperCase()} with AI enhancement`,
+        description: `Successfully analyzed ${target.toUpperCase()} with AI enhancement`,
       })
     } catch (err: any) {
       console.error("Analysis error:", err)
@@ -127,6 +136,13 @@ export default function StockDashboard() {
     }
   }
 
+  // Watchlist rows open the full analysis, which is only shown in stock mode
+  const openAnalysis = (symbol: string) => {
+    setMode("stock")
+    setTicker(symbol)
+    handleAnalyze(symbol)
+  }
+
   const toggleMode = () => {
     const newMode = mode === "stock" ? "crypto" : "stock"
     setMode(newMode)
@@ -245,15 +261,27 @@ export default function StockDashboard() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="shares">Current Shares Held</Label>
-                  <Input
-                    id="shares"
-                    type="number"
-                    placeholder="0"
-                    value={shares}
-                    onChange={(e) => setShares(e.target.value)}
-                    className="text-base"
-                  />
+                  <Label htmlFor="portfolio">Portfolio</Label>
+                  <Select value={portfolioId} onValueChange={setPortfolioId}>
+                    <SelectTrigger id="portfolio" className="text-base">
+                      <SelectValue placeholder="No portfolio" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No portfolio</SelectItem>
+                      {portfolios.map((p) => (
+                        <SelectItem key={p.id} value={String(p.id)}>
+                          {p.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedPortfolio && ticker && (
+                    <p className="text-xs text-muted-foreground">
+                      {heldPosition
+                        ? `Holding ${heldPosition.shares} shares at ${safeCurrency(heldPosition.averageCost)} avg cost`
+                        : `No ${ticker} shares in this portfolio`}
+                    </p>
+                  )}
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="timeframe">Analysis Timeframe</Label>
@@ -273,7 +301,7 @@ export default function StockDashboard() {
                 </div>
                 <div className="flex items-end">
                   <Button
-                    onClick={handleAnalyze}
+                    onClick={() => handleAnalyze()}
                     disabled={!ticker || isAnalyzing}
                     className="w-full h-10 text-base"
                     size="lg"
@@ -298,6 +326,10 @@ export default function StockDashboard() {
           <ReliableLiveTicker currentAnalyzedTicker={ticker} currentPrice={analysisData?.currentPrice} mode={mode} />
         </ErrorBoundary>
 
+        <ErrorBoundary>
+          <WatchlistPanel onOpenAnalysis={openAnalysis} />
+        </ErrorBoundary>
+
         {/* Crypto News and Trends - Only shown in crypto mode */}
         {mode === "crypto" && (
           <ErrorBoundary>
@@ -318,7 +350,7 @@ export default function StockDashboard() {
                       <strong>Analysis Error:</strong> {error}
                       {retryCount > 0 && <div className="text-sm mt-1">Retry attempt: {retryCount}</div>}
                     </div>
-                    <Button size="sm" variant="outline" onClick={handleAnalyze} disabled={isAnalyzing}>
+                    <Button size="sm" variant="outline" onClick={() => handleAnalyze()} disabled={isAnalyzing}>
                       Retry
                     </Button>
                   </div>
@@ -431,6 +463,15 @@ export default function StockDashboard() {
                   <StockAnalysisSummary ticker={analysisData.ticker} analysisData={analysisData} />
                 </ErrorBoundary>
 
+                {/* Price Chart */}
+                <ErrorBoundary>
+                  <StockChart
+                    key={analysisData.ticker}
+                    ticker={analysisData.ticker}
+                    historicalData={analysisData.historicalData}
+                  />
+                </ErrorBoundary>
+
                 {/* AI Analysis Panel */}
                 <ErrorBoundary>
                   <AIAnalysisPanel
@@ -466,10 +507,19 @@ export default function StockDashboard() {
                   <AINewsSummarizer ticker={analysisData.ticker} news={analysisData.news?.recent || []} />
                 </ErrorBoundary>
 
+                {/* Price & Indicator Alerts */}
+                <ErrorBoundary>
+                  <AlertRulesPanel
+                    key={analysisData.ticker}
+                    ticker={analysisData.ticker}
+                    currentPrice={analysisData.currentPrice}
+                  />
+                </ErrorBoundary>
+
                 {/* AI Portfolio Optimizer */}
-                {/* <ErrorBoundary>
+                <ErrorBoundary>
                   <AIPortfolioOptimizer />
-                </ErrorBoundary> */}
+                </ErrorBoundary>
 
                 {/* Detailed Analysis Tabs */}
                 <Tabs defaultValue="technical" className="space-y-4">
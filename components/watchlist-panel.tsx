@@ -0,0 +1,437 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  ChevronLeft,
+  ChevronRight,
+  Eye,
+  Loader2,
+  Pencil,
+  Plus,
+  Trash2,
+  X,
+} from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useWatchlists } from "@/hooks/use-watchlists"
+import { RealTimeManager, type StockUpdate } from "@/lib/real-time/real-time-manager"
+import { marketSymbol } from "@/lib/watchlists/watchlist"
+import type { AssetType, WatchlistItem, WatchlistMetrics } from "@/lib/watchlists/types"
+import { safeCurrency, safeToFixed } from "@/lib/utils/safe-formatters"
+
+interface WatchlistPanelProps {
+  /** Called with the market symbol (e.g. AAPL or BTC-USD) when a row is clicked */
+  onOpenAnalysis: (symbol: string) => void
+}
+
+type SortKey = "position" | "symbol" | "price" | "changePercent" | "volume" | "rsi" | "recommendation"
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: "symbol", label: "Symbol" },
+  { key: "price", label: "Price" },
+  { key: "changePercent", label: "Change" },
+  { key: "volume", label: "Volume" },
+  { key: "rsi", label: "RSI(14)" },
+  { key: "recommendation", label: "Last Call" },
+]
+
+/** RSI and recommendations move slowly; prices come from the real-time layer instead */
+const METRICS_REFRESH_MS = 5 * 60 * 1000
+
+interface Row {
+  item: WatchlistItem
+  symbol: string
+  position: number
+  quote?: StockUpdate
+  metrics?: WatchlistMetrics
+}
+
+function sortValue(row: Row, key: SortKey): string | number | null {
+  switch (key) {
+    case "position":
+      return row.position
+    case "symbol":
+      return row.item.symbol
+    case "price":
+      return row.quote?.price ?? null
+    case "changePercent":
+      return row.quote?.changePercent ?? null
+    case "volume":
+      return row.quote?.volume ?? null
+    case "rsi":
+      return row.metrics?.rsi ?? null
+    case "recommendation":
+      return row.metrics?.recommendation ?? null
+  }
+}
+
+/** Missing values always sort last, whichever direction is chosen */
+function compareRows(a: Row, b: Row, key: SortKey, direction: 1 | -1): number {
+  const left = sortValue(a, key)
+  const right = sortValue(b, key)
+  if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1
+  if (typeof left === "string" && typeof right === "string") return left.localeCompare(right) * direction
+  return ((left as number) - (right as number)) * direction
+}
+
+function formatVolume(volume?: number): string {
+  if (!volume) return "—"
+  if (volume >= 1e9) return `${safeToFixed(volume / 1e9, 2)}B`
+  if (volume >= 1e6) return `${safeToFixed(volume / 1e6, 2)}M`
+  if (volume >= 1e3) return `${safeToFixed(volume / 1e3, 1)}K`
+  return String(volume)
+}
+
+export default function WatchlistPanel({ onOpenAnalysis }: WatchlistPanelProps) {
+  const {
+    watchlists,
+    storage,
+    isLoading,
+    error,
+    createWatchlist,
+    updateWatchlist,
+    reorderWatchlists,
+    deleteWatchlist,
+  } = useWatchlists()
+  const [activeId, setActiveId] = useState<number | null>(null)
+  const [newName, setNewName] = useState("")
+  const [renaming, setRenaming] = useState<string | null>(null)
+  const [newSymbol, setNewSymbol] = useState("")
+  const [newAssetType, setNewAssetType] = useState<AssetType>("stock")
+  const [sort, setSort] = useState<{ key: SortKey; direction: 1 | -1 }>({ key: "position", direction: 1 })
+  const [quotes, setQuotes] = useState<Record<string, StockUpdate>>({})
+  const [metrics, setMetrics] = useState<Record<string, WatchlistMetrics>>({})
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  const active = watchlists.find((list) => list.id === activeId) ?? watchlists[0]
+  const symbols = useMemo(() => (active ? active.items.map(marketSymbol) : []), [active])
+  const symbolKey = symbols.join(",")
+
+  // Live prices through the shared real-time manager; unsubscribing stops polling symbols no longer shown
+  useEffect(() => {
+    if (!symbolKey) return
+    const manager = RealTimeManager.getInstance()
+    const unsubscribers = symbolKey
+      .split(",")
+      .map((symbol) => manager.subscribe(symbol, (update) => setQuotes((prev) => ({ ...prev, [symbol]: update }))))
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }, [symbolKey])
+
+  useEffect(() => {
+    if (!symbolKey) return
+    let cancelled = false
+
+    const loadMetrics = async () => {
+      try {
+        const response = await fetch(`/api/watchlists/metrics?symbols=${encodeURIComponent(symbolKey)}`)
+        if (!response.ok) return
+        const data = await response.json()
+        if (cancelled) return
+        setMetrics((prev) => ({
+          ...prev,
+          ...Object.fromEntries(data.metrics.map((entry: WatchlistMetrics) => [entry.symbol, entry])),
+        }))
+      } catch (err) {
+        console.warn("Failed to load watchlist metrics:", err)
+      }
+    }
+
+    loadMetrics()
+    const interval = setInterval(loadMetrics, METRICS_REFRESH_MS)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [symbolKey])
+
+  const rows = useMemo(() => {
+    const list: Row[] = (active?.items ?? []).map((item, position) => {
+      const symbol = marketSymbol(item)
+      return { item, symbol, position, quote: quotes[symbol], metrics: metrics[symbol] }
+    })
+    return list.sort((a, b) => compareRows(a, b, sort.key, sort.direction))
+  }, [active, quotes, metrics, sort])
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setIsSaving(true)
+    try {
+      await action()
+      return true
+    } catch (err) {
+      toast({
+        title: failure,
+        description: err instanceof Error ? err.message : "Unknown error",
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleCreate = async () => {
+    const created = await run(async () => {
+      const watchlist = await createWatchlist(newName)
+      setActiveId(watchlist.id)
+    }, "Could not create watchlist")
+    if (created) setNewName("")
+  }
+
+  const handleRename = async () => {
+    if (!active || renaming === null) return
+    const renamed = await run(() => updateWatchlist(active.id, { name: renaming }), "Could not rename watchlist")
+    if (renamed) setRenaming(null)
+  }
+
+  const handleAddSymbol = async () => {
+    if (!active) return
+    const added = await run(
+      () => updateWatchlist(active.id, { items: [...active.items, { symbol: newSymbol, assetType: newAssetType }] }),
+      "Could not add symbol",
+    )
+    if (added) setNewSymbol("")
+  }
+
+  const moveWatchlist = (offset: -1 | 1) => {
+    if (!active) return
+    const ids = watchlists.map((list) => list.id)
+    const from = ids.indexOf(active.id)
+    const to = from + offset
+    if (to < 0 || to >= ids.length) return
+    ;[ids[from], ids[to]] = [ids[to], ids[from]]
+    run(() => reorderWatchlists(ids), "Could not reorder watchlists")
+  }
+
+  const moveItem = (position: number, offset: -1 | 1) => {
+    if (!active) return
+    const items = [...active.items]
+    const to = position + offset
+    if (to < 0 || to >= items.length) return
+    ;[items[position], items[to]] = [items[to], items[position]]
+    run(() => updateWatchlist(active.id, { items }), "Could not reorder symbols")
+  }
+
+  const removeItem = (position: number) => {
+    if (!active) return
+    const items = active.items.filter((_, i) => i !== position)
+    run(() => updateWatchlist(active.id, { items }), "Could not remove symbol")
+  }
+
+  // Text columns start A-Z, numbers start highest first; a third click returns to the list's own order
+  const toggleSort = (key: SortKey) => {
+    const initial = key === "symbol" || key === "recommendation" ? 1 : -1
+    setSort((prev) => {
+      if (prev.key !== key) return { key, direction: initial }
+      if (prev.direction === initial) return { key, direction: initial === 1 ? -1 : 1 }
+      return { key: "position", direction: 1 }
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Eye className="h-5 w-5" />
+          Watchlists
+        </CardTitle>
+        <CardDescription>
+          Live quotes for your saved symbols. Click a row to open the full analysis
+          {storage === "local" && " · saved in this browser"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {watchlists.map((list) => (
+            <Button
+              key={list.id}
+              size="sm"
+              variant={list.id === active?.id ? "default" : "outline"}
+              onClick={() => {
+                setActiveId(list.id)
+                setRenaming(null)
+              }}
+            >
+              {list.name}
+              <Badge variant="secondary" className="ml-2">
+                {list.items.length}
+              </Badge>
+            </Button>
+          ))}
+          <div className="flex items-center gap-2">
+            <Input
+              value={newName}
+              placeholder="New watchlist"
+              className="h-9 w-40"
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && newName.trim() && handleCreate()}
+            />
+            <Button size="sm" variant="outline" onClick={handleCreate} disabled={!newName.trim() || isSaving}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading watchlists...</p>
+        ) : !active ? (
+          <p className="text-sm text-muted-foreground">Create a watchlist to track stocks and crypto side by side</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              {renaming !== null ? (
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={renaming}
+                    className="h-9 w-48"
+                    onChange={(e) => setRenaming(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleRename()}
+                  />
+                  <Button size="sm" onClick={handleRename} disabled={isSaving}>
+                    Save
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setRenaming(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-1">
+                  <Button size="icon" variant="ghost" title="Move left" onClick={() => moveWatchlist(-1)}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" title="Move right" onClick={() => moveWatchlist(1)}>
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" title="Rename" onClick={() => setRenaming(active.name)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Delete watchlist"
+                    onClick={() => run(() => deleteWatchlist(active.id), "Could not delete watchlist")}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Input
+                  value={newSymbol}
+                  placeholder="Symbol"
+                  className="h-9 w-28 uppercase"
+                  onChange={(e) => setNewSymbol(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && newSymbol.trim() && handleAddSymbol()}
+                />
+                <Select value={newAssetType} onValueChange={(value) => setNewAssetType(value as AssetType)}>
+                  <SelectTrigger className="h-9 w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="stock">Stock</SelectItem>
+                    <SelectItem value="crypto">Crypto</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button size="sm" onClick={handleAddSymbol} disabled={!newSymbol.trim() || isSaving}>
+                  {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+                  Add
+                </Button>
+              </div>
+            </div>
+
+            {rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">This watchlist is empty</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {COLUMNS.map((column) => (
+                      <TableHead key={column.key}>
+                        <button className="flex items-center gap-1" onClick={() => toggleSort(column.key)}>
+                          {column.label}
+                          {sort.key !== column.key ? (
+                            <ArrowUpDown className="h-3 w-3 opacity-40" />
+                          ) : sort.direction === 1 ? (
+                            <ArrowUp className="h-3 w-3" />
+                          ) : (
+                            <ArrowDown className="h-3 w-3" />
+                          )}
+                        </button>
+                      </TableHead>
+                    ))}
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow
+                      key={`${row.item.assetType}:${row.item.symbol}`}
+                      className="cursor-pointer"
+                      onClick={() => onOpenAnalysis(row.symbol)}
+                    >
+                      <TableCell className="font-medium">
+                        <span className="flex items-center gap-2">
+                          {row.item.symbol}
+                          {row.item.assetType === "crypto" && <Badge variant="outline">Crypto</Badge>}
+                        </span>
+                      </TableCell>
+                      <TableCell>{row.quote ? safeCurrency(row.quote.price) : "—"}</TableCell>
+                      <TableCell
+                        className={
+                          !row.quote ? "" : row.quote.changePercent >= 0 ? "text-green-600" : "text-red-600"
+                        }
+                      >
+                        {row.quote
+                          ? `${row.quote.changePercent >= 0 ? "+" : ""}${safeToFixed(row.quote.changePercent, 2)}%`
+                          : "—"}
+                      </TableCell>
+                      <TableCell>{formatVolume(row.quote?.volume)}</TableCell>
+                      <TableCell>{row.metrics?.rsi != null ? safeToFixed(row.metrics.rsi, 1) : "—"}</TableCell>
+                      <TableCell>
+                        {row.metrics?.recommendation ? (
+                          <Badge variant="outline" title={row.metrics.recommendedAt ?? undefined}>
+                            {row.metrics.recommendation}
+                          </Badge>
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        <div className="flex justify-end gap-1">
+                          {sort.key === "position" && (
+                            <>
+                              <Button size="icon" variant="ghost" onClick={() => moveItem(row.position, -1)}>
+                                <ArrowUp className="h-4 w-4" />
+                              </Button>
+                              <Button size="icon" variant="ghost" onClick={() => moveItem(row.position, 1)}>
+                                <ArrowDown className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                          <Button size="icon" variant="ghost" onClick={() => removeItem(row.position)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
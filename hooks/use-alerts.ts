@@ -0,0 +1,85 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { AlertEvent, AlertRule, NewAlertRule } from "@/lib/alerts/types"
+
+/** History is re-read on this interval so triggers from the poller show up without a reload */
+const HISTORY_REFRESH_MS = 60 * 1000
+
+async function readJson(response: Response) {
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error || data.message || `Request failed with status ${response.status}`)
+  }
+  return data
+}
+
+/** Stored alert rules and recent triggers for this browser */
+export function useAlerts() {
+  const [rules, setRules] = useState<AlertRule[]>([])
+  const [events, setEvents] = useState<AlertEvent[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      const [rulesData, historyData] = await Promise.all([
+        readJson(await fetch("/api/alerts")),
+        readJson(await fetch("/api/alerts/history?limit=20")),
+      ])
+      setRules(rulesData.rules)
+      setEvents(historyData.events)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load alerts")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    const interval = setInterval(refresh, HISTORY_REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [refresh])
+
+  const createRule = useCallback(
+    async (rule: NewAlertRule): Promise<AlertRule> => {
+      const data = await readJson(
+        await fetch("/api/alerts", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(rule),
+        }),
+      )
+      await refresh()
+      return data.rule
+    },
+    [refresh],
+  )
+
+  const updateRule = useCallback(
+    async (id: number, changes: Partial<Omit<NewAlertRule, "ticker">>): Promise<AlertRule> => {
+      const data = await readJson(
+        await fetch(`/api/alerts/${id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(changes),
+        }),
+      )
+      await refresh()
+      return data.rule
+    },
+    [refresh],
+  )
+
+  const deleteRule = useCallback(
+    async (id: number): Promise<void> => {
+      await readJson(await fetch(`/api/alerts/${id}`, { method: "DELETE" }))
+      await refresh()
+    },
+    [refresh],
+  )
+
+  return { rules, events, isLoading, error, refresh, createRule, updateRule, deleteRule }
+}
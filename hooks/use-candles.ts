@@ -0,0 +1,126 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { CandleInterval, HistoricalCandle } from "@/lib/api/providers/types"
+
+/** Intraday candles are re-read on this interval so the latest bar fills in; daily candles are read once */
+const INTRADAY_REFRESH_MS = 60 * 1000
+
+export const CANDLE_INTERVALS: { value: CandleInterval; label: string }[] = [
+  { value: "1m", label: "1 min" },
+  { value: "5m", label: "5 min" },
+  { value: "15m", label: "15 min" },
+  { value: "1h", label: "1 hour" },
+  { value: "1d", label: "Daily" },
+]
+
+/** Axis and tooltip labels: time of day for intraday candles, calendar date for daily ones */
+export function formatCandleTime(candle: HistoricalCandle, style: "short" | "long" = "short"): string {
+  if (!candle.timestamp) {
+    return new Date(candle.date).toLocaleDateString(
+      "en-US",
+      style === "short"
+        ? { month: "short", day: "numeric" }
+        : { weekday: "long", year: "numeric", month: "long", day: "numeric" },
+    )
+  }
+  return new Date(candle.timestamp).toLocaleString(
+    "en-US",
+    style === "short"
+      ? { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" }
+      : { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit", timeZoneName: "short" },
+  )
+}
+
+async function readJson(response: Response) {
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error || data.message || `Request failed with status ${response.status}`)
+  }
+  return data
+}
+
+export interface CandleOptions {
+  /** Look-back in calendar days; the API picks a default per interval */
+  days?: number
+  /** Include pre-market and after-hours bars for intraday intervals */
+  extendedHours?: boolean
+}
+
+async function fetchCandles(
+  ticker: string,
+  interval: CandleInterval,
+  options: CandleOptions,
+): Promise<HistoricalCandle[]> {
+  const params = new URLSearchParams({ interval })
+  if (options.days) params.set("days", String(options.days))
+  if (options.extendedHours) params.set("extended", "true")
+  const data = await readJson(await fetch(`/api/candles/${encodeURIComponent(ticker)}?${params}`))
+  return data.candles
+}
+
+/** OHLCV candles for `ticker` at `interval`, oldest first */
+export function useCandles(ticker: string, interval: CandleInterval, options: CandleOptions = {}) {
+  const { days, extendedHours = false } = options
+  const [candles, setCandles] = useState<HistoricalCandle[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!ticker) return
+    try {
+      setCandles(await fetchCandles(ticker, interval, { days, extendedHours }))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load candles")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [ticker, interval, days, extendedHours])
+
+  useEffect(() => {
+    setIsLoading(true)
+    refresh()
+    if (interval === "1d") return
+    const timer = setInterval(refresh, INTRADAY_REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [refresh, interval])
+
+  return { candles, isLoading, error, refresh }
+}
+
+/**
+ * Candles for several tickers at once, e.g. the symbols of a comparison overlay. A ticker that fails to load is
+ * left out of `series` and reported in `errors` so the others still plot.
+ */
+export function useCandleSeries(tickers: string[], interval: CandleInterval, options: CandleOptions = {}) {
+  const { days, extendedHours = false } = options
+  const [series, setSeries] = useState<Record<string, HistoricalCandle[]>>({})
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const tickerKey = tickers.join(",")
+
+  useEffect(() => {
+    const symbols = tickerKey ? tickerKey.split(",") : []
+    let cancelled = false
+
+    Promise.allSettled(symbols.map((ticker) => fetchCandles(ticker, interval, { days, extendedHours }))).then(
+      (results) => {
+        if (cancelled) return
+        const nextSeries: Record<string, HistoricalCandle[]> = {}
+        const nextErrors: Record<string, string> = {}
+        results.forEach((result, index) => {
+          if (result.status === "fulfilled") nextSeries[symbols[index]] = result.value
+          else nextErrors[symbols[index]] = result.reason?.message ?? "Failed to load candles"
+        })
+        setSeries(nextSeries)
+        setErrors(nextErrors)
+      },
+    )
+
+    return () => {
+      cancelled = true
+    }
+  }, [tickerKey, interval, days, extendedHours])
+
+  return { series, errors }
+}
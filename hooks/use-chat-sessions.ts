@@ -0,0 +1,70 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { ChatChannel, ChatSession, ChatSessionMessage } from "@/lib/chat/types"
+
+async function readJson(response: Response) {
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error || data.message || `Request failed with status ${response.status}`)
+  }
+  return data
+}
+
+/**
+ * Stored chat sessions of one chat, optionally only those tied to a ticker. Sessions themselves are created
+ * by the chat routes when a message is sent without a session id; call `refresh` after that to list it.
+ */
+export function useChatSessions(channel: ChatChannel, ticker?: string | null) {
+  const [sessions, setSessions] = useState<ChatSession[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // The list on hand belongs to this filter; after the ticker changes it is stale until reloaded
+  const key = `${channel}:${ticker ?? ""}`
+  const [loadedKey, setLoadedKey] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ channel })
+      if (ticker) params.set("ticker", ticker)
+      const data = await readJson(await fetch(`/api/chat-sessions?${params}`))
+      setSessions(data.sessions)
+      setLoadedKey(key)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load chat sessions")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [channel, ticker, key])
+
+  useEffect(() => {
+    setIsLoading(true)
+    refresh()
+  }, [refresh])
+
+  const loadSession = useCallback(
+    async (id: number): Promise<{ session: ChatSession; messages: ChatSessionMessage[] }> => {
+      return readJson(await fetch(`/api/chat-sessions/${id}`))
+    },
+    [],
+  )
+
+  const deleteSession = useCallback(
+    async (id: number) => {
+      await readJson(await fetch(`/api/chat-sessions/${id}`, { method: "DELETE" }))
+      await refresh()
+    },
+    [refresh],
+  )
+
+  const isCurrent = loadedKey === key
+  return {
+    sessions: isCurrent ? sessions : [],
+    isLoading: isLoading || (!isCurrent && !error),
+    error,
+    refresh,
+    loadSession,
+    deleteSession,
+  }
+}
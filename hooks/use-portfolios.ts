@@ -0,0 +1,102 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { Holdings, NewTransaction, Portfolio, PortfolioDetail, PortfolioValuation } from "@/lib/portfolio/types"
+
+export interface PortfolioSummary extends Portfolio {
+  holdings: Holdings
+  transactionCount: number
+}
+
+async function readJson(response: Response) {
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error || data.message || `Request failed with status ${response.status}`)
+  }
+  return data
+}
+
+/** Stored portfolios for this browser, with helpers that keep the list current after each write */
+export function usePortfolios() {
+  const [portfolios, setPortfolios] = useState<PortfolioSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      const data = await readJson(await fetch("/api/portfolios"))
+      setPortfolios(data.portfolios)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load portfolios")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const createPortfolio = useCallback(
+    async (name: string, initialCash = 0): Promise<PortfolioDetail> => {
+      const data = await readJson(
+        await fetch("/api/portfolios", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name, initialCash }),
+        }),
+      )
+      await refresh()
+      return data.portfolio
+    },
+    [refresh],
+  )
+
+  const recordTransaction = useCallback(
+    async (portfolioId: number, transaction: NewTransaction): Promise<PortfolioDetail> => {
+      const data = await readJson(
+        await fetch(`/api/portfolios/${portfolioId}/transactions`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(transaction),
+        }),
+      )
+      await refresh()
+      return data.portfolio
+    },
+    [refresh],
+  )
+
+  return { portfolios, isLoading, error, refresh, createPortfolio, recordTransaction }
+}
+
+/** A single portfolio marked to market; reloads whenever `version` changes */
+export function usePortfolioValuation(portfolioId: number | null, version = 0) {
+  const [valuation, setValuation] = useState<PortfolioValuation | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (!portfolioId) {
+      setValuation(null)
+      return
+    }
+
+    let cancelled = false
+    setIsLoading(true)
+    fetch(`/api/portfolios/${portfolioId}`)
+      .then(readJson)
+      .then((data) => !cancelled && setValuation(data.valuation))
+      .catch((err) => {
+        console.warn("Failed to value portfolio:", err)
+        if (!cancelled) setValuation(null)
+      })
+      .finally(() => !cancelled && setIsLoading(false))
+
+    return () => {
+      cancelled = true
+    }
+  }, [portfolioId, version])
+
+  return { valuation, isLoading }
+}
@@ -0,0 +1,108 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { PushTopic } from "@/lib/push/types"
+
+type PushStatus = "unsupported" | "unconfigured" | "denied" | "unsubscribed" | "subscribed"
+
+/** VAPID keys are base64url; PushManager wants the raw bytes */
+function decodeBase64Url(value: string) {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/")
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+}
+
+async function readJson(response: Response) {
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error || data.message || `Request failed with status ${response.status}`)
+  }
+  return data
+}
+
+/**
+ * Web Push subscription for this browser through the service worker. The worker is only registered in
+ * production builds, so push is reported as unsupported in development.
+ */
+export function usePushNotifications() {
+  const [status, setStatus] = useState<PushStatus>("unsupported")
+  const [publicKey, setPublicKey] = useState<string | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  useEffect(() => {
+    if (typeof window === "undefined" || !("serviceWorker" in navigator) || !("PushManager" in window)) return
+
+    let cancelled = false
+    ;(async () => {
+      const registration = await navigator.serviceWorker.getRegistration()
+      if (!registration) return
+      const existing = await registration.pushManager.getSubscription()
+      const query = existing ? `?endpoint=${encodeURIComponent(existing.endpoint)}` : ""
+      const data = await readJson(await fetch(`/api/push/subscription${query}`))
+      if (cancelled) return
+
+      setPublicKey(data.publicKey)
+      if (!data.enabled) setStatus("unconfigured")
+      else if (Notification.permission === "denied") setStatus("denied")
+      else setStatus(data.subscription ? "subscribed" : "unsubscribed")
+    })().catch((err) => console.warn("Failed to read push subscription:", err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const subscribe = useCallback(
+    async (topics: PushTopic[] = ["alerts", "scheduled-analyses"]) => {
+      if (!publicKey) return
+      setIsBusy(true)
+      try {
+        const permission = await Notification.requestPermission()
+        if (permission !== "granted") {
+          setStatus(permission === "denied" ? "denied" : "unsubscribed")
+          return
+        }
+
+        const registration = await navigator.serviceWorker.ready
+        const subscription =
+          (await registration.pushManager.getSubscription()) ??
+          (await registration.pushManager.subscribe({
+            userVisibleOnly: true,
+            applicationServerKey: decodeBase64Url(publicKey),
+          }))
+
+        await readJson(
+          await fetch("/api/push/subscription", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ subscription: subscription.toJSON(), topics }),
+          }),
+        )
+        setStatus("subscribed")
+      } finally {
+        setIsBusy(false)
+      }
+    },
+    [publicKey],
+  )
+
+  const unsubscribe = useCallback(async () => {
+    setIsBusy(true)
+    try {
+      const registration = await navigator.serviceWorker.ready
+      const subscription = await registration.pushManager.getSubscription()
+      if (subscription) {
+        await fetch("/api/push/subscription", {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ endpoint: subscription.endpoint }),
+        })
+        await subscription.unsubscribe()
+      }
+      setStatus("unsubscribed")
+    } finally {
+      setIsBusy(false)
+    }
+  }, [])
+
+  return { status, isBusy, subscribe, unsubscribe }
+}
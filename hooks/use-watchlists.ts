@@ -0,0 +1,189 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  MAX_WATCHLISTS,
+  normalizeWatchlistItems,
+  normalizeWatchlistName,
+  validateOrder,
+} from "@/lib/watchlists/watchlist"
+import type { Watchlist, WatchlistItem } from "@/lib/watchlists/types"
+
+type WatchlistStorage = "server" | "local"
+
+const LOCAL_STORAGE_KEY = "watchlists"
+
+class StorageUnavailableError extends Error {}
+
+async function readJson(response: Response) {
+  const data = await response.json().catch(() => ({}))
+  if (response.status === 503 && data.storage === "local") {
+    throw new StorageUnavailableError(data.error)
+  }
+  if (!response.ok) {
+    throw new Error(data.error || data.message || `Request failed with status ${response.status}`)
+  }
+  return data
+}
+
+function readLocal(): Watchlist[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LOCAL_STORAGE_KEY) ?? "[]")
+    return Array.isArray(saved) ? saved : []
+  } catch {
+    return []
+  }
+}
+
+function writeLocal(watchlists: Watchlist[]): Watchlist[] {
+  const ordered = watchlists.map((list, position) => ({ ...list, position }))
+  localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(ordered))
+  return ordered
+}
+
+/**
+ * Watchlists for this browser. They are stored server-side when the API has a database; otherwise the
+ * API answers 503 and the same operations run against localStorage with the shared validation rules.
+ */
+export function useWatchlists() {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([])
+  const [storage, setStorage] = useState<WatchlistStorage>("server")
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      const data = await readJson(await fetch("/api/watchlists"))
+      setWatchlists(data.watchlists)
+      setStorage("server")
+      setError(null)
+    } catch (err) {
+      if (err instanceof StorageUnavailableError) {
+        setWatchlists(readLocal())
+        setStorage("local")
+        setError(null)
+      } else {
+        setError(err instanceof Error ? err.message : "Failed to load watchlists")
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  /** Apply a change to the localStorage copy; `change` throws WatchlistError on invalid input */
+  const updateLocal = useCallback((change: (current: Watchlist[]) => Watchlist[]) => {
+    const next = writeLocal(change(readLocal()))
+    setWatchlists(next)
+    return next
+  }, [])
+
+  const createWatchlist = useCallback(
+    async (name: string, items: WatchlistItem[] = []): Promise<Watchlist> => {
+      if (storage === "local") {
+        const now = new Date().toISOString()
+        const created: Watchlist = {
+          id: Date.now(),
+          name: normalizeWatchlistName(name),
+          position: 0,
+          items: normalizeWatchlistItems(items),
+          createdAt: now,
+          updatedAt: now,
+        }
+        const next = updateLocal((current) => {
+          if (current.length >= MAX_WATCHLISTS) throw new Error(`At most ${MAX_WATCHLISTS} watchlists can be saved`)
+          return [...current, created]
+        })
+        return next[next.length - 1]
+      }
+
+      const data = await readJson(
+        await fetch("/api/watchlists", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name, items }),
+        }),
+      )
+      await refresh()
+      return data.watchlist
+    },
+    [storage, updateLocal, refresh],
+  )
+
+  const updateWatchlist = useCallback(
+    async (id: number, changes: { name?: string; items?: WatchlistItem[] }) => {
+      if (storage === "local") {
+        const name = changes.name === undefined ? undefined : normalizeWatchlistName(changes.name)
+        const items = changes.items === undefined ? undefined : normalizeWatchlistItems(changes.items)
+        updateLocal((current) =>
+          current.map((list) =>
+            list.id === id
+              ? { ...list, name: name ?? list.name, items: items ?? list.items, updatedAt: new Date().toISOString() }
+              : list,
+          ),
+        )
+        return
+      }
+
+      await readJson(
+        await fetch(`/api/watchlists/${id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(changes),
+        }),
+      )
+      await refresh()
+    },
+    [storage, updateLocal, refresh],
+  )
+
+  const reorderWatchlists = useCallback(
+    async (ids: number[]) => {
+      if (storage === "local") {
+        updateLocal((current) => {
+          const order = validateOrder(current, ids)
+          return order.map((id) => current.find((list) => list.id === id)!)
+        })
+        return
+      }
+
+      const data = await readJson(
+        await fetch("/api/watchlists", {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ order: ids }),
+        }),
+      )
+      setWatchlists(data.watchlists)
+    },
+    [storage, updateLocal],
+  )
+
+  const deleteWatchlist = useCallback(
+    async (id: number) => {
+      if (storage === "local") {
+        updateLocal((current) => current.filter((list) => list.id !== id))
+        return
+      }
+
+      await readJson(await fetch(`/api/watchlists/${id}`, { method: "DELETE" }))
+      await refresh()
+    },
+    [storage, updateLocal, refresh],
+  )
+
+  return {
+    watchlists,
+    storage,
+    isLoading,
+    error,
+    refresh,
+    createWatchlist,
+    updateWatchlist,
+    reorderWatchlists,
+    deleteWatchlist,
+  }
+}
@@ -0,0 +1,371 @@
+import { filingContext, toCitations } from "@/lib/documents/document-retrieval"
+import type { RetrievedPassage } from "@/lib/documents/types"
+import { LLMRouter, type LLMResult } from "./llm-router"
+import type { AIFeature } from "./providers/types"
+import {
+  newsSummarySchema,
+  portfolioExplanationSchema,
+  predictiveAlertSchema,
+  stockAnalysisSchema,
+  tradingSignalSchema,
+  type StockAnalysisOutput,
+} from "./schemas"
+import { generateStructured, StructuredOutputError, type TextGenerator } from "./structured-output"
+
+/**
+ * The platform's AI features. Each method names its feature and the LLM router decides which provider and model
+ * serve it, so nothing here is tied to a vendor.
+ */
+export class AIClient {
+  constructor(private injectedRouter?: LLMRouter) {}
+
+  /** Resolved on first use so the environment is read at request time, not import time */
+  private get router(): LLMRouter {
+    return this.injectedRouter ?? LLMRouter.getInstance()
+  }
+
+  private generator(feature: AIFeature): TextGenerator {
+    return ({ system, prompt, maxOutputTokens, temperature }) =>
+      this.router.generate(feature, {
+        system,
+        messages: [{ role: "user", content: prompt }],
+        maxOutputTokens,
+        temperature,
+      })
+  }
+
+  private async generateText(
+    feature: AIFeature,
+    prompt: string,
+    settings: { maxOutputTokens: number; temperature: number },
+  ): Promise<LLMResult> {
+    return this.router.generate(feature, { messages: [{ role: "user", content: prompt }], ...settings })
+  }
+
+  /** `filings` are passages retrieved from the ticker's filings and transcripts; the reasoning cites them as [n] */
+  async generateStockAnalysis(
+    stockData: {
+      ticker: string
+      currentPrice: number
+      technicalIndicators: any
+      sentiment: any
+      news: any
+      fundamentals: any
+      position?: { shares: number; averageCost: number; unrealizedGainPercent: number } | null
+    },
+    filings: RetrievedPassage[] = [],
+  ) {
+    try {
+      const { position } = stockData
+      const positionLine = position
+        ? `- Held position: ${position.shares} shares at $${position.averageCost.toFixed(2)} average cost ` +
+          `(${position.unrealizedGainPercent.toFixed(1)}% unrealized)`
+        : "- Held position: none"
+      const prompt = `
+        As an expert financial analyst, provide a comprehensive analysis of ${stockData.ticker} stock.
+        
+        Current Data:
+        - Price: $${stockData.currentPrice}
+        - RSI: ${stockData.technicalIndicators?.rsi || "N/A"}
+        - MACD: ${stockData.technicalIndicators?.macd?.value || "N/A"}
+        - P/E Ratio: ${stockData.fundamentals?.pe || "N/A"}
+        - Market Sentiment: ${(stockData.sentiment?.overall * 100).toFixed(1)}%
+        ${positionLine}
+        
+        Provide:
+        1. Technical analysis summary
+        2. Fundamental strength assessment
+        3. Market sentiment interpretation
+        4. Risk factors
+        5. Investment recommendation (BUY/SELL/HOLD) with your confidence
+        6. Price target with reasoning
+        
+        Keep each section concise but comprehensive. Focus on actionable insights.
+        ${filingContext(filings)}
+      `
+
+      const startedAt = Date.now()
+      const { data, reply } = await generateStructured(this.generator("stock-analysis"), {
+        task: "stock-analysis",
+        schema: stockAnalysisSchema,
+        prompt,
+        maxOutputTokens: 1200,
+        temperature: 0.3,
+      })
+
+      return {
+        recommendation: data.recommendation,
+        confidence: Math.round(data.confidence),
+        targetPrice: data.targetPrice,
+        reasoning: this.formatAnalysisReasoning(data),
+        risks: data.risks,
+        citations: toCitations(filings),
+        provider: reply.provider,
+        model: reply.model,
+        responseTimeMs: Date.now() - startedAt,
+        aiGenerated: true,
+        timestamp: new Date().toISOString(),
+      }
+    } catch (error) {
+      console.error("AI analysis error:", error)
+      if (error instanceof StructuredOutputError) throw error
+      throw new Error("Failed to generate AI analysis")
+    }
+  }
+
+  /** Free text, with the provider and model that wrote it */
+  async generateMarketInsights(marketData: {
+    topStocks: string[]
+    marketTrend: string
+    volatility: number
+  }) {
+    try {
+      const prompt = `
+        Analyze current market conditions and provide insights:
+        
+        Market Data:
+        - Top performing stocks: ${marketData.topStocks.join(", ")}
+        - Market trend: ${marketData.marketTrend}
+        - Volatility index: ${marketData.volatility}
+        
+        Provide:
+        1. Overall market assessment
+        2. Sector rotation opportunities
+        3. Risk management recommendations
+        4. Key levels to watch
+        
+        Keep response under 500 words.
+      `
+
+      return await this.generateText("market-insights", prompt, { maxOutputTokens: 600, temperature: 0.4 })
+    } catch (error) {
+      console.error("Market insights error:", error)
+      throw new Error("Failed to generate market insights")
+    }
+  }
+
+  /** Free text, with the provider and model that wrote it */
+  async generateTradingStrategy(data: {
+    ticker: string
+    timeframe: string
+    riskTolerance: string
+    position: number
+  }) {
+    try {
+      const prompt = `
+        Create a trading strategy for ${data.ticker}:
+        
+        Parameters:
+        - Timeframe: ${data.timeframe}
+        - Risk tolerance: ${data.riskTolerance}
+        - Current position: ${data.position} shares
+        
+        Provide:
+        1. Entry/exit strategy
+        2. Position sizing recommendations
+        3. Stop-loss levels
+        4. Profit targets
+        5. Risk management rules
+        
+        Format as actionable trading plan.
+      `
+
+      return await this.generateText("trading-strategy", prompt, { maxOutputTokens: 800, temperature: 0.2 })
+    } catch (error) {
+      console.error("Trading strategy error:", error)
+      throw new Error("Failed to generate trading strategy")
+    }
+  }
+
+  async streamAnalysis(prompt: string) {
+    try {
+      return await this.router.stream("chat", {
+        messages: [{ role: "user", content: prompt }],
+        maxOutputTokens: 1000,
+        temperature: 0.3,
+      })
+    } catch (error) {
+      console.error("Analysis stream error:", error)
+      throw new Error("Failed to stream analysis")
+    }
+  }
+
+  /** Sections in the "**N. Title:** body" layout the analysis panel renders */
+  private formatAnalysisReasoning(analysis: StockAnalysisOutput): string {
+    return [
+      ["Technical Analysis", analysis.technicalAnalysis],
+      ["Fundamental Analysis", analysis.fundamentalAnalysis],
+      ["Market Sentiment", analysis.sentimentAnalysis],
+      ["Risk Factors", analysis.risks.map((risk) => `- ${risk}`).join("\n")],
+      ["Recommendation", `${analysis.recommendation} (${Math.round(analysis.confidence)}% confidence)`],
+      [
+        "Price Target",
+        analysis.targetPrice === null
+          ? analysis.targetReasoning
+          : `$${analysis.targetPrice.toFixed(2)}. ${analysis.targetReasoning}`,
+      ],
+    ]
+      .map(([title, body], index) => `**${index + 1}. ${title}:** ${body}`)
+      .join("\n\n")
+  }
+
+  async generateNewsSummary(ticker: string, news: any[]) {
+    try {
+      const newsText = news
+        .slice(0, 5)
+        .map((item) => `${item.title || item.headline}: ${item.summary || item.description || ""}`)
+        .join("\n\n")
+
+      const prompt = `
+        Analyze the following news articles about ${ticker} and provide:
+        1. A brief 2-3 sentence summary
+        2. 3-4 key bullet points
+        3. Overall sentiment (positive/negative/neutral)
+        4. Impact level (high/medium/low)
+        
+        News articles:
+        ${newsText}
+      `
+
+      const { data } = await generateStructured(this.generator("news-summary"), {
+        task: "news-summary",
+        schema: newsSummarySchema,
+        prompt,
+        maxOutputTokens: 600,
+        temperature: 0.4,
+      })
+
+      return data
+    } catch (error) {
+      console.error("News summary error:", error)
+      if (error instanceof StructuredOutputError) throw error
+      throw new Error("Failed to generate news summary")
+    }
+  }
+
+  async generateTradingSignal(stockData: any) {
+    try {
+      const prompt = `
+        Based on the following stock data, generate a trading signal:
+        
+        Ticker: ${stockData.ticker}
+        Current Price: $${stockData.currentPrice}
+        RSI: ${stockData.technicalIndicators?.rsi || "N/A"}
+        MACD: ${stockData.technicalIndicators?.macd?.value || "N/A"}
+        Volume: ${stockData.volume || "N/A"}
+        Price Change: ${stockData.change || "N/A"}%
+        
+        Provide:
+        1. Signal: BUY/SELL/HOLD
+        2. Strength: STRONG/MODERATE/WEAK
+        3. Reason (1 sentence)
+        4. Confidence score (0-100)
+      `
+
+      const { data } = await generateStructured(this.generator("trading-signal"), {
+        task: "trading-signal",
+        schema: tradingSignalSchema,
+        prompt,
+        maxOutputTokens: 300,
+        temperature: 0.3,
+      })
+
+      return data
+    } catch (error) {
+      console.error("Trading signal error:", error)
+      if (error instanceof StructuredOutputError) throw error
+      throw new Error("Failed to generate trading signal")
+    }
+  }
+
+  async generatePredictiveAlert(ticker: string, prediction: any, volatility: number) {
+    try {
+      const prompt = `
+        Generate a smart reminder for ${ticker}:
+        
+        Current Price: $${prediction.currentPrice}
+        Predicted Price: $${prediction.targetPrice}
+        Volatility: ${volatility}
+        Timeframe: ${prediction.timeframe || "1 month"}
+        
+        Suggest:
+        1. When to check back (e.g., "in 3 days", "next week")
+        2. What to watch for (e.g., "earnings report", "price breakout")
+        3. Priority (high/medium/low)
+        4. A brief reason
+      `
+
+      const { data } = await generateStructured(this.generator("predictive-alert"), {
+        task: "predictive-alert",
+        schema: predictiveAlertSchema,
+        prompt,
+        maxOutputTokens: 300,
+        temperature: 0.5,
+      })
+
+      return data
+    } catch (error) {
+      console.error("Predictive alert error:", error)
+      if (error instanceof StructuredOutputError) throw error
+      throw new Error("Failed to generate predictive alert")
+    }
+  }
+
+  /**
+   * Plain-language explanation of a computed optimization. The weights, statistics and trades are
+   * final; the model is only asked to explain them, never to propose its own allocation.
+   */
+  async explainPortfolioOptimization(result: {
+    objective: string
+    current: { expectedReturn: number; volatility: number; sharpeRatio: number; weights: Record<string, number> } | null
+    target: { expectedReturn: number; volatility: number; sharpeRatio: number; weights: Record<string, number> }
+    trades: { action: string; ticker: string; shares: number; value: number }[]
+    targetMet: boolean
+    observations: number
+  }) {
+    try {
+      const pct = (value: number) => `${(value * 100).toFixed(1)}%`
+      const describe = (stats: typeof result.target) =>
+        `expected return ${pct(stats.expectedReturn)}, volatility ${pct(stats.volatility)}, ` +
+        `Sharpe ${stats.sharpeRatio.toFixed(2)}`
+      const weightLines = Object.keys(result.target.weights)
+        .map((ticker) => {
+          return `${ticker}: ${pct(result.current?.weights[ticker] ?? 0)} -> ${pct(result.target.weights[ticker])}`
+        })
+        .join("\n")
+      const tradeLines =
+        result.trades.map((t) => `${t.action} ${t.shares} ${t.ticker} ($${t.value.toFixed(2)})`).join("\n") || "None"
+
+      const prompt = `
+        A quantitative optimizer (${result.objective}, ${result.observations} trading days of history) produced
+        the allocation below. Do not change or second-guess the numbers; explain them to an investor.
+        
+        Current portfolio: ${result.current ? describe(result.current) : "all cash"}
+        Optimized portfolio: ${describe(result.target)}
+        ${result.targetMet ? "" : "The volatility target could not be reached within the position bounds."}
+        
+        Weights (current -> target):
+        ${weightLines}
+        
+        Trades to rebalance:
+        ${tradeLines}
+      `
+
+      const { data } = await generateStructured(this.generator("portfolio-explanation"), {
+        task: "portfolio-explanation",
+        schema: portfolioExplanationSchema,
+        prompt,
+        maxOutputTokens: 600,
+        temperature: 0.3,
+      })
+
+      return data
+    } catch (error) {
+      console.error("Portfolio explanation error:", error)
+      if (error instanceof StructuredOutputError) throw error
+      throw new Error("Failed to explain portfolio optimization")
+    }
+  }
+}
+
+export const aiClient = new AIClient()
@@ -0,0 +1,103 @@
+import { CHAT_TOOLS, runChatTool, toolDefinitions, type ChatTool, type ChatToolContext } from "./chat-tools"
+import type { LLMRouter } from "./llm-router"
+import type { LLMMessage, LLMToolCall } from "./providers/types"
+
+/**
+ * Chat tool loop
+ *
+ * Streams one assistant turn for the "chat" feature. When the model calls tools, the calls are run, their
+ * results appended to the conversation and the model asked again, up to `maxSteps` model requests; the last
+ * step offers no tools so the turn always ends in an answer. Every call and result is emitted as it happens
+ * so the UI can show the data behind the reply.
+ */
+
+export type ChatAgentEvent =
+  | { type: "tool-call"; id: string; name: string; input: Record<string, unknown> }
+  | {
+      type: "tool-result"
+      id: string
+      name: string
+      ok: boolean
+      result?: unknown
+      error?: string
+      durationMs: number
+    }
+  | { type: "chunk"; content: string; model: string }
+  | { type: "done"; content: string; provider: string; model: string; steps: number }
+
+export interface ChatAgentOptions {
+  router: LLMRouter
+  system: string
+  /** Conversation so far, ending with the user's new message */
+  messages: LLMMessage[]
+  context: ChatToolContext
+  tools?: ChatTool[]
+  maxSteps?: number
+  maxOutputTokens?: number
+  temperature?: number
+}
+
+const DEFAULT_MAX_STEPS = 4
+/** Tool results are sent back to the model at most this long */
+const MAX_TOOL_RESULT_CHARS = 6000
+
+const TOOL_GUIDANCE =
+  "You can call tools to fetch live platform data: quotes, historical candles, technical indicators, risk " +
+  "metrics, ticker comparisons and the user's watchlists, and to search ingested SEC filings and earnings call " +
+  "transcripts. Call them whenever an answer depends on current figures or on what a company has reported " +
+  "instead of guessing, and base the numbers you quote on their results. If a tool fails, say what could not " +
+  "be retrieved."
+
+export async function* runChatAgent(options: ChatAgentOptions): AsyncGenerator<ChatAgentEvent> {
+  const tools = options.tools ?? CHAT_TOOLS
+  const definitions = toolDefinitions(tools)
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS
+  const messages = [...options.messages]
+  let content = ""
+
+  for (let step = 1; ; step++) {
+    const lastStep = step >= maxSteps
+    const reply = await options.router.streamEvents("chat", {
+      system: `${options.system}\n\n${TOOL_GUIDANCE}`,
+      messages,
+      maxOutputTokens: options.maxOutputTokens ?? 1000,
+      temperature: options.temperature ?? 0.3,
+      tools: lastStep ? undefined : definitions,
+    })
+
+    let text = ""
+    const calls: LLMToolCall[] = []
+    for await (const event of reply.events) {
+      if (event.type === "text") {
+        text += event.text
+        yield { type: "chunk", content: event.text, model: reply.model }
+      } else {
+        calls.push(event.call)
+        yield { type: "tool-call", id: event.call.id, name: event.call.name, input: event.call.input }
+      }
+    }
+    content += text
+
+    if (calls.length === 0) {
+      yield { type: "done", content, provider: reply.provider, model: reply.model, steps: step }
+      return
+    }
+
+    messages.push({ role: "assistant", content: text, toolCalls: calls })
+    for (const call of calls) {
+      const started = Date.now()
+      const outcome = await runChatTool(call, options.context, tools)
+      yield { type: "tool-result", id: call.id, name: call.name, ...outcome, durationMs: Date.now() - started }
+      messages.push({
+        role: "tool",
+        toolCallId: call.id,
+        name: call.name,
+        content: truncate(JSON.stringify(outcome.ok ? outcome.result : { error: outcome.error })),
+      })
+    }
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TOOL_RESULT_CHARS ? `${text.slice(0, MAX_TOOL_RESULT_CHARS)}...[truncated]` : text
+}
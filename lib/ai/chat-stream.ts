@@ -0,0 +1,65 @@
+import type { ChatSession } from "@/lib/chat/types"
+import type { DocumentCitation } from "@/lib/documents/types"
+import type { ChatAgentEvent } from "./chat-agent"
+
+/**
+ * Server-sent events shared by the chat routes and the chat components. Each event is one `data: {json}` line
+ * followed by a blank line.
+ */
+
+export interface ChatSearchResult {
+  title: string
+  url: string
+  description: string
+}
+
+export type ChatStreamEvent =
+  /** Sent before the reply when the turn belongs to a stored session, so the client can continue it */
+  | { type: "session"; session: ChatSession }
+  | ChatAgentEvent
+  | { type: "search"; searchResults: ChatSearchResult[] }
+  /** Filing and transcript passages quoted in the prompt, numbered as the reply cites them */
+  | { type: "citations"; citations: DocumentCitation[] }
+  | { type: "error"; error: string }
+
+export const CHAT_STREAM_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+}
+
+export function encodeChatEvent(event: ChatStreamEvent): string {
+  return `data: ${JSON.stringify({ ...event, timestamp: new Date().toISOString() })}\n\n`
+}
+
+/** Read a chat event stream to the end, calling `onEvent` for each event in order. Browser side. */
+export async function readChatStream(
+  response: Response,
+  onEvent: (event: ChatStreamEvent & { timestamp?: string }) => void,
+): Promise<void> {
+  const reader = response.body?.getReader()
+  if (!reader) throw new Error("No response body")
+
+  const decoder = new TextDecoder()
+  let buffer = ""
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split("\n")
+    buffer = lines.pop() || ""
+
+    for (const line of lines) {
+      if (!line.startsWith("data: ")) continue
+      let event: ChatStreamEvent
+      try {
+        event = JSON.parse(line.slice(6))
+      } catch (error) {
+        console.error("Error parsing chat event:", error)
+        continue
+      }
+      onEvent(event)
+    }
+  }
+}
@@ -0,0 +1,373 @@
+import { zodSchema } from "ai"
+import { z } from "zod"
+import { calculatePerformance } from "@/lib/analysis/performance-metrics"
+import { benchmarkRelation, buildRiskReport, dailyReturns } from "@/lib/analysis/risk-analytics"
+import type { MultiSourceStockClient } from "@/lib/api/multi-source-client"
+import type { CandleInterval, HistoricalCandle, IntradayInterval } from "@/lib/api/providers/types"
+import { citationLabel, retrievePassages } from "@/lib/documents/document-retrieval"
+import { DOCUMENT_FORMS } from "@/lib/documents/documents"
+import type { DocumentForm } from "@/lib/documents/types"
+import { TechnicalAnalysis } from "@/lib/utils/technical-analysis"
+import { listWatchlists } from "@/lib/watchlists/watchlist-store"
+import type { LLMToolCall, LLMToolDefinition } from "./providers/types"
+
+/**
+ * Tools the chat assistant may call mid-conversation
+ *
+ * Each tool validates its input with zod (the same schema is offered to the model as JSON Schema), reads
+ * platform data through the usual clients and returns a compact JSON-able result. Results are trimmed to what
+ * an answer needs: the model sees them verbatim and so does the user, as the data backing the reply.
+ */
+
+export interface ChatToolContext {
+  stockClient: MultiSourceStockClient
+  /** Anonymous owner of the request, or null when none could be issued; needed for watchlists only */
+  ownerId: string | null
+}
+
+export interface ChatTool<Input = any> {
+  name: string
+  description: string
+  schema: z.ZodType<Input, z.ZodTypeDef, unknown>
+  execute(input: Input, context: ChatToolContext): Promise<unknown>
+}
+
+export type ChatToolOutcome = { ok: true; result: unknown } | { ok: false; error: string }
+
+const symbolSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z0-9.^=-]{1,16}$/, "Expected a ticker symbol such as AAPL")
+
+const INDICATORS = ["rsi", "sma", "ema", "macd", "bollinger", "atr", "stochastic", "adx"] as const
+/** Candles returned to the model at most; the summary still covers the whole range */
+const MAX_CANDLES = 60
+/** Longest look-back per interval, in calendar days, matching /api/candles */
+const MAX_DAYS: Record<CandleInterval, number> = { "1m": 7, "5m": 60, "15m": 60, "1h": 60, "1d": 3650 }
+/** Calendar days of daily candles fetched for indicators, enough to warm up a 200-period average */
+const INDICATOR_HISTORY_DAYS = 400
+
+function defineTool<Input>(tool: ChatTool<Input>): ChatTool<Input> {
+  return tool
+}
+
+function round(value: number | null | undefined, digits = 4): number | null {
+  if (value === null || value === undefined || !Number.isFinite(value)) return null
+  const factor = Math.pow(10, digits)
+  return Math.round(value * factor) / factor
+}
+
+/** Trading sessions to calendar days, with slack for weekends and holidays */
+function calendarDays(sessions: number): number {
+  return Math.ceil(sessions * 1.5) + 10
+}
+
+async function dailyCandles(context: ChatToolContext, symbol: string, days: number): Promise<HistoricalCandle[]> {
+  const candles = await context.stockClient.getHistoricalData(symbol, days)
+  if (candles.length < 2) throw new Error(`No price history available for ${symbol}`)
+  return candles
+}
+
+const getQuote = defineTool({
+  name: "get_quote",
+  description: "Latest quote for a stock: price, daily change, volume, market cap and valuation figures.",
+  schema: z.object({ symbol: symbolSchema }),
+  async execute({ symbol }, context) {
+    const quote = await context.stockClient.getQuote(symbol, false)
+    return {
+      symbol: quote.ticker,
+      price: quote.currentPrice,
+      change: round(quote.change),
+      changePercent: round(quote.changePercent, 2),
+      volume: quote.volume,
+      marketCap: quote.marketCap || null,
+      pe: quote.pe || null,
+      eps: quote.eps || null,
+      beta: quote.beta || null,
+    }
+  },
+})
+
+const getCandles = defineTool({
+  name: "get_candles",
+  description:
+    "Historical OHLCV candles. Interval 1d for daily bars or 1m/5m/15m/1h for intraday. Returns a summary of " +
+    `the range and at most the last ${MAX_CANDLES} candles.`,
+  schema: z.object({
+    symbol: symbolSchema,
+    interval: z.enum(["1m", "5m", "15m", "1h", "1d"]).default("1d"),
+    days: z.number().int().min(1).max(3650).default(30).describe("Calendar days to look back"),
+  }),
+  async execute({ symbol, interval, days }, context) {
+    const lookback = Math.min(days, MAX_DAYS[interval])
+    const candles =
+      interval === "1d"
+        ? await context.stockClient.getHistoricalData(symbol, lookback)
+        : await context.stockClient.getIntradayData(symbol, interval as IntradayInterval, lookback)
+    if (candles.length === 0) throw new Error(`No ${interval} candles available for ${symbol}`)
+
+    const first = candles[0]
+    const last = candles[candles.length - 1]
+    return {
+      symbol,
+      interval,
+      days: lookback,
+      summary: {
+        candles: candles.length,
+        from: first.timestamp ?? first.date,
+        to: last.timestamp ?? last.date,
+        open: first.open,
+        close: last.close,
+        changePercent: round(first.open > 0 ? (last.close / first.open - 1) * 100 : null, 2),
+        high: Math.max(...candles.map((candle) => candle.high)),
+        low: Math.min(...candles.map((candle) => candle.low)),
+      },
+      candles: candles.slice(-MAX_CANDLES).map((candle) => ({
+        time: candle.timestamp ?? candle.date,
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        volume: candle.volume,
+      })),
+    }
+  },
+})
+
+const computeIndicator = defineTool({
+  name: "compute_indicator",
+  description:
+    "Compute a technical indicator on daily closes: rsi, sma, ema, macd, bollinger, atr, stochastic or adx. " +
+    "Returns the latest value(s) and the last five readings.",
+  schema: z.object({
+    symbol: symbolSchema,
+    indicator: z.enum(INDICATORS),
+    period: z.number().int().min(2).max(200).optional().describe("Look-back period; the usual default if omitted"),
+  }),
+  async execute({ symbol, indicator, period }, context) {
+    const candles = await dailyCandles(context, symbol, INDICATOR_HISTORY_DAYS)
+    const closes = candles.map((candle) => candle.close)
+    const series = (() => {
+      switch (indicator) {
+        case "rsi":
+          return { rsi: TechnicalAnalysis.rsiSeries(closes, period ?? 14) }
+        case "sma":
+          return { sma: TechnicalAnalysis.smaSeries(closes, period ?? 20) }
+        case "ema":
+          return { ema: TechnicalAnalysis.emaSeries(closes, period ?? 20) }
+        case "macd":
+          return TechnicalAnalysis.macdSeries(closes)
+        case "bollinger": {
+          const { upper, middle, lower } = TechnicalAnalysis.bollingerSeries(closes, period ?? 20)
+          return { upper, middle, lower }
+        }
+        case "atr":
+          return { atr: TechnicalAnalysis.atrSeries(candles, period ?? 14) }
+        case "stochastic":
+          return TechnicalAnalysis.stochasticSeries(candles, period ?? 14)
+        case "adx":
+          return TechnicalAnalysis.adxSeries(candles, period ?? 14)
+      }
+    })()
+
+    const entries = Object.entries(series)
+    return {
+      symbol,
+      indicator,
+      period: period ?? null,
+      asOf: candles[candles.length - 1].date,
+      close: closes[closes.length - 1],
+      latest: Object.fromEntries(entries.map(([key, values]) => [key, round(TechnicalAnalysis.last(values))])),
+      recent: Object.fromEntries(
+        entries.map(([key, values]) => [key, TechnicalAnalysis.recent(values, 5).map((value) => round(value))]),
+      ),
+    }
+  },
+})
+
+const getRiskMetrics = defineTool({
+  name: "get_risk_metrics",
+  description:
+    "Risk metrics from daily returns: annualized volatility, Sharpe ratio, max drawdown, one-day VaR and CVaR " +
+    "at 95% and 99%, and beta/correlation to SPY.",
+  schema: z.object({
+    symbol: symbolSchema,
+    lookbackDays: z.number().int().min(30).max(756).default(252).describe("Trading sessions to measure over"),
+  }),
+  async execute({ symbol, lookbackDays }, context) {
+    const days = calendarDays(lookbackDays)
+    const [candles, spy] = await Promise.all([
+      dailyCandles(context, symbol, days),
+      context.stockClient.getHistoricalData("SPY", days).catch((error) => {
+        console.warn("Non-critical: SPY history unavailable for chat risk metrics:", error.message)
+        return [] as HistoricalCandle[]
+      }),
+    ])
+    const report = buildRiskReport(candles, { spy }, { lookback: lookbackDays })
+
+    return {
+      symbol,
+      sessions: report.lookbackDays,
+      annualizedVolatility: round(report.volatility),
+      sharpeRatio: round(report.sharpeRatio, 2),
+      maxDrawdown: round(report.maxDrawdown),
+      drawdownPeak: report.drawdown.peakDate,
+      drawdownTrough: report.drawdown.troughDate,
+      valueAtRisk: report.valueAtRisk.map((level) => ({
+        confidence: level.confidence,
+        historicalVar: round(level.historical.var),
+        historicalCvar: round(level.historical.cvar),
+        parametricVar: round(level.parametric.var),
+      })),
+      spy: report.benchmarks.spy
+        ? {
+            beta: round(report.benchmarks.spy.beta, 2),
+            correlation: round(report.benchmarks.spy.correlation, 2),
+            observations: report.benchmarks.spy.observations,
+          }
+        : null,
+    }
+  },
+})
+
+const compareTickers = defineTool({
+  name: "compare_tickers",
+  description:
+    "Compare two to four tickers over the same window: total return, annualized volatility, Sharpe ratio, " +
+    "max drawdown, and the correlation and beta of each against the first.",
+  schema: z.object({
+    symbols: z.array(symbolSchema).min(2).max(4),
+    days: z.number().int().min(30).max(1825).default(365).describe("Calendar days to look back"),
+  }),
+  async execute({ symbols, days }, context) {
+    const unique = Array.from(new Set(symbols))
+    if (unique.length < 2) throw new Error("Need two different symbols to compare")
+
+    const histories = await Promise.all(unique.map((symbol) => dailyCandles(context, symbol, days)))
+    const returns = histories.map((candles) => dailyReturns(candles))
+    const [base, ...others] = unique
+
+    return {
+      days,
+      tickers: unique.map((symbol, i) => {
+        const performance = calculatePerformance(
+          histories[i].map((candle) => ({ date: candle.date.split("T")[0], value: candle.close })),
+        )
+        return {
+          symbol,
+          close: histories[i][histories[i].length - 1].close,
+          totalReturn: round(performance.totalReturn),
+          annualizedVolatility: round(performance.annualizedVolatility),
+          sharpeRatio: round(performance.sharpeRatio, 2),
+          maxDrawdown: round(performance.maxDrawdown.value),
+        }
+      }),
+      versus: others.map((symbol, i) => {
+        const relation = benchmarkRelation(symbol, returns[i + 1], returns[0])
+        return {
+          pair: `${symbol}/${base}`,
+          correlation: round(relation?.correlation, 2),
+          beta: round(relation?.beta, 2),
+          observations: relation?.observations ?? 0,
+        }
+      }),
+    }
+  },
+})
+
+const getWatchlists = defineTool({
+  name: "get_watchlists",
+  description: "The user's saved watchlists with their symbols, in display order.",
+  schema: z.object({}),
+  async execute(_input, context) {
+    if (!process.env.DATABASE_URL || !context.ownerId) {
+      return {
+        available: false,
+        reason: "Watchlists are stored in this browser only, so the assistant cannot read them",
+      }
+    }
+    const watchlists = await listWatchlists(context.ownerId)
+    return {
+      available: true,
+      watchlists: watchlists.map((watchlist) => ({
+        name: watchlist.name,
+        symbols: watchlist.items.map((item) => item.symbol),
+      })),
+    }
+  },
+})
+
+const searchFilings = defineTool({
+  name: "search_filings",
+  description:
+    "Search ingested SEC filings (10-K, 10-Q, 8-K) and earnings call transcripts for the passages most relevant " +
+    "to a question, e.g. risk factors, guidance or segment results. Returns each passage with its document and " +
+    "section; an empty result means nothing on the topic has been ingested.",
+  schema: z.object({
+    query: z.string().trim().min(3).max(300).describe("What to look for, in plain words"),
+    symbol: symbolSchema.optional(),
+    forms: z
+      .array(z.enum(DOCUMENT_FORMS as [DocumentForm, ...DocumentForm[]]))
+      .optional()
+      .describe("Only these document types"),
+    limit: z.number().int().min(1).max(8).default(5),
+  }),
+  async execute({ query, symbol, forms, limit }) {
+    const passages = await retrievePassages(query, { ticker: symbol, forms, limit })
+    return {
+      found: passages.length,
+      passages: passages.map(({ document, chunk, score }) => ({
+        source: citationLabel({ ...document, section: chunk.section }),
+        title: document.title,
+        filedAt: document.filedAt,
+        score: round(score, 3),
+        text: chunk.text,
+      })),
+    }
+  },
+})
+
+export const CHAT_TOOLS: ChatTool[] = [
+  getQuote,
+  getCandles,
+  computeIndicator,
+  getRiskMetrics,
+  compareTickers,
+  getWatchlists,
+  searchFilings,
+]
+
+export function toolDefinitions(tools: ChatTool[] = CHAT_TOOLS): LLMToolDefinition[] {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: zodSchema(tool.schema).jsonSchema as Record<string, unknown>,
+  }))
+}
+
+/**
+ * Validate and run one call. Failures come back as an outcome rather than a throw so the model can read the
+ * error and retry or explain, and the conversation carries on.
+ */
+export async function runChatTool(
+  call: LLMToolCall,
+  context: ChatToolContext,
+  tools: ChatTool[] = CHAT_TOOLS,
+): Promise<ChatToolOutcome> {
+  const tool = tools.find((candidate) => candidate.name === call.name)
+  if (!tool) return { ok: false, error: `Unknown tool: ${call.name}` }
+
+  const parsed = tool.schema.safeParse(call.input)
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "input"}: ${issue.message}`)
+    return { ok: false, error: `Invalid arguments: ${issues.join("; ")}` }
+  }
+
+  try {
+    return { ok: true, result: await tool.execute(parsed.data, context) }
+  } catch (error) {
+    console.warn(`Chat tool ${call.name} failed:`, error instanceof Error ? error.message : error)
+    return { ok: false, error: error instanceof Error ? error.message : "Tool failed" }
+  }
+}
@@ -0,0 +1,191 @@
+import {
+  createDefaultLLMRegistry,
+  DEFAULT_FEATURE_MODELS,
+  parseFeatureModels,
+  type LLMProviderRegistry,
+} from "./providers/registry"
+import type {
+  AIFeature,
+  FeatureModels,
+  LLMMessage,
+  LLMProvider,
+  LLMStreamEvent,
+  LLMToolDefinition,
+} from "./providers/types"
+
+/**
+ * LLM router
+ *
+ * Resolves a feature to its ordered provider/model choices and walks them until one answers. Choices naming a
+ * provider that is not configured are skipped; configured providers the list does not mention are appended
+ * with their default model, so adding a key is enough to gain a last-resort fallback.
+ */
+
+export interface LLMCall {
+  system?: string
+  messages: LLMMessage[]
+  maxOutputTokens: number
+  temperature: number
+  tools?: LLMToolDefinition[]
+}
+
+export interface LLMResult {
+  text: string
+  provider: string
+  model: string
+}
+
+export interface LLMStream {
+  provider: string
+  model: string
+  textStream: AsyncIterable<string>
+}
+
+export interface LLMEventStream {
+  provider: string
+  model: string
+  events: AsyncIterable<LLMStreamEvent>
+}
+
+export interface LLMFailure {
+  provider: string
+  model: string
+  error: string
+}
+
+export class LLMUnavailableError extends Error {
+  constructor(
+    message: string,
+    public feature: AIFeature,
+    public failures: LLMFailure[],
+    public status = 503,
+  ) {
+    super(message)
+    this.name = "LLMUnavailableError"
+  }
+}
+
+interface ResolvedChoice {
+  provider: LLMProvider
+  model: string
+}
+
+export class LLMRouter {
+  private static instance: LLMRouter
+
+  /**
+   * @param pinned Serve every feature from this provider only (LLM_PROVIDER), e.g. "local" or "fake"
+   */
+  constructor(
+    private registry: LLMProviderRegistry,
+    private featureModels: FeatureModels = {},
+    private pinned?: string,
+  ) {}
+
+  static getInstance(): LLMRouter {
+    if (!LLMRouter.instance) {
+      LLMRouter.instance = new LLMRouter(
+        createDefaultLLMRegistry(),
+        parseFeatureModels(process.env.LLM_FEATURE_MODELS),
+        process.env.LLM_PROVIDER || undefined,
+      )
+    }
+    return LLMRouter.instance
+  }
+
+  resolve(feature: AIFeature): ResolvedChoice[] {
+    const choices = this.featureModels[feature] ?? DEFAULT_FEATURE_MODELS[feature]
+
+    if (this.pinned) {
+      const provider = this.registry.get(this.pinned)
+      if (!provider) return []
+      const model = choices.find((choice) => choice.provider === provider.name)?.model ?? provider.defaultModel
+      return [{ provider, model }]
+    }
+
+    const resolved: ResolvedChoice[] = []
+    for (const choice of choices) {
+      const provider = this.registry.get(choice.provider)
+      if (provider) resolved.push({ provider, model: choice.model ?? provider.defaultModel })
+    }
+    for (const provider of this.registry.list()) {
+      if (!resolved.some((choice) => choice.provider === provider)) {
+        resolved.push({ provider, model: provider.defaultModel })
+      }
+    }
+    return resolved
+  }
+
+  isAvailable(feature: AIFeature): boolean {
+    return this.resolve(feature).length > 0
+  }
+
+  async generate(feature: AIFeature, call: LLMCall): Promise<LLMResult> {
+    const failures: LLMFailure[] = []
+
+    for (const { provider, model } of this.resolve(feature)) {
+      try {
+        const text = await provider.generate({ ...call, feature, model })
+        return { text, provider: provider.name, model }
+      } catch (error: any) {
+        failures.push(this.failure(feature, provider, model, error))
+      }
+    }
+    throw this.unavailable(feature, failures)
+  }
+
+  /** Text-only stream, for callers that offer no tools */
+  async stream(feature: AIFeature, call: LLMCall): Promise<LLMStream> {
+    const { provider, model, events } = await this.streamEvents(feature, call)
+    return { provider, model, textStream: textOnly(events) }
+  }
+
+  /**
+   * Stream from the first choice that produces an event. Once an event has been sent the stream is committed to
+   * that provider; a failure mid-stream surfaces to the reader rather than restarting elsewhere.
+   */
+  async streamEvents(feature: AIFeature, call: LLMCall): Promise<LLMEventStream> {
+    const failures: LLMFailure[] = []
+
+    for (const { provider, model } of this.resolve(feature)) {
+      const iterator = provider.stream({ ...call, feature, model })[Symbol.asyncIterator]()
+      let first: IteratorResult<LLMStreamEvent>
+      try {
+        first = await iterator.next()
+      } catch (error: any) {
+        failures.push(this.failure(feature, provider, model, error))
+        continue
+      }
+      return { provider: provider.name, model, events: resume(first, iterator) }
+    }
+    throw this.unavailable(feature, failures)
+  }
+
+  private failure(feature: AIFeature, provider: LLMProvider, model: string, error: any): LLMFailure {
+    console.warn(`LLM ${provider.name}/${model} failed for ${feature}, trying next choice:`, error.message)
+    return { provider: provider.name, model, error: error.message }
+  }
+
+  private unavailable(feature: AIFeature, failures: LLMFailure[]): LLMUnavailableError {
+    if (failures.length === 0) {
+      return new LLMUnavailableError(`No LLM provider is configured for ${feature}`, feature, [])
+    }
+    return new LLMUnavailableError(
+      `Every LLM provider failed for ${feature}: ` +
+        failures.map((failure) => `${failure.provider}/${failure.model}: ${failure.error}`).join("; "),
+      feature,
+      failures,
+    )
+  }
+}
+
+/** Replay the event already pulled, then continue the same iterator */
+async function* resume<T>(first: IteratorResult<T>, rest: AsyncIterator<T>): AsyncIterable<T> {
+  for (let next = first; !next.done; next = await rest.next()) yield next.value
+}
+
+async function* textOnly(events: AsyncIterable<LLMStreamEvent>): AsyncIterable<string> {
+  for await (const event of events) {
+    if (event.type === "text") yield event.text
+  }
+}
@@ -0,0 +1,84 @@
+import type { AIFeature, LLMProvider, LLMRequest, LLMStreamEvent, LLMToolCall } from "./types"
+
+/**
+ * Deterministic provider for tests and offline development (LLM_PROVIDER=fake). The same request always gets
+ * the same reply: by default a canned, schema-valid answer per feature. When chat offers a get_quote tool and
+ * the latest user message has a cashtag ("$AAPL"), it first calls that tool, so the tool loop runs offline too.
+ * Every request is recorded.
+ */
+
+export type FakeReply = string | { text?: string; toolCalls: LLMToolCall[] }
+export type FakeResponder = (request: LLMRequest) => FakeReply
+
+export const FAKE_RESPONSES: Record<AIFeature, string> = {
+  "stock-analysis": JSON.stringify({
+    recommendation: "HOLD",
+    confidence: 60,
+    targetPrice: null,
+    technicalAnalysis: "Fake provider: price is trading inside its recent range.",
+    fundamentalAnalysis: "Fake provider: no fundamental view.",
+    sentimentAnalysis: "Fake provider: sentiment is neutral.",
+    risks: ["Fake provider output, not a real analysis"],
+    targetReasoning: "Fake provider: no price target.",
+  }),
+  "trading-signal": JSON.stringify({
+    signal: "HOLD",
+    strength: "WEAK",
+    reason: "Fake provider: no signal.",
+    confidence: 50,
+  }),
+  "predictive-alert": JSON.stringify({
+    checkBackIn: "1 week",
+    watchFor: "fake provider reminder",
+    priority: "low",
+    reason: "Fake provider output.",
+  }),
+  "news-summary": JSON.stringify({
+    summary: "Fake provider summary.",
+    keyPoints: ["Fake provider key point"],
+    sentiment: "neutral",
+    impact: "low",
+  }),
+  "portfolio-explanation": JSON.stringify({
+    assessment: "Fake provider assessment.",
+    suggestions: [],
+  }),
+  "market-insights": "Fake provider market insights.",
+  "trading-strategy": "Fake provider trading strategy.",
+  chat: "Fake provider reply.",
+  "chat-summary": "Fake provider conversation summary.",
+}
+
+export function defaultFakeReply(request: LLMRequest): FakeReply {
+  const last = request.messages[request.messages.length - 1]
+  const cashtag = last?.role === "user" ? last.content.match(/\$([A-Za-z][A-Za-z.]{0,9})\b/) : null
+  if (cashtag && request.tools?.some((tool) => tool.name === "get_quote")) {
+    return { toolCalls: [{ id: "fake-call-1", name: "get_quote", input: { symbol: cashtag[1].toUpperCase() } }] }
+  }
+  return FAKE_RESPONSES[request.feature]
+}
+
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = "fake"
+  readonly defaultModel = "fake-model"
+  readonly requests: LLMRequest[] = []
+
+  constructor(private respond: FakeResponder = defaultFakeReply) {}
+
+  async generate(request: LLMRequest): Promise<string> {
+    this.requests.push(request)
+    const reply = this.respond(request)
+    return typeof reply === "string" ? reply : (reply.text ?? "")
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    this.requests.push(request)
+    const reply = this.respond(request)
+    const text = typeof reply === "string" ? reply : (reply.text ?? "")
+    // Word-sized deltas, whitespace kept, so joined chunks equal the generated text
+    for (const chunk of text.match(/\S+\s*|\s+/g) ?? []) yield { type: "text", text: chunk }
+    if (typeof reply !== "string") {
+      for (const call of reply.toolCalls) yield { type: "tool-call", call }
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { createGroq, type GroqProvider as GroqModels } from "@ai-sdk/groq"
+import { generateText, jsonSchema, streamText, tool, type ModelMessage, type ToolSet } from "ai"
+import type { LLMMessage, LLMProvider, LLMRequest, LLMStreamEvent } from "./types"
+
+export class GroqProvider implements LLMProvider {
+  readonly name = "groq"
+  readonly defaultModel = "llama-3.3-70b-versatile"
+  private groq: GroqModels
+
+  constructor(apiKey: string) {
+    this.groq = createGroq({ apiKey })
+  }
+
+  async generate(request: LLMRequest): Promise<string> {
+    const { text } = await generateText(this.settings(request))
+    return text
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    // textStream swallows errors; fullStream reports them so the router can fall back
+    for await (const part of streamText(this.settings(request)).fullStream) {
+      if (part.type === "text-delta") {
+        yield { type: "text", text: part.text }
+      } else if (part.type === "tool-call") {
+        yield {
+          type: "tool-call",
+          call: { id: part.toolCallId, name: part.toolName, input: (part.input ?? {}) as Record<string, unknown> },
+        }
+      } else if (part.type === "error") {
+        throw part.error
+      }
+    }
+  }
+
+  private settings(request: LLMRequest) {
+    // Tools without execute: the SDK stops after the model's calls and the caller runs them
+    const tools: ToolSet | undefined = request.tools?.length
+      ? Object.fromEntries(
+          request.tools.map((definition) => [
+            definition.name,
+            tool({ description: definition.description, inputSchema: jsonSchema(definition.parameters) }),
+          ]),
+        )
+      : undefined
+
+    return {
+      model: this.groq(request.model),
+      system: request.system,
+      messages: request.messages.map(toModelMessage),
+      tools,
+      maxOutputTokens: request.maxOutputTokens,
+      temperature: request.temperature,
+    }
+  }
+}
+
+function toModelMessage(message: LLMMessage): ModelMessage {
+  if (message.role === "tool") {
+    return {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: message.toolCallId,
+          toolName: message.name,
+          output: { type: "text", value: message.content },
+        },
+      ],
+    }
+  }
+  if (message.role === "assistant" && message.toolCalls?.length) {
+    return {
+      role: "assistant",
+      content: [
+        ...(message.content ? [{ type: "text" as const, text: message.content }] : []),
+        ...message.toolCalls.map((call) => ({
+          type: "tool-call" as const,
+          toolCallId: call.id,
+          toolName: call.name,
+          input: call.input,
+        })),
+      ],
+    }
+  }
+  return { role: message.role, content: message.content }
+}
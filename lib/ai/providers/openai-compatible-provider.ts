@@ -0,0 +1,146 @@
+import { LLMProviderError, type LLMMessage, type LLMProvider, type LLMRequest, type LLMStreamEvent } from "./types"
+
+export interface OpenAICompatibleOptions {
+  /** Base URL up to and including the version segment, e.g. http://localhost:11434/v1 */
+  baseUrl: string
+  defaultModel: string
+  /** Local servers usually need none */
+  apiKey?: string
+  headers?: Record<string, string>
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenRouter, a local llama.cpp or Ollama server, vLLM.
+ * Talks plain fetch so no vendor SDK is needed.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly defaultModel: string
+
+  constructor(
+    readonly name: string,
+    private options: OpenAICompatibleOptions,
+  ) {
+    this.defaultModel = options.defaultModel
+  }
+
+  async generate(request: LLMRequest): Promise<string> {
+    const response = await this.post(request, false)
+    const data = await response.json()
+    const content = data.choices?.[0]?.message?.content
+    if (typeof content !== "string") throw new LLMProviderError(`${this.name} returned no message content`, this.name)
+    return content
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    const response = await this.post(request, true)
+    const reader = response.body?.getReader()
+    if (!reader) throw new LLMProviderError(`${this.name} returned no response body`, this.name)
+
+    // Tool calls arrive as fragments keyed by index and are complete only when the stream ends
+    const toolCalls: { id: string; name: string; arguments: string }[] = []
+    const decoder = new TextDecoder()
+    let buffer = ""
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split("\n")
+      buffer = lines.pop() || ""
+
+      for (const line of lines) {
+        const trimmed = line.trim()
+        if (!trimmed.startsWith("data: ") || trimmed === "data: [DONE]") continue
+        let delta: any
+        try {
+          delta = JSON.parse(trimmed.slice(6)).choices?.[0]?.delta
+        } catch (error) {
+          console.error(`Error parsing ${this.name} chunk:`, error)
+          continue
+        }
+        if (delta?.content) yield { type: "text", text: delta.content }
+        for (const fragment of delta?.tool_calls ?? []) {
+          const call = (toolCalls[fragment.index ?? 0] ??= { id: "", name: "", arguments: "" })
+          if (fragment.id) call.id = fragment.id
+          if (fragment.function?.name) call.name += fragment.function.name
+          if (fragment.function?.arguments) call.arguments += fragment.function.arguments
+        }
+      }
+    }
+
+    for (const [index, call] of toolCalls.entries()) {
+      if (!call) continue
+      yield {
+        type: "tool-call",
+        call: { id: call.id || `call_${index}`, name: call.name, input: parseArguments(call.arguments) },
+      }
+    }
+  }
+
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.options.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+        ...this.options.headers,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: [
+          ...(request.system ? [{ role: "system", content: request.system }] : []),
+          ...request.messages.map(toWire),
+        ],
+        max_tokens: request.maxOutputTokens,
+        temperature: request.temperature,
+        ...(request.tools?.length
+          ? {
+              tools: request.tools.map((tool) => ({
+                type: "function",
+                function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+              })),
+            }
+          : {}),
+        stream,
+      }),
+    })
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "")
+      throw new LLMProviderError(
+        `${this.name} request failed: ${response.status} ${detail.slice(0, 200)}`.trim(),
+        this.name,
+        response.status,
+      )
+    }
+    return response
+  }
+}
+
+function toWire(message: LLMMessage) {
+  if (message.role === "tool") {
+    return { role: "tool", tool_call_id: message.toolCallId, content: message.content }
+  }
+  if (message.role === "assistant" && message.toolCalls?.length) {
+    return {
+      role: "assistant",
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: "function",
+        function: { name: call.name, arguments: JSON.stringify(call.input) },
+      })),
+    }
+  }
+  return { role: message.role, content: message.content }
+}
+
+/** Models occasionally send empty or broken argument JSON; the tool's own validation reports it */
+function parseArguments(json: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(json || "{}")
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {}
+  } catch {
+    return {}
+  }
+}
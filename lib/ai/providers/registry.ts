@@ -0,0 +1,106 @@
+import { FakeLLMProvider } from "./fake-provider"
+import { GroqProvider } from "./groq-provider"
+import { OpenAICompatibleProvider } from "./openai-compatible-provider"
+import type { AIFeature, FeatureModels, LLMProvider, ModelChoice } from "./types"
+
+const STRUCTURED_MODELS: ModelChoice[] = [
+  { provider: "groq", model: "llama-3.3-70b-versatile" },
+  { provider: "openrouter", model: "deepseek/deepseek-chat-v3.1" },
+  { provider: "local" },
+]
+
+/**
+ * Default model order per feature. Structured tasks lead with Groq's Llama 3.3 70B for its JSON discipline and
+ * latency; chat leads with DeepSeek on OpenRouter, which writes longer-form analysis. A local server is the last
+ * resort everywhere.
+ */
+export const DEFAULT_FEATURE_MODELS: Record<AIFeature, ModelChoice[]> = {
+  "stock-analysis": STRUCTURED_MODELS,
+  "trading-signal": STRUCTURED_MODELS,
+  "predictive-alert": STRUCTURED_MODELS,
+  "news-summary": STRUCTURED_MODELS,
+  "portfolio-explanation": STRUCTURED_MODELS,
+  "market-insights": STRUCTURED_MODELS,
+  "trading-strategy": STRUCTURED_MODELS,
+  "chat-summary": STRUCTURED_MODELS,
+  chat: [
+    { provider: "openrouter", model: "deepseek/deepseek-chat-v3.1" },
+    { provider: "groq", model: "llama-3.3-70b-versatile" },
+    { provider: "local" },
+  ],
+}
+
+export class LLMProviderRegistry {
+  private providers = new Map<string, LLMProvider>()
+
+  register(provider: LLMProvider): this {
+    this.providers.set(provider.name, provider)
+    return this
+  }
+
+  get(name: string): LLMProvider | undefined {
+    return this.providers.get(name)
+  }
+
+  list(): LLMProvider[] {
+    return Array.from(this.providers.values())
+  }
+}
+
+/**
+ * Parse LLM_FEATURE_MODELS, e.g. "chat=local:qwen2.5,groq;trading-signal=groq:llama-3.1-8b-instant".
+ * Features are separated by ";", choices by ","; a choice without ":model" uses the provider's default model.
+ */
+export function parseFeatureModels(value: string | undefined): FeatureModels {
+  const models: FeatureModels = {}
+  if (!value) return models
+
+  for (const entry of value.split(";")) {
+    const [feature, list] = entry.split("=").map((part) => part?.trim())
+    if (!feature || !list || !(feature in DEFAULT_FEATURE_MODELS)) continue
+
+    const choices = list
+      .split(",")
+      .map((choice) => choice.trim())
+      .filter(Boolean)
+      .map((choice): ModelChoice => {
+        const separator = choice.indexOf(":")
+        return separator === -1
+          ? { provider: choice }
+          : { provider: choice.slice(0, separator), model: choice.slice(separator + 1) }
+      })
+    if (choices.length > 0) models[feature as AIFeature] = choices
+  }
+  return models
+}
+
+/**
+ * Build a registry from the environment. Groq and OpenRouter register when their keys are set; a local
+ * OpenAI-compatible server when LOCAL_LLM_BASE_URL is. The fake provider registers only when LLM_PROVIDER=fake.
+ */
+export function createDefaultLLMRegistry(env: Record<string, string | undefined> = process.env) {
+  const registry = new LLMProviderRegistry()
+
+  if (env.GROQ_API_KEY) registry.register(new GroqProvider(env.GROQ_API_KEY))
+  if (env.OPENROUTER_KEY) {
+    registry.register(
+      new OpenAICompatibleProvider("openrouter", {
+        baseUrl: "https://openrouter.ai/api/v1",
+        defaultModel: "deepseek/deepseek-chat-v3.1",
+        apiKey: env.OPENROUTER_KEY,
+      }),
+    )
+  }
+  if (env.LOCAL_LLM_BASE_URL) {
+    registry.register(
+      new OpenAICompatibleProvider("local", {
+        baseUrl: env.LOCAL_LLM_BASE_URL,
+        defaultModel: env.LOCAL_LLM_MODEL || "llama3.1",
+        apiKey: env.LOCAL_LLM_API_KEY,
+      }),
+    )
+  }
+  if (env.LLM_PROVIDER === "fake") registry.register(new FakeLLMProvider())
+
+  return registry
+}
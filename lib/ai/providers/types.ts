@@ -0,0 +1,83 @@
+/**
+ * LLM provider contracts
+ *
+ * Every model backend (Groq, OpenRouter, a local OpenAI-compatible server, the fake used in tests) implements
+ * LLMProvider. Features never talk to a provider directly: they name an AIFeature and the router picks the
+ * provider and model, falling back down the feature's list when one fails.
+ */
+
+export type AIFeature =
+  | "stock-analysis"
+  | "trading-signal"
+  | "predictive-alert"
+  | "news-summary"
+  | "portfolio-explanation"
+  | "market-insights"
+  | "trading-strategy"
+  | "chat"
+  | "chat-summary"
+
+/** A function the model may call; `parameters` is a JSON Schema object */
+export interface LLMToolDefinition {
+  name: string
+  description: string
+  parameters: Record<string, unknown>
+}
+
+export interface LLMToolCall {
+  /** Provider-assigned id the matching tool message refers back to */
+  id: string
+  name: string
+  input: Record<string, unknown>
+}
+
+export type LLMMessage =
+  | { role: "user"; content: string }
+  | { role: "assistant"; content: string; toolCalls?: LLMToolCall[] }
+  /** Result of one tool call, serialized for the model */
+  | { role: "tool"; toolCallId: string; name: string; content: string }
+
+export interface LLMRequest {
+  /** The feature asking, so providers can log it and the fake provider can answer in kind */
+  feature: AIFeature
+  model: string
+  system?: string
+  messages: LLMMessage[]
+  maxOutputTokens: number
+  temperature: number
+  /** Offered to the model; calls come back as tool-call events and are never executed by the provider */
+  tools?: LLMToolDefinition[]
+}
+
+export type LLMStreamEvent = { type: "text"; text: string } | { type: "tool-call"; call: LLMToolCall }
+
+export interface LLMProvider {
+  /** Stable identifier used in model choices, e.g. "groq" or "local" */
+  readonly name: string
+  /** Model used when a choice names only the provider */
+  readonly defaultModel: string
+
+  generate(request: LLMRequest): Promise<string>
+  /** Text deltas and tool calls in order; errors before the first event let the router fall back */
+  stream(request: LLMRequest): AsyncIterable<LLMStreamEvent>
+}
+
+/** One provider/model pair in a feature's fallback list */
+export interface ModelChoice {
+  provider: string
+  /** Defaults to the provider's defaultModel */
+  model?: string
+}
+
+export type FeatureModels = Partial<Record<AIFeature, ModelChoice[]>>
+
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: string,
+    public status = 502,
+  ) {
+    super(message)
+    this.name = "LLMProviderError"
+  }
+}
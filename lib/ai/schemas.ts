@@ -0,0 +1,64 @@
+import { z } from "zod"
+
+/**
+ * Output schemas for the structured GroqAIClient tasks. Enums accept any letter case and numbers may arrive as
+ * numeric strings, since models drift on both; everything else must match exactly.
+ */
+
+const looseEnum = <T extends [string, ...string[]]>(values: T, toCase: "upper" | "lower") =>
+  z.preprocess((value) => {
+    if (typeof value !== "string") return value
+    return toCase === "upper" ? value.trim().toUpperCase() : value.trim().toLowerCase()
+  }, z.enum(values))
+
+/** Accepts "85", "85%" or "$1,234.50" as well as plain numbers */
+const looseNumber = (schema: z.ZodNumber) =>
+  z.preprocess((value) => {
+    if (typeof value !== "string" || value.trim() === "") return value
+    return Number(value.replace(/[$,%\s]/g, ""))
+  }, schema)
+
+const text = z.string().trim().min(1)
+
+export const stockAnalysisSchema = z.object({
+  recommendation: looseEnum(["BUY", "SELL", "HOLD"], "upper").describe("Investment recommendation"),
+  confidence: looseNumber(z.number().min(0).max(100)).describe("Confidence in the recommendation, 0-100"),
+  targetPrice: looseNumber(z.number().positive()).nullable().describe("Price target in dollars, or null if none"),
+  technicalAnalysis: text.describe("Technical analysis summary"),
+  fundamentalAnalysis: text.describe("Fundamental strength assessment"),
+  sentimentAnalysis: text.describe("Market sentiment interpretation"),
+  risks: z.array(text).min(1).max(6).describe("Key risk factors"),
+  targetReasoning: text.describe("Reasoning behind the recommendation and price target"),
+})
+
+export const tradingSignalSchema = z.object({
+  signal: looseEnum(["BUY", "SELL", "HOLD"], "upper"),
+  strength: looseEnum(["STRONG", "MODERATE", "WEAK"], "upper"),
+  reason: text.describe("One sentence"),
+  confidence: looseNumber(z.number().min(0).max(100)),
+})
+
+export const predictiveAlertSchema = z.object({
+  checkBackIn: text.describe('When to check back, e.g. "3 days" or "next week"'),
+  watchFor: text.describe('What to watch for, e.g. "earnings report" or "price breakout"'),
+  priority: looseEnum(["high", "medium", "low"], "lower"),
+  reason: text.describe("Brief explanation"),
+})
+
+export const newsSummarySchema = z.object({
+  summary: text.describe("2-3 sentence summary"),
+  keyPoints: z.array(text).min(1).max(6),
+  sentiment: looseEnum(["positive", "negative", "neutral"], "lower"),
+  impact: looseEnum(["high", "medium", "low"], "lower"),
+})
+
+export const portfolioExplanationSchema = z.object({
+  assessment: text.describe("2-3 sentences on what the optimization changes and why"),
+  suggestions: z.array(text).max(6).describe("Caveats or practical notes"),
+})
+
+export type StockAnalysisOutput = z.infer<typeof stockAnalysisSchema>
+export type TradingSignal = z.infer<typeof tradingSignalSchema>
+export type PredictiveAlert = z.infer<typeof predictiveAlertSchema>
+export type NewsSummary = z.infer<typeof newsSummarySchema>
+export type PortfolioExplanation = z.infer<typeof portfolioExplanationSchema>
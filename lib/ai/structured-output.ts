@@ -0,0 +1,174 @@
+import { zodSchema } from "ai"
+import type { z } from "zod"
+import type { LLMResult } from "./llm-router"
+
+/**
+ * Structured model output
+ *
+ * Every structured task asks for a single JSON object described by a zod schema. The reply is parsed, lightly
+ * repaired when it is almost JSON (code fences, comment lines, trailing commas) and validated; a reply that still
+ * does not conform is sent back to the model once with the validation errors. What cannot be fixed surfaces as a
+ * StructuredOutputError instead of a made-up default.
+ */
+
+export type StructuredFailureKind = "provider" | "invalid-json" | "schema"
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public kind: StructuredFailureKind,
+    public task: string,
+    public attempts: number,
+    public issues: string[] = [],
+    public rawText?: string,
+  ) {
+    super(message)
+    this.name = "StructuredOutputError"
+  }
+
+  /** Safe to return to API clients: no raw model text */
+  toJSON() {
+    return { error: this.message, kind: this.kind, task: this.task, attempts: this.attempts, issues: this.issues }
+  }
+}
+
+export interface TextRequest {
+  system: string
+  prompt: string
+  maxOutputTokens: number
+  temperature: number
+}
+
+/** Sends one prompt to a model and resolves with its text reply and the provider and model that wrote it */
+export type TextGenerator = (request: TextRequest) => Promise<LLMResult>
+
+export interface StructuredRequest<T> {
+  /** Names the task in errors and logs, e.g. "trading-signal" */
+  task: string
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+  prompt: string
+  maxOutputTokens: number
+  temperature: number
+  /** Model calls before giving up, including the first; defaults to 2 */
+  maxAttempts?: number
+}
+
+export interface StructuredResult<T> {
+  data: T
+  /** The accepted reply, naming the provider and model that produced `data` */
+  reply: LLMResult
+  attempts: number
+  /** True when the accepted reply needed local repair to parse */
+  repaired: boolean
+}
+
+type ParseOutcome<T> =
+  | { ok: true; data: T; repaired: boolean }
+  | { ok: false; kind: Exclude<StructuredFailureKind, "provider">; issues: string[] }
+
+const DEFAULT_MAX_ATTEMPTS = 2
+/** Previous reply quoted back to the model on a retry, truncated to keep the prompt small */
+const RETRY_QUOTE_LIMIT = 2000
+
+/** The outermost {...} of a reply, without markdown code fences or surrounding prose */
+export function extractJsonObject(text: string): string | null {
+  const unfenced = text.replace(/```(?:json)?/gi, "")
+  const start = unfenced.indexOf("{")
+  const end = unfenced.lastIndexOf("}")
+  return start === -1 || end <= start ? null : unfenced.slice(start, end + 1)
+}
+
+/** Fix the near-JSON models commonly produce; valid JSON is returned unchanged */
+export function repairJson(json: string): string {
+  return json
+    .replace(/^\s*\/\/.*$/gm, "")
+    .replace(/,\s*([}\]])/g, "$1")
+}
+
+export function parseStructured<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): ParseOutcome<T> {
+  const json = extractJsonObject(text)
+  if (json === null) return { ok: false, kind: "invalid-json", issues: ["Reply contains no JSON object"] }
+
+  let value: unknown
+  let repaired = false
+  try {
+    value = JSON.parse(json)
+  } catch {
+    try {
+      value = JSON.parse(repairJson(json))
+      repaired = true
+    } catch (error: any) {
+      return { ok: false, kind: "invalid-json", issues: [error.message] }
+    }
+  }
+
+  const result = schema.safeParse(value)
+  if (!result.success) {
+    return {
+      ok: false,
+      kind: "schema",
+      issues: result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+    }
+  }
+  return { ok: true, data: result.data, repaired }
+}
+
+function systemPrompt(schema: z.ZodTypeAny): string {
+  return (
+    "Reply with a single JSON object and nothing else: no markdown, no code fences, no commentary. " +
+    `It must conform to this JSON Schema:\n${JSON.stringify(zodSchema(schema).jsonSchema)}`
+  )
+}
+
+export async function generateStructured<T>(
+  generate: TextGenerator,
+  request: StructuredRequest<T>,
+): Promise<StructuredResult<T>> {
+  const maxAttempts = request.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+  const system = systemPrompt(request.schema)
+  let prompt = request.prompt
+  let failure: { kind: Exclude<StructuredFailureKind, "provider">; issues: string[]; text: string } | null = null
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let reply: LLMResult
+    try {
+      reply = await generate({
+        system,
+        prompt,
+        maxOutputTokens: request.maxOutputTokens,
+        // A correction should not be creative
+        temperature: attempt === 1 ? request.temperature : 0,
+      })
+    } catch (error: any) {
+      throw new StructuredOutputError(
+        `Model request for ${request.task} failed: ${error.message}`,
+        "provider",
+        request.task,
+        attempt,
+      )
+    }
+
+    const { text } = reply
+    const outcome = parseStructured(text, request.schema)
+    if (outcome.ok) return { data: outcome.data, reply, attempts: attempt, repaired: outcome.repaired }
+
+    failure = { kind: outcome.kind, issues: outcome.issues, text }
+    console.warn(`${request.task} output rejected (attempt ${attempt}/${maxAttempts}):`, outcome.issues.join("; "))
+    prompt =
+      `${request.prompt}\n\nYour previous reply could not be used:\n` +
+      `${outcome.issues.map((issue) => `- ${issue}`).join("\n")}\n\n` +
+      `Previous reply:\n${text.slice(0, RETRY_QUOTE_LIMIT)}\n\n` +
+      "Reply again with only the corrected JSON object."
+  }
+
+  throw new StructuredOutputError(
+    failure!.kind === "schema"
+      ? `${request.task} output did not match the expected schema`
+      : `${request.task} output was not valid JSON`,
+    failure!.kind,
+    request.task,
+    maxAttempts,
+    failure!.issues,
+    failure!.text,
+  )
+}
@@ -0,0 +1,238 @@
+import { TechnicalAnalysis } from "@/lib/utils/technical-analysis"
+import type { HistoricalCandle } from "@/lib/api/providers/types"
+import type { AlertCondition, AlertConditionType, ConditionResult, MarketSnapshot } from "./types"
+
+/**
+ * Alert condition evaluation
+ *
+ * Pure checks of one condition against a snapshot. Price crosses are edge-triggered against the last
+ * price the rule saw; the other conditions are level checks whose scope is the trading session, so each
+ * fires at most once per session however often it is evaluated.
+ */
+
+export class AlertRuleError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "AlertRuleError"
+  }
+}
+
+export const CONDITION_TYPES: AlertConditionType[] = [
+  "price-cross",
+  "percent-move",
+  "rsi",
+  "volume-spike",
+  "52-week-high",
+  "52-week-low",
+]
+
+const TRADING_DAYS_PER_YEAR = 252
+
+/** Conditions that only need the live price can run on a bare quote */
+export function requiresCandles(condition: AlertCondition): boolean {
+  return condition.type !== "price-cross"
+}
+
+/** Check and fill defaults for a condition from a request body. Throws AlertRuleError on bad input. */
+export function normalizeCondition(input: any): AlertCondition {
+  const type = input?.type
+  switch (type) {
+    case "price-cross":
+      return {
+        type,
+        direction: oneOf(input.direction, ["above", "below"], "direction"),
+        level: numberIn(input.level, "level", 0, Number.POSITIVE_INFINITY, { exclusiveMin: true }),
+      }
+    case "percent-move":
+      return {
+        type,
+        direction: oneOf(input.direction ?? "either", ["up", "down", "either"], "direction"),
+        percent: numberIn(input.percent, "percent", 0, 100, { exclusiveMin: true }),
+        windowDays: Math.round(numberIn(input.windowDays ?? 1, "windowDays", 1, TRADING_DAYS_PER_YEAR)),
+      }
+    case "rsi":
+      return {
+        type,
+        comparison: oneOf(input.comparison, ["above", "below"], "comparison"),
+        threshold: numberIn(input.threshold, "threshold", 0, 100),
+        period: Math.round(numberIn(input.period ?? 14, "period", 2, 50)),
+      }
+    case "volume-spike":
+      return {
+        type,
+        multiple: numberIn(input.multiple ?? 2, "multiple", 1, 50, { exclusiveMin: true }),
+        averageDays: Math.round(numberIn(input.averageDays ?? 20, "averageDays", 5, 100)),
+      }
+    case "52-week-high":
+    case "52-week-low":
+      return { type }
+    default:
+      throw new AlertRuleError(`Condition type must be one of ${CONDITION_TYPES.join(", ")}`)
+  }
+}
+
+export function describeCondition(condition: AlertCondition): string {
+  switch (condition.type) {
+    case "price-cross":
+      return `Price crosses ${condition.direction} $${condition.level.toFixed(2)}`
+    case "percent-move": {
+      const direction = condition.direction === "either" ? "moves" : condition.direction === "up" ? "rises" : "falls"
+      const window = condition.windowDays === 1 ? "in a day" : `over ${condition.windowDays} days`
+      return `Price ${direction} ${condition.percent}% ${window}`
+    }
+    case "rsi":
+      return `RSI(${condition.period}) ${condition.comparison} ${condition.threshold}`
+    case "volume-spike":
+      return `Volume ${condition.multiple}x the ${condition.averageDays}-day average`
+    case "52-week-high":
+      return "New 52-week high"
+    case "52-week-low":
+      return "New 52-week low"
+  }
+}
+
+/**
+ * Evaluate a condition. `previousPrice` is the last price this rule saw; price crosses fall back to the
+ * previous close and otherwise wait for a second observation before they can fire.
+ */
+export function evaluateCondition(
+  condition: AlertCondition,
+  snapshot: MarketSnapshot,
+  previousPrice: number | null,
+): ConditionResult {
+  const session = snapshot.timestamp.split("T")[0]
+  const candles = completedSessions(snapshot.candles, session)
+  const price = snapshot.price
+  const idle = (value: number | null, scope: string): ConditionResult => ({
+    triggered: false,
+    value,
+    message: "",
+    scope,
+  })
+
+  switch (condition.type) {
+    case "price-cross": {
+      const scope = `cross-${condition.direction}-${condition.level}-${session}`
+      const prior = previousPrice ?? candles[candles.length - 1]?.close ?? null
+      if (prior === null) return idle(price, scope)
+      const crossed =
+        condition.direction === "above"
+          ? prior < condition.level && price >= condition.level
+          : prior > condition.level && price <= condition.level
+      return crossed
+        ? {
+            triggered: true,
+            value: price,
+            message: `${snapshot.ticker} crossed ${condition.direction} $${condition.level.toFixed(2)} ` +
+              `(now $${price.toFixed(2)})`,
+            scope,
+          }
+        : idle(price, scope)
+    }
+
+    case "percent-move": {
+      const scope = `move-${condition.windowDays}d-${session}`
+      const reference = candles[candles.length - condition.windowDays]?.close
+      if (!reference) return idle(null, scope)
+      const move = (price / reference - 1) * 100
+      const matches =
+        Math.abs(move) >= condition.percent &&
+        (condition.direction === "either" || (condition.direction === "up" ? move > 0 : move < 0))
+      const window = condition.windowDays === 1 ? "today" : `over ${condition.windowDays} days`
+      return matches
+        ? {
+            triggered: true,
+            value: move,
+            message: `${snapshot.ticker} ${move > 0 ? "up" : "down"} ${Math.abs(move).toFixed(2)}% ${window}`,
+            scope,
+          }
+        : idle(move, scope)
+    }
+
+    case "rsi": {
+      const scope = `rsi-${condition.comparison}-${session}`
+      const closes = [...candles.map((candle) => candle.close), price]
+      if (closes.length <= condition.period) return idle(null, scope)
+      const rsi = TechnicalAnalysis.calculateRSI(closes, condition.period)
+      const matches = condition.comparison === "above" ? rsi > condition.threshold : rsi < condition.threshold
+      return matches
+        ? {
+            triggered: true,
+            value: rsi,
+            message: `${snapshot.ticker} RSI(${condition.period}) at ${rsi.toFixed(1)}, ` +
+              `${condition.comparison} ${condition.threshold}`,
+            scope,
+          }
+        : idle(rsi, scope)
+    }
+
+    case "volume-spike": {
+      const scope = `volume-${session}`
+      const window = candles.slice(-condition.averageDays)
+      if (window.length < condition.averageDays || snapshot.volume <= 0) return idle(null, scope)
+      const average = window.reduce((sum, candle) => sum + candle.volume, 0) / window.length
+      const multiple = average > 0 ? snapshot.volume / average : 0
+      return multiple >= condition.multiple
+        ? {
+            triggered: true,
+            value: multiple,
+            message: `${snapshot.ticker} volume ${multiple.toFixed(1)}x its ${condition.averageDays}-day average`,
+            scope,
+          }
+        : idle(multiple, scope)
+    }
+
+    case "52-week-high":
+    case "52-week-low": {
+      const isHigh = condition.type === "52-week-high"
+      const scope = `${isHigh ? "high" : "low"}-${session}`
+      const year = candles.slice(-TRADING_DAYS_PER_YEAR)
+      // Require most of a year so a recent listing's first weeks do not count as records
+      if (year.length < TRADING_DAYS_PER_YEAR * 0.9) return idle(null, scope)
+      const extreme = isHigh
+        ? Math.max(...year.map((candle) => candle.high))
+        : Math.min(...year.map((candle) => candle.low))
+      const matches = isHigh ? price > extreme : price < extreme
+      return matches
+        ? {
+            triggered: true,
+            value: extreme,
+            message: `${snapshot.ticker} hit a new 52-week ${isHigh ? "high" : "low"} at $${price.toFixed(2)} ` +
+              `(previous ${isHigh ? "high" : "low"} $${extreme.toFixed(2)})`,
+            scope,
+          }
+        : idle(extreme, scope)
+    }
+  }
+}
+
+/** Providers may include today's partial candle; conditions compare today against completed sessions only */
+function completedSessions(candles: HistoricalCandle[], session: string): HistoricalCandle[] {
+  return candles.filter((candle) => candle.date.split("T")[0] < session)
+}
+
+function oneOf<T extends string>(value: unknown, options: T[], field: string): T {
+  if (!options.includes(value as T)) {
+    throw new AlertRuleError(`${field} must be one of ${options.join(", ")}`)
+  }
+  return value as T
+}
+
+function numberIn(
+  value: unknown,
+  field: string,
+  min: number,
+  max: number,
+  options: { exclusiveMin?: boolean } = {},
+): number {
+  const parsed = Number(value)
+  const aboveMin = options.exclusiveMin ? parsed > min : parsed >= min
+  if (value === null || value === "" || !Number.isFinite(parsed) || !aboveMin || parsed > max) {
+    throw new AlertRuleError(`${field} must be a number ${options.exclusiveMin ? "above" : "from"} ${min}` +
+      (Number.isFinite(max) ? ` up to ${max}` : ""))
+  }
+  return parsed
+}
@@ -0,0 +1,184 @@
+import { MultiSourceStockClient } from "@/lib/api/multi-source-client"
+import type { HistoricalCandle } from "@/lib/api/providers/types"
+import { PushNotifier } from "@/lib/push/push-notifier"
+import { evaluateCondition, requiresCandles } from "./alert-conditions"
+import { alertRuleStore } from "./alert-store"
+import type { AlertEvent, AlertRule, MarketSnapshot } from "./types"
+
+/**
+ * Alert engine
+ *
+ * Evaluates enabled rules against market snapshots from two sources: quotes served by the realtime
+ * route (what RealTimeManager polls while a ticker is on screen) and the scheduled poller, which covers
+ * every ticker with a rule whether or not anyone is watching. Triggers are skipped while the rule is
+ * cooling down, and the store drops duplicates of an occurrence already recorded.
+ */
+
+export interface AlertTrigger {
+  price: number
+  value: number | null
+  message: string
+  /** Unique per rule and occurrence, see ConditionResult.scope */
+  dedupeKey: string
+  triggeredAt: string
+}
+
+export interface AlertStore {
+  /** Enabled rules across all owners, optionally only for some tickers */
+  loadEnabledRules(tickers?: string[]): Promise<AlertRule[]>
+  saveLastPrices(prices: { ruleId: number; price: number }[]): Promise<void>
+  /** Record a trigger; null when the rule is cooling down or the occurrence was already recorded */
+  recordTrigger(rule: AlertRule, trigger: AlertTrigger): Promise<{ event: AlertEvent; ownerId: string } | null>
+}
+
+/** Called once per recorded trigger, e.g. to send a push notification to the rule's owner */
+export type AlertListener = (event: AlertEvent, ownerId: string) => Promise<unknown>
+
+export interface QuoteTick {
+  ticker: string
+  price: number
+  volume: number
+  timestamp: string
+}
+
+export interface PollSummary {
+  tickers: number
+  rules: number
+  triggered: number
+  failed: string[]
+}
+
+/** Calendar days of history loaded for daily conditions; enough for 252 completed sessions */
+const HISTORY_DAYS = 400
+/** Quotes for the same ticker closer together than this are not re-evaluated */
+export const QUOTE_EVALUATION_INTERVAL_MS = 60 * 1000
+
+export function isCoolingDown(rule: AlertRule, now: Date): boolean {
+  if (!rule.lastTriggeredAt) return false
+  return now.getTime() - new Date(rule.lastTriggeredAt).getTime() < rule.cooldownMinutes * 60000
+}
+
+/** Push the trigger to the devices the rule's owner subscribed for alerts */
+export const pushAlertListener: AlertListener = (event, ownerId) =>
+  PushNotifier.getInstance().notifyOwner(ownerId, "alerts", {
+    title: `${event.ticker} alert`,
+    body: event.message,
+    url: "/",
+    tag: `alert-${event.ruleId}`,
+  })
+
+export class AlertEngine {
+  private static instance: AlertEngine
+  private lastQuoteEvaluation = new Map<string, number>()
+
+  constructor(
+    private store: AlertStore | null = alertRuleStore,
+    private client: Pick<MultiSourceStockClient, "getQuote" | "getHistoricalData"> = new MultiSourceStockClient(),
+    private listener: AlertListener | null = null,
+  ) {}
+
+  static getInstance(): AlertEngine {
+    if (!AlertEngine.instance) {
+      AlertEngine.instance = new AlertEngine(
+        process.env.DATABASE_URL ? alertRuleStore : null,
+        undefined,
+        pushAlertListener,
+      )
+    }
+    return AlertEngine.instance
+  }
+
+  /** Evaluate rules for one ticker's snapshot and record what fired */
+  async evaluateRules(rules: AlertRule[], snapshot: MarketSnapshot): Promise<AlertEvent[]> {
+    if (!this.store) return []
+    const now = new Date(snapshot.timestamp)
+    const events: AlertEvent[] = []
+
+    for (const rule of rules) {
+      // Daily conditions are left to the poller when the snapshot has no history
+      if (snapshot.candles.length === 0 && requiresCandles(rule.condition)) continue
+
+      const result = evaluateCondition(rule.condition, snapshot, rule.lastPrice)
+      if (!result.triggered || isCoolingDown(rule, now)) continue
+
+      const recorded = await this.store.recordTrigger(rule, {
+        price: snapshot.price,
+        value: result.value,
+        message: result.message,
+        dedupeKey: `${rule.id}:${result.scope}`,
+        triggeredAt: snapshot.timestamp,
+      })
+      if (!recorded) continue
+
+      events.push(recorded.event)
+      await this.listener?.(recorded.event, recorded.ownerId).catch((error) => {
+        console.warn(`Non-critical: Alert notification failed for rule ${rule.id}:`, error.message)
+      })
+    }
+
+    await this.store.saveLastPrices(rules.map((rule) => ({ ruleId: rule.id, price: snapshot.price })))
+    return events
+  }
+
+  /**
+   * Evaluate a quote that was just served. Throttled per ticker, and history is only loaded when a rule
+   * needs it. Never throws; callers fire and forget.
+   */
+  async evaluateQuote(quote: QuoteTick): Promise<AlertEvent[]> {
+    if (!this.store) return []
+    const ticker = quote.ticker.toUpperCase()
+    const now = Date.now()
+    if (now - (this.lastQuoteEvaluation.get(ticker) ?? 0) < QUOTE_EVALUATION_INTERVAL_MS) return []
+    this.lastQuoteEvaluation.set(ticker, now)
+
+    try {
+      const rules = await this.store.loadEnabledRules([ticker])
+      if (rules.length === 0) return []
+      const candles = rules.some((rule) => requiresCandles(rule.condition)) ? await this.loadHistory(ticker) : []
+      return await this.evaluateRules(rules, { ...quote, ticker, candles })
+    } catch (error: any) {
+      console.warn(`Non-critical: Alert evaluation failed for ${ticker}:`, error.message)
+      return []
+    }
+  }
+
+  /** Scheduled pass over every ticker with an enabled rule. Tickers run sequentially to respect rate limits. */
+  async evaluateAll(options: { limit?: number } = {}): Promise<PollSummary> {
+    if (!this.store) return { tickers: 0, rules: 0, triggered: 0, failed: [] }
+    const rules = await this.store.loadEnabledRules()
+
+    const byTicker = new Map<string, AlertRule[]>()
+    for (const rule of rules) byTicker.set(rule.ticker, [...(byTicker.get(rule.ticker) ?? []), rule])
+    const tickers = [...byTicker.keys()].slice(0, options.limit ?? byTicker.size)
+
+    const summary: PollSummary = { tickers: tickers.length, rules: 0, triggered: 0, failed: [] }
+    for (const ticker of tickers) {
+      const tickerRules = byTicker.get(ticker)!
+      try {
+        const quote = await this.client.getQuote(ticker, false)
+        const candles = tickerRules.some((rule) => requiresCandles(rule.condition))
+          ? await this.loadHistory(ticker)
+          : []
+        const events = await this.evaluateRules(tickerRules, {
+          ticker,
+          price: quote.currentPrice,
+          volume: quote.volume,
+          timestamp: new Date().toISOString(),
+          candles,
+        })
+        summary.rules += tickerRules.length
+        summary.triggered += events.length
+      } catch (error) {
+        console.warn(`[${ticker}] Alert evaluation failed:`, error)
+        summary.failed.push(ticker)
+      }
+    }
+
+    console.log(`Evaluated ${summary.rules} alert rules on ${summary.tickers} tickers, ${summary.triggered} triggered`)
+    return summary
+  }
+
+  private loadHistory(ticker: string): Promise<HistoricalCandle[]> {
+    return this.client.getHistoricalData(ticker, HISTORY_DAYS)
+  }
+}
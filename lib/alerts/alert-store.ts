@@ -0,0 +1,256 @@
+import { getSql } from "@/lib/db/sql"
+import { AlertRuleError, normalizeCondition } from "./alert-conditions"
+import type { AlertEvent, AlertRule, NewAlertRule } from "./types"
+import type { AlertStore, AlertTrigger } from "./alert-engine"
+
+/**
+ * Alert persistence
+ *
+ * Rules and their trigger history live in Neon. Rules are scoped by the anonymous owner id from
+ * lib/auth/owner; the engine reads every owner's enabled rules. Each event carries a dedupe key that is
+ * unique per rule and occurrence, and the insert re-checks the cooldown, so evaluators running side by
+ * side (the realtime route and the cron poller) cannot record the same trigger twice.
+ */
+
+const MAX_NAME_LENGTH = 80
+const MAX_RULES_PER_OWNER = 100
+const DEFAULT_COOLDOWN_MINUTES = 60
+const MAX_COOLDOWN_MINUTES = 60 * 24 * 7
+
+let tablesReady: Promise<void> | null = null
+
+export function ensureAlertTables(): Promise<void> {
+  if (!tablesReady) {
+    const sql = getSql()
+    tablesReady = sql`
+      CREATE TABLE IF NOT EXISTS alert_rules (
+        id SERIAL PRIMARY KEY,
+        owner_id VARCHAR(64) NOT NULL,
+        ticker VARCHAR(16) NOT NULL,
+        name VARCHAR(80),
+        condition JSONB NOT NULL,
+        cooldown_minutes INTEGER NOT NULL DEFAULT 60,
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        last_price NUMERIC,
+        last_triggered_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `
+      .then(
+        () => sql`
+          CREATE TABLE IF NOT EXISTS alert_events (
+            id SERIAL PRIMARY KEY,
+            rule_id INTEGER NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+            owner_id VARCHAR(64) NOT NULL,
+            ticker VARCHAR(16) NOT NULL,
+            condition_type VARCHAR(16) NOT NULL,
+            price NUMERIC NOT NULL,
+            value NUMERIC,
+            message TEXT NOT NULL,
+            dedupe_key VARCHAR(128) NOT NULL UNIQUE,
+            triggered_at TIMESTAMP NOT NULL
+          )
+        `,
+      )
+      .then(() => sql`CREATE INDEX IF NOT EXISTS idx_alert_rules_owner ON alert_rules (owner_id)`)
+      .then(() => sql`CREATE INDEX IF NOT EXISTS idx_alert_rules_ticker ON alert_rules (ticker) WHERE enabled`)
+      .then(() => sql`CREATE INDEX IF NOT EXISTS idx_alert_events_owner ON alert_events (owner_id, triggered_at)`)
+      .then(() => undefined)
+      .catch((error) => {
+        tablesReady = null
+        throw error
+      })
+  }
+  return tablesReady
+}
+
+/** Check and fill defaults for a new rule. Throws AlertRuleError on bad input. */
+export function normalizeRule(input: any): Required<NewAlertRule> {
+  const ticker = typeof input?.ticker === "string" ? input.ticker.trim().toUpperCase() : ""
+  if (!/^[A-Z0-9.^-]{1,16}$/.test(ticker)) {
+    throw new AlertRuleError("A valid ticker is required")
+  }
+  return {
+    ticker,
+    name: normalizeName(input.name),
+    condition: normalizeCondition(input.condition),
+    cooldownMinutes: normalizeCooldown(input.cooldownMinutes),
+    enabled: input.enabled === undefined ? true : Boolean(input.enabled),
+  }
+}
+
+export async function listAlertRules(ownerId: string): Promise<AlertRule[]> {
+  await ensureAlertTables()
+  const sql = getSql()
+  const rows = await sql`SELECT * FROM alert_rules WHERE owner_id = ${ownerId} ORDER BY created_at DESC`
+  return rows.map(mapRule)
+}
+
+export async function createAlertRule(ownerId: string, input: unknown): Promise<AlertRule> {
+  const rule = normalizeRule(input)
+
+  await ensureAlertTables()
+  const sql = getSql()
+  const [{ count }] = await sql`SELECT COUNT(*)::int AS count FROM alert_rules WHERE owner_id = ${ownerId}`
+  if (count >= MAX_RULES_PER_OWNER) {
+    throw new AlertRuleError(`At most ${MAX_RULES_PER_OWNER} alert rules can be saved`, 409)
+  }
+
+  const rows = await sql`
+    INSERT INTO alert_rules (owner_id, ticker, name, condition, cooldown_minutes, enabled)
+    VALUES (
+      ${ownerId}, ${rule.ticker}, ${rule.name}, ${JSON.stringify(rule.condition)}::jsonb,
+      ${rule.cooldownMinutes}, ${rule.enabled}
+    )
+    RETURNING *
+  `
+  return mapRule(rows[0])
+}
+
+/** Rename, retune or toggle a rule. Changing the condition forgets the last price it was checked at. */
+export async function updateAlertRule(
+  ownerId: string,
+  id: number,
+  input: { name?: unknown; condition?: unknown; cooldownMinutes?: unknown; enabled?: unknown },
+): Promise<AlertRule | null> {
+  await ensureAlertTables()
+  const sql = getSql()
+  const rows = await sql`SELECT * FROM alert_rules WHERE id = ${id} AND owner_id = ${ownerId}`
+  if (rows.length === 0) return null
+
+  const existing = mapRule(rows[0])
+  const condition = input.condition === undefined ? existing.condition : normalizeCondition(input.condition)
+  const conditionChanged = JSON.stringify(condition) !== JSON.stringify(existing.condition)
+
+  const updated = await sql`
+    UPDATE alert_rules SET
+      name = ${input.name === undefined ? existing.name : normalizeName(input.name)},
+      condition = ${JSON.stringify(condition)}::jsonb,
+      cooldown_minutes = ${
+        input.cooldownMinutes === undefined ? existing.cooldownMinutes : normalizeCooldown(input.cooldownMinutes)
+      },
+      enabled = ${input.enabled === undefined ? existing.enabled : Boolean(input.enabled)},
+      last_price = ${conditionChanged ? null : existing.lastPrice}
+    WHERE id = ${id} AND owner_id = ${ownerId}
+    RETURNING *
+  `
+  return mapRule(updated[0])
+}
+
+export async function deleteAlertRule(ownerId: string, id: number): Promise<boolean> {
+  await ensureAlertTables()
+  const sql = getSql()
+  const rows = await sql`DELETE FROM alert_rules WHERE id = ${id} AND owner_id = ${ownerId} RETURNING id`
+  return rows.length > 0
+}
+
+/** Most recent triggers for an owner, optionally for one ticker */
+export async function listAlertEvents(
+  ownerId: string,
+  options: { ticker?: string; limit?: number } = {},
+): Promise<AlertEvent[]> {
+  await ensureAlertTables()
+  const sql = getSql()
+  const limit = Math.min(200, Math.max(1, options.limit ?? 50))
+  const ticker = options.ticker?.toUpperCase() ?? null
+  const rows = await sql`
+    SELECT * FROM alert_events
+    WHERE owner_id = ${ownerId} AND (${ticker}::text IS NULL OR ticker = ${ticker})
+    ORDER BY triggered_at DESC
+    LIMIT ${limit}
+  `
+  return rows.map(mapEvent)
+}
+
+export const alertRuleStore: AlertStore = {
+  async loadEnabledRules(tickers) {
+    await ensureAlertTables()
+    const sql = getSql()
+    const rows = tickers
+      ? await sql`SELECT * FROM alert_rules WHERE enabled AND ticker = ANY(${tickers})`
+      : await sql`SELECT * FROM alert_rules WHERE enabled`
+    return rows.map(mapRule)
+  },
+
+  async saveLastPrices(prices) {
+    await ensureAlertTables()
+    const sql = getSql()
+    for (const { ruleId, price } of prices) {
+      await sql`UPDATE alert_rules SET last_price = ${price} WHERE id = ${ruleId}`
+    }
+  },
+
+  async recordTrigger(rule, trigger: AlertTrigger) {
+    await ensureAlertTables()
+    const sql = getSql()
+    const cooldownCutoff = new Date(
+      new Date(trigger.triggeredAt).getTime() - rule.cooldownMinutes * 60000,
+    ).toISOString()
+
+    // Insert and stamp the rule in one statement; the WHERE re-checks the cooldown against the stored row
+    const rows = await sql`
+      WITH inserted AS (
+        INSERT INTO alert_events
+          (rule_id, owner_id, ticker, condition_type, price, value, message, dedupe_key, triggered_at)
+        SELECT
+          id, owner_id, ticker, ${rule.condition.type}, ${trigger.price}, ${trigger.value}, ${trigger.message},
+          ${trigger.dedupeKey}, ${trigger.triggeredAt}
+        FROM alert_rules
+        WHERE id = ${rule.id} AND enabled
+          AND (last_triggered_at IS NULL OR last_triggered_at <= ${cooldownCutoff})
+        ON CONFLICT (dedupe_key) DO NOTHING
+        RETURNING *
+      ), stamped AS (
+        UPDATE alert_rules SET last_triggered_at = inserted.triggered_at
+        FROM inserted WHERE alert_rules.id = inserted.rule_id
+      )
+      SELECT * FROM inserted
+    `
+    return rows.length > 0 ? { event: mapEvent(rows[0]), ownerId: rows[0].owner_id } : null
+  },
+}
+
+function normalizeName(name: unknown): string | null {
+  if (name === undefined || name === null) return null
+  const trimmed = typeof name === "string" ? name.trim() : ""
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    throw new AlertRuleError(`Alert name must be at most ${MAX_NAME_LENGTH} characters`)
+  }
+  return trimmed || null
+}
+
+function normalizeCooldown(minutes: unknown): number {
+  if (minutes === undefined || minutes === null) return DEFAULT_COOLDOWN_MINUTES
+  const parsed = Number(minutes)
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > MAX_COOLDOWN_MINUTES) {
+    throw new AlertRuleError(`cooldownMinutes must be a whole number from 0 to ${MAX_COOLDOWN_MINUTES}`)
+  }
+  return parsed
+}
+
+function mapRule(row: any): AlertRule {
+  return {
+    id: row.id,
+    ticker: row.ticker,
+    name: row.name ?? null,
+    condition: typeof row.condition === "string" ? JSON.parse(row.condition) : row.condition,
+    cooldownMinutes: Number(row.cooldown_minutes),
+    enabled: Boolean(row.enabled),
+    lastPrice: row.last_price === null || row.last_price === undefined ? null : Number(row.last_price),
+    lastTriggeredAt: row.last_triggered_at ? new Date(row.last_triggered_at).toISOString() : null,
+    createdAt: new Date(row.created_at).toISOString(),
+  }
+}
+
+function mapEvent(row: any): AlertEvent {
+  return {
+    id: row.id,
+    ruleId: row.rule_id,
+    ticker: row.ticker,
+    conditionType: row.condition_type,
+    price: Number(row.price),
+    value: row.value === null || row.value === undefined ? null : Number(row.value),
+    message: row.message,
+    triggeredAt: new Date(row.triggered_at).toISOString(),
+  }
+}
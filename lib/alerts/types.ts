@@ -0,0 +1,75 @@
+import type { HistoricalCandle } from "@/lib/api/providers/types"
+
+/**
+ * Alert rule contracts
+ *
+ * A rule pairs a ticker with one condition. Conditions are evaluated against a MarketSnapshot, built
+ * either from a live quote (the realtime route) or by the scheduled poller, and every trigger is
+ * recorded as an AlertEvent in the alert history.
+ */
+
+export type AlertCondition =
+  | { type: "price-cross"; direction: "above" | "below"; level: number }
+  /** Move over the last `windowDays` sessions; 1 compares with the previous close */
+  | { type: "percent-move"; direction: "up" | "down" | "either"; percent: number; windowDays: number }
+  | { type: "rsi"; comparison: "above" | "below"; threshold: number; period: number }
+  /** Today's volume at least `multiple` times the trailing `averageDays` average */
+  | { type: "volume-spike"; multiple: number; averageDays: number }
+  | { type: "52-week-high" }
+  | { type: "52-week-low" }
+
+export type AlertConditionType = AlertCondition["type"]
+
+export interface AlertRule {
+  id: number
+  ticker: string
+  name: string | null
+  condition: AlertCondition
+  /** Minimum time between two triggers of the same rule */
+  cooldownMinutes: number
+  enabled: boolean
+  /** Last price the rule was evaluated at; price crosses compare against it */
+  lastPrice: number | null
+  lastTriggeredAt: string | null
+  createdAt: string
+}
+
+export interface NewAlertRule {
+  ticker: string
+  name?: string | null
+  condition: AlertCondition
+  cooldownMinutes?: number
+  enabled?: boolean
+}
+
+export interface MarketSnapshot {
+  ticker: string
+  price: number
+  volume: number
+  timestamp: string
+  /** Daily candles ending with the last completed session; empty for quote-only evaluation */
+  candles: HistoricalCandle[]
+}
+
+export interface ConditionResult {
+  triggered: boolean
+  /** The measured value, e.g. the RSI or the percent move */
+  value: number | null
+  message: string
+  /**
+   * Identifies the occurrence being alerted on. Two triggers with the same scope are the same event,
+   * e.g. a 52-week high on a given session, however many evaluators see it.
+   */
+  scope: string
+}
+
+export interface AlertEvent {
+  id: number
+  ruleId: number
+  ticker: string
+  conditionType: AlertConditionType
+  price: number
+  value: number | null
+  message: string
+  triggeredAt: string
+}
@@ -0,0 +1,315 @@
+import type { HistoricalCandle } from "@/lib/api/providers/types"
+import { TechnicalAnalysis } from "@/lib/utils/technical-analysis"
+import {
+  PrecisionRecommendationEngine,
+  type PrecisionAnalysisFactors,
+  type StockProfile,
+} from "./precision-recommendation-engine"
+import { calculatePerformance, type PerformanceMetrics } from "./performance-metrics"
+import {
+  calculateMomentumScore,
+  calculatePreciseFundamentalScore,
+  calculatePreciseTechnicalScore,
+  calculateVolatilityScore,
+  calculateVolumeScore,
+} from "./factor-scoring"
+
+export type Signal = "BUY" | "SELL" | "HOLD" | "TRIM"
+
+export interface BacktestOptions {
+  initialCapital?: number
+  /** Flat commission charged on every fill */
+  commissionPerTrade?: number
+  /** Commission as a fraction of traded notional, charged on top of the flat fee */
+  commissionRate?: number
+  /** Adverse price movement applied to every fill, in basis points */
+  slippageBps?: number
+  /** Candles used only to warm up indicators before the first signal */
+  warmupPeriod?: number
+  /** Fraction of the current position a TRIM signal keeps */
+  trimFraction?: number
+  /**
+   * HOLD, TRIM and SELL are calls for an existing holder, so by default the strategy starts fully invested
+   * (the first signal decides how much of that position to keep). Set false to start in cash.
+   */
+  startInvested?: boolean
+  riskFreeRate?: number
+  /**
+   * Fundamentals to score against. There is no point-in-time fundamentals history, so by default the
+   * fundamental factor is scored from neutral inputs rather than leaking today's values into the past.
+   */
+  fundamentals?: any
+  /** Classification to weight factors with; sector and buckets change slowly, so today's profile is used */
+  profile?: StockProfile
+}
+
+export type ResolvedBacktestOptions = Required<Omit<BacktestOptions, "fundamentals" | "profile">>
+
+export interface BacktestTrade {
+  date: string
+  side: "buy" | "sell"
+  signal: Signal
+  shares: number
+  price: number
+  commission: number
+  /** Realized P&L for sells against the average cost of the position */
+  realizedPnl: number | null
+}
+
+export interface EquityPoint {
+  date: string
+  close: number
+  strategy: number
+  benchmark: number
+  signal: Signal | null
+  exposure: number
+}
+
+export interface BacktestResult {
+  ticker: string
+  startDate: string
+  endDate: string
+  options: ResolvedBacktestOptions
+  strategy: PerformanceMetrics & { hitRate: number | null; tradeCount: number }
+  benchmark: PerformanceMetrics
+  signalCounts: Record<Signal, number>
+  trades: BacktestTrade[]
+  equityCurve: EquityPoint[]
+}
+
+const DEFAULT_BACKTEST_OPTIONS: ResolvedBacktestOptions = {
+  initialCapital: 10000,
+  commissionPerTrade: 1,
+  commissionRate: 0,
+  slippageBps: 5,
+  warmupPeriod: 50,
+  trimFraction: 0.5,
+  startInvested: true,
+  riskFreeRate: 0.02,
+}
+
+// No historical sentiment or news feed exists yet, so those factors are held neutral.
+// Market conditions use the midpoint of the range /api/analyze draws from.
+const NEUTRAL_SENTIMENT = 0.5
+const NEUTRAL_NEWS = 0.5
+const NEUTRAL_MARKET_CONDITIONS = 0.8
+
+/** Options or candles the backtest cannot run on; 422 since the request itself is well-formed */
+export class BacktestError extends Error {
+  constructor(
+    message: string,
+    public status = 422,
+  ) {
+    super(message)
+    this.name = "BacktestError"
+  }
+}
+
+/**
+ * Backtester for PrecisionRecommendationEngine
+ *
+ * Replays daily candles, rebuilds the engine's factor inputs from data available at each close and
+ * fills the resulting signal at the next day's open, so no signal trades on information it could not have had.
+ */
+export class BacktestEngine {
+  static run(ticker: string, candles: HistoricalCandle[], options: BacktestOptions = {}): BacktestResult {
+    const config = {
+      initialCapital: options.initialCapital ?? DEFAULT_BACKTEST_OPTIONS.initialCapital,
+      commissionPerTrade: options.commissionPerTrade ?? DEFAULT_BACKTEST_OPTIONS.commissionPerTrade,
+      commissionRate: options.commissionRate ?? DEFAULT_BACKTEST_OPTIONS.commissionRate,
+      slippageBps: options.slippageBps ?? DEFAULT_BACKTEST_OPTIONS.slippageBps,
+      warmupPeriod: options.warmupPeriod ?? DEFAULT_BACKTEST_OPTIONS.warmupPeriod,
+      trimFraction: options.trimFraction ?? DEFAULT_BACKTEST_OPTIONS.trimFraction,
+      startInvested: options.startInvested ?? DEFAULT_BACKTEST_OPTIONS.startInvested,
+      riskFreeRate: options.riskFreeRate ?? DEFAULT_BACKTEST_OPTIONS.riskFreeRate,
+    }
+
+    const sorted = [...candles].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    if (sorted.length < config.warmupPeriod + 2) {
+      throw new BacktestError(`Need at least ${config.warmupPeriod + 2} candles to backtest, got ${sorted.length}`)
+    }
+
+    const closes = sorted.map((candle) => candle.close)
+    const rsi = TechnicalAnalysis.rsiSeries(closes)
+    const macd = TechnicalAnalysis.macdSeries(closes)
+    const bollinger = TechnicalAnalysis.bollingerSeries(closes)
+    const volumeAverage = TechnicalAnalysis.smaSeries(sorted.map((candle) => candle.volume), 20)
+
+    let cash = config.initialCapital
+    let shares = 0
+    let averageCost = 0
+    let wins = 0
+    let closedTrades = 0
+    const trades: BacktestTrade[] = []
+    const signalCounts: Record<Signal, number> = { BUY: 0, SELL: 0, HOLD: 0, TRIM: 0 }
+    const equityCurve: EquityPoint[] = []
+
+    const start = config.warmupPeriod
+    const benchmark = this.buyAndHold(sorted, start, config)
+
+    for (let t = start; t < sorted.length; t++) {
+      const candle = sorted[t]
+
+      // Mark to market at today's close, before today's signal trades at tomorrow's open
+      const equity = cash + shares * candle.close
+      const point: EquityPoint = {
+        date: candle.date,
+        close: candle.close,
+        strategy: equity,
+        benchmark: benchmark[t - start],
+        signal: null,
+        exposure: equity > 0 ? (shares * candle.close) / equity : 0,
+      }
+      equityCurve.push(point)
+
+      if (t < sorted.length - 1) {
+        const factors = this.factorsAt(t, closes, rsi, macd, bollinger, volumeAverage, options.fundamentals)
+        const signal = PrecisionRecommendationEngine.generatePrecisionRecommendation(
+          ticker,
+          factors,
+          candle.close,
+          options.fundamentals,
+          options.profile,
+        ).recommendation
+        point.signal = signal
+        signalCounts[signal]++
+
+        const next = sorted[t + 1]
+        const equityAtOpen = cash + shares * next.open
+        const currentExposure = equityAtOpen > 0 ? (shares * next.open) / equityAtOpen : 0
+        const heldExposure = t === start && config.startInvested ? 1 : currentExposure
+        const targetExposure =
+          signal === "BUY"
+            ? 1
+            : signal === "SELL"
+              ? 0
+              : signal === "TRIM"
+                ? heldExposure * config.trimFraction
+                : heldExposure
+
+        if (targetExposure > currentExposure) {
+          const fillPrice = next.open * (1 + config.slippageBps / 10000)
+          const budget = targetExposure * equityAtOpen - shares * next.open - config.commissionPerTrade
+          const quantity = Math.floor(budget / (fillPrice * (1 + config.commissionRate)))
+          if (quantity >= 1) {
+            const commission = config.commissionPerTrade + quantity * fillPrice * config.commissionRate
+            averageCost = (averageCost * shares + quantity * fillPrice + commission) / (shares + quantity)
+            shares += quantity
+            cash -= quantity * fillPrice + commission
+            trades.push({
+              date: next.date,
+              side: "buy",
+              signal,
+              shares: quantity,
+              price: fillPrice,
+              commission,
+              realizedPnl: null,
+            })
+          }
+        } else if (targetExposure < currentExposure) {
+          const fillPrice = next.open * (1 - config.slippageBps / 10000)
+          const targetShares = Math.floor((targetExposure * equityAtOpen) / next.open)
+          const quantity = signal === "SELL" ? shares : shares - targetShares
+          if (quantity >= 1) {
+            const commission = config.commissionPerTrade + quantity * fillPrice * config.commissionRate
+            const realizedPnl = (fillPrice - averageCost) * quantity - commission
+            closedTrades++
+            if (realizedPnl > 0) wins++
+            shares -= quantity
+            cash += quantity * fillPrice - commission
+            if (shares === 0) averageCost = 0
+            trades.push({
+              date: next.date,
+              side: "sell",
+              signal,
+              shares: quantity,
+              price: fillPrice,
+              commission,
+              realizedPnl,
+            })
+          }
+        }
+      }
+    }
+
+    const strategyMetrics = calculatePerformance(
+      equityCurve.map((point) => ({ date: point.date, value: point.strategy })),
+      config.riskFreeRate,
+    )
+    const benchmarkMetrics = calculatePerformance(
+      equityCurve.map((point) => ({ date: point.date, value: point.benchmark })),
+      config.riskFreeRate,
+    )
+
+    return {
+      ticker: ticker.toUpperCase(),
+      startDate: equityCurve[0].date,
+      endDate: equityCurve[equityCurve.length - 1].date,
+      options: config,
+      strategy: {
+        ...strategyMetrics,
+        hitRate: closedTrades > 0 ? wins / closedTrades : null,
+        tradeCount: trades.length,
+      },
+      benchmark: benchmarkMetrics,
+      signalCounts,
+      trades,
+      equityCurve,
+    }
+  }
+
+  /** Factor inputs as /api/analyze would have computed them at the close of day t */
+  private static factorsAt(
+    t: number,
+    closes: number[],
+    rsi: (number | null)[],
+    macd: ReturnType<typeof TechnicalAnalysis.macdSeries>,
+    bollinger: ReturnType<typeof TechnicalAnalysis.bollingerSeries>,
+    volumeAverage: (number | null)[],
+    fundamentals: any,
+  ): PrecisionAnalysisFactors {
+    const technicalData = {
+      rsi: rsi[t] ?? 50,
+      macd: { value: macd.macd[t] ?? 0, signal: macd.signal[t] ?? 0 },
+      bollinger:
+        bollinger.upper[t] !== null
+          ? {
+              upper: bollinger.upper[t]!,
+              middle: bollinger.middle[t]!,
+              lower: bollinger.lower[t]!,
+              width: bollinger.width[t]!,
+            }
+          : null,
+      price: closes[t],
+    }
+
+    return {
+      technicalScore: calculatePreciseTechnicalScore(technicalData),
+      fundamentalScore: calculatePreciseFundamentalScore(fundamentals),
+      sentimentScore: NEUTRAL_SENTIMENT,
+      newsScore: NEUTRAL_NEWS,
+      volatility: calculateVolatilityScore(technicalData),
+      momentum: calculateMomentumScore(technicalData),
+      volume: calculateVolumeScore({ avgVolume: volumeAverage[t] ?? fundamentals?.avgVolume }),
+      marketConditions: NEUTRAL_MARKET_CONDITIONS,
+    }
+  }
+
+  /** Equity of buying at the first fill the strategy could make and holding to the end */
+  private static buyAndHold(
+    candles: HistoricalCandle[],
+    start: number,
+    config: ResolvedBacktestOptions,
+  ): number[] {
+    const entry = candles[start + 1]
+    const fillPrice = entry.open * (1 + config.slippageBps / 10000)
+    const quantity = Math.max(
+      0,
+      Math.floor((config.initialCapital - config.commissionPerTrade) / (fillPrice * (1 + config.commissionRate))),
+    )
+    const commission = quantity > 0 ? config.commissionPerTrade + quantity * fillPrice * config.commissionRate : 0
+    const cash = config.initialCapital - quantity * fillPrice - commission
+
+    return candles.slice(start).map((candle, i) => (i === 0 ? config.initialCapital : cash + quantity * candle.close))
+  }
+}
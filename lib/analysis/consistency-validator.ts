@@ -1,3 +1,5 @@
+import type { QuoteReconciliation } from "@/lib/api/quote-reconciliation"
+
 export interface ValidationResult {
   isConsistent: boolean
   score: number
@@ -15,6 +17,7 @@ export interface AnalysisData {
   sentiment: any
   fundamentals: any
   aiAnalysis?: any
+  sourceReconciliation?: QuoteReconciliation
 }
 
 export class ConsistencyValidator {
@@ -62,6 +65,13 @@ export class ConsistencyValidator {
       corrections.aiAnalysis = aiConsistencyCheck.correctedAI
     }
 
+    // 6. Validate Data Source Agreement
+    const sourceAgreementCheck = this.validateSourceAgreement(data)
+    if (!sourceAgreementCheck.valid) {
+      issues.push(...sourceAgreementCheck.issues)
+      score -= sourceAgreementCheck.penalty
+    }
+
     return {
       isConsistent: issues.length === 0,
       score: Math.max(0, score),
@@ -253,6 +263,34 @@ export class ConsistencyValidator {
     }
   }
 
+  private static validateSourceAgreement(data: AnalysisData) {
+    const reconciliation = data.sourceReconciliation
+    const issues: string[] = []
+    let penalty = 0
+
+    if (!reconciliation) {
+      return { valid: true, issues: [], penalty: 0 }
+    }
+
+    // Sources reporting prices outside tolerance of the consensus
+    if (reconciliation.outliers.length > 0) {
+      issues.push(
+        `Price sources disagree beyond ${reconciliation.tolerancePercent}% tolerance: ${reconciliation.outliers.join(", ")} (disagreement score ${reconciliation.disagreementScore.toFixed(2)})`,
+      )
+      penalty = Math.min(20, 5 + Math.round(reconciliation.disagreementScore * 5))
+    }
+
+    // Too few agreeing sources to trust the consensus price (only when enough sources are configured to reach it)
+    if (!reconciliation.quorumMet && reconciliation.sources.length >= reconciliation.quorum) {
+      issues.push(
+        `Only ${reconciliation.agreeingSources} of ${reconciliation.quorum} required price sources agree on the current price`,
+      )
+      penalty += 5
+    }
+
+    return { valid: issues.length === 0, issues, penalty }
+  }
+
   private static calculateOverallConfidence(data: AnalysisData, consistencyScore: number): number {
     const baseConfidence = data.prediction?.confidence || 0
     const riskAdjustment = Math.max(0, (10 - (data.risk?.riskScore || 5)) * 2)
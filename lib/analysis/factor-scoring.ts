@@ -0,0 +1,124 @@
+/**
+ * Factor scoring for PrecisionRecommendationEngine
+ *
+ * Maps raw market inputs (technical snapshot, fundamentals, news) onto the 0-1 factor scores the
+ * engine weighs. Shared by /api/analyze and the backtester so both score a ticker the same way.
+ */
+
+export function calculatePreciseTechnicalScore(technicalData: any): number {
+  let score = 0.5 // Start neutral
+
+  const rsi = technicalData.rsi || 50
+  const macd = technicalData.macd?.value || 0
+  const bollinger = technicalData.bollinger
+
+  // RSI analysis with precise scoring
+  if (rsi > 80)
+    score -= 0.3 // Severely overbought
+  else if (rsi > 70)
+    score -= 0.15 // Overbought
+  else if (rsi > 60)
+    score += 0.1 // Bullish
+  else if (rsi > 40)
+    score += 0.05 // Neutral bullish
+  else if (rsi > 30)
+    score -= 0.05 // Neutral bearish
+  else if (rsi > 20)
+    score -= 0.15 // Oversold
+  else score += 0.2 // Severely oversold (potential reversal)
+
+  // MACD analysis
+  if (macd > 2) score += 0.2
+  else if (macd > 0) score += 0.1
+  else if (macd > -2) score -= 0.1
+  else score -= 0.2
+
+  // Bollinger Bands analysis; without a price the band midpoint stands in and the factor stays neutral
+  if (bollinger && bollinger.upper > bollinger.lower) {
+    const currentPrice =
+      typeof technicalData.price === "number" && Number.isFinite(technicalData.price)
+        ? technicalData.price
+        : (bollinger.upper + bollinger.lower) / 2
+    const position = (currentPrice - bollinger.lower) / (bollinger.upper - bollinger.lower)
+
+    if (position > 0.8)
+      score -= 0.1 // Near upper band
+    else if (position < 0.2) score += 0.1 // Near lower band
+  }
+
+  return Math.max(0, Math.min(1, score))
+}
+
+export function calculatePreciseFundamentalScore(fundamentals: any): number {
+  let score = 0.5
+
+  const pe = fundamentals?.pe || 15
+  const eps = fundamentals?.eps || 0
+  const beta = fundamentals?.beta || 1
+  const marketCap = fundamentals?.marketCap || 0
+
+  // P/E ratio analysis
+  if (pe < 10)
+    score += 0.2 // Undervalued
+  else if (pe < 15)
+    score += 0.1 // Fair value
+  else if (pe < 25)
+    score -= 0.05 // Slightly overvalued
+  else if (pe < 35)
+    score -= 0.15 // Overvalued
+  else score -= 0.25 // Severely overvalued
+
+  // EPS growth (simulated)
+  if (eps > 5) score += 0.1
+  else if (eps < 0) score -= 0.2
+
+  // Beta analysis
+  if (beta < 0.8)
+    score += 0.05 // Low volatility
+  else if (beta > 1.5) score -= 0.1 // High volatility
+
+  // Market cap stability
+  if (marketCap > 100e9) score += 0.05 // Large cap stability
+
+  return Math.max(0, Math.min(1, score))
+}
+
+export function calculatePreciseNewsScore(newsData: any): number {
+  // Average headline sentiment of recent articles (0-1, 0.5 neutral)
+  const recentNews = (newsData.recent || []).filter((article: any) => typeof article.sentiment === "number")
+  if (recentNews.length === 0) return 0.5
+
+  const meanSentiment = recentNews.reduce((sum: number, article: any) => sum + article.sentiment, 0) / recentNews.length
+  return Math.max(0, Math.min(1, meanSentiment))
+}
+
+export function calculateVolatilityScore(technicalData: any): number {
+  const bollinger = technicalData.bollinger
+  if (!bollinger) return 0.5
+
+  const width = bollinger.width || 10
+  // Higher width = higher volatility
+  return Math.max(0, Math.min(1, width / 20))
+}
+
+export function calculateMomentumScore(technicalData: any): number {
+  const macd = technicalData.macd?.value || 0
+  const rsi = technicalData.rsi || 50
+
+  // Combine MACD and RSI for momentum
+  const macdMomentum = Math.max(-1, Math.min(1, macd / 5))
+  const rsiMomentum = (rsi - 50) / 50
+
+  return Math.max(0, Math.min(1, (macdMomentum + rsiMomentum) / 2 + 0.5))
+}
+
+export function calculateVolumeScore(fundamentals: any): number {
+  const avgVolume = fundamentals?.avgVolume || 1000000
+
+  // Normalize volume (higher volume = higher score)
+  if (avgVolume > 10000000) return 0.8
+  if (avgVolume > 5000000) return 0.7
+  if (avgVolume > 1000000) return 0.6
+  if (avgVolume > 500000) return 0.5
+  return 0.4
+}
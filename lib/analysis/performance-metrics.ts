@@ -0,0 +1,81 @@
+export interface ValuePoint {
+  date: string
+  value: number
+}
+
+export interface MaxDrawdown {
+  /** Largest peak-to-trough decline as a positive fraction, e.g. 0.25 for -25% */
+  value: number
+  peakDate: string | null
+  troughDate: string | null
+  /** First date the series regained the peak, or null if it has not recovered */
+  recoveryDate: string | null
+}
+
+export interface PerformanceMetrics {
+  startValue: number
+  endValue: number
+  totalReturn: number
+  cagr: number
+  annualizedVolatility: number
+  sharpeRatio: number
+  maxDrawdown: MaxDrawdown
+}
+
+const TRADING_DAYS_PER_YEAR = 252
+
+export function calculateReturns(points: ValuePoint[]): number[] {
+  return points.slice(1).map((point, i) => (points[i].value === 0 ? 0 : point.value / points[i].value - 1))
+}
+
+export function calculateMaxDrawdown(points: ValuePoint[]): MaxDrawdown {
+  const result: MaxDrawdown = { value: 0, peakDate: null, troughDate: null, recoveryDate: null }
+  if (points.length === 0) return result
+
+  let peak = points[0]
+  for (const point of points) {
+    if (point.value > peak.value) peak = point
+    const drawdown = peak.value === 0 ? 0 : 1 - point.value / peak.value
+    if (drawdown > result.value) {
+      result.value = drawdown
+      result.peakDate = peak.date
+      result.troughDate = point.date
+    }
+  }
+
+  if (result.troughDate) {
+    const peakValue = points.find((point) => point.date === result.peakDate)!.value
+    const troughIndex = points.findIndex((point) => point.date === result.troughDate)
+    result.recoveryDate = points.slice(troughIndex).find((point) => point.value >= peakValue)?.date ?? null
+  }
+
+  return result
+}
+
+/** Return, risk and drawdown statistics for a daily value series (equity curve or price series) */
+export function calculatePerformance(points: ValuePoint[], riskFreeRate = 0.02): PerformanceMetrics {
+  const startValue = points[0]?.value ?? 0
+  const endValue = points[points.length - 1]?.value ?? 0
+  const totalReturn = startValue > 0 ? endValue / startValue - 1 : 0
+
+  const years = Math.max(points.length - 1, 1) / TRADING_DAYS_PER_YEAR
+  const cagr = startValue > 0 && endValue > 0 ? Math.pow(endValue / startValue, 1 / years) - 1 : -1
+
+  const returns = calculateReturns(points)
+  const meanReturn = returns.length ? returns.reduce((sum, ret) => sum + ret, 0) / returns.length : 0
+  const variance =
+    returns.length > 1 ? returns.reduce((sum, ret) => sum + Math.pow(ret - meanReturn, 2), 0) / (returns.length - 1) : 0
+  const annualizedVolatility = Math.sqrt(variance) * Math.sqrt(TRADING_DAYS_PER_YEAR)
+  const sharpeRatio =
+    annualizedVolatility === 0 ? 0 : (meanReturn * TRADING_DAYS_PER_YEAR - riskFreeRate) / annualizedVolatility
+
+  return {
+    startValue,
+    endValue,
+    totalReturn,
+    cagr,
+    annualizedVolatility,
+    sharpeRatio,
+    maxDrawdown: calculateMaxDrawdown(points),
+  }
+}
@@ -0,0 +1,460 @@
+import type { HistoricalCandle } from "@/lib/api/providers/types"
+import type { ValuePoint } from "./performance-metrics"
+import { dailyReturns } from "./risk-analytics"
+
+/**
+ * Mean-variance portfolio optimizer
+ *
+ * Expected returns and the covariance matrix are estimated from daily returns on the dates every asset
+ * traded, then annualized. Allocations are long-only, fully invested and kept inside per-position bounds.
+ * Mean-variance problems are solved by projected gradient descent on w'Σw - γμ'w; sweeping the risk
+ * appetite γ traces the efficient frontier, and the max-Sharpe and target-volatility portfolios are
+ * searched along that same curve. Risk parity uses Spinu's convex formulation and is then clipped to bounds.
+ */
+
+export type OptimizationObjective = "min-variance" | "max-sharpe" | "risk-parity" | "target-volatility"
+
+export interface WeightBounds {
+  min: number
+  max: number
+}
+
+export interface OptimizerInputs {
+  tickers: string[]
+  /** Annualized arithmetic mean return per ticker */
+  expectedReturns: number[]
+  /** Annualized covariance of daily returns */
+  covariance: number[][]
+  observations: number
+  startDate: string
+  endDate: string
+}
+
+export interface OptimizerOptions {
+  objective: OptimizationObjective
+  /** Applied to every ticker without its own entry in `bounds` */
+  defaultBounds?: WeightBounds
+  bounds?: Record<string, Partial<WeightBounds>>
+  /** Annualized volatility for the target-volatility objective, e.g. 0.15 */
+  targetVolatility?: number
+  riskFreeRate?: number
+  frontierPoints?: number
+}
+
+export interface PortfolioStats {
+  expectedReturn: number
+  volatility: number
+  sharpeRatio: number
+}
+
+export interface Allocation extends PortfolioStats {
+  weights: Record<string, number>
+  /** Share of portfolio variance contributed by each position; sums to 1 */
+  riskContributions: Record<string, number>
+}
+
+export interface FrontierPoint extends PortfolioStats {
+  weights: Record<string, number>
+}
+
+export interface OptimizationResult {
+  objective: OptimizationObjective
+  inputs: Omit<OptimizerInputs, "covariance">
+  target: Allocation
+  frontier: FrontierPoint[]
+  /** False when the target volatility could not be reached inside the bounds */
+  targetMet: boolean
+}
+
+export interface Holding {
+  ticker: string
+  shares: number
+  price: number
+}
+
+export interface RebalanceTrade {
+  ticker: string
+  action: "BUY" | "SELL"
+  shares: number
+  price: number
+  value: number
+  currentWeight: number
+  targetWeight: number
+}
+
+/** Inputs the optimizer cannot solve for; 422 since the request itself is well-formed */
+export class OptimizationError extends Error {
+  constructor(
+    message: string,
+    public status = 422,
+  ) {
+    super(message)
+    this.name = "OptimizationError"
+  }
+}
+
+export const OPTIMIZATION_OBJECTIVES: OptimizationObjective[] = [
+  "min-variance",
+  "max-sharpe",
+  "risk-parity",
+  "target-volatility",
+]
+
+/** Fewer shared trading days than this makes the covariance estimate meaningless */
+export const MIN_OBSERVATIONS = 60
+
+const TRADING_DAYS_PER_YEAR = 252
+const DEFAULT_BOUNDS: WeightBounds = { min: 0, max: 1 }
+const DEFAULT_FRONTIER_POINTS = 25
+const MAX_ITERATIONS = 5000
+const TOLERANCE = 1e-10
+/** Risk appetites swept for the frontier, as multiples of the problem's natural scale */
+const GAMMA_RANGE = { from: 1e-3, to: 1e3 }
+
+/** Align daily returns on the dates every ticker traded and annualize their moments */
+export function estimateInputs(candlesByTicker: Record<string, HistoricalCandle[]>): OptimizerInputs {
+  const tickers = Object.keys(candlesByTicker)
+  if (tickers.length === 0) throw new OptimizationError("At least one ticker is required")
+
+  const returnsByTicker = tickers.map((ticker) => {
+    const returns: ValuePoint[] = dailyReturns(candlesByTicker[ticker])
+    return new Map(returns.map((point) => [point.date, point.value]))
+  })
+  const dates = [...returnsByTicker[0].keys()]
+    .filter((date) => returnsByTicker.every((series) => series.has(date)))
+    .sort()
+
+  if (dates.length < MIN_OBSERVATIONS) {
+    const short = tickers.filter((_, i) => returnsByTicker[i].size < MIN_OBSERVATIONS)
+    throw new OptimizationError(
+      `Only ${dates.length} shared trading days of history; at least ${MIN_OBSERVATIONS} are needed` +
+        (short.length > 0 ? ` (insufficient history for ${short.join(", ")})` : ""),
+    )
+  }
+
+  const matrix = returnsByTicker.map((series) => dates.map((date) => series.get(date)!))
+  const means = matrix.map((series) => series.reduce((sum, ret) => sum + ret, 0) / series.length)
+  const covariance = matrix.map((a, i) =>
+    matrix.map((b, j) => {
+      let sum = 0
+      for (let t = 0; t < dates.length; t++) sum += (a[t] - means[i]) * (b[t] - means[j])
+      return (sum / (dates.length - 1)) * TRADING_DAYS_PER_YEAR
+    }),
+  )
+
+  return {
+    tickers,
+    expectedReturns: means.map((mean) => mean * TRADING_DAYS_PER_YEAR),
+    covariance,
+    observations: dates.length,
+    startDate: dates[0],
+    endDate: dates[dates.length - 1],
+  }
+}
+
+export function portfolioStats(weights: number[], inputs: OptimizerInputs, riskFreeRate = 0.02): PortfolioStats {
+  const expectedReturn = dot(weights, inputs.expectedReturns)
+  const volatility = Math.sqrt(Math.max(0, dot(weights, multiply(inputs.covariance, weights))))
+  return {
+    expectedReturn,
+    volatility,
+    sharpeRatio: volatility > 0 ? (expectedReturn - riskFreeRate) / volatility : 0,
+  }
+}
+
+export function riskContributions(weights: number[], covariance: number[][]): number[] {
+  const marginal = multiply(covariance, weights)
+  const variance = dot(weights, marginal)
+  return weights.map((weight, i) => (variance > 0 ? (weight * marginal[i]) / variance : 0))
+}
+
+export function optimizePortfolio(inputs: OptimizerInputs, options: OptimizerOptions): OptimizationResult {
+  const riskFreeRate = options.riskFreeRate ?? 0.02
+  const { lower, upper } = resolveBounds(inputs.tickers, options)
+  const mu = inputs.expectedReturns
+  const sigma = inputs.covariance
+
+  // Step 1/L for the gradient 2Σw - γμ, whose Lipschitz constant L is twice Σ's largest eigenvalue
+  const largestEigenvalue = Math.max(powerIteration(sigma), 1e-12)
+  const step = 1 / (2 * largestEigenvalue)
+  const gammaScale = (2 * largestEigenvalue) / Math.max(Math.max(...mu.map(Math.abs)), 1e-12)
+
+  let warmStart = project(
+    inputs.tickers.map(() => 1 / inputs.tickers.length),
+    lower,
+    upper,
+  )
+  const solve = (gamma: number) => {
+    warmStart = meanVariance(mu, sigma, gamma, lower, upper, step, warmStart)
+    return warmStart
+  }
+  const stats = (weights: number[]) => portfolioStats(weights, inputs, riskFreeRate)
+
+  // Efficient frontier from minimum variance towards maximum return
+  const pointCount = options.frontierPoints ?? DEFAULT_FRONTIER_POINTS
+  const gammas = [0]
+  for (let k = 0; k < pointCount - 1; k++) {
+    const fraction = k / Math.max(1, pointCount - 2)
+    gammas.push(gammaScale * GAMMA_RANGE.from * Math.pow(GAMMA_RANGE.to / GAMMA_RANGE.from, fraction))
+  }
+  const solved = gammas.map((gamma) => ({ gamma, weights: solve(gamma) }))
+  const frontier = dedupeFrontier(
+    solved.map(({ weights }) => ({ ...stats(weights), weights: toRecord(inputs.tickers, weights) })),
+  )
+
+  let weights: number[]
+  let targetMet = true
+
+  switch (options.objective) {
+    case "min-variance":
+      weights = solved[0].weights
+      break
+
+    case "max-sharpe": {
+      // Sharpe along the frontier is unimodal in log γ; refine around the best sampled point
+      const best = solved.reduce((a, b) => (stats(b.weights).sharpeRatio > stats(a.weights).sharpeRatio ? b : a))
+      const index = solved.indexOf(best)
+      let lo = Math.log(Math.max(solved[Math.max(0, index - 1)].gamma, gammaScale * GAMMA_RANGE.from * 1e-3))
+      let hi = Math.log(solved[Math.min(solved.length - 1, index + 1)].gamma || gammaScale * GAMMA_RANGE.from)
+      for (let i = 0; i < 30 && hi - lo > 1e-6; i++) {
+        const m1 = lo + (hi - lo) / 3
+        const m2 = hi - (hi - lo) / 3
+        if (stats(solve(Math.exp(m1))).sharpeRatio < stats(solve(Math.exp(m2))).sharpeRatio) lo = m1
+        else hi = m2
+      }
+      const refined = solve(Math.exp((lo + hi) / 2))
+      weights = stats(refined).sharpeRatio >= stats(best.weights).sharpeRatio ? refined : best.weights
+      break
+    }
+
+    case "target-volatility": {
+      const target = options.targetVolatility
+      if (!target || !Number.isFinite(target) || target <= 0) {
+        throw new OptimizationError("targetVolatility must be a positive annualized volatility, e.g. 0.15")
+      }
+      const minVariance = solved[0].weights
+      const maxReturn = solved[solved.length - 1].weights
+      if (stats(minVariance).volatility >= target) {
+        weights = minVariance
+        targetMet = stats(minVariance).volatility - target < 1e-4
+      } else if (stats(maxReturn).volatility <= target) {
+        weights = maxReturn
+      } else {
+        // Volatility rises with γ, so bisect for the highest-return portfolio at the target
+        let lo = 0
+        let hi = solved[solved.length - 1].gamma
+        weights = minVariance
+        for (let i = 0; i < 60; i++) {
+          const mid = (lo + hi) / 2
+          const candidate = solve(mid)
+          if (stats(candidate).volatility <= target) {
+            weights = candidate
+            lo = mid
+          } else {
+            hi = mid
+          }
+        }
+      }
+      break
+    }
+
+    case "risk-parity":
+      weights = project(riskParity(sigma), lower, upper)
+      break
+
+    default:
+      throw new OptimizationError(`Unknown objective: ${options.objective}`)
+  }
+
+  return {
+    objective: options.objective,
+    inputs: {
+      tickers: inputs.tickers,
+      expectedReturns: inputs.expectedReturns,
+      observations: inputs.observations,
+      startDate: inputs.startDate,
+      endDate: inputs.endDate,
+    },
+    target: describeAllocation(weights, inputs, riskFreeRate),
+    frontier,
+    targetMet,
+  }
+}
+
+/** Stats and risk contributions for any weight vector, e.g. the current holdings */
+export function describeAllocation(weights: number[], inputs: OptimizerInputs, riskFreeRate = 0.02): Allocation {
+  return {
+    ...portfolioStats(weights, inputs, riskFreeRate),
+    weights: toRecord(inputs.tickers, weights),
+    riskContributions: toRecord(inputs.tickers, riskContributions(weights, inputs.covariance)),
+  }
+}
+
+/**
+ * Orders that move the holdings to the target weights of their combined value plus cash.
+ * Sells come first so their proceeds fund the buys; trades below `minTradeValue` are skipped.
+ */
+export function rebalanceTrades(
+  holdings: Holding[],
+  cash: number,
+  targetWeights: Record<string, number>,
+  prices: Record<string, number>,
+  options: { wholeShares?: boolean; minTradeValue?: number } = {},
+): RebalanceTrade[] {
+  const wholeShares = options.wholeShares ?? true
+  const minTradeValue = options.minTradeValue ?? 1
+
+  const currentShares = new Map(holdings.map((holding) => [holding.ticker, holding.shares]))
+  const priceOf = (ticker: string) =>
+    prices[ticker] ?? holdings.find((holding) => holding.ticker === ticker)?.price ?? 0
+  const totalValue = holdings.reduce((sum, holding) => sum + holding.shares * holding.price, 0) + Math.max(0, cash)
+  if (totalValue <= 0) return []
+
+  const tickers = [...new Set([...holdings.map((holding) => holding.ticker), ...Object.keys(targetWeights)])]
+  const trades: RebalanceTrade[] = []
+
+  for (const ticker of tickers) {
+    const price = priceOf(ticker)
+    if (!(price > 0)) continue
+    const shares = currentShares.get(ticker) ?? 0
+    const targetWeight = targetWeights[ticker] ?? 0
+    let delta = (targetWeight * totalValue) / price - shares
+    if (wholeShares) delta = Math.trunc(delta)
+    // Never sell more than is held, even if rounding suggests it
+    delta = Math.max(delta, -shares)
+
+    const value = Math.abs(delta) * price
+    if (delta === 0 || value < minTradeValue) continue
+    trades.push({
+      ticker,
+      action: delta > 0 ? "BUY" : "SELL",
+      shares: Math.abs(delta),
+      price,
+      value,
+      currentWeight: (shares * price) / totalValue,
+      targetWeight,
+    })
+  }
+
+  return trades.sort((a, b) => (a.action === b.action ? b.value - a.value : a.action === "SELL" ? -1 : 1))
+}
+
+function resolveBounds(tickers: string[], options: OptimizerOptions): { lower: number[]; upper: number[] } {
+  const base = options.defaultBounds ?? DEFAULT_BOUNDS
+  const lower = tickers.map((ticker) => options.bounds?.[ticker]?.min ?? base.min)
+  const upper = tickers.map((ticker) => options.bounds?.[ticker]?.max ?? base.max)
+
+  tickers.forEach((ticker, i) => {
+    if (!(lower[i] >= 0) || !(upper[i] <= 1) || lower[i] > upper[i]) {
+      throw new OptimizationError(`Bounds for ${ticker} must satisfy 0 <= min <= max <= 1`)
+    }
+  })
+  if (lower.reduce((a, b) => a + b, 0) > 1 + 1e-9 || upper.reduce((a, b) => a + b, 0) < 1 - 1e-9) {
+    throw new OptimizationError("Bounds cannot be met by a fully invested portfolio")
+  }
+  return { lower, upper }
+}
+
+/** Euclidean projection onto { sum(w) = 1, lower <= w <= upper } by bisection on the shift */
+function project(values: number[], lower: number[], upper: number[]): number[] {
+  const clipped = (shift: number) => values.map((value, i) => Math.min(upper[i], Math.max(lower[i], value - shift)))
+  const total = (shift: number) => clipped(shift).reduce((a, b) => a + b, 0)
+
+  let lo = Math.min(...values.map((value, i) => value - upper[i])) - 1
+  let hi = Math.max(...values.map((value, i) => value - lower[i])) + 1
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2
+    if (total(mid) > 1) lo = mid
+    else hi = mid
+  }
+  return clipped((lo + hi) / 2)
+}
+
+/** Minimize w'Σw - γμ'w over the bounded simplex */
+function meanVariance(
+  mu: number[],
+  sigma: number[][],
+  gamma: number,
+  lower: number[],
+  upper: number[],
+  step: number,
+  start: number[],
+): number[] {
+  let weights = start
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const gradient = multiply(sigma, weights).map((value, i) => 2 * value - gamma * mu[i])
+    const next = project(
+      weights.map((weight, i) => weight - step * gradient[i]),
+      lower,
+      upper,
+    )
+    const change = next.reduce((sum, weight, i) => sum + Math.abs(weight - weights[i]), 0)
+    weights = next
+    if (change < TOLERANCE) break
+  }
+  return weights
+}
+
+/**
+ * Equal risk contribution weights: minimize ½y'Σy - (1/n)Σ ln y by cyclical coordinate descent,
+ * whose solution normalized to sum 1 has every position contributing the same variance.
+ */
+function riskParity(sigma: number[][]): number[] {
+  const n = sigma.length
+  const budget = 1 / n
+  const y = sigma.map((row, i) => 1 / Math.sqrt(Math.max(row[i], 1e-12)))
+
+  for (let sweep = 0; sweep < 500; sweep++) {
+    let change = 0
+    for (let i = 0; i < n; i++) {
+      const a = Math.max(sigma[i][i], 1e-12)
+      let b = 0
+      for (let j = 0; j < n; j++) if (j !== i) b += sigma[i][j] * y[j]
+      const next = (-b + Math.sqrt(b * b + 4 * a * budget)) / (2 * a)
+      change += Math.abs(next - y[i])
+      y[i] = next
+    }
+    if (change < TOLERANCE) break
+  }
+
+  const total = y.reduce((a, b) => a + b, 0)
+  return y.map((value) => value / total)
+}
+
+/** Drop repeated points where γ no longer moves the solution, keeping the curve increasing */
+function dedupeFrontier(points: FrontierPoint[]): FrontierPoint[] {
+  const kept: FrontierPoint[] = []
+  for (const point of [...points].sort((a, b) => a.volatility - b.volatility)) {
+    const last = kept[kept.length - 1]
+    if (!last || (point.volatility - last.volatility > 1e-5 && point.expectedReturn > last.expectedReturn)) {
+      kept.push(point)
+    }
+  }
+  return kept
+}
+
+function powerIteration(matrix: number[][]): number {
+  let vector = matrix.map(() => 1 / Math.sqrt(matrix.length))
+  let eigenvalue = 0
+  for (let i = 0; i < 100; i++) {
+    const next = multiply(matrix, vector)
+    const norm = Math.sqrt(dot(next, next))
+    if (norm === 0) return 0
+    vector = next.map((value) => value / norm)
+    if (Math.abs(norm - eigenvalue) < 1e-12 * norm) return norm
+    eigenvalue = norm
+  }
+  return eigenvalue
+}
+
+function toRecord(tickers: string[], values: number[]): Record<string, number> {
+  return Object.fromEntries(tickers.map((ticker, i) => [ticker, values[i]]))
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0)
+}
+
+function multiply(matrix: number[][], vector: number[]): number[] {
+  return matrix.map((row) => dot(row, vector))
+}
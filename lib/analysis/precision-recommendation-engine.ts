@@ -1,6 +1,7 @@
 export interface StockProfile {
   ticker: string
   sector: string
+  industry?: string
   volatilityProfile: "low" | "medium" | "high"
   growthProfile: "value" | "growth" | "balanced"
   marketCap: "small" | "mid" | "large"
@@ -18,45 +19,13 @@ export interface PrecisionAnalysisFactors {
 }
 
 export class PrecisionRecommendationEngine {
-  private static stockProfiles: Record<string, StockProfile> = {
-    TSLA: {
-      ticker: "TSLA",
-      sector: "automotive/energy",
-      volatilityProfile: "high",
-      growthProfile: "growth",
-      marketCap: "large",
-    },
-    MSFT: {
-      ticker: "MSFT",
-      sector: "technology",
-      volatilityProfile: "low",
-      growthProfile: "balanced",
-      marketCap: "large",
-    },
-    NVDA: {
-      ticker: "NVDA",
-      sector: "semiconductors",
-      volatilityProfile: "medium",
-      growthProfile: "growth",
-      marketCap: "large",
-    },
-    AAPL: {
-      ticker: "AAPL",
-      sector: "technology",
-      volatilityProfile: "low",
-      growthProfile: "balanced",
-      marketCap: "large",
-    },
-  }
-
   static generatePrecisionRecommendation(
     ticker: string,
     factors: PrecisionAnalysisFactors,
     currentPrice: number,
     fundamentals: any,
+    profile: StockProfile = this.getDefaultProfile(ticker),
   ) {
-    const profile = this.stockProfiles[ticker] || this.getDefaultProfile(ticker)
-
     // Calculate weighted composite score with profile adjustments
     const weights = this.getProfileWeights(profile)
     const compositeScore = this.calculateCompositeScore(factors, weights)
@@ -162,8 +131,8 @@ export class PrecisionRecommendationEngine {
     riskScore += (1 - factors.marketConditions) * 2
 
     // Sector-specific adjustments
-    if (profile.sector === "semiconductors") riskScore += 0.5
-    if (profile.sector === "automotive/energy") riskScore += 1
+    if (profile.industry?.includes("semiconductor")) riskScore += 0.5
+    if (profile.industry?.includes("auto")) riskScore += 1
     if (profile.sector === "technology" && profile.marketCap === "large") riskScore -= 0.5
 
     return Math.max(1, Math.min(10, riskScore))
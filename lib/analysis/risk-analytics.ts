@@ -0,0 +1,322 @@
+import type { HistoricalCandle } from "@/lib/api/providers/types"
+import { calculateMaxDrawdown, calculatePerformance, type MaxDrawdown, type ValuePoint } from "./performance-metrics"
+
+/**
+ * Risk analytics from a daily price history
+ *
+ * Value at Risk and Expected Shortfall (CVaR) are one-day losses expressed as positive fractions,
+ * estimated both from the empirical return distribution and from a normal fit. Beta and correlation
+ * are measured on returns aligned by date with each benchmark, and stress tests replay the stock's
+ * actual path through past market episodes.
+ */
+
+export interface TailRisk {
+  /** Loss not exceeded with the given confidence, e.g. 0.032 for a 3.2% one-day loss */
+  var: number
+  /** Average loss on the days beyond VaR */
+  cvar: number
+}
+
+export interface ValueAtRisk {
+  confidence: number
+  historical: TailRisk
+  parametric: TailRisk
+}
+
+export interface BenchmarkRelation {
+  symbol: string
+  beta: number
+  correlation: number
+  observations: number
+}
+
+export interface StressEpisode {
+  scenario: string
+  start: string
+  end: string
+}
+
+export interface StressTestResult extends StressEpisode {
+  /** Percent change over the episode, e.g. -34.5 */
+  impact: number
+  /** SPY over the same dates, for reference */
+  benchmarkImpact: number | null
+  /** Deepest decline inside the episode as a percent; null when estimated */
+  maxDrawdown: number | null
+  /** "historical" replays the stock's own prices; "beta-estimated" scales SPY by beta for younger listings */
+  method: "historical" | "beta-estimated"
+}
+
+export interface RiskReport {
+  volatility: number
+  /** Historical one-day 95% VaR, kept as a single headline number */
+  var: number
+  valueAtRisk: ValueAtRisk[]
+  sharpeRatio: number
+  /** Largest peak-to-trough decline over the lookback as a positive fraction */
+  maxDrawdown: number
+  drawdown: MaxDrawdown
+  correlations: { spy: number | null; sector: number | null }
+  benchmarks: { spy: BenchmarkRelation | null; sector: BenchmarkRelation | null }
+  stressTest: StressTestResult[]
+  historicalVolatility: { date: string; volatility: number }[]
+  lookbackDays: number
+  /** Dollar exposure of a stored holding, present when the analysis ran against a portfolio */
+  position?: PositionExposure
+}
+
+export interface PositionExposure {
+  shares: number
+  marketValue: number
+  /** One-day historical VaR and CVaR in dollars at each confidence level */
+  valueAtRisk: { confidence: number; var: number; cvar: number }[]
+}
+
+export const VAR_CONFIDENCE_LEVELS = [0.95, 0.99]
+
+export const STRESS_EPISODES: StressEpisode[] = [
+  { scenario: "2008 Financial Crisis", start: "2008-09-12", end: "2009-03-09" },
+  { scenario: "COVID Crash (Mar 2020)", start: "2020-02-19", end: "2020-03-23" },
+  { scenario: "2022 Bear Market", start: "2022-01-03", end: "2022-10-12" },
+]
+
+/** SPDR sector ETFs keyed by lowercased Yahoo sector names, with common industry aliases */
+export const SECTOR_ETFS: Record<string, string> = {
+  technology: "XLK",
+  semiconductors: "XLK",
+  "financial services": "XLF",
+  financial: "XLF",
+  banking: "XLF",
+  healthcare: "XLV",
+  pharmaceuticals: "XLV",
+  biotechnology: "XLV",
+  "consumer cyclical": "XLY",
+  retail: "XLY",
+  automobiles: "XLY",
+  "consumer defensive": "XLP",
+  energy: "XLE",
+  industrials: "XLI",
+  utilities: "XLU",
+  "real estate": "XLRE",
+  "basic materials": "XLB",
+  "communication services": "XLC",
+  media: "XLC",
+}
+
+const TRADING_DAYS_PER_YEAR = 252
+const DEFAULT_LOOKBACK = TRADING_DAYS_PER_YEAR
+const ROLLING_VOLATILITY_WINDOW = 20
+const ROLLING_VOLATILITY_POINTS = 60
+/** An episode counts as covered if the first candle is within this many days of its start */
+const EPISODE_COVERAGE_SLACK_DAYS = 7
+
+/** One-sided standard normal quantiles for the supported confidence levels */
+const Z_SCORES: Record<number, number> = { 0.9: 1.2816, 0.95: 1.6449, 0.975: 1.96, 0.99: 2.3263 }
+
+export function sectorEtfFor(sector: string | undefined, industry?: string): string | null {
+  for (const label of [sector, industry]) {
+    if (!label) continue
+    const key = label.toLowerCase()
+    if (SECTOR_ETFS[key]) return SECTOR_ETFS[key]
+    const match = Object.keys(SECTOR_ETFS).find((name) => key.includes(name))
+    if (match) return SECTOR_ETFS[match]
+  }
+  return null
+}
+
+export function dailyReturns(candles: HistoricalCandle[]): ValuePoint[] {
+  return candles
+    .slice(1)
+    .map((candle, i) => ({ date: candle.date.split("T")[0], value: candle.close / candles[i].close - 1 }))
+    .filter((point) => Number.isFinite(point.value))
+}
+
+export function historicalTailRisk(returns: number[], confidence: number): TailRisk {
+  if (returns.length === 0) return { var: 0, cvar: 0 }
+  const sorted = [...returns].sort((a, b) => a - b)
+  // Round before ceil: (1 - 0.95) * 100 is 5.000000000000004 in floating point
+  const tailSize = Math.max(1, Math.ceil(Number(((1 - confidence) * sorted.length).toFixed(9))))
+  const tail = sorted.slice(0, tailSize)
+  return {
+    var: Math.max(0, -tail[tail.length - 1]),
+    cvar: Math.max(0, -tail.reduce((sum, ret) => sum + ret, 0) / tail.length),
+  }
+}
+
+export function parametricTailRisk(returns: number[], confidence: number): TailRisk {
+  if (returns.length < 2) return { var: 0, cvar: 0 }
+  const mean = returns.reduce((sum, ret) => sum + ret, 0) / returns.length
+  const sd = Math.sqrt(returns.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) / (returns.length - 1))
+  const z = Z_SCORES[confidence]
+  if (z === undefined) throw new Error(`Unsupported VaR confidence level: ${confidence}`)
+  const density = Math.exp((-z * z) / 2) / Math.sqrt(2 * Math.PI)
+
+  return {
+    var: Math.max(0, z * sd - mean),
+    cvar: Math.max(0, (sd * density) / (1 - confidence) - mean),
+  }
+}
+
+/** Beta and correlation on the dates both series traded */
+export function benchmarkRelation(
+  symbol: string,
+  returns: ValuePoint[],
+  benchmarkReturns: ValuePoint[],
+): BenchmarkRelation | null {
+  const benchmarkByDate = new Map(benchmarkReturns.map((point) => [point.date, point.value]))
+  const pairs = returns
+    .filter((point) => benchmarkByDate.has(point.date))
+    .map((point) => [point.value, benchmarkByDate.get(point.date)!] as const)
+  if (pairs.length < 20) return null
+
+  const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / pairs.length
+  const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / pairs.length
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+  for (const [x, y] of pairs) {
+    covariance += (x - meanX) * (y - meanY)
+    varianceX += Math.pow(x - meanX, 2)
+    varianceY += Math.pow(y - meanY, 2)
+  }
+  if (varianceX === 0 || varianceY === 0) return null
+
+  return {
+    symbol,
+    beta: covariance / varianceY,
+    correlation: covariance / Math.sqrt(varianceX * varianceY),
+    observations: pairs.length,
+  }
+}
+
+/** Price change and in-episode drawdown, or null when the candles do not cover the episode */
+export function replayEpisode(
+  candles: HistoricalCandle[],
+  episode: StressEpisode,
+): { impact: number; maxDrawdown: number } | null {
+  const inEpisode = candles.filter((candle) => {
+    const date = candle.date.split("T")[0]
+    return date >= episode.start && date <= episode.end
+  })
+  if (inEpisode.length < 2) return null
+
+  const slackMs = EPISODE_COVERAGE_SLACK_DAYS * 86400000
+  const first = new Date(inEpisode[0].date).getTime()
+  const last = new Date(inEpisode[inEpisode.length - 1].date).getTime()
+  if (first - new Date(episode.start).getTime() > slackMs || new Date(episode.end).getTime() - last > slackMs) {
+    return null
+  }
+
+  const points = inEpisode.map((candle) => ({ date: candle.date, value: candle.close }))
+  return {
+    impact: (points[points.length - 1].value / points[0].value - 1) * 100,
+    maxDrawdown: -calculateMaxDrawdown(points).value * 100,
+  }
+}
+
+export function stressTest(
+  candles: HistoricalCandle[],
+  spyCandles: HistoricalCandle[],
+  spyBeta: number | null,
+  episodes: StressEpisode[] = STRESS_EPISODES,
+): StressTestResult[] {
+  return episodes.flatMap((episode): StressTestResult[] => {
+    const own = replayEpisode(candles, episode)
+    const benchmark = replayEpisode(spyCandles, episode)
+
+    if (own) {
+      return [{ ...episode, ...own, benchmarkImpact: benchmark?.impact ?? null, method: "historical" }]
+    }
+    if (benchmark && spyBeta !== null) {
+      return [
+        {
+          ...episode,
+          impact: benchmark.impact * spyBeta,
+          benchmarkImpact: benchmark.impact,
+          maxDrawdown: null,
+          method: "beta-estimated",
+        },
+      ]
+    }
+    return []
+  })
+}
+
+/** Annualized volatility over a trailing window, sampled at each of the last `points` dates */
+export function rollingVolatility(
+  returns: ValuePoint[],
+  window = ROLLING_VOLATILITY_WINDOW,
+  points = ROLLING_VOLATILITY_POINTS,
+): { date: string; volatility: number }[] {
+  const series: { date: string; volatility: number }[] = []
+  for (let i = Math.max(window, returns.length - points); i <= returns.length; i++) {
+    const slice = returns.slice(i - window, i).map((point) => point.value)
+    if (slice.length < window) continue
+    const mean = slice.reduce((sum, ret) => sum + ret, 0) / slice.length
+    const variance = slice.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) / (slice.length - 1)
+    series.push({ date: returns[i - 1].date, volatility: Math.sqrt(variance * TRADING_DAYS_PER_YEAR) })
+  }
+  return series
+}
+
+/** Scale the per-dollar historical tail risk to a position's market value */
+export function positionExposure(shares: number, price: number, valueAtRisk: ValueAtRisk[]): PositionExposure {
+  const marketValue = shares * price
+  return {
+    shares,
+    marketValue,
+    valueAtRisk: valueAtRisk.map((level) => ({
+      confidence: level.confidence,
+      var: level.historical.var * marketValue,
+      cvar: level.historical.cvar * marketValue,
+    })),
+  }
+}
+
+/**
+ * Full risk report. Distribution statistics use the trailing `lookback` sessions; stress tests use the
+ * whole history supplied, so pass candles reaching back to the earliest episode when available.
+ */
+export function buildRiskReport(
+  candles: HistoricalCandle[],
+  benchmarks: { spy: HistoricalCandle[]; sector?: { symbol: string; candles: HistoricalCandle[] } | null },
+  options: { lookback?: number; riskFreeRate?: number } = {},
+): RiskReport {
+  const lookback = options.lookback ?? DEFAULT_LOOKBACK
+  const recent = candles.slice(-(lookback + 1))
+  const returns = dailyReturns(recent)
+  const values = returns.map((point) => point.value)
+
+  const performance = calculatePerformance(
+    recent.map((candle) => ({ date: candle.date.split("T")[0], value: candle.close })),
+    options.riskFreeRate ?? 0.02,
+  )
+  const spy = benchmarkRelation("SPY", returns, dailyReturns(benchmarks.spy.slice(-(lookback + 1))))
+  const sector = benchmarks.sector
+    ? benchmarkRelation(
+        benchmarks.sector.symbol,
+        returns,
+        dailyReturns(benchmarks.sector.candles.slice(-(lookback + 1))),
+      )
+    : null
+
+  const valueAtRisk = VAR_CONFIDENCE_LEVELS.map((confidence) => ({
+    confidence,
+    historical: historicalTailRisk(values, confidence),
+    parametric: parametricTailRisk(values, confidence),
+  }))
+
+  return {
+    volatility: performance.annualizedVolatility,
+    var: valueAtRisk[0].historical.var,
+    valueAtRisk,
+    sharpeRatio: performance.sharpeRatio,
+    maxDrawdown: performance.maxDrawdown.value,
+    drawdown: performance.maxDrawdown,
+    correlations: { spy: spy?.correlation ?? null, sector: sector?.correlation ?? null },
+    benchmarks: { spy, sector },
+    stressTest: stressTest(candles, benchmarks.spy, spy?.beta ?? null),
+    historicalVolatility: rollingVolatility(returns),
+    lookbackDays: returns.length,
+  }
+}
@@ -109,7 +109,10 @@ export interface CryptoNewsData {
  * @param ticker Stock ticker symbol
  * @returns Promise with stock analysis data
  */
-export async function fetchStockAnalysis(ticker: string): Promise<StockAnalysis> {
+export async function fetchStockAnalysis(
+  ticker: string,
+  options: { portfolioId?: number } = {},
+): Promise<StockAnalysis> {
   const controller = new AbortController()
   const timeoutId = setTimeout(() => controller.abort(), 30000) // 30 second timeout
 
@@ -119,7 +122,7 @@ export async function fetchStockAnalysis(ticker: string): Promise<StockAnalysis>
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({ ticker }),
+      body: JSON.stringify({ ticker, portfolioId: options.portfolioId }),
       signal: controller.signal,
     })
 
@@ -0,0 +1,44 @@
+import { ProviderRateLimiter } from "./rate-limiter"
+
+export class AlphaVantageClient {
+  private baseUrl = "https://www.alphavantage.co/query"
+  private apiKey: string
+  private limiter: ProviderRateLimiter
+
+  constructor(apiKey: string, limiter = ProviderRateLimiter.getInstance()) {
+    this.apiKey = apiKey
+    this.limiter = limiter
+  }
+
+  async getQuote(symbol: string) {
+    return this.query({ function: "GLOBAL_QUOTE", symbol })
+  }
+
+  async getDailySeries(symbol: string, outputsize: "compact" | "full" = "compact") {
+    return this.query({ function: "TIME_SERIES_DAILY", symbol, outputsize })
+  }
+
+  async getCompanyOverview(symbol: string) {
+    return this.query({ function: "OVERVIEW", symbol })
+  }
+
+  private async query(params: Record<string, string>) {
+    const queryParams = new URLSearchParams({ ...params, apikey: this.apiKey })
+    const response = await this.limiter.run("alphaVantage", params.function, () =>
+      fetch(`${this.baseUrl}?${queryParams}`),
+    )
+    if (!response.ok) {
+      throw new Error(`Alpha Vantage API error: ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    // Alpha Vantage answers 200 with a "Note"/"Information" body when the free-tier quota is hit
+    if (data["Note"] || data["Information"]) {
+      throw new Error(`Alpha Vantage rate limit: ${data["Note"] || data["Information"]}`)
+    }
+    if (data["Error Message"]) {
+      throw new Error(`Alpha Vantage API error: ${data["Error Message"]}`)
+    }
+    return data
+  }
+}
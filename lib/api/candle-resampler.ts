@@ -0,0 +1,55 @@
+import { intradayCandle } from "./market-hours"
+import type { CandleInterval, HistoricalCandle } from "./providers/types"
+
+export const INTERVAL_MS: Record<CandleInterval, number> = {
+  "1m": 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "15m": 15 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "1d": 24 * 60 * 60 * 1000,
+}
+
+/**
+ * Aggregate intraday candles into a coarser interval.
+ *
+ * Intraday buckets are aligned to the clock (a 1h bucket runs 10:00-11:00) and never mix sessions, so the
+ * 9:00 hour yields a pre-market bar and a 9:30-10:00 regular bar. Daily candles are built from regular-
+ * session bars only, matching exchange daily bars; days with no regular bars are dropped.
+ */
+export function resampleCandles(candles: HistoricalCandle[], interval: CandleInterval): HistoricalCandle[] {
+  if (candles.some((candle) => !candle.timestamp)) {
+    throw new Error("Only intraday candles with timestamps can be resampled")
+  }
+
+  const sorted = [...candles].sort((a, b) => Date.parse(a.timestamp!) - Date.parse(b.timestamp!))
+  const buckets = new Map<string, HistoricalCandle[]>()
+  for (const candle of sorted) {
+    let key: string
+    if (interval === "1d") {
+      if (!candle.marketHours) continue
+      key = candle.date
+    } else {
+      const start = Math.floor(Date.parse(candle.timestamp!) / INTERVAL_MS[interval]) * INTERVAL_MS[interval]
+      key = `${start}:${candle.marketHours ? "regular" : candle.extendedHours ? "extended" : "closed"}`
+    }
+    buckets.set(key, [...(buckets.get(key) ?? []), candle])
+  }
+
+  return [...buckets.entries()].map(([key, bars]) => {
+    const first = bars[0]
+    const last = bars[bars.length - 1]
+    const bar = {
+      open: first.open,
+      high: Math.max(...bars.map((candle) => candle.high)),
+      low: Math.min(...bars.map((candle) => candle.low)),
+      close: last.close,
+      volume: bars.reduce((sum, candle) => sum + (candle.volume || 0), 0),
+    }
+    if (interval === "1d") return { date: key, ...bar, price: bar.close }
+
+    // A bucket split by the open or close starts where its session does, e.g. 9:30 rather than 9:00
+    const bucketStart = Number(key.split(":")[0])
+    const resampled = intradayCandle(bucketStart, bar)
+    return resampled.marketHours === first.marketHours ? resampled : intradayCandle(Date.parse(first.timestamp!), bar)
+  })
+}
@@ -1,13 +1,19 @@
+import { ProviderRateLimiter } from "./rate-limiter"
+
 export class FinnhubClient {
   private baseUrl = "https://finnhub.io/api/v1"
   private apiKey: string
+  private limiter: ProviderRateLimiter
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, limiter = ProviderRateLimiter.getInstance()) {
     this.apiKey = apiKey
+    this.limiter = limiter
   }
 
   async getQuote(symbol: string) {
-    const response = await fetch(`${this.baseUrl}/quote?symbol=${symbol}&token=${this.apiKey}`)
+    const response = await this.limiter.run("finnhub", "quote", () =>
+      fetch(`${this.baseUrl}/quote?symbol=${symbol}&token=${this.apiKey}`),
+    )
     if (!response.ok) {
       throw new Error(`Finnhub API error: ${response.statusText}`)
     }
@@ -15,7 +21,9 @@ export class FinnhubClient {
   }
 
   async getCompanyProfile(symbol: string) {
-    const response = await fetch(`${this.baseUrl}/stock/profile2?symbol=${symbol}&token=${this.apiKey}`)
+    const response = await this.limiter.run("finnhub", "companyProfile", () =>
+      fetch(`${this.baseUrl}/stock/profile2?symbol=${symbol}&token=${this.apiKey}`),
+    )
     if (!response.ok) {
       throw new Error(`Finnhub API error: ${response.statusText}`)
     }
@@ -33,8 +41,8 @@ export class FinnhubClient {
   // }
 
   async getNews(symbol: string, from: string, to: string) {
-    const response = await fetch(
-      `${this.baseUrl}/company-news?symbol=${symbol}&from=${from}&to=${to}&token=${this.apiKey}`,
+    const response = await this.limiter.run("finnhub", "news", () =>
+      fetch(`${this.baseUrl}/company-news?symbol=${symbol}&from=${from}&to=${to}&token=${this.apiKey}`),
     )
     if (!response.ok) {
       throw new Error(`Finnhub API error: ${response.statusText}`)
@@ -43,7 +51,9 @@ export class FinnhubClient {
   }
 
   async getBasicFinancials(symbol: string) {
-    const response = await fetch(`${this.baseUrl}/stock/metric?symbol=${symbol}&metric=all&token=${this.apiKey}`)
+    const response = await this.limiter.run("finnhub", "basicFinancials", () =>
+      fetch(`${this.baseUrl}/stock/metric?symbol=${symbol}&metric=all&token=${this.apiKey}`),
+    )
     if (!response.ok) {
       throw new Error(`Finnhub API error: ${response.statusText}`)
     }
@@ -51,7 +61,9 @@ export class FinnhubClient {
   }
 
   async getEarnings(symbol: string) {
-    const response = await fetch(`${this.baseUrl}/stock/earnings?symbol=${symbol}&token=${this.apiKey}`)
+    const response = await this.limiter.run("finnhub", "earnings", () =>
+      fetch(`${this.baseUrl}/stock/earnings?symbol=${symbol}&token=${this.apiKey}`),
+    )
     if (!response.ok) {
       throw new Error(`Finnhub API error: ${response.statusText}`)
     }
@@ -59,7 +71,9 @@ export class FinnhubClient {
   }
 
   async getRecommendations(symbol: string) {
-    const response = await fetch(`${this.baseUrl}/stock/recommendation?symbol=${symbol}&token=${this.apiKey}`)
+    const response = await this.limiter.run("finnhub", "recommendations", () =>
+      fetch(`${this.baseUrl}/stock/recommendation?symbol=${symbol}&token=${this.apiKey}`),
+    )
     if (!response.ok) {
       throw new Error(`Finnhub API error: ${response.statusText}`)
     }
@@ -0,0 +1,82 @@
+import type { HistoricalCandle } from "./providers/types"
+
+/**
+ * US equity session boundaries
+ *
+ * Sessions are computed in US/Eastern wall time so daylight saving is handled by the runtime's time zone
+ * data. Exchange holidays and early closes are not modelled; providers simply return no bars for them.
+ */
+
+export type MarketSession = "pre" | "regular" | "post" | "closed"
+
+const EASTERN_TIME_ZONE = "America/New_York"
+const PRE_MARKET_OPEN = 4 * 60
+const REGULAR_OPEN = 9 * 60 + 30
+const REGULAR_CLOSE = 16 * 60
+const AFTER_HOURS_CLOSE = 20 * 60
+
+const easternFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: EASTERN_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  weekday: "short",
+  hourCycle: "h23",
+})
+
+/** Wall-clock fields of `date` in US/Eastern */
+export function easternTime(date: Date): { day: string; minutes: number; weekday: string; seconds: number } {
+  const parts = Object.fromEntries(easternFormatter.formatToParts(date).map((part) => [part.type, part.value]))
+  return {
+    day: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    seconds: Number(parts.second),
+    weekday: parts.weekday,
+  }
+}
+
+export function marketSession(date: Date): MarketSession {
+  const { minutes, weekday } = easternTime(date)
+  if (weekday === "Sat" || weekday === "Sun") return "closed"
+  if (minutes >= REGULAR_OPEN && minutes < REGULAR_CLOSE) return "regular"
+  if (minutes >= PRE_MARKET_OPEN && minutes < REGULAR_OPEN) return "pre"
+  if (minutes >= REGULAR_CLOSE && minutes < AFTER_HOURS_CLOSE) return "post"
+  return "closed"
+}
+
+/** Convert an Eastern wall time such as "2025-06-02 09:30:00" (as Twelve Data returns it) to a Date */
+export function easternWallTimeToDate(local: string): Date {
+  const asUtc = Date.parse(`${local.trim().replace(" ", "T")}${local.includes(":") ? "" : "T00:00:00"}Z`)
+  // The offset is read at a first guess and again at the corrected instant, which settles across DST changes
+  let instant = asUtc
+  for (let i = 0; i < 2; i++) {
+    const wall = easternTime(new Date(instant))
+    const wallAsUtc = Date.parse(`${wall.day}T00:00:00Z`) + (wall.minutes * 60 + wall.seconds) * 1000
+    instant = asUtc - (wallAsUtc - instant)
+  }
+  return new Date(instant)
+}
+
+/** Normalized intraday candle with its trading day and session flags */
+export function intradayCandle(
+  start: Date | number,
+  bar: { open: number; high: number; low: number; close: number; volume: number },
+): HistoricalCandle {
+  const date = new Date(start)
+  const session = marketSession(date)
+  return {
+    date: easternTime(date).day,
+    timestamp: date.toISOString(),
+    open: bar.open,
+    high: bar.high,
+    low: bar.low,
+    close: bar.close,
+    price: bar.close,
+    volume: bar.volume,
+    marketHours: session === "regular",
+    extendedHours: session === "pre" || session === "post",
+  }
+}
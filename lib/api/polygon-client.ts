@@ -1,13 +1,19 @@
+import { ProviderRateLimiter } from "./rate-limiter"
+
 export class PolygonClient {
   private baseUrl = "https://api.polygon.io"
   private apiKey: string
+  private limiter: ProviderRateLimiter
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, limiter = ProviderRateLimiter.getInstance()) {
     this.apiKey = apiKey
+    this.limiter = limiter
   }
 
   async getQuote(symbol: string) {
-    const response = await fetch(`${this.baseUrl}/v2/last/trade/${symbol}?apikey=${this.apiKey}`)
+    const response = await this.limiter.run("polygon", "quote", () =>
+      fetch(`${this.baseUrl}/v2/last/trade/${symbol}?apikey=${this.apiKey}`),
+    )
     if (!response.ok) {
       throw new Error(`Polygon API error: ${response.statusText}`)
     }
@@ -15,8 +21,8 @@ export class PolygonClient {
   }
 
   async getAggregates(symbol: string, multiplier: number, timespan: string, from: string, to: string) {
-    const response = await fetch(
-      `${this.baseUrl}/v2/aggs/ticker/${symbol}/range/${multiplier}/${timespan}/${from}/${to}?adjusted=true&sort=asc&limit=5000&apikey=${this.apiKey}`,
+    const response = await this.limiter.run("polygon", "aggregates", () =>
+      fetch(`${this.baseUrl}/v2/aggs/ticker/${symbol}/range/${multiplier}/${timespan}/${from}/${to}?adjusted=true&sort=asc&limit=5000&apikey=${this.apiKey}`),
     )
     if (!response.ok) {
       throw new Error(`Polygon API error: ${response.statusText}`)
@@ -25,7 +31,9 @@ export class PolygonClient {
   }
 
   async getTickerDetails(symbol: string) {
-    const response = await fetch(`${this.baseUrl}/v3/reference/tickers/${symbol}?apikey=${this.apiKey}`)
+    const response = await this.limiter.run("polygon", "tickerDetails", () =>
+      fetch(`${this.baseUrl}/v3/reference/tickers/${symbol}?apikey=${this.apiKey}`),
+    )
     if (!response.ok) {
       throw new Error(`Polygon API error: ${response.statusText}`)
     }
@@ -33,7 +41,9 @@ export class PolygonClient {
   }
 
   async getMarketStatus() {
-    const response = await fetch(`${this.baseUrl}/v1/marketstatus/now?apikey=${this.apiKey}`)
+    const response = await this.limiter.run("polygon", "marketStatus", () =>
+      fetch(`${this.baseUrl}/v1/marketstatus/now?apikey=${this.apiKey}`),
+    )
     if (!response.ok) {
       throw new Error(`Polygon API error: ${response.statusText}`)
     }
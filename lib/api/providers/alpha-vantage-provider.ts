@@ -0,0 +1,93 @@
+import { AlphaVantageClient } from "../alpha-vantage-client"
+import type { CompanyInfo, HistoricalCandle, MarketDataProvider, NormalizedQuote } from "./types"
+
+export class AlphaVantageProvider implements MarketDataProvider {
+  readonly name = "alphaVantage"
+  readonly capabilities = ["quote", "candles", "profile"] as const
+  private client: AlphaVantageClient
+
+  constructor(apiKey: string) {
+    this.client = new AlphaVantageClient(apiKey)
+  }
+
+  async getQuote(symbol: string): Promise<NormalizedQuote> {
+    return this.normalizeAlphaVantageQuote(await this.client.getQuote(symbol))
+  }
+
+  async getHistoricalData(symbol: string, days: number): Promise<HistoricalCandle[]> {
+    // "compact" returns the latest 100 trading days
+    const data = await this.client.getDailySeries(symbol, days > 100 ? "full" : "compact")
+    return this.normalizeAlphaVantageDaily(data, days)
+  }
+
+  async getCompanyInfo(symbol: string): Promise<CompanyInfo> {
+    return this.normalizeAlphaVantageOverview(await this.client.getCompanyOverview(symbol))
+  }
+
+  private normalizeAlphaVantageQuote(data: any): NormalizedQuote {
+    const quote = data["Global Quote"]
+    if (!quote || !quote["05. price"]) throw new Error("Invalid Alpha Vantage response")
+
+    return {
+      ticker: quote["01. symbol"],
+      currentPrice: Number.parseFloat(quote["05. price"]),
+      change: Number.parseFloat(quote["09. change"]),
+      changePercent: Number.parseFloat(String(quote["10. change percent"]).replace("%", "")),
+      volume: Number.parseInt(quote["06. volume"]) || 0,
+      marketCap: 0, // Need separate call
+      pe: 0, // Need separate call
+      eps: 0, // Need separate call
+      dividend: 0, // Need separate call
+      beta: 0, // Need separate call
+    }
+  }
+
+  private normalizeAlphaVantageDaily(data: any, days: number): HistoricalCandle[] {
+    const series = data["Time Series (Daily)"]
+    if (!series) throw new Error("No data available")
+
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split("T")[0]
+
+    // Keys are ISO dates, newest first
+    return Object.keys(series)
+      .filter((date) => date >= cutoff)
+      .sort()
+      .map((date) => ({
+        date,
+        open: Number.parseFloat(series[date]["1. open"]),
+        high: Number.parseFloat(series[date]["2. high"]),
+        low: Number.parseFloat(series[date]["3. low"]),
+        close: Number.parseFloat(series[date]["4. close"]),
+        price: Number.parseFloat(series[date]["4. close"]),
+        volume: Number.parseInt(series[date]["5. volume"]),
+      }))
+  }
+
+  private normalizeAlphaVantageOverview(data: any): CompanyInfo {
+    const num = (value: any) => {
+      const parsed = Number.parseFloat(value)
+      return Number.isFinite(parsed) ? parsed : 0
+    }
+
+    return {
+      companyName: data.Name,
+      pe: num(data.PERatio),
+      eps: num(data.EPS),
+      marketCap: num(data.MarketCapitalization),
+      // Alpha Vantage returns dividend yield as a decimal (0.0051 for 0.51%)
+      dividend: num(data.DividendYield) * 100,
+      beta: num(data.Beta) || 1,
+      avgVolume: 0,
+      volume: 0,
+      price: 0,
+      change: 0,
+      changePercent: 0,
+      fiftyTwoWeekHigh: num(data["52WeekHigh"]),
+      fiftyTwoWeekLow: num(data["52WeekLow"]),
+      sector: data.Sector || undefined,
+      industry: data.Industry || undefined,
+      priceToBook: num(data.PriceToBookRatio) || undefined,
+      revenueGrowth: data.QuarterlyRevenueGrowthYOY ? num(data.QuarterlyRevenueGrowthYOY) : undefined,
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { FinnhubClient } from "../finnhub-client"
+import { LexiconScorer, toUnitScale } from "@/lib/sentiment/lexicon-scorer"
+import type { CompanyInfo, MarketDataProvider, NewsFeed, NormalizedQuote } from "./types"
+
+const headlineScorer = new LexiconScorer()
+
+export class FinnhubProvider implements MarketDataProvider {
+  readonly name = "finnhub"
+  readonly capabilities = ["quote", "profile", "news"] as const
+  private client: FinnhubClient
+
+  constructor(apiKey: string) {
+    this.client = new FinnhubClient(apiKey)
+  }
+
+  async getQuote(symbol: string): Promise<NormalizedQuote> {
+    return this.normalizeFinnhubQuote(await this.client.getQuote(symbol), symbol)
+  }
+
+  async getCompanyInfo(symbol: string): Promise<CompanyInfo> {
+    const [profile, financials] = await Promise.all([
+      this.client.getCompanyProfile(symbol),
+      this.client.getBasicFinancials(symbol),
+    ])
+    return this.normalizeFinnhubCompanyInfo(profile, financials)
+  }
+
+  async getNews(symbol: string): Promise<NewsFeed> {
+    const endDate = new Date().toISOString().split("T")[0]
+    const startDate = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split("T")[0]
+    return this.normalizeFinnhubNews(await this.client.getNews(symbol, startDate, endDate))
+  }
+
+  private normalizeFinnhubQuote(data: any, symbol: string): NormalizedQuote {
+    return {
+      ticker: symbol,
+      currentPrice: data.c,
+      change: data.d,
+      changePercent: data.dp,
+      volume: 0, // Not provided in quote
+      marketCap: 0, // Need separate call
+      pe: 0, // Need separate call
+      eps: 0, // Need separate call
+      dividend: 0, // Need separate call
+      beta: 0, // Need separate call
+    }
+  }
+
+  private normalizeFinnhubCompanyInfo(profile: any, financials: any): CompanyInfo {
+    // Finnhub returns marketCapitalization in millions
+    // e.g., Apple with ~3.5T market cap returns ~3500000 (3.5 million millions)
+    // So we need to multiply by 1,000,000 to get actual value
+    let marketCap = profile.marketCapitalization || 0
+    if (marketCap > 0 && marketCap < 1e9) {
+      // Value seems to be in millions, convert to actual value
+      marketCap = marketCap * 1e6
+    }
+
+    return {
+      companyName: profile.name,
+      pe: financials.metric?.peBasicExclExtraTTM || 0,
+      eps: financials.metric?.epsBasicExclExtraTTM || 0,
+      marketCap: marketCap,
+      dividend: financials.metric?.dividendYieldIndicatedAnnual || 0,
+      beta: financials.metric?.beta || 1,
+      avgVolume: financials.metric?.vol1DayAvg || 0,
+      volume: 0,
+      price: 0,
+      change: 0,
+      changePercent: 0,
+      fiftyTwoWeekHigh: financials.metric?.["52WeekHigh"] || 0,
+      fiftyTwoWeekLow: financials.metric?.["52WeekLow"] || 0,
+      // Finnhub only exposes an industry classification
+      sector: profile.finnhubIndustry || undefined,
+      industry: profile.finnhubIndustry || undefined,
+      priceToBook: financials.metric?.pbQuarterly || undefined,
+      // Finnhub reports growth in percent
+      revenueGrowth:
+        typeof financials.metric?.revenueGrowthTTMYoy === "number"
+          ? financials.metric.revenueGrowthTTMYoy / 100
+          : undefined,
+    }
+  }
+
+  private normalizeFinnhubNews(data: any): NewsFeed {
+    const articles = data.map((article: any) => ({
+      title: article.headline,
+      source: article.source,
+      date: new Date(article.datetime * 1000).toISOString(),
+      url: article.url,
+      // Finnhub doesn't provide sentiment in free tier; score the headline
+      sentiment: toUnitScale(headlineScorer.score(`${article.headline || ""} ${article.summary || ""}`)),
+      summary: article.summary,
+    }))
+
+    return {
+      recent: articles.slice(0, 10),
+      trending: articles.slice(10, 20),
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { PolygonClient } from "../polygon-client"
+import { intradayCandle } from "../market-hours"
+import type { HistoricalCandle, IntradayInterval, MarketDataProvider, NormalizedQuote } from "./types"
+
+const POLYGON_INTERVALS: Record<IntradayInterval, { multiplier: number; timespan: string }> = {
+  "1m": { multiplier: 1, timespan: "minute" },
+  "5m": { multiplier: 5, timespan: "minute" },
+  "15m": { multiplier: 15, timespan: "minute" },
+  "1h": { multiplier: 1, timespan: "hour" },
+}
+
+export class PolygonProvider implements MarketDataProvider {
+  readonly name = "polygon"
+  readonly capabilities = ["quote", "candles", "intraday"] as const
+  private client: PolygonClient
+
+  constructor(apiKey: string) {
+    this.client = new PolygonClient(apiKey)
+  }
+
+  async getQuote(symbol: string): Promise<NormalizedQuote> {
+    return this.normalizePolygonQuote(await this.client.getQuote(symbol))
+  }
+
+  async getHistoricalData(symbol: string, days: number): Promise<HistoricalCandle[]> {
+    const to = new Date().toISOString().split("T")[0]
+    const from = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split("T")[0]
+    return this.normalizePolygonAggregates(await this.client.getAggregates(symbol, 1, "day", from, to))
+  }
+
+  /** Polygon aggregates include pre- and post-market bars */
+  async getIntradayData(symbol: string, interval: IntradayInterval, days: number): Promise<HistoricalCandle[]> {
+    const { multiplier, timespan } = POLYGON_INTERVALS[interval]
+    const to = new Date().toISOString().split("T")[0]
+    const from = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split("T")[0]
+    const data = await this.client.getAggregates(symbol, multiplier, timespan, from, to)
+    if (!data.results || data.results.length === 0) throw new Error("No intraday data available")
+
+    return data.results.map((bar: any) =>
+      intradayCandle(bar.t, { open: bar.o, high: bar.h, low: bar.l, close: bar.c, volume: bar.v }),
+    )
+  }
+
+  private normalizePolygonQuote(data: any): NormalizedQuote {
+    const result = data.results
+    return {
+      ticker: result.T,
+      currentPrice: result.p,
+      change: 0, // Calculate from previous close
+      changePercent: 0, // Calculate from previous close
+      volume: result.s,
+      marketCap: 0, // Need separate call
+      pe: 0, // Need separate call
+      eps: 0, // Need separate call
+      dividend: 0, // Need separate call
+      beta: 0, // Need separate call
+    }
+  }
+
+  private normalizePolygonAggregates(data: any): HistoricalCandle[] {
+    if (!data.results || data.results.length === 0) throw new Error("No data available")
+
+    return data.results.map((bar: any) => ({
+      date: new Date(bar.t).toISOString().split("T")[0],
+      open: bar.o,
+      high: bar.h,
+      low: bar.l,
+      close: bar.c,
+      price: bar.c,
+      volume: bar.v,
+    }))
+  }
+}
@@ -0,0 +1,88 @@
+import { AlphaVantageProvider } from "./alpha-vantage-provider"
+import { FinnhubProvider } from "./finnhub-provider"
+import { PolygonProvider } from "./polygon-provider"
+import { TwelveDataProvider } from "./twelve-data-provider"
+import { YahooProvider } from "./yahoo-provider"
+import type { MarketDataProvider, ProviderCapability, ProviderPriority } from "./types"
+
+/**
+ * Default fallback order per capability.
+ * Yahoo leads quotes because its chart endpoint carries price and volume in a single call;
+ * Twelve Data leads candles and technicals; Finnhub leads news. Yahoo leads intraday bars because it
+ * serves pre- and post-market bars without a key.
+ */
+export const DEFAULT_PROVIDER_PRIORITY: Record<ProviderCapability, string[]> = {
+  quote: ["yahoo", "twelveData", "polygon", "finnhub", "alphaVantage"],
+  candles: ["twelveData", "yahoo", "polygon", "alphaVantage"],
+  intraday: ["yahoo", "polygon", "twelveData"],
+  profile: ["yahoo", "finnhub", "alphaVantage"],
+  news: ["finnhub", "yahoo"],
+  technicals: ["twelveData"],
+}
+
+export class ProviderRegistry {
+  private providers = new Map<string, MarketDataProvider>()
+
+  register(provider: MarketDataProvider): this {
+    this.providers.set(provider.name, provider)
+    return this
+  }
+
+  unregister(name: string): boolean {
+    return this.providers.delete(name)
+  }
+
+  get(name: string): MarketDataProvider | undefined {
+    return this.providers.get(name)
+  }
+
+  list(): MarketDataProvider[] {
+    return Array.from(this.providers.values())
+  }
+
+  /**
+   * Providers able to serve a capability, ordered by the priority list.
+   * Registered providers missing from the list are appended in registration order,
+   * so a newly plugged-in source is still used as a last resort.
+   */
+  resolve(capability: ProviderCapability, priority: string[] = DEFAULT_PROVIDER_PRIORITY[capability]) {
+    const capable = this.list().filter((provider) => provider.capabilities.includes(capability))
+    const ranked = priority
+      .map((name) => capable.find((provider) => provider.name === name))
+      .filter((provider): provider is MarketDataProvider => !!provider)
+
+    return [...ranked, ...capable.filter((provider) => !ranked.includes(provider))]
+  }
+}
+
+/**
+ * Parse MARKET_DATA_PROVIDER_PRIORITY, e.g. "polygon,yahoo" to put Polygon first for every capability.
+ */
+export function parseProviderPriority(value: string | undefined): ProviderPriority | undefined {
+  if (!value) return undefined
+
+  const names = value
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean)
+  if (names.length === 0) return undefined
+
+  const capabilities = Object.keys(DEFAULT_PROVIDER_PRIORITY) as ProviderCapability[]
+  return Object.fromEntries(capabilities.map((capability) => [capability, names]))
+}
+
+/**
+ * Build a registry from the API keys present in the environment.
+ * Yahoo Finance doesn't require an API key and is always registered.
+ */
+export function createDefaultProviderRegistry(env: Record<string, string | undefined> = process.env) {
+  const registry = new ProviderRegistry()
+
+  registry.register(new YahooProvider())
+  if (env.TWELVE_DATA_API_KEY) registry.register(new TwelveDataProvider(env.TWELVE_DATA_API_KEY))
+  if (env.POLYGON_API_KEY) registry.register(new PolygonProvider(env.POLYGON_API_KEY))
+  if (env.FINNHUB_API_KEY) registry.register(new FinnhubProvider(env.FINNHUB_API_KEY))
+  if (env.ALPHA_VANTAGE_API_KEY) registry.register(new AlphaVantageProvider(env.ALPHA_VANTAGE_API_KEY))
+
+  return registry
+}
@@ -0,0 +1,141 @@
+import { TwelveDataClient } from "../twelve-data-client"
+import { easternWallTimeToDate, intradayCandle } from "../market-hours"
+import type {
+  HistoricalCandle,
+  IntradayInterval,
+  MarketDataProvider,
+  NormalizedQuote,
+  TechnicalIndicatorSnapshot,
+} from "./types"
+
+const TWELVE_DATA_INTERVALS: Record<IntradayInterval, { code: string; minutes: number }> = {
+  "1m": { code: "1min", minutes: 1 },
+  "5m": { code: "5min", minutes: 5 },
+  "15m": { code: "15min", minutes: 15 },
+  "1h": { code: "1h", minutes: 60 },
+}
+/** Regular-session minutes per trading day, used to size the request */
+const SESSION_MINUTES = 390
+/** Largest `outputsize` the time series endpoint accepts */
+const MAX_OUTPUT_SIZE = 5000
+
+export class TwelveDataProvider implements MarketDataProvider {
+  readonly name = "twelveData"
+  readonly capabilities = ["quote", "candles", "intraday", "technicals"] as const
+  private client: TwelveDataClient
+
+  constructor(apiKey: string) {
+    this.client = new TwelveDataClient(apiKey)
+  }
+
+  async getQuote(symbol: string): Promise<NormalizedQuote> {
+    return this.normalizeTwelveDataQuote(await this.client.getQuote(symbol))
+  }
+
+  async getHistoricalData(symbol: string, days: number): Promise<HistoricalCandle[]> {
+    // One bar per trading day, so a calendar-day count over-asks; anything past the cap is rejected upstream
+    const outputSize = Math.min(MAX_OUTPUT_SIZE, days)
+    return this.normalizeTwelveDataTimeSeries(await this.client.getTimeSeries(symbol, "1day", outputSize))
+  }
+
+  /** Twelve Data returns regular-session bars, timestamped in exchange (Eastern) wall time */
+  async getIntradayData(symbol: string, interval: IntradayInterval, days: number): Promise<HistoricalCandle[]> {
+    const { code, minutes } = TWELVE_DATA_INTERVALS[interval]
+    const outputSize = Math.min(MAX_OUTPUT_SIZE, Math.ceil((days * SESSION_MINUTES) / minutes))
+    const data = await this.client.getTimeSeries(symbol, code, outputSize)
+    if (!data.values) throw new Error("No intraday data available")
+
+    return [...data.values].reverse().map((item: any) =>
+      intradayCandle(easternWallTimeToDate(item.datetime), {
+        open: Number.parseFloat(item.open),
+        high: Number.parseFloat(item.high),
+        low: Number.parseFloat(item.low),
+        close: Number.parseFloat(item.close),
+        volume: Number.parseInt(item.volume) || 0,
+      }),
+    )
+  }
+
+  async getTechnicalIndicators(symbol: string): Promise<TechnicalIndicatorSnapshot> {
+    const [rsi, macd, sma20, sma50] = await Promise.all([
+      this.client.getRSI(symbol, "1day"),
+      this.client.getMACD(symbol, "1day"),
+      this.client.getSMA(symbol, "1day", 20),
+      this.client.getSMA(symbol, "1day", 50),
+    ])
+
+    return this.normalizeTwelveDataTechnicals(rsi, macd, sma20, sma50)
+  }
+
+  private normalizeTwelveDataQuote(data: any): NormalizedQuote {
+    return {
+      ticker: data.symbol,
+      currentPrice: Number.parseFloat(data.close),
+      change: Number.parseFloat(data.change),
+      changePercent: Number.parseFloat(data.percent_change),
+      volume: Number.parseInt(data.volume),
+      marketCap: 0, // Need separate call
+      pe: 0, // Need separate call
+      eps: 0, // Need separate call
+      dividend: 0, // Need separate call
+      beta: 0, // Need separate call
+    }
+  }
+
+  private normalizeTwelveDataTimeSeries(data: any): HistoricalCandle[] {
+    if (!data.values) throw new Error("No data available")
+
+    return data.values.reverse().map((item: any) => ({
+      date: item.datetime,
+      open: Number.parseFloat(item.open),
+      high: Number.parseFloat(item.high),
+      low: Number.parseFloat(item.low),
+      close: Number.parseFloat(item.close),
+      price: Number.parseFloat(item.close),
+      volume: Number.parseInt(item.volume),
+    }))
+  }
+
+  private normalizeTwelveDataTechnicals(rsi: any, macd: any, sma20: any, sma50: any): TechnicalIndicatorSnapshot {
+    const rsiValue = rsi.values?.[0]?.rsi || 50
+    const macdValue = macd.values?.[0] || { macd: 0, macd_signal: 0, macd_hist: 0 }
+    const sma20Value = sma20.values?.[0]?.sma || 100
+    const sma50Value = sma50.values?.[0]?.sma || 95
+    // Twelve Data returns newest first; snapshot series are oldest first
+    const rsiHistory = [...(rsi.values || [])].reverse().map((item: any) => Number.parseFloat(item.rsi))
+    const macdHistory = [...(macd.values || [])].reverse()
+    const macdHistogram = macdHistory.map((item: any) => Number.parseFloat(item.macd_hist))
+
+    return {
+      rsi: Number.parseFloat(rsiValue),
+      macd: {
+        value: Number.parseFloat(macdValue.macd),
+        signal: Number.parseFloat(macdValue.macd_signal),
+        histogram: macdHistogram.slice(-20),
+      },
+      sma: {
+        sma20: Number.parseFloat(sma20Value),
+        sma50: Number.parseFloat(sma50Value),
+        sma200: 90, // Would need separate call
+      },
+      ema: {
+        ema12: 102, // Would need separate call
+        ema26: 98, // Would need separate call
+      },
+      bollinger: {
+        upper: 105,
+        middle: 100,
+        lower: 95,
+        width: 10,
+      },
+      adx: 25, // Would need separate call
+      obv: [], // Would need separate call
+      historicalRsi: rsiHistory,
+      historicalMacd: {
+        macd: macdHistory.map((item: any) => Number.parseFloat(item.macd)),
+        signal: macdHistory.map((item: any) => Number.parseFloat(item.macd_signal)),
+        histogram: macdHistogram,
+      },
+    }
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Market data provider contracts
+ *
+ * Every upstream source (Yahoo, Twelve Data, Polygon, Finnhub, Alpha Vantage, or an
+ * in-house / replay feed) implements MarketDataProvider, declares what it can serve
+ * and returns data already normalized into the shapes below.
+ */
+
+export type ProviderCapability = "quote" | "candles" | "intraday" | "profile" | "news" | "technicals"
+
+export type CandleInterval = "1m" | "5m" | "15m" | "1h" | "1d"
+export type IntradayInterval = Exclude<CandleInterval, "1d">
+
+export interface NormalizedQuote {
+  ticker: string
+  currentPrice: number
+  change: number
+  changePercent: number
+  volume: number
+  marketCap: number
+  pe: number
+  eps: number
+  dividend: number
+  beta: number
+}
+
+export interface HistoricalCandle {
+  date: string
+  open: number
+  high: number
+  low: number
+  close: number
+  price: number
+  volume: number
+  /** Intraday candles only: ISO start of the bar. `date` is then the US/Eastern trading day. */
+  timestamp?: string
+  /** Intraday candles only: the bar starts in the regular 9:30-16:00 ET session */
+  marketHours?: boolean
+  /** Intraday candles only: the bar starts in pre-market (4:00-9:30 ET) or after-hours (16:00-20:00 ET) */
+  extendedHours?: boolean
+}
+
+export interface CompanyInfo {
+  companyName?: string
+  pe: number
+  eps: number
+  marketCap: number
+  dividend: number
+  beta: number
+  avgVolume: number
+  volume: number
+  price: number
+  change: number
+  changePercent: number
+  fiftyTwoWeekHigh: number
+  fiftyTwoWeekLow: number
+  /** Classification and growth/value inputs; not every source provides them */
+  sector?: string
+  industry?: string
+  priceToBook?: number
+  /** Year-over-year revenue growth as a decimal (0.12 for 12%) */
+  revenueGrowth?: number
+}
+
+export interface NewsArticle {
+  title: string
+  source: string
+  date: string
+  url: string
+  sentiment: number
+  summary: string
+}
+
+export interface NewsFeed {
+  recent: NewsArticle[]
+  trending: NewsArticle[]
+}
+
+export interface TechnicalIndicatorSnapshot {
+  rsi: number
+  macd: { value: number; signal: number; histogram: number[] }
+  sma: { sma20: number; sma50: number; sma200: number }
+  ema: { ema12: number; ema26: number }
+  bollinger: { upper: number; middle: number; lower: number; width: number }
+  adx: number
+  obv: number[]
+  historicalRsi: number[]
+  historicalMacd: { macd: number[]; signal: number[]; histogram: number[] }
+  /** OHLCV-derived indicators; present when the snapshot is computed from candles */
+  atr?: number
+  stochastic?: { k: number; d: number }
+  dmi?: { plusDI: number; minusDI: number }
+  vwap?: number
+  ichimoku?: { conversion: number; base: number; spanA: number | null; spanB: number | null }
+}
+
+export interface MarketDataProvider {
+  /** Stable identifier used in priority lists, e.g. "yahoo" or "twelveData" */
+  readonly name: string
+  readonly capabilities: readonly ProviderCapability[]
+
+  getQuote?(symbol: string): Promise<NormalizedQuote>
+  getHistoricalData?(symbol: string, days: number): Promise<HistoricalCandle[]>
+  /** Intraday bars for the last `days` calendar days, including extended-hours bars when the source has them */
+  getIntradayData?(symbol: string, interval: IntradayInterval, days: number): Promise<HistoricalCandle[]>
+  getCompanyInfo?(symbol: string): Promise<CompanyInfo>
+  getNews?(symbol: string): Promise<NewsFeed>
+  getTechnicalIndicators?(symbol: string): Promise<TechnicalIndicatorSnapshot>
+}
+
+export type ProviderPriority = Partial<Record<ProviderCapability, string[]>>
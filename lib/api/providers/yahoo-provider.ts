@@ -0,0 +1,338 @@
+import { YahooFinanceClient } from "../yahoo-finance-client"
+import { LexiconScorer, toUnitScale } from "@/lib/sentiment/lexicon-scorer"
+import { intradayCandle } from "../market-hours"
+import type {
+  CompanyInfo,
+  HistoricalCandle,
+  IntradayInterval,
+  MarketDataProvider,
+  NewsFeed,
+  NormalizedQuote,
+} from "./types"
+
+const headlineScorer = new LexiconScorer()
+
+/** Yahoo's interval codes and how far back each may reach */
+const YAHOO_INTERVALS: Record<IntradayInterval, { code: string; maxDays: number }> = {
+  "1m": { code: "1m", maxDays: 7 },
+  "5m": { code: "5m", maxDays: 60 },
+  "15m": { code: "15m", maxDays: 60 },
+  "1h": { code: "60m", maxDays: 60 },
+}
+
+export class YahooProvider implements MarketDataProvider {
+  readonly name = "yahoo"
+  readonly capabilities = ["quote", "candles", "intraday", "profile", "news"] as const
+  private client: YahooFinanceClient
+
+  constructor(client = new YahooFinanceClient()) {
+    this.client = client
+  }
+
+  async getQuote(symbol: string): Promise<NormalizedQuote> {
+    return this.normalizeYahooQuote(await this.client.getQuote(symbol))
+  }
+
+  async getHistoricalData(symbol: string, days: number): Promise<HistoricalCandle[]> {
+    const endDate = new Date()
+    const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000)
+    const data = await this.client.getHistoricalData(
+      symbol,
+      Math.floor(startDate.getTime() / 1000),
+      Math.floor(endDate.getTime() / 1000),
+    )
+    return this.normalizeYahooHistorical(data)
+  }
+
+  async getIntradayData(symbol: string, interval: IntradayInterval, days: number): Promise<HistoricalCandle[]> {
+    const { code, maxDays } = YAHOO_INTERVALS[interval]
+    const endDate = new Date()
+    const startDate = new Date(endDate.getTime() - Math.min(days, maxDays) * 24 * 60 * 60 * 1000)
+    const data = await this.client.getHistoricalData(
+      symbol,
+      Math.floor(startDate.getTime() / 1000),
+      Math.floor(endDate.getTime() / 1000),
+      code,
+      true,
+    )
+    return this.normalizeYahooIntraday(data)
+  }
+
+  async getCompanyInfo(symbol: string): Promise<CompanyInfo> {
+    return this.normalizeYahooCompanyInfo(await this.client.getCompanyInfo(symbol))
+  }
+
+  async getNews(symbol: string): Promise<NewsFeed> {
+    return this.normalizeYahooNews(await this.client.getNews(symbol))
+  }
+
+  private normalizeYahooQuote(data: any): NormalizedQuote {
+    const result = data.chart.result[0]
+    const meta = result.meta
+    const quote = result.indicators.quote[0]
+
+    // Get volume - Yahoo Finance chart API provides volume in multiple ways:
+    // 1. meta.regularMarketVolume - the current trading day's total volume (most reliable)
+    // 2. quote.volume[] array - historical volume data for the chart period
+    // 3. Sum of quote.volume[] - if we need to calculate total volume from intraday data
+    let volume = 0
+    
+    // Primary source: regularMarketVolume from meta (this is the official daily volume)
+    if (typeof meta.regularMarketVolume === 'number' && meta.regularMarketVolume > 0) {
+      volume = meta.regularMarketVolume
+      console.log(`[normalizeYahooQuote] ${meta.symbol} - Using regularMarketVolume: ${volume.toLocaleString()}`)
+    } 
+    // Secondary: Sum all volumes from the quote array (for intraday data, this gives total volume)
+    else if (quote.volume && Array.isArray(quote.volume) && quote.volume.length > 0) {
+      // For intraday charts, we may need to sum all volume entries
+      // For daily charts, we can use the last valid entry
+      const validVolumes = quote.volume.filter((v: number | null) => typeof v === 'number' && v > 0)
+      
+      if (validVolumes.length > 0) {
+        // If it's a single day's data (chart period is 1 day), sum all volumes
+        // Otherwise, use the most recent valid volume
+        if (quote.volume.length > 1 && meta.dataGranularity && meta.dataGranularity !== '1d') {
+          // Intraday data - sum all volumes to get daily total
+          volume = validVolumes.reduce((sum: number, v: number) => sum + v, 0)
+          console.log(`[normalizeYahooQuote] ${meta.symbol} - Summed intraday volumes: ${volume.toLocaleString()} (${validVolumes.length} entries)`)
+        } else {
+          // Daily or longer granularity - use the last valid value
+          volume = validVolumes[validVolumes.length - 1]
+          console.log(`[normalizeYahooQuote] ${meta.symbol} - Using last valid volume: ${volume.toLocaleString()}`)
+        }
+      }
+    }
+    // Tertiary: Try meta.volume as last resort
+    else if (typeof meta.volume === 'number' && meta.volume > 0) {
+      volume = meta.volume
+      console.log(`[normalizeYahooQuote] ${meta.symbol} - Using meta.volume fallback: ${volume.toLocaleString()}`)
+    }
+
+    // Log warning if no volume found
+    if (volume === 0) {
+      console.warn(`[normalizeYahooQuote] No volume found for ${meta.symbol}`, {
+        regularMarketVolume: meta.regularMarketVolume,
+        metaVolume: meta.volume,
+        hasVolumeArray: !!quote.volume,
+        volumeArrayLength: quote.volume?.length || 0,
+        dataGranularity: meta.dataGranularity
+      })
+    }
+
+    return {
+      ticker: meta.symbol,
+      currentPrice: meta.regularMarketPrice,
+      change: meta.regularMarketPrice - meta.previousClose,
+      changePercent: ((meta.regularMarketPrice - meta.previousClose) / meta.previousClose) * 100,
+      volume: volume,
+      marketCap: 0, // Need separate call
+      pe: 0, // Need separate call
+      eps: 0, // Need separate call
+      dividend: 0, // Need separate call
+      beta: 0, // Need separate call
+    }
+  }
+
+  private normalizeYahooHistorical(data: any): HistoricalCandle[] {
+    const result = data.chart.result[0]
+    const timestamps = result.timestamp
+    const quote = result.indicators.quote[0]
+
+    return timestamps.map((timestamp: number, index: number) => ({
+      date: new Date(timestamp * 1000).toISOString().split("T")[0],
+      open: quote.open[index],
+      high: quote.high[index],
+      low: quote.low[index],
+      close: quote.close[index],
+      price: quote.close[index],
+      volume: quote.volume[index],
+    }))
+  }
+
+  private normalizeYahooIntraday(data: any): HistoricalCandle[] {
+    const result = data.chart?.result?.[0]
+    if (!result?.timestamp) throw new Error("No intraday data available")
+    const quote = result.indicators.quote[0]
+
+    // Yahoo pads minutes without trades with nulls
+    return result.timestamp.flatMap((timestamp: number, index: number) =>
+      quote.close[index] == null
+        ? []
+        : [
+            intradayCandle(timestamp * 1000, {
+              open: quote.open[index],
+              high: quote.high[index],
+              low: quote.low[index],
+              close: quote.close[index],
+              volume: quote.volume[index] ?? 0,
+            }),
+          ],
+    )
+  }
+
+  private normalizeYahooCompanyInfo(data: any): CompanyInfo {
+    const quoteSummary = data.quoteSummary?.result?.[0]
+    if (!quoteSummary) {
+      console.warn("Yahoo Finance company info: Invalid response structure", { 
+        hasQuoteSummary: !!data.quoteSummary,
+        hasResult: !!data.quoteSummary?.result,
+        resultLength: data.quoteSummary?.result?.length 
+      })
+      return {
+        pe: 0,
+        eps: 0,
+        marketCap: 0,
+        dividend: 0,
+        beta: 1,
+        avgVolume: 0,
+        volume: 0,
+        price: 0,
+        change: 0,
+        changePercent: 0,
+        fiftyTwoWeekHigh: 0,
+        fiftyTwoWeekLow: 0,
+      }
+    }
+
+    const financialData = quoteSummary.financialData
+    const defaultKeyStatistics = quoteSummary.defaultKeyStatistics
+    const summaryProfile = quoteSummary.summaryProfile
+    const summaryDetail = quoteSummary.summaryDetail
+    const price = quoteSummary.price
+
+    // Helper to safely extract numeric value from Yahoo Finance response
+    // Yahoo returns values as { raw: number, fmt: string } or just as numbers
+    const extractNumeric = (value: any): number => {
+      if (value === null || value === undefined) return 0
+      if (typeof value === 'number') return value
+      if (typeof value === 'object' && value.raw !== undefined) return value.raw
+      return 0
+    }
+
+    // Extract market cap - try multiple sources in order of reliability
+    // Yahoo Finance quoteSummary API returns market cap in these modules:
+    // 1. price.marketCap - most up-to-date
+    // 2. summaryDetail.marketCap - reliable backup
+    // 3. defaultKeyStatistics.enterpriseValue - approximation if market cap unavailable
+    let marketCap = 0
+    let marketCapSource = ''
+    
+    if (price?.marketCap) {
+      marketCap = extractNumeric(price.marketCap)
+      marketCapSource = 'price.marketCap'
+    }
+    if (marketCap === 0 && summaryDetail?.marketCap) {
+      marketCap = extractNumeric(summaryDetail.marketCap)
+      marketCapSource = 'summaryDetail.marketCap'
+    }
+    if (marketCap === 0 && defaultKeyStatistics?.marketCap) {
+      marketCap = extractNumeric(defaultKeyStatistics.marketCap)
+      marketCapSource = 'defaultKeyStatistics.marketCap'
+    }
+    // Enterprise value as last resort (not exactly market cap but close)
+    if (marketCap === 0 && defaultKeyStatistics?.enterpriseValue) {
+      marketCap = extractNumeric(defaultKeyStatistics.enterpriseValue)
+      marketCapSource = 'defaultKeyStatistics.enterpriseValue (approximation)'
+    }
+
+    // Extract volume from multiple sources
+    let volume = 0
+    let volumeSource = ''
+    
+    if (price?.regularMarketVolume) {
+      volume = extractNumeric(price.regularMarketVolume)
+      volumeSource = 'price.regularMarketVolume'
+    }
+    if (volume === 0 && summaryDetail?.volume) {
+      volume = extractNumeric(summaryDetail.volume)
+      volumeSource = 'summaryDetail.volume'
+    }
+    if (volume === 0 && summaryDetail?.regularMarketVolume) {
+      volume = extractNumeric(summaryDetail.regularMarketVolume)
+      volumeSource = 'summaryDetail.regularMarketVolume'
+    }
+
+    // Extract average volume for fallback
+    let avgVolume = 0
+    if (price?.averageDailyVolume10Day) {
+      avgVolume = extractNumeric(price.averageDailyVolume10Day)
+    } else if (summaryDetail?.averageVolume) {
+      avgVolume = extractNumeric(summaryDetail.averageVolume)
+    } else if (summaryDetail?.averageVolume10days) {
+      avgVolume = extractNumeric(summaryDetail.averageVolume10days)
+    } else if (defaultKeyStatistics?.averageVolume) {
+      avgVolume = extractNumeric(defaultKeyStatistics.averageVolume)
+    }
+
+    // Extract price data
+    const currentPrice = extractNumeric(price?.regularMarketPrice)
+    const change = extractNumeric(price?.regularMarketChange)
+    // Yahoo returns changePercent as decimal (e.g., 0.0234 for 2.34%)
+    let changePercent = extractNumeric(price?.regularMarketChangePercent)
+    // Convert to percentage if it looks like a decimal
+    if (changePercent !== 0 && Math.abs(changePercent) < 1) {
+      changePercent = changePercent * 100
+    }
+
+    // Log extraction results
+    const symbol = price?.symbol || 'UNKNOWN'
+    if (marketCap > 0) {
+      const formatted = marketCap >= 1e12 
+        ? `${(marketCap/1e12).toFixed(2)}T` 
+        : marketCap >= 1e9 
+          ? `${(marketCap/1e9).toFixed(2)}B`
+          : `${(marketCap/1e6).toFixed(2)}M`
+      console.log(`[normalizeYahooCompanyInfo] ${symbol} - Market cap: ${formatted} (source: ${marketCapSource})`)
+    } else {
+      console.warn(`[normalizeYahooCompanyInfo] ${symbol} - Market cap not found`, {
+        priceMarketCap: price?.marketCap,
+        summaryDetailMarketCap: summaryDetail?.marketCap,
+        defaultKeyStatsMarketCap: defaultKeyStatistics?.marketCap
+      })
+    }
+
+    if (volume > 0) {
+      console.log(`[normalizeYahooCompanyInfo] ${symbol} - Volume: ${volume.toLocaleString()} (source: ${volumeSource})`)
+    } else if (avgVolume > 0) {
+      console.log(`[normalizeYahooCompanyInfo] ${symbol} - No current volume, avgVolume: ${avgVolume.toLocaleString()}`)
+    }
+
+    return {
+      companyName: price?.longName || price?.shortName,
+      pe: extractNumeric(summaryDetail?.trailingPE) || extractNumeric(defaultKeyStatistics?.trailingPE) || 0,
+      eps: extractNumeric(defaultKeyStatistics?.trailingEps) || 0,
+      marketCap: marketCap,
+      dividend: extractNumeric(summaryDetail?.dividendYield) * 100 || extractNumeric(defaultKeyStatistics?.dividendYield) * 100 || 0,
+      beta: extractNumeric(summaryDetail?.beta) || extractNumeric(defaultKeyStatistics?.beta) || 1,
+      avgVolume: avgVolume,
+      volume: volume,
+      price: currentPrice,
+      change: change,
+      changePercent: changePercent,
+      fiftyTwoWeekHigh: extractNumeric(summaryDetail?.fiftyTwoWeekHigh) || extractNumeric(defaultKeyStatistics?.fiftyTwoWeekHigh) || 0,
+      fiftyTwoWeekLow: extractNumeric(summaryDetail?.fiftyTwoWeekLow) || extractNumeric(defaultKeyStatistics?.fiftyTwoWeekLow) || 0,
+      sector: summaryProfile?.sector || undefined,
+      industry: summaryProfile?.industry || undefined,
+      priceToBook: extractNumeric(defaultKeyStatistics?.priceToBook) || undefined,
+      revenueGrowth: financialData?.revenueGrowth ? extractNumeric(financialData.revenueGrowth) : undefined,
+    }
+  }
+
+  private normalizeYahooNews(data: any): NewsFeed {
+    const articles =
+      data.news?.map((article: any) => ({
+        title: article.title,
+        source: article.publisher,
+        date: new Date(article.providerPublishTime * 1000).toISOString(),
+        url: article.link,
+        // Yahoo doesn't provide sentiment; score the headline
+        sentiment: toUnitScale(headlineScorer.score(article.title || "")),
+        summary: article.title, // Use title as summary
+      })) || []
+
+    return {
+      recent: articles.slice(0, 10),
+      trending: articles.slice(10, 20),
+    }
+  }
+}
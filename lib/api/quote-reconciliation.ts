@@ -0,0 +1,132 @@
+import type { NormalizedQuote } from "./providers/types"
+
+export interface ReconciliationOptions {
+  /** Maximum deviation from the consensus price, in percent, before a source is flagged */
+  tolerancePercent?: number
+  /** Number of agreeing sources required for the consensus to be trusted */
+  quorum?: number
+}
+
+export interface SourceQuoteResult {
+  source: string
+  quote?: NormalizedQuote
+  error?: string
+  latencyMs: number
+}
+
+export interface SourceReconciliationEntry {
+  source: string
+  price: number | null
+  volume: number | null
+  deviationPercent: number | null
+  outlier: boolean
+  latencyMs: number
+  error?: string
+}
+
+export interface QuoteReconciliation {
+  consensusPrice: number
+  /** Mean absolute deviation of responding sources from consensus, in percent (0 = full agreement) */
+  disagreementScore: number
+  tolerancePercent: number
+  quorum: number
+  agreeingSources: number
+  quorumMet: boolean
+  outliers: string[]
+  sources: SourceReconciliationEntry[]
+  timestamp: string
+}
+
+export type ReconciledQuote = NormalizedQuote & { reconciliation: QuoteReconciliation }
+
+export const DEFAULT_RECONCILIATION_OPTIONS: Required<ReconciliationOptions> = {
+  tolerancePercent: 1,
+  quorum: 2,
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
+
+/**
+ * Compute a consensus quote from per-source results.
+ * The median price is used as consensus so a single bad print cannot drag it;
+ * the returned quote is the highest-priority agreeing source re-priced at consensus.
+ * Results are expected in priority order.
+ */
+export function reconcileQuotes(
+  symbol: string,
+  results: SourceQuoteResult[],
+  options: ReconciliationOptions = {},
+): ReconciledQuote {
+  const tolerancePercent = options.tolerancePercent ?? DEFAULT_RECONCILIATION_OPTIONS.tolerancePercent
+  const quorum = options.quorum ?? DEFAULT_RECONCILIATION_OPTIONS.quorum
+
+  const priced = results.filter(
+    (result): result is SourceQuoteResult & { quote: NormalizedQuote } =>
+      !!result.quote && Number.isFinite(result.quote.currentPrice) && result.quote.currentPrice > 0,
+  )
+
+  if (priced.length === 0) {
+    throw new Error(`All stock data sources failed for ${symbol}`)
+  }
+
+  const consensusPrice = median(priced.map((result) => result.quote.currentPrice))
+
+  const sources: SourceReconciliationEntry[] = results.map((result) => {
+    const price = result.quote?.currentPrice
+    if (!price || !Number.isFinite(price) || price <= 0) {
+      return {
+        source: result.source,
+        price: null,
+        volume: null,
+        deviationPercent: null,
+        outlier: false,
+        latencyMs: result.latencyMs,
+        error: result.error || "No valid price returned",
+      }
+    }
+
+    const deviationPercent = ((price - consensusPrice) / consensusPrice) * 100
+    return {
+      source: result.source,
+      price,
+      volume: result.quote?.volume ?? null,
+      deviationPercent,
+      outlier: Math.abs(deviationPercent) > tolerancePercent,
+      latencyMs: result.latencyMs,
+    }
+  })
+
+  const responding = sources.filter((entry) => entry.deviationPercent !== null)
+  const agreeing = responding.filter((entry) => !entry.outlier)
+  const disagreementScore =
+    responding.reduce((sum, entry) => sum + Math.abs(entry.deviationPercent!), 0) / responding.length
+
+  // Prefer an agreeing source that carries volume, like getQuote does
+  const agreeingQuotes = priced.filter((result) => agreeing.some((entry) => entry.source === result.source))
+  const base = (agreeingQuotes.find((result) => result.quote.volume > 0) || agreeingQuotes[0] || priced[0]).quote
+  const previousClose = base.currentPrice - base.change
+  const change = previousClose > 0 ? consensusPrice - previousClose : base.change
+
+  return {
+    ...base,
+    ticker: base.ticker || symbol,
+    currentPrice: consensusPrice,
+    change,
+    changePercent: previousClose > 0 ? (change / previousClose) * 100 : base.changePercent,
+    reconciliation: {
+      consensusPrice,
+      disagreementScore,
+      tolerancePercent,
+      quorum,
+      agreeingSources: agreeing.length,
+      quorumMet: agreeing.length >= quorum,
+      outliers: responding.filter((entry) => entry.outlier).map((entry) => entry.source),
+      sources,
+      timestamp: new Date().toISOString(),
+    },
+  }
+}
@@ -0,0 +1,300 @@
+import { getSql } from "@/lib/db/sql"
+
+/**
+ * Per-provider rate limiting
+ *
+ * Each upstream with a free-tier limit gets a token bucket for its per-minute allowance and a
+ * daily call counter. Upstream calls are recorded in the api_usage table (endpoint "upstream:<operation>")
+ * so the daily budget survives restarts and is shared across server instances.
+ */
+
+export interface ProviderQuota {
+  perMinute: number
+  /** null when the provider has no daily cap */
+  perDay: number | null
+}
+
+export const DEFAULT_PROVIDER_QUOTAS: Record<string, ProviderQuota> = {
+  finnhub: { perMinute: 60, perDay: null },
+  polygon: { perMinute: 5, perDay: null },
+  twelveData: { perMinute: 8, perDay: 800 },
+  alphaVantage: { perMinute: 5, perDay: 25 },
+  // Unauthenticated social APIs used by the sentiment collectors
+  reddit: { perMinute: 10, perDay: null },
+  stocktwits: { perMinute: 3, perDay: null },
+}
+
+export interface ProviderBudget {
+  provider: string
+  perMinute: number
+  perDay: number | null
+  minuteRemaining: number
+  dailyUsed: number
+  dailyRemaining: number | null
+  exhausted: boolean
+  resetsAt: string
+}
+
+export interface UpstreamCallRecord {
+  provider: string
+  operation: string
+  responseTimeMs: number
+  statusCode: number
+  errorMessage?: string
+}
+
+export interface QuotaStore {
+  countSince(provider: string, since: Date): Promise<number>
+  record(call: UpstreamCallRecord): Promise<void>
+}
+
+export class RateLimitError extends Error {
+  constructor(
+    public provider: string,
+    public retryAfterMs: number,
+    reason: "minute" | "daily",
+  ) {
+    super(`${provider} rate limit: ${reason === "daily" ? "daily quota exhausted" : "per-minute limit reached"}`)
+    this.name = "RateLimitError"
+  }
+}
+
+/** Quota store backed by the existing api_usage table */
+export const apiUsageQuotaStore: QuotaStore = {
+  async countSince(provider, since) {
+    const sql = getSql()
+    const rows = await sql`
+      SELECT COUNT(*) as calls
+      FROM api_usage
+      WHERE api_provider = ${provider}
+        AND endpoint LIKE 'upstream:%'
+        AND created_at >= ${since.toISOString()}
+    `
+    return Number(rows[0]?.calls || 0)
+  },
+
+  async record(call) {
+    const sql = getSql()
+    await sql`
+      INSERT INTO api_usage (endpoint, method, response_time_ms, api_provider, created_at, status_code, error_message)
+      VALUES (${`upstream:${call.operation}`}, 'GET', ${call.responseTimeMs}, ${call.provider}, NOW(), ${call.statusCode}, ${call.errorMessage || null})
+    `
+  },
+}
+
+class TokenBucket {
+  private tokens: number
+  private updatedAt: number
+
+  constructor(
+    private capacity: number,
+    private refillPerMs: number,
+  ) {
+    this.tokens = capacity
+    this.updatedAt = Date.now()
+  }
+
+  private refill() {
+    const now = Date.now()
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs)
+    this.updatedAt = now
+  }
+
+  tryTake(): boolean {
+    this.refill()
+    if (this.tokens < 1) return false
+    this.tokens -= 1
+    return true
+  }
+
+  drain() {
+    this.refill()
+    this.tokens = 0
+  }
+
+  available(): number {
+    this.refill()
+    return Math.floor(this.tokens)
+  }
+
+  msUntilNextToken(): number {
+    this.refill()
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillPerMs)
+  }
+}
+
+interface DailyCounter {
+  day: string
+  used: number
+  seeded: boolean
+}
+
+function utcDay(date = new Date()): string {
+  return date.toISOString().split("T")[0]
+}
+
+function startOfUtcDay(date = new Date()): Date {
+  return new Date(`${utcDay(date)}T00:00:00.000Z`)
+}
+
+export class ProviderRateLimiter {
+  private static instance: ProviderRateLimiter
+  private buckets = new Map<string, TokenBucket>()
+  private daily = new Map<string, DailyCounter>()
+  private seeding = new Map<string, Promise<void>>()
+
+  constructor(
+    private quotas: Record<string, ProviderQuota> = DEFAULT_PROVIDER_QUOTAS,
+    private store: QuotaStore | null = apiUsageQuotaStore,
+  ) {
+    for (const [provider, quota] of Object.entries(quotas)) {
+      this.buckets.set(provider, new TokenBucket(quota.perMinute, quota.perMinute / 60000))
+    }
+  }
+
+  static getInstance(): ProviderRateLimiter {
+    if (!ProviderRateLimiter.instance) {
+      ProviderRateLimiter.instance = new ProviderRateLimiter(
+        DEFAULT_PROVIDER_QUOTAS,
+        process.env.DATABASE_URL ? apiUsageQuotaStore : null,
+      )
+    }
+    return ProviderRateLimiter.instance
+  }
+
+  /**
+   * Run an upstream request under the provider's limits and record its outcome.
+   * Providers without a configured quota pass straight through.
+   */
+  async run(provider: string, operation: string, request: () => Promise<Response>): Promise<Response> {
+    const quota = this.quotas[provider]
+    if (!quota) return request()
+
+    await this.acquire(provider)
+
+    const startTime = Date.now()
+    try {
+      const response = await request()
+      if (response.status === 429) {
+        // Upstream disagrees with our bookkeeping; back off until the bucket refills
+        this.buckets.get(provider)!.drain()
+      }
+      this.record({
+        provider,
+        operation,
+        responseTimeMs: Date.now() - startTime,
+        statusCode: response.status,
+        errorMessage: response.ok ? undefined : response.statusText,
+      })
+      return response
+    } catch (error) {
+      this.record({
+        provider,
+        operation,
+        responseTimeMs: Date.now() - startTime,
+        statusCode: 0,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      })
+      throw error
+    }
+  }
+
+  async acquire(provider: string): Promise<void> {
+    const quota = this.quotas[provider]
+    if (!quota) return
+
+    await this.seedDailyCounter(provider)
+    const counter = this.counterFor(provider)
+
+    if (quota.perDay !== null && counter.used >= quota.perDay) {
+      throw new RateLimitError(provider, startOfUtcDay().getTime() + 86400000 - Date.now(), "daily")
+    }
+
+    const bucket = this.buckets.get(provider)!
+    if (!bucket.tryTake()) {
+      throw new RateLimitError(provider, bucket.msUntilNextToken(), "minute")
+    }
+
+    counter.used++
+  }
+
+  /** Synchronous check used to skip providers in a fallback chain without spending a token */
+  isExhausted(provider: string): boolean {
+    const quota = this.quotas[provider]
+    if (!quota) return false
+
+    const counter = this.counterFor(provider)
+    if (quota.perDay !== null && counter.used >= quota.perDay) return true
+    return this.buckets.get(provider)!.available() < 1
+  }
+
+  async getBudget(provider: string): Promise<ProviderBudget | null> {
+    const quota = this.quotas[provider]
+    if (!quota) return null
+
+    await this.seedDailyCounter(provider)
+    const counter = this.counterFor(provider)
+    const minuteRemaining = this.buckets.get(provider)!.available()
+    const dailyRemaining = quota.perDay === null ? null : Math.max(0, quota.perDay - counter.used)
+
+    return {
+      provider,
+      perMinute: quota.perMinute,
+      perDay: quota.perDay,
+      minuteRemaining,
+      dailyUsed: counter.used,
+      dailyRemaining,
+      exhausted: dailyRemaining === 0 || minuteRemaining < 1,
+      resetsAt: new Date(startOfUtcDay().getTime() + 86400000).toISOString(),
+    }
+  }
+
+  async getBudgets(): Promise<ProviderBudget[]> {
+    const budgets = await Promise.all(Object.keys(this.quotas).map((provider) => this.getBudget(provider)))
+    return budgets.filter((budget): budget is ProviderBudget => !!budget)
+  }
+
+  private counterFor(provider: string): DailyCounter {
+    const today = utcDay()
+    let counter = this.daily.get(provider)
+    if (!counter || counter.day !== today) {
+      counter = { day: today, used: 0, seeded: false }
+      this.daily.set(provider, counter)
+    }
+    return counter
+  }
+
+  /** Load today's call count from the store once per provider per day */
+  private async seedDailyCounter(provider: string): Promise<void> {
+    const counter = this.counterFor(provider)
+    if (counter.seeded || !this.store) return
+
+    const key = `${provider}:${counter.day}`
+    if (!this.seeding.has(key)) {
+      this.seeding.set(
+        key,
+        this.store
+          .countSince(provider, startOfUtcDay())
+          .then((persisted) => {
+            // Calls made while the query was in flight are already counted in memory
+            counter.used = Math.max(counter.used, persisted)
+          })
+          .catch((error) => {
+            console.warn(`[RateLimiter] Could not load daily usage for ${provider}:`, error.message)
+          })
+          .finally(() => {
+            counter.seeded = true
+            this.seeding.delete(key)
+          }),
+      )
+    }
+    await this.seeding.get(key)
+  }
+
+  private record(call: UpstreamCallRecord) {
+    if (!this.store) return
+    this.store.record(call).catch((error) => {
+      console.warn("Non-critical: Failed to record upstream API usage:", error.message)
+    })
+  }
+}
@@ -1,13 +1,19 @@
+import { ProviderRateLimiter } from "./rate-limiter"
+
 export class TwelveDataClient {
   private baseUrl = "https://api.twelvedata.com"
   private apiKey: string
+  private limiter: ProviderRateLimiter
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, limiter = ProviderRateLimiter.getInstance()) {
     this.apiKey = apiKey
+    this.limiter = limiter
   }
 
   async getQuote(symbol: string) {
-    const response = await fetch(`${this.baseUrl}/quote?symbol=${symbol}&apikey=${this.apiKey}`)
+    const response = await this.limiter.run("twelveData", "quote", () =>
+      fetch(`${this.baseUrl}/quote?symbol=${symbol}&apikey=${this.apiKey}`),
+    )
     if (!response.ok) {
       throw new Error(`Twelve Data API error: ${response.statusText}`)
     }
@@ -15,8 +21,8 @@ export class TwelveDataClient {
   }
 
   async getTimeSeries(symbol: string, interval: string, outputsize = 5000) {
-    const response = await fetch(
-      `${this.baseUrl}/time_series?symbol=${symbol}&interval=${interval}&outputsize=${outputsize}&apikey=${this.apiKey}`,
+    const response = await this.limiter.run("twelveData", "timeSeries", () =>
+      fetch(`${this.baseUrl}/time_series?symbol=${symbol}&interval=${interval}&outputsize=${outputsize}&apikey=${this.apiKey}`),
     )
     if (!response.ok) {
       throw new Error(`Twelve Data API error: ${response.statusText}`)
@@ -32,7 +38,9 @@ export class TwelveDataClient {
       ...params,
     })
 
-    const response = await fetch(`${this.baseUrl}/${indicator}?${queryParams}`)
+    const response = await this.limiter.run("twelveData", "technicalIndicator", () =>
+      fetch(`${this.baseUrl}/${indicator}?${queryParams}`),
+    )
     if (!response.ok) {
       throw new Error(`Twelve Data API error: ${response.statusText}`)
     }
@@ -9,9 +9,10 @@ export class YahooFinanceClient {
     return response.json()
   }
 
-  async getHistoricalData(symbol: string, period1: number, period2: number, interval = "1d") {
+  async getHistoricalData(symbol: string, period1: number, period2: number, interval = "1d", includePrePost = false) {
     const response = await fetch(
-      `${this.baseUrl}/v8/finance/chart/${symbol}?period1=${period1}&period2=${period2}&interval=${interval}`,
+      `${this.baseUrl}/v8/finance/chart/${symbol}?period1=${period1}&period2=${period2}&interval=${interval}` +
+        (includePrePost ? "&includePrePost=true" : ""),
     )
     if (!response.ok) {
       throw new Error(`Yahoo Finance API error: ${response.statusText}`)
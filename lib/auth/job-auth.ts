@@ -0,0 +1,14 @@
+import type { NextRequest } from "next/server"
+import { AdminAuth } from "./admin-auth"
+
+/**
+ * Scheduled jobs are triggered by Vercel Cron, which sends `Authorization: Bearer <CRON_SECRET>`.
+ * Admins can also run them on demand from the dashboard with their session cookie.
+ */
+export async function isAuthorizedJobRequest(request: NextRequest): Promise<boolean> {
+  const secret = process.env.CRON_SECRET
+  if (secret && request.headers.get("authorization") === `Bearer ${secret}`) {
+    return true
+  }
+  return AdminAuth.isAdmin()
+}
@@ -0,0 +1,28 @@
+import { cookies } from "next/headers"
+
+/**
+ * The app has no user accounts, so saved data (portfolios, alert rules) belongs to an anonymous owner id
+ * kept in an httpOnly cookie. The first request that needs one issues the id; clearing cookies starts over.
+ */
+
+const OWNER_COOKIE = "owner-id"
+const OWNER_COOKIE_MAX_AGE = 60 * 60 * 24 * 365 * 2 // 2 years
+
+/** Owner id for the current request, issuing one when the browser has none. Route handlers only. */
+export async function getOwnerId(): Promise<string> {
+  const cookieStore = await cookies()
+  const existing = cookieStore.get(OWNER_COOKIE)?.value
+  if (existing && /^[0-9a-f-]{36}$/.test(existing)) {
+    return existing
+  }
+
+  const ownerId = crypto.randomUUID()
+  cookieStore.set(OWNER_COOKIE, ownerId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: OWNER_COOKIE_MAX_AGE,
+    path: "/",
+  })
+  return ownerId
+}
@@ -0,0 +1,200 @@
+import type { HistoricalCandle } from "@/lib/api/providers/types"
+import { TechnicalAnalysis } from "@/lib/utils/technical-analysis"
+
+/**
+ * Series behind the stock chart: indicator overlays, volume-by-price, percent-change comparison and the
+ * visible range the panes share. Everything here is pure so it can run in render and in tests.
+ */
+
+/** A candle with every indicator the chart can overlay, aligned index-for-index with the input */
+export interface ChartPoint extends HistoricalCandle {
+  /** Identifies the candle across series: its timestamp for intraday candles, its date for daily ones */
+  key: string
+  sma20: number | null
+  sma50: number | null
+  bbUpper: number | null
+  bbMiddle: number | null
+  bbLower: number | null
+  rsi: number | null
+  vwap: number | null
+  ichimokuConversion: number | null
+  ichimokuBase: number | null
+  ichimokuSpanA: number | null
+  ichimokuSpanB: number | null
+  stochK: number | null
+  stochD: number | null
+  adx: number | null
+  plusDI: number | null
+  minusDI: number | null
+  atr: number | null
+  obv: number
+}
+
+export interface VolumeProfileBin {
+  low: number
+  high: number
+  volume: number
+  /** Volume of candles that closed at or above their open */
+  upVolume: number
+  downVolume: number
+}
+
+export interface VolumeProfile {
+  bins: VolumeProfileBin[]
+  /** Index of the bin with the most volume */
+  pointOfControl: number
+  /** Price range around the point of control holding VALUE_AREA_SHARE of the volume */
+  valueArea: { low: number; high: number } | null
+}
+
+export interface VisibleRange {
+  startIndex: number
+  endIndex: number
+}
+
+/** One row of the comparison overlay: percent change per symbol since the first visible candle */
+export type PercentChangeRow = { key: string } & Record<string, number | string | null>
+
+const VALUE_AREA_SHARE = 0.7
+
+export function candleKey(candle: HistoricalCandle): string {
+  return candle.timestamp ?? candle.date
+}
+
+export function withIndicators(candles: HistoricalCandle[]): ChartPoint[] {
+  const closes = candles.map((candle) => candle.close)
+  const sma20 = TechnicalAnalysis.smaSeries(closes, 20)
+  const sma50 = TechnicalAnalysis.smaSeries(closes, 50)
+  const bollinger = TechnicalAnalysis.bollingerSeries(closes, 20, 2)
+  const rsi = TechnicalAnalysis.rsiSeries(closes, 14)
+  const vwap = TechnicalAnalysis.vwapSeries(candles)
+  const ichimoku = TechnicalAnalysis.ichimokuSeries(candles)
+  const stochastic = TechnicalAnalysis.stochasticSeries(candles)
+  const adx = TechnicalAnalysis.adxSeries(candles)
+  const atr = TechnicalAnalysis.atrSeries(candles)
+  const obv = TechnicalAnalysis.obvSeries(candles)
+  const round = (value: number | null, digits: number) => (value === null ? null : Number(value.toFixed(digits)))
+
+  return candles.map((candle, index) => ({
+    ...candle,
+    key: candleKey(candle),
+    sma20: round(sma20[index], 4),
+    sma50: round(sma50[index], 4),
+    bbUpper: round(bollinger.upper[index], 4),
+    bbMiddle: round(bollinger.middle[index], 4),
+    bbLower: round(bollinger.lower[index], 4),
+    rsi: round(rsi[index], 2),
+    vwap: round(vwap[index], 4),
+    ichimokuConversion: round(ichimoku.conversion[index], 4),
+    ichimokuBase: round(ichimoku.base[index], 4),
+    ichimokuSpanA: round(ichimoku.spanA[index], 4),
+    ichimokuSpanB: round(ichimoku.spanB[index], 4),
+    stochK: round(stochastic.k[index], 2),
+    stochD: round(stochastic.d[index], 2),
+    adx: round(adx.adx[index], 2),
+    plusDI: round(adx.plusDI[index], 2),
+    minusDI: round(adx.minusDI[index], 2),
+    atr: round(atr[index], 4),
+    obv: obv[index],
+  }))
+}
+
+/**
+ * Volume-by-price over `binCount` equal price bins. A candle's volume is spread evenly over its high-low range,
+ * so a wide bar contributes to every bin it crossed rather than only the bin of its close.
+ */
+export function volumeProfile(candles: HistoricalCandle[], binCount = 24): VolumeProfile {
+  const valid = candles.filter((candle) => candle.high > 0 && candle.low > 0 && candle.volume > 0)
+  if (valid.length === 0) return { bins: [], pointOfControl: -1, valueArea: null }
+
+  const min = Math.min(...valid.map((candle) => candle.low))
+  const max = Math.max(...valid.map((candle) => candle.high))
+  const binSize = (max - min) / binCount || 1
+  const bins: VolumeProfileBin[] = Array.from({ length: binCount }, (_, index) => ({
+    low: min + index * binSize,
+    high: min + (index + 1) * binSize,
+    volume: 0,
+    upVolume: 0,
+    downVolume: 0,
+  }))
+  const binOf = (price: number) => Math.min(binCount - 1, Math.max(0, Math.floor((price - min) / binSize)))
+
+  for (const candle of valid) {
+    const side = candle.close >= candle.open ? "upVolume" : "downVolume"
+    const range = candle.high - candle.low
+    for (let index = binOf(candle.low); index <= binOf(candle.high); index++) {
+      const bin = bins[index]
+      const share = range === 0 ? 1 : (Math.min(bin.high, candle.high) - Math.max(bin.low, candle.low)) / range
+      if (share <= 0) continue
+      bin.volume += candle.volume * share
+      bin[side] += candle.volume * share
+    }
+  }
+
+  let pointOfControl = 0
+  bins.forEach((bin, index) => {
+    if (bin.volume > bins[pointOfControl].volume) pointOfControl = index
+  })
+
+  // Grow the value area from the point of control towards whichever neighbour traded more
+  const total = bins.reduce((sum, bin) => sum + bin.volume, 0)
+  let low = pointOfControl
+  let high = pointOfControl
+  let covered = bins[pointOfControl].volume
+  while (covered < total * VALUE_AREA_SHARE && (low > 0 || high < binCount - 1)) {
+    const below = low > 0 ? bins[low - 1].volume : -1
+    const above = high < binCount - 1 ? bins[high + 1].volume : -1
+    if (above >= below) covered += bins[++high].volume
+    else covered += bins[--low].volume
+  }
+
+  return { bins, pointOfControl, valueArea: { low: bins[low].low, high: bins[high].high } }
+}
+
+/**
+ * Percent change of each series against its first close on or after the first of `keys`, aligned on the keys of
+ * the main series. Symbols without a candle at a key (a holiday abroad, a halted ticker) are null there.
+ */
+export function percentChangeSeries(keys: string[], series: Record<string, HistoricalCandle[]>): PercentChangeRow[] {
+  const closes = Object.entries(series).map(
+    ([symbol, candles]) => [symbol, new Map(candles.map((candle) => [candleKey(candle), candle.close]))] as const,
+  )
+  const baselines = new Map<string, number>()
+
+  return keys.map((key) => {
+    const row: PercentChangeRow = { key }
+    for (const [symbol, byKey] of closes) {
+      const close = byKey.get(key)
+      if (close === undefined || close <= 0) {
+        row[symbol] = null
+        continue
+      }
+      if (!baselines.has(symbol)) baselines.set(symbol, close)
+      row[symbol] = Number(((close / baselines.get(symbol)! - 1) * 100).toFixed(4))
+    }
+    return row
+  })
+}
+
+/** Y-axis bounds with a little headroom; log scales pad by ratio so the padding looks even */
+export function priceDomain(candles: HistoricalCandle[], logScale = false): [number, number] {
+  const lows = candles.map((candle) => candle.low).filter((price) => price > 0)
+  const highs = candles.map((candle) => candle.high).filter((price) => price > 0)
+  if (lows.length === 0 || highs.length === 0) return [0, 1]
+
+  const min = Math.min(...lows)
+  const max = Math.max(...highs)
+  if (logScale) return [min / 1.02, max * 1.02]
+  const padding = (max - min) * 0.05 || max * 0.01
+  return [Math.max(0, min - padding), max + padding]
+}
+
+/** Scale the window around its centre by `factor` (< 1 zooms in), keeping it within the data */
+export function zoomRange(range: VisibleRange, length: number, factor: number, minSize = 10): VisibleRange {
+  if (length === 0) return { startIndex: 0, endIndex: 0 }
+  const size = range.endIndex - range.startIndex + 1
+  const nextSize = Math.max(Math.min(minSize, length), Math.min(length, Math.round(size * factor)))
+  const centre = (range.startIndex + range.endIndex) / 2
+  const startIndex = Math.min(length - nextSize, Math.max(0, Math.round(centre - (nextSize - 1) / 2)))
+  return { startIndex, endIndex: startIndex + nextSize - 1 }
+}
@@ -0,0 +1,100 @@
+import type { LLMRouter } from "@/lib/ai/llm-router"
+import type { LLMMessage } from "@/lib/ai/providers/types"
+import type { ChatSessionStore } from "./chat-session"
+import type { ChatSession, ChatSessionMessage } from "./types"
+
+/**
+ * Conversation memory
+ *
+ * The model sees the session summary (if any) plus the messages after it, verbatim. Once more than
+ * SUMMARIZE_AFTER messages, or MAX_HISTORY_CHARS of text, sit outside the summary, everything but the last
+ * KEEP_RECENT messages is folded into a new summary, so the context stays bounded however long the
+ * conversation runs.
+ */
+
+export const SUMMARIZE_AFTER = 24
+export const KEEP_RECENT = 8
+export const MAX_HISTORY_CHARS = 16000
+
+function toolNote(message: ChatSessionMessage): string {
+  if (message.toolCalls.length === 0) return ""
+  const calls = message.toolCalls.map((call) => `${call.name}(${JSON.stringify(call.input)})`)
+  return `\n\n[Looked up: ${calls.join(", ")}]`
+}
+
+/** The stored history as model messages, starting after the summarized part */
+export function conversationHistory(session: ChatSession, messages: ChatSessionMessage[]): LLMMessage[] {
+  return messages.slice(session.summarizedCount).map((message) =>
+    message.role === "user"
+      ? { role: "user", content: message.content }
+      : { role: "assistant", content: message.content + toolNote(message) },
+  )
+}
+
+/** System prompt lines giving the model the session's ticker and what was said before the recent messages */
+export function sessionContext(session: ChatSession): string {
+  const lines: string[] = []
+  if (session.ticker) {
+    lines.push(
+      `This conversation is about ${session.ticker}. Unless the user names another company, "it", "its", ` +
+        `"the stock" and similar follow-ups refer to ${session.ticker}.`,
+    )
+  }
+  if (session.summary) {
+    lines.push(`Summary of the conversation so far:\n${session.summary}`)
+  }
+  return lines.join("\n\n")
+}
+
+export function needsSummary(session: ChatSession, messages: ChatSessionMessage[]): boolean {
+  const unsummarized = messages.slice(session.summarizedCount)
+  if (unsummarized.length <= KEEP_RECENT) return false
+  const chars = unsummarized.reduce((sum, message) => sum + message.content.length, 0)
+  return unsummarized.length > SUMMARIZE_AFTER || chars > MAX_HISTORY_CHARS
+}
+
+/**
+ * Fold all but the last KEEP_RECENT messages into the session summary. Returns the updated session, or the
+ * session unchanged when nothing needed summarizing.
+ */
+export async function summarizeSession(
+  router: LLMRouter,
+  store: ChatSessionStore,
+  ownerId: string,
+  session: ChatSession,
+  messages: ChatSessionMessage[],
+): Promise<ChatSession> {
+  if (!needsSummary(session, messages)) return session
+
+  const foldUpTo = messages.length - KEEP_RECENT
+  const transcript = messages
+    .slice(session.summarizedCount, foldUpTo)
+    .map((message) => `${message.role === "user" ? "User" : "Assistant"}: ${message.content}${toolNote(message)}`)
+    .join("\n\n")
+
+  const prompt = `
+    Update the running summary of a conversation between an investor and a market analysis assistant.
+    ${session.ticker ? `The conversation is about ${session.ticker}.` : ""}
+
+    Previous summary:
+    ${session.summary ?? "None"}
+
+    New messages:
+    ${transcript}
+
+    Write the updated summary in at most 200 words. Keep the tickers discussed, figures quoted, conclusions
+    reached and open questions; drop pleasantries. Reply with the summary only.
+  `
+
+  const { text } = await router.generate("chat-summary", {
+    messages: [{ role: "user", content: prompt }],
+    maxOutputTokens: 400,
+    temperature: 0.2,
+  })
+
+  const updated = await store.updateSession(ownerId, session.id, {
+    summary: text.trim(),
+    summarizedCount: foldUpTo,
+  })
+  return updated ?? session
+}
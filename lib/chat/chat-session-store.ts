@@ -0,0 +1,251 @@
+import { getSql } from "@/lib/db/sql"
+import { MAX_SESSIONS_PER_OWNER, type ChatSessionStore } from "./chat-session"
+import type { ChatSession, ChatSessionMessage } from "./types"
+
+/**
+ * Chat session persistence
+ *
+ * Sessions and their messages live in Neon, scoped by the anonymous owner id from lib/auth/owner. Without
+ * DATABASE_URL they are kept in process memory instead, so chat still remembers the conversation in local
+ * development; those sessions are gone when the server restarts.
+ */
+
+let tablesReady: Promise<void> | null = null
+
+export function ensureChatTables(): Promise<void> {
+  if (!tablesReady) {
+    const sql = getSql()
+    tablesReady = sql`
+      CREATE TABLE IF NOT EXISTS chat_sessions (
+        id SERIAL PRIMARY KEY,
+        owner_id VARCHAR(64) NOT NULL,
+        channel VARCHAR(16) NOT NULL,
+        title VARCHAR(80) NOT NULL,
+        ticker VARCHAR(16),
+        summary TEXT,
+        summarized_count INTEGER NOT NULL DEFAULT 0,
+        message_count INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `
+      .then(
+        () => sql`
+          CREATE TABLE IF NOT EXISTS chat_messages (
+            id SERIAL PRIMARY KEY,
+            session_id INTEGER NOT NULL REFERENCES chat_sessions(id) ON DELETE CASCADE,
+            role VARCHAR(16) NOT NULL,
+            content TEXT NOT NULL,
+            tool_calls JSONB NOT NULL DEFAULT '[]',
+            model VARCHAR(120),
+            created_at TIMESTAMP DEFAULT NOW()
+          )
+        `,
+      )
+      .then(() => sql`CREATE INDEX IF NOT EXISTS idx_chat_sessions_owner ON chat_sessions (owner_id, updated_at)`)
+      .then(() => sql`CREATE INDEX IF NOT EXISTS idx_chat_messages_session ON chat_messages (session_id, id)`)
+      .then(() => undefined)
+      .catch((error) => {
+        tablesReady = null
+        throw error
+      })
+  }
+  return tablesReady
+}
+
+export const neonChatSessionStore: ChatSessionStore = {
+  async listSessions(ownerId, filter = {}) {
+    await ensureChatTables()
+    const sql = getSql()
+    const rows = await sql`
+      SELECT * FROM chat_sessions
+      WHERE owner_id = ${ownerId}
+        AND (${filter.channel ?? null}::text IS NULL OR channel = ${filter.channel ?? null})
+        AND (${filter.ticker ?? null}::text IS NULL OR ticker = ${filter.ticker ?? null})
+      ORDER BY updated_at DESC, id DESC
+    `
+    return rows.map(mapSession)
+  },
+
+  async getSession(ownerId, id) {
+    await ensureChatTables()
+    const sql = getSql()
+    const rows = await sql`SELECT * FROM chat_sessions WHERE id = ${id} AND owner_id = ${ownerId}`
+    return rows.length > 0 ? mapSession(rows[0]) : null
+  },
+
+  async createSession(ownerId, input) {
+    await ensureChatTables()
+    const sql = getSql()
+    const rows = await sql`
+      INSERT INTO chat_sessions (owner_id, channel, title, ticker)
+      VALUES (${ownerId}, ${input.channel}, ${input.title}, ${input.ticker})
+      RETURNING *
+    `
+    await sql`
+      DELETE FROM chat_sessions
+      WHERE owner_id = ${ownerId} AND id NOT IN (
+        SELECT id FROM chat_sessions WHERE owner_id = ${ownerId}
+        ORDER BY updated_at DESC, id DESC
+        LIMIT ${MAX_SESSIONS_PER_OWNER}
+      )
+    `
+    return mapSession(rows[0])
+  },
+
+  async updateSession(ownerId, id, changes) {
+    await ensureChatTables()
+    const sql = getSql()
+    // A ticker or summary can be cleared, so "not given" and null are told apart
+    const rows = await sql`
+      UPDATE chat_sessions SET
+        title = COALESCE(${changes.title ?? null}, title),
+        ticker = CASE WHEN ${"ticker" in changes} THEN ${changes.ticker ?? null} ELSE ticker END,
+        summary = CASE WHEN ${"summary" in changes} THEN ${changes.summary ?? null} ELSE summary END,
+        summarized_count = COALESCE(${changes.summarizedCount ?? null}, summarized_count)
+      WHERE id = ${id} AND owner_id = ${ownerId}
+      RETURNING *
+    `
+    return rows.length > 0 ? mapSession(rows[0]) : null
+  },
+
+  async deleteSession(ownerId, id) {
+    await ensureChatTables()
+    const sql = getSql()
+    const rows = await sql`DELETE FROM chat_sessions WHERE id = ${id} AND owner_id = ${ownerId} RETURNING id`
+    return rows.length > 0
+  },
+
+  async listMessages(ownerId, sessionId) {
+    await ensureChatTables()
+    const sql = getSql()
+    const rows = await sql`
+      SELECT m.* FROM chat_messages m
+      JOIN chat_sessions s ON s.id = m.session_id
+      WHERE m.session_id = ${sessionId} AND s.owner_id = ${ownerId}
+      ORDER BY m.id ASC
+    `
+    return rows.map(mapMessage)
+  },
+
+  async appendMessages(ownerId, sessionId, messages) {
+    await ensureChatTables()
+    const sql = getSql()
+    const rows = await sql`
+      UPDATE chat_sessions SET message_count = message_count + ${messages.length}, updated_at = NOW()
+      WHERE id = ${sessionId} AND owner_id = ${ownerId}
+      RETURNING id
+    `
+    if (rows.length === 0) return
+    for (const message of messages) {
+      await sql`
+        INSERT INTO chat_messages (session_id, role, content, tool_calls, model)
+        VALUES (${sessionId}, ${message.role}, ${message.content}, ${JSON.stringify(message.toolCalls)}::jsonb,
+          ${message.model})
+      `
+    }
+  },
+}
+
+/** Same contract as the Neon store, held in a Map; used without DATABASE_URL and in tests */
+export class MemoryChatSessionStore implements ChatSessionStore {
+  private sessions = new Map<number, { ownerId: string; session: ChatSession; messages: ChatSessionMessage[] }>()
+  private nextSessionId = 1
+  private nextMessageId = 1
+
+  async listSessions(ownerId: string, filter: { channel?: string; ticker?: string } = {}) {
+    return Array.from(this.sessions.values())
+      .filter((entry) => entry.ownerId === ownerId)
+      .map((entry) => entry.session)
+      .filter((session) => !filter.channel || session.channel === filter.channel)
+      .filter((session) => !filter.ticker || session.ticker === filter.ticker)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt) || b.id - a.id)
+      .map((session) => ({ ...session }))
+  }
+
+  async getSession(ownerId: string, id: number) {
+    const entry = this.sessions.get(id)
+    return entry && entry.ownerId === ownerId ? { ...entry.session } : null
+  }
+
+  async createSession(ownerId: string, input: Pick<ChatSession, "channel" | "title" | "ticker">) {
+    const now = new Date().toISOString()
+    const session: ChatSession = {
+      id: this.nextSessionId++,
+      ...input,
+      summary: null,
+      summarizedCount: 0,
+      messageCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    }
+    this.sessions.set(session.id, { ownerId, session, messages: [] })
+
+    for (const stale of (await this.listSessions(ownerId)).slice(MAX_SESSIONS_PER_OWNER)) {
+      this.sessions.delete(stale.id)
+    }
+    return { ...session }
+  }
+
+  async updateSession(
+    ownerId: string,
+    id: number,
+    changes: Partial<Pick<ChatSession, "title" | "ticker" | "summary" | "summarizedCount">>,
+  ) {
+    const entry = this.sessions.get(id)
+    if (!entry || entry.ownerId !== ownerId) return null
+    entry.session = { ...entry.session, ...changes }
+    return { ...entry.session }
+  }
+
+  async deleteSession(ownerId: string, id: number) {
+    const entry = this.sessions.get(id)
+    if (!entry || entry.ownerId !== ownerId) return false
+    return this.sessions.delete(id)
+  }
+
+  async listMessages(ownerId: string, sessionId: number) {
+    const entry = this.sessions.get(sessionId)
+    return entry && entry.ownerId === ownerId ? entry.messages.map((message) => ({ ...message })) : []
+  }
+
+  async appendMessages(ownerId: string, sessionId: number, messages: Omit<ChatSessionMessage, "id" | "createdAt">[]) {
+    const entry = this.sessions.get(sessionId)
+    if (!entry || entry.ownerId !== ownerId) return
+    const now = new Date().toISOString()
+    entry.messages.push(...messages.map((message) => ({ ...message, id: this.nextMessageId++, createdAt: now })))
+    entry.session = { ...entry.session, messageCount: entry.messages.length, updatedAt: now }
+  }
+}
+
+const memoryStore = new MemoryChatSessionStore()
+
+/** Neon when a database is configured, otherwise the process-wide in-memory store */
+export function getChatSessionStore(): ChatSessionStore {
+  return process.env.DATABASE_URL ? neonChatSessionStore : memoryStore
+}
+
+function mapSession(row: any): ChatSession {
+  return {
+    id: row.id,
+    channel: row.channel,
+    title: row.title,
+    ticker: row.ticker ?? null,
+    summary: row.summary ?? null,
+    summarizedCount: Number(row.summarized_count),
+    messageCount: Number(row.message_count),
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  }
+}
+
+function mapMessage(row: any): ChatSessionMessage {
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    toolCalls: Array.isArray(row.tool_calls) ? row.tool_calls : [],
+    model: row.model ?? null,
+    createdAt: new Date(row.created_at).toISOString(),
+  }
+}
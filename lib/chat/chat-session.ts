@@ -0,0 +1,88 @@
+import type { ChatChannel, ChatSession, ChatSessionMessage, NewChatSessionMessage } from "./types"
+
+/**
+ * Chat session rules shared by the Neon store and the in-process fallback
+ */
+
+export class ChatSessionError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "ChatSessionError"
+  }
+}
+
+export const CHAT_CHANNELS: ChatChannel[] = ["assistant", "analyst"]
+/** Oldest sessions beyond this are deleted when a new one is created */
+export const MAX_SESSIONS_PER_OWNER = 50
+export const MAX_MESSAGE_LENGTH = 4000
+const MAX_TITLE_LENGTH = 80
+
+export interface ChatSessionStore {
+  /** Most recently active first, optionally only one channel or ticker */
+  listSessions(ownerId: string, filter?: { channel?: ChatChannel; ticker?: string }): Promise<ChatSession[]>
+  getSession(ownerId: string, id: number): Promise<ChatSession | null>
+  createSession(
+    ownerId: string,
+    input: { channel: ChatChannel; title: string; ticker: string | null },
+  ): Promise<ChatSession>
+  updateSession(
+    ownerId: string,
+    id: number,
+    changes: Partial<Pick<ChatSession, "title" | "ticker" | "summary" | "summarizedCount">>,
+  ): Promise<ChatSession | null>
+  deleteSession(ownerId: string, id: number): Promise<boolean>
+  /** Every message of the session, oldest first */
+  listMessages(ownerId: string, sessionId: number): Promise<ChatSessionMessage[]>
+  appendMessages(ownerId: string, sessionId: number, messages: NewChatSessionMessage[]): Promise<void>
+}
+
+export function normalizeChannel(channel: unknown): ChatChannel {
+  if (!CHAT_CHANNELS.includes(channel as ChatChannel)) {
+    throw new ChatSessionError(`channel must be one of ${CHAT_CHANNELS.join(", ")}`)
+  }
+  return channel as ChatChannel
+}
+
+/** Uppercased ticker, or null for none; anything else that is not a symbol is rejected */
+export function normalizeTicker(ticker: unknown): string | null {
+  if (ticker === undefined || ticker === null || ticker === "") return null
+  const symbol = typeof ticker === "string" ? ticker.trim().toUpperCase() : ""
+  if (!/^[A-Z0-9.^=-]{1,16}$/.test(symbol)) throw new ChatSessionError(`Invalid ticker: ${ticker}`)
+  return symbol
+}
+
+export function normalizeTitle(title: unknown): string {
+  const trimmed = typeof title === "string" ? title.trim().replace(/\s+/g, " ") : ""
+  if (!trimmed || trimmed.length > MAX_TITLE_LENGTH) {
+    throw new ChatSessionError(`Session title must be 1-${MAX_TITLE_LENGTH} characters`)
+  }
+  return trimmed
+}
+
+export function normalizeMessage(message: unknown): string {
+  const trimmed = typeof message === "string" ? message.trim() : ""
+  if (!trimmed) throw new ChatSessionError("Message is required")
+  if (trimmed.length > MAX_MESSAGE_LENGTH) {
+    throw new ChatSessionError(`Message must be at most ${MAX_MESSAGE_LENGTH} characters`)
+  }
+  return trimmed
+}
+
+/** Default title: the opening question, cut at a word boundary */
+export function titleFromMessage(message: string): string {
+  const flat = message.trim().replace(/\s+/g, " ")
+  if (flat.length <= MAX_TITLE_LENGTH) return flat
+  const cut = flat.slice(0, MAX_TITLE_LENGTH - 3)
+  const lastSpace = cut.lastIndexOf(" ")
+  return `${lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}...`
+}
+
+/** Positive integer session id from a route parameter or request body */
+export function parseSessionId(value: unknown): number {
+  const id = typeof value === "number" ? value : Number.parseInt(String(value))
+  if (!Number.isInteger(id) || id <= 0) throw new ChatSessionError("Invalid chat session id")
+  return id
+}
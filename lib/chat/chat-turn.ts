@@ -0,0 +1,130 @@
+import { runChatAgent, type ChatAgentEvent } from "@/lib/ai/chat-agent"
+import type { ChatStreamEvent } from "@/lib/ai/chat-stream"
+import type { ChatToolContext } from "@/lib/ai/chat-tools"
+import type { LLMRouter } from "@/lib/ai/llm-router"
+import { conversationHistory, sessionContext, summarizeSession } from "./chat-memory"
+import {
+  ChatSessionError,
+  normalizeTicker,
+  parseSessionId,
+  titleFromMessage,
+  type ChatSessionStore,
+} from "./chat-session"
+import type { ChatChannel, ChatSession, ChatSessionMessage, ChatToolCallRecord } from "./types"
+
+/**
+ * One user message in a persistent chat session: load or start the session, answer with the session's memory
+ * in context, then store both messages and refresh the summary when the conversation has grown long.
+ */
+
+export interface OpenedChatSession {
+  session: ChatSession
+  messages: ChatSessionMessage[]
+}
+
+/**
+ * Resolve the session a message belongs to, starting one when no id is given. Runs before streaming so a bad
+ * or foreign session id is answered with a plain 4xx. Null when there is no owner to store sessions for.
+ */
+export async function openChatSession(
+  store: ChatSessionStore,
+  ownerId: string | null,
+  input: { channel: ChatChannel; sessionId?: unknown; ticker?: unknown; message: string },
+): Promise<OpenedChatSession | null> {
+  if (!ownerId) return null
+  const ticker = normalizeTicker(input.ticker)
+
+  if (input.sessionId === undefined || input.sessionId === null) {
+    const session = await store.createSession(ownerId, {
+      channel: input.channel,
+      title: titleFromMessage(input.message),
+      ticker,
+    })
+    return { session, messages: [] }
+  }
+
+  const id = parseSessionId(input.sessionId)
+  let session = await store.getSession(ownerId, id)
+  if (!session) throw new ChatSessionError("Chat session not found", 404)
+  if (session.channel !== input.channel) throw new ChatSessionError("Chat session belongs to another chat", 409)
+  if (ticker && ticker !== session.ticker) {
+    session = (await store.updateSession(ownerId, id, { ticker })) ?? session
+  }
+  return { session, messages: await store.listMessages(ownerId, id) }
+}
+
+export interface ChatTurnOptions {
+  router: LLMRouter
+  store: ChatSessionStore
+  ownerId: string | null
+  /** From openChatSession; null answers the message without memory and stores nothing */
+  opened: OpenedChatSession | null
+  message: string
+  system: string
+  context: ChatToolContext
+  maxOutputTokens?: number
+  temperature?: number
+}
+
+/** First symbol a tool was asked about, used to give an untied session its ticker */
+function tickerFromToolCalls(calls: ChatToolCallRecord[]): string | null {
+  for (const call of calls) {
+    const symbol = call.input.symbol ?? (Array.isArray(call.input.symbols) ? call.input.symbols[0] : undefined)
+    if (typeof symbol === "string" && symbol.trim()) return symbol.trim().toUpperCase()
+  }
+  return null
+}
+
+export async function* runChatTurn(options: ChatTurnOptions): AsyncGenerator<ChatStreamEvent> {
+  const { router, store, ownerId, opened, message } = options
+  if (opened) yield { type: "session", session: opened.session }
+
+  const memory = opened ? sessionContext(opened.session) : ""
+  const toolCalls: ChatToolCallRecord[] = []
+  let done: Extract<ChatAgentEvent, { type: "done" }> | null = null
+
+  for await (const event of runChatAgent({
+    router,
+    system: memory ? `${options.system}\n\n${memory}` : options.system,
+    messages: [
+      ...(opened ? conversationHistory(opened.session, opened.messages) : []),
+      { role: "user", content: message },
+    ],
+    context: options.context,
+    maxOutputTokens: options.maxOutputTokens,
+    temperature: options.temperature,
+  })) {
+    if (event.type === "tool-call") {
+      toolCalls.push({ id: event.id, name: event.name, input: event.input, ok: false })
+    } else if (event.type === "tool-result") {
+      const call = [...toolCalls].reverse().find((candidate) => candidate.id === event.id)
+      if (call) Object.assign(call, { ok: event.ok, result: event.result, error: event.error })
+    } else if (event.type === "done") {
+      done = event
+    }
+    yield event
+  }
+
+  // Only completed turns are stored, so a failed reply leaves the session as it was
+  if (!opened || !ownerId || !done) return
+  const { session } = opened
+
+  try {
+    await store.appendMessages(ownerId, session.id, [
+      { role: "user", content: message, toolCalls: [], model: null },
+      { role: "assistant", content: done.content, toolCalls, model: done.model },
+    ])
+    const ticker = session.ticker ?? tickerFromToolCalls(toolCalls)
+    if (ticker !== session.ticker) await store.updateSession(ownerId, session.id, { ticker })
+  } catch (error: any) {
+    console.warn("Non-critical: failed to save chat turn:", error.message)
+    return
+  }
+
+  try {
+    const current = await store.getSession(ownerId, session.id)
+    if (current) await summarizeSession(router, store, ownerId, current, await store.listMessages(ownerId, session.id))
+  } catch (error: any) {
+    console.warn("Non-critical: failed to summarize chat session:", error.message)
+  }
+}
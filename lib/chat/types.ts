@@ -0,0 +1,46 @@
+/**
+ * Chat session contracts
+ *
+ * A session is one conversation with the assistant, owned by the anonymous owner id and optionally tied to a
+ * ticker. Every message is kept for display; once a conversation grows long, its older messages are folded
+ * into a running summary that replaces them in the model's context.
+ */
+
+/** Which chat the session belongs to: the floating platform assistant or the analysis panel's analyst */
+export type ChatChannel = "assistant" | "analyst"
+
+export interface ChatSession {
+  id: number
+  channel: ChatChannel
+  title: string
+  /** Ticker follow-up questions refer to, e.g. "what about its margins?" */
+  ticker: string | null
+  /** Summary of the first `summarizedCount` messages, or null while the whole history still fits */
+  summary: string | null
+  summarizedCount: number
+  messageCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+/** A tool call made while answering, with the result the model was given */
+export interface ChatToolCallRecord {
+  id: string
+  name: string
+  input: Record<string, unknown>
+  ok: boolean
+  result?: unknown
+  error?: string
+}
+
+export interface ChatSessionMessage {
+  id: number
+  role: "user" | "assistant"
+  content: string
+  toolCalls: ChatToolCallRecord[]
+  /** Model that wrote an assistant message */
+  model: string | null
+  createdAt: string
+}
+
+export type NewChatSessionMessage = Omit<ChatSessionMessage, "id" | "createdAt">
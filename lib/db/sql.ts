@@ -0,0 +1,18 @@
+import { neon, type NeonQueryFunction } from "@neondatabase/serverless"
+
+let client: NeonQueryFunction<false, false> | null = null
+
+/**
+ * Lazily create the Neon SQL client for library code.
+ * Unlike route modules, lib modules are imported from places where DATABASE_URL may be unset
+ * (tests, build-time), so the connection is only required on first use.
+ */
+export function getSql(): NeonQueryFunction<false, false> {
+  if (!client) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("DATABASE_URL is not configured")
+    }
+    client = neon(process.env.DATABASE_URL)
+  }
+  return client
+}
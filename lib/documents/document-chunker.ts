@@ -0,0 +1,186 @@
+import type { DocumentChunk, DocumentForm } from "./types"
+
+/**
+ * Plain text extraction and section-aware chunking
+ *
+ * Filings are split at their "Item" headings so a chunk never mixes, say, risk factors with MD&A, and each chunk
+ * is labelled with the heading it sits under. Transcripts run across speaker turns instead: turns are often a
+ * single line, so each one is prefixed with its speaker and the chunk is labelled with the first. Within a
+ * section, consecutive chunks overlap by a few sentences so a passage cut at a boundary is still found whole.
+ */
+
+export const DEFAULT_CHUNK_CHARS = 1500
+export const DEFAULT_OVERLAP_CHARS = 200
+
+export interface ChunkOptions {
+  maxChars?: number
+  overlapChars?: number
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  mdash: "\u2014",
+  ndash: "\u2013",
+  lsquo: "\u2018",
+  rsquo: "\u2019",
+  ldquo: "\u201c",
+  rdquo: "\u201d",
+}
+
+/** "Item 1A. Risk Factors", "ITEM 7 - MANAGEMENT'S DISCUSSION", "Item 2.02 Results of Operations" */
+const ITEM_HEADING = /^item\s+\d{1,2}(?:\.\d{2})?[a-c]?\b[.:\s-]*\S.{0,150}$/i
+/** "Tim Cook: Thanks, everyone" or "Operator:"; at most five capitalized words, optionally with a title */
+const SPEAKER_TURN = /^([A-Z][\w.'’-]*(?:\s+[A-Z][\w.'’-]*){0,4}(?:\s+[-–—]{1,2}\s+[^:]{2,80})?):\s*(.*)$/
+/** "Luca Maestri -- Chief Financial Officer" on a line of its own */
+const SPEAKER_HEADING = /^[A-Z][\w.'’-]*(?:\s+[A-Z][\w.'’-]*){0,4}\s+[-–—]{1,2}\s+.{2,80}$/
+
+function isHtml(raw: string, fileName: string): boolean {
+  return /\.html?$/i.test(fileName) || /^\s*(<!doctype html|<html|<\?xml)/i.test(raw)
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(Number.parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&([a-z]+);/gi, (entity, name) => ENTITIES[name.toLowerCase()] ?? entity)
+}
+
+/** Readable text of an HTML, Markdown or plain text document, one paragraph per block */
+export function extractDocumentText(raw: string, fileName = ""): string {
+  let text = raw.replace(/\r\n?/g, "\n")
+  if (isHtml(text, fileName)) {
+    text = decodeEntities(
+      text
+        .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, "")
+        .replace(/<br\s*\/?>/gi, "\n")
+        .replace(/<\/(p|div|tr|li|h[1-6]|table|section)>/gi, "\n\n")
+        .replace(/<\/t[dh]>/gi, " ")
+        .replace(/<[^>]+>/g, ""),
+    )
+  } else if (/\.md$/i.test(fileName)) {
+    text = text.replace(/^#{1,6}\s+/gm, "").replace(/\*\*([^*]+)\*\*/g, "$1")
+  }
+
+  return text
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+interface Paragraph {
+  section: string | null
+  text: string
+}
+
+function filingParagraphs(text: string): Paragraph[] {
+  const paragraphs: Paragraph[] = []
+  let section: string | null = null
+  for (const block of text.split(/\n{2,}/)) {
+    const lines = block.split("\n")
+    // A heading may share its block with the first paragraph when the source has no blank line after it
+    if (ITEM_HEADING.test(lines[0])) {
+      section = lines[0].replace(/\s+/g, " ")
+      lines.shift()
+    }
+    const body = lines.join(" ").trim()
+    if (body) paragraphs.push({ section, text: body })
+  }
+  return paragraphs
+}
+
+function transcriptParagraphs(text: string): Paragraph[] {
+  const paragraphs: Paragraph[] = []
+  let speaker: string | null = null
+  let announced = false
+  for (const line of text.split("\n")) {
+    if (!line) continue
+    const turn = SPEAKER_TURN.exec(line)
+    if (SPEAKER_HEADING.test(line) && !turn) {
+      speaker = line
+      announced = false
+      continue
+    }
+    let body = line
+    if (turn) {
+      speaker = turn[1]
+      announced = false
+      body = turn[2]
+      if (!body) continue
+    }
+    paragraphs.push({ section: speaker, text: speaker && !announced ? `${speaker}: ${body}` : body })
+    announced = true
+  }
+  return paragraphs
+}
+
+/** Pieces of at most maxChars, cut between sentences where possible and between words otherwise */
+function splitLong(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text]
+  const pieces: string[] = []
+  let current = ""
+  for (const sentence of text.match(/[^.!?]+[.!?]*\s*/g) ?? [text]) {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current.trim())
+      current = ""
+    }
+    current += sentence
+    while (current.length > maxChars) {
+      const cut = current.lastIndexOf(" ", maxChars) > maxChars / 2 ? current.lastIndexOf(" ", maxChars) : maxChars
+      pieces.push(current.slice(0, cut).trim())
+      current = current.slice(cut)
+    }
+  }
+  if (current.trim()) pieces.push(current.trim())
+  return pieces
+}
+
+/** Trailing sentences of a chunk, up to overlapChars, carried into the next one */
+function overlapTail(text: string, overlapChars: number): string {
+  if (overlapChars <= 0) return ""
+  if (text.length <= overlapChars) return text
+  const tail = text.slice(-overlapChars)
+  const sentenceStart = tail.search(/[.!?]\s+\S/)
+  if (sentenceStart !== -1) return tail.slice(sentenceStart + 1).trim()
+  const wordStart = tail.indexOf(" ")
+  return wordStart === -1 ? tail : tail.slice(wordStart + 1)
+}
+
+export function chunkDocument(text: string, form: DocumentForm, options: ChunkOptions = {}): DocumentChunk[] {
+  const maxChars = options.maxChars ?? DEFAULT_CHUNK_CHARS
+  const overlapChars = Math.min(options.overlapChars ?? DEFAULT_OVERLAP_CHARS, Math.floor(maxChars / 2))
+  const transcript = form === "transcript"
+  const paragraphs = transcript ? transcriptParagraphs(text) : filingParagraphs(text)
+
+  const chunks: DocumentChunk[] = []
+  let section: string | null = null
+  let current = ""
+  const flush = () => {
+    if (current.trim()) chunks.push({ index: chunks.length, section, text: current.trim() })
+    current = ""
+  }
+
+  for (const paragraph of paragraphs) {
+    if (!transcript && paragraph.section !== section) {
+      flush()
+      section = paragraph.section
+    }
+    for (const piece of splitLong(paragraph.text, maxChars - overlapChars)) {
+      if (current && current.length + piece.length + 2 > maxChars) {
+        const carried = overlapTail(current, overlapChars)
+        flush()
+        current = carried
+      }
+      if (!current) section = paragraph.section
+      current = current ? `${current}\n\n${piece}` : piece
+    }
+  }
+  flush()
+  return chunks
+}
@@ -0,0 +1,122 @@
+import { readFile } from "fs/promises"
+import path from "path"
+import { chunkDocument, extractDocumentText, type ChunkOptions } from "./document-chunker"
+import { getDocumentIndex } from "./document-store"
+import {
+  DocumentError,
+  MAX_DOCUMENT_LENGTH,
+  documentId,
+  normalizeDocumentTicker,
+  normalizeDocumentTitle,
+  normalizeFiledAt,
+  normalizeForm,
+  parseDocumentFileName,
+  type DocumentIndex,
+} from "./documents"
+import { getEmbedder, type Embedder } from "./embeddings"
+import type { SourceDocument } from "./types"
+
+/**
+ * Ingestion: raw filing or transcript text in, chunked and embedded document in the index out. Text comes from
+ * an upload, a request body or a local file, so the whole pipeline can be exercised offline.
+ */
+
+export interface DocumentPipeline {
+  index: DocumentIndex
+  embedder: Embedder
+}
+
+/** The configured index and embedder: Neon or memory, remote or hashing */
+export function defaultPipeline(): DocumentPipeline {
+  return { index: getDocumentIndex(), embedder: getEmbedder() }
+}
+
+export interface DocumentMetadata {
+  ticker?: unknown
+  form?: unknown
+  title?: unknown
+  period?: unknown
+  filedAt?: unknown
+}
+
+export interface IngestDocumentInput extends DocumentMetadata {
+  /** HTML, Markdown or plain text */
+  text: string
+  /** File name or URL; also decides how the text is parsed */
+  source: string
+}
+
+export async function ingestDocument(
+  input: IngestDocumentInput,
+  pipeline: DocumentPipeline = defaultPipeline(),
+  options: ChunkOptions = {},
+): Promise<SourceDocument> {
+  if (typeof input.text !== "string" || !input.text.trim()) throw new DocumentError("Document text is required")
+  if (input.text.length > MAX_DOCUMENT_LENGTH) {
+    throw new DocumentError(`Document must be at most ${MAX_DOCUMENT_LENGTH} characters`, 413)
+  }
+
+  const ticker = normalizeDocumentTicker(input.ticker)
+  const form = normalizeForm(input.form)
+  const period = typeof input.period === "string" && input.period.trim() ? input.period.trim().slice(0, 32) : null
+  const source = input.source.trim() || "upload"
+  const chunks = chunkDocument(extractDocumentText(input.text, source), form, options)
+  if (chunks.length === 0) throw new DocumentError("Document has no text to index")
+
+  // The heading goes into the embedded text so a question about "risk factors" finds chunks under that item
+  const embeddings = await pipeline.embedder.embed(
+    chunks.map((chunk) => (chunk.section ? `${chunk.section}\n${chunk.text}` : chunk.text)),
+  )
+
+  return pipeline.index.replaceDocument(
+    {
+      id: documentId(ticker, form, period, source),
+      ticker,
+      form,
+      title: normalizeDocumentTitle(input.title, [ticker, form, period].filter(Boolean).join(" ")),
+      period,
+      filedAt: normalizeFiledAt(input.filedAt),
+      source,
+      embedder: pipeline.embedder.name,
+    },
+    chunks.map((chunk, i) => ({ ...chunk, embedding: embeddings[i] })),
+  )
+}
+
+/**
+ * Ingest a file from disk. Ticker, form and period default to what the file name says
+ * (`<TICKER>_<FORM>_<PERIOD>.<ext>`); explicit metadata wins.
+ */
+export async function ingestFile(
+  filePath: string,
+  metadata: DocumentMetadata = {},
+  pipeline: DocumentPipeline = defaultPipeline(),
+): Promise<SourceDocument> {
+  let text: string
+  try {
+    text = await readFile(filePath, "utf8")
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new DocumentError(`File not found: ${path.basename(filePath)}`, 404)
+    }
+    throw error
+  }
+
+  const source = path.basename(filePath)
+  const defined = Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined && value !== ""))
+  return ingestDocument({ ...parseDocumentFileName(source), ...defined, text, source }, pipeline)
+}
+
+/**
+ * Absolute path of a file under DOCUMENTS_DIR, the only place the API reads local files from. Rejects paths
+ * that would leave the directory.
+ */
+export function resolveDocumentPath(relativePath: unknown, env: Record<string, string | undefined> = process.env) {
+  if (!env.DOCUMENTS_DIR) throw new DocumentError("Set DOCUMENTS_DIR to ingest files from the server")
+  if (typeof relativePath !== "string" || !relativePath.trim()) throw new DocumentError("path is required")
+
+  const root = path.resolve(env.DOCUMENTS_DIR)
+  const resolved = path.resolve(root, relativePath.trim())
+  if (!resolved.startsWith(root + path.sep)) throw new DocumentError("path must stay inside DOCUMENTS_DIR")
+  return resolved
+}
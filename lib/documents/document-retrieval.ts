@@ -0,0 +1,76 @@
+import { defaultPipeline, type DocumentPipeline } from "./document-ingest"
+import type { DocumentCitation, DocumentForm, RetrievedPassage } from "./types"
+
+/**
+ * Retrieval for prompts: the passages closest to a question, numbered so the model can cite them as [n] and the
+ * UI can list the same numbers as sources.
+ */
+
+export const DEFAULT_PASSAGE_LIMIT = 5
+/** Below this similarity a passage shares next to nothing with the question and is left out */
+const MIN_SCORE = 0.05
+/** Characters of each passage shown in the citation list */
+const EXCERPT_LENGTH = 240
+
+/** Question a stock analysis is grounded with: what the company reported about results, outlook and risks */
+export const ANALYSIS_QUERY =
+  "revenue growth, operating margin and segment results; management outlook and guidance; key risk factors"
+
+export interface RetrievalFilter {
+  ticker?: string
+  forms?: DocumentForm[]
+  limit?: number
+}
+
+export async function retrievePassages(
+  query: string,
+  filter: RetrievalFilter = {},
+  pipeline: DocumentPipeline = defaultPipeline(),
+): Promise<RetrievedPassage[]> {
+  if (!query.trim()) return []
+  const [embedding] = await pipeline.embedder.embed([query])
+  const passages = await pipeline.index.search(embedding, {
+    embedder: pipeline.embedder.name,
+    ticker: filter.ticker?.toUpperCase(),
+    forms: filter.forms,
+    limit: filter.limit ?? DEFAULT_PASSAGE_LIMIT,
+  })
+  return passages.filter((passage) => passage.score >= MIN_SCORE)
+}
+
+/** "AAPL 10-K FY2024, Item 1A. Risk Factors" */
+export function citationLabel(citation: Pick<DocumentCitation, "ticker" | "form" | "period" | "section">): string {
+  const document = [citation.ticker, citation.form, citation.period].filter(Boolean).join(" ")
+  return citation.section ? `${document}, ${citation.section}` : document
+}
+
+export function toCitations(passages: RetrievedPassage[]): DocumentCitation[] {
+  return passages.map(({ document, chunk }, i) => ({
+    ref: i + 1,
+    documentId: document.id,
+    ticker: document.ticker,
+    form: document.form,
+    title: document.title,
+    period: document.period,
+    section: chunk.section,
+    source: document.source,
+    excerpt: chunk.text.length > EXCERPT_LENGTH ? `${chunk.text.slice(0, EXCERPT_LENGTH).trimEnd()}...` : chunk.text,
+  }))
+}
+
+/**
+ * Prompt block quoting the passages under their [n] markers, with the instruction to cite them. Empty when
+ * there are no passages, so callers can append it unconditionally.
+ */
+export function filingContext(passages: RetrievedPassage[]): string {
+  if (passages.length === 0) return ""
+  const quoted = toCitations(passages).map(
+    (citation, i) => `[${citation.ref}] ${citationLabel(citation)}\n${passages[i].chunk.text}`,
+  )
+  return [
+    "Excerpts from SEC filings and earnings call transcripts:",
+    ...quoted,
+    "When a statement relies on an excerpt, cite it with its marker, e.g. [1]. Cite only these excerpts and do " +
+      "not invent figures they do not contain.",
+  ].join("\n\n")
+}
@@ -0,0 +1,217 @@
+import { getSql } from "@/lib/db/sql"
+import type { DocumentIndex, DocumentSearchFilter } from "./documents"
+import type { DocumentForm, EmbeddedChunk, RetrievedPassage, SourceDocument } from "./types"
+
+/**
+ * Document vector index
+ *
+ * With DATABASE_URL, documents and their chunk embeddings live in Neon and are searched with pgvector's cosine
+ * distance. The embedding column has no fixed dimension so a remote embedder can be swapped in; searches only
+ * ever compare vectors of one embedder. Without a database the index is kept in process memory and is empty
+ * again after a restart.
+ */
+
+/** Chunks inserted per statement */
+const INSERT_BATCH = 50
+
+let tablesReady: Promise<void> | null = null
+
+export function ensureDocumentTables(): Promise<void> {
+  if (!tablesReady) {
+    const sql = getSql()
+    tablesReady = sql`CREATE EXTENSION IF NOT EXISTS vector`
+      .then(
+        () => sql`
+          CREATE TABLE IF NOT EXISTS documents (
+            id VARCHAR(120) PRIMARY KEY,
+            ticker VARCHAR(16) NOT NULL,
+            form VARCHAR(16) NOT NULL,
+            title VARCHAR(200) NOT NULL,
+            period VARCHAR(32),
+            filed_at DATE,
+            source TEXT NOT NULL,
+            embedder VARCHAR(120) NOT NULL,
+            chunk_count INTEGER NOT NULL DEFAULT 0,
+            ingested_at TIMESTAMP DEFAULT NOW()
+          )
+        `,
+      )
+      .then(
+        () => sql`
+          CREATE TABLE IF NOT EXISTS document_chunks (
+            id SERIAL PRIMARY KEY,
+            document_id VARCHAR(120) NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+            chunk_index INTEGER NOT NULL,
+            section TEXT,
+            content TEXT NOT NULL,
+            embedding vector NOT NULL
+          )
+        `,
+      )
+      .then(() => sql`CREATE INDEX IF NOT EXISTS idx_documents_ticker ON documents (ticker, form)`)
+      .then(() => sql`CREATE INDEX IF NOT EXISTS idx_document_chunks_document ON document_chunks (document_id)`)
+      .then(() => undefined)
+      .catch((error) => {
+        tablesReady = null
+        throw error
+      })
+  }
+  return tablesReady
+}
+
+function vectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(",")}]`
+}
+
+export const neonDocumentIndex: DocumentIndex = {
+  async listDocuments(filter = {}) {
+    await ensureDocumentTables()
+    const sql = getSql()
+    const rows = await sql`
+      SELECT * FROM documents
+      WHERE (${filter.ticker ?? null}::text IS NULL OR ticker = ${filter.ticker ?? null})
+        AND (${filter.form ?? null}::text IS NULL OR form = ${filter.form ?? null})
+      ORDER BY filed_at DESC NULLS LAST, ingested_at DESC
+    `
+    return rows.map(mapDocument)
+  },
+
+  async getDocument(id) {
+    await ensureDocumentTables()
+    const sql = getSql()
+    const rows = await sql`SELECT * FROM documents WHERE id = ${id}`
+    return rows.length > 0 ? mapDocument(rows[0]) : null
+  },
+
+  async replaceDocument(document, chunks) {
+    await ensureDocumentTables()
+    const sql = getSql()
+    await sql`DELETE FROM documents WHERE id = ${document.id}`
+    const rows = await sql`
+      INSERT INTO documents (id, ticker, form, title, period, filed_at, source, embedder, chunk_count)
+      VALUES (${document.id}, ${document.ticker}, ${document.form}, ${document.title}, ${document.period},
+        ${document.filedAt}, ${document.source}, ${document.embedder}, ${chunks.length})
+      RETURNING *
+    `
+    for (let start = 0; start < chunks.length; start += INSERT_BATCH) {
+      const batch = chunks.slice(start, start + INSERT_BATCH)
+      await sql`
+        INSERT INTO document_chunks (document_id, chunk_index, section, content, embedding)
+        SELECT ${document.id}, t.chunk_index, t.section, t.content, t.embedding::vector
+        FROM unnest(
+          ${batch.map((chunk) => chunk.index)}::int[],
+          ${batch.map((chunk) => chunk.section)}::text[],
+          ${batch.map((chunk) => chunk.text)}::text[],
+          ${batch.map((chunk) => vectorLiteral(chunk.embedding))}::text[]
+        ) AS t(chunk_index, section, content, embedding)
+      `
+    }
+    return mapDocument(rows[0])
+  },
+
+  async deleteDocument(id) {
+    await ensureDocumentTables()
+    const sql = getSql()
+    const rows = await sql`DELETE FROM documents WHERE id = ${id} RETURNING id`
+    return rows.length > 0
+  },
+
+  async search(embedding, filter) {
+    await ensureDocumentTables()
+    const sql = getSql()
+    const query = vectorLiteral(embedding)
+    const forms = filter.forms && filter.forms.length > 0 ? filter.forms : null
+    const rows = await sql`
+      SELECT d.*, c.chunk_index, c.section, c.content, 1 - (c.embedding <=> ${query}::vector) AS score
+      FROM document_chunks c
+      JOIN documents d ON d.id = c.document_id
+      WHERE d.embedder = ${filter.embedder}
+        AND (${filter.ticker ?? null}::text IS NULL OR d.ticker = ${filter.ticker ?? null})
+        AND (${forms}::text[] IS NULL OR d.form = ANY(${forms}::text[]))
+      ORDER BY c.embedding <=> ${query}::vector
+      LIMIT ${filter.limit}
+    `
+    return rows.map((row: any) => ({
+      document: mapDocument(row),
+      chunk: { index: row.chunk_index, section: row.section ?? null, text: row.content },
+      score: Number(row.score),
+    }))
+  },
+}
+
+function cosine(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0
+}
+
+/** Same contract as the Neon index with a linear scan; used without DATABASE_URL and in tests */
+export class MemoryDocumentIndex implements DocumentIndex {
+  private documents = new Map<string, { document: SourceDocument; chunks: EmbeddedChunk[] }>()
+
+  async listDocuments(filter: { ticker?: string; form?: DocumentForm } = {}) {
+    return Array.from(this.documents.values())
+      .map((entry) => entry.document)
+      .filter((document) => !filter.ticker || document.ticker === filter.ticker)
+      .filter((document) => !filter.form || document.form === filter.form)
+      .sort((a, b) => (b.filedAt ?? "").localeCompare(a.filedAt ?? "") || b.ingestedAt.localeCompare(a.ingestedAt))
+      .map((document) => ({ ...document }))
+  }
+
+  async getDocument(id: string) {
+    const entry = this.documents.get(id)
+    return entry ? { ...entry.document } : null
+  }
+
+  async replaceDocument(document: Omit<SourceDocument, "chunkCount" | "ingestedAt">, chunks: EmbeddedChunk[]) {
+    const stored: SourceDocument = { ...document, chunkCount: chunks.length, ingestedAt: new Date().toISOString() }
+    this.documents.set(document.id, { document: stored, chunks: chunks.map((chunk) => ({ ...chunk })) })
+    return { ...stored }
+  }
+
+  async deleteDocument(id: string) {
+    return this.documents.delete(id)
+  }
+
+  async search(embedding: number[], filter: DocumentSearchFilter): Promise<RetrievedPassage[]> {
+    const passages: RetrievedPassage[] = []
+    this.documents.forEach(({ document, chunks }) => {
+      if (document.embedder !== filter.embedder) return
+      if (filter.ticker && document.ticker !== filter.ticker) return
+      if (filter.forms && filter.forms.length > 0 && !filter.forms.includes(document.form)) return
+      for (const { embedding: vector, ...chunk } of chunks) {
+        passages.push({ document: { ...document }, chunk, score: cosine(embedding, vector) })
+      }
+    })
+    return passages.sort((a, b) => b.score - a.score).slice(0, filter.limit)
+  }
+}
+
+const memoryIndex = new MemoryDocumentIndex()
+
+/** Neon when a database is configured, otherwise the process-wide in-memory index */
+export function getDocumentIndex(): DocumentIndex {
+  return process.env.DATABASE_URL ? neonDocumentIndex : memoryIndex
+}
+
+function mapDocument(row: any): SourceDocument {
+  return {
+    id: row.id,
+    ticker: row.ticker,
+    form: row.form,
+    title: row.title,
+    period: row.period ?? null,
+    filedAt: row.filed_at ? new Date(row.filed_at).toISOString().slice(0, 10) : null,
+    source: row.source,
+    embedder: row.embedder,
+    chunkCount: Number(row.chunk_count),
+    ingestedAt: new Date(row.ingested_at).toISOString(),
+  }
+}
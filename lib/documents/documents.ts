@@ -0,0 +1,96 @@
+import type { DocumentForm, EmbeddedChunk, RetrievedPassage, SourceDocument } from "./types"
+
+/**
+ * Document rules shared by the ingestion pipeline, the Neon index and the in-process fallback
+ */
+
+export class DocumentError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "DocumentError"
+  }
+}
+
+export const DOCUMENT_FORMS: DocumentForm[] = ["10-K", "10-Q", "8-K", "transcript"]
+/** Largest document text accepted for ingestion, about two long annual reports */
+export const MAX_DOCUMENT_LENGTH = 2_000_000
+const MAX_TITLE_LENGTH = 200
+
+export interface DocumentSearchFilter {
+  /** Only chunks embedded by this embedder are comparable with the query vector */
+  embedder: string
+  ticker?: string
+  forms?: DocumentForm[]
+  limit: number
+}
+
+export interface DocumentIndex {
+  /** Most recently filed first, optionally only one ticker or form */
+  listDocuments(filter?: { ticker?: string; form?: DocumentForm }): Promise<SourceDocument[]>
+  getDocument(id: string): Promise<SourceDocument | null>
+  /** Store a document with its chunks, dropping any earlier version with the same id */
+  replaceDocument(
+    document: Omit<SourceDocument, "chunkCount" | "ingestedAt">,
+    chunks: EmbeddedChunk[],
+  ): Promise<SourceDocument>
+  deleteDocument(id: string): Promise<boolean>
+  /** Chunks closest to the embedding, best first */
+  search(embedding: number[], filter: DocumentSearchFilter): Promise<RetrievedPassage[]>
+}
+
+export function normalizeForm(form: unknown): DocumentForm {
+  const value = typeof form === "string" ? form.trim() : ""
+  const match = DOCUMENT_FORMS.find((candidate) => candidate.toLowerCase() === value.toLowerCase())
+  if (!match) throw new DocumentError(`form must be one of ${DOCUMENT_FORMS.join(", ")}`)
+  return match
+}
+
+export function normalizeDocumentTicker(ticker: unknown): string {
+  const symbol = typeof ticker === "string" ? ticker.trim().toUpperCase() : ""
+  if (!/^[A-Z0-9.^=-]{1,16}$/.test(symbol)) throw new DocumentError(`Invalid ticker: ${ticker ?? ""}`)
+  return symbol
+}
+
+export function normalizeDocumentTitle(title: unknown, fallback: string): string {
+  const trimmed = typeof title === "string" ? title.trim().replace(/\s+/g, " ") : ""
+  return (trimmed || fallback).slice(0, MAX_TITLE_LENGTH)
+}
+
+/** YYYY-MM-DD, or null for none */
+export function normalizeFiledAt(filedAt: unknown): string | null {
+  if (filedAt === undefined || filedAt === null || filedAt === "") return null
+  const date = typeof filedAt === "string" ? new Date(filedAt) : null
+  if (!date || Number.isNaN(date.getTime())) throw new DocumentError(`Invalid filing date: ${filedAt}`)
+  return date.toISOString().slice(0, 10)
+}
+
+/** e.g. "acme-10-k-fy2024"; the source name stands in for the period when none is known */
+export function documentId(ticker: string, form: DocumentForm, period: string | null, source: string): string {
+  const key = period || source.replace(/\.[a-z0-9]+$/i, "")
+  return `${ticker}-${form}-${key}`
+    .toLowerCase()
+    .replace(/[^a-z0-9.]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 120)
+}
+
+/**
+ * Metadata from a file named `<TICKER>_<FORM>_<PERIOD>.<ext>`, e.g. `AAPL_10-K_FY2024.htm` or
+ * `MSFT_transcript_2024-Q4.txt`. Other names yield nothing and the caller supplies ticker and form.
+ */
+export function parseDocumentFileName(fileName: string): { ticker?: string; form?: DocumentForm; period?: string } {
+  const [ticker, form, ...period] = fileName.replace(/\.[a-z0-9]+$/i, "").split("_")
+  const result: { ticker?: string; form?: DocumentForm; period?: string } = {}
+  if (form === undefined) return result
+  try {
+    result.ticker = normalizeDocumentTicker(ticker)
+    result.form = normalizeForm(form)
+  } catch {
+    return {}
+  }
+  if (period.length > 0) result.period = period.join("_")
+  return result
+}
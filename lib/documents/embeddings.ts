@@ -0,0 +1,142 @@
+import { DocumentError } from "./documents"
+
+/**
+ * Text embedders for the document index
+ *
+ * With EMBEDDING_BASE_URL set, chunks and queries are embedded by any server speaking the OpenAI embeddings API
+ * (a local Ollama or llama.cpp server, vLLM, OpenAI itself). Without it a hashing embedder runs in process: it
+ * maps words and word pairs onto a fixed-size vector, so retrieval works offline and in tests, matching on
+ * shared vocabulary rather than meaning. Vectors of different embedders are never compared; documents record
+ * the embedder that indexed them and must be ingested again after switching.
+ */
+
+export interface Embedder {
+  /** Stored with each document; search only considers documents indexed by the same embedder */
+  readonly name: string
+  /** One unit-length vector per text, in order */
+  embed(texts: string[]): Promise<number[][]>
+}
+
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be been but by for from has have in into is it its of on or our so that the their " +
+    "there these this those to was we were what when which while will with would you your"
+  ).split(" "),
+)
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:[.'][a-z0-9]+)*/g) ?? [])
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token))
+    .map((token) => {
+      if (token.length > 4 && token.endsWith("ies")) return `${token.slice(0, -3)}y`
+      if (token.length > 3 && token.endsWith("s") && !token.endsWith("ss")) return token.slice(0, -1)
+      return token
+    })
+}
+
+/** 32-bit FNV-1a */
+function hash(text: string): number {
+  let value = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i)
+    value = Math.imul(value, 0x01000193)
+  }
+  return value >>> 0
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return norm > 0 ? vector.map((value) => value / norm) : vector
+}
+
+/** Feature hashing over words and adjacent word pairs, log-scaled term counts */
+export class HashingEmbedder implements Embedder {
+  readonly name: string
+
+  constructor(private dimensions = 512) {
+    this.name = `hashing-${dimensions}`
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text))
+  }
+
+  private embedOne(text: string): number[] {
+    const counts = new Map<string, number>()
+    const tokens = tokenize(text)
+    tokens.forEach((token, i) => {
+      counts.set(token, (counts.get(token) ?? 0) + 1)
+      if (i > 0) counts.set(`${tokens[i - 1]} ${token}`, (counts.get(`${tokens[i - 1]} ${token}`) ?? 0) + 0.5)
+    })
+
+    const vector = new Array<number>(this.dimensions).fill(0)
+    counts.forEach((count, feature) => {
+      const h = hash(feature)
+      const weight = count >= 1 ? 1 + Math.log(count) : count
+      vector[h % this.dimensions] += h & 0x80000000 ? -weight : weight
+    })
+    return normalize(vector)
+  }
+}
+
+export interface OpenAICompatibleEmbedderOptions {
+  /** Base URL up to and including the version segment, e.g. http://localhost:11434/v1 */
+  baseUrl: string
+  model: string
+  apiKey?: string
+  /** Texts per request */
+  batchSize?: number
+}
+
+export class OpenAICompatibleEmbedder implements Embedder {
+  readonly name: string
+
+  constructor(private options: OpenAICompatibleEmbedderOptions) {
+    this.name = `openai-compatible:${options.model}`
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const batchSize = this.options.batchSize ?? 64
+    const vectors: number[][] = []
+    for (let start = 0; start < texts.length; start += batchSize) {
+      vectors.push(...(await this.embedBatch(texts.slice(start, start + batchSize))))
+    }
+    return vectors
+  }
+
+  private async embedBatch(input: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.options.baseUrl.replace(/\/+$/, "")}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: this.options.model, input }),
+    })
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "")
+      throw new DocumentError(`Embedding request failed (${response.status}): ${detail.slice(0, 200)}`, 502)
+    }
+
+    const data = await response.json()
+    const rows: { index?: number; embedding: number[] }[] = Array.isArray(data.data) ? data.data : []
+    if (rows.length !== input.length || rows.some((row) => !Array.isArray(row.embedding))) {
+      throw new DocumentError("Embedding response did not match the request", 502)
+    }
+    return [...rows]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map((row) => normalize(row.embedding.map(Number)))
+  }
+}
+
+/** The remote embedder when EMBEDDING_BASE_URL is set, otherwise the in-process hashing embedder */
+export function getEmbedder(env: Record<string, string | undefined> = process.env): Embedder {
+  if (env.EMBEDDING_BASE_URL) {
+    return new OpenAICompatibleEmbedder({
+      baseUrl: env.EMBEDDING_BASE_URL,
+      model: env.EMBEDDING_MODEL || "nomic-embed-text",
+      apiKey: env.EMBEDDING_API_KEY,
+    })
+  }
+  return new HashingEmbedder()
+}
@@ -0,0 +1,59 @@
+/**
+ * Filing and transcript retrieval contracts
+ *
+ * A SourceDocument is one ingested 10-K, 10-Q, 8-K or earnings call transcript. Its text is split into
+ * DocumentChunks, each embedded and stored in a DocumentIndex. Retrieval returns the chunks closest to a
+ * question as RetrievedPassages, which prompts quote by number and the UI lists as DocumentCitations.
+ */
+
+export type DocumentForm = "10-K" | "10-Q" | "8-K" | "transcript"
+
+export interface SourceDocument {
+  /** Stable per ticker, form and period, so ingesting the same filing again replaces it */
+  id: string
+  ticker: string
+  form: DocumentForm
+  title: string
+  /** Fiscal period covered, e.g. "FY2024" or "2024-Q3"; null when unknown */
+  period: string | null
+  /** YYYY-MM-DD */
+  filedAt: string | null
+  /** File name or URL the text came from */
+  source: string
+  /** Embedder whose vectors the chunks carry; only chunks of the active embedder are searched */
+  embedder: string
+  chunkCount: number
+  ingestedAt: string
+}
+
+export interface DocumentChunk {
+  index: number
+  /** Heading the chunk falls under: "Item 1A. Risk Factors" for filings, the speaker for transcripts */
+  section: string | null
+  text: string
+}
+
+export interface EmbeddedChunk extends DocumentChunk {
+  embedding: number[]
+}
+
+export interface RetrievedPassage {
+  document: SourceDocument
+  chunk: DocumentChunk
+  /** Cosine similarity to the query, 1 being identical */
+  score: number
+}
+
+export interface DocumentCitation {
+  /** The [n] marker used for this passage in the prompt */
+  ref: number
+  documentId: string
+  ticker: string
+  form: DocumentForm
+  title: string
+  period: string | null
+  section: string | null
+  source: string
+  /** Start of the passage, for display */
+  excerpt: string
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+
+/**
+ * Error responses shared by the JSON API routes
+ *
+ * Each feature throws its own error class carrying an HTTP status, e.g. PortfolioError; routes answer those with
+ * the status and message as-is. A body that is not valid JSON is the client's fault and gets a 400. Anything else
+ * is logged and reported as a 500.
+ */
+
+export type StatusErrorClass = new (message: string, status?: number) => Error & { status: number }
+
+export function errorResponse(error: unknown, message: string, ...known: StatusErrorClass[]) {
+  if (known.some((ErrorClass) => error instanceof ErrorClass)) {
+    const { message: detail, status } = error as Error & { status: number }
+    return NextResponse.json({ error: detail }, { status })
+  }
+  // request.json() rejects with a SyntaxError on a malformed body
+  if (error instanceof SyntaxError) {
+    return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 })
+  }
+  console.error(`${message}:`, error)
+  return NextResponse.json(
+    { error: message, message: error instanceof Error ? error.message : "Unknown error" },
+    { status: 500 },
+  )
+}
+
+/** Positive integer id from a route segment; anything else is rejected with the feature's error class */
+export function parseRouteId(value: string, label: string, ErrorClass: StatusErrorClass): number {
+  const id = Number.parseInt(value)
+  if (!Number.isInteger(id) || id <= 0) throw new ErrorClass(`Invalid ${label} id`)
+  return id
+}
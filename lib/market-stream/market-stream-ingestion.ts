@@ -0,0 +1,118 @@
+import { QuoteHub } from "@/lib/real-time/quote-hub"
+import { MinuteBarAggregator } from "./minute-bar-aggregator"
+import { configuredTradeFeeds } from "./trade-feeds"
+import { TradeStreamConnection, type TradeStreamOptions } from "./trade-stream"
+import type { MinuteBar, Trade, TradeFeed } from "./types"
+
+export interface IngestionOptions extends TradeStreamOptions {
+  /** How often bars whose minute has ended are closed without waiting for the next trade */
+  flushIntervalMs?: number
+  graceMs?: number
+}
+
+/** The trade streams used here carry US equities; crypto pairs like BTC-USD stay on REST polling */
+const STREAMABLE_SYMBOL = /^[A-Z][A-Z.]{0,9}$/
+
+interface FeedIngestion {
+  connection: TradeStreamConnection
+  aggregator: MinuteBarAggregator
+}
+
+/**
+ * Server-side trade ingestion
+ *
+ * Keeps a websocket to every configured provider for the tickers the quote hub is serving, folds trades into
+ * 1-minute bars and publishes each completed bar as a quote. All feeds stay connected so a drop fails over
+ * at once, but only bars from the first feed in preference order that is currently open are published, so
+ * the same trades are not counted twice.
+ */
+export class MarketStreamIngestion {
+  private static instance: MarketStreamIngestion
+  private feeds: FeedIngestion[]
+  private flushTimer?: ReturnType<typeof setInterval>
+  private unsubscribeTickers: (() => void) | null = null
+  private flushIntervalMs: number
+
+  constructor(
+    private hub: QuoteHub,
+    feedFactories: (() => TradeFeed)[],
+    options: IngestionOptions = {},
+  ) {
+    this.flushIntervalMs = options.flushIntervalMs ?? 1000
+    this.feeds = feedFactories.map((createFeed, index) => ({
+      aggregator: new MinuteBarAggregator(options.graceMs),
+      connection: new TradeStreamConnection(createFeed, (trades) => this.handleTrades(index, trades), options),
+    }))
+  }
+
+  static getInstance(): MarketStreamIngestion {
+    if (!MarketStreamIngestion.instance) {
+      MarketStreamIngestion.instance = new MarketStreamIngestion(QuoteHub.getInstance(), configuredTradeFeeds())
+    }
+    return MarketStreamIngestion.instance
+  }
+
+  get isRunning(): boolean {
+    return this.unsubscribeTickers !== null
+  }
+
+  /** Start following the hub's tickers. Does nothing when no provider key is configured or already running. */
+  start(): boolean {
+    if (this.isRunning || this.feeds.length === 0) return this.isRunning
+
+    this.unsubscribeTickers = this.hub.onTickersChange((tickers) => this.follow(tickers))
+    this.follow(this.hub.activeTickers())
+    this.flushTimer = setInterval(() => this.flush(), this.flushIntervalMs)
+    return true
+  }
+
+  stop(): void {
+    this.unsubscribeTickers?.()
+    this.unsubscribeTickers = null
+    clearInterval(this.flushTimer)
+    this.feeds.forEach(({ connection }) => connection.stop())
+  }
+
+  /** Close bars whose minute has ended; exposed for callers that drive time themselves */
+  flush(now = Date.now()): MinuteBar[] {
+    return this.feeds.flatMap(({ aggregator }, index) => this.publish(index, aggregator.flush(now)))
+  }
+
+  private follow(tickers: string[]): void {
+    const symbols = tickers.filter((ticker) => STREAMABLE_SYMBOL.test(ticker))
+    this.feeds.forEach(({ connection }) => connection.setSymbols(symbols))
+  }
+
+  private handleTrades(index: number, trades: Trade[]): void {
+    const { aggregator } = this.feeds[index]
+    const completed = trades.flatMap((trade) => aggregator.add(trade) ?? [])
+    this.publish(index, completed)
+  }
+
+  private publish(index: number, bars: MinuteBar[]): MinuteBar[] {
+    const primary = this.feeds.findIndex(({ connection }) => connection.status === "open")
+    if (index !== primary) return []
+
+    for (const bar of bars) {
+      // Change is measured from the previous close implied by the last quote; volume adds onto its day total
+      const last = this.hub.latestQuote(bar.symbol)
+      const previousClose = last ? last.price - last.change : bar.open
+      const change = bar.close - previousClose
+      this.hub.publish({
+        ticker: bar.symbol,
+        price: bar.close,
+        change,
+        changePercent: previousClose > 0 ? (change / previousClose) * 100 : 0,
+        volume: (last?.volume ?? 0) + bar.volume,
+        timestamp: new Date(Date.parse(bar.start) + 60 * 1000).toISOString(),
+        source: `${this.feedName(index)}-stream`,
+        bar,
+      })
+    }
+    return bars
+  }
+
+  private feedName(index: number): string {
+    return this.feeds[index].connection.feedName ?? "trade"
+  }
+}
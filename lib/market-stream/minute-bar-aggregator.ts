@@ -0,0 +1,63 @@
+import type { MinuteBar, Trade } from "./types"
+
+const MINUTE_MS = 60 * 1000
+
+/**
+ * Folds trades into 1-minute OHLCV bars per symbol. A bar is emitted once a trade for a later minute arrives
+ * or `flush` is called after the minute (plus a grace period for late prints) has ended. Trades for a minute
+ * that was already emitted are dropped rather than reopening the bar.
+ */
+export class MinuteBarAggregator {
+  private open = new Map<string, MinuteBar>()
+  private lastEmitted = new Map<string, number>()
+
+  constructor(private graceMs = 2000) {}
+
+  /** Add a trade, returning the bar it completed, if any */
+  add(trade: Trade): MinuteBar | null {
+    if (!(trade.price > 0) || !(trade.size >= 0)) return null
+    const symbol = trade.symbol.toUpperCase()
+    const minute = Math.floor(trade.timestamp / MINUTE_MS) * MINUTE_MS
+    if (minute <= (this.lastEmitted.get(symbol) ?? -Infinity)) return null
+
+    const current = this.open.get(symbol)
+    if (current && Date.parse(current.start) === minute) {
+      current.high = Math.max(current.high, trade.price)
+      current.low = Math.min(current.low, trade.price)
+      current.close = trade.price
+      current.volume += trade.size
+      current.trades++
+      return null
+    }
+    // A trade from an earlier minute than the open bar is late; leave the open bar alone
+    if (current && Date.parse(current.start) > minute) return null
+
+    const completed = current ? this.emit(current) : null
+    this.open.set(symbol, {
+      symbol,
+      start: new Date(minute).toISOString(),
+      open: trade.price,
+      high: trade.price,
+      low: trade.price,
+      close: trade.price,
+      volume: trade.size,
+      trades: 1,
+    })
+    return completed
+  }
+
+  /** Emit every bar whose minute ended at least `graceMs` before `now` */
+  flush(now = Date.now()): MinuteBar[] {
+    const completed: MinuteBar[] = []
+    for (const bar of this.open.values()) {
+      if (Date.parse(bar.start) + MINUTE_MS + this.graceMs <= now) completed.push(this.emit(bar))
+    }
+    return completed
+  }
+
+  private emit(bar: MinuteBar): MinuteBar {
+    this.open.delete(bar.symbol)
+    this.lastEmitted.set(bar.symbol, Date.parse(bar.start))
+    return bar
+  }
+}
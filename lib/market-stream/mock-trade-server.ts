@@ -0,0 +1,183 @@
+import { createServer, type IncomingMessage, type Server } from "node:http"
+import type { AddressInfo, Socket } from "node:net"
+import { createHash } from "node:crypto"
+import type { Trade, TradeFeedName } from "./types"
+
+/**
+ * Mock trade stream server
+ *
+ * A websocket server on 127.0.0.1 that speaks either the Finnhub or the Polygon trade stream dialect: it
+ * answers the handshake, records what clients send, acknowledges Polygon authentication and pushes trades
+ * in the provider's message format. Tests and local development point FINNHUB_WS_URL / POLYGON_WS_URL at
+ * it instead of the real services.
+ */
+
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11"
+
+export interface MockClient {
+  /** Path and query the client connected with, e.g. /?token=... */
+  path: string
+  /** Parsed JSON messages received from the client */
+  messages: any[]
+}
+
+export class MockTradeServer {
+  readonly clients: MockClient[] = []
+  private sockets = new Map<MockClient, Socket>()
+  private server: Server | null = null
+  url = ""
+
+  constructor(private dialect: TradeFeedName) {}
+
+  async start(): Promise<string> {
+    this.server = createServer((_request, response) => response.writeHead(426).end("Upgrade Required"))
+    this.server.on("upgrade", (request, socket) => this.accept(request, socket as Socket))
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve))
+    this.url = `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`
+    return this.url
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return
+    this.dropConnections()
+    await new Promise<void>((resolve, reject) => this.server!.close((error) => (error ? reject(error) : resolve())))
+    this.server = null
+  }
+
+  /** Clients whose socket is still open */
+  get connectedClients(): MockClient[] {
+    return [...this.sockets.keys()]
+  }
+
+  /** Push trades to every connected client in this server's dialect */
+  sendTrades(trades: Trade[]): void {
+    const payload =
+      this.dialect === "finnhub"
+        ? {
+            type: "trade",
+            data: trades.map((trade) => ({ s: trade.symbol, p: trade.price, v: trade.size, t: trade.timestamp })),
+          }
+        : trades.map((trade) => ({ ev: "T", sym: trade.symbol, p: trade.price, s: trade.size, t: trade.timestamp }))
+    this.broadcast(payload)
+  }
+
+  broadcast(payload: unknown): void {
+    this.sockets.forEach((socket) => socket.write(encodeFrame(JSON.stringify(payload))))
+  }
+
+  /** Kill every connection without a close handshake, as a network drop would */
+  dropConnections(): void {
+    this.sockets.forEach((socket) => socket.destroy())
+    this.sockets.clear()
+  }
+
+  /** Resolve once some client message satisfies `predicate` */
+  async waitForMessage(predicate: (message: any) => boolean, timeoutMs = 2000): Promise<any> {
+    const deadline = Date.now() + timeoutMs
+    for (;;) {
+      const found = this.clients.flatMap((client) => client.messages).find(predicate)
+      if (found) return found
+      if (Date.now() > deadline) throw new Error("Timed out waiting for a client message")
+      await new Promise((resolve) => setTimeout(resolve, 20))
+    }
+  }
+
+  private accept(request: IncomingMessage, socket: Socket): void {
+    const key = request.headers["sec-websocket-key"]
+    if (typeof key !== "string") {
+      socket.end("HTTP/1.1 400 Bad Request\r\n\r\n")
+      return
+    }
+
+    const accept = createHash("sha1").update(key + WEBSOCKET_GUID).digest("base64")
+    socket.write(
+      "HTTP/1.1 101 Switching Protocols\r\n" +
+        "Upgrade: websocket\r\n" +
+        "Connection: Upgrade\r\n" +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+    )
+
+    const client: MockClient = { path: request.url ?? "/", messages: [] }
+    this.clients.push(client)
+    this.sockets.set(client, socket)
+    if (this.dialect === "polygon") socket.write(encodeFrame(JSON.stringify([{ ev: "status", status: "connected" }])))
+
+    let buffered = Buffer.alloc(0)
+    socket.on("data", (chunk: Buffer) => {
+      buffered = Buffer.concat([buffered, chunk])
+      for (let frame = decodeFrame(buffered); frame; frame = decodeFrame(buffered)) {
+        buffered = buffered.subarray(frame.length)
+        this.handleFrame(client, socket, frame.opcode, frame.payload)
+      }
+    })
+    socket.on("close", () => this.sockets.delete(client))
+    socket.on("error", () => this.sockets.delete(client))
+  }
+
+  private handleFrame(client: MockClient, socket: Socket, opcode: number, payload: Buffer): void {
+    if (opcode === 0x8) {
+      socket.end(encodeFrame(payload, 0x8))
+      this.sockets.delete(client)
+      return
+    }
+    if (opcode === 0x9) {
+      socket.write(encodeFrame(payload, 0xa))
+      return
+    }
+    if (opcode !== 0x1) return
+
+    const message = JSON.parse(payload.toString("utf8"))
+    client.messages.push(message)
+    if (this.dialect === "polygon" && message.action === "auth") {
+      socket.write(encodeFrame(JSON.stringify([{ ev: "status", status: "auth_success", message: "authenticated" }])))
+    }
+  }
+}
+
+/** Server frames are final and unmasked */
+function encodeFrame(data: string | Buffer, opcode = 0x1): Buffer {
+  const payload = typeof data === "string" ? Buffer.from(data, "utf8") : data
+  let header: Buffer
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length])
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4)
+    header[0] = 0x80 | opcode
+    header[1] = 126
+    header.writeUInt16BE(payload.length, 2)
+  } else {
+    header = Buffer.alloc(10)
+    header[0] = 0x80 | opcode
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(payload.length), 2)
+  }
+  return Buffer.concat([header, payload])
+}
+
+/** Decode one complete client frame from the front of `buffer`, or null if more bytes are needed */
+function decodeFrame(buffer: Buffer): { opcode: number; payload: Buffer; length: number } | null {
+  if (buffer.length < 2) return null
+  const opcode = buffer[0] & 0x0f
+  const masked = (buffer[1] & 0x80) !== 0
+  let payloadLength = buffer[1] & 0x7f
+  let offset = 2
+
+  if (payloadLength === 126) {
+    if (buffer.length < 4) return null
+    payloadLength = buffer.readUInt16BE(2)
+    offset = 4
+  } else if (payloadLength === 127) {
+    if (buffer.length < 10) return null
+    payloadLength = Number(buffer.readBigUInt64BE(2))
+    offset = 10
+  }
+
+  const maskLength = masked ? 4 : 0
+  if (buffer.length < offset + maskLength + payloadLength) return null
+  const mask = buffer.subarray(offset, offset + maskLength)
+  const payload = Buffer.from(buffer.subarray(offset + maskLength, offset + maskLength + payloadLength))
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4]
+  }
+  return { opcode, payload, length: offset + maskLength + payloadLength }
+}
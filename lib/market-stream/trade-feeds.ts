@@ -0,0 +1,92 @@
+import type { Trade, TradeFeed, TradeFeedName } from "./types"
+
+/**
+ * Finnhub and Polygon trade stream dialects
+ *
+ * Finnhub authenticates with a token in the URL and takes one subscribe message per symbol. Polygon sends a
+ * status greeting, expects an auth message and only accepts subscriptions after `auth_success`.
+ */
+
+export const FINNHUB_STREAM_URL = "wss://ws.finnhub.io"
+export const POLYGON_STREAM_URL = "wss://socket.polygon.io/stocks"
+
+export function finnhubFeed(apiKey: string, baseUrl = FINNHUB_STREAM_URL): TradeFeed {
+  return {
+    name: "finnhub",
+    url: `${baseUrl}?token=${encodeURIComponent(apiKey)}`,
+    onOpen(context) {
+      this.subscribe(context, context.symbols)
+    },
+    onMessage(data) {
+      const message = JSON.parse(data)
+      if (message.type !== "trade" || !Array.isArray(message.data)) return []
+      return message.data.map((trade: any) => ({
+        symbol: String(trade.s),
+        price: Number(trade.p),
+        size: Number(trade.v ?? 0),
+        timestamp: Number(trade.t),
+      }))
+    },
+    subscribe(context, symbols) {
+      symbols.forEach((symbol) => context.send({ type: "subscribe", symbol }))
+    },
+    unsubscribe(context, symbols) {
+      symbols.forEach((symbol) => context.send({ type: "unsubscribe", symbol }))
+    },
+  }
+}
+
+export function polygonFeed(apiKey: string, url = POLYGON_STREAM_URL): TradeFeed {
+  let authenticated = false
+  const params = (symbols: string[]) => symbols.map((symbol) => `T.${symbol}`).join(",")
+
+  return {
+    name: "polygon",
+    url,
+    onOpen(context) {
+      context.send({ action: "auth", params: apiKey })
+    },
+    onMessage(data, context) {
+      const messages = JSON.parse(data)
+      const trades: Trade[] = []
+      for (const message of Array.isArray(messages) ? messages : [messages]) {
+        if (message.ev === "status" && message.status === "auth_success") {
+          authenticated = true
+          this.subscribe(context, context.symbols)
+        } else if (message.ev === "status" && message.status === "auth_failed") {
+          throw new Error(`Polygon stream authentication failed: ${message.message ?? "unknown reason"}`)
+        } else if (message.ev === "T") {
+          trades.push({
+            symbol: String(message.sym),
+            price: Number(message.p),
+            size: Number(message.s ?? 0),
+            timestamp: Number(message.t),
+          })
+        }
+      }
+      return trades
+    },
+    subscribe(context, symbols) {
+      if (authenticated && symbols.length > 0) context.send({ action: "subscribe", params: params(symbols) })
+    },
+    unsubscribe(context, symbols) {
+      if (authenticated && symbols.length > 0) context.send({ action: "unsubscribe", params: params(symbols) })
+    },
+  }
+}
+
+/**
+ * Feed factories for providers with an API key, in preference order. MARKET_STREAM_PROVIDERS narrows or
+ * reorders them (e.g. "finnhub"); FINNHUB_WS_URL and POLYGON_WS_URL point a feed at another server.
+ */
+export function configuredTradeFeeds(env: Record<string, string | undefined> = process.env): (() => TradeFeed)[] {
+  const available: Partial<Record<TradeFeedName, () => TradeFeed>> = {}
+  if (env.POLYGON_API_KEY) available.polygon = () => polygonFeed(env.POLYGON_API_KEY!, env.POLYGON_WS_URL)
+  if (env.FINNHUB_API_KEY) available.finnhub = () => finnhubFeed(env.FINNHUB_API_KEY!, env.FINNHUB_WS_URL)
+
+  const order = (env.MARKET_STREAM_PROVIDERS ?? "polygon,finnhub")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean) as TradeFeedName[]
+  return order.flatMap((name) => available[name] ?? [])
+}
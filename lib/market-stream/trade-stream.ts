@@ -0,0 +1,139 @@
+import WebSocket from "ws"
+import type { FeedContext, Trade, TradeFeed, WebSocketFactory } from "./types"
+
+export interface TradeStreamOptions {
+  /** Defaults to a `ws` client */
+  createSocket?: WebSocketFactory
+  initialBackoffMs?: number
+  maxBackoffMs?: number
+}
+
+export type TradeStreamStatus = "idle" | "connecting" | "open" | "reconnecting" | "stopped"
+
+/**
+ * One provider websocket with reconnects. The connection is only opened while there are symbols to follow;
+ * after a drop it reconnects with exponential backoff (reset once a connection opens) and resubscribes.
+ */
+export class TradeStreamConnection {
+  private socket: WebSocket | null = null
+  private symbols = new Set<string>()
+  private feed: TradeFeed | null = null
+  private attempts = 0
+  private reconnectTimer?: ReturnType<typeof setTimeout>
+  private state: TradeStreamStatus = "idle"
+  private createSocket: WebSocketFactory
+  private initialBackoffMs: number
+  private maxBackoffMs: number
+
+  constructor(
+    private createFeed: () => TradeFeed,
+    private onTrades: (trades: Trade[], feed: TradeFeed) => void,
+    options: TradeStreamOptions = {},
+  ) {
+    this.createSocket = options.createSocket ?? ((url) => new WebSocket(url))
+    this.initialBackoffMs = options.initialBackoffMs ?? 1000
+    this.maxBackoffMs = options.maxBackoffMs ?? 30000
+  }
+
+  get status(): TradeStreamStatus {
+    return this.state
+  }
+
+  get feedName(): string | undefined {
+    return this.feed?.name
+  }
+
+  /** Follow exactly `symbols`, connecting or sending (un)subscribe messages as needed */
+  setSymbols(symbols: string[]): void {
+    const next = new Set(symbols.map((symbol) => symbol.toUpperCase()))
+    const added = [...next].filter((symbol) => !this.symbols.has(symbol))
+    const removed = [...this.symbols].filter((symbol) => !next.has(symbol))
+    this.symbols = next
+    if (this.state === "stopped") return
+
+    if (next.size === 0) {
+      this.disconnect("idle")
+    } else if (!this.socket && this.state !== "reconnecting") {
+      this.connect()
+    } else if (this.state === "open" && this.feed) {
+      if (removed.length > 0) this.feed.unsubscribe(this.context(), removed)
+      if (added.length > 0) this.feed.subscribe(this.context(), added)
+    }
+  }
+
+  stop(): void {
+    this.disconnect("stopped")
+  }
+
+  private connect(): void {
+    const feed = this.createFeed()
+    this.feed = feed
+    this.state = "connecting"
+
+    let socket: WebSocket
+    try {
+      socket = this.createSocket(feed.url)
+    } catch (error: any) {
+      console.warn(`Non-critical: ${feed.name} stream could not connect:`, error.message)
+      this.scheduleReconnect()
+      return
+    }
+    this.socket = socket
+
+    socket.addEventListener("open", () => {
+      if (this.socket !== socket) return
+      this.state = "open"
+      this.attempts = 0
+      feed.onOpen(this.context())
+    })
+    socket.addEventListener("message", (event) => {
+      if (this.socket !== socket || typeof event.data !== "string") return
+      try {
+        const trades = feed.onMessage(event.data, this.context())
+        if (trades.length > 0) this.onTrades(trades, feed)
+      } catch (error: any) {
+        console.warn(`Non-critical: ${feed.name} stream message rejected:`, error.message)
+      }
+    })
+    socket.addEventListener("close", () => {
+      if (this.socket !== socket) return
+      this.socket = null
+      this.scheduleReconnect()
+    })
+    // An error is always followed by close, which handles the reconnect
+    socket.addEventListener("error", () => {})
+  }
+
+  private scheduleReconnect(): void {
+    if (this.symbols.size === 0) {
+      this.state = "idle"
+      return
+    }
+
+    const delay = Math.min(this.initialBackoffMs * 2 ** this.attempts, this.maxBackoffMs)
+    this.attempts++
+    this.state = "reconnecting"
+    this.reconnectTimer = setTimeout(() => {
+      if (this.state === "reconnecting") this.connect()
+    }, delay)
+  }
+
+  private disconnect(state: TradeStreamStatus): void {
+    clearTimeout(this.reconnectTimer)
+    const socket = this.socket
+    this.socket = null
+    this.feed = null
+    this.state = state
+    socket?.close()
+  }
+
+  private context(): FeedContext {
+    const socket = this.socket
+    return {
+      symbols: [...this.symbols],
+      send: (payload) => {
+        if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(payload))
+      },
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import type WebSocket from "ws"
+
+/**
+ * Trade stream contracts
+ *
+ * Providers push individual trades over a websocket; the ingestion service folds them into 1-minute bars and
+ * publishes each completed bar to the quote hub.
+ */
+
+export type TradeFeedName = "finnhub" | "polygon"
+
+export interface Trade {
+  symbol: string
+  price: number
+  size: number
+  /** Exchange timestamp in epoch milliseconds */
+  timestamp: number
+}
+
+export interface MinuteBar {
+  symbol: string
+  /** ISO start of the minute, e.g. 2025-06-02T14:31:00.000Z */
+  start: string
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+  trades: number
+}
+
+/** Lets a feed write to its socket without knowing about connection state */
+export interface FeedContext {
+  send(payload: unknown): void
+  /** Symbols the connection should currently be subscribed to */
+  symbols: string[]
+}
+
+/**
+ * Provider dialect for one websocket connection. A new instance is created for every (re)connect, so
+ * handshake state such as Polygon's authentication can live in the instance.
+ */
+export interface TradeFeed {
+  name: TradeFeedName
+  url: string
+  onOpen(context: FeedContext): void
+  /** Parse a frame into trades, answering control messages through `context` as needed */
+  onMessage(data: string, context: FeedContext): Trade[]
+  subscribe(context: FeedContext, symbols: string[]): void
+  unsubscribe(context: FeedContext, symbols: string[]): void
+}
+
+export type WebSocketFactory = (url: string) => WebSocket
@@ -0,0 +1,236 @@
+import type {
+  Holdings,
+  LotMethod,
+  NewTransaction,
+  PortfolioTransaction,
+  PortfolioValuation,
+  Position,
+  RealizedGain,
+  TaxLot,
+  TransactionType,
+} from "./types"
+
+/**
+ * Portfolio ledger replay
+ *
+ * Pure functions that turn a transaction history into cash, open tax lots and realized gains.
+ * Buys open a lot at price plus fee; sells close lots in the portfolio's lot order and book the gain
+ * against each lot's own cost. Cash is allowed to go negative, which reads as margin or a deposit
+ * that was never recorded, but selling more shares than are held is rejected.
+ */
+
+export class PortfolioError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "PortfolioError"
+  }
+}
+
+export const TRANSACTION_TYPES: TransactionType[] = ["buy", "sell", "deposit", "withdrawal", "dividend"]
+export const LOT_METHODS: LotMethod[] = ["fifo", "lifo", "hifo"]
+
+const LONG_TERM_DAYS = 365
+/** Share counts below this are treated as zero so fractional sells do not leave dust lots */
+const SHARE_EPSILON = 1e-9
+
+/** Check and normalize a transaction from a request body. Throws PortfolioError on bad input. */
+export function normalizeTransaction(input: NewTransaction): Omit<PortfolioTransaction, "id"> {
+  if (!TRANSACTION_TYPES.includes(input.type)) {
+    throw new PortfolioError(`Transaction type must be one of ${TRANSACTION_TYPES.join(", ")}`)
+  }
+
+  const executedAt = input.executedAt ? new Date(input.executedAt) : new Date()
+  if (Number.isNaN(executedAt.getTime())) {
+    throw new PortfolioError("executedAt must be a valid date")
+  }
+
+  const fee = Number(input.fee ?? 0)
+  if (!Number.isFinite(fee) || fee < 0) {
+    throw new PortfolioError("fee must be a non-negative number")
+  }
+
+  const base = {
+    type: input.type,
+    fee,
+    executedAt: executedAt.toISOString(),
+    note: input.note?.trim() || undefined,
+  }
+
+  if (input.type === "deposit" || input.type === "withdrawal" || input.type === "dividend") {
+    const amount = Number(input.amount)
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new PortfolioError(`${input.type} requires a positive amount`)
+    }
+    const ticker = input.type === "dividend" ? normalizeTicker(input.ticker) : null
+    return { ...base, ticker, shares: 0, price: 0, amount }
+  }
+
+  const shares = Number(input.shares)
+  const price = Number(input.price)
+  if (!Number.isFinite(shares) || shares <= 0) {
+    throw new PortfolioError(`${input.type} requires a positive share count`)
+  }
+  if (!Number.isFinite(price) || price <= 0) {
+    throw new PortfolioError(`${input.type} requires a positive price`)
+  }
+  return { ...base, ticker: normalizeTicker(input.ticker), shares, price, amount: 0 }
+}
+
+function normalizeTicker(ticker: string | null | undefined): string {
+  const symbol = typeof ticker === "string" ? ticker.trim().toUpperCase() : ""
+  if (!/^[A-Z0-9.\-]{1,10}$/.test(symbol)) {
+    throw new PortfolioError("A valid ticker is required")
+  }
+  return symbol
+}
+
+/** Open lots in the order a sell should consume them */
+function orderLots(lots: TaxLot[], method: LotMethod): TaxLot[] {
+  if (method === "lifo") return [...lots].reverse()
+  if (method === "hifo") return [...lots].sort((a, b) => b.costPerShare - a.costPerShare)
+  return lots
+}
+
+/**
+ * Replay transactions in execution order. Throws PortfolioError (409) when a sell exceeds the shares
+ * held at that point, which also guards deletes and back-dated entries that would break the history.
+ */
+export function replayTransactions(transactions: PortfolioTransaction[], lotMethod: LotMethod = "fifo"): Holdings {
+  const ordered = [...transactions].sort(
+    (a, b) => new Date(a.executedAt).getTime() - new Date(b.executedAt).getTime() || a.id - b.id,
+  )
+
+  const lotsByTicker = new Map<string, TaxLot[]>()
+  const realized: RealizedGain[] = []
+  let cash = 0
+  let dividends = 0
+  let netContributions = 0
+
+  for (const tx of ordered) {
+    switch (tx.type) {
+      case "deposit":
+        cash += tx.amount
+        netContributions += tx.amount
+        break
+      case "withdrawal":
+        cash -= tx.amount
+        netContributions -= tx.amount
+        break
+      case "dividend":
+        cash += tx.amount
+        dividends += tx.amount
+        break
+      case "buy": {
+        const ticker = tx.ticker!
+        cash -= tx.shares * tx.price + tx.fee
+        const lots = lotsByTicker.get(ticker) ?? []
+        lots.push({
+          transactionId: tx.id,
+          ticker,
+          shares: tx.shares,
+          costPerShare: (tx.shares * tx.price + tx.fee) / tx.shares,
+          acquiredAt: tx.executedAt,
+        })
+        lotsByTicker.set(ticker, lots)
+        break
+      }
+      case "sell": {
+        const ticker = tx.ticker!
+        const lots = lotsByTicker.get(ticker) ?? []
+        const held = lots.reduce((sum, lot) => sum + lot.shares, 0)
+        if (tx.shares > held + SHARE_EPSILON) {
+          throw new PortfolioError(
+            `Cannot sell ${tx.shares} ${ticker} on ${tx.executedAt.split("T")[0]}: only ${held} held`,
+            409,
+          )
+        }
+
+        cash += tx.shares * tx.price - tx.fee
+        const proceedsPerShare = (tx.shares * tx.price - tx.fee) / tx.shares
+        let remaining = tx.shares
+
+        for (const lot of orderLots(lots, lotMethod)) {
+          if (remaining <= SHARE_EPSILON) break
+          const closed = Math.min(lot.shares, remaining)
+          const heldDays = (new Date(tx.executedAt).getTime() - new Date(lot.acquiredAt).getTime()) / 86400000
+          realized.push({
+            ticker,
+            shares: closed,
+            proceeds: closed * proceedsPerShare,
+            costBasis: closed * lot.costPerShare,
+            gain: closed * (proceedsPerShare - lot.costPerShare),
+            acquiredAt: lot.acquiredAt,
+            soldAt: tx.executedAt,
+            term: heldDays > LONG_TERM_DAYS ? "long" : "short",
+          })
+          lot.shares -= closed
+          remaining -= closed
+        }
+
+        lotsByTicker.set(
+          ticker,
+          lots.filter((lot) => lot.shares > SHARE_EPSILON),
+        )
+        break
+      }
+    }
+  }
+
+  const positions: Position[] = []
+  for (const [ticker, lots] of lotsByTicker) {
+    if (lots.length === 0) continue
+    const shares = lots.reduce((sum, lot) => sum + lot.shares, 0)
+    const costBasis = lots.reduce((sum, lot) => sum + lot.shares * lot.costPerShare, 0)
+    positions.push({ ticker, shares, costBasis, averageCost: costBasis / shares, lots })
+  }
+  positions.sort((a, b) => a.ticker.localeCompare(b.ticker))
+
+  return {
+    cash,
+    positions,
+    realized,
+    realizedGain: realized.reduce((sum, gain) => sum + gain.gain, 0),
+    dividends,
+    netContributions,
+  }
+}
+
+/** Mark holdings to market. Positions without a price are carried at average cost and flagged. */
+export function valueHoldings(
+  holdings: Holdings,
+  prices: Record<string, number>,
+  now = new Date(),
+): PortfolioValuation {
+  const marked = holdings.positions.map((position) => {
+    const quoted = prices[position.ticker]
+    const priced = Number.isFinite(quoted) && quoted > 0
+    const price = priced ? quoted : position.averageCost
+    return { ...position, price, priced, marketValue: position.shares * price }
+  })
+
+  const marketValue = marked.reduce((sum, position) => sum + position.marketValue, 0)
+  const totalValue = marketValue + holdings.cash
+  const costBasis = holdings.positions.reduce((sum, position) => sum + position.costBasis, 0)
+
+  return {
+    cash: holdings.cash,
+    positions: marked.map((position) => ({
+      ...position,
+      unrealizedGain: position.marketValue - position.costBasis,
+      unrealizedGainPercent:
+        position.costBasis > 0 ? ((position.marketValue - position.costBasis) / position.costBasis) * 100 : 0,
+      allocation: totalValue > 0 ? (position.marketValue / totalValue) * 100 : 0,
+    })),
+    marketValue,
+    totalValue,
+    costBasis,
+    unrealizedGain: marketValue - costBasis,
+    realizedGain: holdings.realizedGain,
+    dividends: holdings.dividends,
+    netContributions: holdings.netContributions,
+    valuedAt: now.toISOString(),
+  }
+}
@@ -0,0 +1,286 @@
+import { getSql } from "@/lib/db/sql"
+import { MultiSourceStockClient } from "@/lib/api/multi-source-client"
+import { LOT_METHODS, PortfolioError, normalizeTransaction, replayTransactions, valueHoldings } from "./ledger"
+import type {
+  LotMethod,
+  NewTransaction,
+  Portfolio,
+  PortfolioDetail,
+  PortfolioTransaction,
+  PortfolioValuation,
+} from "./types"
+
+/**
+ * Portfolio persistence
+ *
+ * Portfolios and their transaction ledgers live in Neon, scoped by the anonymous owner id from
+ * lib/auth/owner. Every write replays the ledger with the change applied before committing it,
+ * so the stored history always reconstructs to valid holdings.
+ */
+
+const MAX_NAME_LENGTH = 80
+
+let tablesReady: Promise<void> | null = null
+
+export function ensurePortfolioTables(): Promise<void> {
+  if (!tablesReady) {
+    const sql = getSql()
+    tablesReady = sql`
+      CREATE TABLE IF NOT EXISTS portfolios (
+        id SERIAL PRIMARY KEY,
+        owner_id VARCHAR(64) NOT NULL,
+        name VARCHAR(80) NOT NULL,
+        lot_method VARCHAR(8) NOT NULL DEFAULT 'fifo',
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `
+      .then(
+        () => sql`
+          CREATE TABLE IF NOT EXISTS portfolio_transactions (
+            id SERIAL PRIMARY KEY,
+            portfolio_id INTEGER NOT NULL REFERENCES portfolios(id) ON DELETE CASCADE,
+            type VARCHAR(16) NOT NULL,
+            ticker VARCHAR(16),
+            shares NUMERIC NOT NULL DEFAULT 0,
+            price NUMERIC NOT NULL DEFAULT 0,
+            amount NUMERIC NOT NULL DEFAULT 0,
+            fee NUMERIC NOT NULL DEFAULT 0,
+            executed_at TIMESTAMP NOT NULL,
+            note TEXT,
+            created_at TIMESTAMP DEFAULT NOW()
+          )
+        `,
+      )
+      .then(() => sql`CREATE INDEX IF NOT EXISTS idx_portfolios_owner ON portfolios (owner_id)`)
+      .then(
+        () => sql`
+          CREATE INDEX IF NOT EXISTS idx_portfolio_transactions_portfolio
+          ON portfolio_transactions (portfolio_id, executed_at)
+        `,
+      )
+      .then(() => undefined)
+      .catch((error) => {
+        tablesReady = null
+        throw error
+      })
+  }
+  return tablesReady
+}
+
+export function normalizePortfolioName(name: unknown): string {
+  const trimmed = typeof name === "string" ? name.trim() : ""
+  if (!trimmed || trimmed.length > MAX_NAME_LENGTH) {
+    throw new PortfolioError(`Portfolio name must be 1-${MAX_NAME_LENGTH} characters`)
+  }
+  return trimmed
+}
+
+export function normalizeLotMethod(method: unknown): LotMethod {
+  if (method === undefined || method === null) return "fifo"
+  if (!LOT_METHODS.includes(method as LotMethod)) {
+    throw new PortfolioError(`lotMethod must be one of ${LOT_METHODS.join(", ")}`)
+  }
+  return method as LotMethod
+}
+
+/** Portfolios for an owner with their replayed holdings, newest first */
+export async function listPortfolios(ownerId: string): Promise<PortfolioDetail[]> {
+  await ensurePortfolioTables()
+  const sql = getSql()
+  const [portfolioRows, transactionRows] = await Promise.all([
+    sql`SELECT * FROM portfolios WHERE owner_id = ${ownerId} ORDER BY created_at DESC`,
+    sql`
+      SELECT t.* FROM portfolio_transactions t
+      JOIN portfolios p ON p.id = t.portfolio_id
+      WHERE p.owner_id = ${ownerId}
+    `,
+  ])
+
+  return portfolioRows.map((row: any) => {
+    const portfolio = mapPortfolio(row)
+    const transactions = transactionRows
+      .filter((tx: any) => tx.portfolio_id === row.id)
+      .map(mapTransaction)
+      .sort(byExecution)
+    return { ...portfolio, transactions, holdings: replayTransactions(transactions, portfolio.lotMethod) }
+  })
+}
+
+export async function getPortfolio(ownerId: string, id: number): Promise<PortfolioDetail | null> {
+  await ensurePortfolioTables()
+  const sql = getSql()
+  const rows = await sql`SELECT * FROM portfolios WHERE id = ${id} AND owner_id = ${ownerId}`
+  if (rows.length === 0) return null
+
+  const portfolio = mapPortfolio(rows[0])
+  const transactions = await loadTransactions(id)
+  return { ...portfolio, transactions, holdings: replayTransactions(transactions, portfolio.lotMethod) }
+}
+
+/** Create a portfolio, recording any starting cash as its first deposit */
+export async function createPortfolio(
+  ownerId: string,
+  input: { name: unknown; lotMethod?: unknown; initialCash?: unknown },
+): Promise<PortfolioDetail> {
+  const name = normalizePortfolioName(input.name)
+  const lotMethod = normalizeLotMethod(input.lotMethod)
+  const initialCash = Number(input.initialCash ?? 0)
+  if (!Number.isFinite(initialCash) || initialCash < 0) {
+    throw new PortfolioError("initialCash must be a non-negative number")
+  }
+
+  await ensurePortfolioTables()
+  const sql = getSql()
+  const rows = await sql`
+    INSERT INTO portfolios (owner_id, name, lot_method)
+    VALUES (${ownerId}, ${name}, ${lotMethod})
+    RETURNING *
+  `
+  const id = rows[0].id
+
+  if (initialCash > 0) {
+    await insertTransaction(id, normalizeTransaction({ type: "deposit", amount: initialCash, note: "Initial cash" }))
+  }
+  return (await getPortfolio(ownerId, id))!
+}
+
+export async function updatePortfolio(
+  ownerId: string,
+  id: number,
+  input: { name?: unknown; lotMethod?: unknown },
+): Promise<PortfolioDetail | null> {
+  const existing = await getPortfolio(ownerId, id)
+  if (!existing) return null
+
+  const name = input.name === undefined ? existing.name : normalizePortfolioName(input.name)
+  const lotMethod = input.lotMethod === undefined ? existing.lotMethod : normalizeLotMethod(input.lotMethod)
+
+  const sql = getSql()
+  await sql`
+    UPDATE portfolios SET name = ${name}, lot_method = ${lotMethod}, updated_at = NOW()
+    WHERE id = ${id} AND owner_id = ${ownerId}
+  `
+  return getPortfolio(ownerId, id)
+}
+
+export async function deletePortfolio(ownerId: string, id: number): Promise<boolean> {
+  await ensurePortfolioTables()
+  const sql = getSql()
+  const rows = await sql`DELETE FROM portfolios WHERE id = ${id} AND owner_id = ${ownerId} RETURNING id`
+  return rows.length > 0
+}
+
+/** Record a transaction after checking the ledger still replays with it in place */
+export async function addTransaction(
+  ownerId: string,
+  portfolioId: number,
+  input: NewTransaction,
+): Promise<PortfolioDetail> {
+  const portfolio = await getPortfolio(ownerId, portfolioId)
+  if (!portfolio) throw new PortfolioError("Portfolio not found", 404)
+
+  const transaction = normalizeTransaction(input)
+  // Ties on execution time sort by id, so the pending entry goes after everything already recorded
+  replayTransactions([...portfolio.transactions, { ...transaction, id: Number.MAX_SAFE_INTEGER }], portfolio.lotMethod)
+
+  await insertTransaction(portfolioId, transaction)
+  await touchPortfolio(portfolioId)
+  return (await getPortfolio(ownerId, portfolioId))!
+}
+
+/** Remove a transaction unless a later sell depends on the shares it bought */
+export async function deleteTransaction(
+  ownerId: string,
+  portfolioId: number,
+  transactionId: number,
+): Promise<PortfolioDetail> {
+  const portfolio = await getPortfolio(ownerId, portfolioId)
+  if (!portfolio) throw new PortfolioError("Portfolio not found", 404)
+  if (!portfolio.transactions.some((tx) => tx.id === transactionId)) {
+    throw new PortfolioError("Transaction not found", 404)
+  }
+
+  replayTransactions(
+    portfolio.transactions.filter((tx) => tx.id !== transactionId),
+    portfolio.lotMethod,
+  )
+
+  const sql = getSql()
+  await sql`DELETE FROM portfolio_transactions WHERE id = ${transactionId} AND portfolio_id = ${portfolioId}`
+  await touchPortfolio(portfolioId)
+  return (await getPortfolio(ownerId, portfolioId))!
+}
+
+/** Mark a portfolio to market with current quotes; unquoted positions stay at average cost */
+export async function valuePortfolio(
+  portfolio: PortfolioDetail,
+  client: MultiSourceStockClient = new MultiSourceStockClient(),
+): Promise<PortfolioValuation> {
+  const quotes = await Promise.all(
+    portfolio.holdings.positions.map(async (position) => {
+      try {
+        const quote = await client.getQuote(position.ticker, false)
+        return [position.ticker, quote.currentPrice] as const
+      } catch (error) {
+        console.warn(`Non-critical: No quote for ${position.ticker}, using cost basis:`, error)
+        return [position.ticker, Number.NaN] as const
+      }
+    }),
+  )
+  return valueHoldings(portfolio.holdings, Object.fromEntries(quotes))
+}
+
+async function loadTransactions(portfolioId: number): Promise<PortfolioTransaction[]> {
+  const sql = getSql()
+  const rows = await sql`
+    SELECT * FROM portfolio_transactions
+    WHERE portfolio_id = ${portfolioId}
+    ORDER BY executed_at ASC, id ASC
+  `
+  return rows.map(mapTransaction)
+}
+
+async function insertTransaction(portfolioId: number, tx: Omit<PortfolioTransaction, "id">): Promise<void> {
+  const sql = getSql()
+  await sql`
+    INSERT INTO portfolio_transactions (portfolio_id, type, ticker, shares, price, amount, fee, executed_at, note)
+    VALUES (
+      ${portfolioId}, ${tx.type}, ${tx.ticker}, ${tx.shares}, ${tx.price}, ${tx.amount}, ${tx.fee},
+      ${tx.executedAt}, ${tx.note ?? null}
+    )
+  `
+}
+
+async function touchPortfolio(portfolioId: number): Promise<void> {
+  const sql = getSql()
+  await sql`UPDATE portfolios SET updated_at = NOW() WHERE id = ${portfolioId}`
+}
+
+function byExecution(a: PortfolioTransaction, b: PortfolioTransaction): number {
+  return new Date(a.executedAt).getTime() - new Date(b.executedAt).getTime() || a.id - b.id
+}
+
+function mapPortfolio(row: any): Portfolio {
+  return {
+    id: row.id,
+    name: row.name,
+    lotMethod: row.lot_method,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  }
+}
+
+function mapTransaction(row: any): PortfolioTransaction {
+  return {
+    id: row.id,
+    type: row.type,
+    ticker: row.ticker,
+    shares: Number(row.shares),
+    price: Number(row.price),
+    amount: Number(row.amount),
+    fee: Number(row.fee),
+    executedAt: new Date(row.executed_at).toISOString(),
+    note: row.note ?? undefined,
+  }
+}
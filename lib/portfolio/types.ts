@@ -0,0 +1,117 @@
+/**
+ * Portfolio contracts
+ *
+ * A portfolio is an append-only ledger of transactions. Cash, open tax lots, cost basis and realized
+ * gains are never stored directly; they are rebuilt by replaying the ledger, so a corrected or deleted
+ * transaction can never leave holdings out of step with the history that produced them.
+ */
+
+export type TransactionType = "buy" | "sell" | "deposit" | "withdrawal" | "dividend"
+
+/** Order in which open lots are consumed by a sell */
+export type LotMethod = "fifo" | "lifo" | "hifo"
+
+export interface PortfolioTransaction {
+  id: number
+  type: TransactionType
+  /** Required for buy, sell and dividend; null for cash movements */
+  ticker: string | null
+  /** Share count for buy and sell; 0 otherwise */
+  shares: number
+  /** Price per share for buy and sell; 0 otherwise */
+  price: number
+  /** Cash amount for deposit, withdrawal and dividend; 0 for trades, whose amount is shares x price */
+  amount: number
+  fee: number
+  /** ISO date the trade or transfer settled */
+  executedAt: string
+  note?: string
+}
+
+export interface NewTransaction {
+  type: TransactionType
+  ticker?: string | null
+  shares?: number
+  price?: number
+  amount?: number
+  fee?: number
+  executedAt?: string
+  note?: string
+}
+
+export interface TaxLot {
+  /** Id of the buy transaction that opened the lot */
+  transactionId: number
+  ticker: string
+  shares: number
+  /** Cost per share including the buy's fee */
+  costPerShare: number
+  acquiredAt: string
+}
+
+export interface RealizedGain {
+  ticker: string
+  shares: number
+  proceeds: number
+  costBasis: number
+  gain: number
+  acquiredAt: string
+  soldAt: string
+  /** Held more than a year */
+  term: "short" | "long"
+}
+
+export interface Position {
+  ticker: string
+  shares: number
+  costBasis: number
+  averageCost: number
+  lots: TaxLot[]
+}
+
+export interface Holdings {
+  cash: number
+  positions: Position[]
+  realized: RealizedGain[]
+  realizedGain: number
+  dividends: number
+  /** Net cash deposited minus withdrawn */
+  netContributions: number
+}
+
+export interface ValuedPosition extends Position {
+  price: number
+  /** False when no quote was available and the position is marked at average cost */
+  priced: boolean
+  marketValue: number
+  unrealizedGain: number
+  unrealizedGainPercent: number
+  /** Share of total portfolio value including cash, 0-100 */
+  allocation: number
+}
+
+export interface PortfolioValuation {
+  cash: number
+  positions: ValuedPosition[]
+  marketValue: number
+  totalValue: number
+  costBasis: number
+  unrealizedGain: number
+  realizedGain: number
+  dividends: number
+  netContributions: number
+  valuedAt: string
+}
+
+export interface Portfolio {
+  id: number
+  name: string
+  lotMethod: LotMethod
+  createdAt: string
+  updatedAt: string
+}
+
+export interface PortfolioDetail extends Portfolio {
+  transactions: PortfolioTransaction[]
+  holdings: Holdings
+}
@@ -0,0 +1,150 @@
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { createDecipheriv, createECDH, createPublicKey, randomBytes, verify } from "node:crypto"
+import { deriveContentKeys } from "./web-push"
+import type { PushNotification, PushSubscriptionInput } from "./types"
+
+/**
+ * Local push service stand-in
+ *
+ * An HTTP server on 127.0.0.1 that plays the browser vendor's push service: it hands out subscriptions
+ * with real key pairs, checks each request's VAPID signature, decrypts the payload and records it. Tests
+ * use it to exercise delivery end to end without a browser or network access.
+ */
+
+export interface ReceivedPush {
+  endpoint: string
+  notification: PushNotification
+  ttl: number
+  urgency: string | null
+  /** `sub` claim of the VAPID token */
+  subject: string
+}
+
+interface LocalSubscription {
+  privateKey: Buffer
+  publicKey: Buffer
+  authSecret: Buffer
+  /** Status to answer with instead of accepting, e.g. 410 for an expired subscription */
+  status: number | null
+}
+
+export class LocalPushService {
+  readonly received: ReceivedPush[] = []
+  private subscriptions = new Map<string, LocalSubscription>()
+  private server: Server | null = null
+  private origin = ""
+
+  async start(): Promise<void> {
+    this.server = createServer((request, response) => {
+      const chunks: Buffer[] = []
+      request.on("data", (chunk) => chunks.push(chunk))
+      request.on("end", () => {
+        const { status, message } = this.handle(request.url ?? "", request.headers, Buffer.concat(chunks))
+        response.writeHead(status, { "Content-Type": "text/plain" }).end(message)
+      })
+    })
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve))
+    this.origin = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return
+    await new Promise<void>((resolve, reject) => this.server!.close((error) => (error ? reject(error) : resolve())))
+    this.server = null
+  }
+
+  /** A subscription as PushManager would return it, delivering to this server */
+  subscribe(): PushSubscriptionInput {
+    if (!this.server) throw new Error("LocalPushService is not started")
+    const ecdh = createECDH("prime256v1")
+    const publicKey = ecdh.generateKeys()
+    const authSecret = randomBytes(16)
+    const endpoint = `${this.origin}/push/${randomBytes(8).toString("hex")}`
+    this.subscriptions.set(endpoint, { privateKey: ecdh.getPrivateKey(), publicKey, authSecret, status: null })
+    return { endpoint, keys: { p256dh: publicKey.toString("base64url"), auth: authSecret.toString("base64url") } }
+  }
+
+  /** Make the push service reject an endpoint from now on */
+  respondWith(endpoint: string, status: number): void {
+    const subscription = this.subscriptions.get(endpoint)
+    if (subscription) subscription.status = status
+  }
+
+  private handle(path: string, headers: Record<string, any>, body: Buffer): { status: number; message: string } {
+    const endpoint = `${this.origin}${path}`
+    const subscription = this.subscriptions.get(endpoint)
+    if (!subscription) return { status: 404, message: "Unknown subscription" }
+    if (subscription.status) return { status: subscription.status, message: "Rejected by test" }
+    if (headers["content-encoding"] !== "aes128gcm") return { status: 415, message: "Unsupported encoding" }
+
+    const subject = this.verifyVapid(headers.authorization)
+    if (!subject) return { status: 403, message: "Invalid VAPID authorization" }
+
+    try {
+      const notification = JSON.parse(decrypt(body, subscription).toString("utf8"))
+      this.received.push({
+        endpoint,
+        notification,
+        ttl: Number(headers.ttl),
+        urgency: headers.urgency ?? null,
+        subject,
+      })
+      return { status: 201, message: "" }
+    } catch (error) {
+      return { status: 400, message: `Could not decrypt payload: ${(error as Error).message}` }
+    }
+  }
+
+  /** The token's `sub` when the signature, audience and expiry check out */
+  private verifyVapid(authorization: unknown): string | null {
+    const match = /^vapid t=([^,]+), k=(.+)$/.exec(String(authorization ?? ""))
+    if (!match) return null
+    const [header, claims, signature] = match[1].split(".")
+    const publicKey = Buffer.from(match[2], "base64url")
+    const key = createPublicKey({
+      key: {
+        kty: "EC",
+        crv: "P-256",
+        x: publicKey.subarray(1, 33).toString("base64url"),
+        y: publicKey.subarray(33, 65).toString("base64url"),
+      },
+      format: "jwk",
+    })
+    const valid = verify(
+      "sha256",
+      Buffer.from(`${header}.${claims}`),
+      { key, dsaEncoding: "ieee-p1363" },
+      Buffer.from(signature ?? "", "base64url"),
+    )
+    const payload = JSON.parse(Buffer.from(claims, "base64url").toString("utf8"))
+    if (!valid || payload.aud !== this.origin || payload.exp * 1000 < Date.now()) return null
+    return payload.sub
+  }
+}
+
+function decrypt(body: Buffer, subscription: LocalSubscription): Buffer {
+  const salt = body.subarray(0, 16)
+  const keyLength = body[20]
+  const serverPublicKey = body.subarray(21, 21 + keyLength)
+  const record = body.subarray(21 + keyLength)
+
+  const ecdh = createECDH("prime256v1")
+  ecdh.setPrivateKey(subscription.privateKey)
+  const { contentKey, nonce } = deriveContentKeys(
+    ecdh.computeSecret(serverPublicKey),
+    subscription.authSecret,
+    salt,
+    subscription.publicKey,
+    serverPublicKey,
+  )
+
+  const decipher = createDecipheriv("aes-128-gcm", contentKey, nonce)
+  decipher.setAuthTag(record.subarray(record.length - 16))
+  const padded = Buffer.concat([decipher.update(record.subarray(0, record.length - 16)), decipher.final()])
+  // Strip the padding: trailing zeros, then the 0x02 last-record delimiter
+  let end = padded.length - 1
+  while (end >= 0 && padded[end] === 0) end--
+  if (padded[end] !== 2) throw new Error("Missing record delimiter")
+  return padded.subarray(0, end)
+}
@@ -0,0 +1,79 @@
+import { PushDeliveryError, getVapidConfig, sendNotification } from "./web-push"
+import { pushSubscriptionStore } from "./push-store"
+import type { PushNotification, PushTopic, StoredPushSubscription, VapidConfig } from "./types"
+
+/**
+ * Push notifier
+ *
+ * Fans a notification out to the subscriptions for an owner or a topic. Subscriptions the push service
+ * reports as gone are deleted; other failures are logged and the subscription is kept for next time.
+ */
+
+export interface PushSubscriptionStore {
+  listForOwner(ownerId: string, topic: PushTopic): Promise<StoredPushSubscription[]>
+  listForTopic(topic: PushTopic): Promise<StoredPushSubscription[]>
+  markSent(ids: number[]): Promise<void>
+  remove(ids: number[]): Promise<void>
+}
+
+export interface DeliverySummary {
+  sent: number
+  failed: number
+  removed: number
+}
+
+export class PushNotifier {
+  private static instance: PushNotifier
+
+  constructor(
+    private store: PushSubscriptionStore | null = pushSubscriptionStore,
+    private vapid: VapidConfig | null = getVapidConfig(),
+  ) {}
+
+  static getInstance(): PushNotifier {
+    if (!PushNotifier.instance) {
+      PushNotifier.instance = new PushNotifier(process.env.DATABASE_URL ? pushSubscriptionStore : null)
+    }
+    return PushNotifier.instance
+  }
+
+  /** Push is configured when VAPID keys are set and subscriptions can be stored */
+  get isEnabled(): boolean {
+    return Boolean(this.store && this.vapid)
+  }
+
+  async notifyOwner(ownerId: string, topic: PushTopic, notification: PushNotification): Promise<DeliverySummary> {
+    if (!this.store || !this.vapid) return { sent: 0, failed: 0, removed: 0 }
+    return this.deliver(await this.store.listForOwner(ownerId, topic), notification)
+  }
+
+  async broadcast(topic: PushTopic, notification: PushNotification): Promise<DeliverySummary> {
+    if (!this.store || !this.vapid) return { sent: 0, failed: 0, removed: 0 }
+    return this.deliver(await this.store.listForTopic(topic), notification)
+  }
+
+  private async deliver(
+    subscriptions: StoredPushSubscription[],
+    notification: PushNotification,
+  ): Promise<DeliverySummary> {
+    const results = await Promise.allSettled(
+      subscriptions.map((subscription) => sendNotification(subscription, notification, this.vapid!)),
+    )
+
+    const sent: number[] = []
+    const gone: number[] = []
+    results.forEach((result, index) => {
+      const subscription = subscriptions[index]
+      if (result.status === "fulfilled") {
+        sent.push(subscription.id)
+      } else if (result.reason instanceof PushDeliveryError && result.reason.isGone) {
+        gone.push(subscription.id)
+      } else {
+        console.warn(`Push to subscription ${subscription.id} failed:`, result.reason?.message ?? result.reason)
+      }
+    })
+
+    await Promise.all([this.store!.markSent(sent), this.store!.remove(gone)])
+    return { sent: sent.length, failed: results.length - sent.length - gone.length, removed: gone.length }
+  }
+}
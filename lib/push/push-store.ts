@@ -0,0 +1,150 @@
+import { getSql } from "@/lib/db/sql"
+import type { PushSubscriptionInput, PushTopic, StoredPushSubscription } from "./types"
+import type { PushSubscriptionStore } from "./push-notifier"
+
+/**
+ * Push subscription persistence
+ *
+ * One row per browser endpoint. Re-subscribing the same endpoint (e.g. after the browser rotates keys or
+ * the cookie changes) updates the row in place rather than duplicating it.
+ */
+
+export const PUSH_TOPICS: PushTopic[] = ["alerts", "scheduled-analyses"]
+
+let tableReady: Promise<void> | null = null
+
+export function ensurePushSubscriptionsTable(): Promise<void> {
+  if (!tableReady) {
+    const sql = getSql()
+    tableReady = sql`
+      CREATE TABLE IF NOT EXISTS push_subscriptions (
+        id SERIAL PRIMARY KEY,
+        owner_id VARCHAR(64) NOT NULL,
+        endpoint TEXT NOT NULL UNIQUE,
+        p256dh VARCHAR(128) NOT NULL,
+        auth VARCHAR(64) NOT NULL,
+        topics TEXT[] NOT NULL DEFAULT ARRAY['alerts'],
+        created_at TIMESTAMP DEFAULT NOW(),
+        last_sent_at TIMESTAMP
+      )
+    `
+      .then(() => sql`CREATE INDEX IF NOT EXISTS idx_push_subscriptions_owner ON push_subscriptions (owner_id)`)
+      .then(() => undefined)
+      .catch((error) => {
+        tableReady = null
+        throw error
+      })
+  }
+  return tableReady
+}
+
+/**
+ * Hosts of the browser push services (FCM for Chrome, Mozilla autopush, Apple, WNS for Edge). The notifier
+ * POSTs to whatever endpoint is stored, so anything else, e.g. an internal address, is refused up front.
+ */
+const PUSH_SERVICE_HOSTS = ["fcm.googleapis.com", "android.googleapis.com"]
+const PUSH_SERVICE_HOST_SUFFIXES = [".push.services.mozilla.com", ".push.apple.com", ".notify.windows.com"]
+
+export function isPushServiceEndpoint(endpoint: string): boolean {
+  let url: URL
+  try {
+    url = new URL(endpoint)
+  } catch {
+    return false
+  }
+  if (url.protocol !== "https:" || url.port !== "" || url.username || url.password) return false
+  const host = url.hostname.toLowerCase()
+  return PUSH_SERVICE_HOSTS.includes(host) || PUSH_SERVICE_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix))
+}
+
+/** Validate a browser subscription. Returns null when it is not an https endpoint of a known push service. */
+export function normalizeSubscription(input: any): PushSubscriptionInput | null {
+  const endpoint = typeof input?.endpoint === "string" ? input.endpoint : ""
+  const p256dh = input?.keys?.p256dh
+  const auth = input?.keys?.auth
+  if (!isPushServiceEndpoint(endpoint) || typeof p256dh !== "string" || typeof auth !== "string") return null
+  if (Buffer.from(p256dh, "base64url").length !== 65 || Buffer.from(auth, "base64url").length !== 16) return null
+  return { endpoint, keys: { p256dh, auth } }
+}
+
+export function normalizeTopics(topics: unknown): PushTopic[] {
+  if (!Array.isArray(topics)) return ["alerts"]
+  return PUSH_TOPICS.filter((topic) => topics.includes(topic))
+}
+
+export async function saveSubscription(
+  ownerId: string,
+  subscription: PushSubscriptionInput,
+  topics: PushTopic[],
+): Promise<StoredPushSubscription> {
+  await ensurePushSubscriptionsTable()
+  const sql = getSql()
+  const rows = await sql`
+    INSERT INTO push_subscriptions (owner_id, endpoint, p256dh, auth, topics)
+    VALUES (${ownerId}, ${subscription.endpoint}, ${subscription.keys.p256dh}, ${subscription.keys.auth}, ${topics})
+    ON CONFLICT (endpoint) DO UPDATE SET
+      owner_id = EXCLUDED.owner_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      topics = EXCLUDED.topics
+    RETURNING *
+  `
+  return mapSubscription(rows[0])
+}
+
+export async function findSubscription(ownerId: string, endpoint: string): Promise<StoredPushSubscription | null> {
+  await ensurePushSubscriptionsTable()
+  const sql = getSql()
+  const rows = await sql`SELECT * FROM push_subscriptions WHERE owner_id = ${ownerId} AND endpoint = ${endpoint}`
+  return rows.length > 0 ? mapSubscription(rows[0]) : null
+}
+
+export async function deleteSubscription(ownerId: string, endpoint: string): Promise<boolean> {
+  await ensurePushSubscriptionsTable()
+  const sql = getSql()
+  const rows = await sql`
+    DELETE FROM push_subscriptions WHERE owner_id = ${ownerId} AND endpoint = ${endpoint} RETURNING id
+  `
+  return rows.length > 0
+}
+
+export const pushSubscriptionStore: PushSubscriptionStore = {
+  async listForOwner(ownerId, topic) {
+    await ensurePushSubscriptionsTable()
+    const sql = getSql()
+    const rows = await sql`
+      SELECT * FROM push_subscriptions WHERE owner_id = ${ownerId} AND ${topic} = ANY(topics)
+    `
+    return rows.map(mapSubscription)
+  },
+
+  async listForTopic(topic) {
+    await ensurePushSubscriptionsTable()
+    const sql = getSql()
+    const rows = await sql`SELECT * FROM push_subscriptions WHERE ${topic} = ANY(topics)`
+    return rows.map(mapSubscription)
+  },
+
+  async markSent(ids) {
+    if (ids.length === 0) return
+    const sql = getSql()
+    await sql`UPDATE push_subscriptions SET last_sent_at = NOW() WHERE id = ANY(${ids})`
+  },
+
+  async remove(ids) {
+    if (ids.length === 0) return
+    const sql = getSql()
+    await sql`DELETE FROM push_subscriptions WHERE id = ANY(${ids})`
+  },
+}
+
+function mapSubscription(row: any): StoredPushSubscription {
+  return {
+    id: row.id,
+    ownerId: row.owner_id,
+    endpoint: row.endpoint,
+    keys: { p256dh: row.p256dh, auth: row.auth },
+    topics: row.topics ?? [],
+    createdAt: new Date(row.created_at).toISOString(),
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Web Push contracts
+ *
+ * Subscriptions are what the browser's PushManager returns, stored per anonymous owner. Each one opts into
+ * topics: alert triggers are sent to the owner of the rule, scheduled analysis summaries to every
+ * subscriber of that topic.
+ */
+
+export type PushTopic = "alerts" | "scheduled-analyses"
+
+/** PushSubscription.toJSON() from the browser */
+export interface PushSubscriptionInput {
+  endpoint: string
+  keys: {
+    /** Browser's P-256 public key, uncompressed point, base64url */
+    p256dh: string
+    /** 16-byte authentication secret, base64url */
+    auth: string
+  }
+}
+
+export interface StoredPushSubscription extends PushSubscriptionInput {
+  id: number
+  ownerId: string
+  topics: PushTopic[]
+  createdAt: string
+}
+
+/** Payload read by the service worker's push handler */
+export interface PushNotification {
+  title: string
+  body: string
+  /** Page opened when the notification is clicked */
+  url?: string
+  /** Notifications with the same tag replace each other on the device */
+  tag?: string
+}
+
+export interface VapidConfig {
+  publicKey: string
+  privateKey: string
+  /** mailto: or https: contact for the push service operator */
+  subject: string
+}
@@ -0,0 +1,165 @@
+import { createECDH, createPrivateKey, createCipheriv, hkdfSync, randomBytes, sign } from "node:crypto"
+import type { PushNotification, PushSubscriptionInput, VapidConfig } from "./types"
+
+/**
+ * Web Push delivery
+ *
+ * Implements the two pieces a push service requires: a VAPID JWT identifying this server (RFC 8292) and
+ * the aes128gcm payload encryption to the browser's keys (RFC 8291). Both only need node:crypto.
+ */
+
+export class PushDeliveryError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+  ) {
+    super(message)
+    this.name = "PushDeliveryError"
+  }
+
+  /** The push service no longer knows the subscription; it should be deleted */
+  get isGone(): boolean {
+    return this.statusCode === 404 || this.statusCode === 410
+  }
+}
+
+/** Record size advertised in the encryption header; a single record carries the whole payload */
+const RECORD_SIZE = 4096
+/** Push services accept 4096 bytes of ciphertext; this leaves room for the header and tag */
+const MAX_PAYLOAD_BYTES = 3800
+const VAPID_TOKEN_LIFETIME_SECONDS = 12 * 60 * 60
+
+export function getVapidConfig(): VapidConfig | null {
+  const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = process.env
+  if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) return null
+  return {
+    publicKey: VAPID_PUBLIC_KEY,
+    privateKey: VAPID_PRIVATE_KEY,
+    subject: VAPID_SUBJECT || "mailto:admin@localhost",
+  }
+}
+
+/** A new P-256 key pair for VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY, or for a test subscription's p256dh */
+export function generateVapidKeys(): { publicKey: string; privateKey: string } {
+  const ecdh = createECDH("prime256v1")
+  ecdh.generateKeys()
+  const privateKey = ecdh.getPrivateKey()
+  return {
+    publicKey: ecdh.getPublicKey().toString("base64url"),
+    // JWK import needs the full 32 bytes, including any leading zeros
+    privateKey: Buffer.concat([Buffer.alloc(32 - privateKey.length), privateKey]).toString("base64url"),
+  }
+}
+
+/** `Authorization` header value for a request to `endpoint` */
+export function createVapidAuthorization(endpoint: string, vapid: VapidConfig, now = Date.now()): string {
+  const header = { typ: "JWT", alg: "ES256" }
+  const claims = {
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now / 1000) + VAPID_TOKEN_LIFETIME_SECONDS,
+    sub: vapid.subject,
+  }
+  const unsigned = `${encodeJson(header)}.${encodeJson(claims)}`
+  const signature = sign("sha256", Buffer.from(unsigned), {
+    key: vapidPrivateKey(vapid),
+    dsaEncoding: "ieee-p1363",
+  })
+  return `vapid t=${unsigned}.${signature.toString("base64url")}, k=${vapid.publicKey}`
+}
+
+/** Encrypt a payload for one subscription as a single aes128gcm record */
+export function encryptPayload(subscription: PushSubscriptionInput, payload: Buffer): Buffer {
+  const userAgentPublicKey = Buffer.from(subscription.keys.p256dh, "base64url")
+  const authSecret = Buffer.from(subscription.keys.auth, "base64url")
+
+  const serverKeys = createECDH("prime256v1")
+  const serverPublicKey = serverKeys.generateKeys()
+  const sharedSecret = serverKeys.computeSecret(userAgentPublicKey)
+  const salt = randomBytes(16)
+
+  const { contentKey, nonce } = deriveContentKeys(sharedSecret, authSecret, salt, userAgentPublicKey, serverPublicKey)
+  const cipher = createCipheriv("aes-128-gcm", contentKey, nonce)
+  // 0x02 marks the last (and only) record; no further padding
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([payload, Buffer.from([2])])), cipher.final()])
+
+  const recordSize = Buffer.alloc(4)
+  recordSize.writeUInt32BE(RECORD_SIZE)
+  return Buffer.concat([
+    salt,
+    recordSize,
+    Buffer.from([serverPublicKey.length]),
+    serverPublicKey,
+    ciphertext,
+    cipher.getAuthTag(),
+  ])
+}
+
+/** Key schedule shared by sender and receiver (RFC 8291 section 3.4) */
+export function deriveContentKeys(
+  sharedSecret: Buffer,
+  authSecret: Buffer,
+  salt: Buffer,
+  userAgentPublicKey: Buffer,
+  serverPublicKey: Buffer,
+): { contentKey: Buffer; nonce: Buffer } {
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), userAgentPublicKey, serverPublicKey])
+  const inputKey = Buffer.from(hkdfSync("sha256", sharedSecret, authSecret, keyInfo, 32))
+  return {
+    contentKey: Buffer.from(hkdfSync("sha256", inputKey, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16)),
+    nonce: Buffer.from(hkdfSync("sha256", inputKey, salt, Buffer.from("Content-Encoding: nonce\0"), 12)),
+  }
+}
+
+/**
+ * Deliver a notification to one subscription. Throws PushDeliveryError when the push service rejects
+ * it; check `isGone` to prune dead subscriptions.
+ */
+export async function sendNotification(
+  subscription: PushSubscriptionInput,
+  notification: PushNotification,
+  vapid: VapidConfig,
+  options: { ttlSeconds?: number; urgency?: "low" | "normal" | "high" } = {},
+): Promise<void> {
+  const payload = Buffer.from(JSON.stringify(notification))
+  if (payload.length > MAX_PAYLOAD_BYTES) {
+    throw new PushDeliveryError(`Notification payload is ${payload.length} bytes, limit is ${MAX_PAYLOAD_BYTES}`, 413)
+  }
+
+  const response = await fetch(subscription.endpoint, {
+    method: "POST",
+    headers: {
+      Authorization: createVapidAuthorization(subscription.endpoint, vapid),
+      "Content-Encoding": "aes128gcm",
+      "Content-Type": "application/octet-stream",
+      TTL: String(options.ttlSeconds ?? 24 * 60 * 60),
+      Urgency: options.urgency ?? "normal",
+    },
+    body: new Uint8Array(encryptPayload(subscription, payload)),
+  })
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "")
+    throw new PushDeliveryError(
+      `Push service responded ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`,
+      response.status,
+    )
+  }
+}
+
+function vapidPrivateKey(vapid: VapidConfig) {
+  const publicKey = Buffer.from(vapid.publicKey, "base64url")
+  return createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: vapid.privateKey,
+      x: publicKey.subarray(1, 33).toString("base64url"),
+      y: publicKey.subarray(33, 65).toString("base64url"),
+    },
+    format: "jwk",
+  })
+}
+
+function encodeJson(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url")
+}
@@ -0,0 +1,204 @@
+import { MultiSourceStockClient } from "@/lib/api/multi-source-client"
+import { AlertEngine } from "@/lib/alerts/alert-engine"
+import type { MinuteBar } from "@/lib/market-stream/types"
+
+/**
+ * Server-side quote fan-out
+ *
+ * Each symbol has one upstream feed no matter how many browser streams watch it: a poller started with the
+ * first subscriber and stopped with the last. Every published quote gets a sequence id and is kept in a short
+ * replay buffer, so a client reconnecting with its last id receives what it missed instead of a gap. When
+ * websocket trade streams are configured, lib/market-stream publishes their 1-minute bars into the same hub.
+ */
+
+export interface QuoteUpdate {
+  ticker: string
+  price: number
+  change: number
+  changePercent: number
+  volume: number
+  timestamp: string
+  source: string
+  /** Set when the quote comes from a completed 1-minute bar of a trade stream */
+  bar?: MinuteBar
+}
+
+/** A quote as sent on the stream; `id` increases across all symbols */
+export interface QuoteStreamEvent extends QuoteUpdate {
+  id: number
+}
+
+export type QuoteListener = (event: QuoteStreamEvent) => void
+export type TickersListener = (tickers: string[]) => void
+export type QuoteFetcher = (ticker: string) => Promise<QuoteUpdate>
+
+export interface QuoteHubOptions {
+  pollIntervalMs: number
+  /** Events kept for resuming clients, across all symbols */
+  replayBufferSize: number
+}
+
+const DEFAULT_OPTIONS: QuoteHubOptions = {
+  pollIntervalMs: 5000,
+  replayBufferSize: 500,
+}
+
+/** Default feed: the multi-source REST quote, also checked against stored alert rules */
+async function pollQuote(ticker: string): Promise<QuoteUpdate> {
+  const quote = await new MultiSourceStockClient().getQuote(ticker)
+  const timestamp = new Date().toISOString()
+  void AlertEngine.getInstance().evaluateQuote({ ticker, price: quote.currentPrice, volume: quote.volume, timestamp })
+
+  return {
+    ticker,
+    price: quote.currentPrice,
+    change: quote.change,
+    changePercent: quote.changePercent,
+    volume: quote.volume,
+    timestamp,
+    source: "multi-source",
+  }
+}
+
+export class QuoteHub {
+  private static instance: QuoteHub
+  private listeners = new Map<string, Set<QuoteListener>>()
+  private tickersListeners = new Set<TickersListener>()
+  private pollers = new Map<string, NodeJS.Timeout>()
+  private latest = new Map<string, QuoteStreamEvent>()
+  private buffer: QuoteStreamEvent[] = []
+  private sequence = 0
+  private options: QuoteHubOptions
+
+  constructor(
+    private fetchQuote: QuoteFetcher = pollQuote,
+    options: Partial<QuoteHubOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  static getInstance(): QuoteHub {
+    if (!QuoteHub.instance) {
+      QuoteHub.instance = new QuoteHub()
+    }
+    return QuoteHub.instance
+  }
+
+  /**
+   * Listen to quotes for `tickers`. With `lastEventId` the listener first receives the buffered events it
+   * missed; without one, or when the id is no longer buffered, it receives the latest quote per ticker.
+   */
+  subscribe(tickers: string[], listener: QuoteListener, lastEventId?: number): () => void {
+    const symbols = [...new Set(tickers.map((ticker) => ticker.toUpperCase()))]
+    const added = symbols.filter((ticker) => !this.listeners.has(ticker))
+    for (const ticker of symbols) {
+      if (!this.listeners.has(ticker)) {
+        this.listeners.set(ticker, new Set())
+        this.startPolling(ticker)
+      }
+      this.listeners.get(ticker)!.add(listener)
+    }
+    if (added.length > 0) this.notifyTickersChange()
+
+    for (const event of this.replay(symbols, lastEventId)) listener(event)
+
+    return () => {
+      let removed = false
+      for (const ticker of symbols) {
+        const listeners = this.listeners.get(ticker)
+        if (!listeners) continue
+        listeners.delete(listener)
+        if (listeners.size === 0) {
+          this.listeners.delete(ticker)
+          this.stopPolling(ticker)
+          removed = true
+        }
+      }
+      if (removed) this.notifyTickersChange()
+    }
+  }
+
+  /** Called with the full set of active tickers whenever a ticker gains its first or loses its last listener */
+  onTickersChange(listener: TickersListener): () => void {
+    this.tickersListeners.add(listener)
+    return () => this.tickersListeners.delete(listener)
+  }
+
+  /** Publish a quote to every listener of its ticker */
+  publish(update: QuoteUpdate): QuoteStreamEvent {
+    const event: QuoteStreamEvent = { ...update, ticker: update.ticker.toUpperCase(), id: ++this.sequence }
+    this.latest.set(event.ticker, event)
+    this.buffer.push(event)
+    if (this.buffer.length > this.options.replayBufferSize) this.buffer.shift()
+
+    this.listeners.get(event.ticker)?.forEach((listener) => {
+      try {
+        listener(event)
+      } catch (error: any) {
+        console.warn(`Non-critical: Quote listener for ${event.ticker} failed:`, error.message)
+      }
+    })
+    return event
+  }
+
+  /** Tickers with at least one listener */
+  activeTickers(): string[] {
+    return [...this.listeners.keys()]
+  }
+
+  latestQuote(ticker: string): QuoteStreamEvent | undefined {
+    return this.latest.get(ticker.toUpperCase())
+  }
+
+  stop(): void {
+    this.pollers.forEach((poller) => clearInterval(poller))
+    this.pollers.clear()
+    this.listeners.clear()
+    this.tickersListeners.clear()
+  }
+
+  private notifyTickersChange(): void {
+    const tickers = this.activeTickers()
+    this.tickersListeners.forEach((listener) => {
+      try {
+        listener(tickers)
+      } catch (error: any) {
+        console.warn("Non-critical: Ticker change listener failed:", error.message)
+      }
+    })
+  }
+
+  private replay(symbols: string[], lastEventId?: number): QuoteStreamEvent[] {
+    const snapshot = symbols.flatMap((ticker) => this.latest.get(ticker) ?? [])
+    // An id from before the buffer, or from another server process, cannot be resumed
+    const oldest = this.buffer[0]?.id ?? this.sequence + 1
+    if (lastEventId === undefined || lastEventId > this.sequence || lastEventId < oldest - 1) return snapshot
+
+    // Missed events, plus the latest quote of tickers the client may not have followed before reconnecting
+    const missed = this.buffer.filter((event) => event.id > lastEventId && symbols.includes(event.ticker))
+    const unchanged = snapshot.filter((event) => event.id <= lastEventId)
+    return [...unchanged, ...missed].sort((a, b) => a.id - b.id)
+  }
+
+  private startPolling(ticker: string): void {
+    const poll = async () => {
+      try {
+        const update = await this.fetchQuote(ticker)
+        if (this.listeners.has(ticker)) this.publish(update)
+      } catch (error: any) {
+        console.warn(`Non-critical: Quote poll failed for ${ticker}:`, error.message)
+      }
+    }
+
+    void poll()
+    this.pollers.set(ticker, setInterval(poll, this.options.pollIntervalMs))
+  }
+
+  private stopPolling(ticker: string): void {
+    const poller = this.pollers.get(ticker)
+    if (poller) {
+      clearInterval(poller)
+      this.pollers.delete(ticker)
+    }
+  }
+}
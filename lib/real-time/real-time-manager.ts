@@ -1,10 +1,13 @@
 import { errorManager, ErrorType } from "../error-handling/error-manager"
+import type { QuoteStreamEvent } from "./quote-hub"
+import type { MinuteBar } from "@/lib/market-stream/types"
 
 export interface RealTimeConfig {
-  updateInterval: number
-  maxRetries: number
+  /** Reopen the stream when neither a quote nor a heartbeat arrived for this long */
+  heartbeatTimeout: number
+  reconnectDelay: number
+  maxReconnectDelay: number
   backoffMultiplier: number
-  enableHeartbeat: boolean
 }
 
 export interface StockUpdate {
@@ -15,29 +18,41 @@ export interface StockUpdate {
   volume: number
   timestamp: Date
   source: string
+  /** The 1-minute bar behind the update when it comes from a websocket trade stream */
+  bar?: MinuteBar
 }
 
+/** Subscription changes within this window share one reconnect, e.g. a watchlist subscribing all rows */
+const RESUBSCRIBE_DEBOUNCE_MS = 50
+
+/**
+ * Browser-side quote subscriptions over a single server-sent event stream (/api/stream/quotes). The server
+ * polls each symbol once for every open tab; this class only keeps one EventSource for the union of
+ * subscribed tickers and reopens it, resuming from the last event id, when that set changes.
+ */
 export class RealTimeManager {
   private static instance: RealTimeManager
   private subscriptions = new Map<string, Set<(update: StockUpdate) => void>>()
-  private intervals = new Map<string, NodeJS.Timeout>()
+  private latest = new Map<string, StockUpdate>()
   private config: RealTimeConfig
   private isConnected = true
-  private heartbeatInterval?: NodeJS.Timeout
   private connectionListeners = new Set<(connected: boolean) => void>()
+  private source: EventSource | null = null
+  private lastEventId: number | null = null
+  private reconnectAttempts = 0
+  private resubscribeTimer?: ReturnType<typeof setTimeout>
+  private reconnectTimer?: ReturnType<typeof setTimeout>
+  private watchdog?: ReturnType<typeof setTimeout>
 
   constructor(
     config: RealTimeConfig = {
-      updateInterval: 5000,
-      maxRetries: 3,
-      backoffMultiplier: 1.5,
-      enableHeartbeat: true,
+      heartbeatTimeout: 45000,
+      reconnectDelay: 3000,
+      maxReconnectDelay: 60000,
+      backoffMultiplier: 2,
     },
   ) {
     this.config = config
-    if (config.enableHeartbeat) {
-      this.startHeartbeat()
-    }
   }
 
   static getInstance(): RealTimeManager {
@@ -48,21 +63,27 @@ export class RealTimeManager {
   }
 
   subscribe(ticker: string, callback: (update: StockUpdate) => void): () => void {
-    if (!this.subscriptions.has(ticker)) {
-      this.subscriptions.set(ticker, new Set())
-      this.startUpdates(ticker)
+    const symbol = ticker.toUpperCase()
+    if (!this.subscriptions.has(symbol)) {
+      this.subscriptions.set(symbol, new Set())
+      this.scheduleResubscribe()
     }
 
-    this.subscriptions.get(ticker)!.add(callback)
+    this.subscriptions.get(symbol)!.add(callback)
+
+    // A late subscriber gets the last quote right away instead of waiting for the next one
+    const latest = this.latest.get(symbol)
+    if (latest) setTimeout(() => this.subscriptions.get(symbol)?.has(callback) && callback(latest), 0)
 
     // Return unsubscribe function
     return () => {
-      const callbacks = this.subscriptions.get(ticker)
+      const callbacks = this.subscriptions.get(symbol)
       if (callbacks) {
         callbacks.delete(callback)
         if (callbacks.size === 0) {
-          this.stopUpdates(ticker)
-          this.subscriptions.delete(ticker)
+          this.subscriptions.delete(symbol)
+          this.latest.delete(symbol)
+          this.scheduleResubscribe()
         }
       }
     }
@@ -73,59 +94,43 @@ export class RealTimeManager {
     return () => this.connectionListeners.delete(callback)
   }
 
-  private async startUpdates(ticker: string): Promise<void> {
-    const updateTicker = async () => {
-      try {
-        const update = await this.fetchStockUpdate(ticker)
-        this.notifySubscribers(ticker, update)
-        this.setConnectionStatus(true)
-      } catch (error: any) {
-        const appError = errorManager.createError(
-          ErrorType.REAL_TIME_ERROR,
-          `Failed to update ${ticker}`,
-          { ticker, error: error.message },
-          true,
-          `Unable to update ${ticker} price. Retrying...`,
-        )
-
-        this.setConnectionStatus(false)
-
-        // Try to recover with exponential backoff
-        setTimeout(() => {
-          if (this.subscriptions.has(ticker)) {
-            updateTicker()
-          }
-        }, this.config.updateInterval * this.config.backoffMultiplier)
-      }
-    }
+  private scheduleResubscribe(): void {
+    clearTimeout(this.resubscribeTimer)
+    this.resubscribeTimer = setTimeout(() => this.openStream(), RESUBSCRIBE_DEBOUNCE_MS)
+  }
 
-    // Initial update
-    await updateTicker()
+  private openStream(): void {
+    this.closeStream()
+    const symbols = [...this.subscriptions.keys()].sort()
+    if (symbols.length === 0 || typeof EventSource === "undefined") return
 
-    // Set up interval
-    const interval = setInterval(updateTicker, this.config.updateInterval)
-    this.intervals.set(ticker, interval)
-  }
+    const params = new URLSearchParams({ symbols: symbols.join(",") })
+    if (this.lastEventId !== null) params.set("lastEventId", String(this.lastEventId))
+    const source = new EventSource(`/api/stream/quotes?${params}`)
+    this.source = source
 
-  private stopUpdates(ticker: string): void {
-    const interval = this.intervals.get(ticker)
-    if (interval) {
-      clearInterval(interval)
-      this.intervals.delete(ticker)
+    source.onopen = () => {
+      this.reconnectAttempts = 0
+      this.setConnectionStatus(true)
+      this.resetWatchdog()
+    }
+    source.addEventListener("quote", (message) => {
+      this.resetWatchdog()
+      this.handleQuote(message as MessageEvent<string>)
+    })
+    source.addEventListener("heartbeat", () => this.resetWatchdog())
+    source.onerror = () => {
+      this.setConnectionStatus(false)
+      // EventSource retries dropped connections itself (sending Last-Event-ID); it gives up on HTTP errors
+      if (source.readyState === EventSource.CLOSED) this.reconnectWithBackoff(symbols)
     }
   }
 
-  private async fetchStockUpdate(ticker: string): Promise<StockUpdate> {
-    return errorManager.withRetry(async () => {
-      const response = await fetch(`/api/realtime/${ticker}`)
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-      }
-
-      const data = await response.json()
-
-      return {
+  private handleQuote(message: MessageEvent<string>): void {
+    try {
+      const data: QuoteStreamEvent = JSON.parse(message.data)
+      this.lastEventId = data.id
+      const update: StockUpdate = {
         ticker: data.ticker,
         price: data.price,
         change: data.change,
@@ -133,8 +138,51 @@ export class RealTimeManager {
         volume: data.volume,
         timestamp: new Date(data.timestamp),
         source: data.source || "unknown",
+        bar: data.bar,
       }
-    }, this.config.maxRetries)
+      this.latest.set(update.ticker, update)
+      this.notifySubscribers(update.ticker, update)
+    } catch (error: any) {
+      errorManager.createError(
+        ErrorType.DATA_PROCESSING_ERROR,
+        "Invalid quote stream event",
+        { error: error.message },
+        false,
+      )
+    }
+  }
+
+  private reconnectWithBackoff(symbols: string[]): void {
+    this.closeStream()
+    errorManager.createError(
+      ErrorType.REAL_TIME_ERROR,
+      "Quote stream closed",
+      { symbols, attempt: this.reconnectAttempts },
+      true,
+      "Live prices are unavailable. Reconnecting...",
+    )
+
+    const delay = Math.min(
+      this.config.reconnectDelay * this.config.backoffMultiplier ** this.reconnectAttempts,
+      this.config.maxReconnectDelay,
+    )
+    this.reconnectAttempts++
+    this.reconnectTimer = setTimeout(() => this.openStream(), delay)
+  }
+
+  private resetWatchdog(): void {
+    clearTimeout(this.watchdog)
+    this.watchdog = setTimeout(() => {
+      this.setConnectionStatus(false)
+      this.openStream()
+    }, this.config.heartbeatTimeout)
+  }
+
+  private closeStream(): void {
+    clearTimeout(this.reconnectTimer)
+    clearTimeout(this.watchdog)
+    this.source?.close()
+    this.source = null
   }
 
   private notifySubscribers(ticker: string, update: StockUpdate): void {
@@ -168,33 +216,17 @@ export class RealTimeManager {
     }
   }
 
-  private startHeartbeat(): void {
-    this.heartbeatInterval = setInterval(async () => {
-      try {
-        const response = await fetch("/api/health")
-        this.setConnectionStatus(response.ok)
-      } catch (error) {
-        this.setConnectionStatus(false)
-      }
-    }, 30000) // Check every 30 seconds
-  }
-
   getConnectionStatus(): boolean {
     return this.isConnected
   }
 
   cleanup(): void {
-    // Clear all intervals
-    this.intervals.forEach((interval) => clearInterval(interval))
-    this.intervals.clear()
-
-    // Clear heartbeat
-    if (this.heartbeatInterval) {
-      clearInterval(this.heartbeatInterval)
-    }
+    clearTimeout(this.resubscribeTimer)
+    this.closeStream()
 
     // Clear subscriptions
     this.subscriptions.clear()
+    this.latest.clear()
     this.connectionListeners.clear()
   }
 }
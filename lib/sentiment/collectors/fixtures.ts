@@ -0,0 +1,40 @@
+import { readFile } from "fs/promises"
+import path from "path"
+
+/**
+ * Fixture mode: collectors read the raw upstream payload for a ticker from
+ * `<fixturesDir>/<collector>/<TICKER>.json` instead of calling the network.
+ * Set SENTIMENT_FIXTURES_DIR to run the whole pipeline offline.
+ */
+export function defaultFixturesDir(): string | undefined {
+  return process.env.SENTIMENT_FIXTURES_DIR || undefined
+}
+
+export async function readFixture<T>(fixturesDir: string, collector: string, ticker: string): Promise<T | null> {
+  try {
+    const file = path.join(fixturesDir, collector, `${ticker.toUpperCase()}.json`)
+    return JSON.parse(await readFile(file, "utf8")) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+    throw error
+  }
+}
+
+/**
+ * ISO timestamp of an upstream post date, or null when it is missing or unparseable. Collectors skip such posts
+ * rather than let `toISOString()` throw and lose every other post from the source.
+ */
+export function parsePostDate(value: unknown): string | null {
+  if (typeof value !== "string" && typeof value !== "number") return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+/** Drop posts older than `since` and keep the newest `limit` */
+export function applyWindow<T extends { createdAt: string }>(posts: T[], since?: Date, limit?: number): T[] {
+  const cutoff = since?.getTime() ?? 0
+  const recent = posts
+    .filter((post) => new Date(post.createdAt).getTime() >= cutoff)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  return limit ? recent.slice(0, limit) : recent
+}
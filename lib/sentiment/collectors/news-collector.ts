@@ -0,0 +1,54 @@
+import { MultiSourceStockClient } from "@/lib/api/multi-source-client"
+import type { NewsFeed } from "@/lib/api/providers/types"
+import type { CollectOptions, SentimentCollector, SentimentPost } from "../types"
+import { applyWindow, defaultFixturesDir, parsePostDate, readFixture } from "./fixtures"
+
+export interface NewsCollectorOptions {
+  fixturesDir?: string
+  client?: MultiSourceStockClient
+}
+
+/** Headlines and summaries from the configured news providers */
+export class NewsCollector implements SentimentCollector {
+  readonly name = "news"
+  readonly label = "Financial News"
+  readonly kind = "news" as const
+  private fixturesDir?: string
+  private client?: MultiSourceStockClient
+
+  constructor(options: NewsCollectorOptions = {}) {
+    this.fixturesDir = options.fixturesDir ?? defaultFixturesDir()
+    this.client = options.client
+  }
+
+  async collect(ticker: string, options: CollectOptions = {}): Promise<SentimentPost[]> {
+    const feed = this.fixturesDir
+      ? await readFixture<NewsFeed>(this.fixturesDir, this.name, ticker)
+      : await (this.client ?? new MultiSourceStockClient()).getNews(ticker)
+
+    const seen = new Set<string>()
+    const articles = [...(feed?.recent || []), ...(feed?.trending || [])].filter((article) => {
+      if (!article.title || seen.has(article.title)) return false
+      seen.add(article.title)
+      return true
+    })
+
+    const posts = articles.flatMap((article): SentimentPost[] => {
+      const createdAt = parsePostDate(article.date)
+      if (!createdAt) return []
+      return [
+        {
+          id: `news:${article.url || article.title}`,
+          source: this.name,
+          text:
+            article.summary && article.summary !== article.title
+              ? `${article.title}\n${article.summary}`
+              : article.title,
+          createdAt,
+          url: article.url,
+        },
+      ]
+    })
+    return applyWindow(posts, options.since, options.limit)
+  }
+}
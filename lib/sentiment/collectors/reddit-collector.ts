@@ -0,0 +1,70 @@
+import { ProviderRateLimiter } from "@/lib/api/rate-limiter"
+import type { CollectOptions, SentimentCollector, SentimentPost } from "../types"
+import { applyWindow, defaultFixturesDir, parsePostDate, readFixture } from "./fixtures"
+
+export const DEFAULT_SUBREDDITS = ["wallstreetbets", "stocks", "investing", "StockMarket"]
+
+export interface RedditCollectorOptions {
+  subreddits?: string[]
+  fixturesDir?: string
+  limiter?: ProviderRateLimiter
+}
+
+/** Searches stock subreddits for posts mentioning the ticker or its cashtag */
+export class RedditCollector implements SentimentCollector {
+  readonly name = "reddit"
+  readonly label = "Reddit"
+  readonly kind = "social" as const
+  private baseUrl = "https://www.reddit.com"
+  private subreddits: string[]
+  private fixturesDir?: string
+  private limiter: ProviderRateLimiter
+
+  constructor(options: RedditCollectorOptions = {}) {
+    this.subreddits = options.subreddits ?? DEFAULT_SUBREDDITS
+    this.fixturesDir = options.fixturesDir ?? defaultFixturesDir()
+    this.limiter = options.limiter ?? ProviderRateLimiter.getInstance()
+  }
+
+  async collect(ticker: string, options: CollectOptions = {}): Promise<SentimentPost[]> {
+    const listing = this.fixturesDir
+      ? await readFixture<any>(this.fixturesDir, this.name, ticker)
+      : await this.search(ticker)
+
+    return applyWindow(this.normalizeRedditListing(listing), options.since, options.limit)
+  }
+
+  private async search(ticker: string) {
+    const query = encodeURIComponent(`"$${ticker}" OR "${ticker}"`)
+    const subreddits = this.subreddits.join("+")
+    const url = `${this.baseUrl}/r/${subreddits}/search.json?q=${query}&restrict_sr=1&sort=new&t=month&limit=100`
+    const response = await this.limiter.run("reddit", "search", () =>
+      fetch(url, { headers: { "User-Agent": process.env.REDDIT_USER_AGENT || "stockpilot-sentiment/1.0" } }),
+    )
+    if (!response.ok) {
+      throw new Error(`Reddit API error: ${response.statusText}`)
+    }
+    return response.json()
+  }
+
+  private normalizeRedditListing(data: any): SentimentPost[] {
+    const children: any[] = data?.data?.children || []
+    return children
+      .map((child) => child.data)
+      .filter((post) => post && (post.title || post.selftext))
+      .flatMap((post): SentimentPost[] => {
+        const createdAt = typeof post.created_utc === "number" ? parsePostDate(post.created_utc * 1000) : null
+        if (!createdAt) return []
+        return [
+          {
+            id: `reddit:${post.id}`,
+            source: this.name,
+            text: [post.title, post.selftext].filter(Boolean).join("\n"),
+            createdAt,
+            url: post.permalink ? `${this.baseUrl}${post.permalink}` : undefined,
+            engagement: Math.max(0, (post.score || 0) + (post.num_comments || 0)),
+          },
+        ]
+      })
+  }
+}
@@ -0,0 +1,62 @@
+import { ProviderRateLimiter } from "@/lib/api/rate-limiter"
+import type { CollectOptions, SentimentCollector, SentimentPost } from "../types"
+import { applyWindow, defaultFixturesDir, parsePostDate, readFixture } from "./fixtures"
+
+export interface StockTwitsCollectorOptions {
+  fixturesDir?: string
+  limiter?: ProviderRateLimiter
+}
+
+/** Latest messages from the ticker's public StockTwits stream, keeping authors' bullish/bearish tags */
+export class StockTwitsCollector implements SentimentCollector {
+  readonly name = "stocktwits"
+  readonly label = "StockTwits"
+  readonly kind = "social" as const
+  private baseUrl = "https://api.stocktwits.com/api/2"
+  private fixturesDir?: string
+  private limiter: ProviderRateLimiter
+
+  constructor(options: StockTwitsCollectorOptions = {}) {
+    this.fixturesDir = options.fixturesDir ?? defaultFixturesDir()
+    this.limiter = options.limiter ?? ProviderRateLimiter.getInstance()
+  }
+
+  async collect(ticker: string, options: CollectOptions = {}): Promise<SentimentPost[]> {
+    const stream = this.fixturesDir
+      ? await readFixture<any>(this.fixturesDir, this.name, ticker)
+      : await this.getStream(ticker)
+
+    return applyWindow(this.normalizeStockTwitsStream(stream), options.since, options.limit)
+  }
+
+  private async getStream(ticker: string) {
+    const response = await this.limiter.run("stocktwits", "symbolStream", () =>
+      fetch(`${this.baseUrl}/streams/symbol/${encodeURIComponent(ticker)}.json`),
+    )
+    if (!response.ok) {
+      throw new Error(`StockTwits API error: ${response.statusText}`)
+    }
+    return response.json()
+  }
+
+  private normalizeStockTwitsStream(data: any): SentimentPost[] {
+    const messages: any[] = data?.messages || []
+    return messages
+      .filter((message) => message?.body)
+      .flatMap((message): SentimentPost[] => {
+        const createdAt = parsePostDate(message.created_at)
+        if (!createdAt) return []
+        const tag = message.entities?.sentiment?.basic
+        return [
+          {
+            id: `stocktwits:${message.id}`,
+            source: this.name,
+            text: message.body,
+            createdAt,
+            engagement: message.likes?.total || 0,
+            label: tag === "Bullish" ? "bullish" : tag === "Bearish" ? "bearish" : undefined,
+          },
+        ]
+      })
+  }
+}
@@ -0,0 +1,165 @@
+import type { SentimentScorer } from "./types"
+
+/**
+ * Finance-tuned lexicon scorer
+ *
+ * Sums word valences with simple negation ("not bullish") and intensifier ("very bullish") handling,
+ * then squashes the total into [-1, 1] the same way VADER does, so a single strong word does not
+ * saturate the score.
+ */
+
+export const FINANCE_LEXICON: Record<string, number> = {
+  // Bullish
+  bullish: 2.5,
+  bull: 1.5,
+  moon: 2,
+  mooning: 2.5,
+  rocket: 1.5,
+  calls: 1,
+  long: 1,
+  buy: 1.5,
+  buying: 1.5,
+  bought: 1,
+  undervalued: 2,
+  beat: 2,
+  beats: 2,
+  upgrade: 2,
+  upgraded: 2,
+  outperform: 2,
+  rally: 2,
+  rallies: 2,
+  surge: 2.5,
+  surges: 2.5,
+  soar: 2.5,
+  soars: 2.5,
+  jump: 1.5,
+  jumps: 1.5,
+  gain: 1.5,
+  gains: 1.5,
+  growth: 1,
+  strong: 1.5,
+  record: 1.5,
+  breakout: 2,
+  profit: 1.5,
+  profitable: 2,
+  raise: 1,
+  raises: 1,
+  upside: 1.5,
+  green: 1,
+  love: 1.5,
+  great: 1.5,
+  good: 1,
+  positive: 1.5,
+  optimistic: 2,
+  // Bearish
+  bearish: -2.5,
+  bear: -1.5,
+  puts: -1,
+  short: -1,
+  shorting: -1.5,
+  sell: -1.5,
+  selling: -1.5,
+  sold: -1,
+  dump: -2,
+  dumping: -2,
+  overvalued: -2,
+  miss: -2,
+  misses: -2,
+  missed: -2,
+  downgrade: -2,
+  downgraded: -2,
+  underperform: -2,
+  crash: -3,
+  crashes: -3,
+  plunge: -2.5,
+  plunges: -2.5,
+  tank: -2,
+  tanks: -2,
+  drop: -1.5,
+  drops: -1.5,
+  fall: -1.5,
+  falls: -1.5,
+  loss: -1.5,
+  losses: -1.5,
+  weak: -1.5,
+  lawsuit: -2,
+  probe: -1.5,
+  recall: -1.5,
+  layoffs: -1.5,
+  cut: -1,
+  cuts: -1,
+  downside: -1.5,
+  red: -1,
+  bagholder: -2,
+  bagholding: -2,
+  fraud: -3,
+  bankruptcy: -3,
+  bad: -1.5,
+  negative: -1.5,
+  worried: -1.5,
+  fear: -1.5,
+}
+
+const EMOJI_VALENCE: Record<string, number> = {
+  "🚀": 2,
+  "📈": 1.5,
+  "💎": 1,
+  "🐂": 1.5,
+  "📉": -1.5,
+  "🐻": -1.5,
+  "💩": -2,
+}
+
+const NEGATIONS = new Set(["not", "no", "never", "isn't", "isnt", "don't", "dont", "won't", "wont", "neither", "nor"])
+
+const INTENSIFIERS: Record<string, number> = { very: 1.3, extremely: 1.5, super: 1.3, really: 1.2, huge: 1.3 }
+
+/** Words after a negation that it still applies to */
+const NEGATION_SCOPE = 3
+
+/** Normalization constant from VADER; larger values need more evidence to approach +/-1 */
+const SQUASH_ALPHA = 15
+
+export class LexiconScorer implements SentimentScorer {
+  readonly name = "lexicon"
+
+  constructor(private lexicon: Record<string, number> = FINANCE_LEXICON) {}
+
+  score(text: string): number {
+    let total = 0
+
+    for (const [emoji, valence] of Object.entries(EMOJI_VALENCE)) {
+      total += valence * (text.split(emoji).length - 1)
+    }
+
+    // Cashtags are the ticker itself, not sentiment
+    const tokens = text
+      .toLowerCase()
+      .replace(/\$[a-z.]+/g, " ")
+      .split(/[^a-z']+/)
+      .filter(Boolean)
+
+    let negatedUntil = -1
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i]
+      if (NEGATIONS.has(token)) {
+        negatedUntil = i + NEGATION_SCOPE
+        continue
+      }
+
+      const valence = this.lexicon[token]
+      if (valence === undefined) continue
+
+      let weighted = valence * (INTENSIFIERS[tokens[i - 1]] ?? 1)
+      if (i <= negatedUntil) weighted *= -0.75
+      total += weighted
+    }
+
+    return total / Math.sqrt(total * total + SQUASH_ALPHA)
+  }
+}
+
+/** Map a polarity in [-1, 1] to the [0, 1] scale used across the app */
+export function toUnitScale(polarity: number): number {
+  return Math.max(0, Math.min(1, (polarity + 1) / 2))
+}
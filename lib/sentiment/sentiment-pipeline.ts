@@ -0,0 +1,302 @@
+import { getSql } from "@/lib/db/sql"
+import { LexiconScorer, toUnitScale } from "./lexicon-scorer"
+import { NewsCollector } from "./collectors/news-collector"
+import { RedditCollector } from "./collectors/reddit-collector"
+import { StockTwitsCollector } from "./collectors/stocktwits-collector"
+import type {
+  SentimentCollector,
+  SentimentPost,
+  SentimentScorer,
+  SentimentSourceKind,
+  SentimentSummary,
+  SourceSentiment,
+} from "./types"
+
+/**
+ * Sentiment pipeline
+ *
+ * Collects posts from every collector, scores them, and aggregates the scores per (ticker, day, source)
+ * into sentiment_daily. Re-collecting a day keeps whichever sample of that day is larger.
+ * The summary shown with an analysis is read back from the stored days, so the trend is real history.
+ */
+
+export interface DailySourceSentiment {
+  ticker: string
+  date: string
+  source: string
+  kind: SentimentSourceKind
+  /** Engagement-weighted mean score on the [0, 1] scale */
+  sentiment: number
+  volume: number
+}
+
+export interface SentimentStore {
+  loadDaily(ticker: string, since: string): Promise<DailySourceSentiment[]>
+  saveDaily(rows: DailySourceSentiment[]): Promise<void>
+  /** Most recent collection time for the ticker, or null if it has never been collected */
+  lastCollectedAt(ticker: string): Promise<Date | null>
+}
+
+export interface CollectionSummary {
+  checked: number
+  collected: number
+  failed: string[]
+}
+
+/** Posts older than this are not collected */
+export const COLLECTION_LOOKBACK_DAYS = 30
+/** Days averaged into the current news/social/overall scores */
+export const CURRENT_WINDOW_DAYS = 7
+/** A ticker collected more recently than this is served from the store */
+export const REFRESH_INTERVAL_MS = 15 * 60 * 1000
+
+/** Weight applied to an author's explicit bullish/bearish tag when blending it with the text score */
+const LABEL_WEIGHT = 0.5
+
+export function scorePost(post: SentimentPost, scorer: SentimentScorer): number {
+  const textScore = scorer.score(post.text)
+  if (!post.label) return textScore
+  const labelScore = post.label === "bullish" ? 1 : -1
+  return textScore * (1 - LABEL_WEIGHT) + labelScore * LABEL_WEIGHT
+}
+
+/** Group scored posts by day and source into engagement-weighted daily rows */
+export function aggregateDaily(
+  ticker: string,
+  collector: Pick<SentimentCollector, "name" | "kind">,
+  posts: SentimentPost[],
+  scorer: SentimentScorer,
+): DailySourceSentiment[] {
+  const days = new Map<string, { weighted: number; weight: number; volume: number }>()
+
+  for (const post of posts) {
+    const date = post.createdAt.split("T")[0]
+    const weight = 1 + Math.log1p(Math.max(0, post.engagement ?? 0))
+    const day = days.get(date) ?? { weighted: 0, weight: 0, volume: 0 }
+    day.weighted += toUnitScale(scorePost(post, scorer)) * weight
+    day.weight += weight
+    day.volume++
+    days.set(date, day)
+  }
+
+  return [...days.entries()].map(([date, day]) => ({
+    ticker: ticker.toUpperCase(),
+    date,
+    source: collector.name,
+    kind: collector.kind,
+    sentiment: day.weighted / day.weight,
+    volume: day.volume,
+  }))
+}
+
+/** Roll stored daily rows up into the shape SentimentAnalysis renders */
+export function buildSentimentSummary(
+  rows: DailySourceSentiment[],
+  labels: Record<string, string>,
+  now = new Date(),
+): SentimentSummary {
+  const windowStart = new Date(now.getTime() - CURRENT_WINDOW_DAYS * 86400000).toISOString().split("T")[0]
+  const current = rows.filter((row) => row.date >= windowStart)
+
+  const weightedMean = (items: DailySourceSentiment[]) => {
+    const volume = items.reduce((sum, row) => sum + row.volume, 0)
+    return volume > 0 ? items.reduce((sum, row) => sum + row.sentiment * row.volume, 0) / volume : null
+  }
+
+  const sources: SourceSentiment[] = []
+  for (const source of new Set(current.map((row) => row.source))) {
+    const sourceRows = current.filter((row) => row.source === source)
+    sources.push({
+      name: labels[source] ?? source,
+      sentiment: weightedMean(sourceRows)!,
+      volume: sourceRows.reduce((sum, row) => sum + row.volume, 0),
+    })
+  }
+
+  const news = weightedMean(current.filter((row) => row.kind === "news"))
+  const social = weightedMean(current.filter((row) => row.kind === "social"))
+  const overall = news !== null && social !== null ? (news + social) / 2 : (news ?? social ?? 0.5)
+
+  const byDate = new Map<string, DailySourceSentiment[]>()
+  for (const row of rows) byDate.set(row.date, [...(byDate.get(row.date) ?? []), row])
+
+  return {
+    news: news ?? 0.5,
+    social: social ?? 0.5,
+    overall,
+    historicalSentiment: [...byDate.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, dayRows]) => ({ date, sentiment: weightedMean(dayRows) ?? 0.5 })),
+    sources,
+    sampleSize: sources.reduce((sum, source) => sum + source.volume, 0),
+    collectedAt: now.toISOString(),
+  }
+}
+
+let tableReady: Promise<void> | null = null
+
+export function ensureSentimentDailyTable(): Promise<void> {
+  if (!tableReady) {
+    const sql = getSql()
+    tableReady = sql`
+      CREATE TABLE IF NOT EXISTS sentiment_daily (
+        ticker VARCHAR(16) NOT NULL,
+        date DATE NOT NULL,
+        source VARCHAR(32) NOT NULL,
+        kind VARCHAR(16) NOT NULL,
+        sentiment NUMERIC NOT NULL,
+        volume INTEGER NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW(),
+        PRIMARY KEY (ticker, date, source)
+      )
+    `
+      .then(() => undefined)
+      .catch((error) => {
+        tableReady = null
+        throw error
+      })
+  }
+  return tableReady
+}
+
+export const sentimentDailyStore: SentimentStore = {
+  async loadDaily(ticker, since) {
+    await ensureSentimentDailyTable()
+    const sql = getSql()
+    const rows = await sql`
+      SELECT ticker, date, source, kind, sentiment, volume
+      FROM sentiment_daily
+      WHERE ticker = ${ticker} AND date >= ${since}
+      ORDER BY date ASC
+    `
+    return rows.map((row: any) => ({
+      ticker: row.ticker,
+      date: row.date instanceof Date ? row.date.toISOString().split("T")[0] : String(row.date).split("T")[0],
+      source: row.source,
+      kind: row.kind,
+      sentiment: Number(row.sentiment),
+      volume: Number(row.volume),
+    }))
+  },
+
+  async saveDaily(rows) {
+    await ensureSentimentDailyTable()
+    const sql = getSql()
+    for (const row of rows) {
+      await sql`
+        INSERT INTO sentiment_daily (ticker, date, source, kind, sentiment, volume, updated_at)
+        VALUES (${row.ticker}, ${row.date}, ${row.source}, ${row.kind}, ${row.sentiment}, ${row.volume}, NOW())
+        ON CONFLICT (ticker, date, source) DO UPDATE SET
+          sentiment = CASE
+            WHEN EXCLUDED.volume >= sentiment_daily.volume THEN EXCLUDED.sentiment
+            ELSE sentiment_daily.sentiment
+          END,
+          volume = GREATEST(sentiment_daily.volume, EXCLUDED.volume),
+          updated_at = NOW()
+      `
+    }
+  },
+
+  async lastCollectedAt(ticker) {
+    await ensureSentimentDailyTable()
+    const sql = getSql()
+    const rows = await sql`SELECT MAX(updated_at) AS last FROM sentiment_daily WHERE ticker = ${ticker}`
+    return rows[0]?.last ? new Date(rows[0].last) : null
+  },
+}
+
+export class SentimentPipeline {
+  private static instance: SentimentPipeline
+
+  constructor(
+    private collectors: SentimentCollector[] = [new RedditCollector(), new StockTwitsCollector(), new NewsCollector()],
+    private scorer: SentimentScorer = new LexiconScorer(),
+    private store: SentimentStore | null = sentimentDailyStore,
+  ) {}
+
+  static getInstance(): SentimentPipeline {
+    if (!SentimentPipeline.instance) {
+      SentimentPipeline.instance = new SentimentPipeline(
+        undefined,
+        undefined,
+        process.env.DATABASE_URL ? sentimentDailyStore : null,
+      )
+    }
+    return SentimentPipeline.instance
+  }
+
+  /** Run every collector for the ticker and store the daily aggregates. Failed collectors are skipped. */
+  async collect(ticker: string): Promise<DailySourceSentiment[]> {
+    const symbol = ticker.toUpperCase()
+    const since = new Date(Date.now() - COLLECTION_LOOKBACK_DAYS * 86400000)
+
+    const results = await Promise.allSettled(
+      this.collectors.map(async (collector) =>
+        aggregateDaily(symbol, collector, await collector.collect(symbol, { since }), this.scorer),
+      ),
+    )
+
+    const rows: DailySourceSentiment[] = []
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") rows.push(...result.value)
+      else console.warn(`[${symbol}] ${this.collectors[index].name} sentiment collection failed:`, result.reason)
+    })
+
+    if (this.store && rows.length > 0) {
+      await this.store
+        .saveDaily(rows)
+        .catch((error) => console.warn(`Non-critical: Failed to store sentiment for ${symbol}:`, error.message))
+    }
+    return rows
+  }
+
+  /** Sentiment summary for an analysis, collecting first unless the ticker was collected recently */
+  async getSentiment(ticker: string): Promise<SentimentSummary> {
+    const symbol = ticker.toUpperCase()
+    const since = new Date(Date.now() - COLLECTION_LOOKBACK_DAYS * 86400000).toISOString().split("T")[0]
+    const labels = Object.fromEntries(this.collectors.map((collector) => [collector.name, collector.label]))
+
+    if (!this.store) {
+      return buildSentimentSummary(await this.collect(symbol), labels)
+    }
+
+    try {
+      const lastCollected = await this.store.lastCollectedAt(symbol)
+      let collected: DailySourceSentiment[] = []
+      if (!lastCollected || Date.now() - lastCollected.getTime() > REFRESH_INTERVAL_MS) {
+        collected = await this.collect(symbol)
+      }
+
+      const stored = await this.store.loadDaily(symbol, since)
+      return buildSentimentSummary(stored.length > 0 ? stored : collected, labels)
+    } catch (error) {
+      console.warn(`Non-critical: Sentiment store unavailable for ${symbol}:`, error)
+      return buildSentimentSummary(await this.collect(symbol), labels)
+    }
+  }
+
+  /**
+   * Collect for tickers analyzed in the last 30 days so their history has no gaps on days nobody
+   * opened them. Runs sequentially to stay inside the social APIs' rate limits.
+   */
+  async collectRecentTickers(options: { limit?: number } = {}): Promise<CollectionSummary> {
+    const sql = getSql()
+    const rows = await sql`
+      SELECT ticker FROM predictions
+      WHERE prediction_date >= CURRENT_DATE - INTERVAL '30 days'
+      GROUP BY ticker
+      ORDER BY MAX(prediction_date) DESC
+      LIMIT ${options.limit ?? 50}
+    `
+
+    const summary: CollectionSummary = { checked: rows.length, collected: 0, failed: [] }
+    for (const row of rows) {
+      const collected = await this.collect(row.ticker)
+      if (collected.length > 0) summary.collected++
+      else summary.failed.push(row.ticker)
+    }
+
+    console.log(`Collected sentiment for ${summary.collected}/${summary.checked} tickers`)
+    return summary
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Sentiment pipeline contracts
+ *
+ * Collectors fetch raw posts or headlines mentioning a ticker and normalize them into SentimentPost.
+ * A SentimentScorer turns each text into a polarity in [-1, 1]; the pipeline aggregates those per
+ * source and per day. Scores exposed to the UI are rescaled to [0, 1] with 0.5 as neutral.
+ */
+
+export type SentimentSourceKind = "social" | "news"
+
+export interface SentimentPost {
+  id: string
+  source: string
+  text: string
+  createdAt: string
+  url?: string
+  /** Upvotes, likes or comments; used to weight the post in the source aggregate */
+  engagement?: number
+  /** Explicit bullish/bearish tag set by the author, when the platform supports it */
+  label?: "bullish" | "bearish"
+}
+
+export interface CollectOptions {
+  /** Only posts at or after this time are returned */
+  since?: Date
+  limit?: number
+}
+
+export interface SentimentCollector {
+  /** Stable identifier stored with daily rows, e.g. "reddit" */
+  readonly name: string
+  /** Display name for the UI */
+  readonly label: string
+  readonly kind: SentimentSourceKind
+  collect(ticker: string, options?: CollectOptions): Promise<SentimentPost[]>
+}
+
+export interface SentimentScorer {
+  readonly name: string
+  /** Polarity of the text in [-1, 1] */
+  score(text: string): number
+}
+
+export interface SourceSentiment {
+  name: string
+  sentiment: number
+  volume: number
+}
+
+export interface SentimentSummary {
+  news: number
+  social: number
+  overall: number
+  historicalSentiment: { date: string; sentiment: number }[]
+  sources: SourceSentiment[]
+  /** Number of posts and headlines behind today's scores; 0 means every value is the neutral default */
+  sampleSize: number
+  collectedAt: string
+}
@@ -0,0 +1,202 @@
+/**
+ * Market Data Cache
+ *
+ * Process-wide cache shared by every route that reads market data through MultiSourceStockClient.
+ * Entries expire per data type, concurrent requests for the same key share one upstream call,
+ * and recently expired entries are served stale while a background refresh runs.
+ */
+
+export type CacheDataType = "quote" | "candles" | "history" | "intraday" | "profile" | "news" | "technicals"
+
+export interface CachePolicy {
+  /** How long an entry is fresh, in milliseconds */
+  ttl: number
+  /** How long past ttl an entry may still be served while it is revalidated */
+  staleWhileRevalidate: number
+}
+
+export interface CacheTypeMetrics {
+  hits: number
+  staleHits: number
+  misses: number
+  coalesced: number
+  revalidations: number
+  errors: number
+}
+
+export interface CacheMetrics extends CacheTypeMetrics {
+  entries: number
+  hitRate: number
+  byType: Record<CacheDataType, CacheTypeMetrics>
+  since: string
+}
+
+interface CacheEntry<T> {
+  value: T
+  storedAt: number
+}
+
+export const DEFAULT_CACHE_POLICIES: Record<CacheDataType, CachePolicy> = {
+  quote: { ttl: 15 * 1000, staleWhileRevalidate: 45 * 1000 },
+  candles: { ttl: 60 * 60 * 1000, staleWhileRevalidate: 6 * 60 * 60 * 1000 },
+  /** Multi-year daily history for stress replay; the latest bar barely moves it */
+  history: { ttl: 24 * 60 * 60 * 1000, staleWhileRevalidate: 7 * 24 * 60 * 60 * 1000 },
+  intraday: { ttl: 60 * 1000, staleWhileRevalidate: 2 * 60 * 1000 },
+  profile: { ttl: 24 * 60 * 60 * 1000, staleWhileRevalidate: 24 * 60 * 60 * 1000 },
+  news: { ttl: 10 * 60 * 1000, staleWhileRevalidate: 30 * 60 * 1000 },
+  technicals: { ttl: 5 * 60 * 1000, staleWhileRevalidate: 15 * 60 * 1000 },
+}
+
+const DATA_TYPES = Object.keys(DEFAULT_CACHE_POLICIES) as CacheDataType[]
+
+function emptyMetrics(): CacheTypeMetrics {
+  return { hits: 0, staleHits: 0, misses: 0, coalesced: 0, revalidations: 0, errors: 0 }
+}
+
+export class MarketDataCache {
+  private static instance: MarketDataCache
+  private entries = new Map<string, CacheEntry<unknown>>()
+  private inFlight = new Map<string, Promise<unknown>>()
+  private policies: Record<CacheDataType, CachePolicy>
+  private metrics: Record<CacheDataType, CacheTypeMetrics>
+  private metricsSince = new Date()
+  private readonly maxEntries: number
+
+  constructor(
+    policies: Partial<Record<CacheDataType, Partial<CachePolicy>>> = {},
+    maxEntries = 2000,
+  ) {
+    this.policies = Object.fromEntries(
+      DATA_TYPES.map((type) => [type, { ...DEFAULT_CACHE_POLICIES[type], ...policies[type] }]),
+    ) as Record<CacheDataType, CachePolicy>
+    this.metrics = Object.fromEntries(DATA_TYPES.map((type) => [type, emptyMetrics()])) as Record<
+      CacheDataType,
+      CacheTypeMetrics
+    >
+    this.maxEntries = maxEntries
+  }
+
+  static getInstance(): MarketDataCache {
+    if (!MarketDataCache.instance) {
+      MarketDataCache.instance = new MarketDataCache()
+    }
+    return MarketDataCache.instance
+  }
+
+  /**
+   * Return the cached value for a key, or load it with the fetcher.
+   * Fresh entries are returned as-is; stale entries are returned immediately and refreshed in the background.
+   */
+  async getOrFetch<T>(type: CacheDataType, key: string, fetcher: () => Promise<T>): Promise<T> {
+    const cacheKey = `${type}:${key}`
+    const policy = this.policies[type]
+    const metrics = this.metrics[type]
+    const entry = this.entries.get(cacheKey) as CacheEntry<T> | undefined
+
+    if (entry) {
+      const age = Date.now() - entry.storedAt
+
+      if (age < policy.ttl) {
+        metrics.hits++
+        return entry.value
+      }
+
+      if (age < policy.ttl + policy.staleWhileRevalidate) {
+        metrics.staleHits++
+        if (!this.inFlight.has(cacheKey)) {
+          metrics.revalidations++
+          this.load(type, cacheKey, fetcher).catch((error) =>
+            console.warn(`[MarketDataCache] Background revalidation failed for ${cacheKey}:`, error),
+          )
+        }
+        return entry.value
+      }
+
+      this.entries.delete(cacheKey)
+    }
+
+    const pending = this.inFlight.get(cacheKey) as Promise<T> | undefined
+    if (pending) {
+      metrics.coalesced++
+      return pending
+    }
+
+    metrics.misses++
+    return this.load(type, cacheKey, fetcher)
+  }
+
+  private load<T>(type: CacheDataType, cacheKey: string, fetcher: () => Promise<T>): Promise<T> {
+    const promise = fetcher()
+      .then((value) => {
+        this.set(cacheKey, value)
+        return value
+      })
+      .catch((error) => {
+        this.metrics[type].errors++
+        throw error
+      })
+      .finally(() => {
+        this.inFlight.delete(cacheKey)
+      })
+
+    this.inFlight.set(cacheKey, promise)
+    return promise
+  }
+
+  private set<T>(cacheKey: string, value: T): void {
+    // Re-insert so Map iteration order tracks recency, then evict the oldest entries
+    this.entries.delete(cacheKey)
+    this.entries.set(cacheKey, { value, storedAt: Date.now() })
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value
+      if (oldestKey === undefined) break
+      this.entries.delete(oldestKey)
+    }
+  }
+
+  invalidate(type: CacheDataType, key?: string): void {
+    if (key) {
+      this.entries.delete(`${type}:${key}`)
+      return
+    }
+
+    for (const cacheKey of Array.from(this.entries.keys())) {
+      if (cacheKey.startsWith(`${type}:`)) this.entries.delete(cacheKey)
+    }
+  }
+
+  clear(): void {
+    this.entries.clear()
+  }
+
+  getMetrics(): CacheMetrics {
+    const totals = emptyMetrics()
+    for (const type of DATA_TYPES) {
+      for (const field of Object.keys(totals) as (keyof CacheTypeMetrics)[]) {
+        totals[field] += this.metrics[type][field]
+      }
+    }
+
+    const served = totals.hits + totals.staleHits + totals.coalesced
+    const requests = served + totals.misses
+
+    return {
+      ...totals,
+      entries: this.entries.size,
+      hitRate: requests > 0 ? Number(((served / requests) * 100).toFixed(1)) : 0,
+      byType: Object.fromEntries(DATA_TYPES.map((type) => [type, { ...this.metrics[type] }])) as Record<
+        CacheDataType,
+        CacheTypeMetrics
+      >,
+      since: this.metricsSince.toISOString(),
+    }
+  }
+
+  resetMetrics(): void {
+    for (const type of DATA_TYPES) {
+      this.metrics[type] = emptyMetrics()
+    }
+    this.metricsSince = new Date()
+  }
+}
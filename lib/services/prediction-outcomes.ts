@@ -0,0 +1,333 @@
+import { getSql } from "@/lib/db/sql"
+import { MultiSourceStockClient } from "@/lib/api/multi-source-client"
+import type { HistoricalCandle } from "@/lib/api/providers/types"
+
+/**
+ * Prediction outcome tracking
+ *
+ * Grades rows in the predictions table once their target_date has passed: the actual close on the
+ * target date is compared with predicted_price and with the predicted direction. Outcomes are kept in
+ * prediction_outcomes (one row per prediction) and rolled up into accuracy and calibration metrics.
+ */
+
+export interface PredictionRow {
+  id: number
+  ticker: string
+  prediction_date: string
+  target_date: string
+  timeframe: string
+  current_price: number
+  predicted_price: number
+  confidence_score: number
+  direction: string
+  model_version: string
+}
+
+export interface PredictionOutcome {
+  predictionId: number
+  ticker: string
+  timeframe: string
+  modelVersion: string
+  targetDate: string
+  /** Date of the close the prediction was graded against (last trading day on or before target_date) */
+  actualDate: string
+  predictedPrice: number
+  actualPrice: number
+  /** (actual - predicted) / predicted */
+  percentError: number
+  /** null when the stored prediction has no baseline price to measure direction from */
+  directionCorrect: boolean | null
+  confidence: number
+}
+
+export interface AccuracyMetrics {
+  resolved: number
+  directionalAccuracy: number | null
+  meanAbsolutePercentError: number | null
+  meanConfidence: number | null
+  /** Mean squared gap between confidence and the 0/1 direction outcome; 0 is perfect */
+  brierScore: number | null
+}
+
+export interface CalibrationBin {
+  range: [number, number]
+  count: number
+  meanConfidence: number
+  observedAccuracy: number
+}
+
+export interface AccuracyReport {
+  overall: AccuracyMetrics
+  byTicker: Record<string, AccuracyMetrics>
+  byTimeframe: Record<string, AccuracyMetrics>
+  byModelVersion: Record<string, AccuracyMetrics>
+  calibration: CalibrationBin[]
+  calibrationByModelVersion: Record<string, CalibrationBin[]>
+  generatedAt: string
+}
+
+export interface ResolutionSummary {
+  checked: number
+  resolved: number
+  /** Resolved predictions that called the direction right */
+  directionCorrect: number
+  skipped: { predictionId: number; ticker: string; reason: string }[]
+}
+
+export type CandleLoader = (ticker: string, days: number) => Promise<HistoricalCandle[]>
+
+/** Closes older than this before the target date are not trusted as the target-date price */
+const MAX_CLOSE_STALENESS_DAYS = 5
+
+let tableReady: Promise<void> | null = null
+
+export function ensurePredictionOutcomesTable(): Promise<void> {
+  if (!tableReady) {
+    const sql = getSql()
+    tableReady = sql`
+      CREATE TABLE IF NOT EXISTS prediction_outcomes (
+        id SERIAL PRIMARY KEY,
+        prediction_id INTEGER NOT NULL UNIQUE,
+        ticker VARCHAR(16) NOT NULL,
+        timeframe VARCHAR(16),
+        model_version VARCHAR(64),
+        target_date DATE NOT NULL,
+        actual_date DATE NOT NULL,
+        predicted_price NUMERIC NOT NULL,
+        actual_price NUMERIC NOT NULL,
+        percent_error NUMERIC NOT NULL,
+        direction_correct BOOLEAN,
+        confidence_score NUMERIC,
+        resolved_at TIMESTAMP DEFAULT NOW()
+      )
+    `
+      .then(() => undefined)
+      .catch((error) => {
+        tableReady = null
+        throw error
+      })
+  }
+  return tableReady
+}
+
+export function gradePrediction(prediction: PredictionRow, actual: HistoricalCandle): PredictionOutcome {
+  const predictedPrice = Number(prediction.predicted_price)
+  const baseline = Number(prediction.current_price)
+  const actualPrice = actual.close
+
+  let directionCorrect: boolean | null = null
+  if (baseline > 0) {
+    const actualDirection = actualPrice > baseline ? "up" : actualPrice < baseline ? "down" : "flat"
+    directionCorrect = actualDirection === prediction.direction
+  }
+
+  return {
+    predictionId: prediction.id,
+    ticker: prediction.ticker,
+    timeframe: prediction.timeframe,
+    modelVersion: prediction.model_version,
+    targetDate: toDateString(prediction.target_date),
+    actualDate: actual.date.split("T")[0],
+    predictedPrice,
+    actualPrice,
+    percentError: predictedPrice > 0 ? (actualPrice - predictedPrice) / predictedPrice : 0,
+    directionCorrect,
+    confidence: normalizeConfidence(Number(prediction.confidence_score)),
+  }
+}
+
+/** The last close on or before the target date, provided it is recent enough to stand in for it */
+export function findCloseForDate(candles: HistoricalCandle[], targetDate: string): HistoricalCandle | null {
+  const target = new Date(`${toDateString(targetDate)}T23:59:59Z`).getTime()
+  let match: HistoricalCandle | null = null
+
+  for (const candle of candles) {
+    const time = new Date(candle.date).getTime()
+    if (time <= target && (!match || time > new Date(match.date).getTime())) match = candle
+  }
+
+  if (!match || target - new Date(match.date).getTime() > MAX_CLOSE_STALENESS_DAYS * 86400000) return null
+  return match
+}
+
+export function summarizeOutcomes(outcomes: PredictionOutcome[]): AccuracyMetrics {
+  const directional = outcomes.filter((outcome) => outcome.directionCorrect !== null)
+  const mean = (values: number[]) => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null)
+
+  return {
+    resolved: outcomes.length,
+    directionalAccuracy: mean(directional.map((outcome) => (outcome.directionCorrect ? 1 : 0))),
+    meanAbsolutePercentError: mean(outcomes.map((outcome) => Math.abs(outcome.percentError))),
+    meanConfidence: mean(outcomes.map((outcome) => outcome.confidence)),
+    brierScore: mean(directional.map((outcome) => Math.pow(outcome.confidence - (outcome.directionCorrect ? 1 : 0), 2))),
+  }
+}
+
+/** Bucket predictions by stated confidence and compare with how often the direction was right */
+export function calibrationCurve(outcomes: PredictionOutcome[], binCount = 10): CalibrationBin[] {
+  const bins: { confidences: number[]; hits: number }[] = Array.from({ length: binCount }, () => ({
+    confidences: [],
+    hits: 0,
+  }))
+
+  for (const outcome of outcomes) {
+    if (outcome.directionCorrect === null) continue
+    const index = Math.min(binCount - 1, Math.floor(outcome.confidence * binCount))
+    bins[index].confidences.push(outcome.confidence)
+    if (outcome.directionCorrect) bins[index].hits++
+  }
+
+  return bins.flatMap((bin, index) =>
+    bin.confidences.length === 0
+      ? []
+      : [
+          {
+            range: [index / binCount, (index + 1) / binCount] as [number, number],
+            count: bin.confidences.length,
+            meanConfidence: bin.confidences.reduce((sum, c) => sum + c, 0) / bin.confidences.length,
+            observedAccuracy: bin.hits / bin.confidences.length,
+          },
+        ],
+  )
+}
+
+export function buildAccuracyReport(outcomes: PredictionOutcome[]): AccuracyReport {
+  const groupBy = (key: (outcome: PredictionOutcome) => string) => {
+    const groups: Record<string, PredictionOutcome[]> = {}
+    for (const outcome of outcomes) {
+      const group = key(outcome) || "unknown"
+      ;(groups[group] ||= []).push(outcome)
+    }
+    return groups
+  }
+  const summarizeGroups = (groups: Record<string, PredictionOutcome[]>) =>
+    Object.fromEntries(Object.entries(groups).map(([group, items]) => [group, summarizeOutcomes(items)]))
+
+  const byModel = groupBy((outcome) => outcome.modelVersion)
+
+  return {
+    overall: summarizeOutcomes(outcomes),
+    byTicker: summarizeGroups(groupBy((outcome) => outcome.ticker)),
+    byTimeframe: summarizeGroups(groupBy((outcome) => outcome.timeframe)),
+    byModelVersion: summarizeGroups(byModel),
+    calibration: calibrationCurve(outcomes),
+    calibrationByModelVersion: Object.fromEntries(
+      Object.entries(byModel).map(([model, items]) => [model, calibrationCurve(items)]),
+    ),
+    generatedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Grade every prediction whose target date has passed and that has no outcome yet.
+ * Candles are loaded once per ticker, covering its oldest pending prediction.
+ */
+export async function resolveMaturedPredictions(
+  options: { limit?: number; loadCandles?: CandleLoader } = {},
+): Promise<ResolutionSummary> {
+  const limit = options.limit ?? 200
+  const loadCandles: CandleLoader =
+    options.loadCandles ?? ((ticker, days) => new MultiSourceStockClient().getHistoricalData(ticker, days))
+
+  await ensurePredictionOutcomesTable()
+  const sql = getSql()
+
+  const pending = (await sql`
+    SELECT p.id, p.ticker, p.prediction_date, p.target_date, p.timeframe, p.current_price,
+           p.predicted_price, p.confidence_score, p.direction, p.model_version
+    FROM predictions p
+    LEFT JOIN prediction_outcomes o ON o.prediction_id = p.id
+    WHERE o.id IS NULL
+      AND p.target_date < CURRENT_DATE
+      AND p.predicted_price IS NOT NULL
+    ORDER BY p.target_date ASC
+    LIMIT ${limit}
+  `) as PredictionRow[]
+
+  const summary: ResolutionSummary = { checked: pending.length, resolved: 0, directionCorrect: 0, skipped: [] }
+  const byTicker = new Map<string, PredictionRow[]>()
+  for (const row of pending) {
+    const ticker = row.ticker.toUpperCase()
+    byTicker.set(ticker, [...(byTicker.get(ticker) || []), row])
+  }
+
+  for (const [ticker, rows] of byTicker) {
+    const oldestTarget = Math.min(...rows.map((row) => new Date(toDateString(row.target_date)).getTime()))
+    const days = Math.ceil((Date.now() - oldestTarget) / 86400000) + MAX_CLOSE_STALENESS_DAYS + 5
+
+    let candles: HistoricalCandle[]
+    try {
+      candles = await loadCandles(ticker, days)
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      rows.forEach((row) => summary.skipped.push({ predictionId: row.id, ticker, reason }))
+      continue
+    }
+
+    for (const row of rows) {
+      const close = findCloseForDate(candles, row.target_date)
+      if (!close) {
+        summary.skipped.push({ predictionId: row.id, ticker, reason: "No close available for target date" })
+        continue
+      }
+
+      const outcome = gradePrediction(row, close)
+      await sql`
+        INSERT INTO prediction_outcomes (
+          prediction_id, ticker, timeframe, model_version, target_date, actual_date,
+          predicted_price, actual_price, percent_error, direction_correct, confidence_score
+        ) VALUES (
+          ${outcome.predictionId}, ${ticker}, ${outcome.timeframe}, ${outcome.modelVersion},
+          ${outcome.targetDate}, ${outcome.actualDate}, ${outcome.predictedPrice}, ${outcome.actualPrice},
+          ${outcome.percentError}, ${outcome.directionCorrect}, ${outcome.confidence}
+        )
+        ON CONFLICT (prediction_id) DO NOTHING
+      `
+      summary.resolved++
+      if (outcome.directionCorrect) summary.directionCorrect++
+    }
+  }
+
+  console.log(`Resolved ${summary.resolved}/${summary.checked} matured predictions`)
+  return summary
+}
+
+export async function getAccuracyReport(filters: { ticker?: string; modelVersion?: string } = {}) {
+  await ensurePredictionOutcomesTable()
+  const sql = getSql()
+
+  const rows = await sql`
+    SELECT prediction_id, ticker, timeframe, model_version, target_date, actual_date,
+           predicted_price, actual_price, percent_error, direction_correct, confidence_score
+    FROM prediction_outcomes
+    WHERE (${filters.ticker || null}::text IS NULL OR ticker = ${filters.ticker || null})
+      AND (${filters.modelVersion || null}::text IS NULL OR model_version = ${filters.modelVersion || null})
+    ORDER BY target_date DESC
+  `
+
+  const outcomes: PredictionOutcome[] = rows.map((row: any) => ({
+    predictionId: row.prediction_id,
+    ticker: row.ticker,
+    timeframe: row.timeframe,
+    modelVersion: row.model_version,
+    targetDate: toDateString(row.target_date),
+    actualDate: toDateString(row.actual_date),
+    predictedPrice: Number(row.predicted_price),
+    actualPrice: Number(row.actual_price),
+    percentError: Number(row.percent_error),
+    directionCorrect: row.direction_correct,
+    confidence: Number(row.confidence_score),
+  }))
+
+  return buildAccuracyReport(outcomes)
+}
+
+/** confidence_score has been stored both as a fraction and as a percentage */
+function normalizeConfidence(value: number): number {
+  if (!Number.isFinite(value)) return 0
+  return value > 1 ? value / 100 : value
+}
+
+function toDateString(value: string | Date): string {
+  return value instanceof Date ? value.toISOString().split("T")[0] : String(value).split("T")[0]
+}
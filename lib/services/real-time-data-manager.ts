@@ -4,6 +4,7 @@
  */
 
 import { MarketDataSync } from "./market-data-sync"
+import { RealTimeManager } from "@/lib/real-time/real-time-manager"
 import type { RealTimeMarketData } from "./production-market-data-client"
 
 export interface DataSubscription {
@@ -99,20 +100,22 @@ export class RealTimeDataManager {
       }, 0)
     }
 
-    // Subscribe to market data sync
-    const unsubscribeMarketSync = this.marketDataSync.subscribe(normalizedSymbol, (marketData) => {
+    // Subscribe to the server quote stream, which carries polled quotes and websocket trade bars
+    const unsubscribeQuotes = RealTimeManager.getInstance().subscribe(normalizedSymbol, (marketData) => {
+      const previous = this.dataCache.get(normalizedSymbol)
+
       // Convert to RealTimeMarketData format
       const realTimeData: RealTimeMarketData = {
         symbol: normalizedSymbol,
         price: marketData.price,
         change: marketData.change,
         changePercent: marketData.changePercent,
-        high: marketData.high || marketData.price * 1.01, // Fallback if not provided
-        low: marketData.low || marketData.price * 0.99, // Fallback if not provided
-        open: marketData.open || marketData.price, // Fallback if not provided
+        high: Math.max(previous?.high ?? 0, marketData.bar?.high ?? marketData.price),
+        low: Math.min(previous?.low ?? Infinity, marketData.bar?.low ?? marketData.price),
+        open: previous?.open ?? marketData.bar?.open ?? marketData.price,
         volume: marketData.volume || 0,
-        marketCap: marketData.marketCap || 0,
-        timestamp: Date.now(),
+        marketCap: previous?.marketCap ?? 0,
+        timestamp: marketData.timestamp.getTime(),
         source: marketData.source || "Real-Time API",
         dataQuality: {
           accuracy: 99.9, // Default high accuracy
@@ -159,8 +162,7 @@ export class RealTimeDataManager {
         }
       }
 
-      // Unsubscribe from market data sync
-      unsubscribeMarketSync()
+      unsubscribeQuotes()
     }
   }
 
@@ -0,0 +1,262 @@
+import { getSql } from "@/lib/db/sql"
+import { MultiSourceStockClient } from "@/lib/api/multi-source-client"
+import { TechnicalAnalysis } from "@/lib/utils/technical-analysis"
+import type { CompanyInfo, HistoricalCandle } from "@/lib/api/providers/types"
+import type { StockProfile } from "@/lib/analysis/precision-recommendation-engine"
+
+/**
+ * Ticker profile service
+ *
+ * Derives the StockProfile used by the recommendation engine from market data instead of a
+ * hand-maintained table: sector from the company profile, market-cap and realized-volatility buckets,
+ * and a growth/value lean scored from valuation and revenue growth. Profiles are stored in
+ * ticker_profiles and recomputed once they are older than PROFILE_MAX_AGE_MS.
+ */
+
+export interface TickerProfile extends StockProfile {
+  marketCapValue: number
+  /** Annualized volatility of daily returns over the last year; null when candles were unavailable */
+  realizedVolatility: number | null
+  updatedAt: string
+}
+
+export interface ProfileRefreshSummary {
+  checked: number
+  refreshed: number
+  failed: string[]
+}
+
+export const PROFILE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000
+
+/** Upper bounds for each bucket; anything above the last bound falls in the top bucket */
+export const MARKET_CAP_BOUNDS = { small: 2e9, mid: 10e9 }
+export const VOLATILITY_BOUNDS = { low: 0.25, medium: 0.45 }
+
+const VOLATILITY_WINDOW = 252
+
+export function marketCapBucket(marketCap: number): StockProfile["marketCap"] {
+  if (marketCap > 0 && marketCap < MARKET_CAP_BOUNDS.small) return "small"
+  if (marketCap > 0 && marketCap < MARKET_CAP_BOUNDS.mid) return "mid"
+  // Unknown market cap keeps the engine's historical default
+  return "large"
+}
+
+export function volatilityBucket(annualizedVolatility: number | null): StockProfile["volatilityProfile"] {
+  if (annualizedVolatility === null) return "medium"
+  if (annualizedVolatility < VOLATILITY_BOUNDS.low) return "low"
+  if (annualizedVolatility < VOLATILITY_BOUNDS.medium) return "medium"
+  return "high"
+}
+
+/**
+ * Score each available signal +1 (growth) or -1 (value) and classify on the net lean.
+ * Missing fields contribute nothing, so a sparse profile stays "balanced".
+ */
+export function growthProfile(info: Partial<CompanyInfo> | null): StockProfile["growthProfile"] {
+  if (!info) return "balanced"
+  let score = 0
+
+  if (typeof info.revenueGrowth === "number") {
+    if (info.revenueGrowth >= 0.15) score++
+    else if (info.revenueGrowth < 0.05) score--
+  }
+  if (info.pe && info.pe > 0) {
+    if (info.pe > 30) score++
+    else if (info.pe < 15) score--
+  }
+  if (info.priceToBook && info.priceToBook > 0) {
+    if (info.priceToBook > 6) score++
+    else if (info.priceToBook < 2) score--
+  }
+  if (info.dividend && info.dividend >= 2.5) score--
+
+  if (score >= 2) return "growth"
+  if (score <= -2) return "value"
+  return "balanced"
+}
+
+export function realizedVolatility(candles: HistoricalCandle[]): number | null {
+  const closes = candles.slice(-VOLATILITY_WINDOW).map((candle) => candle.close)
+  if (closes.length < 20) return null
+  return TechnicalAnalysis.calculateVolatility(closes)
+}
+
+export function classifyTicker(
+  ticker: string,
+  info: Partial<CompanyInfo> | null,
+  candles: HistoricalCandle[],
+): TickerProfile {
+  const volatility = realizedVolatility(candles)
+  const marketCap = info?.marketCap || 0
+
+  return {
+    ticker: ticker.toUpperCase(),
+    sector: info?.sector ? info.sector.toLowerCase() : "general",
+    industry: info?.industry ? info.industry.toLowerCase() : undefined,
+    volatilityProfile: volatilityBucket(volatility),
+    growthProfile: growthProfile(info),
+    marketCap: marketCapBucket(marketCap),
+    marketCapValue: marketCap,
+    realizedVolatility: volatility,
+    updatedAt: new Date().toISOString(),
+  }
+}
+
+let tableReady: Promise<void> | null = null
+
+export function ensureTickerProfilesTable(): Promise<void> {
+  if (!tableReady) {
+    const sql = getSql()
+    tableReady = sql`
+      CREATE TABLE IF NOT EXISTS ticker_profiles (
+        ticker VARCHAR(16) PRIMARY KEY,
+        sector VARCHAR(128) NOT NULL,
+        industry VARCHAR(128),
+        volatility_profile VARCHAR(16) NOT NULL,
+        growth_profile VARCHAR(16) NOT NULL,
+        market_cap VARCHAR(16) NOT NULL,
+        market_cap_value NUMERIC,
+        realized_volatility NUMERIC,
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `
+      .then(() => undefined)
+      .catch((error) => {
+        tableReady = null
+        throw error
+      })
+  }
+  return tableReady
+}
+
+/** Fetch fundamentals and a year of candles, classify, and store the result */
+export async function refreshTickerProfile(
+  ticker: string,
+  client: MultiSourceStockClient = new MultiSourceStockClient(),
+): Promise<TickerProfile> {
+  const symbol = ticker.toUpperCase()
+  const [info, candles] = await Promise.all([
+    client.getCompanyInfo(symbol).catch(() => null),
+    client.getHistoricalData(symbol, 365).catch(() => [] as HistoricalCandle[]),
+  ])
+
+  if (!info && candles.length === 0) {
+    throw new Error(`No profile data available for ${symbol}`)
+  }
+
+  const profile = classifyTicker(symbol, info, candles)
+  await saveTickerProfile(profile).catch((error) =>
+    console.warn(`Non-critical: Failed to store profile for ${symbol}:`, error.message),
+  )
+  return profile
+}
+
+/**
+ * Stored profile for a ticker, recomputed when missing or older than PROFILE_MAX_AGE_MS.
+ * Never throws: a stale profile beats none, and the neutral default is the last resort.
+ */
+export async function getTickerProfile(
+  ticker: string,
+  client: MultiSourceStockClient = new MultiSourceStockClient(),
+): Promise<TickerProfile> {
+  const symbol = ticker.toUpperCase()
+  const stored = await loadTickerProfile(symbol).catch((error) => {
+    console.warn(`Non-critical: Failed to load stored profile for ${symbol}:`, error.message)
+    return null
+  })
+
+  if (stored && Date.now() - new Date(stored.updatedAt).getTime() < PROFILE_MAX_AGE_MS) {
+    return stored
+  }
+
+  try {
+    return await refreshTickerProfile(symbol, client)
+  } catch (error) {
+    console.warn(`Profile refresh failed for ${symbol}:`, error)
+    return stored ?? classifyTicker(symbol, null, [])
+  }
+}
+
+/**
+ * Recompute stale profiles plus any recently predicted ticker that has never been profiled.
+ * Runs sequentially to stay inside provider rate limits.
+ */
+export async function refreshStaleProfiles(options: { limit?: number } = {}): Promise<ProfileRefreshSummary> {
+  const limit = options.limit ?? 50
+  await ensureTickerProfilesTable()
+  const sql = getSql()
+  const cutoff = new Date(Date.now() - PROFILE_MAX_AGE_MS).toISOString()
+
+  const rows = await sql`
+    SELECT ticker FROM (
+      SELECT ticker, updated_at FROM ticker_profiles WHERE updated_at < ${cutoff}
+      UNION
+      SELECT DISTINCT p.ticker, NULL::timestamp AS updated_at
+      FROM predictions p
+      LEFT JOIN ticker_profiles tp ON tp.ticker = p.ticker
+      WHERE tp.ticker IS NULL AND p.prediction_date >= CURRENT_DATE - INTERVAL '30 days'
+    ) pending
+    ORDER BY updated_at ASC NULLS FIRST
+    LIMIT ${limit}
+  `
+
+  const client = new MultiSourceStockClient()
+  const summary: ProfileRefreshSummary = { checked: rows.length, refreshed: 0, failed: [] }
+
+  for (const row of rows) {
+    try {
+      await refreshTickerProfile(row.ticker, client)
+      summary.refreshed++
+    } catch (error) {
+      console.warn(`Profile refresh failed for ${row.ticker}:`, error)
+      summary.failed.push(row.ticker)
+    }
+  }
+
+  console.log(`Refreshed ${summary.refreshed}/${summary.checked} ticker profiles`)
+  return summary
+}
+
+async function loadTickerProfile(ticker: string): Promise<TickerProfile | null> {
+  await ensureTickerProfilesTable()
+  const sql = getSql()
+  const rows = await sql`SELECT * FROM ticker_profiles WHERE ticker = ${ticker}`
+  if (rows.length === 0) return null
+
+  const row = rows[0]
+  return {
+    ticker: row.ticker,
+    sector: row.sector,
+    industry: row.industry ?? undefined,
+    volatilityProfile: row.volatility_profile,
+    growthProfile: row.growth_profile,
+    marketCap: row.market_cap,
+    marketCapValue: Number(row.market_cap_value) || 0,
+    realizedVolatility: row.realized_volatility === null ? null : Number(row.realized_volatility),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  }
+}
+
+async function saveTickerProfile(profile: TickerProfile): Promise<void> {
+  await ensureTickerProfilesTable()
+  const sql = getSql()
+  await sql`
+    INSERT INTO ticker_profiles (
+      ticker, sector, industry, volatility_profile, growth_profile,
+      market_cap, market_cap_value, realized_volatility, updated_at
+    ) VALUES (
+      ${profile.ticker}, ${profile.sector}, ${profile.industry ?? null}, ${profile.volatilityProfile},
+      ${profile.growthProfile}, ${profile.marketCap}, ${profile.marketCapValue}, ${profile.realizedVolatility},
+      ${profile.updatedAt}
+    )
+    ON CONFLICT (ticker) DO UPDATE SET
+      sector = EXCLUDED.sector,
+      industry = EXCLUDED.industry,
+      volatility_profile = EXCLUDED.volatility_profile,
+      growth_profile = EXCLUDED.growth_profile,
+      market_cap = EXCLUDED.market_cap,
+      market_cap_value = EXCLUDED.market_cap_value,
+      realized_volatility = EXCLUDED.realized_volatility,
+      updated_at = EXCLUDED.updated_at
+  `
+}
@@ -1,67 +1,309 @@
+import type { HistoricalCandle, TechnicalIndicatorSnapshot } from "@/lib/api/providers/types"
+
+/**
+ * Indicator series are aligned index-for-index with the input prices.
+ * Positions without enough history for the indicator are null.
+ */
+export type IndicatorSeries = (number | null)[]
+
+export interface MACDSeries {
+  macd: IndicatorSeries
+  signal: IndicatorSeries
+  histogram: IndicatorSeries
+}
+
+export interface BollingerSeries {
+  upper: IndicatorSeries
+  middle: IndicatorSeries
+  lower: IndicatorSeries
+  width: IndicatorSeries
+}
+
+/** The subset of a candle the volume/range indicators need */
+export type OHLCVCandle = Pick<HistoricalCandle, "high" | "low" | "close" | "volume">
+
+export interface StochasticSeries {
+  k: IndicatorSeries
+  d: IndicatorSeries
+}
+
+export interface ADXSeries {
+  adx: IndicatorSeries
+  plusDI: IndicatorSeries
+  minusDI: IndicatorSeries
+}
+
+/**
+ * Ichimoku lines aligned to the candle they are plotted on: the spans are shifted forward by the
+ * displacement and the lagging span backward, so the projected cloud beyond the last candle is dropped.
+ */
+export interface IchimokuSeries {
+  conversion: IndicatorSeries
+  base: IndicatorSeries
+  spanA: IndicatorSeries
+  spanB: IndicatorSeries
+  lagging: IndicatorSeries
+}
+
+/** Number of trailing points returned in the historical series of an indicator snapshot */
+const SNAPSHOT_HISTORY_LENGTH = 50
+
 export class TechnicalAnalysis {
-  static calculateSMA(prices: number[], period: number): number {
-    if (prices.length < period) return prices[prices.length - 1] || 0
-    const sum = prices.slice(-period).reduce((a, b) => a + b, 0)
-    return sum / period
+  // ---- Full series ----
+
+  /** Simple moving average; leading nulls in the input are skipped */
+  static smaSeries(values: IndicatorSeries, period: number): IndicatorSeries {
+    const series: IndicatorSeries = new Array(values.length).fill(null)
+    const start = values.findIndex((value) => value !== null)
+    if (start === -1) return series
+    let sum = 0
+
+    for (let i = start; i < values.length; i++) {
+      sum += values[i] as number
+      if (i - start >= period) sum -= values[i - period] as number
+      if (i - start >= period - 1) series[i] = sum / period
+    }
+
+    return series
   }
 
-  static calculateEMA(prices: number[], period: number): number {
-    if (prices.length === 0) return 0
-    if (prices.length === 1) return prices[0]
+  /** EMA seeded with the SMA of the first `period` values; leading nulls in the input are skipped */
+  static emaSeries(values: IndicatorSeries, period: number): IndicatorSeries {
+    const series: IndicatorSeries = new Array(values.length).fill(null)
+    const start = values.findIndex((value) => value !== null)
+    if (start === -1 || values.length - start < period) return series
 
     const multiplier = 2 / (period + 1)
-    let ema = prices[0]
+    let ema = 0
+    for (let i = start; i < start + period; i++) ema += values[i] as number
+    ema /= period
+    series[start + period - 1] = ema
 
-    for (let i = 1; i < prices.length; i++) {
-      ema = prices[i] * multiplier + ema * (1 - multiplier)
+    for (let i = start + period; i < values.length; i++) {
+      ema = (values[i] as number) * multiplier + ema * (1 - multiplier)
+      series[i] = ema
     }
 
-    return ema
+    return series
   }
 
-  static calculateRSI(prices: number[], period = 14): number {
-    if (prices.length < period + 1) return 50
-
-    let gains = 0
-    let losses = 0
+  /** Wilder's RSI: simple average of the first `period` changes, then smoothed with alpha = 1/period */
+  static rsiSeries(prices: number[], period = 14): IndicatorSeries {
+    const series: IndicatorSeries = new Array(prices.length).fill(null)
+    if (prices.length < period + 1) return series
 
+    let avgGain = 0
+    let avgLoss = 0
     for (let i = 1; i <= period; i++) {
       const change = prices[i] - prices[i - 1]
-      if (change > 0) gains += change
-      else losses -= change
+      if (change > 0) avgGain += change
+      else avgLoss -= change
+    }
+    avgGain /= period
+    avgLoss /= period
+    series[period] = this.rsiFromAverages(avgGain, avgLoss)
+
+    for (let i = period + 1; i < prices.length; i++) {
+      const change = prices[i] - prices[i - 1]
+      avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period
+      avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period
+      series[i] = this.rsiFromAverages(avgGain, avgLoss)
     }
 
-    const avgGain = gains / period
-    const avgLoss = losses / period
+    return series
+  }
 
-    if (avgLoss === 0) return 100
+  static macdSeries(prices: number[], fastPeriod = 12, slowPeriod = 26, signalPeriod = 9): MACDSeries {
+    const fast = this.emaSeries(prices, fastPeriod)
+    const slow = this.emaSeries(prices, slowPeriod)
+    const macd = prices.map((_, i) => (fast[i] !== null && slow[i] !== null ? fast[i]! - slow[i]! : null))
+    const signal = this.emaSeries(macd, signalPeriod)
+    const histogram = macd.map((value, i) => (value !== null && signal[i] !== null ? value - signal[i]! : null))
 
-    const rs = avgGain / avgLoss
-    return 100 - 100 / (1 + rs)
+    return { macd, signal, histogram }
+  }
+
+  static bollingerSeries(prices: number[], period = 20, stdDev = 2): BollingerSeries {
+    const middle = this.smaSeries(prices, period)
+    const upper: IndicatorSeries = new Array(prices.length).fill(null)
+    const lower: IndicatorSeries = new Array(prices.length).fill(null)
+    const width: IndicatorSeries = new Array(prices.length).fill(null)
+
+    for (let i = period - 1; i < prices.length; i++) {
+      const sma = middle[i]!
+      const window = prices.slice(i - period + 1, i + 1)
+      const variance = window.reduce((sum, price) => sum + Math.pow(price - sma, 2), 0) / period
+      const band = Math.sqrt(variance) * stdDev
+      upper[i] = sma + band
+      lower[i] = sma - band
+      width[i] = sma === 0 ? 0 : ((band * 2) / sma) * 100
+    }
+
+    return { upper, middle, lower, width }
+  }
+
+  /** Average True Range with Wilder smoothing */
+  static atrSeries(candles: OHLCVCandle[], period = 14): IndicatorSeries {
+    return this.wilderSmooth(this.trueRanges(candles), period)
+  }
+
+  /** Slow stochastic: %K over `kPeriod` candles, %D as the `dPeriod` SMA of %K */
+  static stochasticSeries(candles: OHLCVCandle[], kPeriod = 14, dPeriod = 3): StochasticSeries {
+    const k: IndicatorSeries = new Array(candles.length).fill(null)
+
+    for (let i = kPeriod - 1; i < candles.length; i++) {
+      const window = candles.slice(i - kPeriod + 1, i + 1)
+      const highest = Math.max(...window.map((candle) => candle.high))
+      const lowest = Math.min(...window.map((candle) => candle.low))
+      k[i] = highest === lowest ? 50 : ((candles[i].close - lowest) / (highest - lowest)) * 100
+    }
+
+    return { k, d: this.smaSeries(k, dPeriod) }
+  }
+
+  /** Wilder's directional movement system: +DI, -DI and the smoothed ADX */
+  static adxSeries(candles: OHLCVCandle[], period = 14): ADXSeries {
+    const plusDM: number[] = []
+    const minusDM: number[] = []
+
+    for (let i = 1; i < candles.length; i++) {
+      const upMove = candles[i].high - candles[i - 1].high
+      const downMove = candles[i - 1].low - candles[i].low
+      plusDM.push(upMove > downMove && upMove > 0 ? upMove : 0)
+      minusDM.push(downMove > upMove && downMove > 0 ? downMove : 0)
+    }
+
+    const trueRanges = this.trueRanges(candles).slice(1)
+    const smoothedTR = this.wilderSmooth(trueRanges, period, "sum")
+    const smoothedPlus = this.wilderSmooth(plusDM, period, "sum")
+    const smoothedMinus = this.wilderSmooth(minusDM, period, "sum")
+
+    const plusDI: IndicatorSeries = [null]
+    const minusDI: IndicatorSeries = [null]
+    const dx: IndicatorSeries = []
+    for (let i = 0; i < trueRanges.length; i++) {
+      const tr = smoothedTR[i]
+      if (tr === null || tr === 0) {
+        plusDI.push(tr === 0 ? 0 : null)
+        minusDI.push(tr === 0 ? 0 : null)
+        dx.push(tr === 0 ? 0 : null)
+        continue
+      }
+      const plus = (smoothedPlus[i]! / tr) * 100
+      const minus = (smoothedMinus[i]! / tr) * 100
+      plusDI.push(plus)
+      minusDI.push(minus)
+      dx.push(plus + minus === 0 ? 0 : (Math.abs(plus - minus) / (plus + minus)) * 100)
+    }
+
+    return { adx: [null, ...this.wilderSmooth(dx, period)], plusDI, minusDI }
+  }
+
+  /** On-Balance Volume, starting from zero at the first candle */
+  static obvSeries(candles: OHLCVCandle[]): number[] {
+    const series: number[] = []
+    let obv = 0
+
+    candles.forEach((candle, i) => {
+      if (i > 0) {
+        if (candle.close > candles[i - 1].close) obv += candle.volume
+        else if (candle.close < candles[i - 1].close) obv -= candle.volume
+      }
+      series.push(obv)
+    })
+
+    return series
+  }
+
+  /**
+   * Volume-weighted average of the typical price. Anchored at the first candle by default,
+   * or rolling over the last `period` candles when a period is given.
+   */
+  static vwapSeries(candles: OHLCVCandle[], period?: number): IndicatorSeries {
+    const series: IndicatorSeries = new Array(candles.length).fill(null)
+    let priceVolume = 0
+    let volume = 0
+
+    for (let i = 0; i < candles.length; i++) {
+      const typicalPrice = (candles[i].high + candles[i].low + candles[i].close) / 3
+      priceVolume += typicalPrice * candles[i].volume
+      volume += candles[i].volume
+      if (period && i >= period) {
+        const dropped = candles[i - period]
+        priceVolume -= ((dropped.high + dropped.low + dropped.close) / 3) * dropped.volume
+        volume -= dropped.volume
+      }
+      if (!period || i >= period - 1) series[i] = volume > 0 ? priceVolume / volume : typicalPrice
+    }
+
+    return series
+  }
+
+  static ichimokuSeries(
+    candles: OHLCVCandle[],
+    conversionPeriod = 9,
+    basePeriod = 26,
+    spanBPeriod = 52,
+    displacement = 26,
+  ): IchimokuSeries {
+    const conversion = this.midpointSeries(candles, conversionPeriod)
+    const base = this.midpointSeries(candles, basePeriod)
+    const spanBRaw = this.midpointSeries(candles, spanBPeriod)
+    const spanA: IndicatorSeries = new Array(candles.length).fill(null)
+    const spanB: IndicatorSeries = new Array(candles.length).fill(null)
+    const lagging: IndicatorSeries = new Array(candles.length).fill(null)
+
+    for (let i = 0; i < candles.length; i++) {
+      const source = i - displacement
+      if (source >= 0) {
+        if (conversion[source] !== null && base[source] !== null) {
+          spanA[i] = (conversion[source]! + base[source]!) / 2
+        }
+        spanB[i] = spanBRaw[source]
+      }
+      if (i + displacement < candles.length) lagging[i] = candles[i + displacement].close
+    }
+
+    return { conversion, base, spanA, spanB, lagging }
+  }
+
+  // ---- Latest values ----
+
+  static calculateSMA(prices: number[], period: number): number {
+    if (prices.length < period) return prices[prices.length - 1] || 0
+    return this.last(this.smaSeries(prices, period)) ?? 0
+  }
+
+  static calculateEMA(prices: number[], period: number): number {
+    if (prices.length < period) return prices[prices.length - 1] || 0
+    return this.last(this.emaSeries(prices, period)) ?? 0
+  }
+
+  static calculateRSI(prices: number[], period = 14): number {
+    return this.last(this.rsiSeries(prices, period)) ?? 50
   }
 
   static calculateMACD(prices: number[]): { macd: number; signal: number; histogram: number } {
-    const ema12 = this.calculateEMA(prices, 12)
-    const ema26 = this.calculateEMA(prices, 26)
-    const macd = ema12 - ema26
-    const signal = macd * 0.9 // Simplified signal line
-    const histogram = macd - signal
+    const series = this.macdSeries(prices)
+    const macd = this.last(series.macd) ?? 0
+    // Until there are enough MACD points for the 9-period signal, the signal tracks the MACD line
+    const signal = this.last(series.signal) ?? macd
 
-    return { macd, signal, histogram }
+    return { macd, signal, histogram: macd - signal }
   }
 
   static calculateBollingerBands(prices: number[], period = 20, stdDev = 2) {
-    const sma = this.calculateSMA(prices, period)
-    const recentPrices = prices.slice(-period)
-
-    const variance = recentPrices.reduce((sum, price) => sum + Math.pow(price - sma, 2), 0) / period
-    const standardDeviation = Math.sqrt(variance)
+    if (prices.length < period) {
+      const price = prices[prices.length - 1] || 0
+      return { upper: price, middle: price, lower: price, width: 0 }
+    }
 
+    const series = this.bollingerSeries(prices, period, stdDev)
     return {
-      upper: sma + standardDeviation * stdDev,
-      middle: sma,
-      lower: sma - standardDeviation * stdDev,
-      width: ((standardDeviation * stdDev * 2) / sma) * 100,
+      upper: this.last(series.upper)!,
+      middle: this.last(series.middle)!,
+      lower: this.last(series.lower)!,
+      width: this.last(series.width)!,
     }
   }
 
@@ -85,4 +327,126 @@ export class TechnicalAnalysis {
 
     return (annualizedReturn - riskFreeRate) / volatility
   }
+
+  /** Latest indicator values plus recent RSI/MACD/OBV history, computed from daily OHLCV candles */
+  static calculateIndicatorSnapshot(candles: HistoricalCandle[]): TechnicalIndicatorSnapshot {
+    const prices = candles.map((candle) => candle.close)
+    const macd = this.calculateMACD(prices)
+    const macdSeries = this.macdSeries(prices)
+    const stochastic = this.stochasticSeries(candles)
+    const adx = this.adxSeries(candles)
+    const ichimoku = this.ichimokuSeries(candles)
+    const lastClose = prices[prices.length - 1] || 0
+
+    return {
+      rsi: this.calculateRSI(prices),
+      macd: {
+        value: macd.macd,
+        signal: macd.signal,
+        histogram: this.recent(macdSeries.histogram, 20),
+      },
+      sma: {
+        sma20: this.calculateSMA(prices, 20),
+        sma50: this.calculateSMA(prices, 50),
+        sma200: this.calculateSMA(prices, 200),
+      },
+      ema: {
+        ema12: this.calculateEMA(prices, 12),
+        ema26: this.calculateEMA(prices, 26),
+      },
+      bollinger: this.calculateBollingerBands(prices),
+      adx: this.last(adx.adx) ?? 0,
+      obv: this.obvSeries(candles).slice(-SNAPSHOT_HISTORY_LENGTH),
+      historicalRsi: this.recent(this.rsiSeries(prices), SNAPSHOT_HISTORY_LENGTH),
+      historicalMacd: {
+        macd: this.recent(macdSeries.macd, SNAPSHOT_HISTORY_LENGTH),
+        signal: this.recent(macdSeries.signal, SNAPSHOT_HISTORY_LENGTH),
+        histogram: this.recent(macdSeries.histogram, SNAPSHOT_HISTORY_LENGTH),
+      },
+      atr: this.last(this.atrSeries(candles)) ?? 0,
+      stochastic: {
+        k: this.last(stochastic.k) ?? 50,
+        d: this.last(stochastic.d) ?? 50,
+      },
+      dmi: {
+        plusDI: this.last(adx.plusDI) ?? 0,
+        minusDI: this.last(adx.minusDI) ?? 0,
+      },
+      vwap: this.last(this.vwapSeries(candles)) ?? lastClose,
+      ichimoku: {
+        conversion: this.last(ichimoku.conversion) ?? lastClose,
+        base: this.last(ichimoku.base) ?? lastClose,
+        spanA: this.last(ichimoku.spanA),
+        spanB: this.last(ichimoku.spanB),
+      },
+    }
+  }
+
+  /** Last defined value of a series */
+  static last(series: IndicatorSeries): number | null {
+    for (let i = series.length - 1; i >= 0; i--) {
+      if (series[i] !== null) return series[i]
+    }
+    return null
+  }
+
+  /** Trailing defined values of a series, oldest first */
+  static recent(series: IndicatorSeries, count: number): number[] {
+    return series.filter((value): value is number => value !== null).slice(-count)
+  }
+
+  private static trueRanges(candles: OHLCVCandle[]): number[] {
+    return candles.map((candle, i) => {
+      if (i === 0) return candle.high - candle.low
+      const previousClose = candles[i - 1].close
+      return Math.max(
+        candle.high - candle.low,
+        Math.abs(candle.high - previousClose),
+        Math.abs(candle.low - previousClose),
+      )
+    })
+  }
+
+  /**
+   * Wilder smoothing seeded with the first `period` values, skipping leading nulls.
+   * "average" is used for ATR and ADX; "sum" keeps the running totals the +DM/-DM/TR ratios use.
+   */
+  private static wilderSmooth(
+    values: IndicatorSeries,
+    period: number,
+    mode: "average" | "sum" = "average",
+  ): IndicatorSeries {
+    const series: IndicatorSeries = new Array(values.length).fill(null)
+    const start = values.findIndex((value) => value !== null)
+    if (start === -1 || values.length - start < period) return series
+
+    let smoothed = 0
+    for (let i = start; i < start + period; i++) smoothed += values[i] as number
+    if (mode === "average") smoothed /= period
+    series[start + period - 1] = smoothed
+
+    for (let i = start + period; i < values.length; i++) {
+      smoothed =
+        mode === "average"
+          ? (smoothed * (period - 1) + (values[i] as number)) / period
+          : smoothed - smoothed / period + (values[i] as number)
+      series[i] = smoothed
+    }
+
+    return series
+  }
+
+  /** (highest high + lowest low) / 2 over a rolling window, as used by the Ichimoku lines */
+  private static midpointSeries(candles: OHLCVCandle[], period: number): IndicatorSeries {
+    return candles.map((_, i) => {
+      if (i < period - 1) return null
+      const window = candles.slice(i - period + 1, i + 1)
+      return (Math.max(...window.map((candle) => candle.high)) + Math.min(...window.map((candle) => candle.low))) / 2
+    })
+  }
+
+  private static rsiFromAverages(avgGain: number, avgLoss: number): number {
+    if (avgLoss === 0) return avgGain === 0 ? 50 : 100
+    return 100 - 100 / (1 + avgGain / avgLoss)
+  }
 }
@@ -0,0 +1,31 @@
+/**
+ * Watchlist contracts
+ *
+ * A watchlist is an ordered list of symbols, each a stock ticker or a crypto symbol. Lists are stored per
+ * anonymous owner when a database is configured, otherwise in the browser's localStorage.
+ */
+
+export type AssetType = "stock" | "crypto"
+
+export interface WatchlistItem {
+  symbol: string
+  assetType: AssetType
+}
+
+export interface Watchlist {
+  id: number
+  name: string
+  /** Display order among the owner's watchlists, starting at 0 */
+  position: number
+  items: WatchlistItem[]
+  createdAt: string
+  updatedAt: string
+}
+
+/** Per-symbol figures the live grid shows next to the streamed price */
+export interface WatchlistMetrics {
+  symbol: string
+  rsi: number | null
+  recommendation: string | null
+  recommendedAt: string | null
+}
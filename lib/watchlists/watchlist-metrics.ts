@@ -0,0 +1,62 @@
+import { getSql } from "@/lib/db/sql"
+import { MultiSourceStockClient } from "@/lib/api/multi-source-client"
+import { TechnicalAnalysis } from "@/lib/utils/technical-analysis"
+import type { WatchlistMetrics } from "./types"
+
+/** Calendar days of closes loaded for RSI(14); leaves room for weekends and holidays */
+const RSI_HISTORY_DAYS = 60
+
+/**
+ * RSI and the most recent stored recommendation for each symbol. Either figure is null when it is not
+ * available, e.g. a symbol that has never been analyzed or a deployment without a database.
+ */
+export async function loadWatchlistMetrics(
+  symbols: string[],
+  client: Pick<MultiSourceStockClient, "getHistoricalData"> = new MultiSourceStockClient(),
+): Promise<WatchlistMetrics[]> {
+  const [rsiValues, recommendations] = await Promise.all([
+    Promise.all(
+      symbols.map(async (symbol) => {
+        try {
+          const candles = await client.getHistoricalData(symbol, RSI_HISTORY_DAYS)
+          return candles.length > 14 ? TechnicalAnalysis.calculateRSI(candles.map((candle) => candle.close)) : null
+        } catch (error: any) {
+          console.warn(`Non-critical: No history for ${symbol} RSI:`, error.message)
+          return null
+        }
+      }),
+    ),
+    loadLatestRecommendations(symbols),
+  ])
+
+  return symbols.map((symbol, i) => ({
+    symbol,
+    rsi: rsiValues[i],
+    recommendation: recommendations.get(symbol)?.recommendation ?? null,
+    recommendedAt: recommendations.get(symbol)?.date ?? null,
+  }))
+}
+
+async function loadLatestRecommendations(
+  symbols: string[],
+): Promise<Map<string, { recommendation: string; date: string }>> {
+  if (!process.env.DATABASE_URL || symbols.length === 0) return new Map()
+  try {
+    const sql = getSql()
+    const rows = await sql`
+      SELECT DISTINCT ON (ticker) ticker, recommendation, prediction_date
+      FROM predictions
+      WHERE ticker = ANY(${symbols}) AND recommendation IS NOT NULL
+      ORDER BY ticker, prediction_date DESC, id DESC
+    `
+    return new Map(
+      rows.map((row: any) => [
+        row.ticker,
+        { recommendation: row.recommendation, date: new Date(row.prediction_date).toISOString().split("T")[0] },
+      ]),
+    )
+  } catch (error: any) {
+    console.warn("Non-critical: Failed to load recommendations:", error.message)
+    return new Map()
+  }
+}
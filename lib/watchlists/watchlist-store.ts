@@ -0,0 +1,163 @@
+import { getSql } from "@/lib/db/sql"
+import {
+  MAX_WATCHLISTS,
+  WatchlistError,
+  normalizeWatchlistItems,
+  normalizeWatchlistName,
+  validateOrder,
+} from "./watchlist"
+import type { Watchlist, WatchlistItem } from "./types"
+
+/**
+ * Watchlist persistence
+ *
+ * Watchlists live in Neon, scoped by the anonymous owner id from lib/auth/owner. Item order is stored
+ * explicitly; an items update replaces the whole ordered list, which covers adds, removals and reordering.
+ */
+
+let tablesReady: Promise<void> | null = null
+
+export function ensureWatchlistTables(): Promise<void> {
+  if (!tablesReady) {
+    const sql = getSql()
+    tablesReady = sql`
+      CREATE TABLE IF NOT EXISTS watchlists (
+        id SERIAL PRIMARY KEY,
+        owner_id VARCHAR(64) NOT NULL,
+        name VARCHAR(60) NOT NULL,
+        position INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `
+      .then(
+        () => sql`
+          CREATE TABLE IF NOT EXISTS watchlist_items (
+            watchlist_id INTEGER NOT NULL REFERENCES watchlists(id) ON DELETE CASCADE,
+            symbol VARCHAR(16) NOT NULL,
+            asset_type VARCHAR(8) NOT NULL DEFAULT 'stock',
+            position INTEGER NOT NULL,
+            PRIMARY KEY (watchlist_id, asset_type, symbol)
+          )
+        `,
+      )
+      .then(() => sql`CREATE INDEX IF NOT EXISTS idx_watchlists_owner ON watchlists (owner_id, position)`)
+      .then(() => undefined)
+      .catch((error) => {
+        tablesReady = null
+        throw error
+      })
+  }
+  return tablesReady
+}
+
+/** An owner's watchlists in display order, with their items */
+export async function listWatchlists(ownerId: string): Promise<Watchlist[]> {
+  await ensureWatchlistTables()
+  const sql = getSql()
+  const [listRows, itemRows] = await Promise.all([
+    sql`SELECT * FROM watchlists WHERE owner_id = ${ownerId} ORDER BY position ASC, id ASC`,
+    sql`
+      SELECT i.* FROM watchlist_items i
+      JOIN watchlists w ON w.id = i.watchlist_id
+      WHERE w.owner_id = ${ownerId}
+      ORDER BY i.position ASC
+    `,
+  ])
+
+  return listRows.map((row: any) =>
+    mapWatchlist(
+      row,
+      itemRows.filter((item: any) => item.watchlist_id === row.id),
+    ),
+  )
+}
+
+export async function createWatchlist(
+  ownerId: string,
+  input: { name: unknown; items?: unknown },
+): Promise<Watchlist> {
+  const name = normalizeWatchlistName(input.name)
+  const items = input.items === undefined ? [] : normalizeWatchlistItems(input.items)
+
+  await ensureWatchlistTables()
+  const sql = getSql()
+  const [{ count }] = await sql`SELECT COUNT(*)::int AS count FROM watchlists WHERE owner_id = ${ownerId}`
+  if (count >= MAX_WATCHLISTS) {
+    throw new WatchlistError(`At most ${MAX_WATCHLISTS} watchlists can be saved`, 409)
+  }
+
+  const rows = await sql`
+    INSERT INTO watchlists (owner_id, name, position)
+    VALUES (${ownerId}, ${name}, ${count})
+    RETURNING *
+  `
+  await replaceItems(rows[0].id, items)
+  return mapWatchlist(rows[0], items.map(toItemRow))
+}
+
+/** Rename a watchlist and/or replace its ordered items */
+export async function updateWatchlist(
+  ownerId: string,
+  id: number,
+  input: { name?: unknown; items?: unknown },
+): Promise<Watchlist | null> {
+  const name = input.name === undefined ? undefined : normalizeWatchlistName(input.name)
+  const items = input.items === undefined ? undefined : normalizeWatchlistItems(input.items)
+
+  await ensureWatchlistTables()
+  const sql = getSql()
+  const rows = await sql`
+    UPDATE watchlists SET name = COALESCE(${name ?? null}, name), updated_at = NOW()
+    WHERE id = ${id} AND owner_id = ${ownerId}
+    RETURNING *
+  `
+  if (rows.length === 0) return null
+
+  if (items) await replaceItems(id, items)
+  const itemRows = await sql`SELECT * FROM watchlist_items WHERE watchlist_id = ${id} ORDER BY position ASC`
+  return mapWatchlist(rows[0], itemRows)
+}
+
+/** Put the owner's watchlists in the given order; `ids` must name each of them once */
+export async function reorderWatchlists(ownerId: string, ids: unknown): Promise<Watchlist[]> {
+  const order = validateOrder(await listWatchlists(ownerId), ids)
+  const sql = getSql()
+  for (const [position, id] of order.entries()) {
+    await sql`UPDATE watchlists SET position = ${position} WHERE id = ${id} AND owner_id = ${ownerId}`
+  }
+  return listWatchlists(ownerId)
+}
+
+export async function deleteWatchlist(ownerId: string, id: number): Promise<boolean> {
+  await ensureWatchlistTables()
+  const sql = getSql()
+  const rows = await sql`DELETE FROM watchlists WHERE id = ${id} AND owner_id = ${ownerId} RETURNING id`
+  return rows.length > 0
+}
+
+async function replaceItems(watchlistId: number, items: WatchlistItem[]): Promise<void> {
+  const sql = getSql()
+  await sql`DELETE FROM watchlist_items WHERE watchlist_id = ${watchlistId}`
+  for (const [position, item] of items.entries()) {
+    await sql`
+      INSERT INTO watchlist_items (watchlist_id, symbol, asset_type, position)
+      VALUES (${watchlistId}, ${item.symbol}, ${item.assetType}, ${position})
+    `
+  }
+}
+
+function toItemRow(item: WatchlistItem, position: number) {
+  return { symbol: item.symbol, asset_type: item.assetType, position }
+}
+
+function mapWatchlist(row: any, itemRows: any[]): Watchlist {
+  return {
+    id: row.id,
+    name: row.name,
+    position: Number(row.position),
+    items: itemRows.map((item) => ({ symbol: item.symbol, assetType: item.asset_type })),
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  }
+}
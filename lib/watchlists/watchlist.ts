@@ -0,0 +1,71 @@
+import type { AssetType, Watchlist, WatchlistItem } from "./types"
+
+/**
+ * Watchlist rules shared by the database store and the browser's localStorage fallback
+ */
+
+export class WatchlistError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "WatchlistError"
+  }
+}
+
+export const ASSET_TYPES: AssetType[] = ["stock", "crypto"]
+export const MAX_WATCHLISTS = 20
+export const MAX_WATCHLIST_ITEMS = 50
+const MAX_NAME_LENGTH = 60
+
+export function normalizeWatchlistName(name: unknown): string {
+  const trimmed = typeof name === "string" ? name.trim() : ""
+  if (!trimmed || trimmed.length > MAX_NAME_LENGTH) {
+    throw new WatchlistError(`Watchlist name must be 1-${MAX_NAME_LENGTH} characters`)
+  }
+  return trimmed
+}
+
+/** Validate an ordered item list, dropping repeats of a symbol but keeping its first position */
+export function normalizeWatchlistItems(items: unknown): WatchlistItem[] {
+  if (!Array.isArray(items)) throw new WatchlistError("items must be an array")
+
+  const seen = new Set<string>()
+  const normalized: WatchlistItem[] = []
+  for (const item of items) {
+    const symbol = typeof item?.symbol === "string" ? item.symbol.trim().toUpperCase() : ""
+    const assetType = item?.assetType ?? "stock"
+    if (!/^[A-Z0-9.^-]{1,16}$/.test(symbol)) throw new WatchlistError(`Invalid symbol: ${item?.symbol}`)
+    if (!ASSET_TYPES.includes(assetType)) throw new WatchlistError(`assetType must be one of ${ASSET_TYPES.join(", ")}`)
+
+    const key = `${assetType}:${symbol}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    normalized.push({ symbol, assetType })
+  }
+
+  if (normalized.length > MAX_WATCHLIST_ITEMS) {
+    throw new WatchlistError(`A watchlist can hold at most ${MAX_WATCHLIST_ITEMS} symbols`)
+  }
+  return normalized
+}
+
+/** Check that `ids` is exactly the current set of watchlists in a new order */
+export function validateOrder(watchlists: Pick<Watchlist, "id">[], ids: unknown): number[] {
+  const order = Array.isArray(ids) ? ids.map(Number) : []
+  const current = watchlists.map((list) => list.id).sort((a, b) => a - b)
+  const requested = [...order].sort((a, b) => a - b)
+  if (current.length !== requested.length || current.some((id, i) => id !== requested[i])) {
+    throw new WatchlistError("order must list every watchlist id exactly once")
+  }
+  return order
+}
+
+/**
+ * Symbol used for quotes and analysis. Market data providers quote crypto against the dollar as
+ * e.g. BTC-USD; stocks are used as entered.
+ */
+export function marketSymbol(item: WatchlistItem): string {
+  return item.assetType === "crypto" && !item.symbol.includes("-") ? `${item.symbol}-USD` : item.symbol
+}
@@ -0,0 +1,54 @@
+/**
+ * Custom service worker code. next-pwa bundles this file and imports it into the generated public/sw.js
+ * on the next production build, alongside the Workbox caching routes.
+ */
+
+// Payloads are the PushNotification JSON sent by lib/push/web-push
+self.addEventListener("push", (event) => {
+  let notification = { title: "StockPilot", body: "" }
+  try {
+    notification = event.data ? event.data.json() : notification
+  } catch {
+    notification.body = event.data ? event.data.text() : ""
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(notification.title, {
+      body: notification.body,
+      tag: notification.tag,
+      icon: "/android-chrome-192x192.png",
+      badge: "/android-chrome-192x192.png",
+      data: { url: notification.url || "/" },
+    }),
+  )
+})
+
+// Focus an open tab on the target page, or open one
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close()
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const existing = clients.find((client) => client.url === url)
+      return existing ? existing.focus() : self.clients.openWindow(url)
+    }),
+  )
+})
+
+// Browsers may rotate a subscription; store the replacement so alerts keep arriving
+self.addEventListener("pushsubscriptionchange", (event) => {
+  const options = event.oldSubscription?.options
+  if (!options) return
+
+  event.waitUntil(
+    self.registration.pushManager.subscribe(options).then((subscription) =>
+      fetch("/api/push/subscription", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ subscription: subscription.toJSON() }),
+      }),
+    ),
+  )
+})